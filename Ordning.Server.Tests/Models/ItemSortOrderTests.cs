@@ -0,0 +1,72 @@
+using Ordning.Server.Items.Models;
+
+namespace Ordning.Server.Tests.Models
+{
+    /// <summary>
+    /// Unit tests for parsing item sort orders and property ranges.
+    /// </summary>
+    public class ItemSortOrderTests
+    {
+        [Fact]
+        public void Parse_WhenSortIsDescendingProperty_ReadsPropertyKey()
+        {
+            // Act
+            ItemSortOrder? sortOrder = ItemSortOrder.Parse("-property:weight");
+
+            // Assert
+            Assert.NotNull(sortOrder);
+            Assert.Equal(ItemSortOrder.Property, sortOrder.Field);
+            Assert.Equal("weight", sortOrder.PropertyKey);
+            Assert.True(sortOrder.IsDescending);
+        }
+
+        [Fact]
+        public void Parse_WhenSortIsBuiltInField_IgnoresCase()
+        {
+            // Act
+            ItemSortOrder? sortOrder = ItemSortOrder.Parse("Updated");
+
+            // Assert
+            Assert.NotNull(sortOrder);
+            Assert.Equal(ItemSortOrder.Updated, sortOrder.Field);
+            Assert.False(sortOrder.IsDescending);
+            Assert.Null(ItemSortOrder.Parse(" "));
+        }
+
+        [Theory]
+        [InlineData("price")]
+        [InlineData("property:")]
+        public void Parse_WhenSortIsUnknown_ThrowsArgumentException(string sort)
+        {
+            // Act & Assert
+            Assert.Throws<ArgumentException>(() => ItemSortOrder.Parse(sort));
+        }
+
+        [Fact]
+        public void ParseMany_WhenRangesHaveOpenBounds_LeavesThemEmpty()
+        {
+            // Act
+            IReadOnlyList<ItemPropertyRange> ranges = ItemPropertyRange.ParseMany(new[] { "weight=-2.5..", "bought=..2026-01-31" });
+
+            // Assert
+            Assert.Equal(2, ranges.Count);
+            Assert.Equal("weight", ranges[0].Key);
+            Assert.Equal("-2.5", ranges[0].Min);
+            Assert.Null(ranges[0].Max);
+            Assert.Equal("bought", ranges[1].Key);
+            Assert.Null(ranges[1].Min);
+            Assert.Equal("2026-01-31", ranges[1].Max);
+        }
+
+        [Theory]
+        [InlineData("weight")]
+        [InlineData("weight=5")]
+        [InlineData("weight=..")]
+        [InlineData("=1..2")]
+        public void ParseMany_WhenRangeIsMalformed_ThrowsArgumentException(string range)
+        {
+            // Act & Assert
+            Assert.Throws<ArgumentException>(() => ItemPropertyRange.ParseMany(new[] { range }));
+        }
+    }
+}
@@ -0,0 +1,61 @@
+using Ordning.Server.PropertyDefinitions.Models;
+
+namespace Ordning.Server.Tests.Models
+{
+    /// <summary>
+    /// Unit tests for PropertyDefinition value normalization.
+    /// </summary>
+    public class PropertyDefinitionTests
+    {
+        [Theory]
+        [InlineData(PropertyTypes.Text, "  Red  ", "Red")]
+        [InlineData(PropertyTypes.Number, "-0.5", "-0.5")]
+        [InlineData(PropertyTypes.Number, " 12 ", "12")]
+        [InlineData(PropertyTypes.Date, "2026-03-09", "2026-03-09")]
+        [InlineData(PropertyTypes.Boolean, "Yes", "true")]
+        [InlineData(PropertyTypes.Boolean, "FALSE", "false")]
+        [InlineData(PropertyTypes.Url, "https://example.com/manual.pdf", "https://example.com/manual.pdf")]
+        public void NormalizeValue_WhenValueIsValid_ReturnsStoredForm(string type, string value, string expected)
+        {
+            // Arrange
+            PropertyDefinition definition = new PropertyDefinition(key: "key", name: "Key", type: type);
+
+            // Act
+            string result = definition.NormalizeValue(value);
+
+            // Assert
+            Assert.Equal(expected, result);
+        }
+
+        [Theory]
+        [InlineData(PropertyTypes.Number, "1,000")]
+        [InlineData(PropertyTypes.Date, "2026-02-30")]
+        [InlineData(PropertyTypes.Date, "09/03/2026")]
+        [InlineData(PropertyTypes.Boolean, "maybe")]
+        [InlineData(PropertyTypes.Url, "ftp://example.com")]
+        [InlineData(PropertyTypes.Url, "example.com")]
+        public void NormalizeValue_WhenValueIsInvalid_ThrowsArgumentException(string type, string value)
+        {
+            // Arrange
+            PropertyDefinition definition = new PropertyDefinition(key: "key", name: "Key", type: type);
+
+            // Act & Assert
+            Assert.Throws<ArgumentException>(() => definition.NormalizeValue(value));
+        }
+
+        [Fact]
+        public void NormalizeValue_WhenEnumValueDiffersInCase_ReturnsOptionAsDefined()
+        {
+            // Arrange
+            PropertyDefinition definition = new PropertyDefinition(key: "color", name: "Color", type: PropertyTypes.Enum, options: new[] { "Red", "Blue" });
+
+            // Act
+            string result = definition.NormalizeValue("blue");
+
+            // Assert
+            Assert.Equal("Blue", result);
+            ArgumentException exception = Assert.Throws<ArgumentException>(() => definition.NormalizeValue("Green"));
+            Assert.Contains("Red, Blue", exception.Message);
+        }
+    }
+}
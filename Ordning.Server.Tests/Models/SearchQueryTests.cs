@@ -0,0 +1,86 @@
+using Ordning.Server.Search.Models;
+
+namespace Ordning.Server.Tests.Models
+{
+    /// <summary>
+    /// Unit tests for SearchQuery parsing.
+    /// </summary>
+    public class SearchQueryTests
+    {
+        [Fact]
+        public void Parse_WhenQueryCombinesSyntax_SplitsTextPhrasesExclusionsAndFilters()
+        {
+            // Act
+            SearchQuery query = SearchQuery.Parse("in:G1 color:red -broken \"power drill\" updated:>2026-01-01 cordless");
+
+            // Assert
+            Assert.Equal("cordless", query.Text);
+            Assert.Equal(new[] { "power drill" }, query.Phrases);
+            Assert.Equal(new[] { "broken" }, query.ExcludedTerms);
+            Assert.Equal(3, query.Filters.Count);
+            Assert.Equal("in", query.Filters[0].Key);
+            Assert.Equal("G1", query.Filters[0].Value);
+            Assert.Equal("color", query.Filters[1].Key);
+            Assert.Equal("red", query.Filters[1].Value);
+            Assert.Equal("updated", query.Filters[2].Key);
+            Assert.Equal(SearchFilterOperator.GreaterThan, query.Filters[2].Operator);
+            Assert.Equal("2026-01-01", query.Filters[2].Value);
+            Assert.False(query.IsPlainText);
+        }
+
+        [Fact]
+        public void Parse_WhenQueryIsWords_IsPlainText()
+        {
+            // Act
+            SearchQuery query = SearchQuery.Parse("  hammer   drill ");
+
+            // Assert
+            Assert.Equal("hammer drill", query.Text);
+            Assert.True(query.IsPlainText);
+            Assert.True(query.HasText);
+        }
+
+        [Fact]
+        public void Parse_WhenFilterIsNegatedAndQuoted_ReadsQuotedValue()
+        {
+            // Act
+            SearchQuery query = SearchQuery.Parse("-color:\"dark red\" -\"spare parts\"");
+
+            // Assert
+            SearchQueryFilter filter = Assert.Single(query.Filters);
+            Assert.Equal("dark red", filter.Value);
+            Assert.True(filter.IsNegated);
+            Assert.Equal(new[] { "spare parts" }, query.ExcludedTerms);
+            Assert.False(query.HasText);
+        }
+
+        [Fact]
+        public void Parse_WhenFilterHasNoValueOrPhraseIsUnterminated_IgnoresEmptyFilterAndReadsToEnd()
+        {
+            // Act
+            SearchQuery query = SearchQuery.Parse("in: \"power dr");
+
+            // Assert
+            Assert.Empty(query.Filters);
+            Assert.Equal(new[] { "power dr" }, query.Phrases);
+        }
+
+        [Fact]
+        public void Parse_WhenDateIsInvalid_ThrowsArgumentException()
+        {
+            // Act & Assert
+            ArgumentException exception = Assert.Throws<ArgumentException>(() => SearchQuery.Parse("created:<=01/02/2026"));
+
+            Assert.Contains("not a valid date", exception.Message);
+        }
+
+        [Fact]
+        public void Parse_WhenPropertyFilterUsesComparison_ThrowsArgumentException()
+        {
+            // Act & Assert
+            ArgumentException exception = Assert.Throws<ArgumentException>(() => SearchQuery.Parse("size:>3"));
+
+            Assert.Contains("can only match exact values", exception.Message);
+        }
+    }
+}
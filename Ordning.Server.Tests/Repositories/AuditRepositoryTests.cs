@@ -0,0 +1,195 @@
+using EasyReasy.Database;
+using Ordning.Server.Audit.Models;
+using Ordning.Server.Audit.Repositories;
+using Ordning.Server.Tests.TestUtilities;
+using Ordning.Server.Users.Repositories;
+using Ordning.Server.Workspaces.Models;
+using Ordning.Server.Workspaces.Repositories;
+
+namespace Ordning.Server.Tests.Repositories
+{
+    /// <summary>
+    /// Integration tests for AuditRepository.
+    /// </summary>
+    public class AuditRepositoryTests : RepositoryTestBase
+    {
+        private AuditRepository Repository { get; set; } = null!;
+        private UserRepository UserRepository { get; set; } = null!;
+        private WorkspaceRepository WorkspaceRepository { get; set; } = null!;
+
+        public override async Task InitializeAsync()
+        {
+            await base.InitializeAsync();
+            Repository = new AuditRepository(TestDatabaseManager.DataSource, SessionFactory);
+            UserRepository = new UserRepository(TestDatabaseManager.DataSource, SessionFactory);
+            WorkspaceRepository = new WorkspaceRepository(TestDatabaseManager.DataSource, SessionFactory);
+        }
+
+        [Fact]
+        public async Task CreateAsync_WhenCalled_ReturnsEntryWithSnapshots()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                Guid id = Guid.NewGuid();
+                string entityId = Guid.NewGuid().ToString();
+
+                // Act
+                AuditEntryDbModel result = await Repository.CreateAsync(
+                    id: id,
+                    entityType: AuditEntityTypes.Item,
+                    entityId: entityId,
+                    action: AuditActions.Update,
+                    userId: null,
+                    beforeJson: "{\"name\": \"Old\"}",
+                    afterJson: "{\"name\": \"New\"}",
+                    session: session);
+
+                // Assert
+                Assert.Equal(id, result.Id);
+                Assert.Equal(AuditEntityTypes.Item, result.EntityType);
+                Assert.Equal(entityId, result.EntityId);
+                Assert.Equal(AuditActions.Update, result.Action);
+                Assert.Null(result.UserId);
+                Assert.Null(result.Username);
+                Assert.Contains("Old", result.BeforeJson);
+                Assert.Contains("New", result.AfterJson);
+                Assert.NotEqual(default, result.CreatedAt);
+            }
+        }
+
+        [Fact]
+        public async Task GetEntriesAsync_WhenFilteredByEntity_ReturnsOnlyThatEntityNewestFirst()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string entityId = $"audit-test-{Guid.NewGuid()}";
+                string otherEntityId = $"audit-test-{Guid.NewGuid()}";
+
+                AuditEntryDbModel created = await Repository.CreateAsync(Guid.NewGuid(), AuditEntityTypes.Location, entityId, AuditActions.Create, null, null, "{}", session: session);
+                AuditEntryDbModel moved = await Repository.CreateAsync(Guid.NewGuid(), AuditEntityTypes.Location, entityId, AuditActions.Move, null, "{}", "{}", session: session);
+                await Repository.CreateAsync(Guid.NewGuid(), AuditEntityTypes.Location, otherEntityId, AuditActions.Create, null, null, "{}", session: session);
+
+                // Act
+                (IEnumerable<AuditEntryDbModel> results, int totalCount) = await Repository.GetEntriesAsync(
+                    entityType: AuditEntityTypes.Location,
+                    entityId: entityId,
+                    userId: null,
+                    action: null,
+                    offset: 0,
+                    limit: 10,
+                    session: session);
+
+                // Assert
+                List<AuditEntryDbModel> resultList = results.ToList();
+                Assert.Equal(2, totalCount);
+                Assert.Equal(new[] { moved.Id, created.Id }, resultList.Select(e => e.Id));
+            }
+        }
+
+        [Fact]
+        public async Task GetEntriesAsync_WhenLocationsAreHidden_LeavesOutTheirChangesAndItemsInThem()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                Guid workspaceId = Guid.NewGuid();
+                string hiddenLocationId = $"audit-test-{Guid.NewGuid()}";
+                string visibleLocationId = $"audit-test-{Guid.NewGuid()}";
+
+                await Repository.CreateAsync(Guid.NewGuid(), AuditEntityTypes.Location, hiddenLocationId, AuditActions.Create, null, null, "{}", workspaceId, session: session);
+                await Repository.CreateAsync(Guid.NewGuid(), AuditEntityTypes.Item, Guid.NewGuid().ToString(), AuditActions.Create, null, null, $"{{\"locationId\": \"{hiddenLocationId}\"}}", workspaceId, session: session);
+                await Repository.CreateAsync(Guid.NewGuid(), AuditEntityTypes.Item, Guid.NewGuid().ToString(), AuditActions.Move, null, $"{{\"locationId\": \"{visibleLocationId}\"}}", $"{{\"locationId\": \"{hiddenLocationId}\"}}", workspaceId, session: session);
+                AuditEntryDbModel visibleItem = await Repository.CreateAsync(Guid.NewGuid(), AuditEntityTypes.Item, Guid.NewGuid().ToString(), AuditActions.Delete, null, $"{{\"locationId\": \"{visibleLocationId}\"}}", null, workspaceId, session: session);
+                AuditEntryDbModel visibleLocation = await Repository.CreateAsync(Guid.NewGuid(), AuditEntityTypes.Location, visibleLocationId, AuditActions.Create, null, null, "{}", workspaceId, session: session);
+
+                // Act
+                (IEnumerable<AuditEntryDbModel> results, int totalCount) = await Repository.GetEntriesAsync(
+                    entityType: null,
+                    entityId: null,
+                    userId: null,
+                    action: null,
+                    offset: 0,
+                    limit: 10,
+                    workspaceId: workspaceId,
+                    hiddenLocationIds: new[] { hiddenLocationId },
+                    session: session);
+
+                // Assert
+                Assert.Equal(2, totalCount);
+                Assert.Equal(new[] { visibleLocation.Id, visibleItem.Id }, results.Select(e => e.Id));
+            }
+        }
+
+        [Fact]
+        public async Task GetEntriesAsync_WhenFilteredByAction_ReturnsOnlyThatAction()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string entityId = $"audit-test-{Guid.NewGuid()}";
+
+                await Repository.CreateAsync(Guid.NewGuid(), AuditEntityTypes.Item, entityId, AuditActions.Create, null, null, "{}", session: session);
+                AuditEntryDbModel deleted = await Repository.CreateAsync(Guid.NewGuid(), AuditEntityTypes.Item, entityId, AuditActions.Delete, null, "{}", null, session: session);
+
+                // Act
+                (IEnumerable<AuditEntryDbModel> results, int totalCount) = await Repository.GetEntriesAsync(
+                    entityType: null,
+                    entityId: entityId,
+                    userId: null,
+                    action: AuditActions.Delete,
+                    offset: 0,
+                    limit: 10,
+                    session: session);
+
+                // Assert
+                AuditEntryDbModel result = Assert.Single(results);
+                Assert.Equal(1, totalCount);
+                Assert.Equal(deleted.Id, result.Id);
+                Assert.Null(result.AfterJson);
+            }
+        }
+
+        [Fact]
+        public async Task GetUsersAsync_WhenCalled_ReturnsOnlyMembersWhoChangedSomethingInTheWorkspace()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                UserDbModel member = await CreateUserAsync("member", session);
+                UserDbModel formerMember = await CreateUserAsync("former", session);
+                UserDbModel outsider = await CreateUserAsync("outsider", session);
+                Guid workspaceId = Guid.NewGuid();
+                Guid otherWorkspaceId = Guid.NewGuid();
+                await WorkspaceRepository.CreateAsync(workspaceId, "Cabin", member.Id, session);
+                await WorkspaceRepository.CreateAsync(otherWorkspaceId, "Makerspace", outsider.Id, session);
+                await WorkspaceRepository.SetMemberAsync(workspaceId, formerMember.Id, WorkspaceRoles.Write, session);
+
+                await Repository.CreateAsync(Guid.NewGuid(), AuditEntityTypes.Item, Guid.NewGuid().ToString(), AuditActions.Create, member.Id, null, "{}", workspaceId, session: session);
+                await Repository.CreateAsync(Guid.NewGuid(), AuditEntityTypes.Item, Guid.NewGuid().ToString(), AuditActions.Create, formerMember.Id, null, "{}", workspaceId, session: session);
+                await Repository.CreateAsync(Guid.NewGuid(), AuditEntityTypes.Item, Guid.NewGuid().ToString(), AuditActions.Create, outsider.Id, null, "{}", otherWorkspaceId, session: session);
+                await WorkspaceRepository.RemoveMemberAsync(workspaceId, formerMember.Id, session);
+
+                // Act
+                IEnumerable<AuditUserDbModel> result = await Repository.GetUsersAsync(workspaceId, session);
+
+                // Assert
+                AuditUserDbModel user = Assert.Single(result);
+                Assert.Equal(member.Id, user.UserId);
+                Assert.Equal(member.Username, user.Username);
+            }
+        }
+
+        private async Task<UserDbModel> CreateUserAsync(string username, IDbSession session)
+        {
+            string uniqueUsername = $"{username}-{Guid.NewGuid():N}";
+            return await UserRepository.CreateAsync(
+                username: uniqueUsername,
+                email: $"{uniqueUsername}@example.com",
+                passwordHash: "hashed_password",
+                roles: null,
+                session: session);
+        }
+    }
+}
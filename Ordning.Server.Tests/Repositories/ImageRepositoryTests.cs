@@ -0,0 +1,175 @@
+using EasyReasy.Database;
+using Ordning.Server.Images.Models;
+using Ordning.Server.Images.Repositories;
+using Ordning.Server.Items.Repositories;
+using Ordning.Server.Locations.Repositories;
+using Ordning.Server.Tests.TestUtilities;
+using Ordning.Server.Workspaces.Models;
+
+namespace Ordning.Server.Tests.Repositories
+{
+    /// <summary>
+    /// Integration tests for ImageRepository.
+    /// </summary>
+    public class ImageRepositoryTests : RepositoryTestBase
+    {
+        private ImageRepository Repository { get; set; } = null!;
+        private ItemRepository ItemRepository { get; set; } = null!;
+        private LocationRepository LocationRepository { get; set; } = null!;
+
+        public override async Task InitializeAsync()
+        {
+            await base.InitializeAsync();
+            Repository = new ImageRepository(TestDatabaseManager.DataSource, SessionFactory);
+            ItemRepository = new ItemRepository(TestDatabaseManager.DataSource, SessionFactory);
+            LocationRepository = new LocationRepository(TestDatabaseManager.DataSource, SessionFactory);
+        }
+
+        [Fact]
+        public async Task CreateAsync_WhenOwnerHasImages_PlacesNewImageLast()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string ownerId = Guid.NewGuid().ToString();
+                ImageDbModel first = await Repository.CreateAsync(Guid.NewGuid(), Workspace.DefaultId, ImageOwnerTypes.Item, ownerId, ImageContentTypes.Webp, 1600, 1200, 120000, session);
+
+                // Act
+                ImageDbModel second = await Repository.CreateAsync(Guid.NewGuid(), Workspace.DefaultId, ImageOwnerTypes.Item, ownerId, ImageContentTypes.Webp, 1200, 1600, 90000, session);
+
+                // Assert
+                Assert.Equal(0, first.SortOrder);
+                Assert.Equal(1, second.SortOrder);
+                Assert.Equal(1200, second.Width);
+                Assert.Equal(1600, second.Height);
+                Assert.Equal(90000, second.SizeBytes);
+
+                IEnumerable<ImageDbModel> images = await Repository.GetByOwnerAsync(ImageOwnerTypes.Item, ownerId, session: session);
+                Assert.Equal(new[] { first.Id, second.Id }, images.Select(i => i.Id));
+            }
+        }
+
+        [Fact]
+        public async Task DeleteAsync_WhenImageExists_RemovesImage()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                ImageDbModel image = await Repository.CreateAsync(Guid.NewGuid(), Workspace.DefaultId, ImageOwnerTypes.Item, Guid.NewGuid().ToString(), ImageContentTypes.Jpeg, 800, 600, 50000, session);
+
+                // Act
+                bool deleted = await Repository.DeleteAsync(image.Id, session);
+
+                // Assert
+                Assert.True(deleted);
+                Assert.Null(await Repository.GetByIdAsync(image.Id, session: session));
+                Assert.False(await Repository.DeleteAsync(image.Id, session));
+            }
+        }
+
+        [Fact]
+        public async Task GetByOwnerAsync_WhenImagesWereUploadedInAnotherWorkspace_LeavesThemOut()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string ownerId = $"test-location-{Guid.NewGuid()}";
+                Guid otherWorkspaceId = Guid.NewGuid();
+                ImageDbModel otherImage = await Repository.CreateAsync(Guid.NewGuid(), otherWorkspaceId, ImageOwnerTypes.Location, ownerId, ImageContentTypes.Webp, 100, 100, 1000, session);
+                ImageDbModel image = await Repository.CreateAsync(Guid.NewGuid(), Workspace.DefaultId, ImageOwnerTypes.Location, ownerId, ImageContentTypes.Webp, 100, 100, 1000, session);
+
+                // Act
+                IEnumerable<ImageDbModel> result = await Repository.GetByOwnerAsync(ImageOwnerTypes.Location, ownerId, Workspace.DefaultId, session);
+                ImageDbModel? otherResult = await Repository.GetByIdAsync(otherImage.Id, Workspace.DefaultId, session);
+
+                // Assert
+                Assert.Equal(new[] { image.Id }, result.Select(i => i.Id));
+                Assert.Equal(0, image.SortOrder);
+                Assert.Null(otherResult);
+            }
+        }
+
+        [Fact]
+        public async Task LocationRepositoryGetByIdAsync_WhenImagesWereUploadedInAnotherWorkspace_LeavesThemOut()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"test-location-{Guid.NewGuid()}";
+                await Repository.CreateAsync(Guid.NewGuid(), Guid.NewGuid(), ImageOwnerTypes.Location, locationId, ImageContentTypes.Webp, 100, 100, 1000, session);
+                await LocationRepository.CreateAsync(locationId, "Drawer", null, null, session: session);
+
+                // Act
+                LocationDbModel? result = await LocationRepository.GetByIdAsync(locationId, session: session);
+
+                // Assert
+                Assert.NotNull(result);
+                Assert.Empty(result.ToDomainLocation().ImageIds);
+            }
+        }
+
+        [Fact]
+        public async Task ItemRepositoryGetByIdAsync_WhenItemHasImages_ReturnsImageIdsInOrder()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(locationId, "Test Location", null, null, session: session);
+
+                Guid itemId = Guid.NewGuid();
+                await ItemRepository.CreateAsync(itemId, "Drill", null, locationId, null, session: session);
+                ImageDbModel first = await Repository.CreateAsync(Guid.NewGuid(), Workspace.DefaultId, ImageOwnerTypes.Item, itemId.ToString(), ImageContentTypes.Webp, 100, 100, 1000, session);
+                ImageDbModel second = await Repository.CreateAsync(Guid.NewGuid(), Workspace.DefaultId, ImageOwnerTypes.Item, itemId.ToString(), ImageContentTypes.Webp, 100, 100, 1000, session);
+
+                // Act
+                ItemDbModel? result = await ItemRepository.GetByIdAsync(itemId, session: session);
+
+                // Assert
+                Assert.NotNull(result);
+                Assert.Equal(new[] { first.Id, second.Id }, result.ToDomainItem().ImageIds);
+            }
+        }
+
+        [Fact]
+        public async Task LocationRepositoryGetByIdAsync_WhenLocationHasImages_ReturnsImageIds()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(locationId, "Drawer", null, null, session: session);
+                ImageDbModel image = await Repository.CreateAsync(Guid.NewGuid(), Workspace.DefaultId, ImageOwnerTypes.Location, locationId, ImageContentTypes.Webp, 100, 100, 1000, session);
+
+                // Act
+                LocationDbModel? result = await LocationRepository.GetByIdAsync(locationId, session: session);
+
+                // Assert
+                Assert.NotNull(result);
+                Assert.Equal(new[] { image.Id }, result.ToDomainLocation().ImageIds);
+            }
+        }
+
+        [Fact]
+        public async Task GetOfDeletedOwnersAsync_WhenOwnerIsGone_ReturnsOnlyItsImages()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(locationId, "Drawer", null, null, session: session);
+                ImageDbModel keptImage = await Repository.CreateAsync(Guid.NewGuid(), Workspace.DefaultId, ImageOwnerTypes.Location, locationId, ImageContentTypes.Webp, 100, 100, 1000, session);
+                ImageDbModel orphanedImage = await Repository.CreateAsync(Guid.NewGuid(), Workspace.DefaultId, ImageOwnerTypes.Item, Guid.NewGuid().ToString(), ImageContentTypes.Webp, 100, 100, 1000, session);
+
+                // Act
+                List<Guid> result = (await Repository.GetOfDeletedOwnersAsync(DateTimeOffset.UtcNow.AddMinutes(1), session)).Select(i => i.Id).ToList();
+                List<Guid> resultBeforeUpload = (await Repository.GetOfDeletedOwnersAsync(DateTimeOffset.UtcNow.AddDays(-1), session)).Select(i => i.Id).ToList();
+
+                // Assert
+                Assert.Contains(orphanedImage.Id, result);
+                Assert.DoesNotContain(keptImage.Id, result);
+                Assert.DoesNotContain(orphanedImage.Id, resultBeforeUpload);
+            }
+        }
+    }
+}
@@ -3,7 +3,12 @@ using EasyReasy.Database;
 using Ordning.Server.Database;
 using Ordning.Server.Items.Models;
 using Ordning.Server.Items.Repositories;
+using Ordning.Server.ItemTemplates.Repositories;
 using Ordning.Server.Locations.Repositories;
+using Ordning.Server.PropertyDefinitions.Models;
+using Ordning.Server.Search.Models;
+using Ordning.Server.Tags.Models;
+using Ordning.Server.Tags.Repositories;
 using Ordning.Server.Tests.TestUtilities;
 
 namespace Ordning.Server.Tests.Repositories
@@ -15,12 +20,16 @@ namespace Ordning.Server.Tests.Repositories
     {
         private ItemRepository Repository { get; set; } = null!;
         private LocationRepository LocationRepository { get; set; } = null!;
+        private ItemTemplateRepository ItemTemplateRepository { get; set; } = null!;
+        private TagRepository TagRepository { get; set; } = null!;
 
         public override async Task InitializeAsync()
         {
             await base.InitializeAsync();
             Repository = new ItemRepository(TestDatabaseManager.DataSource, SessionFactory);
             LocationRepository = new LocationRepository(TestDatabaseManager.DataSource, SessionFactory);
+            ItemTemplateRepository = new ItemTemplateRepository(TestDatabaseManager.DataSource, SessionFactory);
+            TagRepository = new TagRepository(TestDatabaseManager.DataSource, SessionFactory);
         }
 
         [Fact]
@@ -51,7 +60,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                ItemDbModel? result = await Repository.GetByIdAsync(itemId, session);
+                ItemDbModel? result = await Repository.GetByIdAsync(itemId, session: session);
 
                 // Assert
                 Assert.NotNull(result);
@@ -75,7 +84,7 @@ namespace Ordning.Server.Tests.Repositories
                 Guid itemId = Guid.NewGuid();
 
                 // Act
-                ItemDbModel? result = await Repository.GetByIdAsync(itemId, session);
+                ItemDbModel? result = await Repository.GetByIdAsync(itemId, session: session);
 
                 // Assert
                 Assert.Null(result);
@@ -125,7 +134,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                IEnumerable<ItemDbModel> result = await Repository.GetAllAsync(session);
+                IEnumerable<ItemDbModel> result = await Repository.GetAllAsync(session: session);
 
                 // Assert
                 Assert.Contains(result, i => i.Id == itemId1);
@@ -194,7 +203,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                IEnumerable<ItemDbModel> result = await Repository.GetByLocationIdAsync(locationId1, session);
+                IEnumerable<ItemDbModel> result = await Repository.GetByLocationIdAsync(locationId1, session: session);
 
                 // Assert
                 Assert.Equal(2, result.Count());
@@ -209,6 +218,36 @@ namespace Ordning.Server.Tests.Repositories
             }
         }
 
+        [Fact]
+        public async Task GetByLocationIdsAsync_WhenItemsExistInSeveralLocations_ReturnsItemsInRequestedLocations()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId1 = $"location-1-{Guid.NewGuid()}";
+                string locationId2 = $"location-2-{Guid.NewGuid()}";
+                string locationId3 = $"location-3-{Guid.NewGuid()}";
+
+                await LocationRepository.CreateAsync(id: locationId1, name: "Location 1", description: null, parentLocationId: null, session: session);
+                await LocationRepository.CreateAsync(id: locationId2, name: "Location 2", description: null, parentLocationId: null, session: session);
+                await LocationRepository.CreateAsync(id: locationId3, name: "Location 3", description: null, parentLocationId: null, session: session);
+
+                Guid itemId1 = Guid.NewGuid();
+                Guid itemId2 = Guid.NewGuid();
+                Guid itemId3 = Guid.NewGuid();
+
+                await Repository.CreateAsync(id: itemId1, name: "Item 1", description: null, locationId: locationId1, properties: null, session: session);
+                await Repository.CreateAsync(id: itemId2, name: "Item 2", description: null, locationId: locationId2, properties: null, session: session);
+                await Repository.CreateAsync(id: itemId3, name: "Item 3", description: null, locationId: locationId3, properties: null, session: session);
+
+                // Act
+                IEnumerable<ItemDbModel> result = await Repository.GetByLocationIdsAsync(new[] { locationId1, locationId2 }, session);
+
+                // Assert
+                Assert.Equal(new[] { itemId1, itemId2 }, result.Select(i => i.Id));
+            }
+        }
+
         [Fact]
         public async Task GetByLocationIdAsync_WhenNoItemsInLocation_ReturnsEmpty()
         {
@@ -225,7 +264,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                IEnumerable<ItemDbModel> result = await Repository.GetByLocationIdAsync(locationId, session);
+                IEnumerable<ItemDbModel> result = await Repository.GetByLocationIdAsync(locationId, session: session);
 
                 // Assert
                 Assert.Empty(result);
@@ -272,7 +311,7 @@ namespace Ordning.Server.Tests.Repositories
                 Assert.True(result.UpdatedAt >= DateTimeOffset.UtcNow.AddSeconds(-5));
 
                 // Verify can retrieve by ID
-                ItemDbModel? retrieved = await Repository.GetByIdAsync(itemId, session);
+                ItemDbModel? retrieved = await Repository.GetByIdAsync(itemId, session: session);
                 Assert.NotNull(retrieved);
                 Assert.Equal(result.Id, retrieved.Id);
                 Assert.Equal(result.CreatedAt, retrieved.CreatedAt);
@@ -316,7 +355,7 @@ namespace Ordning.Server.Tests.Repositories
                 Assert.NotEmpty(result.PropertiesJson);
 
                 // Verify properties are stored correctly
-                ItemDbModel? retrieved = await Repository.GetByIdAsync(itemId, session);
+                ItemDbModel? retrieved = await Repository.GetByIdAsync(itemId, session: session);
                 Assert.NotNull(retrieved);
                 Assert.NotEmpty(retrieved.PropertiesJson);
             }
@@ -400,7 +439,7 @@ namespace Ordning.Server.Tests.Repositories
                 Assert.True(result);
 
                 // Verify item was updated
-                ItemDbModel? retrieved = await Repository.GetByIdAsync(itemId, session);
+                ItemDbModel? retrieved = await Repository.GetByIdAsync(itemId, session: session);
                 Assert.NotNull(retrieved);
                 Assert.Equal(newName, retrieved.Name);
                 Assert.Equal(newDescription, retrieved.Description);
@@ -474,7 +513,7 @@ namespace Ordning.Server.Tests.Repositories
                 Assert.True(result);
 
                 // Verify properties were updated
-                ItemDbModel? retrieved = await Repository.GetByIdAsync(itemId, session);
+                ItemDbModel? retrieved = await Repository.GetByIdAsync(itemId, session: session);
                 Assert.NotNull(retrieved);
                 Assert.NotEmpty(retrieved.PropertiesJson);
 
@@ -528,7 +567,7 @@ namespace Ordning.Server.Tests.Repositories
                 Assert.True(result);
 
                 // Verify properties were cleared to empty
-                ItemDbModel? retrieved = await Repository.GetByIdAsync(itemId, session);
+                ItemDbModel? retrieved = await Repository.GetByIdAsync(itemId, session: session);
                 Assert.NotNull(retrieved);
                 Assert.Equal("{}", retrieved.PropertiesJson);
 
@@ -565,13 +604,13 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                bool result = await Repository.DeleteAsync(itemId, session);
+                bool result = await Repository.DeleteAsync(itemId, session: session);
 
                 // Assert
                 Assert.True(result);
 
                 // Verify item was deleted
-                ItemDbModel? retrieved = await Repository.GetByIdAsync(itemId, session);
+                ItemDbModel? retrieved = await Repository.GetByIdAsync(itemId, session: session);
                 Assert.Null(retrieved);
             }
         }
@@ -585,7 +624,7 @@ namespace Ordning.Server.Tests.Repositories
                 Guid nonExistentId = Guid.NewGuid();
 
                 // Act
-                bool result = await Repository.DeleteAsync(nonExistentId, session);
+                bool result = await Repository.DeleteAsync(nonExistentId, session: session);
 
                 // Assert
                 Assert.False(result);
@@ -617,7 +656,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                bool result = await Repository.ExistsAsync(itemId, session);
+                bool result = await Repository.ExistsAsync(itemId, session: session);
 
                 // Assert
                 Assert.True(result);
@@ -633,7 +672,7 @@ namespace Ordning.Server.Tests.Repositories
                 Guid nonExistentId = Guid.NewGuid();
 
                 // Act
-                bool result = await Repository.ExistsAsync(nonExistentId, session);
+                bool result = await Repository.ExistsAsync(nonExistentId, session: session);
 
                 // Assert
                 Assert.False(result);
@@ -674,13 +713,13 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                int result = await Repository.MoveItemsAsync(new[] { itemId }, locationId2, session);
+                int result = await Repository.MoveItemsAsync(new[] { itemId }, locationId2, session: session);
 
                 // Assert
                 Assert.Equal(1, result);
 
                 // Verify item was moved
-                ItemDbModel? retrieved = await Repository.GetByIdAsync(itemId, session);
+                ItemDbModel? retrieved = await Repository.GetByIdAsync(itemId, session: session);
                 Assert.NotNull(retrieved);
                 Assert.Equal(locationId2, retrieved.LocationId);
             }
@@ -738,15 +777,15 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                int result = await Repository.MoveItemsAsync(new[] { itemId1, itemId2, itemId3 }, locationId2, session);
+                int result = await Repository.MoveItemsAsync(new[] { itemId1, itemId2, itemId3 }, locationId2, session: session);
 
                 // Assert
                 Assert.Equal(3, result);
 
                 // Verify all items were moved
-                ItemDbModel? retrieved1 = await Repository.GetByIdAsync(itemId1, session);
-                ItemDbModel? retrieved2 = await Repository.GetByIdAsync(itemId2, session);
-                ItemDbModel? retrieved3 = await Repository.GetByIdAsync(itemId3, session);
+                ItemDbModel? retrieved1 = await Repository.GetByIdAsync(itemId1, session: session);
+                ItemDbModel? retrieved2 = await Repository.GetByIdAsync(itemId2, session: session);
+                ItemDbModel? retrieved3 = await Repository.GetByIdAsync(itemId3, session: session);
 
                 Assert.NotNull(retrieved1);
                 Assert.NotNull(retrieved2);
@@ -776,7 +815,7 @@ namespace Ordning.Server.Tests.Repositories
                 Guid nonExistentId2 = Guid.NewGuid();
 
                 // Act
-                int result = await Repository.MoveItemsAsync(new[] { nonExistentId1, nonExistentId2 }, locationId, session);
+                int result = await Repository.MoveItemsAsync(new[] { nonExistentId1, nonExistentId2 }, locationId, session: session);
 
                 // Assert
                 Assert.Equal(0, result);
@@ -828,14 +867,14 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                int result = await Repository.MoveItemsAsync(new[] { existingItemId1, nonExistentId1, existingItemId2, nonExistentId2 }, locationId2, session);
+                int result = await Repository.MoveItemsAsync(new[] { existingItemId1, nonExistentId1, existingItemId2, nonExistentId2 }, locationId2, session: session);
 
                 // Assert
                 Assert.Equal(2, result);
 
                 // Verify only existing items were moved
-                ItemDbModel? retrieved1 = await Repository.GetByIdAsync(existingItemId1, session);
-                ItemDbModel? retrieved2 = await Repository.GetByIdAsync(existingItemId2, session);
+                ItemDbModel? retrieved1 = await Repository.GetByIdAsync(existingItemId1, session: session);
+                ItemDbModel? retrieved2 = await Repository.GetByIdAsync(existingItemId2, session: session);
 
                 Assert.NotNull(retrieved1);
                 Assert.NotNull(retrieved2);
@@ -860,13 +899,107 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                int result = await Repository.MoveItemsAsync(Array.Empty<Guid>(), locationId, session);
+                int result = await Repository.MoveItemsAsync(Array.Empty<Guid>(), locationId, session: session);
 
                 // Assert
                 Assert.Equal(0, result);
             }
         }
 
+        [Fact]
+        public async Task DeleteItemsAsync_WhenMultipleItems_DeletesOnlyGivenItems()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"location-{Guid.NewGuid()}";
+
+                await LocationRepository.CreateAsync(
+                    id: locationId,
+                    name: "Location",
+                    description: null,
+                    parentLocationId: null,
+                    session: session);
+
+                Guid itemId1 = Guid.NewGuid();
+                Guid itemId2 = Guid.NewGuid();
+                Guid itemId3 = Guid.NewGuid();
+
+                await Repository.CreateAsync(id: itemId1, name: "Item 1", description: null, locationId: locationId, properties: null, session: session);
+                await Repository.CreateAsync(id: itemId2, name: "Item 2", description: null, locationId: locationId, properties: null, session: session);
+                await Repository.CreateAsync(id: itemId3, name: "Item 3", description: null, locationId: locationId, properties: null, session: session);
+
+                // Act
+                int result = await Repository.DeleteItemsAsync(new[] { itemId1, itemId2, Guid.NewGuid() }, session: session);
+
+                // Assert
+                Assert.Equal(2, result);
+                Assert.False(await Repository.ExistsAsync(itemId1, session: session));
+                Assert.False(await Repository.ExistsAsync(itemId2, session: session));
+                Assert.True(await Repository.ExistsAsync(itemId3, session: session));
+            }
+        }
+
+        [Fact]
+        public async Task UpdatePropertiesAsync_WhenSettingAndRemovingProperties_MergesWithExistingProperties()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"location-{Guid.NewGuid()}";
+
+                await LocationRepository.CreateAsync(
+                    id: locationId,
+                    name: "Location",
+                    description: null,
+                    parentLocationId: null,
+                    session: session);
+
+                Guid itemId1 = Guid.NewGuid();
+                Guid itemId2 = Guid.NewGuid();
+
+                await Repository.CreateAsync(
+                    id: itemId1,
+                    name: "Item 1",
+                    description: null,
+                    locationId: locationId,
+                    properties: new Dictionary<string, string> { { "color", "blue" }, { "broken", "yes" }, { "brand", "Acme" } },
+                    session: session);
+
+                await Repository.CreateAsync(
+                    id: itemId2,
+                    name: "Item 2",
+                    description: null,
+                    locationId: locationId,
+                    properties: null,
+                    session: session);
+
+                // Act
+                int result = await Repository.UpdatePropertiesAsync(
+                    new[] { itemId1, itemId2 },
+                    new Dictionary<string, string> { { "color", "red" } },
+                    new[] { "broken" },
+                    session: session);
+
+                // Assert
+                Assert.Equal(2, result);
+
+                ItemDbModel? retrieved1 = await Repository.GetByIdAsync(itemId1, session: session);
+                ItemDbModel? retrieved2 = await Repository.GetByIdAsync(itemId2, session: session);
+
+                Assert.NotNull(retrieved1);
+                Assert.NotNull(retrieved2);
+                Item item1 = retrieved1.ToDomainItem();
+                Item item2 = retrieved2.ToDomainItem();
+                Assert.Equal(2, item1.Properties.Count);
+                Assert.Equal("red", item1.Properties["color"]);
+                Assert.Equal("Acme", item1.Properties["brand"]);
+                Assert.False(item1.Properties.ContainsKey("broken"));
+                Assert.Single(item2.Properties);
+                Assert.Equal("red", item2.Properties["color"]);
+            }
+        }
+
         [Fact]
         public async Task CreateAsync_WhenPropertiesAreSerialized_StoresAsJsonb()
         {
@@ -934,7 +1067,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                ItemDbModel? result = await Repository.GetByIdAsync(itemId, session);
+                ItemDbModel? result = await Repository.GetByIdAsync(itemId, session: session);
 
                 // Assert
                 Assert.NotNull(result);
@@ -1068,7 +1201,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("hammer", 0, 10, session);
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("hammer", 0, 10, session: session);
 
                 // Assert
                 Assert.True(totalCount >= 2);
@@ -1112,7 +1245,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("power", 0, 10, session);
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("power", 0, 10, session: session);
 
                 // Assert
                 Assert.True(totalCount >= 1);
@@ -1167,7 +1300,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("Bosch", 0, 10, session);
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("Bosch", 0, 10, session: session);
 
                 // Assert
                 Assert.True(totalCount >= 1);
@@ -1210,7 +1343,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("hammer drill", 0, 10, session);
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("hammer drill", 0, 10, session: session);
 
                 // Assert
                 Assert.True(totalCount >= 2);
@@ -1254,7 +1387,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("hammer drill", 0, 10, session);
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("hammer drill", 0, 10, session: session);
 
                 // Assert
                 Assert.True(totalCount >= 1);
@@ -1286,7 +1419,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("nonexistentterm12345", 0, 10, session);
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("nonexistentterm12345", 0, 10, session: session);
 
                 // Assert
                 Assert.Equal(0, totalCount);
@@ -1321,7 +1454,7 @@ namespace Ordning.Server.Tests.Repositories
                 }
 
                 // Act
-                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("hammer", 2, 2, session);
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("hammer", 2, 2, session: session);
 
                 // Assert
                 Assert.True(totalCount >= 5);
@@ -1372,7 +1505,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("hammer", 0, 2, session);
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("hammer", 0, 2, session: session);
 
                 // Assert
                 Assert.Equal(2, results.Count());
@@ -1405,7 +1538,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("HAMMER", 0, 10, session);
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("HAMMER", 0, 10, session: session);
 
                 // Assert
                 Assert.True(totalCount >= 1);
@@ -1457,7 +1590,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act - search for "hamm" which should match "Hammer" and "Hammer Drill"
-                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("hamm", 0, 10, session);
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("hamm", 0, 10, session: session);
 
                 // Assert
                 Assert.True(totalCount >= 2, $"Expected at least 2 results, but got {totalCount}");
@@ -1502,7 +1635,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act - search for "hamm" which should match "hammering"
-                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("hamm", 0, 10, session);
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("hamm", 0, 10, session: session);
 
                 // Assert
                 Assert.True(totalCount >= 1, $"Expected at least 1 result, but got {totalCount}");
@@ -1557,7 +1690,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act - search for "hamm" which should match "HammerTech"
-                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("hamm", 0, 10, session);
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync("hamm", 0, 10, session: session);
 
                 // Assert
                 Assert.True(totalCount >= 1, $"Expected at least 1 result, but got {totalCount}");
@@ -1565,5 +1698,459 @@ namespace Ordning.Server.Tests.Repositories
                 Assert.Contains(resultsList, i => i.Id == itemId1);
             }
         }
+
+        [Fact]
+        public async Task SearchAsync_WhenPropertyFiltersProvided_ReturnsItemsMatchingAllKeys()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(
+                    id: locationId,
+                    name: "Test Location",
+                    description: null,
+                    parentLocationId: null,
+                    session: session);
+
+                Guid redBoschId = Guid.NewGuid();
+                Guid blueBoschId = Guid.NewGuid();
+                Guid greenBoschId = Guid.NewGuid();
+                Guid redMakitaId = Guid.NewGuid();
+
+                await Repository.CreateAsync(id: redBoschId, name: "Zyxfilter Drill", description: null, locationId: locationId, properties: new Dictionary<string, string> { { "color", "red" }, { "brand", "Bosch" } }, session: session);
+                await Repository.CreateAsync(id: blueBoschId, name: "Zyxfilter Saw", description: null, locationId: locationId, properties: new Dictionary<string, string> { { "color", "blue" }, { "brand", "Bosch" } }, session: session);
+                await Repository.CreateAsync(id: greenBoschId, name: "Zyxfilter Sander", description: null, locationId: locationId, properties: new Dictionary<string, string> { { "color", "green" }, { "brand", "Bosch" } }, session: session);
+                await Repository.CreateAsync(id: redMakitaId, name: "Zyxfilter Grinder", description: null, locationId: locationId, properties: new Dictionary<string, string> { { "color", "red" }, { "brand", "Makita" } }, session: session);
+
+                List<ItemPropertyFilter> filters = new List<ItemPropertyFilter>
+                {
+                    new ItemPropertyFilter(key: "color", values: new[] { "red", "blue" }),
+                    new ItemPropertyFilter(key: "brand", values: new[] { "Bosch" })
+                };
+
+                // Act
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync(SearchQuery.Parse("zyxfilter"), filters, 0, 10, session: session);
+
+                // Assert
+                Assert.Equal(2, totalCount);
+                List<Guid> resultIds = results.Select(i => i.Id).ToList();
+                Assert.Contains(redBoschId, resultIds);
+                Assert.Contains(blueBoschId, resultIds);
+            }
+        }
+
+        [Fact]
+        public async Task SearchAsync_WhenNumberRangeAndPropertySortGiven_ComparesValuesAsNumbers()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(id: locationId, name: "Test Location", description: null, parentLocationId: null, session: session);
+
+                Guid lightId = Guid.NewGuid();
+                Guid mediumId = Guid.NewGuid();
+                Guid heavyId = Guid.NewGuid();
+                await Repository.CreateAsync(id: lightId, name: "Zyxrange A", description: null, locationId: locationId, properties: new Dictionary<string, string> { { "weight", "9" } }, session: session);
+                await Repository.CreateAsync(id: mediumId, name: "Zyxrange B", description: null, locationId: locationId, properties: new Dictionary<string, string> { { "weight", "10.5" } }, session: session);
+                await Repository.CreateAsync(id: heavyId, name: "Zyxrange C", description: null, locationId: locationId, properties: new Dictionary<string, string> { { "weight", "100" } }, session: session);
+                await Repository.CreateAsync(id: Guid.NewGuid(), name: "Zyxrange D", description: null, locationId: locationId, properties: new Dictionary<string, string> { { "weight", "heavy" } }, session: session);
+
+                // Act
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync(
+                    SearchQuery.Parse("zyxrange"),
+                    Array.Empty<ItemPropertyFilter>(),
+                    0,
+                    10,
+                    propertyRanges: new[] { new ItemPropertyRange(key: "weight", min: "9.5", max: null, type: PropertyTypes.Number) },
+                    sortOrder: new ItemSortOrder(field: ItemSortOrder.Property, isDescending: true, propertyKey: "weight", propertyType: PropertyTypes.Number),
+                    session: session);
+
+                // Assert
+                Assert.Equal(2, totalCount);
+                Assert.Equal(new[] { heavyId, mediumId }, results.Select(i => i.Id));
+            }
+        }
+
+        [Fact]
+        public async Task GetPropertyFacetsAsync_WhenKeyIsFiltered_CountsOtherValuesOfThatKey()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(
+                    id: locationId,
+                    name: "Test Location",
+                    description: null,
+                    parentLocationId: null,
+                    session: session);
+
+                await Repository.CreateAsync(id: Guid.NewGuid(), name: "Zyxfacet Drill", description: null, locationId: locationId, properties: new Dictionary<string, string> { { "color", "red" }, { "brand", "Bosch" } }, session: session);
+                await Repository.CreateAsync(id: Guid.NewGuid(), name: "Zyxfacet Saw", description: null, locationId: locationId, properties: new Dictionary<string, string> { { "color", "red" }, { "brand", "Makita" } }, session: session);
+                await Repository.CreateAsync(id: Guid.NewGuid(), name: "Zyxfacet Sander", description: null, locationId: locationId, properties: new Dictionary<string, string> { { "color", "blue" }, { "brand", "Bosch" } }, session: session);
+
+                List<ItemPropertyFilter> filters = new List<ItemPropertyFilter>
+                {
+                    new ItemPropertyFilter(key: "color", values: new[] { "red" })
+                };
+
+                // Act
+                List<PropertyFacetDbModel> rows = (await Repository.GetPropertyFacetsAsync(SearchQuery.Parse("zyxfacet"), filters, 10, 10, session: session)).ToList();
+
+                // Assert
+                Assert.Contains(rows, r => r.Key == "color" && r.Value == "red" && r.ItemCount == 2 && r.KeyItemCount == 3);
+                Assert.Contains(rows, r => r.Key == "color" && r.Value == "blue" && r.ItemCount == 1);
+                Assert.Contains(rows, r => r.Key == "brand" && r.Value == "Bosch" && r.ItemCount == 1 && r.KeyItemCount == 2);
+                Assert.Contains(rows, r => r.Key == "brand" && r.Value == "Makita" && r.ItemCount == 1);
+            }
+        }
+
+        [Fact]
+        public async Task SearchAsync_WhenQueryHasLocationFilter_ReturnsItemsInLocationAndDescendants()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string rootLocationId = $"test-root-{Guid.NewGuid()}";
+                string childLocationId = $"test-child-{Guid.NewGuid()}";
+                string otherLocationId = $"test-other-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(id: rootLocationId, name: "Garage", description: null, parentLocationId: null, session: session);
+                await LocationRepository.CreateAsync(id: childLocationId, name: "Shelf", description: null, parentLocationId: rootLocationId, session: session);
+                await LocationRepository.CreateAsync(id: otherLocationId, name: "Kitchen", description: null, parentLocationId: null, session: session);
+
+                Guid rootItemId = Guid.NewGuid();
+                Guid childItemId = Guid.NewGuid();
+                Guid otherItemId = Guid.NewGuid();
+                await Repository.CreateAsync(id: rootItemId, name: "Zyxquery Drill", description: null, locationId: rootLocationId, properties: null, session: session);
+                await Repository.CreateAsync(id: childItemId, name: "Zyxquery Saw", description: null, locationId: childLocationId, properties: null, session: session);
+                await Repository.CreateAsync(id: otherItemId, name: "Zyxquery Knife", description: null, locationId: otherLocationId, properties: null, session: session);
+
+                // Act
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync(
+                    SearchQuery.Parse($"zyxquery in:{rootLocationId.ToUpperInvariant()}"),
+                    Array.Empty<ItemPropertyFilter>(),
+                    0,
+                    10,
+                    session: session);
+
+                // Assert
+                Assert.Equal(2, totalCount);
+                List<Guid> resultIds = results.Select(i => i.Id).ToList();
+                Assert.Contains(rootItemId, resultIds);
+                Assert.Contains(childItemId, resultIds);
+            }
+        }
+
+        [Fact]
+        public async Task SearchAsync_WhenQueryHasPhraseExclusionAndPropertyFilter_ReturnsMatchingItems()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(id: locationId, name: "Test Location", description: null, parentLocationId: null, session: session);
+
+                Guid matchingId = Guid.NewGuid();
+                await Repository.CreateAsync(id: matchingId, name: "Zyxphrase Power Drill", description: null, locationId: locationId, properties: new Dictionary<string, string> { { "color", "Red" } }, session: session);
+                await Repository.CreateAsync(id: Guid.NewGuid(), name: "Zyxphrase Power Drill", description: "Broken chuck", locationId: locationId, properties: new Dictionary<string, string> { { "color", "red" } }, session: session);
+                await Repository.CreateAsync(id: Guid.NewGuid(), name: "Zyxphrase Power Drill", description: null, locationId: locationId, properties: new Dictionary<string, string> { { "color", "blue" } }, session: session);
+                await Repository.CreateAsync(id: Guid.NewGuid(), name: "Zyxphrase Drill Power", description: null, locationId: locationId, properties: new Dictionary<string, string> { { "color", "red" } }, session: session);
+
+                // Act
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync(
+                    SearchQuery.Parse("zyxphrase \"power drill\" -broken color:red"),
+                    Array.Empty<ItemPropertyFilter>(),
+                    0,
+                    10,
+                    session: session);
+
+                // Assert
+                Assert.Equal(1, totalCount);
+                Assert.Equal(matchingId, results.Single().Id);
+            }
+        }
+
+        [Fact]
+        public async Task SearchAsync_WhenQueryHasDateFilter_ComparesWholeDays()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(id: locationId, name: "Test Location", description: null, parentLocationId: null, session: session);
+
+                Guid itemId = Guid.NewGuid();
+                await Repository.CreateAsync(id: itemId, name: "Zyxdate Drill", description: null, locationId: locationId, properties: null, session: session);
+                string today = DateTimeOffset.UtcNow.ToString(SearchQuery.DateFormat);
+
+                // Act
+                (IEnumerable<ItemDbModel> todayResults, int todayCount) = await Repository.SearchAsync(SearchQuery.Parse($"zyxdate updated:{today}"), Array.Empty<ItemPropertyFilter>(), 0, 10, session: session);
+                (IEnumerable<ItemDbModel> laterResults, int laterCount) = await Repository.SearchAsync(SearchQuery.Parse($"zyxdate created:>{today}"), Array.Empty<ItemPropertyFilter>(), 0, 10, session: session);
+
+                // Assert
+                Assert.Equal(1, todayCount);
+                Assert.Equal(itemId, todayResults.Single().Id);
+                Assert.Equal(0, laterCount);
+                Assert.Empty(laterResults);
+            }
+        }
+
+        [Fact]
+        public async Task AdjustQuantityAsync_WhenQuantityWouldDropBelowZero_LeavesQuantityUnchanged()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(id: locationId, name: "Test Location", description: null, parentLocationId: null, session: session);
+
+                Guid itemId = Guid.NewGuid();
+                await Repository.CreateAsync(id: itemId, name: "Screws", description: null, locationId: locationId, quantity: 12, unit: "pcs", session: session);
+
+                // Act
+                bool decremented = await Repository.AdjustQuantityAsync(itemId, -5, session);
+                bool overdrawn = await Repository.AdjustQuantityAsync(itemId, -8, session);
+
+                // Assert
+                ItemDbModel? result = await Repository.GetByIdAsync(itemId, session: session);
+                Assert.True(decremented);
+                Assert.False(overdrawn);
+                Assert.NotNull(result);
+                Assert.Equal(7, result.Quantity);
+                Assert.Equal("pcs", result.Unit);
+            }
+        }
+
+        [Fact]
+        public async Task GetLowStockAsync_WhenItemsHaveMinimumQuantities_ReturnsItemsBelowTheirMinimum()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(id: locationId, name: "Test Location", description: null, parentLocationId: null, session: session);
+
+                Guid lowId = Guid.NewGuid();
+                await Repository.CreateAsync(id: lowId, name: "Screws", description: null, locationId: locationId, quantity: 3, minQuantity: 10, session: session);
+                await Repository.CreateAsync(id: Guid.NewGuid(), name: "Nails", description: null, locationId: locationId, quantity: 10, minQuantity: 10, session: session);
+                await Repository.CreateAsync(id: Guid.NewGuid(), name: "Bolts", description: null, locationId: locationId, quantity: 1, session: session);
+
+                // Act
+                IEnumerable<ItemDbModel> result = await Repository.GetLowStockAsync(session: session);
+
+                // Assert
+                ItemDbModel lowItem = Assert.Single(result.Where(i => i.LocationId == locationId));
+                Assert.Equal(lowId, lowItem.Id);
+                Assert.True(lowItem.ToDomainItem().IsLowStock);
+            }
+        }
+
+        [Fact]
+        public async Task FindMergeTargetAsync_WhenNameAndUnitMatchIgnoringCase_ReturnsItem()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(id: locationId, name: "Test Location", description: null, parentLocationId: null, session: session);
+
+                Guid matchingId = Guid.NewGuid();
+                await Repository.CreateAsync(id: matchingId, name: "screws", description: null, locationId: locationId, quantity: 4, unit: "PCS", session: session);
+                await Repository.CreateAsync(id: Guid.NewGuid(), name: "Screws", description: null, locationId: locationId, quantity: 2, unit: "kg", session: session);
+                await Repository.CreateAsync(id: Guid.NewGuid(), name: "Screws", description: null, locationId: locationId, properties: null, session: session);
+
+                // Act
+                ItemDbModel? result = await Repository.FindMergeTargetAsync(locationId, "Screws", "pcs", Guid.NewGuid(), session);
+                ItemDbModel? excluded = await Repository.FindMergeTargetAsync(locationId, "Screws", "pcs", matchingId, session);
+
+                // Assert
+                Assert.NotNull(result);
+                Assert.Equal(matchingId, result.Id);
+                Assert.Null(excluded);
+            }
+        }
+
+        [Fact]
+        public async Task SplitAsync_WhenMergeTargetIsGiven_MovesQuantityIntoIt()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string sourceLocationId = $"test-location-{Guid.NewGuid()}";
+                string targetLocationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(id: sourceLocationId, name: "Source Location", description: null, parentLocationId: null, session: session);
+                await LocationRepository.CreateAsync(id: targetLocationId, name: "Target Location", description: null, parentLocationId: null, session: session);
+
+                Guid sourceId = Guid.NewGuid();
+                Guid targetId = Guid.NewGuid();
+                await Repository.CreateAsync(id: sourceId, name: "Screws", description: null, locationId: sourceLocationId, quantity: 12, unit: "pcs", session: session);
+                await Repository.CreateAsync(id: targetId, name: "Screws", description: null, locationId: targetLocationId, quantity: 3, unit: "pcs", session: session);
+
+                // Act
+                bool moved = await Repository.SplitAsync(sourceId, 5, targetLocationId, targetId, Guid.NewGuid(), session);
+
+                // Assert
+                ItemDbModel? source = await Repository.GetByIdAsync(sourceId, session: session);
+                ItemDbModel? target = await Repository.GetByIdAsync(targetId, session: session);
+                Assert.True(moved);
+                Assert.NotNull(source);
+                Assert.NotNull(target);
+                Assert.Equal(7, source.Quantity);
+                Assert.Equal(8, target.Quantity);
+                Assert.Single(await Repository.GetByLocationIdAsync(targetLocationId, session: session));
+            }
+        }
+
+        [Fact]
+        public async Task SplitAsync_WhenNoMergeTargetIsGiven_CreatesCopyWithTagsAndMovedQuantity()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string sourceLocationId = $"test-location-{Guid.NewGuid()}";
+                string targetLocationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(id: sourceLocationId, name: "Source Location", description: null, parentLocationId: null, session: session);
+                await LocationRepository.CreateAsync(id: targetLocationId, name: "Target Location", description: null, parentLocationId: null, session: session);
+
+                Guid sourceId = Guid.NewGuid();
+                Dictionary<string, string> properties = new Dictionary<string, string> { { "size", "M4" } };
+                await Repository.CreateAsync(id: sourceId, name: "Screws", description: "Steel", locationId: sourceLocationId, properties: properties, quantity: 12, unit: "pcs", minQuantity: 10, session: session);
+                await TagRepository.SetTagsAsync(TagOwnerTypes.Item, sourceId.ToString(), new[] { "Hardware" }, session);
+
+                Guid copyId = Guid.NewGuid();
+
+                // Act
+                bool moved = await Repository.SplitAsync(sourceId, 5, targetLocationId, null, copyId, session);
+
+                // Assert
+                ItemDbModel? source = await Repository.GetByIdAsync(sourceId, session: session);
+                ItemDbModel? copy = await Repository.GetByIdAsync(copyId, session: session);
+                Assert.True(moved);
+                Assert.NotNull(source);
+                Assert.NotNull(copy);
+                Assert.Equal(7, source.Quantity);
+                Item copyItem = copy.ToDomainItem();
+                Assert.Equal(targetLocationId, copyItem.LocationId);
+                Assert.Equal("Screws", copyItem.Name);
+                Assert.Equal("Steel", copyItem.Description);
+                Assert.Equal("M4", copyItem.Properties["size"]);
+                Assert.Equal(5, copyItem.Quantity);
+                Assert.Equal("pcs", copyItem.Unit);
+                Assert.Null(copyItem.MinQuantity);
+                Assert.Equal(new[] { "Hardware" }, copyItem.Tags);
+            }
+        }
+
+        [Fact]
+        public async Task SplitAsync_WhenItemHasTooLittleQuantity_ReturnsFalseAndChangesNothing()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string sourceLocationId = $"test-location-{Guid.NewGuid()}";
+                string targetLocationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(id: sourceLocationId, name: "Source Location", description: null, parentLocationId: null, session: session);
+                await LocationRepository.CreateAsync(id: targetLocationId, name: "Target Location", description: null, parentLocationId: null, session: session);
+
+                Guid sourceId = Guid.NewGuid();
+                await Repository.CreateAsync(id: sourceId, name: "Screws", description: null, locationId: sourceLocationId, quantity: 4, unit: "pcs", session: session);
+
+                // Act
+                bool moved = await Repository.SplitAsync(sourceId, 5, targetLocationId, null, Guid.NewGuid(), session);
+
+                // Assert
+                ItemDbModel? source = await Repository.GetByIdAsync(sourceId, session: session);
+                Assert.False(moved);
+                Assert.NotNull(source);
+                Assert.Equal(4, source.Quantity);
+                Assert.Empty(await Repository.GetByLocationIdAsync(targetLocationId, session: session));
+            }
+        }
+
+        [Fact]
+        public async Task SplitAsync_WhenMergeTargetNoLongerExists_ThrowsInvalidOperationException()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string sourceLocationId = $"test-location-{Guid.NewGuid()}";
+                string targetLocationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(id: sourceLocationId, name: "Source Location", description: null, parentLocationId: null, session: session);
+                await LocationRepository.CreateAsync(id: targetLocationId, name: "Target Location", description: null, parentLocationId: null, session: session);
+
+                Guid sourceId = Guid.NewGuid();
+                await Repository.CreateAsync(id: sourceId, name: "Screws", description: null, locationId: sourceLocationId, quantity: 12, unit: "pcs", session: session);
+
+                // Act & Assert
+                await Assert.ThrowsAsync<InvalidOperationException>(
+                    () => Repository.SplitAsync(sourceId, 5, targetLocationId, Guid.NewGuid(), Guid.NewGuid(), session));
+            }
+        }
+
+        [Fact]
+        public async Task SearchAsync_WhenTemplateIdIsGiven_ReturnsOnlyItemsFromTemplate()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(id: locationId, name: "Test Location", description: null, parentLocationId: null, session: session);
+
+                Guid templateId = Guid.NewGuid();
+                await ItemTemplateRepository.CreateAsync(id: templateId, name: $"Battery {Guid.NewGuid()}", session: session);
+
+                Guid batteryId = Guid.NewGuid();
+                await Repository.CreateAsync(id: batteryId, name: "Zyxtemplate AA", description: null, locationId: locationId, templateId: templateId, session: session);
+                await Repository.CreateAsync(id: Guid.NewGuid(), name: "Zyxtemplate Charger", description: null, locationId: locationId, session: session);
+
+                // Act
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync(
+                    SearchQuery.Parse("zyxtemplate"),
+                    Array.Empty<ItemPropertyFilter>(),
+                    0,
+                    10,
+                    templateId: templateId,
+                    session: session);
+
+                // Assert
+                Assert.Equal(1, totalCount);
+                Assert.Equal(batteryId, Assert.Single(results).Id);
+            }
+        }
+
+        [Fact]
+        public async Task SearchAsync_WhenTagsAreGiven_ReturnsOnlyItemsWithAllTagsIgnoringCase()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(id: locationId, name: "Test Location", description: null, parentLocationId: null, session: session);
+
+                Guid drillId = Guid.NewGuid();
+                Guid sawId = Guid.NewGuid();
+                await Repository.CreateAsync(id: drillId, name: "Zyxtag Drill", description: null, locationId: locationId, session: session);
+                await Repository.CreateAsync(id: sawId, name: "Zyxtag Saw", description: null, locationId: locationId, session: session);
+                await TagRepository.SetTagsAsync(TagOwnerTypes.Item, drillId.ToString(), new[] { "Tools", "Cordless" }, session);
+                await TagRepository.SetTagsAsync(TagOwnerTypes.Item, sawId.ToString(), new[] { "Tools" }, session);
+
+                // Act
+                (IEnumerable<ItemDbModel> results, int totalCount) = await Repository.SearchAsync(
+                    SearchQuery.Parse("zyxtag"),
+                    Array.Empty<ItemPropertyFilter>(),
+                    0,
+                    10,
+                    tags: new[] { "tools", "CORDLESS" },
+                    session: session);
+
+                // Assert
+                Assert.Equal(1, totalCount);
+                ItemDbModel result = Assert.Single(results);
+                Assert.Equal(drillId, result.Id);
+                Assert.Equal(new[] { "Cordless", "Tools" }, result.ToDomainItem().Tags);
+            }
+        }
     }
 }
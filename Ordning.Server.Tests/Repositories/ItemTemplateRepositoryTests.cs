@@ -0,0 +1,110 @@
+using EasyReasy.Database;
+using Ordning.Server.Items.Repositories;
+using Ordning.Server.ItemTemplates.Models;
+using Ordning.Server.ItemTemplates.Repositories;
+using Ordning.Server.Locations.Repositories;
+using Ordning.Server.Tests.TestUtilities;
+
+namespace Ordning.Server.Tests.Repositories
+{
+    /// <summary>
+    /// Integration tests for ItemTemplateRepository.
+    /// </summary>
+    public class ItemTemplateRepositoryTests : RepositoryTestBase
+    {
+        private ItemTemplateRepository Repository { get; set; } = null!;
+        private ItemRepository ItemRepository { get; set; } = null!;
+        private LocationRepository LocationRepository { get; set; } = null!;
+
+        public override async Task InitializeAsync()
+        {
+            await base.InitializeAsync();
+            Repository = new ItemTemplateRepository(TestDatabaseManager.DataSource, SessionFactory);
+            ItemRepository = new ItemRepository(TestDatabaseManager.DataSource, SessionFactory);
+            LocationRepository = new LocationRepository(TestDatabaseManager.DataSource, SessionFactory);
+        }
+
+        [Fact]
+        public async Task CreateAsync_WhenValid_CanBeReadByNameIgnoringCase()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                Guid id = Guid.NewGuid();
+                string name = $"Battery {Guid.NewGuid()}";
+
+                // Act
+                ItemTemplateDbModel created = await Repository.CreateAsync(
+                    id: id,
+                    name: name,
+                    description: "A battery",
+                    properties: new[] { new ItemTemplateProperty(key: "type", value: "AA"), new ItemTemplateProperty(key: "count") },
+                    session: session);
+
+                ItemTemplateDbModel? result = await Repository.GetByNameAsync(name.ToUpperInvariant(), session);
+
+                // Assert
+                Assert.NotNull(result);
+                Assert.Equal(id, result.Id);
+                Assert.Equal("A battery", result.Description);
+                Assert.Equal(new[] { "type", "count" }, result.ToDomainItemTemplate().Properties.Select(p => p.Key));
+                Assert.Equal("AA", result.ToDomainItemTemplate().Properties[0].Value);
+                Assert.Equal(created.CreatedAt, result.CreatedAt);
+            }
+        }
+
+        [Fact]
+        public async Task UpdateAsync_WhenTemplateExists_ReplacesValues()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                Guid id = Guid.NewGuid();
+                await Repository.CreateAsync(id: id, name: $"Screw {Guid.NewGuid()}", description: "Old", session: session);
+
+                // Act
+                bool updated = await Repository.UpdateAsync(
+                    id: id,
+                    name: "Wood screw",
+                    description: null,
+                    properties: new[] { new ItemTemplateProperty(key: "length", value: "40") },
+                    session: session);
+
+                // Assert
+                Assert.True(updated);
+                ItemTemplateDbModel? result = await Repository.GetByIdAsync(id, session);
+                Assert.NotNull(result);
+                Assert.Equal("Wood screw", result.Name);
+                Assert.Null(result.Description);
+                Assert.Equal("length", Assert.Single(result.ToDomainItemTemplate().Properties).Key);
+            }
+        }
+
+        [Fact]
+        public async Task DeleteAsync_WhenItemsUseTemplate_KeepsItemsWithoutTemplate()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"test-location-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(id: locationId, name: "Test Location", description: null, parentLocationId: null, session: session);
+
+                Guid templateId = Guid.NewGuid();
+                await Repository.CreateAsync(id: templateId, name: $"Cable {Guid.NewGuid()}", session: session);
+
+                Guid itemId = Guid.NewGuid();
+                await ItemRepository.CreateAsync(id: itemId, name: "USB cable", description: null, locationId: locationId, templateId: templateId, session: session);
+
+                // Act
+                bool deleted = await Repository.DeleteAsync(templateId, session);
+
+                // Assert
+                Assert.True(deleted);
+                Assert.Null(await Repository.GetByIdAsync(templateId, session));
+                ItemDbModel? item = await ItemRepository.GetByIdAsync(itemId, session: session);
+                Assert.NotNull(item);
+                Assert.Null(item.TemplateId);
+            }
+        }
+    }
+}
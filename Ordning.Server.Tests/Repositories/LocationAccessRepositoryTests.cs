@@ -0,0 +1,124 @@
+using EasyReasy.Database;
+using Ordning.Server.Locations.Models;
+using Ordning.Server.Locations.Repositories;
+using Ordning.Server.Tests.TestUtilities;
+using Ordning.Server.Users.Repositories;
+using Ordning.Server.Workspaces.Models;
+
+namespace Ordning.Server.Tests.Repositories
+{
+    /// <summary>
+    /// Integration tests for LocationAccessRepository.
+    /// </summary>
+    public class LocationAccessRepositoryTests : RepositoryTestBase
+    {
+        private LocationAccessRepository Repository { get; set; } = null!;
+        private LocationRepository LocationRepository { get; set; } = null!;
+        private UserRepository UserRepository { get; set; } = null!;
+
+        public override async Task InitializeAsync()
+        {
+            await base.InitializeAsync();
+            Repository = new LocationAccessRepository(TestDatabaseManager.DataSource, SessionFactory);
+            LocationRepository = new LocationRepository(TestDatabaseManager.DataSource, SessionFactory);
+            UserRepository = new UserRepository(TestDatabaseManager.DataSource, SessionFactory);
+        }
+
+        [Fact]
+        public async Task SetRulesAsync_WhenLocationHasRules_ReplacesThem()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                UserDbModel user = await CreateUserAsync("member", session);
+                string locationId = $"office-{Guid.NewGuid():N}";
+                await LocationRepository.CreateAsync(locationId, "Office", workspaceId: Workspace.DefaultId, session: session);
+                await Repository.SetRulesAsync(locationId, new[]
+                {
+                    new LocationAccessRuleDbModel { LocationId = locationId, UserId = null, Access = LocationAccessLevels.None },
+                }, session);
+
+                // Act
+                await Repository.SetRulesAsync(locationId, new[]
+                {
+                    new LocationAccessRuleDbModel { LocationId = locationId, UserId = user.Id, Access = LocationAccessLevels.Read },
+                    new LocationAccessRuleDbModel { LocationId = locationId, UserId = null, Access = LocationAccessLevels.Write },
+                }, session);
+
+                // Assert
+                List<LocationAccessRuleDbModel> rules = (await Repository.GetByLocationAsync(locationId, session)).ToList();
+                Assert.Equal(2, rules.Count);
+                Assert.Null(rules[0].UserId);
+                Assert.Equal(LocationAccessLevels.Write, rules[0].Access);
+                Assert.Equal(user.Id, rules[1].UserId);
+                Assert.Equal(user.Username, rules[1].Username);
+                Assert.Equal(LocationAccessLevels.Read, rules[1].Access);
+            }
+        }
+
+        [Fact]
+        public async Task GetByWorkspaceAsync_WhenRulesExist_ReturnsOnlyRulesInWorkspace()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"office-{Guid.NewGuid():N}";
+                await LocationRepository.CreateAsync(locationId, "Office", workspaceId: Workspace.DefaultId, session: session);
+                await Repository.SetRulesAsync(locationId, new[]
+                {
+                    new LocationAccessRuleDbModel { LocationId = locationId, UserId = null, Access = LocationAccessLevels.None },
+                }, session);
+
+                // Act
+                IEnumerable<LocationAccessRuleDbModel> inWorkspace = await Repository.GetByWorkspaceAsync(Workspace.DefaultId, session);
+                IEnumerable<LocationAccessRuleDbModel> inOtherWorkspace = await Repository.GetByWorkspaceAsync(Guid.NewGuid(), session);
+
+                // Assert
+                Assert.Contains(inWorkspace, r => r.LocationId == locationId && r.Access == LocationAccessLevels.None);
+                Assert.Empty(inOtherWorkspace);
+            }
+        }
+
+        [Fact]
+        public async Task GetByWorkspaceAsync_WhenRestrictedLocationIsDeletedAndRestored_ReturnsItsRulesAgain()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                UserDbModel user = await CreateUserAsync("member", session);
+                string locationId = $"safe-{Guid.NewGuid():N}";
+                await LocationRepository.CreateAsync(locationId, "Safe", workspaceId: Workspace.DefaultId, session: session);
+                await Repository.SetRulesAsync(locationId, new[]
+                {
+                    new LocationAccessRuleDbModel { LocationId = locationId, UserId = null, Access = LocationAccessLevels.None },
+                    new LocationAccessRuleDbModel { LocationId = locationId, UserId = user.Id, Access = LocationAccessLevels.Read },
+                }, session);
+
+                // Act
+                await LocationRepository.DeleteAsync(locationId, workspaceId: Workspace.DefaultId, session: session);
+                IEnumerable<LocationAccessRuleDbModel> whileDeleted = await Repository.GetByWorkspaceAsync(Workspace.DefaultId, session);
+                await LocationRepository.CreateAsync(locationId, "Safe", workspaceId: Workspace.DefaultId, session: session);
+                List<LocationAccessRuleDbModel> afterRestore = (await Repository.GetByWorkspaceAsync(Workspace.DefaultId, session))
+                    .Where(r => r.LocationId == locationId)
+                    .ToList();
+
+                // Assert
+                Assert.DoesNotContain(whileDeleted, r => r.LocationId == locationId);
+                Assert.Equal(2, afterRestore.Count);
+                Assert.Contains(afterRestore, r => r.UserId == null && r.Access == LocationAccessLevels.None);
+                Assert.Contains(afterRestore, r => r.UserId == user.Id && r.Access == LocationAccessLevels.Read);
+            }
+        }
+
+        private async Task<UserDbModel> CreateUserAsync(string username, IDbSession session)
+        {
+            string uniqueUsername = $"{username}-{Guid.NewGuid():N}";
+            return await UserRepository.CreateAsync(
+                username: uniqueUsername,
+                email: $"{uniqueUsername}@example.com",
+                passwordHash: "hashed_password",
+                roles: null,
+                session: session);
+        }
+    }
+}
@@ -2,7 +2,11 @@ using EasyReasy.Database;
 using Ordning.Server.Database;
 using Ordning.Server.Items.Repositories;
 using Ordning.Server.Locations.Repositories;
+using Ordning.Server.Search.Models;
 using Ordning.Server.Tests.TestUtilities;
+using Ordning.Server.Users.Repositories;
+using Ordning.Server.Workspaces.Models;
+using Ordning.Server.Workspaces.Repositories;
 
 namespace Ordning.Server.Tests.Repositories
 {
@@ -37,7 +41,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                LocationDbModel? result = await Repository.GetByIdAsync(id, session);
+                LocationDbModel? result = await Repository.GetByIdAsync(id, session: session);
 
                 // Assert
                 Assert.NotNull(result);
@@ -61,7 +65,7 @@ namespace Ordning.Server.Tests.Repositories
                 string id = "nonexistent-location";
 
                 // Act
-                LocationDbModel? result = await Repository.GetByIdAsync(id, session);
+                LocationDbModel? result = await Repository.GetByIdAsync(id, session: session);
 
                 // Assert
                 Assert.Null(result);
@@ -99,7 +103,7 @@ namespace Ordning.Server.Tests.Repositories
                 Assert.True(result.UpdatedAt >= DateTimeOffset.UtcNow.AddSeconds(-5));
 
                 // Verify can retrieve by ID
-                LocationDbModel? retrieved = await Repository.GetByIdAsync(id, session);
+                LocationDbModel? retrieved = await Repository.GetByIdAsync(id, session: session);
                 Assert.NotNull(retrieved);
                 Assert.Equal(result.Id, retrieved.Id);
                 Assert.Equal(result.CreatedAt, retrieved.CreatedAt);
@@ -140,7 +144,7 @@ namespace Ordning.Server.Tests.Repositories
                 Assert.Equal(parentId, result.ParentLocationId);
 
                 // Verify can retrieve by ID
-                LocationDbModel? retrieved = await Repository.GetByIdAsync(childId, session);
+                LocationDbModel? retrieved = await Repository.GetByIdAsync(childId, session: session);
                 Assert.NotNull(retrieved);
                 Assert.Equal(parentId, retrieved.ParentLocationId);
             }
@@ -178,7 +182,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                IEnumerable<LocationDbModel> result = await Repository.GetAllAsync(session);
+                IEnumerable<LocationDbModel> result = await Repository.GetAllAsync(session: session);
 
                 // Assert
                 Assert.Contains(result, l => l.Id == id1);
@@ -195,6 +199,37 @@ namespace Ordning.Server.Tests.Repositories
             }
         }
 
+        [Fact]
+        public async Task GetAllAsync_WhenWorkspaceGiven_OnlyReturnsLocationsInWorkspace()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                UserRepository userRepository = new UserRepository(TestDatabaseManager.DataSource, SessionFactory);
+                WorkspaceRepository workspaceRepository = new WorkspaceRepository(TestDatabaseManager.DataSource, SessionFactory);
+                string username = $"workspace-admin-{Guid.NewGuid():N}";
+                UserDbModel user = await userRepository.CreateAsync(username, $"{username}@example.com", "hashed_password", session: session);
+                Guid workspaceId = Guid.NewGuid();
+                await workspaceRepository.CreateAsync(workspaceId, "Cabin", user.Id, session);
+
+                string homeId = $"home-{Guid.NewGuid()}";
+                string cabinId = $"cabin-{Guid.NewGuid()}";
+                await Repository.CreateAsync(id: homeId, name: "Garage", session: session);
+                await Repository.CreateAsync(id: cabinId, name: "Shed", workspaceId: workspaceId, session: session);
+
+                // Act
+                IEnumerable<LocationDbModel> result = await Repository.GetAllAsync(workspaceId, session);
+
+                // Assert
+                LocationDbModel location = Assert.Single(result);
+                Assert.Equal(cabinId, location.Id);
+                Assert.True(await Repository.ExistsAsync(homeId, session: session));
+                Assert.False(await Repository.ExistsAsync(homeId, workspaceId, session));
+                Assert.Null(await Repository.GetByIdAsync(homeId, workspaceId, session));
+                Assert.NotNull(await Repository.GetByIdAsync(homeId, Workspace.DefaultId, session));
+            }
+        }
+
         [Fact]
         public async Task GetChildrenAsync_WhenChildrenExist_ReturnsChildren()
         {
@@ -235,7 +270,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                IEnumerable<LocationDbModel> result = await Repository.GetChildrenAsync(parentId, session);
+                IEnumerable<LocationDbModel> result = await Repository.GetChildrenAsync(parentId, session: session);
 
                 // Assert
                 Assert.Equal(2, result.Count());
@@ -266,7 +301,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                IEnumerable<LocationDbModel> result = await Repository.GetChildrenAsync(parentId, session);
+                IEnumerable<LocationDbModel> result = await Repository.GetChildrenAsync(parentId, session: session);
 
                 // Assert
                 Assert.Empty(result);
@@ -282,7 +317,7 @@ namespace Ordning.Server.Tests.Repositories
                 string nonExistentParentId = $"nonexistent-parent-{Guid.NewGuid()}";
 
                 // Act
-                IEnumerable<LocationDbModel> result = await Repository.GetChildrenAsync(nonExistentParentId, session);
+                IEnumerable<LocationDbModel> result = await Repository.GetChildrenAsync(nonExistentParentId, session: session);
 
                 // Assert
                 Assert.NotNull(result);
@@ -406,7 +441,7 @@ namespace Ordning.Server.Tests.Repositories
                 Assert.True(result);
 
                 // Verify location was updated
-                LocationDbModel? retrieved = await Repository.GetByIdAsync(id, session);
+                LocationDbModel? retrieved = await Repository.GetByIdAsync(id, session: session);
                 Assert.NotNull(retrieved);
                 Assert.Equal(newName, retrieved.Name);
                 Assert.Equal(newDescription, retrieved.Description);
@@ -458,7 +493,7 @@ namespace Ordning.Server.Tests.Repositories
                 Assert.True(result);
 
                 // Verify parent was updated
-                LocationDbModel? retrieved = await Repository.GetByIdAsync(childId, session);
+                LocationDbModel? retrieved = await Repository.GetByIdAsync(childId, session: session);
                 Assert.NotNull(retrieved);
                 Assert.Equal(parent2Id, retrieved.ParentLocationId);
             }
@@ -503,13 +538,13 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                bool result = await Repository.DeleteAsync(id, session);
+                bool result = await Repository.DeleteAsync(id, session: session);
 
                 // Assert
                 Assert.True(result);
 
                 // Verify location was deleted
-                LocationDbModel? retrieved = await Repository.GetByIdAsync(id, session);
+                LocationDbModel? retrieved = await Repository.GetByIdAsync(id, session: session);
                 Assert.Null(retrieved);
             }
         }
@@ -523,7 +558,7 @@ namespace Ordning.Server.Tests.Repositories
                 string nonExistentId = "nonexistent-location";
 
                 // Act
-                bool result = await Repository.DeleteAsync(nonExistentId, session);
+                bool result = await Repository.DeleteAsync(nonExistentId, session: session);
 
                 // Assert
                 Assert.False(result);
@@ -628,6 +663,106 @@ namespace Ordning.Server.Tests.Repositories
             }
         }
 
+        [Fact]
+        public async Task GetSubtreeAsync_WhenLocationHasNestedChildren_ReturnsLocationAndAllDescendants()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string rootId = $"root-{Guid.NewGuid()}";
+                string childId = $"child-{Guid.NewGuid()}";
+                string grandchildId = $"grandchild-{Guid.NewGuid()}";
+                string otherId = $"other-{Guid.NewGuid()}";
+
+                await Repository.CreateAsync(id: rootId, name: "Root", description: null, parentLocationId: null, session: session);
+                await Repository.CreateAsync(id: childId, name: "Child", description: null, parentLocationId: rootId, session: session);
+                await Repository.CreateAsync(id: grandchildId, name: "Grandchild", description: null, parentLocationId: childId, session: session);
+                await Repository.CreateAsync(id: otherId, name: "Other", description: null, parentLocationId: null, session: session);
+
+                // Act
+                List<LocationDbModel> result = (await Repository.GetSubtreeAsync(rootId, session: session)).ToList();
+
+                // Assert
+                Assert.Equal(new[] { rootId, childId, grandchildId }, result.Select(l => l.Id));
+            }
+        }
+
+        [Fact]
+        public async Task MoveContentsAndDeleteAsync_WhenLocationHasChildrenAndItems_MovesThemAndDeletesLocation()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"location-{Guid.NewGuid()}";
+                string childId = $"child-{Guid.NewGuid()}";
+                string targetId = $"target-{Guid.NewGuid()}";
+                Guid itemId = Guid.NewGuid();
+                ItemRepository itemRepository = new ItemRepository(TestDatabaseManager.DataSource, SessionFactory);
+
+                await Repository.CreateAsync(id: locationId, name: "Location", description: null, parentLocationId: null, session: session);
+                await Repository.CreateAsync(id: childId, name: "Child", description: null, parentLocationId: locationId, session: session);
+                await Repository.CreateAsync(id: targetId, name: "Target", description: null, parentLocationId: null, session: session);
+                await itemRepository.CreateAsync(id: itemId, name: "Item", description: null, locationId: locationId, properties: null, session: session);
+
+                // Act
+                bool result = await Repository.MoveContentsAndDeleteAsync(locationId, targetId, session);
+
+                // Assert
+                Assert.True(result);
+                Assert.Null(await Repository.GetByIdAsync(locationId, session: session));
+
+                LocationDbModel? child = await Repository.GetByIdAsync(childId, session: session);
+                Assert.NotNull(child);
+                Assert.Equal(targetId, child.ParentLocationId);
+
+                ItemDbModel? item = await itemRepository.GetByIdAsync(itemId, session: session);
+                Assert.NotNull(item);
+                Assert.Equal(targetId, item.LocationId);
+            }
+        }
+
+        [Fact]
+        public async Task DeleteSubtreeAsync_WhenLocationHasNestedChildrenAndItems_DeletesEverything()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string rootId = $"root-{Guid.NewGuid()}";
+                string childId = $"child-{Guid.NewGuid()}";
+                string grandchildId = $"grandchild-{Guid.NewGuid()}";
+                Guid itemId = Guid.NewGuid();
+                ItemRepository itemRepository = new ItemRepository(TestDatabaseManager.DataSource, SessionFactory);
+
+                await Repository.CreateAsync(id: rootId, name: "Root", description: null, parentLocationId: null, session: session);
+                await Repository.CreateAsync(id: childId, name: "Child", description: null, parentLocationId: rootId, session: session);
+                await Repository.CreateAsync(id: grandchildId, name: "Grandchild", description: null, parentLocationId: childId, session: session);
+                await itemRepository.CreateAsync(id: itemId, name: "Item", description: null, locationId: grandchildId, properties: null, session: session);
+
+                // Act
+                bool result = await Repository.DeleteSubtreeAsync(rootId, session);
+
+                // Assert
+                Assert.True(result);
+                Assert.Empty(await Repository.GetSubtreeAsync(rootId, session: session));
+                Assert.Null(await Repository.GetByIdAsync(grandchildId, session: session));
+                Assert.Null(await itemRepository.GetByIdAsync(itemId, session: session));
+            }
+        }
+
+        [Fact]
+        public async Task DeleteSubtreeAsync_WhenLocationDoesNotExist_ReturnsFalse()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                // Act
+                bool result = await Repository.DeleteSubtreeAsync($"missing-{Guid.NewGuid()}", session);
+
+                // Assert
+                Assert.False(result);
+            }
+        }
+
         [Fact]
         public async Task CreateAsync_WhenParentDoesNotExist_ThrowsDatabaseConstraintViolationException()
         {
@@ -705,7 +840,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                bool result = await Repository.ExistsAsync(id, session);
+                bool result = await Repository.ExistsAsync(id, session: session);
 
                 // Assert
                 Assert.True(result);
@@ -721,7 +856,7 @@ namespace Ordning.Server.Tests.Repositories
                 string nonExistentId = "nonexistent-location";
 
                 // Act
-                bool result = await Repository.ExistsAsync(nonExistentId, session);
+                bool result = await Repository.ExistsAsync(nonExistentId, session: session);
 
                 // Assert
                 Assert.False(result);
@@ -760,7 +895,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                (IEnumerable<LocationDbModel> results, int totalCount) = await Repository.SearchAsync("garage", 0, 10, session);
+                (IEnumerable<LocationDbModel> results, int totalCount) = await Repository.SearchAsync("garage", 0, 10, session: session);
 
                 // Assert
                 Assert.True(totalCount >= 2);
@@ -794,7 +929,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                (IEnumerable<LocationDbModel> results, int totalCount) = await Repository.SearchAsync("storage", 0, 10, session);
+                (IEnumerable<LocationDbModel> results, int totalCount) = await Repository.SearchAsync("storage", 0, 10, session: session);
 
                 // Assert
                 Assert.True(totalCount >= 2);
@@ -822,7 +957,7 @@ namespace Ordning.Server.Tests.Repositories
                 }
 
                 // Act
-                (IEnumerable<LocationDbModel> results, int totalCount) = await Repository.SearchAsync("room", 2, 2, session);
+                (IEnumerable<LocationDbModel> results, int totalCount) = await Repository.SearchAsync("room", 2, 2, session: session);
 
                 // Assert
                 Assert.True(totalCount >= 5);
@@ -862,7 +997,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act - search for "gar" which should match "Garage" and "Garden Shed"
-                (IEnumerable<LocationDbModel> results, int totalCount) = await Repository.SearchAsync("gar", 0, 10, session);
+                (IEnumerable<LocationDbModel> results, int totalCount) = await Repository.SearchAsync("gar", 0, 10, session: session);
 
                 // Assert
                 Assert.True(totalCount >= 2, $"Expected at least 2 results, but got {totalCount}");
@@ -897,7 +1032,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act - search for "garden" which should match "gardening"
-                (IEnumerable<LocationDbModel> results, int totalCount) = await Repository.SearchAsync("garden", 0, 10, session);
+                (IEnumerable<LocationDbModel> results, int totalCount) = await Repository.SearchAsync("garden", 0, 10, session: session);
 
                 // Assert
                 Assert.True(totalCount >= 1, $"Expected at least 1 result, but got {totalCount}");
@@ -938,7 +1073,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act - search for "garage-main" which should match the ID
-                (IEnumerable<LocationDbModel> results, int totalCount) = await Repository.SearchAsync("garage-main", 0, 10, session);
+                (IEnumerable<LocationDbModel> results, int totalCount) = await Repository.SearchAsync("garage-main", 0, 10, session: session);
 
                 // Assert
                 Assert.True(totalCount >= 1, $"Expected at least 1 result, but got {totalCount}");
@@ -971,7 +1106,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act - search for "location-abc" which should match the ID prefix
-                (IEnumerable<LocationDbModel> results, int totalCount) = await Repository.SearchAsync("location-abc", 0, 10, session);
+                (IEnumerable<LocationDbModel> results, int totalCount) = await Repository.SearchAsync("location-abc", 0, 10, session: session);
 
                 // Assert
                 Assert.True(totalCount >= 1, $"Expected at least 1 result, but got {totalCount}");
@@ -996,7 +1131,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                IEnumerable<LocationDbModel> result = await Repository.GetFullPathAsync(rootId, session);
+                IEnumerable<LocationDbModel> result = await Repository.GetFullPathAsync(rootId, session: session);
 
                 // Assert
                 List<LocationDbModel> resultList = result.ToList();
@@ -1031,7 +1166,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                IEnumerable<LocationDbModel> result = await Repository.GetFullPathAsync(childId, session);
+                IEnumerable<LocationDbModel> result = await Repository.GetFullPathAsync(childId, session: session);
 
                 // Assert
                 List<LocationDbModel> resultList = result.ToList();
@@ -1085,7 +1220,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act
-                IEnumerable<LocationDbModel> result = await Repository.GetFullPathAsync(level3Id, session);
+                IEnumerable<LocationDbModel> result = await Repository.GetFullPathAsync(level3Id, session: session);
 
                 // Assert
                 List<LocationDbModel> resultList = result.ToList();
@@ -1110,7 +1245,7 @@ namespace Ordning.Server.Tests.Repositories
                 string nonExistentId = $"nonexistent-location-{Guid.NewGuid()}";
 
                 // Act
-                IEnumerable<LocationDbModel> result = await Repository.GetFullPathAsync(nonExistentId, session);
+                IEnumerable<LocationDbModel> result = await Repository.GetFullPathAsync(nonExistentId, session: session);
 
                 // Assert
                 Assert.Empty(result);
@@ -1157,7 +1292,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act - get path for branch1ChildId
-                IEnumerable<LocationDbModel> result = await Repository.GetFullPathAsync(branch1ChildId, session);
+                IEnumerable<LocationDbModel> result = await Repository.GetFullPathAsync(branch1ChildId, session: session);
 
                 // Assert
                 List<LocationDbModel> resultList = result.ToList();
@@ -1193,7 +1328,7 @@ namespace Ordning.Server.Tests.Repositories
                     session: session);
 
                 // Act - pass the same session to ensure it uses the same connection
-                IEnumerable<LocationDbModel> result = await Repository.GetFullPathAsync(childId, session);
+                IEnumerable<LocationDbModel> result = await Repository.GetFullPathAsync(childId, session: session);
 
                 // Assert
                 List<LocationDbModel> resultList = result.ToList();
@@ -1202,5 +1337,51 @@ namespace Ordning.Server.Tests.Repositories
                 Assert.Equal(childId, resultList[1].Id);
             }
         }
+
+        [Fact]
+        public async Task SearchAsync_WhenQueryHasLocationFilter_ReturnsDescendantsOnly()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string rootId = $"test-root-{Guid.NewGuid()}";
+                string childId = $"test-child-{Guid.NewGuid()}";
+                string grandchildId = $"test-grandchild-{Guid.NewGuid()}";
+                string otherId = $"test-other-{Guid.NewGuid()}";
+                await Repository.CreateAsync(id: rootId, name: "Zyxloc Garage", description: null, parentLocationId: null, session: session);
+                await Repository.CreateAsync(id: childId, name: "Zyxloc Shelf", description: null, parentLocationId: rootId, session: session);
+                await Repository.CreateAsync(id: grandchildId, name: "Zyxloc Box", description: null, parentLocationId: childId, session: session);
+                await Repository.CreateAsync(id: otherId, name: "Zyxloc Kitchen", description: null, parentLocationId: null, session: session);
+
+                // Act
+                (IEnumerable<LocationDbModel> results, int totalCount) = await Repository.SearchAsync(SearchQuery.Parse($"in:{rootId}"), 0, 10, session: session);
+
+                // Assert
+                Assert.Equal(2, totalCount);
+                List<string> resultIds = results.Select(l => l.Id).ToList();
+                Assert.Contains(childId, resultIds);
+                Assert.Contains(grandchildId, resultIds);
+            }
+        }
+
+        [Fact]
+        public async Task SearchAsync_WhenQueryExcludesTerm_ReturnsLocationsWithoutTerm()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string keptId = $"test-kept-{Guid.NewGuid()}";
+                string excludedId = $"test-excluded-{Guid.NewGuid()}";
+                await Repository.CreateAsync(id: keptId, name: "Zyxexclude Shelf", description: null, parentLocationId: null, session: session);
+                await Repository.CreateAsync(id: excludedId, name: "Zyxexclude Shelf", description: "Temporary storage", parentLocationId: null, session: session);
+
+                // Act
+                (IEnumerable<LocationDbModel> results, int totalCount) = await Repository.SearchAsync(SearchQuery.Parse("zyxexclude -temporary"), 0, 10, session: session);
+
+                // Assert
+                Assert.Equal(1, totalCount);
+                Assert.Equal(keptId, results.Single().Id);
+            }
+        }
     }
 }
@@ -0,0 +1,99 @@
+using EasyReasy.Database;
+using Ordning.Server.Passkeys.Repositories;
+using Ordning.Server.Tests.TestUtilities;
+using Ordning.Server.Users.Repositories;
+
+namespace Ordning.Server.Tests.Repositories
+{
+    /// <summary>
+    /// Integration tests for PasskeyRepository.
+    /// </summary>
+    public class PasskeyRepositoryTests : RepositoryTestBase
+    {
+        private PasskeyRepository Repository { get; set; } = null!;
+        private UserRepository UserRepository { get; set; } = null!;
+
+        public override async Task InitializeAsync()
+        {
+            await base.InitializeAsync();
+            Repository = new PasskeyRepository(TestDatabaseManager.DataSource, SessionFactory);
+            UserRepository = new UserRepository(TestDatabaseManager.DataSource, SessionFactory);
+        }
+
+        [Fact]
+        public async Task GetByCredentialIdAsync_WhenPasskeyExists_ReturnsItWithKey()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                UserDbModel user = await CreateUserAsync("user", session);
+                byte[] credentialId = Guid.NewGuid().ToByteArray();
+                byte[] publicKey = new byte[] { 1, 2, 3, 4, 5 };
+                await Repository.CreateAsync(Guid.NewGuid(), user.Id, credentialId, publicKey, 0, "Phone", session);
+
+                // Act
+                PasskeyDbModel? result = await Repository.GetByCredentialIdAsync(credentialId, session);
+
+                // Assert
+                Assert.NotNull(result);
+                Assert.Equal(user.Id, result.UserId);
+                Assert.Equal(publicKey, result.PublicKey);
+                Assert.Equal("Phone", result.Name);
+                Assert.Null(result.LastUsedAt);
+            }
+        }
+
+        [Fact]
+        public async Task UpdateSignatureCounterAsync_WhenCalled_StoresCounterAndLastUse()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                UserDbModel user = await CreateUserAsync("user", session);
+                byte[] credentialId = Guid.NewGuid().ToByteArray();
+                PasskeyDbModel created = await Repository.CreateAsync(Guid.NewGuid(), user.Id, credentialId, new byte[] { 1 }, 0, "Phone", session);
+
+                // Act
+                await Repository.UpdateSignatureCounterAsync(created.Id, 7, session);
+
+                // Assert
+                PasskeyDbModel? result = await Repository.GetByCredentialIdAsync(credentialId, session);
+                Assert.NotNull(result);
+                Assert.Equal(7L, result.SignatureCounter);
+                Assert.NotNull(result.LastUsedAt);
+            }
+        }
+
+        [Fact]
+        public async Task DeleteAsync_WhenPasskeyBelongsToAnotherUser_DoesNotDeleteIt()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                UserDbModel owner = await CreateUserAsync("owner", session);
+                UserDbModel other = await CreateUserAsync("other", session);
+                PasskeyDbModel created = await Repository.CreateAsync(Guid.NewGuid(), owner.Id, Guid.NewGuid().ToByteArray(), new byte[] { 1 }, 0, "Phone", session);
+
+                // Act
+                bool deletedByOther = await Repository.DeleteAsync(created.Id, other.Id, session);
+
+                // Assert
+                Assert.False(deletedByOther);
+                Assert.Single(await Repository.GetByUserAsync(owner.Id, session));
+                Assert.True(await Repository.DeleteAsync(created.Id, owner.Id, session));
+                Assert.Empty(await Repository.GetByUserAsync(owner.Id, session));
+            }
+        }
+
+        private async Task<UserDbModel> CreateUserAsync(string username, IDbSession session)
+        {
+            string uniqueUsername = $"{username}-{Guid.NewGuid():N}";
+            return await UserRepository.CreateAsync(
+                username: uniqueUsername,
+                email: $"{uniqueUsername}@example.com",
+                passwordHash: "hashed_password",
+                roles: null,
+                session: session);
+        }
+    }
+}
@@ -0,0 +1,91 @@
+using EasyReasy.Database;
+using Ordning.Server.PropertyDefinitions.Models;
+using Ordning.Server.PropertyDefinitions.Repositories;
+using Ordning.Server.Tests.TestUtilities;
+
+namespace Ordning.Server.Tests.Repositories
+{
+    /// <summary>
+    /// Integration tests for PropertyDefinitionRepository.
+    /// </summary>
+    public class PropertyDefinitionRepositoryTests : RepositoryTestBase
+    {
+        private PropertyDefinitionRepository Repository { get; set; } = null!;
+
+        public override async Task InitializeAsync()
+        {
+            await base.InitializeAsync();
+            Repository = new PropertyDefinitionRepository(TestDatabaseManager.DataSource, SessionFactory);
+        }
+
+        [Fact]
+        public async Task CreateAsync_WhenValid_CanBeReadByKeyIgnoringCase()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string key = $"condition-{Guid.NewGuid()}";
+
+                // Act
+                PropertyDefinitionDbModel created = await Repository.CreateAsync(
+                    key: key,
+                    name: "Condition",
+                    type: PropertyTypes.Enum,
+                    isRequired: true,
+                    options: new[] { "New", "Used" },
+                    session: session);
+
+                PropertyDefinitionDbModel? result = await Repository.GetByKeyAsync(key.ToUpperInvariant(), session);
+
+                // Assert
+                Assert.NotNull(result);
+                Assert.Equal(key, result.Key);
+                Assert.True(result.IsRequired);
+                Assert.Equal(new[] { "New", "Used" }, result.ToDomainPropertyDefinition().Options);
+                Assert.Equal(created.CreatedAt, result.CreatedAt);
+            }
+        }
+
+        [Fact]
+        public async Task UpdateAsync_WhenDefinitionExists_ReplacesValues()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string key = $"weight-{Guid.NewGuid()}";
+                await Repository.CreateAsync(key: key, name: "Weight", type: PropertyTypes.Text, session: session);
+
+                // Act
+                bool updated = await Repository.UpdateAsync(key: key, name: "Net weight", type: PropertyTypes.Number, unit: "kg", session: session);
+
+                // Assert
+                Assert.True(updated);
+                PropertyDefinitionDbModel? result = await Repository.GetByKeyAsync(key, session);
+                Assert.NotNull(result);
+                Assert.Equal("Net weight", result.Name);
+                Assert.Equal(PropertyTypes.Number, result.Type);
+                Assert.Equal("kg", result.Unit);
+                Assert.Empty(result.ToDomainPropertyDefinition().Options);
+            }
+        }
+
+        [Fact]
+        public async Task DeleteAsync_WhenDefinitionExists_RemovesDefinition()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string key = $"manual-{Guid.NewGuid()}";
+                await Repository.CreateAsync(key: key, name: "Manual", type: PropertyTypes.Url, session: session);
+
+                // Act
+                bool deleted = await Repository.DeleteAsync(key, session);
+
+                // Assert
+                Assert.True(deleted);
+                Assert.Null(await Repository.GetByKeyAsync(key, session));
+                Assert.DoesNotContain(await Repository.GetAllAsync(session), d => d.Key == key);
+            }
+        }
+    }
+}
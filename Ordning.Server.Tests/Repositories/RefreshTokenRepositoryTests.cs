@@ -0,0 +1,108 @@
+using EasyReasy.Database;
+using Ordning.Server.Sessions.Repositories;
+using Ordning.Server.Tests.TestUtilities;
+using Ordning.Server.Users.Repositories;
+
+namespace Ordning.Server.Tests.Repositories
+{
+    /// <summary>
+    /// Integration tests for RefreshTokenRepository.
+    /// </summary>
+    public class RefreshTokenRepositoryTests : RepositoryTestBase
+    {
+        private RefreshTokenRepository Repository { get; set; } = null!;
+        private UserRepository UserRepository { get; set; } = null!;
+
+        public override async Task InitializeAsync()
+        {
+            await base.InitializeAsync();
+            Repository = new RefreshTokenRepository(TestDatabaseManager.DataSource, SessionFactory);
+            UserRepository = new UserRepository(TestDatabaseManager.DataSource, SessionFactory);
+        }
+
+        [Fact]
+        public async Task MarkUsedAsync_WhenTokenHasAlreadyBeenUsed_ReturnsFalse()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                UserDbModel user = await CreateUserAsync("user", session);
+                string tokenHash = NewTokenHash();
+                RefreshTokenDbModel created = await Repository.CreateAsync(Guid.NewGuid(), user.Id, Guid.NewGuid(), tokenHash, DateTimeOffset.UtcNow.AddDays(1), session);
+
+                // Act
+                bool first = await Repository.MarkUsedAsync(created.Id, session);
+                bool second = await Repository.MarkUsedAsync(created.Id, session);
+
+                // Assert
+                Assert.True(first);
+                Assert.False(second);
+                RefreshTokenDbModel? stored = await Repository.GetByTokenHashAsync(tokenHash, session);
+                Assert.NotNull(stored);
+                Assert.NotNull(stored.UsedAt);
+            }
+        }
+
+        [Fact]
+        public async Task RevokeFamilyAsync_WhenCalled_RevokesOnlyTokensInFamily()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                UserDbModel user = await CreateUserAsync("user", session);
+                Guid familyId = Guid.NewGuid();
+                RefreshTokenDbModel used = await Repository.CreateAsync(Guid.NewGuid(), user.Id, familyId, NewTokenHash(), DateTimeOffset.UtcNow.AddDays(1), session);
+                await Repository.MarkUsedAsync(used.Id, session);
+                RefreshTokenDbModel current = await Repository.CreateAsync(Guid.NewGuid(), user.Id, familyId, NewTokenHash(), DateTimeOffset.UtcNow.AddDays(1), session);
+                RefreshTokenDbModel otherSession = await Repository.CreateAsync(Guid.NewGuid(), user.Id, Guid.NewGuid(), NewTokenHash(), DateTimeOffset.UtcNow.AddDays(1), session);
+
+                // Act
+                int revoked = await Repository.RevokeFamilyAsync(familyId, session);
+
+                // Assert
+                Assert.Equal(2, revoked);
+                Assert.False(await Repository.MarkUsedAsync(current.Id, session));
+                Assert.True(await Repository.MarkUsedAsync(otherSession.Id, session));
+            }
+        }
+
+        [Fact]
+        public async Task RevokeAllForUserAsync_WhenCalled_RevokesEveryFamilyOfUserOnly()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                UserDbModel user = await CreateUserAsync("user", session);
+                UserDbModel otherUser = await CreateUserAsync("other", session);
+                RefreshTokenDbModel first = await Repository.CreateAsync(Guid.NewGuid(), user.Id, Guid.NewGuid(), NewTokenHash(), DateTimeOffset.UtcNow.AddDays(1), session);
+                RefreshTokenDbModel second = await Repository.CreateAsync(Guid.NewGuid(), user.Id, Guid.NewGuid(), NewTokenHash(), DateTimeOffset.UtcNow.AddDays(1), session);
+                RefreshTokenDbModel otherUsers = await Repository.CreateAsync(Guid.NewGuid(), otherUser.Id, Guid.NewGuid(), NewTokenHash(), DateTimeOffset.UtcNow.AddDays(1), session);
+
+                // Act
+                int revoked = await Repository.RevokeAllForUserAsync(user.Id, session);
+
+                // Assert
+                Assert.Equal(2, revoked);
+                Assert.False(await Repository.MarkUsedAsync(first.Id, session));
+                Assert.False(await Repository.MarkUsedAsync(second.Id, session));
+                Assert.True(await Repository.MarkUsedAsync(otherUsers.Id, session));
+            }
+        }
+
+        private static string NewTokenHash()
+        {
+            return Guid.NewGuid().ToString("N") + Guid.NewGuid().ToString("N");
+        }
+
+        private async Task<UserDbModel> CreateUserAsync(string username, IDbSession session)
+        {
+            string uniqueUsername = $"{username}-{Guid.NewGuid():N}";
+            return await UserRepository.CreateAsync(
+                username: uniqueUsername,
+                email: $"{uniqueUsername}@example.com",
+                passwordHash: "hashed_password",
+                roles: null,
+                session: session);
+        }
+    }
+}
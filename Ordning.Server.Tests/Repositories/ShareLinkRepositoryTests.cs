@@ -0,0 +1,95 @@
+using EasyReasy.Database;
+using Ordning.Server.Locations.Repositories;
+using Ordning.Server.Shares.Repositories;
+using Ordning.Server.Tests.TestUtilities;
+using Ordning.Server.Users.Repositories;
+using Ordning.Server.Workspaces.Models;
+
+namespace Ordning.Server.Tests.Repositories
+{
+    /// <summary>
+    /// Integration tests for ShareLinkRepository.
+    /// </summary>
+    public class ShareLinkRepositoryTests : RepositoryTestBase
+    {
+        private ShareLinkRepository Repository { get; set; } = null!;
+        private LocationRepository LocationRepository { get; set; } = null!;
+        private UserRepository UserRepository { get; set; } = null!;
+
+        public override async Task InitializeAsync()
+        {
+            await base.InitializeAsync();
+            Repository = new ShareLinkRepository(TestDatabaseManager.DataSource, SessionFactory);
+            LocationRepository = new LocationRepository(TestDatabaseManager.DataSource, SessionFactory);
+            UserRepository = new UserRepository(TestDatabaseManager.DataSource, SessionFactory);
+        }
+
+        [Fact]
+        public async Task CreateAsync_WhenCalled_ReturnsLinkWithLocationNameAndCreator()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                UserDbModel user = await CreateUserAsync("admin", session);
+                string locationId = $"hallway-{Guid.NewGuid():N}";
+                await LocationRepository.CreateAsync(locationId, "Hallway", workspaceId: Workspace.DefaultId, session: session);
+                Guid id = Guid.NewGuid();
+                DateTimeOffset expiresAt = DateTimeOffset.FromUnixTimeSeconds(DateTimeOffset.UtcNow.AddDays(1).ToUnixTimeSeconds());
+
+                // Act
+                ShareLinkDbModel created = await Repository.CreateAsync(id, Workspace.DefaultId, locationId, "Babysitter", expiresAt, user.Id, session);
+
+                // Assert
+                Assert.Equal(id, created.Id);
+                Assert.Equal("Hallway", created.LocationName);
+                Assert.Equal("Babysitter", created.Label);
+                Assert.Equal(expiresAt, created.ExpiresAt);
+                Assert.Equal(user.Username, created.CreatedBy);
+
+                ShareLinkDbModel? result = await Repository.GetByIdAsync(id, session);
+                Assert.NotNull(result);
+                Assert.Equal(Workspace.DefaultId, result.WorkspaceId);
+            }
+        }
+
+        [Fact]
+        public async Task GetActiveByWorkspaceAsync_WhenLinksExpiredOrWereDeleted_LeavesThemOut()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                UserDbModel user = await CreateUserAsync("admin", session);
+                string locationId = $"hallway-{Guid.NewGuid():N}";
+                await LocationRepository.CreateAsync(locationId, "Hallway", workspaceId: Workspace.DefaultId, session: session);
+
+                Guid activeId = Guid.NewGuid();
+                Guid expiredId = Guid.NewGuid();
+                Guid revokedId = Guid.NewGuid();
+                await Repository.CreateAsync(activeId, Workspace.DefaultId, locationId, null, DateTimeOffset.UtcNow.AddDays(1), user.Id, session);
+                await Repository.CreateAsync(expiredId, Workspace.DefaultId, locationId, null, DateTimeOffset.UtcNow.AddMinutes(-1), user.Id, session);
+                await Repository.CreateAsync(revokedId, Workspace.DefaultId, locationId, null, DateTimeOffset.UtcNow.AddDays(1), user.Id, session);
+
+                // Act
+                bool deleted = await Repository.DeleteAsync(revokedId, Workspace.DefaultId, session);
+                IEnumerable<ShareLinkDbModel> result = await Repository.GetActiveByWorkspaceAsync(Workspace.DefaultId, session);
+
+                // Assert
+                Assert.True(deleted);
+                Assert.Contains(result, l => l.Id == activeId);
+                Assert.DoesNotContain(result, l => l.Id == expiredId || l.Id == revokedId);
+                Assert.False(await Repository.DeleteAsync(activeId, Guid.NewGuid(), session));
+            }
+        }
+
+        private async Task<UserDbModel> CreateUserAsync(string username, IDbSession session)
+        {
+            string uniqueUsername = $"{username}-{Guid.NewGuid():N}";
+            return await UserRepository.CreateAsync(
+                username: uniqueUsername,
+                email: $"{uniqueUsername}@example.com",
+                passwordHash: "hashed_password",
+                roles: null,
+                session: session);
+        }
+    }
+}
@@ -0,0 +1,123 @@
+using EasyReasy.Database;
+using Ordning.Server.Items.Repositories;
+using Ordning.Server.Locations.Repositories;
+using Ordning.Server.Tags.Models;
+using Ordning.Server.Tags.Repositories;
+using Ordning.Server.Tests.TestUtilities;
+
+namespace Ordning.Server.Tests.Repositories
+{
+    /// <summary>
+    /// Integration tests for TagRepository.
+    /// </summary>
+    public class TagRepositoryTests : RepositoryTestBase
+    {
+        private TagRepository Repository { get; set; } = null!;
+        private ItemRepository ItemRepository { get; set; } = null!;
+        private LocationRepository LocationRepository { get; set; } = null!;
+
+        public override async Task InitializeAsync()
+        {
+            await base.InitializeAsync();
+            Repository = new TagRepository(TestDatabaseManager.DataSource, SessionFactory);
+            ItemRepository = new ItemRepository(TestDatabaseManager.DataSource, SessionFactory);
+            LocationRepository = new LocationRepository(TestDatabaseManager.DataSource, SessionFactory);
+        }
+
+        [Fact]
+        public async Task SetTagsAsync_WhenOwnerHasTags_ReplacesThem()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string locationId = $"TAG-{Guid.NewGuid()}";
+                Guid itemId = Guid.NewGuid();
+                await LocationRepository.CreateAsync(locationId, "Shelf", null, null, session: session);
+                await ItemRepository.CreateAsync(itemId, "Drill", null, locationId, null, session: session);
+                await Repository.SetTagsAsync(TagOwnerTypes.Item, itemId.ToString(), new[] { "Tools", "Red" }, session);
+
+                // Act
+                await Repository.SetTagsAsync(TagOwnerTypes.Item, itemId.ToString(), new[] { "Tools", "Cordless" }, session);
+
+                // Assert
+                ItemDbModel? item = await ItemRepository.GetByIdAsync(itemId, session: session);
+                Assert.NotNull(item);
+                Assert.Equal(new[] { "Cordless", "Tools" }, item.ToDomainItem().Tags);
+            }
+        }
+
+        [Fact]
+        public async Task GetAllAsync_WhenTagsDifferInCase_GroupsThemAndCountsOnlyExistingOwners()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string tag = $"Winter {Guid.NewGuid()}";
+                string locationId = $"TAG-{Guid.NewGuid()}";
+                Guid itemId = Guid.NewGuid();
+                await LocationRepository.CreateAsync(locationId, "Attic", null, null, session: session);
+                await ItemRepository.CreateAsync(itemId, "Skis", null, locationId, null, session: session);
+                await Repository.SetTagsAsync(TagOwnerTypes.Location, locationId, new[] { tag }, session);
+                await Repository.SetTagsAsync(TagOwnerTypes.Item, itemId.ToString(), new[] { tag.ToUpperInvariant() }, session);
+                await Repository.SetTagsAsync(TagOwnerTypes.Item, Guid.NewGuid().ToString(), new[] { tag }, session);
+
+                // Act
+                IEnumerable<TagDbModel> result = await Repository.GetAllAsync(session: session);
+
+                // Assert
+                TagDbModel winter = Assert.Single(result, t => string.Equals(t.Name, tag, StringComparison.OrdinalIgnoreCase));
+                Assert.Equal(1, winter.ItemCount);
+                Assert.Equal(1, winter.LocationCount);
+            }
+        }
+
+        [Fact]
+        public async Task GetAllAsync_WhenLocationIsHidden_DoesNotCountItOrItsItems()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string tag = $"Secret {Guid.NewGuid()}";
+                string hiddenLocationId = $"TAG-{Guid.NewGuid()}";
+                string visibleLocationId = $"TAG-{Guid.NewGuid()}";
+                Guid hiddenItemId = Guid.NewGuid();
+                await LocationRepository.CreateAsync(hiddenLocationId, "Safe", null, null, session: session);
+                await LocationRepository.CreateAsync(visibleLocationId, "Desk", null, null, session: session);
+                await ItemRepository.CreateAsync(hiddenItemId, "Passport", null, hiddenLocationId, null, session: session);
+                await Repository.SetTagsAsync(TagOwnerTypes.Location, hiddenLocationId, new[] { tag }, session);
+                await Repository.SetTagsAsync(TagOwnerTypes.Location, visibleLocationId, new[] { tag }, session);
+                await Repository.SetTagsAsync(TagOwnerTypes.Item, hiddenItemId.ToString(), new[] { tag }, session);
+
+                // Act
+                IEnumerable<TagDbModel> result = await Repository.GetAllAsync(hiddenLocationIds: new[] { hiddenLocationId }, session: session);
+
+                // Assert
+                TagDbModel secret = Assert.Single(result, t => t.Name == tag);
+                Assert.Equal(0, secret.ItemCount);
+                Assert.Equal(1, secret.LocationCount);
+            }
+        }
+
+        [Fact]
+        public async Task GetByTagAsync_WhenLocationsHaveTag_ReturnsThemIgnoringCase()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                string tag = $"Cold {Guid.NewGuid()}";
+                string freezerId = $"TAG-{Guid.NewGuid()}";
+                await LocationRepository.CreateAsync(freezerId, "Freezer", null, null, session: session);
+                await LocationRepository.CreateAsync($"TAG-{Guid.NewGuid()}", "Oven", null, null, session: session);
+                await Repository.SetTagsAsync(TagOwnerTypes.Location, freezerId, new[] { tag }, session);
+
+                // Act
+                IEnumerable<LocationDbModel> result = await LocationRepository.GetByTagAsync(tag.ToLowerInvariant(), session: session);
+
+                // Assert
+                LocationDbModel freezer = Assert.Single(result);
+                Assert.Equal(freezerId, freezer.Id);
+                Assert.Equal(new[] { tag }, freezer.ToDomainLocation().Tags);
+            }
+        }
+    }
+}
@@ -0,0 +1,122 @@
+using EasyReasy.Database;
+using Ordning.Server.Tests.TestUtilities;
+using Ordning.Server.Users.Repositories;
+using Ordning.Server.Workspaces.Models;
+using Ordning.Server.Workspaces.Repositories;
+
+namespace Ordning.Server.Tests.Repositories
+{
+    /// <summary>
+    /// Integration tests for WorkspaceRepository.
+    /// </summary>
+    public class WorkspaceRepositoryTests : RepositoryTestBase
+    {
+        private WorkspaceRepository Repository { get; set; } = null!;
+        private UserRepository UserRepository { get; set; } = null!;
+
+        public override async Task InitializeAsync()
+        {
+            await base.InitializeAsync();
+            Repository = new WorkspaceRepository(TestDatabaseManager.DataSource, SessionFactory);
+            UserRepository = new UserRepository(TestDatabaseManager.DataSource, SessionFactory);
+        }
+
+        [Fact]
+        public async Task CreateAsync_WhenCalled_AddsCreatorAsAdmin()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                UserDbModel user = await CreateUserAsync("creator", session);
+                Guid workspaceId = Guid.NewGuid();
+
+                // Act
+                WorkspaceDbModel created = await Repository.CreateAsync(workspaceId, "Cabin", user.Id, session);
+
+                // Assert
+                Assert.Equal(WorkspaceRoles.Admin, created.Role);
+                WorkspaceMemberDbModel member = Assert.Single(await Repository.GetMembersAsync(workspaceId, session));
+                Assert.Equal(user.Id, member.UserId);
+                Assert.Equal(WorkspaceRoles.Admin, member.Role);
+            }
+        }
+
+        [Fact]
+        public async Task GetByIdAsync_WhenUserIsNotAMember_ReturnsWorkspaceWithoutRole()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                UserDbModel admin = await CreateUserAsync("admin", session);
+                UserDbModel outsider = await CreateUserAsync("outsider", session);
+                Guid workspaceId = Guid.NewGuid();
+                await Repository.CreateAsync(workspaceId, "Cabin", admin.Id, session);
+
+                // Act
+                WorkspaceDbModel? result = await Repository.GetByIdAsync(workspaceId, outsider.Id, session);
+
+                // Assert
+                Assert.NotNull(result);
+                Assert.Equal("Cabin", result.Name);
+                Assert.Null(result.Role);
+                Assert.DoesNotContain(await Repository.GetByUserAsync(outsider.Id, session), w => w.Id == workspaceId);
+            }
+        }
+
+        [Fact]
+        public async Task SetMemberAsync_WhenUserIsAlreadyAMember_UpdatesRole()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                UserDbModel admin = await CreateUserAsync("admin", session);
+                UserDbModel member = await CreateUserAsync("member", session);
+                Guid workspaceId = Guid.NewGuid();
+                await Repository.CreateAsync(workspaceId, "Cabin", admin.Id, session);
+                await Repository.SetMemberAsync(workspaceId, member.Id, WorkspaceRoles.Read, session);
+
+                // Act
+                await Repository.SetMemberAsync(workspaceId, member.Id, WorkspaceRoles.Write, session);
+
+                // Assert
+                WorkspaceDbModel? result = await Repository.GetByIdAsync(workspaceId, member.Id, session);
+                Assert.NotNull(result);
+                Assert.Equal(WorkspaceRoles.Write, result.Role);
+                Assert.Equal(2, (await Repository.GetMembersAsync(workspaceId, session)).Count());
+            }
+        }
+
+        [Fact]
+        public async Task RemoveMemberAsync_WhenMemberExists_RemovesMembership()
+        {
+            // Arrange
+            await using (IDbSession session = await TestDatabaseManager.CreateTransactionSessionAsync())
+            {
+                UserDbModel admin = await CreateUserAsync("admin", session);
+                UserDbModel member = await CreateUserAsync("member", session);
+                Guid workspaceId = Guid.NewGuid();
+                await Repository.CreateAsync(workspaceId, "Cabin", admin.Id, session);
+                await Repository.SetMemberAsync(workspaceId, member.Id, WorkspaceRoles.Read, session);
+
+                // Act
+                bool removed = await Repository.RemoveMemberAsync(workspaceId, member.Id, session);
+
+                // Assert
+                Assert.True(removed);
+                Assert.False(await Repository.RemoveMemberAsync(workspaceId, member.Id, session));
+                Assert.Empty(await Repository.GetByUserAsync(member.Id, session));
+            }
+        }
+
+        private async Task<UserDbModel> CreateUserAsync(string username, IDbSession session)
+        {
+            string uniqueUsername = $"{username}-{Guid.NewGuid():N}";
+            return await UserRepository.CreateAsync(
+                username: uniqueUsername,
+                email: $"{uniqueUsername}@example.com",
+                passwordHash: "hashed_password",
+                roles: null,
+                session: session);
+        }
+    }
+}
@@ -0,0 +1,232 @@
+using Microsoft.AspNetCore.Http;
+using Moq;
+using Ordning.Server.Audit.Models;
+using Ordning.Server.Audit.Repositories;
+using Ordning.Server.Audit.Services;
+using Ordning.Server.Items.Models;
+using Ordning.Server.Locations.Models;
+using Ordning.Server.Locations.Services;
+using Ordning.Server.Workspaces.Services;
+
+namespace Ordning.Server.Tests.Services
+{
+    /// <summary>
+    /// Unit tests for AuditService.
+    /// </summary>
+    public class AuditServiceTests
+    {
+        private Mock<IAuditRepository> MockRepository { get; set; } = null!;
+        private Mock<IHttpContextAccessor> MockHttpContextAccessor { get; set; } = null!;
+        private Guid WorkspaceId { get; set; } = Guid.NewGuid();
+        private Mock<IWorkspaceService> MockWorkspaceService { get; set; } = null!;
+        private HashSet<string> HiddenLocationIds { get; set; } = new HashSet<string>();
+        private Mock<ILocationAccessService> MockLocationAccessService { get; set; } = null!;
+        private AuditService Service { get; set; } = null!;
+
+        public AuditServiceTests()
+        {
+            MockRepository = new Mock<IAuditRepository>();
+            MockHttpContextAccessor = new Mock<IHttpContextAccessor>();
+            MockWorkspaceService = new Mock<IWorkspaceService>();
+            MockWorkspaceService
+                .Setup(s => s.GetCurrentWorkspaceIdAsync(It.IsAny<string>()))
+                .ReturnsAsync(WorkspaceId);
+            MockLocationAccessService = new Mock<ILocationAccessService>();
+            MockLocationAccessService
+                .Setup(s => s.GetHiddenLocationIdsAsync())
+                .ReturnsAsync(() => HiddenLocationIds);
+            Service = new AuditService(MockRepository.Object, MockHttpContextAccessor.Object, MockWorkspaceService.Object, MockLocationAccessService.Object);
+        }
+
+        [Fact]
+        public async Task RecordAsync_WhenCalledOutsideARequest_RecordsCamelCaseSnapshotsWithoutUser()
+        {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+            Item item = new Item(id: itemId, name: "Drill", description: null, locationId: "G1");
+
+            // Act
+            await Service.RecordAsync(AuditEntityTypes.Item, itemId.ToString(), AuditActions.Create, before: null, after: item);
+
+            // Assert
+            MockRepository.Verify(r => r.CreateAsync(
+                It.IsAny<Guid>(),
+                AuditEntityTypes.Item,
+                itemId.ToString(),
+                AuditActions.Create,
+                null,
+                null,
+                It.Is<string>(json => json.Contains("\"name\":\"Drill\"") && json.Contains("\"locationId\":\"G1\"")),
+                null,
+                null), Times.Once);
+        }
+
+        [Fact]
+        public async Task RecordAsync_WhenActionIsUnknown_ThrowsArgumentException()
+        {
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.RecordAsync(AuditEntityTypes.Item, "id", "rename", before: null, after: null));
+
+            Assert.Contains("Unknown audit action", exception.Message);
+        }
+
+        [Fact]
+        public async Task GetEntriesAsync_WhenFiltersGiven_NormalizesAndPassesThemToRepository()
+        {
+            // Arrange
+            Guid userId = Guid.NewGuid();
+
+            MockRepository
+                .Setup(r => r.GetEntriesAsync(AuditEntityTypes.Location, "G1", userId, AuditActions.Move, 20, 10, WorkspaceId, It.IsAny<IEnumerable<string>?>(), null))
+                .ReturnsAsync((new[]
+                {
+                    new AuditEntryDbModel
+                    {
+                        Id = Guid.NewGuid(),
+                        EntityType = AuditEntityTypes.Location,
+                        EntityId = "G1",
+                        Action = AuditActions.Move,
+                        UserId = userId,
+                        Username = "admin",
+                        BeforeJson = "{\"parentLocationId\":\"A\"}",
+                        AfterJson = "{\"parentLocationId\":\"B\"}"
+                    }
+                }.AsEnumerable(), 21));
+
+            // Act
+            (IEnumerable<AuditEntry> results, int totalCount) = await Service.GetEntriesAsync(
+                entityType: " Location ",
+                entityId: "G1",
+                userId: userId.ToString(),
+                action: "MOVE",
+                offset: 20,
+                limit: 10);
+
+            // Assert
+            AuditEntry entry = Assert.Single(results);
+            Assert.Equal(21, totalCount);
+            Assert.Equal(userId.ToString(), entry.UserId);
+            Assert.Equal("admin", entry.Username);
+            Assert.Equal("A", entry.Before?.GetProperty("parentLocationId").GetString());
+            Assert.Equal("B", entry.After?.GetProperty("parentLocationId").GetString());
+        }
+
+        [Fact]
+        public async Task GetEntriesAsync_WhenFiltersAreEmpty_DoesNotFilter()
+        {
+            // Arrange
+            MockRepository
+                .Setup(r => r.GetEntriesAsync(null, null, null, null, 0, 20, It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null))
+                .ReturnsAsync((Enumerable.Empty<AuditEntryDbModel>(), 0));
+
+            // Act
+            await Service.GetEntriesAsync(entityType: "", entityId: " ", userId: null, action: null);
+
+            // Assert
+            MockRepository.Verify(r => r.GetEntriesAsync(null, null, null, null, 0, 20, It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null), Times.Once);
+        }
+
+        [Fact]
+        public async Task GetEntriesAsync_WhenLocationsAreHidden_PassesThemToRepository()
+        {
+            // Arrange
+            HiddenLocationIds.Add("SAFE");
+            MockRepository
+                .Setup(r => r.GetEntriesAsync(null, null, null, null, 0, 20, WorkspaceId, HiddenLocationIds, null))
+                .ReturnsAsync((Enumerable.Empty<AuditEntryDbModel>(), 0));
+
+            // Act
+            await Service.GetEntriesAsync();
+
+            // Assert
+            MockRepository.Verify(r => r.GetEntriesAsync(null, null, null, null, 0, 20, WorkspaceId, HiddenLocationIds, null), Times.Once);
+        }
+
+        [Theory]
+        [InlineData("folder", null, null)]
+        [InlineData(null, "not-a-guid", null)]
+        [InlineData(null, null, "rename")]
+        public async Task GetEntriesAsync_WhenFilterIsInvalid_ThrowsArgumentException(string? entityType, string? userId, string? action)
+        {
+            // Act & Assert
+            await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.GetEntriesAsync(entityType: entityType, userId: userId, action: action));
+        }
+
+        [Fact]
+        public async Task GetEntriesAsync_WhenLimitExceedsMax_ThrowsArgumentException()
+        {
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.GetEntriesAsync(limit: 101));
+
+            Assert.Contains("cannot exceed 100", exception.Message);
+        }
+
+        [Fact]
+        public async Task GetDeletedSnapshotAsync_WhenDeletionWasRecorded_ReturnsEntityFromLatestDeletion()
+        {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+
+            MockRepository
+                .Setup(r => r.GetEntriesAsync(AuditEntityTypes.Item, itemId.ToString(), null, AuditActions.Delete, 0, 1, It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null))
+                .ReturnsAsync((new[]
+                {
+                    new AuditEntryDbModel
+                    {
+                        Id = Guid.NewGuid(),
+                        EntityType = AuditEntityTypes.Item,
+                        EntityId = itemId.ToString(),
+                        Action = AuditActions.Delete,
+                        BeforeJson = $"{{\"id\":\"{itemId}\",\"name\":\"Drill\",\"locationId\":\"G1\",\"properties\":{{\"color\":\"red\"}}}}",
+                        AfterJson = null
+                    }
+                }.AsEnumerable(), 2));
+
+            // Act
+            Item? item = await Service.GetDeletedSnapshotAsync<Item>(AuditEntityTypes.Item, itemId.ToString());
+
+            // Assert
+            Assert.NotNull(item);
+            Assert.Equal(itemId, item.Id);
+            Assert.Equal("Drill", item.Name);
+            Assert.Equal("G1", item.LocationId);
+            Assert.Equal("red", item.Properties["color"]);
+        }
+
+        [Fact]
+        public async Task GetDeletedSnapshotAsync_WhenNoDeletionWasRecorded_ReturnsNull()
+        {
+            // Arrange
+            MockRepository
+                .Setup(r => r.GetEntriesAsync(AuditEntityTypes.Location, "G1", null, AuditActions.Delete, 0, 1, It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null))
+                .ReturnsAsync((Enumerable.Empty<AuditEntryDbModel>(), 0));
+
+            // Act
+            Location? location = await Service.GetDeletedSnapshotAsync<Location>(AuditEntityTypes.Location, "G1");
+
+            // Assert
+            Assert.Null(location);
+        }
+
+        [Fact]
+        public async Task GetUsersAsync_WhenCalled_GetsUsersOfCurrentWorkspace()
+        {
+            // Arrange
+            Guid userId = Guid.NewGuid();
+            MockRepository
+                .Setup(r => r.GetUsersAsync(WorkspaceId, null))
+                .ReturnsAsync(new[] { new AuditUserDbModel { UserId = userId, Username = "anna" } });
+
+            // Act
+            IEnumerable<AuditUser> users = await Service.GetUsersAsync();
+
+            // Assert
+            AuditUser user = Assert.Single(users);
+            Assert.Equal("anna", user.Username);
+            MockRepository.Verify(r => r.GetUsersAsync(WorkspaceId, null), Times.Once);
+        }
+    }
+}
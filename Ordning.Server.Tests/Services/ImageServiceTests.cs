@@ -0,0 +1,364 @@
+using EasyReasy.Database;
+using Moq;
+using Ordning.Server.Images.Models;
+using Ordning.Server.Images.Repositories;
+using Ordning.Server.Images.Services;
+using Ordning.Server.Items.Repositories;
+using Ordning.Server.Locations.Repositories;
+using Ordning.Server.Locations.Services;
+using Ordning.Server.Storage;
+using Ordning.Server.Workspaces.Services;
+
+namespace Ordning.Server.Tests.Services
+{
+    /// <summary>
+    /// Unit tests for ImageService.
+    /// </summary>
+    public class ImageServiceTests
+    {
+        private Mock<IImageRepository> MockImageRepository { get; set; } = null!;
+        private Mock<IItemRepository> MockItemRepository { get; set; } = null!;
+        private Mock<ILocationRepository> MockLocationRepository { get; set; } = null!;
+        private Mock<IBlobStore> MockBlobStore { get; set; } = null!;
+        private Mock<IWorkspaceService> MockWorkspaceService { get; set; } = null!;
+        private HashSet<string> HiddenLocationIds { get; set; } = new HashSet<string>();
+        private Mock<ILocationAccessService> MockLocationAccessService { get; set; } = null!;
+        private ImageService Service { get; set; } = null!;
+
+        public ImageServiceTests()
+        {
+            MockImageRepository = new Mock<IImageRepository>();
+            MockItemRepository = new Mock<IItemRepository>();
+            MockLocationRepository = new Mock<ILocationRepository>();
+            MockBlobStore = new Mock<IBlobStore>();
+            MockWorkspaceService = new Mock<IWorkspaceService>();
+            MockWorkspaceService
+                .Setup(s => s.GetCurrentWorkspaceIdAsync(It.IsAny<string>()))
+                .ReturnsAsync(Guid.NewGuid());
+            MockLocationAccessService = new Mock<ILocationAccessService>();
+            MockLocationAccessService
+                .Setup(s => s.GetHiddenLocationIdsAsync())
+                .ReturnsAsync(() => HiddenLocationIds);
+            Service = new ImageService(MockImageRepository.Object, MockItemRepository.Object, MockLocationRepository.Object, MockBlobStore.Object, MockWorkspaceService.Object, MockLocationAccessService.Object);
+        }
+
+        [Fact]
+        public async Task AddImageAsync_WhenValid_StoresImageAndThumbnailAndCreatesRecord()
+        {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+            using MemoryStream image = new MemoryStream(new byte[100]);
+            using MemoryStream thumbnail = new MemoryStream(new byte[10]);
+
+            MockItemRepository
+                .Setup(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new ItemDbModel { Id = itemId, LocationId = "G1" });
+            MockImageRepository
+                .Setup(r => r.GetByOwnerAsync(ImageOwnerTypes.Item, itemId.ToString(), It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new List<ImageDbModel>());
+            MockImageRepository
+                .Setup(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<Guid>(), ImageOwnerTypes.Item, itemId.ToString(), ImageContentTypes.Webp, 1600, 1200, 100, null))
+                .ReturnsAsync((Guid id, Guid workspaceId, string ownerType, string ownerId, string contentType, int width, int height, long sizeBytes, IDbSession? session) => new ImageDbModel
+                {
+                    Id = id,
+                    WorkspaceId = workspaceId,
+                    OwnerType = ownerType,
+                    OwnerId = ownerId,
+                    ContentType = contentType,
+                    Width = width,
+                    Height = height,
+                    SizeBytes = sizeBytes
+                });
+
+            // Act
+            Image result = await Service.AddImageAsync(ImageOwnerTypes.Item, itemId.ToString(), image, 100, thumbnail, 10, ImageContentTypes.Webp, 1600, 1200);
+
+            // Assert
+            Assert.Equal(itemId.ToString(), result.OwnerId);
+            Assert.Equal(ImageContentTypes.Webp, result.ContentType);
+            MockBlobStore.Verify(b => b.SaveAsync($"images/{result.Id}", image, ImageContentTypes.Webp), Times.Once);
+            MockBlobStore.Verify(b => b.SaveAsync($"images/{result.Id}.thumbnail", thumbnail, ImageContentTypes.Webp), Times.Once);
+        }
+
+        [Fact]
+        public async Task AddImageAsync_WhenContentTypeIsNotAnImage_ThrowsArgumentException()
+        {
+            // Arrange
+            using MemoryStream image = new MemoryStream(new byte[100]);
+            using MemoryStream thumbnail = new MemoryStream(new byte[10]);
+
+            // Act & Assert
+            await Assert.ThrowsAsync<ArgumentException>(() =>
+                Service.AddImageAsync(ImageOwnerTypes.Item, Guid.NewGuid().ToString(), image, 100, thumbnail, 10, "application/pdf", 100, 100));
+            MockBlobStore.Verify(b => b.SaveAsync(It.IsAny<string>(), It.IsAny<Stream>(), It.IsAny<string>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task AddImageAsync_WhenImageIsTooLarge_ThrowsArgumentException()
+        {
+            // Arrange
+            using MemoryStream image = new MemoryStream(new byte[100]);
+            using MemoryStream thumbnail = new MemoryStream(new byte[10]);
+
+            // Act & Assert
+            await Assert.ThrowsAsync<ArgumentException>(() =>
+                Service.AddImageAsync(ImageOwnerTypes.Item, Guid.NewGuid().ToString(), image, ImageService.MaxImageSizeBytes + 1, thumbnail, 10, ImageContentTypes.Webp, 100, 100));
+        }
+
+        [Fact]
+        public async Task AddImageAsync_WhenItemDoesNotExist_ThrowsArgumentException()
+        {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+            using MemoryStream image = new MemoryStream(new byte[100]);
+            using MemoryStream thumbnail = new MemoryStream(new byte[10]);
+
+            MockItemRepository
+                .Setup(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync((ItemDbModel?)null);
+
+            // Act & Assert
+            await Assert.ThrowsAsync<ArgumentException>(() =>
+                Service.AddImageAsync(ImageOwnerTypes.Item, itemId.ToString(), image, 100, thumbnail, 10, ImageContentTypes.Webp, 100, 100));
+        }
+
+        [Fact]
+        public async Task AddImageAsync_WhenLocationDoesNotExist_ThrowsArgumentException()
+        {
+            // Arrange
+            using MemoryStream image = new MemoryStream(new byte[100]);
+            using MemoryStream thumbnail = new MemoryStream(new byte[10]);
+
+            MockLocationRepository
+                .Setup(r => r.ExistsAsync("GONE", It.IsAny<Guid?>(), null))
+                .ReturnsAsync(false);
+
+            // Act & Assert
+            await Assert.ThrowsAsync<ArgumentException>(() =>
+                Service.AddImageAsync(ImageOwnerTypes.Location, "GONE", image, 100, thumbnail, 10, ImageContentTypes.Webp, 100, 100));
+            MockItemRepository.Verify(r => r.GetByIdAsync(It.IsAny<Guid>(), It.IsAny<Guid?>(), null), Times.Never);
+        }
+
+        [Fact]
+        public async Task AddImageAsync_WhenLocationIsReadOnly_ThrowsUnauthorizedAccessExceptionAndStoresNothing()
+        {
+            // Arrange
+            using MemoryStream image = new MemoryStream(new byte[100]);
+            using MemoryStream thumbnail = new MemoryStream(new byte[10]);
+
+            MockLocationRepository
+                .Setup(r => r.ExistsAsync("G1", It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
+            MockLocationAccessService
+                .Setup(s => s.EnsureCanWriteAsync(It.Is<IEnumerable<string>>(ids => ids.Contains("G1"))))
+                .ThrowsAsync(new UnauthorizedAccessException());
+
+            // Act & Assert
+            await Assert.ThrowsAsync<UnauthorizedAccessException>(() =>
+                Service.AddImageAsync(ImageOwnerTypes.Location, "G1", image, 100, thumbnail, 10, ImageContentTypes.Webp, 100, 100));
+            MockBlobStore.Verify(b => b.SaveAsync(It.IsAny<string>(), It.IsAny<Stream>(), It.IsAny<string>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task AddImageAsync_WhenOwnerHasMaximumImages_ThrowsInvalidOperationException()
+        {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+            using MemoryStream image = new MemoryStream(new byte[100]);
+            using MemoryStream thumbnail = new MemoryStream(new byte[10]);
+
+            MockItemRepository
+                .Setup(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new ItemDbModel { Id = itemId, LocationId = "G1" });
+            MockImageRepository
+                .Setup(r => r.GetByOwnerAsync(ImageOwnerTypes.Item, itemId.ToString(), It.IsAny<Guid?>(), null))
+                .ReturnsAsync(Enumerable.Range(0, ImageService.MaxImagesPerOwner).Select(i => new ImageDbModel { Id = Guid.NewGuid() }).ToList());
+
+            // Act & Assert
+            await Assert.ThrowsAsync<InvalidOperationException>(() =>
+                Service.AddImageAsync(ImageOwnerTypes.Item, itemId.ToString(), image, 100, thumbnail, 10, ImageContentTypes.Webp, 100, 100));
+        }
+
+        [Fact]
+        public async Task AddImageAsync_WhenRecordCannotBeCreated_DeletesStoredBlobs()
+        {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+            using MemoryStream image = new MemoryStream(new byte[100]);
+            using MemoryStream thumbnail = new MemoryStream(new byte[10]);
+
+            MockItemRepository
+                .Setup(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new ItemDbModel { Id = itemId, LocationId = "G1" });
+            MockImageRepository
+                .Setup(r => r.GetByOwnerAsync(ImageOwnerTypes.Item, itemId.ToString(), It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new List<ImageDbModel>());
+            MockImageRepository
+                .Setup(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<long>(), null))
+                .ThrowsAsync(new TimeoutException());
+
+            // Act & Assert
+            await Assert.ThrowsAsync<TimeoutException>(() =>
+                Service.AddImageAsync(ImageOwnerTypes.Item, itemId.ToString(), image, 100, thumbnail, 10, ImageContentTypes.Webp, 100, 100));
+            MockBlobStore.Verify(b => b.DeleteAsync(It.IsAny<string>()), Times.Exactly(2));
+        }
+
+        [Fact]
+        public async Task OpenImageAsync_WhenThumbnailRequested_OpensThumbnailBlob()
+        {
+            // Arrange
+            Guid imageId = Guid.NewGuid();
+            Guid itemId = Guid.NewGuid();
+            using MemoryStream content = new MemoryStream(new byte[10]);
+
+            MockImageRepository
+                .Setup(r => r.GetByIdAsync(imageId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new ImageDbModel { Id = imageId, OwnerType = ImageOwnerTypes.Item, OwnerId = itemId.ToString(), ContentType = ImageContentTypes.Jpeg });
+            MockItemRepository
+                .Setup(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new ItemDbModel { Id = itemId, LocationId = "G1" });
+            MockBlobStore
+                .Setup(b => b.OpenReadAsync($"images/{imageId}.thumbnail"))
+                .ReturnsAsync(content);
+
+            // Act
+            ImageContent? result = await Service.OpenImageAsync(imageId, thumbnail: true);
+
+            // Assert
+            Assert.NotNull(result);
+            Assert.Same(content, result.Content);
+            Assert.Equal(ImageContentTypes.Jpeg, result.ContentType);
+        }
+
+        [Fact]
+        public async Task OpenImageAsync_WhenOwnerIsNotInCurrentWorkspace_ReturnsNull()
+        {
+            // Arrange
+            Guid imageId = Guid.NewGuid();
+
+            MockImageRepository
+                .Setup(r => r.GetByIdAsync(imageId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new ImageDbModel { Id = imageId, OwnerType = ImageOwnerTypes.Location, OwnerId = "OTHER", ContentType = ImageContentTypes.Jpeg });
+            MockLocationRepository
+                .Setup(r => r.ExistsAsync("OTHER", It.IsAny<Guid?>(), null))
+                .ReturnsAsync(false);
+
+            // Act
+            ImageContent? result = await Service.OpenImageAsync(imageId, thumbnail: false);
+
+            // Assert
+            Assert.Null(result);
+            MockBlobStore.Verify(b => b.OpenReadAsync(It.IsAny<string>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task GetImagesAsync_WhenItemIsInHiddenLocation_ReturnsNoImages()
+        {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+            HiddenLocationIds.Add("SAFE");
+
+            MockItemRepository
+                .Setup(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new ItemDbModel { Id = itemId, LocationId = "SAFE" });
+
+            // Act
+            IEnumerable<Image> result = await Service.GetImagesAsync(ImageOwnerTypes.Item, itemId.ToString());
+
+            // Assert
+            Assert.Empty(result);
+            MockImageRepository.Verify(r => r.GetByOwnerAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<Guid?>(), null), Times.Never);
+        }
+
+        [Fact]
+        public async Task GetImagesAsync_WhenLocationExists_GetsOnlyImagesUploadedInCurrentWorkspace()
+        {
+            // Arrange
+            Guid workspaceId = Guid.NewGuid();
+            Guid imageId = Guid.NewGuid();
+
+            MockWorkspaceService
+                .Setup(s => s.GetCurrentWorkspaceIdAsync(It.IsAny<string>()))
+                .ReturnsAsync(workspaceId);
+            MockLocationRepository
+                .Setup(r => r.ExistsAsync("G1", workspaceId, null))
+                .ReturnsAsync(true);
+            MockImageRepository
+                .Setup(r => r.GetByOwnerAsync(ImageOwnerTypes.Location, "G1", workspaceId, null))
+                .ReturnsAsync(new List<ImageDbModel> { new ImageDbModel { Id = imageId, WorkspaceId = workspaceId, OwnerType = ImageOwnerTypes.Location, OwnerId = "G1" } });
+
+            // Act
+            IEnumerable<Image> result = await Service.GetImagesAsync(ImageOwnerTypes.Location, "G1");
+
+            // Assert
+            Image image = Assert.Single(result);
+            Assert.Equal(imageId, image.Id);
+            MockImageRepository.Verify(r => r.GetByOwnerAsync(ImageOwnerTypes.Location, "G1", workspaceId, null), Times.Once);
+        }
+
+        [Fact]
+        public async Task DeleteImageAsync_WhenOwnerIsNotInCurrentWorkspace_ReturnsFalseAndKeepsImage()
+        {
+            // Arrange
+            Guid imageId = Guid.NewGuid();
+
+            MockImageRepository
+                .Setup(r => r.GetByIdAsync(imageId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new ImageDbModel { Id = imageId, OwnerType = ImageOwnerTypes.Location, OwnerId = "OTHER" });
+            MockLocationRepository
+                .Setup(r => r.ExistsAsync("OTHER", It.IsAny<Guid?>(), null))
+                .ReturnsAsync(false);
+
+            // Act
+            bool result = await Service.DeleteImageAsync(imageId);
+
+            // Assert
+            Assert.False(result);
+            MockImageRepository.Verify(r => r.DeleteAsync(It.IsAny<Guid>(), null), Times.Never);
+            MockBlobStore.Verify(b => b.DeleteAsync(It.IsAny<string>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task DeleteImageAsync_WhenImageDoesNotExist_ReturnsFalseAndKeepsBlobs()
+        {
+            // Arrange
+            Guid imageId = Guid.NewGuid();
+            MockImageRepository
+                .Setup(r => r.DeleteAsync(imageId, null))
+                .ReturnsAsync(false);
+
+            // Act
+            bool result = await Service.DeleteImageAsync(imageId);
+
+            // Assert
+            Assert.False(result);
+            MockBlobStore.Verify(b => b.DeleteAsync(It.IsAny<string>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task DeleteImagesOfDeletedOwnersAsync_WhenOwnersWereDeletedLongAgo_DeletesRecordsAndBlobs()
+        {
+            // Arrange
+            Guid imageId = Guid.NewGuid();
+            DateTimeOffset? deletedBefore = null;
+
+            MockImageRepository
+                .Setup(r => r.GetOfDeletedOwnersAsync(It.IsAny<DateTimeOffset>(), null))
+                .Callback<DateTimeOffset, IDbSession?>((cutoff, _) => deletedBefore = cutoff)
+                .ReturnsAsync(new[] { new ImageDbModel { Id = imageId, OwnerType = ImageOwnerTypes.Item, OwnerId = Guid.NewGuid().ToString() } });
+            MockImageRepository
+                .Setup(r => r.DeleteAsync(imageId, null))
+                .ReturnsAsync(true);
+
+            // Act
+            int result = await Service.DeleteImagesOfDeletedOwnersAsync();
+
+            // Assert
+            Assert.Equal(1, result);
+            Assert.NotNull(deletedBefore);
+            Assert.InRange(deletedBefore.Value, DateTimeOffset.UtcNow - ImageService.DeletedOwnerRetention - TimeSpan.FromMinutes(1), DateTimeOffset.UtcNow - ImageService.DeletedOwnerRetention);
+            MockBlobStore.Verify(b => b.DeleteAsync($"images/{imageId}"), Times.Once);
+            MockBlobStore.Verify(b => b.DeleteAsync($"images/{imageId}.thumbnail"), Times.Once);
+        }
+    }
+}
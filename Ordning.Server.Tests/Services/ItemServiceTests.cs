@@ -1,9 +1,20 @@
 using EasyReasy.Database;
 using Moq;
+using Ordning.Server.Audit.Models;
+using Ordning.Server.Audit.Services;
 using Ordning.Server.Items.Models;
 using Ordning.Server.Items.Repositories;
 using Ordning.Server.Items.Services;
+using Ordning.Server.ItemTemplates.Repositories;
 using Ordning.Server.Locations.Repositories;
+using Ordning.Server.Locations.Services;
+using Ordning.Server.PropertyDefinitions.Models;
+using Ordning.Server.PropertyDefinitions.Repositories;
+using Ordning.Server.Search.Models;
+using Ordning.Server.Tags.Models;
+using Ordning.Server.Tags.Services;
+using Ordning.Server.Workspaces.Models;
+using Ordning.Server.Workspaces.Services;
 
 namespace Ordning.Server.Tests.Services
 {
@@ -14,13 +25,43 @@ namespace Ordning.Server.Tests.Services
     {
         private Mock<IItemRepository> MockItemRepository { get; set; } = null!;
         private Mock<ILocationRepository> MockLocationRepository { get; set; } = null!;
+        private Mock<IAuditService> MockAuditService { get; set; } = null!;
+        private Mock<IPropertyDefinitionRepository> MockPropertyDefinitionRepository { get; set; } = null!;
+        private Mock<IItemTemplateRepository> MockItemTemplateRepository { get; set; } = null!;
+        private Mock<ITagService> MockTagService { get; set; } = null!;
+        private Guid WorkspaceId { get; set; } = Guid.NewGuid();
+        private Mock<IWorkspaceService> MockWorkspaceService { get; set; } = null!;
+        private HashSet<string> HiddenLocationIds { get; set; } = new HashSet<string>();
+        private Mock<ILocationAccessService> MockLocationAccessService { get; set; } = null!;
+        private Mock<IDbSession> MockSession { get; set; } = null!;
+        private Mock<IDbSessionFactory> MockSessionFactory { get; set; } = null!;
         private ItemService Service { get; set; } = null!;
 
         public ItemServiceTests()
         {
             MockItemRepository = new Mock<IItemRepository>();
             MockLocationRepository = new Mock<ILocationRepository>();
-            Service = new ItemService(MockItemRepository.Object, MockLocationRepository.Object);
+            MockAuditService = new Mock<IAuditService>();
+            MockPropertyDefinitionRepository = new Mock<IPropertyDefinitionRepository>();
+            MockItemTemplateRepository = new Mock<IItemTemplateRepository>();
+            MockTagService = new Mock<ITagService>();
+            MockTagService
+                .Setup(s => s.NormalizeTagsAsync(It.IsAny<IEnumerable<string>>()))
+                .ReturnsAsync((IEnumerable<string> tags) => tags.ToList());
+            MockWorkspaceService = new Mock<IWorkspaceService>();
+            MockWorkspaceService
+                .Setup(s => s.GetCurrentWorkspaceIdAsync(It.IsAny<string>()))
+                .ReturnsAsync(WorkspaceId);
+            MockLocationAccessService = new Mock<ILocationAccessService>();
+            MockLocationAccessService
+                .Setup(s => s.GetHiddenLocationIdsAsync())
+                .ReturnsAsync(() => HiddenLocationIds);
+            MockSession = new Mock<IDbSession> { DefaultValue = DefaultValue.Mock };
+            MockSessionFactory = new Mock<IDbSessionFactory>();
+            MockSessionFactory
+                .Setup(f => f.CreateTransactionSessionAsync())
+                .ReturnsAsync(MockSession.Object);
+            Service = new ItemService(MockItemRepository.Object, MockLocationRepository.Object, MockAuditService.Object, MockPropertyDefinitionRepository.Object, MockItemTemplateRepository.Object, MockTagService.Object, MockWorkspaceService.Object, MockLocationAccessService.Object, MockSessionFactory.Object);
         }
 
         [Fact]
@@ -42,7 +83,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockItemRepository
-                .Setup(r => r.GetByIdAsync(itemId, null))
+                .Setup(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(itemDbModel);
 
             // Act
@@ -55,7 +96,7 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal(itemDbModel.Description, result.Description);
             Assert.Equal(createdAt, result.CreatedAt);
             Assert.Equal(updatedAt, result.UpdatedAt);
-            MockItemRepository.Verify(r => r.GetByIdAsync(itemId, null), Times.Once);
+            MockItemRepository.Verify(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -65,7 +106,7 @@ namespace Ordning.Server.Tests.Services
             Guid itemId = Guid.NewGuid();
 
             MockItemRepository
-                .Setup(r => r.GetByIdAsync(itemId, null))
+                .Setup(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync((ItemDbModel?)null);
 
             // Act
@@ -73,7 +114,7 @@ namespace Ordning.Server.Tests.Services
 
             // Assert
             Assert.Null(result);
-            MockItemRepository.Verify(r => r.GetByIdAsync(itemId, null), Times.Once);
+            MockItemRepository.Verify(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -88,7 +129,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockItemRepository
-                .Setup(r => r.GetAllAsync(null))
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
                 .ReturnsAsync(itemDbModels);
 
             // Act
@@ -96,7 +137,48 @@ namespace Ordning.Server.Tests.Services
 
             // Assert
             Assert.Equal(2, result.Count());
-            MockItemRepository.Verify(r => r.GetAllAsync(null), Times.Once);
+            MockItemRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
+        }
+
+        [Fact]
+        public async Task GetAllItemsAsync_WhenCalled_OnlyReadsCurrentWorkspace()
+        {
+            // Arrange
+            MockItemRepository
+                .Setup(r => r.GetAllAsync(WorkspaceId, null))
+                .ReturnsAsync(Array.Empty<ItemDbModel>());
+
+            // Act
+            await Service.GetAllItemsAsync();
+
+            // Assert
+            MockWorkspaceService.Verify(s => s.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Read), Times.Once);
+            MockItemRepository.Verify(r => r.GetAllAsync(WorkspaceId, null), Times.Once);
+        }
+
+        [Fact]
+        public async Task GetAllItemsAsync_WhenLocationIsHidden_LeavesOutItsItems()
+        {
+            // Arrange
+            DateTimeOffset timestamp = DateTimeOffset.UtcNow;
+            IEnumerable<ItemDbModel> itemDbModels = new[]
+            {
+                new ItemDbModel { Id = Guid.NewGuid(), Name = "Drill", Description = null, LocationId = "garage", PropertiesJson = "{}", CreatedAt = timestamp, UpdatedAt = timestamp },
+                new ItemDbModel { Id = Guid.NewGuid(), Name = "Diary", Description = null, LocationId = "private-drawer", PropertiesJson = "{}", CreatedAt = timestamp, UpdatedAt = timestamp }
+            };
+
+            MockItemRepository
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
+                .ReturnsAsync(itemDbModels);
+
+            HiddenLocationIds.Add("private-drawer");
+
+            // Act
+            IEnumerable<Item> result = await Service.GetAllItemsAsync();
+
+            // Assert
+            Item item = Assert.Single(result);
+            Assert.Equal("Drill", item.Name);
         }
 
         [Fact]
@@ -112,7 +194,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockItemRepository
-                .Setup(r => r.GetByLocationIdAsync(locationId, null))
+                .Setup(r => r.GetByLocationIdAsync(locationId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(items);
 
             // Act
@@ -120,7 +202,7 @@ namespace Ordning.Server.Tests.Services
 
             // Assert
             Assert.Equal(2, result.Count());
-            MockItemRepository.Verify(r => r.GetByLocationIdAsync(locationId, null), Times.Once);
+            MockItemRepository.Verify(r => r.GetByLocationIdAsync(locationId, It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -146,7 +228,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockLocationRepository
-                .Setup(r => r.ExistsAsync(locationId, null))
+                .Setup(r => r.ExistsAsync(locationId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             MockLocationRepository
@@ -154,7 +236,7 @@ namespace Ordning.Server.Tests.Services
                 .ReturnsAsync(false);
 
             MockItemRepository
-                .Setup(r => r.CreateAsync(It.IsAny<Guid>(), name, description, locationId, null, null))
+                .Setup(r => r.CreateAsync(It.IsAny<Guid>(), name, description, locationId, null, null, null, null, null, null))
                 .ReturnsAsync(createdItem);
 
             // Act
@@ -166,9 +248,43 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal(locationId, result.LocationId);
             Assert.Equal(createdAt, result.CreatedAt);
             Assert.Equal(updatedAt, result.UpdatedAt);
-            MockLocationRepository.Verify(r => r.ExistsAsync(locationId, null), Times.Once);
+            MockLocationRepository.Verify(r => r.ExistsAsync(locationId, It.IsAny<Guid?>(), null), Times.Once);
             MockLocationRepository.Verify(r => r.HasChildrenAsync(locationId, null), Times.Once);
-            MockItemRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), name, description, locationId, null, null), Times.Once);
+            MockItemRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), name, description, locationId, null, null, null, null, null, null), Times.Once);
+        }
+
+        [Fact]
+        public async Task CreateItemAsync_WhenValidData_RecordsCreate()
+        {
+            // Arrange
+            string locationId = "test-location";
+            Guid itemId = Guid.NewGuid();
+            ItemDbModel createdItem = new ItemDbModel
+            {
+                Id = itemId,
+                Name = "New Item",
+                LocationId = locationId,
+                PropertiesJson = "{}"
+            };
+
+            MockLocationRepository
+                .Setup(r => r.ExistsAsync(locationId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
+
+            MockItemRepository
+                .Setup(r => r.CreateAsync(It.IsAny<Guid>(), "New Item", null, locationId, null, null, null, null, null, null))
+                .ReturnsAsync(createdItem);
+
+            // Act
+            await Service.CreateItemAsync("New Item", locationId);
+
+            // Assert
+            MockAuditService.Verify(a => a.RecordAsync(
+                AuditEntityTypes.Item,
+                itemId.ToString(),
+                AuditActions.Create,
+                null,
+                It.Is<Item>(i => i.Id == itemId && i.LocationId == locationId), null), Times.Once);
         }
 
         [Fact]
@@ -179,7 +295,7 @@ namespace Ordning.Server.Tests.Services
             string name = "Item Name";
 
             MockLocationRepository
-                .Setup(r => r.ExistsAsync(locationId, null))
+                .Setup(r => r.ExistsAsync(locationId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(false);
 
             // Act & Assert
@@ -187,8 +303,8 @@ namespace Ordning.Server.Tests.Services
                 () => Service.CreateItemAsync(name, locationId));
 
             Assert.Contains("does not exist", exception.Message);
-            MockLocationRepository.Verify(r => r.ExistsAsync(locationId, null), Times.Once);
-            MockItemRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string>(), It.IsAny<Dictionary<string, string>?>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockLocationRepository.Verify(r => r.ExistsAsync(locationId, It.IsAny<Guid?>(), null), Times.Once);
+            MockItemRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string>(), It.IsAny<Dictionary<string, string>?>(), It.IsAny<decimal?>(), It.IsAny<string?>(), It.IsAny<decimal?>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
@@ -199,7 +315,7 @@ namespace Ordning.Server.Tests.Services
             string name = "Item Name";
 
             MockLocationRepository
-                .Setup(r => r.ExistsAsync(locationId, null))
+                .Setup(r => r.ExistsAsync(locationId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             MockLocationRepository
@@ -211,9 +327,9 @@ namespace Ordning.Server.Tests.Services
                 () => Service.CreateItemAsync(name, locationId));
 
             Assert.Contains("has child locations", exception.Message);
-            MockLocationRepository.Verify(r => r.ExistsAsync(locationId, null), Times.Once);
+            MockLocationRepository.Verify(r => r.ExistsAsync(locationId, It.IsAny<Guid?>(), null), Times.Once);
             MockLocationRepository.Verify(r => r.HasChildrenAsync(locationId, null), Times.Once);
-            MockItemRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string>(), It.IsAny<Dictionary<string, string>?>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockItemRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string>(), It.IsAny<Dictionary<string, string>?>(), It.IsAny<decimal?>(), It.IsAny<string?>(), It.IsAny<decimal?>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
@@ -238,7 +354,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockLocationRepository
-                .Setup(r => r.ExistsAsync(locationId, null))
+                .Setup(r => r.ExistsAsync(locationId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             MockLocationRepository
@@ -246,7 +362,7 @@ namespace Ordning.Server.Tests.Services
                 .ReturnsAsync(false);
 
             MockItemRepository
-                .Setup(r => r.CreateAsync(It.IsAny<Guid>(), name, null, locationId, properties, null))
+                .Setup(r => r.CreateAsync(It.IsAny<Guid>(), name, null, locationId, properties, null, null, null, null, null))
                 .ReturnsAsync(createdItem);
 
             // Act
@@ -256,9 +372,9 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal(name, result.Name);
             Assert.Equal(locationId, result.LocationId);
             Assert.Single(result.Properties);
-            MockLocationRepository.Verify(r => r.ExistsAsync(locationId, null), Times.Once);
+            MockLocationRepository.Verify(r => r.ExistsAsync(locationId, It.IsAny<Guid?>(), null), Times.Once);
             MockLocationRepository.Verify(r => r.HasChildrenAsync(locationId, null), Times.Once);
-            MockItemRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), name, null, locationId, properties, null), Times.Once);
+            MockItemRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), name, null, locationId, properties, null, null, null, null, null), Times.Once);
         }
 
         [Fact]
@@ -282,7 +398,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockLocationRepository
-                .Setup(r => r.ExistsAsync(locationId, null))
+                .Setup(r => r.ExistsAsync(locationId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             MockLocationRepository
@@ -290,7 +406,7 @@ namespace Ordning.Server.Tests.Services
                 .ReturnsAsync(false);
 
             MockItemRepository
-                .Setup(r => r.CreateAsync(It.IsAny<Guid>(), name, null, locationId, null, null))
+                .Setup(r => r.CreateAsync(It.IsAny<Guid>(), name, null, locationId, null, null, null, null, null, null))
                 .ReturnsAsync(createdItem);
 
             // Act
@@ -300,9 +416,9 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal(name, result.Name);
             Assert.Equal(locationId, result.LocationId);
             Assert.Empty(result.Properties);
-            MockLocationRepository.Verify(r => r.ExistsAsync(locationId, null), Times.Once);
+            MockLocationRepository.Verify(r => r.ExistsAsync(locationId, It.IsAny<Guid?>(), null), Times.Once);
             MockLocationRepository.Verify(r => r.HasChildrenAsync(locationId, null), Times.Once);
-            MockItemRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), name, null, locationId, null, null), Times.Once);
+            MockItemRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), name, null, locationId, null, null, null, null, null, null), Times.Once);
         }
 
         [Fact]
@@ -340,15 +456,15 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockItemRepository
-                .Setup(r => r.GetByIdAsync(itemId, null))
+                .Setup(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(existingItem);
 
             MockItemRepository
-                .Setup(r => r.UpdateAsync(itemId, newName, newDescription, null, null))
+                .Setup(r => r.UpdateAsync(itemId, newName, newDescription, null, null, null, null, null))
                 .ReturnsAsync(true);
 
             MockItemRepository
-                .SetupSequence(r => r.GetByIdAsync(itemId, null))
+                .SetupSequence(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(existingItem)
                 .ReturnsAsync(updatedItem);
 
@@ -361,8 +477,8 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal(newDescription, result.Description);
             Assert.Equal(createdAt, result.CreatedAt);
             Assert.Equal(newUpdatedAt, result.UpdatedAt);
-            MockItemRepository.Verify(r => r.GetByIdAsync(itemId, null), Times.Exactly(2));
-            MockItemRepository.Verify(r => r.UpdateAsync(itemId, newName, newDescription, null, null), Times.Once);
+            MockItemRepository.Verify(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null), Times.Exactly(2));
+            MockItemRepository.Verify(r => r.UpdateAsync(itemId, newName, newDescription, null, null, null, null, null), Times.Once);
         }
 
         [Fact]
@@ -373,7 +489,7 @@ namespace Ordning.Server.Tests.Services
             string name = "Item Name";
 
             MockItemRepository
-                .Setup(r => r.GetByIdAsync(itemId, null))
+                .Setup(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync((ItemDbModel?)null);
 
             // Act & Assert
@@ -381,8 +497,8 @@ namespace Ordning.Server.Tests.Services
                 () => Service.UpdateItemAsync(itemId, name));
 
             Assert.Contains("does not exist", exception.Message);
-            MockItemRepository.Verify(r => r.GetByIdAsync(itemId, null), Times.Once);
-            MockItemRepository.Verify(r => r.UpdateAsync(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<Dictionary<string, string>?>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockItemRepository.Verify(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null), Times.Once);
+            MockItemRepository.Verify(r => r.UpdateAsync(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<Dictionary<string, string>?>(), It.IsAny<decimal?>(), It.IsAny<string?>(), It.IsAny<decimal?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
@@ -417,12 +533,12 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockItemRepository
-                .SetupSequence(r => r.GetByIdAsync(itemId, null))
+                .SetupSequence(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(existingItem)
                 .ReturnsAsync(updatedItem);
 
             MockItemRepository
-                .Setup(r => r.UpdateAsync(itemId, name, null, newProperties, null))
+                .Setup(r => r.UpdateAsync(itemId, name, null, newProperties, null, null, null, null))
                 .ReturnsAsync(true);
 
             // Act
@@ -431,7 +547,7 @@ namespace Ordning.Server.Tests.Services
             // Assert
             Assert.Equal(itemId, result.Id);
             Assert.Single(result.Properties);
-            MockItemRepository.Verify(r => r.UpdateAsync(itemId, name, null, newProperties, null), Times.Once);
+            MockItemRepository.Verify(r => r.UpdateAsync(itemId, name, null, newProperties, null, null, null, null), Times.Once);
         }
 
         [Fact]
@@ -441,7 +557,7 @@ namespace Ordning.Server.Tests.Services
             Guid itemId = Guid.NewGuid();
 
             MockItemRepository
-                .Setup(r => r.DeleteAsync(itemId, null))
+                .Setup(r => r.DeleteAsync(itemId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             // Act
@@ -449,7 +565,48 @@ namespace Ordning.Server.Tests.Services
 
             // Assert
             Assert.True(result);
-            MockItemRepository.Verify(r => r.DeleteAsync(itemId, null), Times.Once);
+            MockItemRepository.Verify(r => r.DeleteAsync(itemId, It.IsAny<Guid?>(), null), Times.Once);
+        }
+
+        [Fact]
+        public async Task DeleteItemAsync_WhenItemExists_RecordsDeleteWithPreviousState()
+        {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+            ItemDbModel existingItem = new ItemDbModel { Id = itemId, Name = "Old Item", LocationId = "shelf" };
+
+            MockItemRepository
+                .Setup(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(existingItem);
+
+            MockItemRepository
+                .Setup(r => r.DeleteAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
+
+            // Act
+            await Service.DeleteItemAsync(itemId);
+
+            // Assert
+            MockAuditService.Verify(a => a.RecordAsync(
+                AuditEntityTypes.Item,
+                itemId.ToString(),
+                AuditActions.Delete,
+                It.Is<Item>(i => i.Name == "Old Item"),
+                null, null), Times.Once);
+        }
+
+        [Fact]
+        public async Task DeleteItemAsync_WhenUserCannotWriteInWorkspace_ThrowsUnauthorizedAccessException()
+        {
+            // Arrange
+            MockWorkspaceService
+                .Setup(s => s.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write))
+                .ThrowsAsync(new UnauthorizedAccessException("You need the write role in this workspace."));
+
+            // Act & Assert
+            await Assert.ThrowsAsync<UnauthorizedAccessException>(() => Service.DeleteItemAsync(Guid.NewGuid()));
+
+            MockItemRepository.Verify(r => r.DeleteAsync(It.IsAny<Guid>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
@@ -459,7 +616,7 @@ namespace Ordning.Server.Tests.Services
             Guid itemId = Guid.NewGuid();
 
             MockItemRepository
-                .Setup(r => r.DeleteAsync(itemId, null))
+                .Setup(r => r.DeleteAsync(itemId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(false);
 
             // Act
@@ -467,7 +624,7 @@ namespace Ordning.Server.Tests.Services
 
             // Assert
             Assert.False(result);
-            MockItemRepository.Verify(r => r.DeleteAsync(itemId, null), Times.Once);
+            MockItemRepository.Verify(r => r.DeleteAsync(itemId, It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -478,7 +635,7 @@ namespace Ordning.Server.Tests.Services
             string newLocationId = "new-location";
 
             MockLocationRepository
-                .Setup(r => r.ExistsAsync(newLocationId, null))
+                .Setup(r => r.ExistsAsync(newLocationId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             MockLocationRepository
@@ -486,11 +643,11 @@ namespace Ordning.Server.Tests.Services
                 .ReturnsAsync(false);
 
             MockItemRepository
-                .Setup(r => r.ExistsAsync(itemId, null))
+                .Setup(r => r.ExistsAsync(itemId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             MockItemRepository
-                .Setup(r => r.MoveItemsAsync(new[] { itemId }, newLocationId, null))
+                .Setup(r => r.MoveItemsAsync(new[] { itemId }, newLocationId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(1);
 
             // Act
@@ -498,10 +655,10 @@ namespace Ordning.Server.Tests.Services
 
             // Assert
             Assert.Equal(1, result);
-            MockLocationRepository.Verify(r => r.ExistsAsync(newLocationId, null), Times.Once);
+            MockLocationRepository.Verify(r => r.ExistsAsync(newLocationId, It.IsAny<Guid?>(), null), Times.Once);
             MockLocationRepository.Verify(r => r.HasChildrenAsync(newLocationId, null), Times.Once);
-            MockItemRepository.Verify(r => r.ExistsAsync(itemId, null), Times.Once);
-            MockItemRepository.Verify(r => r.MoveItemsAsync(new[] { itemId }, newLocationId, null), Times.Once);
+            MockItemRepository.Verify(r => r.ExistsAsync(itemId, It.IsAny<Guid?>(), null), Times.Once);
+            MockItemRepository.Verify(r => r.MoveItemsAsync(new[] { itemId }, newLocationId, It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -514,7 +671,7 @@ namespace Ordning.Server.Tests.Services
             string newLocationId = "new-location";
 
             MockLocationRepository
-                .Setup(r => r.ExistsAsync(newLocationId, null))
+                .Setup(r => r.ExistsAsync(newLocationId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             MockLocationRepository
@@ -522,19 +679,19 @@ namespace Ordning.Server.Tests.Services
                 .ReturnsAsync(false);
 
             MockItemRepository
-                .Setup(r => r.ExistsAsync(itemId1, null))
+                .Setup(r => r.ExistsAsync(itemId1, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             MockItemRepository
-                .Setup(r => r.ExistsAsync(itemId2, null))
+                .Setup(r => r.ExistsAsync(itemId2, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             MockItemRepository
-                .Setup(r => r.ExistsAsync(itemId3, null))
+                .Setup(r => r.ExistsAsync(itemId3, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             MockItemRepository
-                .Setup(r => r.MoveItemsAsync(new[] { itemId1, itemId2, itemId3 }, newLocationId, null))
+                .Setup(r => r.MoveItemsAsync(new[] { itemId1, itemId2, itemId3 }, newLocationId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(3);
 
             // Act
@@ -542,12 +699,64 @@ namespace Ordning.Server.Tests.Services
 
             // Assert
             Assert.Equal(3, result);
-            MockLocationRepository.Verify(r => r.ExistsAsync(newLocationId, null), Times.Once);
+            MockLocationRepository.Verify(r => r.ExistsAsync(newLocationId, It.IsAny<Guid?>(), null), Times.Once);
             MockLocationRepository.Verify(r => r.HasChildrenAsync(newLocationId, null), Times.Once);
-            MockItemRepository.Verify(r => r.ExistsAsync(itemId1, null), Times.Once);
-            MockItemRepository.Verify(r => r.ExistsAsync(itemId2, null), Times.Once);
-            MockItemRepository.Verify(r => r.ExistsAsync(itemId3, null), Times.Once);
-            MockItemRepository.Verify(r => r.MoveItemsAsync(new[] { itemId1, itemId2, itemId3 }, newLocationId, null), Times.Once);
+            MockItemRepository.Verify(r => r.ExistsAsync(itemId1, It.IsAny<Guid?>(), null), Times.Once);
+            MockItemRepository.Verify(r => r.ExistsAsync(itemId2, It.IsAny<Guid?>(), null), Times.Once);
+            MockItemRepository.Verify(r => r.ExistsAsync(itemId3, It.IsAny<Guid?>(), null), Times.Once);
+            MockItemRepository.Verify(r => r.MoveItemsAsync(new[] { itemId1, itemId2, itemId3 }, newLocationId, It.IsAny<Guid?>(), null), Times.Once);
+        }
+
+        [Fact]
+        public async Task MoveItemsAsync_WhenItemsMove_RecordsMoveForItemsThatChangedLocation()
+        {
+            // Arrange
+            Guid movedItemId = Guid.NewGuid();
+            Guid unchangedItemId = Guid.NewGuid();
+            Guid[] itemIds = new[] { movedItemId, unchangedItemId };
+            string newLocationId = "new-location";
+
+            MockLocationRepository
+                .Setup(r => r.ExistsAsync(newLocationId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
+
+            MockItemRepository
+                .Setup(r => r.ExistsAsync(It.IsAny<Guid>(), It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
+
+            MockItemRepository
+                .SetupSequence(r => r.GetByIdsAsync(itemIds, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new[]
+                {
+                    new ItemDbModel { Id = movedItemId, Name = "Moved", LocationId = "old-location" },
+                    new ItemDbModel { Id = unchangedItemId, Name = "Unchanged", LocationId = newLocationId }
+                })
+                .ReturnsAsync(new[]
+                {
+                    new ItemDbModel { Id = movedItemId, Name = "Moved", LocationId = newLocationId },
+                    new ItemDbModel { Id = unchangedItemId, Name = "Unchanged", LocationId = newLocationId }
+                });
+
+            MockItemRepository
+                .Setup(r => r.MoveItemsAsync(itemIds, newLocationId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(2);
+
+            // Act
+            await Service.MoveItemsAsync(itemIds, newLocationId);
+
+            // Assert
+            MockAuditService.Verify(a => a.RecordAsync(
+                AuditEntityTypes.Item,
+                movedItemId.ToString(),
+                AuditActions.Move,
+                It.Is<Item>(i => i.LocationId == "old-location"),
+                It.Is<Item>(i => i.LocationId == newLocationId), null), Times.Once);
+            MockAuditService.Verify(a => a.RecordAsync(
+                AuditEntityTypes.Item,
+                unchangedItemId.ToString(),
+                It.IsAny<string>(),
+                It.IsAny<object?>(),
+                It.IsAny<object?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
@@ -558,7 +767,7 @@ namespace Ordning.Server.Tests.Services
             string newLocationId = "nonexistent-location";
 
             MockLocationRepository
-                .Setup(r => r.ExistsAsync(newLocationId, null))
+                .Setup(r => r.ExistsAsync(newLocationId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(false);
 
             // Act & Assert
@@ -566,9 +775,9 @@ namespace Ordning.Server.Tests.Services
                 () => Service.MoveItemsAsync(new[] { itemId }, newLocationId));
 
             Assert.Contains("does not exist", exception.Message);
-            MockLocationRepository.Verify(r => r.ExistsAsync(newLocationId, null), Times.Once);
-            MockItemRepository.Verify(r => r.ExistsAsync(It.IsAny<Guid>(), It.IsAny<IDbSession?>()), Times.Never);
-            MockItemRepository.Verify(r => r.MoveItemsAsync(It.IsAny<IEnumerable<Guid>>(), It.IsAny<string>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockLocationRepository.Verify(r => r.ExistsAsync(newLocationId, It.IsAny<Guid?>(), null), Times.Once);
+            MockItemRepository.Verify(r => r.ExistsAsync(It.IsAny<Guid>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockItemRepository.Verify(r => r.MoveItemsAsync(It.IsAny<IEnumerable<Guid>>(), It.IsAny<string>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
@@ -579,7 +788,7 @@ namespace Ordning.Server.Tests.Services
             string newLocationId = "location-with-children";
 
             MockLocationRepository
-                .Setup(r => r.ExistsAsync(newLocationId, null))
+                .Setup(r => r.ExistsAsync(newLocationId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             MockLocationRepository
@@ -591,10 +800,10 @@ namespace Ordning.Server.Tests.Services
                 () => Service.MoveItemsAsync(new[] { itemId }, newLocationId));
 
             Assert.Contains("has child locations", exception.Message);
-            MockLocationRepository.Verify(r => r.ExistsAsync(newLocationId, null), Times.Once);
+            MockLocationRepository.Verify(r => r.ExistsAsync(newLocationId, It.IsAny<Guid?>(), null), Times.Once);
             MockLocationRepository.Verify(r => r.HasChildrenAsync(newLocationId, null), Times.Once);
-            MockItemRepository.Verify(r => r.ExistsAsync(It.IsAny<Guid>(), It.IsAny<IDbSession?>()), Times.Never);
-            MockItemRepository.Verify(r => r.MoveItemsAsync(It.IsAny<IEnumerable<Guid>>(), It.IsAny<string>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockItemRepository.Verify(r => r.ExistsAsync(It.IsAny<Guid>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockItemRepository.Verify(r => r.MoveItemsAsync(It.IsAny<IEnumerable<Guid>>(), It.IsAny<string>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
@@ -605,7 +814,7 @@ namespace Ordning.Server.Tests.Services
             string newLocationId = "test-location";
 
             MockLocationRepository
-                .Setup(r => r.ExistsAsync(newLocationId, null))
+                .Setup(r => r.ExistsAsync(newLocationId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             MockLocationRepository
@@ -613,7 +822,7 @@ namespace Ordning.Server.Tests.Services
                 .ReturnsAsync(false);
 
             MockItemRepository
-                .Setup(r => r.ExistsAsync(itemId, null))
+                .Setup(r => r.ExistsAsync(itemId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(false);
 
             // Act & Assert
@@ -621,10 +830,44 @@ namespace Ordning.Server.Tests.Services
                 () => Service.MoveItemsAsync(new[] { itemId }, newLocationId));
 
             Assert.Contains("does not exist", exception.Message);
-            MockLocationRepository.Verify(r => r.ExistsAsync(newLocationId, null), Times.Once);
+            MockLocationRepository.Verify(r => r.ExistsAsync(newLocationId, It.IsAny<Guid?>(), null), Times.Once);
             MockLocationRepository.Verify(r => r.HasChildrenAsync(newLocationId, null), Times.Once);
-            MockItemRepository.Verify(r => r.ExistsAsync(itemId, null), Times.Once);
-            MockItemRepository.Verify(r => r.MoveItemsAsync(It.IsAny<IEnumerable<Guid>>(), It.IsAny<string>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockItemRepository.Verify(r => r.ExistsAsync(itemId, It.IsAny<Guid?>(), null), Times.Once);
+            MockItemRepository.Verify(r => r.MoveItemsAsync(It.IsAny<IEnumerable<Guid>>(), It.IsAny<string>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task MoveItemsAsync_WhenItemLocationIsReadOnly_ThrowsUnauthorizedAccessExceptionAndDoesNotMove()
+        {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+            string newLocationId = "new-location";
+
+            MockLocationRepository
+                .Setup(r => r.ExistsAsync(newLocationId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
+
+            MockLocationRepository
+                .Setup(r => r.HasChildrenAsync(newLocationId, null))
+                .ReturnsAsync(false);
+
+            MockItemRepository
+                .Setup(r => r.ExistsAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
+
+            MockItemRepository
+                .Setup(r => r.GetByIdsAsync(It.IsAny<IEnumerable<Guid>>(), It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new[] { new ItemDbModel { Id = itemId, Name = "Camera", LocationId = "shared-shelf", PropertiesJson = "{}" } });
+
+            MockLocationAccessService
+                .Setup(s => s.EnsureCanWriteAsync(It.Is<IEnumerable<string>>(ids => ids.Contains("shared-shelf"))))
+                .ThrowsAsync(new UnauthorizedAccessException("You can only view location 'shared-shelf' and what is in it."));
+
+            // Act & Assert
+            await Assert.ThrowsAsync<UnauthorizedAccessException>(
+                () => Service.MoveItemsAsync(new[] { itemId }, newLocationId));
+
+            MockItemRepository.Verify(r => r.MoveItemsAsync(It.IsAny<IEnumerable<Guid>>(), It.IsAny<string>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
@@ -638,168 +881,585 @@ namespace Ordning.Server.Tests.Services
                 () => Service.MoveItemsAsync(Array.Empty<Guid>(), newLocationId));
 
             Assert.Contains("At least one item ID must be provided", exception.Message);
-            MockLocationRepository.Verify(r => r.ExistsAsync(It.IsAny<string>(), It.IsAny<IDbSession?>()), Times.Never);
-            MockItemRepository.Verify(r => r.ExistsAsync(It.IsAny<Guid>(), It.IsAny<IDbSession?>()), Times.Never);
-            MockItemRepository.Verify(r => r.MoveItemsAsync(It.IsAny<IEnumerable<Guid>>(), It.IsAny<string>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockLocationRepository.Verify(r => r.ExistsAsync(It.IsAny<string>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockItemRepository.Verify(r => r.ExistsAsync(It.IsAny<Guid>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockItemRepository.Verify(r => r.MoveItemsAsync(It.IsAny<IEnumerable<Guid>>(), It.IsAny<string>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
-        public async Task SearchItemsAsync_WhenValidSearchTerm_CallsRepository()
+        public async Task DeleteItemsAsync_WhenMultipleItems_DeletesAllItems()
         {
             // Arrange
-            string searchTerm = "hammer";
-            int offset = 0;
-            int limit = 20;
-
-            DateTimeOffset timestamp = DateTimeOffset.UtcNow;
-            IEnumerable<ItemDbModel> itemDbModels = new[]
-            {
-                new ItemDbModel { Id = Guid.NewGuid(), Name = "Hammer", Description = null, LocationId = "location-1", PropertiesJson = "{}", CreatedAt = timestamp, UpdatedAt = timestamp },
-                new ItemDbModel { Id = Guid.NewGuid(), Name = "Hammer Drill", Description = null, LocationId = "location-1", PropertiesJson = "{}", CreatedAt = timestamp, UpdatedAt = timestamp }
-            };
+            Guid itemId1 = Guid.NewGuid();
+            Guid itemId2 = Guid.NewGuid();
 
             MockItemRepository
-                .Setup(r => r.SearchAsync(searchTerm, offset, limit, null))
-                .ReturnsAsync((itemDbModels, 2));
+                .Setup(r => r.DeleteItemsAsync(new[] { itemId1, itemId2 }, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(2);
 
             // Act
-            (IEnumerable<Item> results, int totalCount) = await Service.SearchItemsAsync(searchTerm, offset, limit);
+            int result = await Service.DeleteItemsAsync(new[] { itemId1, itemId2 });
 
             // Assert
-            Assert.Equal(2, results.Count());
-            Assert.Equal(2, totalCount);
-            MockItemRepository.Verify(r => r.SearchAsync(searchTerm, offset, limit, null), Times.Once);
+            Assert.Equal(2, result);
+            MockItemRepository.Verify(r => r.DeleteItemsAsync(new[] { itemId1, itemId2 }, It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
-        public async Task SearchItemsAsync_WhenSearchTermIsEmpty_ReturnsAllItems()
+        public async Task DeleteItemsAsync_WhenEmptyList_ThrowsArgumentException()
         {
-            // Arrange
-            List<ItemDbModel> allItems = new List<ItemDbModel>
-            {
-                new ItemDbModel { Id = Guid.NewGuid(), Name = "Item 1", Description = null, LocationId = "loc1", PropertiesJson = "{}", CreatedAt = DateTimeOffset.UtcNow, UpdatedAt = DateTimeOffset.UtcNow },
-                new ItemDbModel { Id = Guid.NewGuid(), Name = "Item 2", Description = null, LocationId = "loc1", PropertiesJson = "{}", CreatedAt = DateTimeOffset.UtcNow, UpdatedAt = DateTimeOffset.UtcNow },
-                new ItemDbModel { Id = Guid.NewGuid(), Name = "Item 3", Description = null, LocationId = "loc1", PropertiesJson = "{}", CreatedAt = DateTimeOffset.UtcNow, UpdatedAt = DateTimeOffset.UtcNow }
-            };
-
-            MockItemRepository
-                .Setup(r => r.GetAllAsync(null))
-                .ReturnsAsync(allItems);
-
-            // Act
-            (IEnumerable<Item> results, int totalCount) = await Service.SearchItemsAsync(string.Empty, 0, 20);
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.DeleteItemsAsync(Array.Empty<Guid>()));
 
-            // Assert
-            Assert.Equal(3, totalCount);
-            Assert.Equal(3, results.Count());
-            MockItemRepository.Verify(r => r.GetAllAsync(null), Times.Once);
-            MockItemRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<IDbSession?>()), Times.Never);
+            Assert.Contains("At least one item ID must be provided", exception.Message);
+            MockItemRepository.Verify(r => r.DeleteItemsAsync(It.IsAny<IEnumerable<Guid>>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
-        public async Task SearchItemsAsync_WhenSearchTermIsWhitespace_ReturnsAllItems()
+        public async Task RestoreItemsAsync_WhenDeletionWasRecorded_RecreatesItemWithOriginalIdAndProperties()
         {
             // Arrange
-            List<ItemDbModel> allItems = new List<ItemDbModel>
-            {
-                new ItemDbModel { Id = Guid.NewGuid(), Name = "Item 1", Description = null, LocationId = "loc1", PropertiesJson = "{}", CreatedAt = DateTimeOffset.UtcNow, UpdatedAt = DateTimeOffset.UtcNow }
-            };
+            Guid itemId = Guid.NewGuid();
+            string locationId = "G1";
+            Item snapshot = new Item(
+                id: itemId,
+                name: "Drill",
+                description: "Cordless",
+                locationId: locationId,
+                properties: new Dictionary<string, string> { { "color", "red" } });
 
             MockItemRepository
-                .Setup(r => r.GetAllAsync(null))
-                .ReturnsAsync(allItems);
+                .Setup(r => r.ExistsAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(false);
 
-            // Act
-            (IEnumerable<Item> results, int totalCount) = await Service.SearchItemsAsync("   ", 0, 20);
+            MockAuditService
+                .Setup(a => a.GetDeletedSnapshotAsync<Item>(AuditEntityTypes.Item, itemId.ToString()))
+                .ReturnsAsync(snapshot);
 
-            // Assert
-            Assert.Equal(1, totalCount);
-            Assert.Single(results);
-            MockItemRepository.Verify(r => r.GetAllAsync(null), Times.Once);
-            MockItemRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<IDbSession?>()), Times.Never);
-        }
+            MockLocationRepository
+                .Setup(r => r.ExistsAsync(locationId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
 
-        [Fact]
-        public async Task SearchItemsAsync_WhenSearchTermIsNull_ReturnsAllItems()
-        {
-            // Arrange
-            List<ItemDbModel> allItems = new List<ItemDbModel>
-            {
-                new ItemDbModel { Id = Guid.NewGuid(), Name = "Item 1", Description = null, LocationId = "loc1", PropertiesJson = "{}", CreatedAt = DateTimeOffset.UtcNow, UpdatedAt = DateTimeOffset.UtcNow }
-            };
+            MockLocationRepository
+                .Setup(r => r.HasChildrenAsync(locationId, null))
+                .ReturnsAsync(false);
 
             MockItemRepository
-                .Setup(r => r.GetAllAsync(null))
-                .ReturnsAsync(allItems);
+                .Setup(r => r.CreateAsync(itemId, "Drill", "Cordless", locationId, It.Is<Dictionary<string, string>?>(p => p != null && p["color"] == "red"), null, null, null, null, MockSession.Object))
+                .ReturnsAsync(new ItemDbModel
+                {
+                    Id = itemId,
+                    Name = "Drill",
+                    Description = "Cordless",
+                    LocationId = locationId,
+                    PropertiesJson = "{\"color\":\"red\"}"
+                });
 
             // Act
-            (IEnumerable<Item> results, int totalCount) = await Service.SearchItemsAsync(null!, 0, 20);
+            List<Item> result = (await Service.RestoreItemsAsync(new[] { itemId })).ToList();
 
             // Assert
-            Assert.Equal(1, totalCount);
-            Assert.Single(results);
-            MockItemRepository.Verify(r => r.GetAllAsync(null), Times.Once);
-            MockItemRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<IDbSession?>()), Times.Never);
+            Item restoredItem = Assert.Single(result);
+            Assert.Equal(itemId, restoredItem.Id);
+            Assert.Equal(locationId, restoredItem.LocationId);
+            Assert.Equal("red", restoredItem.Properties["color"]);
+            MockAuditService.Verify(a => a.RecordAsync(AuditEntityTypes.Item, itemId.ToString(), AuditActions.Create, null, It.IsAny<Item>(), MockSession.Object), Times.Once);
+            Mock.Get(MockSession.Object.Transaction!).Verify(t => t.Commit(), Times.Once);
         }
 
         [Fact]
-        public async Task SearchItemsAsync_WhenSearchTermIsEmpty_AppliesPagination()
+        public async Task RestoreItemsAsync_WhenAnItemFailsToRestore_DoesNotCommitAnyOfThem()
         {
             // Arrange
-            List<ItemDbModel> allItems = new List<ItemDbModel>();
-            for (int i = 0; i < 10; i++)
-            {
-                allItems.Add(new ItemDbModel { Id = Guid.NewGuid(), Name = $"Item {i}", Description = null, LocationId = "loc1", PropertiesJson = "{}", CreatedAt = DateTimeOffset.UtcNow, UpdatedAt = DateTimeOffset.UtcNow });
-            }
+            Guid firstItemId = Guid.NewGuid();
+            Guid secondItemId = Guid.NewGuid();
+            string locationId = "G1";
 
             MockItemRepository
-                .Setup(r => r.GetAllAsync(null))
-                .ReturnsAsync(allItems);
+                .Setup(r => r.ExistsAsync(It.IsAny<Guid>(), It.IsAny<Guid?>(), null))
+                .ReturnsAsync(false);
 
-            // Act
-            (IEnumerable<Item> results, int totalCount) = await Service.SearchItemsAsync(string.Empty, 2, 3);
+            MockAuditService
+                .Setup(a => a.GetDeletedSnapshotAsync<Item>(AuditEntityTypes.Item, firstItemId.ToString()))
+                .ReturnsAsync(new Item(id: firstItemId, name: "Drill", description: null, locationId: locationId));
 
-            // Assert
-            Assert.Equal(10, totalCount);
-            Assert.Equal(3, results.Count());
-            MockItemRepository.Verify(r => r.GetAllAsync(null), Times.Once);
+            MockAuditService
+                .Setup(a => a.GetDeletedSnapshotAsync<Item>(AuditEntityTypes.Item, secondItemId.ToString()))
+                .ReturnsAsync(new Item(id: secondItemId, name: "Saw", description: null, locationId: locationId));
+
+            MockLocationRepository
+                .Setup(r => r.ExistsAsync(locationId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
+
+            MockLocationRepository
+                .Setup(r => r.HasChildrenAsync(locationId, null))
+                .ReturnsAsync(false);
+
+            MockItemRepository
+                .Setup(r => r.CreateAsync(firstItemId, "Drill", null, locationId, It.IsAny<Dictionary<string, string>?>(), null, null, null, null, MockSession.Object))
+                .ReturnsAsync(new ItemDbModel { Id = firstItemId, Name = "Drill", LocationId = locationId, PropertiesJson = "{}" });
+
+            MockItemRepository
+                .Setup(r => r.CreateAsync(secondItemId, "Saw", null, locationId, It.IsAny<Dictionary<string, string>?>(), null, null, null, null, MockSession.Object))
+                .ThrowsAsync(new InvalidOperationException("Item with ID already exists."));
+
+            // Act & Assert
+            await Assert.ThrowsAsync<InvalidOperationException>(
+                () => Service.RestoreItemsAsync(new[] { firstItemId, secondItemId }));
+
+            MockAuditService.Verify(a => a.RecordAsync(AuditEntityTypes.Item, firstItemId.ToString(), AuditActions.Create, null, It.IsAny<Item>(), MockSession.Object), Times.Once);
+            Mock.Get(MockSession.Object.Transaction!).Verify(t => t.Commit(), Times.Never);
         }
 
         [Fact]
-        public async Task SearchItemsAsync_WhenOffsetIsNegative_ThrowsArgumentException()
+        public async Task RestoreItemsAsync_WhenItemExists_ThrowsInvalidOperationException()
         {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+
+            MockItemRepository
+                .Setup(r => r.ExistsAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
+
             // Act & Assert
-            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
-                () => Service.SearchItemsAsync("test", -1, 20));
+            InvalidOperationException exception = await Assert.ThrowsAsync<InvalidOperationException>(
+                () => Service.RestoreItemsAsync(new[] { itemId }));
 
-            Assert.Contains("must be greater than or equal to zero", exception.Message);
-            MockItemRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<IDbSession?>()), Times.Never);
+            Assert.Contains("already exists", exception.Message);
+            MockItemRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string>(), It.IsAny<Dictionary<string, string>?>(), It.IsAny<decimal?>(), It.IsAny<string?>(), It.IsAny<decimal?>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
-        public async Task SearchItemsAsync_WhenLimitIsZero_ThrowsArgumentException()
+        public async Task RestoreItemsAsync_WhenNoDeletionWasRecorded_ThrowsArgumentException()
         {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+
+            MockItemRepository
+                .Setup(r => r.ExistsAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(false);
+
+            MockAuditService
+                .Setup(a => a.GetDeletedSnapshotAsync<Item>(AuditEntityTypes.Item, itemId.ToString()))
+                .ReturnsAsync((Item?)null);
+
             // Act & Assert
             ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
-                () => Service.SearchItemsAsync("test", 0, 0));
+                () => Service.RestoreItemsAsync(new[] { itemId }));
 
-            Assert.Contains("must be greater than zero", exception.Message);
-            MockItemRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<IDbSession?>()), Times.Never);
+            Assert.Contains("No deleted item", exception.Message);
         }
 
         [Fact]
-        public async Task SearchItemsAsync_WhenLimitExceedsMax_ThrowsArgumentException()
+        public async Task RestoreItemsAsync_WhenLocationNoLongerExists_ThrowsInvalidOperationException()
         {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+
+            MockItemRepository
+                .Setup(r => r.ExistsAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(false);
+
+            MockAuditService
+                .Setup(a => a.GetDeletedSnapshotAsync<Item>(AuditEntityTypes.Item, itemId.ToString()))
+                .ReturnsAsync(new Item(id: itemId, name: "Drill", description: null, locationId: "GONE"));
+
+            MockLocationRepository
+                .Setup(r => r.ExistsAsync("GONE", It.IsAny<Guid?>(), null))
+                .ReturnsAsync(false);
+
             // Act & Assert
-            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
-                () => Service.SearchItemsAsync("test", 0, 101));
+            InvalidOperationException exception = await Assert.ThrowsAsync<InvalidOperationException>(
+                () => Service.RestoreItemsAsync(new[] { itemId }));
 
-            Assert.Contains("cannot exceed 100", exception.Message);
-            MockItemRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<IDbSession?>()), Times.Never);
+            Assert.Contains("does not exist", exception.Message);
+            MockItemRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string>(), It.IsAny<Dictionary<string, string>?>(), It.IsAny<decimal?>(), It.IsAny<string?>(), It.IsAny<decimal?>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
-        public async Task SearchItemsAsync_WhenResultsExist_ReturnsItemsAndTotalCount()
+        public async Task UpdateItemPropertiesAsync_WhenSettingAndRemovingProperties_UpdatesItems()
+        {
+            // Arrange
+            Guid itemId1 = Guid.NewGuid();
+            Guid itemId2 = Guid.NewGuid();
+            Dictionary<string, string> propertiesToSet = new Dictionary<string, string> { { "color", "red" } };
+            string[] propertyKeysToRemove = new[] { "broken" };
+
+            MockItemRepository
+                .Setup(r => r.UpdatePropertiesAsync(new[] { itemId1, itemId2 }, propertiesToSet, propertyKeysToRemove, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(2);
+
+            // Act
+            int result = await Service.UpdateItemPropertiesAsync(new[] { itemId1, itemId2 }, propertiesToSet, propertyKeysToRemove);
+
+            // Assert
+            Assert.Equal(2, result);
+            MockItemRepository.Verify(r => r.UpdatePropertiesAsync(new[] { itemId1, itemId2 }, propertiesToSet, propertyKeysToRemove, It.IsAny<Guid?>(), null), Times.Once);
+        }
+
+        [Fact]
+        public async Task UpdateItemPropertiesAsync_WhenNoChanges_ThrowsArgumentException()
+        {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.UpdateItemPropertiesAsync(new[] { itemId }, null, null));
+
+            Assert.Contains("At least one property must be set or removed", exception.Message);
+            MockItemRepository.Verify(r => r.UpdatePropertiesAsync(It.IsAny<IEnumerable<Guid>>(), It.IsAny<Dictionary<string, string>>(), It.IsAny<IEnumerable<string>>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task UpdateItemPropertiesAsync_WhenPropertyKeyIsEmpty_ThrowsArgumentException()
+        {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+            Dictionary<string, string> propertiesToSet = new Dictionary<string, string> { { " ", "value" } };
+
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.UpdateItemPropertiesAsync(new[] { itemId }, propertiesToSet, null));
+
+            Assert.Contains("Property keys cannot be empty", exception.Message);
+            MockItemRepository.Verify(r => r.UpdatePropertiesAsync(It.IsAny<IEnumerable<Guid>>(), It.IsAny<Dictionary<string, string>>(), It.IsAny<IEnumerable<string>>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task UpdateItemPropertiesAsync_WhenEmptyList_ThrowsArgumentException()
+        {
+            // Arrange
+            Dictionary<string, string> propertiesToSet = new Dictionary<string, string> { { "color", "red" } };
+
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.UpdateItemPropertiesAsync(Array.Empty<Guid>(), propertiesToSet, null));
+
+            Assert.Contains("At least one item ID must be provided", exception.Message);
+        }
+
+        [Fact]
+        public async Task CreateItemAsync_WhenUnitGivenWithoutQuantity_ThrowsArgumentException()
+        {
+            // Act & Assert
+            await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.CreateItemAsync("Screws", "test-location", unit: "pcs"));
+
+            MockItemRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string>(), It.IsAny<Dictionary<string, string>?>(), It.IsAny<decimal?>(), It.IsAny<string?>(), It.IsAny<decimal?>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task AdjustItemQuantityAsync_WhenItemHasQuantity_ReturnsItemWithNewQuantity()
+        {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+            ItemDbModel before = new ItemDbModel { Id = itemId, Name = "Screws", LocationId = "G1", Quantity = 12, Unit = "pcs", MinQuantity = 10 };
+            ItemDbModel after = new ItemDbModel { Id = itemId, Name = "Screws", LocationId = "G1", Quantity = 9, Unit = "pcs", MinQuantity = 10 };
+
+            MockItemRepository
+                .SetupSequence(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(before)
+                .ReturnsAsync(after);
+
+            MockItemRepository
+                .Setup(r => r.AdjustQuantityAsync(itemId, -3, null))
+                .ReturnsAsync(true);
+
+            // Act
+            Item result = await Service.AdjustItemQuantityAsync(itemId, -3);
+
+            // Assert
+            Assert.Equal(9, result.Quantity);
+            Assert.True(result.IsLowStock);
+            MockAuditService.Verify(a => a.RecordAsync(AuditEntityTypes.Item, itemId.ToString(), AuditActions.Update, It.Is<object?>(o => ((Item)o!).Quantity == 12), It.Is<object?>(o => ((Item)o!).Quantity == 9), null), Times.Once);
+        }
+
+        [Fact]
+        public async Task AdjustItemQuantityAsync_WhenQuantityWouldDropBelowZero_ThrowsInvalidOperationException()
+        {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+            MockItemRepository
+                .Setup(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new ItemDbModel { Id = itemId, Name = "Screws", LocationId = "G1", Quantity = 2 });
+
+            MockItemRepository
+                .Setup(r => r.AdjustQuantityAsync(itemId, -3, null))
+                .ReturnsAsync(false);
+
+            // Act & Assert
+            await Assert.ThrowsAsync<InvalidOperationException>(
+                () => Service.AdjustItemQuantityAsync(itemId, -3));
+
+            MockAuditService.Verify(a => a.RecordAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<object?>(), It.IsAny<object?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task AdjustItemQuantityAsync_WhenItemHasNoQuantity_ThrowsInvalidOperationException()
+        {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+            MockItemRepository
+                .Setup(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new ItemDbModel { Id = itemId, Name = "Drill", LocationId = "G1" });
+
+            // Act & Assert
+            await Assert.ThrowsAsync<InvalidOperationException>(
+                () => Service.AdjustItemQuantityAsync(itemId, 1));
+
+            MockItemRepository.Verify(r => r.AdjustQuantityAsync(It.IsAny<Guid>(), It.IsAny<decimal>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task SplitItemAsync_WhenTargetHasMatchingItem_MergesQuantityIntoIt()
+        {
+            // Arrange
+            Guid sourceId = Guid.NewGuid();
+            Guid targetId = Guid.NewGuid();
+            ItemDbModel sourceBefore = new ItemDbModel { Id = sourceId, Name = "Screws", LocationId = "G1", Quantity = 12, Unit = "pcs" };
+            ItemDbModel sourceAfter = new ItemDbModel { Id = sourceId, Name = "Screws", LocationId = "G1", Quantity = 7, Unit = "pcs" };
+            ItemDbModel targetBefore = new ItemDbModel { Id = targetId, Name = "screws", LocationId = "G2", Quantity = 3, Unit = "PCS" };
+            ItemDbModel targetAfter = new ItemDbModel { Id = targetId, Name = "screws", LocationId = "G2", Quantity = 8, Unit = "PCS" };
+
+            MockItemRepository
+                .SetupSequence(r => r.GetByIdAsync(sourceId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(sourceBefore)
+                .ReturnsAsync(sourceAfter);
+            MockItemRepository.Setup(r => r.GetByIdAsync(targetId, It.IsAny<Guid?>(), null)).ReturnsAsync(targetAfter);
+            MockLocationRepository.Setup(r => r.ExistsAsync("G2", It.IsAny<Guid?>(), null)).ReturnsAsync(true);
+            MockLocationRepository.Setup(r => r.HasChildrenAsync("G2", null)).ReturnsAsync(false);
+            MockItemRepository.Setup(r => r.FindMergeTargetAsync("G2", "Screws", "pcs", sourceId, null)).ReturnsAsync(targetBefore);
+            MockItemRepository.Setup(r => r.SplitAsync(sourceId, 5, "G2", targetId, targetId, null)).ReturnsAsync(true);
+
+            // Act
+            ItemSplitResult result = await Service.SplitItemAsync(sourceId, 5, "G2");
+
+            // Assert
+            Assert.True(result.Merged);
+            Assert.Equal(7, result.Source.Quantity);
+            Assert.Equal(targetId, result.Target.Id);
+            Assert.Equal(8, result.Target.Quantity);
+            MockItemRepository.Verify(r => r.SplitAsync(sourceId, 5, "G2", targetId, targetId, null), Times.Once);
+            MockItemRepository.Verify(r => r.AdjustQuantityAsync(It.IsAny<Guid>(), It.IsAny<decimal>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockItemRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string>(), It.IsAny<Dictionary<string, string>?>(), It.IsAny<decimal?>(), It.IsAny<string?>(), It.IsAny<decimal?>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task SplitItemAsync_WhenTargetHasNoMatchingItem_CreatesItemWithMovedQuantity()
+        {
+            // Arrange
+            Guid sourceId = Guid.NewGuid();
+            ItemDbModel sourceBefore = new ItemDbModel { Id = sourceId, Name = "Screws", Description = "M4", LocationId = "G1", PropertiesJson = "{\"size\":\"M4\"}", Quantity = 12, Unit = "pcs", MinQuantity = 10 };
+            ItemDbModel sourceAfter = new ItemDbModel { Id = sourceId, Name = "Screws", Description = "M4", LocationId = "G1", PropertiesJson = "{\"size\":\"M4\"}", Quantity = 7, Unit = "pcs", MinQuantity = 10 };
+            Guid createdId = Guid.Empty;
+
+            MockItemRepository
+                .SetupSequence(r => r.GetByIdAsync(sourceId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(sourceBefore)
+                .ReturnsAsync(sourceAfter);
+            MockLocationRepository.Setup(r => r.ExistsAsync("G2", It.IsAny<Guid?>(), null)).ReturnsAsync(true);
+            MockLocationRepository.Setup(r => r.HasChildrenAsync("G2", null)).ReturnsAsync(false);
+            MockItemRepository.Setup(r => r.FindMergeTargetAsync("G2", "Screws", "pcs", sourceId, null)).ReturnsAsync((ItemDbModel?)null);
+            MockItemRepository
+                .Setup(r => r.SplitAsync(sourceId, 5, "G2", null, It.IsAny<Guid>(), null))
+                .Callback<Guid, decimal, string, Guid?, Guid, IDbSession?>((itemId, movedQuantity, locationId, mergeTargetId, newItemId, session) => createdId = newItemId)
+                .ReturnsAsync(true);
+            MockItemRepository
+                .Setup(r => r.GetByIdAsync(It.Is<Guid>(g => g != sourceId), It.IsAny<Guid?>(), null))
+                .ReturnsAsync((Guid itemId, Guid? workspaceId, IDbSession? session) => new ItemDbModel { Id = itemId, Name = "Screws", Description = "M4", LocationId = "G2", PropertiesJson = "{\"size\":\"M4\"}", Quantity = 5, Unit = "pcs" });
+
+            // Act
+            ItemSplitResult result = await Service.SplitItemAsync(sourceId, 5, "G2");
+
+            // Assert
+            Assert.NotEqual(Guid.Empty, createdId);
+            Assert.False(result.Merged);
+            Assert.Equal(createdId, result.Target.Id);
+            Assert.Equal("G2", result.Target.LocationId);
+            Assert.Equal(5, result.Target.Quantity);
+            Assert.Null(result.Target.MinQuantity);
+            Assert.Equal(7, result.Source.Quantity);
+            MockAuditService.Verify(a => a.RecordAsync(AuditEntityTypes.Item, createdId.ToString(), AuditActions.Create, null, It.IsAny<object?>(), null), Times.Once);
+            MockAuditService.Verify(a => a.RecordAsync(AuditEntityTypes.Item, sourceId.ToString(), AuditActions.Update, It.IsAny<object?>(), It.IsAny<object?>(), null), Times.Once);
+        }
+
+        [Theory]
+        [InlineData(12)]
+        [InlineData(20)]
+        public async Task SplitItemAsync_WhenQuantityIsNotLessThanItemQuantity_ThrowsInvalidOperationException(int quantity)
+        {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+            MockItemRepository
+                .Setup(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new ItemDbModel { Id = itemId, Name = "Screws", LocationId = "G1", Quantity = 12 });
+
+            // Act & Assert
+            await Assert.ThrowsAsync<InvalidOperationException>(
+                () => Service.SplitItemAsync(itemId, quantity, "G2"));
+
+            MockItemRepository.Verify(r => r.SplitAsync(It.IsAny<Guid>(), It.IsAny<decimal>(), It.IsAny<string>(), It.IsAny<Guid?>(), It.IsAny<Guid>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task SearchItemsAsync_WhenValidSearchTerm_CallsRepository()
+        {
+            // Arrange
+            string searchTerm = "hammer";
+            int offset = 0;
+            int limit = 20;
+
+            DateTimeOffset timestamp = DateTimeOffset.UtcNow;
+            IEnumerable<ItemDbModel> itemDbModels = new[]
+            {
+                new ItemDbModel { Id = Guid.NewGuid(), Name = "Hammer", Description = null, LocationId = "location-1", PropertiesJson = "{}", CreatedAt = timestamp, UpdatedAt = timestamp },
+                new ItemDbModel { Id = Guid.NewGuid(), Name = "Hammer Drill", Description = null, LocationId = "location-1", PropertiesJson = "{}", CreatedAt = timestamp, UpdatedAt = timestamp }
+            };
+
+            MockItemRepository
+                .Setup(r => r.SearchAsync(searchTerm, offset, limit, It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null))
+                .ReturnsAsync((itemDbModels, 2));
+
+            // Act
+            (IEnumerable<Item> results, int totalCount) = await Service.SearchItemsAsync(searchTerm, offset, limit);
+
+            // Assert
+            Assert.Equal(2, results.Count());
+            Assert.Equal(2, totalCount);
+            MockItemRepository.Verify(r => r.SearchAsync(searchTerm, offset, limit, It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null), Times.Once);
+        }
+
+        [Fact]
+        public async Task SearchItemsAsync_WhenSearchTermIsEmpty_ReturnsAllItems()
+        {
+            // Arrange
+            List<ItemDbModel> allItems = new List<ItemDbModel>
+            {
+                new ItemDbModel { Id = Guid.NewGuid(), Name = "Item 1", Description = null, LocationId = "loc1", PropertiesJson = "{}", CreatedAt = DateTimeOffset.UtcNow, UpdatedAt = DateTimeOffset.UtcNow },
+                new ItemDbModel { Id = Guid.NewGuid(), Name = "Item 2", Description = null, LocationId = "loc1", PropertiesJson = "{}", CreatedAt = DateTimeOffset.UtcNow, UpdatedAt = DateTimeOffset.UtcNow },
+                new ItemDbModel { Id = Guid.NewGuid(), Name = "Item 3", Description = null, LocationId = "loc1", PropertiesJson = "{}", CreatedAt = DateTimeOffset.UtcNow, UpdatedAt = DateTimeOffset.UtcNow }
+            };
+
+            MockItemRepository
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
+                .ReturnsAsync(allItems);
+
+            // Act
+            (IEnumerable<Item> results, int totalCount) = await Service.SearchItemsAsync(string.Empty, 0, 20);
+
+            // Assert
+            Assert.Equal(3, totalCount);
+            Assert.Equal(3, results.Count());
+            MockItemRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
+            MockItemRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task SearchItemsAsync_WhenSearchTermIsWhitespace_ReturnsAllItems()
+        {
+            // Arrange
+            List<ItemDbModel> allItems = new List<ItemDbModel>
+            {
+                new ItemDbModel { Id = Guid.NewGuid(), Name = "Item 1", Description = null, LocationId = "loc1", PropertiesJson = "{}", CreatedAt = DateTimeOffset.UtcNow, UpdatedAt = DateTimeOffset.UtcNow }
+            };
+
+            MockItemRepository
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
+                .ReturnsAsync(allItems);
+
+            // Act
+            (IEnumerable<Item> results, int totalCount) = await Service.SearchItemsAsync("   ", 0, 20);
+
+            // Assert
+            Assert.Equal(1, totalCount);
+            Assert.Single(results);
+            MockItemRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
+            MockItemRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task SearchItemsAsync_WhenSearchTermIsNull_ReturnsAllItems()
+        {
+            // Arrange
+            List<ItemDbModel> allItems = new List<ItemDbModel>
+            {
+                new ItemDbModel { Id = Guid.NewGuid(), Name = "Item 1", Description = null, LocationId = "loc1", PropertiesJson = "{}", CreatedAt = DateTimeOffset.UtcNow, UpdatedAt = DateTimeOffset.UtcNow }
+            };
+
+            MockItemRepository
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
+                .ReturnsAsync(allItems);
+
+            // Act
+            (IEnumerable<Item> results, int totalCount) = await Service.SearchItemsAsync(null!, 0, 20);
+
+            // Assert
+            Assert.Equal(1, totalCount);
+            Assert.Single(results);
+            MockItemRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
+            MockItemRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task SearchItemsAsync_WhenSearchTermIsEmpty_AppliesPagination()
+        {
+            // Arrange
+            List<ItemDbModel> allItems = new List<ItemDbModel>();
+            for (int i = 0; i < 10; i++)
+            {
+                allItems.Add(new ItemDbModel { Id = Guid.NewGuid(), Name = $"Item {i}", Description = null, LocationId = "loc1", PropertiesJson = "{}", CreatedAt = DateTimeOffset.UtcNow, UpdatedAt = DateTimeOffset.UtcNow });
+            }
+
+            MockItemRepository
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
+                .ReturnsAsync(allItems);
+
+            // Act
+            (IEnumerable<Item> results, int totalCount) = await Service.SearchItemsAsync(string.Empty, 2, 3);
+
+            // Assert
+            Assert.Equal(10, totalCount);
+            Assert.Equal(3, results.Count());
+            MockItemRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
+        }
+
+        [Fact]
+        public async Task SearchItemsAsync_WhenOffsetIsNegative_ThrowsArgumentException()
+        {
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.SearchItemsAsync("test", -1, 20));
+
+            Assert.Contains("must be greater than or equal to zero", exception.Message);
+            MockItemRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task SearchItemsAsync_WhenLimitIsZero_ThrowsArgumentException()
+        {
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.SearchItemsAsync("test", 0, 0));
+
+            Assert.Contains("must be greater than zero", exception.Message);
+            MockItemRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task SearchItemsAsync_WhenLimitExceedsMax_ThrowsArgumentException()
+        {
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.SearchItemsAsync("test", 0, 101));
+
+            Assert.Contains("cannot exceed 100", exception.Message);
+            MockItemRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task SearchItemsAsync_WhenResultsExist_ReturnsItemsAndTotalCount()
         {
             // Arrange
             Guid itemId1 = Guid.NewGuid();
@@ -813,7 +1473,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockItemRepository
-                .Setup(r => r.SearchAsync("hammer", 0, 20, null))
+                .Setup(r => r.SearchAsync("hammer", 0, 20, It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null))
                 .ReturnsAsync((itemDbModels, 2));
 
             // Act
@@ -850,7 +1510,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockItemRepository
-                .Setup(r => r.SearchAsync("test", 0, 20, null))
+                .Setup(r => r.SearchAsync("test", 0, 20, It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null))
                 .ReturnsAsync((new[] { itemDbModel }, 1));
 
             // Act
@@ -867,5 +1527,364 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal(timestamp, result.CreatedAt);
             Assert.Equal(timestamp, result.UpdatedAt);
         }
+
+        [Fact]
+        public async Task SearchItemsAsync_WhenPropertyFiltersProvided_CallsFilteredSearch()
+        {
+            // Arrange
+            DateTimeOffset timestamp = DateTimeOffset.UtcNow;
+            IEnumerable<ItemDbModel> itemDbModels = new[]
+            {
+                new ItemDbModel { Id = Guid.NewGuid(), Name = "Red Hammer", Description = null, LocationId = "location-1", PropertiesJson = "{\"color\":\"red\"}", CreatedAt = timestamp, UpdatedAt = timestamp }
+            };
+            List<ItemPropertyFilter> filters = new List<ItemPropertyFilter> { new ItemPropertyFilter(key: "color", values: new[] { "red" }) };
+
+            MockItemRepository
+                .Setup(r => r.SearchAsync(It.IsAny<SearchQuery>(), It.IsAny<IEnumerable<ItemPropertyFilter>>(), 0, 20, It.IsAny<IEnumerable<ItemPropertyRange>?>(), null, null, It.IsAny<IEnumerable<string>?>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null))
+                .ReturnsAsync((itemDbModels, 1));
+
+            // Act
+            (IEnumerable<Item> results, int totalCount) = await Service.SearchItemsAsync(string.Empty, 0, 20, filters);
+
+            // Assert
+            Assert.Single(results);
+            Assert.Equal(1, totalCount);
+            MockItemRepository.Verify(r => r.SearchAsync(It.Is<SearchQuery>(q => !q.HasText), It.Is<IEnumerable<ItemPropertyFilter>>(f => f.Single().Key == "color"), 0, 20, It.IsAny<IEnumerable<ItemPropertyRange>?>(), null, null, It.IsAny<IEnumerable<string>?>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null), Times.Once);
+            MockItemRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task GetPropertyFacetsAsync_WhenRepositoryReturnsRows_GroupsValuesByKey()
+        {
+            // Arrange
+            IEnumerable<PropertyFacetDbModel> rows = new[]
+            {
+                new PropertyFacetDbModel { Key = "color", Value = "red", ItemCount = 3, KeyItemCount = 5 },
+                new PropertyFacetDbModel { Key = "color", Value = "blue", ItemCount = 2, KeyItemCount = 5 },
+                new PropertyFacetDbModel { Key = "brand", Value = "Bosch", ItemCount = 1, KeyItemCount = 1 }
+            };
+
+            MockItemRepository
+                .Setup(r => r.GetPropertyFacetsAsync(It.Is<SearchQuery>(q => q.Text == "drill"), It.IsAny<IEnumerable<ItemPropertyFilter>>(), 10, 10, null, null, It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null))
+                .ReturnsAsync(rows);
+
+            // Act
+            List<PropertyFacet> facets = (await Service.GetPropertyFacetsAsync("drill")).ToList();
+
+            // Assert
+            Assert.Equal(2, facets.Count);
+            Assert.Equal("color", facets[0].Key);
+            Assert.Equal(5, facets[0].ItemCount);
+            Assert.Equal(new[] { "red", "blue" }, facets[0].Values.Select(v => v.Value));
+            Assert.Equal(3, facets[0].Values[0].ItemCount);
+            Assert.Equal("brand", facets[1].Key);
+            Assert.Single(facets[1].Values);
+        }
+
+        [Theory]
+        [InlineData(0, 10)]
+        [InlineData(51, 10)]
+        [InlineData(10, 0)]
+        [InlineData(10, 51)]
+        public async Task GetPropertyFacetsAsync_WhenLimitOutOfRange_ThrowsArgumentException(int keyLimit, int valueLimit)
+        {
+            // Act & Assert
+            await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.GetPropertyFacetsAsync(string.Empty, null, keyLimit, valueLimit));
+
+            MockItemRepository.Verify(r => r.GetPropertyFacetsAsync(It.IsAny<SearchQuery>(), It.IsAny<IEnumerable<ItemPropertyFilter>>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task SearchItemsAsync_WhenSearchTermUsesQuerySyntax_CallsQuerySearch()
+        {
+            // Arrange
+            MockItemRepository
+                .Setup(r => r.SearchAsync(It.IsAny<SearchQuery>(), It.IsAny<IEnumerable<ItemPropertyFilter>>(), 0, 20, It.IsAny<IEnumerable<ItemPropertyRange>?>(), null, null, It.IsAny<IEnumerable<string>?>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null))
+                .ReturnsAsync((Enumerable.Empty<ItemDbModel>(), 0));
+
+            // Act
+            await Service.SearchItemsAsync("in:G1 drill -broken", 0, 20);
+
+            // Assert
+            MockItemRepository.Verify(r => r.SearchAsync(
+                It.Is<SearchQuery>(q => q.Text == "drill" && q.ExcludedTerms.Single() == "broken" && q.Filters.Single().Value == "G1"),
+                It.Is<IEnumerable<ItemPropertyFilter>>(f => !f.Any()),
+                0,
+                20,
+                It.IsAny<IEnumerable<ItemPropertyRange>?>(),
+                null,
+                null,
+                It.IsAny<IEnumerable<string>?>(),
+                It.IsAny<Guid?>(),
+                It.IsAny<IEnumerable<string>?>(),
+                null), Times.Once);
+            MockItemRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task SearchItemsAsync_WhenDateFilterIsInvalid_ThrowsArgumentException()
+        {
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.SearchItemsAsync("updated:>yesterday", 0, 20));
+
+            Assert.Contains("not a valid date", exception.Message);
+        }
+
+        [Fact]
+        public async Task CreateItemAsync_WhenPropertyIsDefined_StoresDefinedKeyAndNormalizedValue()
+        {
+            // Arrange
+            string locationId = "test-location";
+            ItemDbModel createdItem = new ItemDbModel { Id = Guid.NewGuid(), Name = "Bolt", LocationId = locationId, PropertiesJson = "{}" };
+
+            MockPropertyDefinitionRepository
+                .Setup(r => r.GetAllAsync(null))
+                .ReturnsAsync(new[] { new PropertyDefinitionDbModel { Key = "weight", Name = "Weight", Type = PropertyTypes.Number, Unit = "g" } });
+
+            MockLocationRepository
+                .Setup(r => r.ExistsAsync(locationId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
+
+            MockItemRepository
+                .Setup(r => r.CreateAsync(It.IsAny<Guid>(), "Bolt", null, locationId, It.IsAny<Dictionary<string, string>?>(), null, null, null, null, null))
+                .ReturnsAsync(createdItem);
+
+            // Act
+            await Service.CreateItemAsync("Bolt", locationId, properties: new Dictionary<string, string> { { "WEIGHT", " 12.50 " }, { "Brand", "Acme" } });
+
+            // Assert
+            MockItemRepository.Verify(r => r.CreateAsync(
+                It.IsAny<Guid>(),
+                "Bolt",
+                null,
+                locationId,
+                It.Is<Dictionary<string, string>?>(p => p != null && p.Count == 2 && p["weight"] == "12.50" && p["Brand"] == "Acme"),
+                null,
+                null,
+                null,
+                null,
+                null), Times.Once);
+        }
+
+        [Theory]
+        [InlineData("heavy")]
+        [InlineData("12,5")]
+        public async Task CreateItemAsync_WhenNumberPropertyIsNotANumber_ThrowsArgumentException(string value)
+        {
+            // Arrange
+            MockPropertyDefinitionRepository
+                .Setup(r => r.GetAllAsync(null))
+                .ReturnsAsync(new[] { new PropertyDefinitionDbModel { Key = "weight", Name = "Weight", Type = PropertyTypes.Number } });
+
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.CreateItemAsync("Bolt", "test-location", properties: new Dictionary<string, string> { { "weight", value } }));
+
+            Assert.Contains("Weight must be a number", exception.Message);
+            MockItemRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string>(), It.IsAny<Dictionary<string, string>?>(), It.IsAny<decimal?>(), It.IsAny<string?>(), It.IsAny<decimal?>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task UpdateItemAsync_WhenRequiredPropertyIsMissing_ThrowsArgumentException()
+        {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+            MockPropertyDefinitionRepository
+                .Setup(r => r.GetAllAsync(null))
+                .ReturnsAsync(new[] { new PropertyDefinitionDbModel { Key = "serial", Name = "Serial number", Type = PropertyTypes.Text, IsRequired = true } });
+
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.UpdateItemAsync(itemId, "Drill", properties: new Dictionary<string, string> { { "serial", "  " } }));
+
+            Assert.Contains("Serial number is required", exception.Message);
+            MockItemRepository.Verify(r => r.UpdateAsync(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<Dictionary<string, string>?>(), It.IsAny<decimal?>(), It.IsAny<string?>(), It.IsAny<decimal?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task UpdateItemPropertiesAsync_WhenRemovingRequiredProperty_ThrowsArgumentException()
+        {
+            // Arrange
+            MockPropertyDefinitionRepository
+                .Setup(r => r.GetAllAsync(null))
+                .ReturnsAsync(new[] { new PropertyDefinitionDbModel { Key = "serial", Name = "Serial number", Type = PropertyTypes.Text, IsRequired = true } });
+
+            // Act & Assert
+            await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.UpdateItemPropertiesAsync(new[] { Guid.NewGuid() }, propertyKeysToRemove: new[] { "SERIAL" }));
+
+            MockItemRepository.Verify(r => r.UpdatePropertiesAsync(It.IsAny<IEnumerable<Guid>>(), It.IsAny<Dictionary<string, string>>(), It.IsAny<IEnumerable<string>>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task SearchItemsAsync_WhenRangeIsOnTextProperty_ThrowsArgumentException()
+        {
+            // Arrange
+            MockPropertyDefinitionRepository
+                .Setup(r => r.GetAllAsync(null))
+                .ReturnsAsync(new[] { new PropertyDefinitionDbModel { Key = "brand", Name = "Brand", Type = PropertyTypes.Text } });
+
+            // Act & Assert
+            await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.SearchItemsAsync(string.Empty, 0, 20, propertyRanges: new[] { new ItemPropertyRange(key: "brand", min: "a", max: null) }));
+        }
+
+        [Fact]
+        public async Task SearchItemsAsync_WhenRangeAndSortUseDefinedProperty_PassesDefinedKeyAndType()
+        {
+            // Arrange
+            MockPropertyDefinitionRepository
+                .Setup(r => r.GetAllAsync(null))
+                .ReturnsAsync(new[] { new PropertyDefinitionDbModel { Key = "bought", Name = "Bought", Type = PropertyTypes.Date } });
+
+            MockItemRepository
+                .Setup(r => r.SearchAsync(It.IsAny<SearchQuery>(), It.IsAny<IEnumerable<ItemPropertyFilter>>(), 0, 20, It.IsAny<IEnumerable<ItemPropertyRange>?>(), It.IsAny<ItemSortOrder?>(), null, It.IsAny<IEnumerable<string>?>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null))
+                .ReturnsAsync((Enumerable.Empty<ItemDbModel>(), 0));
+
+            // Act
+            await Service.SearchItemsAsync(
+                string.Empty,
+                0,
+                20,
+                propertyRanges: new[] { new ItemPropertyRange(key: "Bought", min: "2026-01-01", max: null) },
+                sortOrder: ItemSortOrder.Parse("-property:BOUGHT"));
+
+            // Assert
+            MockItemRepository.Verify(r => r.SearchAsync(
+                It.IsAny<SearchQuery>(),
+                It.IsAny<IEnumerable<ItemPropertyFilter>>(),
+                0,
+                20,
+                It.Is<IEnumerable<ItemPropertyRange>?>(ranges => ranges != null && ranges.Single().Key == "bought" && ranges.Single().Type == PropertyTypes.Date && ranges.Single().Min == "2026-01-01"),
+                It.Is<ItemSortOrder?>(sort => sort != null && sort.PropertyKey == "bought" && sort.PropertyType == PropertyTypes.Date && sort.IsDescending),
+                null,
+                It.IsAny<IEnumerable<string>?>(),
+                It.IsAny<Guid?>(),
+                It.IsAny<IEnumerable<string>?>(),
+                null), Times.Once);
+        }
+
+        [Fact]
+        public async Task CreateItemAsync_WhenTemplateDoesNotExist_ThrowsArgumentException()
+        {
+            // Arrange
+            Guid templateId = Guid.NewGuid();
+
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.CreateItemAsync("Battery", "G1", templateId: templateId));
+
+            Assert.Contains(templateId.ToString(), exception.Message);
+            MockItemRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string>(), It.IsAny<Dictionary<string, string>?>(), It.IsAny<decimal?>(), It.IsAny<string?>(), It.IsAny<decimal?>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task SearchItemsAsync_WhenTemplateIdIsGiven_SearchesItemsFromTemplate()
+        {
+            // Arrange
+            Guid templateId = Guid.NewGuid();
+            MockItemRepository
+                .Setup(r => r.SearchAsync(It.IsAny<SearchQuery>(), It.IsAny<IEnumerable<ItemPropertyFilter>>(), 0, 20, It.IsAny<IEnumerable<ItemPropertyRange>?>(), null, templateId, It.IsAny<IEnumerable<string>?>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null))
+                .ReturnsAsync((new List<ItemDbModel>(), 0));
+
+            // Act
+            await Service.SearchItemsAsync(string.Empty, 0, 20, templateId: templateId);
+
+            // Assert
+            MockItemRepository.Verify(r => r.SearchAsync(It.IsAny<SearchQuery>(), It.IsAny<IEnumerable<ItemPropertyFilter>>(), 0, 20, It.IsAny<IEnumerable<ItemPropertyRange>?>(), null, templateId, It.IsAny<IEnumerable<string>?>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null), Times.Once);
+            MockItemRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task CreateItemAsync_WhenTagsAreGiven_SavesNormalizedTags()
+        {
+            // Arrange
+            ItemDbModel createdItem = new ItemDbModel
+            {
+                Id = Guid.NewGuid(),
+                Name = "Drill",
+                LocationId = "G1",
+                PropertiesJson = "{}"
+            };
+            ItemDbModel taggedItem = new ItemDbModel
+            {
+                Id = createdItem.Id,
+                Name = "Drill",
+                LocationId = "G1",
+                PropertiesJson = "{}",
+                TagsJson = "[\"Tools\"]"
+            };
+
+            MockLocationRepository
+                .Setup(r => r.ExistsAsync("G1", It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
+
+            MockTagService
+                .Setup(s => s.NormalizeTagsAsync(It.IsAny<IEnumerable<string>>()))
+                .ReturnsAsync(new List<string> { "Tools" });
+
+            MockItemRepository
+                .Setup(r => r.CreateAsync(It.IsAny<Guid>(), "Drill", null, "G1", null, null, null, null, null, null))
+                .ReturnsAsync(createdItem);
+
+            MockItemRepository
+                .Setup(r => r.GetByIdAsync(createdItem.Id, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(taggedItem);
+
+            // Act
+            Item result = await Service.CreateItemAsync("Drill", "G1", tags: new[] { " tools ", "TOOLS" });
+
+            // Assert
+            Assert.Equal(new[] { "Tools" }, result.Tags);
+            MockTagService.Verify(s => s.SetTagsAsync(TagOwnerTypes.Item, createdItem.Id.ToString(), It.Is<IEnumerable<string>>(t => t.Single() == "Tools")), Times.Once);
+        }
+
+        [Fact]
+        public async Task UpdateItemAsync_WhenTagsAreNull_KeepsTags()
+        {
+            // Arrange
+            Guid itemId = Guid.NewGuid();
+            ItemDbModel existingItem = new ItemDbModel
+            {
+                Id = itemId,
+                Name = "Drill",
+                LocationId = "G1",
+                PropertiesJson = "{}",
+                TagsJson = "[\"Tools\"]"
+            };
+
+            MockItemRepository
+                .Setup(r => r.GetByIdAsync(itemId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(existingItem);
+
+            MockItemRepository
+                .Setup(r => r.UpdateAsync(itemId, "Drill", null, null, null, null, null, null))
+                .ReturnsAsync(true);
+
+            // Act
+            Item result = await Service.UpdateItemAsync(itemId, "Drill");
+
+            // Assert
+            Assert.Equal(new[] { "Tools" }, result.Tags);
+            MockTagService.Verify(s => s.SetTagsAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<IEnumerable<string>>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task SearchItemsAsync_WhenTagsAreGiven_SearchesItemsWithTags()
+        {
+            // Arrange
+            MockItemRepository
+                .Setup(r => r.SearchAsync(It.IsAny<SearchQuery>(), It.IsAny<IEnumerable<ItemPropertyFilter>>(), 0, 20, It.IsAny<IEnumerable<ItemPropertyRange>?>(), null, null, It.IsAny<IEnumerable<string>?>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null))
+                .ReturnsAsync((new List<ItemDbModel>(), 0));
+
+            // Act
+            await Service.SearchItemsAsync(string.Empty, 0, 20, tags: new[] { "tools", " " });
+
+            // Assert
+            MockItemRepository.Verify(r => r.SearchAsync(It.IsAny<SearchQuery>(), It.IsAny<IEnumerable<ItemPropertyFilter>>(), 0, 20, It.IsAny<IEnumerable<ItemPropertyRange>?>(), null, null, It.Is<IEnumerable<string>?>(t => t != null && t.Single() == "tools"), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null), Times.Once);
+            MockItemRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
     }
 }
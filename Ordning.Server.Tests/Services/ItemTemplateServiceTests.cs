@@ -0,0 +1,141 @@
+using System.Text.Json;
+using EasyReasy.Database;
+using Moq;
+using Ordning.Server.ItemTemplates.Models;
+using Ordning.Server.ItemTemplates.Repositories;
+using Ordning.Server.ItemTemplates.Services;
+using Ordning.Server.PropertyDefinitions.Models;
+using Ordning.Server.PropertyDefinitions.Repositories;
+
+namespace Ordning.Server.Tests.Services
+{
+    /// <summary>
+    /// Unit tests for ItemTemplateService.
+    /// </summary>
+    public class ItemTemplateServiceTests
+    {
+        private Mock<IItemTemplateRepository> MockRepository { get; set; } = null!;
+        private Mock<IPropertyDefinitionRepository> MockPropertyDefinitionRepository { get; set; } = null!;
+        private ItemTemplateService Service { get; set; } = null!;
+
+        public ItemTemplateServiceTests()
+        {
+            MockRepository = new Mock<IItemTemplateRepository>();
+            MockPropertyDefinitionRepository = new Mock<IPropertyDefinitionRepository>();
+            Service = new ItemTemplateService(MockRepository.Object, MockPropertyDefinitionRepository.Object);
+
+            MockPropertyDefinitionRepository
+                .Setup(r => r.GetAllAsync(null))
+                .ReturnsAsync(new[]
+                {
+                    new PropertyDefinitionDbModel { Key = "Voltage", Name = "Voltage", Type = PropertyTypes.Number, Unit = "V" },
+                    new PropertyDefinitionDbModel { Key = "Rechargeable", Name = "Rechargeable", Type = PropertyTypes.Boolean }
+                });
+        }
+
+        [Fact]
+        public async Task CreateItemTemplateAsync_WhenValid_TrimsValuesAndNormalizesDefinedProperties()
+        {
+            // Arrange
+            MockRepository
+                .Setup(r => r.CreateAsync(It.IsAny<Guid>(), "Battery", "A battery", It.IsAny<IEnumerable<ItemTemplateProperty>?>(), null))
+                .ReturnsAsync((Guid id, string name, string? description, IEnumerable<ItemTemplateProperty>? properties, IDbSession? session) => new ItemTemplateDbModel
+                {
+                    Id = id,
+                    Name = name,
+                    Description = description,
+                    PropertiesJson = JsonSerializer.Serialize(properties)
+                });
+
+            // Act
+            ItemTemplate result = await Service.CreateItemTemplateAsync(
+                name: " Battery ",
+                description: " A battery ",
+                properties: new[]
+                {
+                    new ItemTemplateProperty(key: " size ", value: " AA "),
+                    new ItemTemplateProperty(key: "voltage", value: " 1.5 "),
+                    new ItemTemplateProperty(key: "RECHARGEABLE", value: "yes"),
+                    new ItemTemplateProperty(key: "Count")
+                });
+
+            // Assert
+            Assert.Equal("Battery", result.Name);
+            Assert.Equal("A battery", result.Description);
+            Assert.Equal(new[] { "size", "Voltage", "Rechargeable", "Count" }, result.Properties.Select(p => p.Key));
+            Assert.Equal(new[] { "AA", "1.5", "true", string.Empty }, result.Properties.Select(p => p.Value));
+        }
+
+        [Fact]
+        public async Task CreateItemTemplateAsync_WhenNameIsTakenInOtherCase_ThrowsArgumentException()
+        {
+            // Arrange
+            MockRepository
+                .Setup(r => r.GetByNameAsync("battery", null))
+                .ReturnsAsync(new ItemTemplateDbModel { Id = Guid.NewGuid(), Name = "Battery" });
+
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.CreateItemTemplateAsync("battery"));
+
+            Assert.Contains("'Battery' already exists", exception.Message);
+            MockRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<IEnumerable<ItemTemplateProperty>?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Theory]
+        [InlineData("", "1")]
+        [InlineData("voltage", "high")]
+        [InlineData("Size", null)]
+        public async Task CreateItemTemplateAsync_WhenPropertyIsInvalid_ThrowsArgumentException(string key, string? value)
+        {
+            // Arrange
+            ItemTemplateProperty[] properties = new[]
+            {
+                new ItemTemplateProperty(key: "size"),
+                new ItemTemplateProperty(key: key, value: value)
+            };
+
+            // Act & Assert
+            await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.CreateItemTemplateAsync("Battery", properties: properties));
+
+            MockRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<IEnumerable<ItemTemplateProperty>?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task UpdateItemTemplateAsync_WhenNameIsUnchanged_UpdatesTemplate()
+        {
+            // Arrange
+            Guid id = Guid.NewGuid();
+            ItemTemplateDbModel existing = new ItemTemplateDbModel { Id = id, Name = "Battery" };
+
+            MockRepository
+                .Setup(r => r.GetByIdAsync(id, null))
+                .ReturnsAsync(existing);
+
+            MockRepository
+                .Setup(r => r.GetByNameAsync("Battery", null))
+                .ReturnsAsync(existing);
+
+            MockRepository
+                .Setup(r => r.UpdateAsync(id, "Battery", "Single use", It.IsAny<IEnumerable<ItemTemplateProperty>?>(), null))
+                .ReturnsAsync(true);
+
+            // Act
+            await Service.UpdateItemTemplateAsync(id, "Battery", "Single use");
+
+            // Assert
+            MockRepository.Verify(r => r.UpdateAsync(id, "Battery", "Single use", It.Is<IEnumerable<ItemTemplateProperty>?>(p => p != null && !p.Any()), null), Times.Once);
+        }
+
+        [Fact]
+        public async Task UpdateItemTemplateAsync_WhenTemplateDoesNotExist_ThrowsArgumentException()
+        {
+            // Act & Assert
+            await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.UpdateItemTemplateAsync(Guid.NewGuid(), "Battery"));
+
+            MockRepository.Verify(r => r.UpdateAsync(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<IEnumerable<ItemTemplateProperty>?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+    }
+}
@@ -0,0 +1,169 @@
+using Moq;
+using Ordning.Server.Locations.Models;
+using Ordning.Server.Locations.Repositories;
+using Ordning.Server.Locations.Services;
+using Ordning.Server.Workspaces.Models;
+using Ordning.Server.Workspaces.Repositories;
+using Ordning.Server.Workspaces.Services;
+
+namespace Ordning.Server.Tests.Services
+{
+    /// <summary>
+    /// Unit tests for LocationAccessService.
+    /// </summary>
+    public class LocationAccessServiceTests
+    {
+        private Mock<ILocationAccessRepository> MockRepository { get; set; } = null!;
+        private Mock<ILocationRepository> MockLocationRepository { get; set; } = null!;
+        private Mock<IWorkspaceRepository> MockWorkspaceRepository { get; set; } = null!;
+        private Guid WorkspaceId { get; set; } = Guid.NewGuid();
+        private Guid UserId { get; set; } = Guid.NewGuid();
+        private Mock<IWorkspaceService> MockWorkspaceService { get; set; } = null!;
+        private LocationAccessService Service { get; set; } = null!;
+
+        public LocationAccessServiceTests()
+        {
+            MockRepository = new Mock<ILocationAccessRepository>();
+            MockLocationRepository = new Mock<ILocationRepository>();
+            MockWorkspaceRepository = new Mock<IWorkspaceRepository>();
+            MockWorkspaceService = new Mock<IWorkspaceService>();
+            MockWorkspaceService
+                .Setup(s => s.GetCurrentWorkspaceIdAsync(It.IsAny<string>()))
+                .ReturnsAsync(WorkspaceId);
+            MockWorkspaceService
+                .Setup(s => s.GetCurrentWorkspaceRoleAsync())
+                .ReturnsAsync(WorkspaceRoles.Write);
+            MockWorkspaceService
+                .Setup(s => s.GetCurrentUserId())
+                .Returns(UserId);
+            Service = new LocationAccessService(MockRepository.Object, MockLocationRepository.Object, MockWorkspaceRepository.Object, MockWorkspaceService.Object);
+
+            MockLocationRepository
+                .Setup(r => r.GetAllAsync(WorkspaceId, null))
+                .ReturnsAsync(new[]
+                {
+                    new LocationDbModel { Id = "house", Name = "House", ParentLocationId = null },
+                    new LocationDbModel { Id = "office", Name = "Office", ParentLocationId = "house" },
+                    new LocationDbModel { Id = "desk", Name = "Desk", ParentLocationId = "office" },
+                    new LocationDbModel { Id = "garage", Name = "Garage", ParentLocationId = null }
+                });
+        }
+
+        [Fact]
+        public async Task GetHiddenLocationIdsAsync_WhenRuleIsOnAncestor_HidesWholeSubtree()
+        {
+            // Arrange
+            MockRepository
+                .Setup(r => r.GetByWorkspaceAsync(WorkspaceId, null))
+                .ReturnsAsync(new[]
+                {
+                    new LocationAccessRuleDbModel { LocationId = "office", UserId = null, Access = LocationAccessLevels.None }
+                });
+
+            // Act
+            IReadOnlySet<string> result = await Service.GetHiddenLocationIdsAsync();
+
+            // Assert
+            Assert.Equal(new[] { "desk", "office" }, result.OrderBy(id => id));
+        }
+
+        [Fact]
+        public async Task GetHiddenLocationIdsAsync_WhenUserHasOwnRule_OverridesRuleForEveryoneElse()
+        {
+            // Arrange
+            MockRepository
+                .Setup(r => r.GetByWorkspaceAsync(WorkspaceId, null))
+                .ReturnsAsync(new[]
+                {
+                    new LocationAccessRuleDbModel { LocationId = "office", UserId = null, Access = LocationAccessLevels.None },
+                    new LocationAccessRuleDbModel { LocationId = "office", UserId = UserId, Access = LocationAccessLevels.Write },
+                    new LocationAccessRuleDbModel { LocationId = "garage", UserId = Guid.NewGuid(), Access = LocationAccessLevels.None }
+                });
+
+            // Act
+            IReadOnlySet<string> result = await Service.GetHiddenLocationIdsAsync();
+
+            // Assert
+            Assert.Empty(result);
+        }
+
+        [Fact]
+        public async Task GetHiddenLocationIdsAsync_WhenUserIsWorkspaceAdmin_DoesNotReadRules()
+        {
+            // Arrange
+            MockWorkspaceService
+                .Setup(s => s.GetCurrentWorkspaceRoleAsync())
+                .ReturnsAsync(WorkspaceRoles.Admin);
+
+            // Act
+            IReadOnlySet<string> result = await Service.GetHiddenLocationIdsAsync();
+
+            // Assert
+            Assert.Empty(result);
+            MockRepository.Verify(r => r.GetByWorkspaceAsync(It.IsAny<Guid>(), null), Times.Never);
+        }
+
+        [Fact]
+        public async Task GetLocationIdsHiddenFromEveryoneAsync_WhenUsersHaveOwnRules_OnlyFollowsRulesForEveryoneElse()
+        {
+            // Arrange
+            MockRepository
+                .Setup(r => r.GetByWorkspaceAsync(WorkspaceId, null))
+                .ReturnsAsync(new[]
+                {
+                    new LocationAccessRuleDbModel { LocationId = "house", UserId = null, Access = LocationAccessLevels.None },
+                    new LocationAccessRuleDbModel { LocationId = "house", UserId = UserId, Access = LocationAccessLevels.Write },
+                    new LocationAccessRuleDbModel { LocationId = "desk", UserId = null, Access = LocationAccessLevels.Read },
+                    new LocationAccessRuleDbModel { LocationId = "garage", UserId = UserId, Access = LocationAccessLevels.None }
+                });
+
+            // Act
+            IReadOnlySet<string> result = await Service.GetLocationIdsHiddenFromEveryoneAsync(WorkspaceId);
+
+            // Assert
+            Assert.Equal(new[] { "house", "office" }, result.OrderBy(id => id));
+        }
+
+        [Fact]
+        public async Task EnsureCanWriteAsync_WhenLocationInheritsReadAccess_ThrowsUnauthorizedAccessException()
+        {
+            // Arrange
+            MockRepository
+                .Setup(r => r.GetByWorkspaceAsync(WorkspaceId, null))
+                .ReturnsAsync(new[]
+                {
+                    new LocationAccessRuleDbModel { LocationId = "house", UserId = UserId, Access = LocationAccessLevels.Read }
+                });
+
+            // Act & Assert
+            UnauthorizedAccessException exception = await Assert.ThrowsAsync<UnauthorizedAccessException>(
+                () => Service.EnsureCanWriteAsync(new[] { "garage", "desk" }));
+
+            Assert.Contains("only view location 'desk'", exception.Message);
+            await Service.EnsureCanWriteAsync(new[] { "garage" });
+        }
+
+        [Fact]
+        public async Task SetRulesAsync_WhenUserIsNotAMember_ThrowsArgumentException()
+        {
+            // Arrange
+            Guid memberId = Guid.NewGuid();
+
+            MockLocationRepository
+                .Setup(r => r.ExistsAsync("office", WorkspaceId, null))
+                .ReturnsAsync(true);
+
+            MockWorkspaceRepository
+                .Setup(r => r.GetMembersAsync(WorkspaceId, null))
+                .ReturnsAsync(new[] { new WorkspaceMemberDbModel { UserId = memberId, Username = "member", Role = WorkspaceRoles.Read } });
+
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.SetRulesAsync("office", new (Guid?, string)[] { (memberId, "read"), (Guid.NewGuid(), "none") }));
+
+            Assert.Contains("not a member", exception.Message);
+            MockWorkspaceService.Verify(s => s.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Admin), Times.Once);
+            MockRepository.Verify(r => r.SetRulesAsync(It.IsAny<string>(), It.IsAny<IEnumerable<LocationAccessRuleDbModel>>(), null), Times.Never);
+        }
+    }
+}
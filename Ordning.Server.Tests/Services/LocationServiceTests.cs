@@ -1,8 +1,17 @@
 using EasyReasy.Database;
 using Moq;
+using Ordning.Server.Audit.Models;
+using Ordning.Server.Audit.Services;
+using Ordning.Server.Items.Models;
+using Ordning.Server.Items.Repositories;
 using Ordning.Server.Locations.Models;
 using Ordning.Server.Locations.Repositories;
 using Ordning.Server.Locations.Services;
+using Ordning.Server.Search.Models;
+using Ordning.Server.Tags.Models;
+using Ordning.Server.Tags.Services;
+using Ordning.Server.Workspaces.Models;
+using Ordning.Server.Workspaces.Services;
 
 namespace Ordning.Server.Tests.Services
 {
@@ -12,12 +21,35 @@ namespace Ordning.Server.Tests.Services
     public class LocationServiceTests
     {
         private Mock<ILocationRepository> MockRepository { get; set; } = null!;
+        private Mock<IItemRepository> MockItemRepository { get; set; } = null!;
+        private Mock<IAuditService> MockAuditService { get; set; } = null!;
+        private Mock<ITagService> MockTagService { get; set; } = null!;
+        private Guid WorkspaceId { get; set; } = Guid.NewGuid();
+        private Mock<IWorkspaceService> MockWorkspaceService { get; set; } = null!;
+        private HashSet<string> HiddenLocationIds { get; set; } = new HashSet<string>();
+        private Mock<ILocationAccessService> MockLocationAccessService { get; set; } = null!;
+        private Mock<ILocationAccessRepository> MockLocationAccessRepository { get; set; } = null!;
         private LocationService Service { get; set; } = null!;
 
         public LocationServiceTests()
         {
             MockRepository = new Mock<ILocationRepository>();
-            Service = new LocationService(MockRepository.Object);
+            MockItemRepository = new Mock<IItemRepository>();
+            MockAuditService = new Mock<IAuditService>();
+            MockTagService = new Mock<ITagService>();
+            MockTagService
+                .Setup(s => s.NormalizeTagsAsync(It.IsAny<IEnumerable<string>>()))
+                .ReturnsAsync((IEnumerable<string> tags) => tags.ToList());
+            MockWorkspaceService = new Mock<IWorkspaceService>();
+            MockWorkspaceService
+                .Setup(s => s.GetCurrentWorkspaceIdAsync(It.IsAny<string>()))
+                .ReturnsAsync(WorkspaceId);
+            MockLocationAccessService = new Mock<ILocationAccessService>();
+            MockLocationAccessService
+                .Setup(s => s.GetHiddenLocationIdsAsync())
+                .ReturnsAsync(() => HiddenLocationIds);
+            MockLocationAccessRepository = new Mock<ILocationAccessRepository>();
+            Service = new LocationService(MockRepository.Object, MockItemRepository.Object, MockAuditService.Object, MockTagService.Object, MockWorkspaceService.Object, MockLocationAccessService.Object, MockLocationAccessRepository.Object);
         }
 
         [Fact]
@@ -38,7 +70,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetByIdAsync(id, null))
+                .Setup(r => r.GetByIdAsync(id, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(locationDbModel);
 
             // Act
@@ -51,7 +83,7 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal(locationDbModel.Description, result.Description);
             Assert.Equal(createdAt, result.CreatedAt);
             Assert.Equal(updatedAt, result.UpdatedAt);
-            MockRepository.Verify(r => r.GetByIdAsync(id, null), Times.Once);
+            MockRepository.Verify(r => r.GetByIdAsync(id, It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -61,7 +93,7 @@ namespace Ordning.Server.Tests.Services
             string id = "nonexistent-location";
 
             MockRepository
-                .Setup(r => r.GetByIdAsync(id, null))
+                .Setup(r => r.GetByIdAsync(id, It.IsAny<Guid?>(), null))
                 .ReturnsAsync((LocationDbModel?)null);
 
             // Act
@@ -69,7 +101,7 @@ namespace Ordning.Server.Tests.Services
 
             // Assert
             Assert.Null(result);
-            MockRepository.Verify(r => r.GetByIdAsync(id, null), Times.Once);
+            MockRepository.Verify(r => r.GetByIdAsync(id, It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -84,7 +116,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetAllAsync(null))
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
                 .ReturnsAsync(locationDbModels);
 
             // Act
@@ -92,7 +124,7 @@ namespace Ordning.Server.Tests.Services
 
             // Assert
             Assert.Equal(2, result.Count());
-            MockRepository.Verify(r => r.GetAllAsync(null), Times.Once);
+            MockRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -108,7 +140,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetChildrenAsync(parentId, null))
+                .Setup(r => r.GetChildrenAsync(parentId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(children);
 
             // Act
@@ -116,7 +148,7 @@ namespace Ordning.Server.Tests.Services
 
             // Assert
             Assert.Equal(2, result.Count());
-            MockRepository.Verify(r => r.GetChildrenAsync(parentId, null), Times.Once);
+            MockRepository.Verify(r => r.GetChildrenAsync(parentId, It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -140,11 +172,11 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.ExistsAsync(id, null))
+                .Setup(r => r.ExistsAsync(id, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(false);
 
             MockRepository
-                .Setup(r => r.CreateAsync(id, name, description, null, null))
+                .Setup(r => r.CreateAsync(id, name, description, null, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(createdLocation);
 
             // Act
@@ -156,8 +188,112 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal(description, result.Description);
             Assert.Equal(createdAt, result.CreatedAt);
             Assert.Equal(updatedAt, result.UpdatedAt);
-            MockRepository.Verify(r => r.ExistsAsync(id, null), Times.Once);
-            MockRepository.Verify(r => r.CreateAsync(id, name, description, null, null), Times.Once);
+            MockRepository.Verify(r => r.ExistsAsync(id, It.IsAny<Guid?>(), null), Times.Once);
+            MockRepository.Verify(r => r.CreateAsync(id, name, description, null, It.IsAny<Guid?>(), null), Times.Once);
+        }
+
+        [Fact]
+        public async Task CreateLocationAsync_WhenCalled_ChecksIdInAllWorkspacesAndCreatesInCurrentWorkspace()
+        {
+            // Arrange
+            string id = "G1";
+            LocationDbModel createdLocation = new LocationDbModel { Id = id, Name = "Garage" };
+
+            MockRepository
+                .Setup(r => r.ExistsAsync(id, null, null))
+                .ReturnsAsync(false);
+
+            MockRepository
+                .Setup(r => r.CreateAsync(id, "Garage", null, null, WorkspaceId, null))
+                .ReturnsAsync(createdLocation);
+
+            // Act
+            await Service.CreateLocationAsync(id, "Garage");
+
+            // Assert
+            MockWorkspaceService.Verify(s => s.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write), Times.Once);
+            MockRepository.Verify(r => r.ExistsAsync(id, null, null), Times.Once);
+            MockRepository.Verify(r => r.CreateAsync(id, "Garage", null, null, WorkspaceId, null), Times.Once);
+        }
+
+        [Fact]
+        public async Task CreateLocationAsync_WhenUserCannotWriteInWorkspace_ThrowsUnauthorizedAccessException()
+        {
+            // Arrange
+            MockWorkspaceService
+                .Setup(s => s.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write))
+                .ThrowsAsync(new UnauthorizedAccessException("You need the write role in this workspace."));
+
+            // Act & Assert
+            await Assert.ThrowsAsync<UnauthorizedAccessException>(() => Service.CreateLocationAsync("G1", "Garage"));
+
+            MockRepository.Verify(r => r.CreateAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string?>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task CreateLocationAsync_WhenNoTagsAreGiven_ClearsTagsLeftByDeletedLocation()
+        {
+            // Arrange
+            LocationDbModel createdLocation = new LocationDbModel
+            {
+                Id = "G1",
+                Name = "Garage"
+            };
+
+            MockRepository
+                .Setup(r => r.CreateAsync("G1", "Garage", null, null, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(createdLocation);
+
+            // Act
+            Location result = await Service.CreateLocationAsync("G1", "Garage");
+
+            // Assert
+            Assert.Empty(result.Tags);
+            MockTagService.Verify(s => s.SetTagsAsync(TagOwnerTypes.Location, "G1", It.Is<IEnumerable<string>>(t => !t.Any())), Times.Once);
+        }
+
+        [Fact]
+        public async Task CreateLocationAsync_WhenCalled_ClearsAccessRulesLeftByDeletedLocation()
+        {
+            // Arrange
+            MockRepository
+                .Setup(r => r.CreateAsync("G1", "Garage", null, null, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new LocationDbModel { Id = "G1", Name = "Garage" });
+
+            // Act
+            await Service.CreateLocationAsync("G1", "Garage");
+
+            // Assert
+            MockLocationAccessRepository.Verify(r => r.SetRulesAsync("G1", It.Is<IEnumerable<LocationAccessRuleDbModel>>(rules => !rules.Any()), null), Times.Once);
+        }
+
+        [Fact]
+        public async Task UpdateLocationAsync_WhenTagsAreGiven_SetsNormalizedTags()
+        {
+            // Arrange
+            LocationDbModel existingLocation = new LocationDbModel
+            {
+                Id = "G1",
+                Name = "Garage"
+            };
+
+            MockRepository
+                .Setup(r => r.GetByIdAsync("G1", It.IsAny<Guid?>(), null))
+                .ReturnsAsync(existingLocation);
+
+            MockRepository
+                .Setup(r => r.UpdateAsync("G1", "Garage", null, null, null))
+                .ReturnsAsync(true);
+
+            MockTagService
+                .Setup(s => s.NormalizeTagsAsync(It.IsAny<IEnumerable<string>>()))
+                .ReturnsAsync(new List<string> { "Cold" });
+
+            // Act
+            await Service.UpdateLocationAsync("G1", "Garage", tags: new[] { "cold " });
+
+            // Assert
+            MockTagService.Verify(s => s.SetTagsAsync(TagOwnerTypes.Location, "G1", It.Is<IEnumerable<string>>(t => t.Single() == "Cold")), Times.Once);
         }
 
         [Fact]
@@ -168,7 +304,7 @@ namespace Ordning.Server.Tests.Services
             string name = "Location Name";
 
             MockRepository
-                .Setup(r => r.ExistsAsync(id, null))
+                .Setup(r => r.ExistsAsync(id, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             // Act & Assert
@@ -176,8 +312,8 @@ namespace Ordning.Server.Tests.Services
                 () => Service.CreateLocationAsync(id, name));
 
             Assert.Contains("already exists", exception.Message);
-            MockRepository.Verify(r => r.ExistsAsync(id, null), Times.Once);
-            MockRepository.Verify(r => r.CreateAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string?>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockRepository.Verify(r => r.ExistsAsync(id, It.IsAny<Guid?>(), null), Times.Once);
+            MockRepository.Verify(r => r.CreateAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string?>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
@@ -189,11 +325,11 @@ namespace Ordning.Server.Tests.Services
             string parentId = "nonexistent-parent";
 
             MockRepository
-                .Setup(r => r.ExistsAsync(id, null))
+                .Setup(r => r.ExistsAsync(id, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(false);
 
             MockRepository
-                .Setup(r => r.ExistsAsync(parentId, null))
+                .Setup(r => r.ExistsAsync(parentId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(false);
 
             // Act & Assert
@@ -201,8 +337,8 @@ namespace Ordning.Server.Tests.Services
                 () => Service.CreateLocationAsync(id, name, null, parentId));
 
             Assert.Contains("does not exist", exception.Message);
-            MockRepository.Verify(r => r.ExistsAsync(id, null), Times.Once);
-            MockRepository.Verify(r => r.ExistsAsync(parentId, null), Times.Once);
+            MockRepository.Verify(r => r.ExistsAsync(id, It.IsAny<Guid?>(), null), Times.Once);
+            MockRepository.Verify(r => r.ExistsAsync(parentId, It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -225,20 +361,20 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.ExistsAsync(id, null))
+                .Setup(r => r.ExistsAsync(id, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(false);
 
             MockRepository
-                .Setup(r => r.ExistsAsync(parentId, null))
+                .Setup(r => r.ExistsAsync(parentId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             DateTimeOffset parentTimestamp = DateTimeOffset.UtcNow;
             MockRepository
-                .Setup(r => r.GetByIdAsync(parentId, null))
+                .Setup(r => r.GetByIdAsync(parentId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(new LocationDbModel { Id = parentId, Name = "Parent", Description = null, ParentLocationId = null, CreatedAt = parentTimestamp, UpdatedAt = parentTimestamp });
 
             MockRepository
-                .Setup(r => r.CreateAsync(id, name, null, parentId, null))
+                .Setup(r => r.CreateAsync(id, name, null, parentId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(createdLocation);
 
             // Act
@@ -247,9 +383,9 @@ namespace Ordning.Server.Tests.Services
             // Assert
             Assert.Equal(id, result.Id);
             Assert.Equal(parentId, result.ParentLocationId);
-            MockRepository.Verify(r => r.ExistsAsync(id, null), Times.Once);
-            MockRepository.Verify(r => r.ExistsAsync(parentId, null), Times.Once);
-            MockRepository.Verify(r => r.CreateAsync(id, name, null, parentId, null), Times.Once);
+            MockRepository.Verify(r => r.ExistsAsync(id, It.IsAny<Guid?>(), null), Times.Once);
+            MockRepository.Verify(r => r.ExistsAsync(parentId, It.IsAny<Guid?>(), null), Times.Once);
+            MockRepository.Verify(r => r.CreateAsync(id, name, null, parentId, It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -269,15 +405,15 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.ExistsAsync(id, null))
+                .Setup(r => r.ExistsAsync(id, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(false);
 
             MockRepository
-                .Setup(r => r.ExistsAsync(parentId, null))
+                .Setup(r => r.ExistsAsync(parentId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             MockRepository
-                .Setup(r => r.GetByIdAsync(parentId, null))
+                .Setup(r => r.GetByIdAsync(parentId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(parent);
 
             // Act & Assert
@@ -285,10 +421,10 @@ namespace Ordning.Server.Tests.Services
                 () => Service.CreateLocationAsync(id, name, null, parentId));
 
             Assert.Contains("circular reference", exception.Message);
-            MockRepository.Verify(r => r.ExistsAsync(id, null), Times.Once);
-            MockRepository.Verify(r => r.ExistsAsync(parentId, null), Times.Once);
-            MockRepository.Verify(r => r.GetByIdAsync(parentId, null), Times.Once);
-            MockRepository.Verify(r => r.CreateAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string?>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockRepository.Verify(r => r.ExistsAsync(id, It.IsAny<Guid?>(), null), Times.Once);
+            MockRepository.Verify(r => r.ExistsAsync(parentId, It.IsAny<Guid?>(), null), Times.Once);
+            MockRepository.Verify(r => r.GetByIdAsync(parentId, It.IsAny<Guid?>(), null), Times.Once);
+            MockRepository.Verify(r => r.CreateAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string?>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
@@ -324,7 +460,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetByIdAsync(id, null))
+                .Setup(r => r.GetByIdAsync(id, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(existingLocation);
 
             MockRepository
@@ -332,7 +468,7 @@ namespace Ordning.Server.Tests.Services
                 .ReturnsAsync(true);
 
             MockRepository
-                .Setup(r => r.GetByIdAsync(id, null))
+                .Setup(r => r.GetByIdAsync(id, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(updatedLocation);
 
             // Act
@@ -344,10 +480,103 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal(newDescription, result.Description);
             Assert.Equal(createdAt, result.CreatedAt);
             Assert.Equal(newUpdatedAt, result.UpdatedAt);
-            MockRepository.Verify(r => r.GetByIdAsync(id, null), Times.Exactly(2));
+            MockRepository.Verify(r => r.GetByIdAsync(id, It.IsAny<Guid?>(), null), Times.Exactly(2));
             MockRepository.Verify(r => r.UpdateAsync(id, newName, newDescription, null, null), Times.Once);
         }
 
+        [Fact]
+        public async Task UpdateLocationAsync_WhenParentChanges_RecordsMove()
+        {
+            // Arrange
+            string id = "moving-location";
+            string newParentId = "new-parent";
+
+            LocationDbModel existingLocation = new LocationDbModel { Id = id, Name = "Box", ParentLocationId = "old-parent" };
+            LocationDbModel updatedLocation = new LocationDbModel { Id = id, Name = "Box", ParentLocationId = newParentId };
+
+            MockRepository
+                .SetupSequence(r => r.GetByIdAsync(id, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(existingLocation)
+                .ReturnsAsync(updatedLocation);
+
+            MockRepository
+                .Setup(r => r.GetByIdAsync(newParentId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new LocationDbModel { Id = newParentId, Name = "Shelf" });
+
+            MockRepository
+                .Setup(r => r.ExistsAsync(newParentId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
+
+            MockRepository
+                .Setup(r => r.UpdateAsync(id, "Box", null, newParentId, null))
+                .ReturnsAsync(true);
+
+            // Act
+            await Service.UpdateLocationAsync(id, "Box", null, newParentId);
+
+            // Assert
+            MockAuditService.Verify(a => a.RecordAsync(
+                AuditEntityTypes.Location,
+                id,
+                AuditActions.Move,
+                It.Is<Location>(l => l.ParentLocationId == "old-parent"),
+                It.Is<Location>(l => l.ParentLocationId == newParentId), null), Times.Once);
+        }
+
+        [Fact]
+        public async Task UpdateLocationAsync_WhenNewParentIsReadOnly_ThrowsUnauthorizedAccessExceptionAndDoesNotMove()
+        {
+            // Arrange
+            string id = "moving-location";
+            string newParentId = "read-only-shelf";
+
+            MockRepository
+                .Setup(r => r.GetByIdAsync(id, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new LocationDbModel { Id = id, Name = "Box", ParentLocationId = "old-parent" });
+
+            MockRepository
+                .Setup(r => r.ExistsAsync(newParentId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
+
+            MockLocationAccessService
+                .Setup(s => s.EnsureCanWriteAsync(It.Is<IEnumerable<string>>(ids => ids.Contains(newParentId))))
+                .ThrowsAsync(new UnauthorizedAccessException("read-only"));
+
+            // Act & Assert
+            await Assert.ThrowsAsync<UnauthorizedAccessException>(
+                () => Service.UpdateLocationAsync(id, "Box", null, newParentId));
+
+            MockLocationAccessService.Verify(s => s.EnsureCanWriteAsync(It.Is<IEnumerable<string>>(ids => ids.Single() == id)), Times.Once);
+            MockRepository.Verify(r => r.UpdateAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task UpdateLocationAsync_WhenParentIsUnchanged_RecordsUpdate()
+        {
+            // Arrange
+            string id = "renamed-location";
+
+            MockRepository
+                .SetupSequence(r => r.GetByIdAsync(id, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new LocationDbModel { Id = id, Name = "Old Name" })
+                .ReturnsAsync(new LocationDbModel { Id = id, Name = "New Name" });
+
+            MockRepository
+                .Setup(r => r.UpdateAsync(id, "New Name", null, null, null))
+                .ReturnsAsync(true);
+
+            // Act
+            await Service.UpdateLocationAsync(id, "New Name");
+
+            // Assert
+            MockAuditService.Verify(a => a.RecordAsync(
+                AuditEntityTypes.Location,
+                id,
+                AuditActions.Update,
+                It.Is<Location>(l => l.Name == "Old Name"),
+                It.Is<Location>(l => l.Name == "New Name"), null), Times.Once);
+        }
+
         [Fact]
         public async Task UpdateLocationAsync_WhenLocationDoesNotExist_ThrowsArgumentException()
         {
@@ -356,7 +585,7 @@ namespace Ordning.Server.Tests.Services
             string name = "Location Name";
 
             MockRepository
-                .Setup(r => r.GetByIdAsync(id, null))
+                .Setup(r => r.GetByIdAsync(id, It.IsAny<Guid?>(), null))
                 .ReturnsAsync((LocationDbModel?)null);
 
             // Act & Assert
@@ -364,7 +593,7 @@ namespace Ordning.Server.Tests.Services
                 () => Service.UpdateLocationAsync(id, name));
 
             Assert.Contains("does not exist", exception.Message);
-            MockRepository.Verify(r => r.GetByIdAsync(id, null), Times.Once);
+            MockRepository.Verify(r => r.GetByIdAsync(id, It.IsAny<Guid?>(), null), Times.Once);
             MockRepository.Verify(r => r.UpdateAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
@@ -384,7 +613,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetByIdAsync(id, null))
+                .Setup(r => r.GetByIdAsync(id, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(existingLocation);
 
             // Act & Assert
@@ -392,7 +621,7 @@ namespace Ordning.Server.Tests.Services
                 () => Service.UpdateLocationAsync(id, name, null, id));
 
             Assert.Contains("cannot be its own parent", exception.Message);
-            MockRepository.Verify(r => r.GetByIdAsync(id, null), Times.Once);
+            MockRepository.Verify(r => r.GetByIdAsync(id, It.IsAny<Guid?>(), null), Times.Once);
             MockRepository.Verify(r => r.UpdateAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
@@ -421,15 +650,15 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetByIdAsync(id, null))
+                .Setup(r => r.GetByIdAsync(id, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(existingLocation);
 
             MockRepository
-                .Setup(r => r.ExistsAsync(parentId, null))
+                .Setup(r => r.ExistsAsync(parentId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             MockRepository
-                .Setup(r => r.GetByIdAsync(parentId, null))
+                .Setup(r => r.GetByIdAsync(parentId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(parent);
 
             // Act & Assert
@@ -437,9 +666,9 @@ namespace Ordning.Server.Tests.Services
                 () => Service.UpdateLocationAsync(id, name, null, parentId));
 
             Assert.Contains("circular reference", exception.Message);
-            MockRepository.Verify(r => r.GetByIdAsync(id, null), Times.Once);
-            MockRepository.Verify(r => r.ExistsAsync(parentId, null), Times.Once);
-            MockRepository.Verify(r => r.GetByIdAsync(parentId, null), Times.Once);
+            MockRepository.Verify(r => r.GetByIdAsync(id, It.IsAny<Guid?>(), null), Times.Once);
+            MockRepository.Verify(r => r.ExistsAsync(parentId, It.IsAny<Guid?>(), null), Times.Once);
+            MockRepository.Verify(r => r.GetByIdAsync(parentId, It.IsAny<Guid?>(), null), Times.Once);
             MockRepository.Verify(r => r.UpdateAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
@@ -450,7 +679,7 @@ namespace Ordning.Server.Tests.Services
             string id = "delete-location";
 
             MockRepository
-                .Setup(r => r.DeleteAsync(id, null))
+                .Setup(r => r.DeleteAsync(id, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(true);
 
             // Act
@@ -458,7 +687,33 @@ namespace Ordning.Server.Tests.Services
 
             // Assert
             Assert.True(result);
-            MockRepository.Verify(r => r.DeleteAsync(id, null), Times.Once);
+            MockRepository.Verify(r => r.DeleteAsync(id, It.IsAny<Guid?>(), null), Times.Once);
+        }
+
+        [Fact]
+        public async Task DeleteLocationAsync_WhenLocationExists_RecordsDeleteWithPreviousState()
+        {
+            // Arrange
+            string id = "delete-location";
+
+            MockRepository
+                .Setup(r => r.GetByIdAsync(id, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new LocationDbModel { Id = id, Name = "Old Shelf" });
+
+            MockRepository
+                .Setup(r => r.DeleteAsync(id, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
+
+            // Act
+            await Service.DeleteLocationAsync(id);
+
+            // Assert
+            MockAuditService.Verify(a => a.RecordAsync(
+                AuditEntityTypes.Location,
+                id,
+                AuditActions.Delete,
+                It.Is<Location>(l => l.Name == "Old Shelf"),
+                null, null), Times.Once);
         }
 
         [Fact]
@@ -468,7 +723,7 @@ namespace Ordning.Server.Tests.Services
             string id = "nonexistent-location";
 
             MockRepository
-                .Setup(r => r.DeleteAsync(id, null))
+                .Setup(r => r.DeleteAsync(id, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(false);
 
             // Act
@@ -476,7 +731,158 @@ namespace Ordning.Server.Tests.Services
 
             // Assert
             Assert.False(result);
-            MockRepository.Verify(r => r.DeleteAsync(id, null), Times.Once);
+            MockRepository.Verify(r => r.DeleteAsync(id, It.IsAny<Guid?>(), null), Times.Once);
+        }
+
+        [Fact]
+        public async Task GetDeleteImpactAsync_WhenLocationHasContents_CountsChildrenAndItems()
+        {
+            // Arrange
+            string id = "garage";
+            SetupSubtree(
+                new LocationDbModel { Id = id, Name = "Garage" },
+                new LocationDbModel { Id = "shelf", Name = "Shelf", ParentLocationId = id },
+                new LocationDbModel { Id = "box", Name = "Box", ParentLocationId = "shelf" });
+            SetupItems(CreateItem("shelf"), CreateItem("box"), CreateItem("box"));
+
+            // Act
+            LocationDeleteImpact? result = await Service.GetDeleteImpactAsync(id);
+
+            // Assert
+            Assert.NotNull(result);
+            Assert.Equal(1, result.ChildLocationCount);
+            Assert.Equal(2, result.DescendantLocationCount);
+            Assert.Equal(0, result.ItemCount);
+            Assert.Equal(3, result.TotalItemCount);
+            Assert.False(result.IsEmpty);
+            Assert.Equal(new[] { "shelf" }, result.ChildLocationIds);
+            Assert.Equal(new[] { "shelf", "box" }, result.DescendantLocationIds);
+        }
+
+        [Fact]
+        public async Task GetDeleteImpactAsync_WhenLocationDoesNotExist_ReturnsNull()
+        {
+            // Arrange
+            SetupSubtree();
+
+            // Act
+            LocationDeleteImpact? result = await Service.GetDeleteImpactAsync("missing");
+
+            // Assert
+            Assert.Null(result);
+        }
+
+        [Fact]
+        public async Task DeleteLocationAsync_WhenModeIsUnknown_ThrowsArgumentException()
+        {
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(() => Service.DeleteLocationAsync("garage", "archive"));
+
+            Assert.Contains("Unknown delete mode", exception.Message);
+            MockRepository.Verify(r => r.DeleteAsync(It.IsAny<string>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task DeleteLocationAsync_WhenMoveTargetIsInsideLocation_ThrowsArgumentException()
+        {
+            // Arrange
+            string id = "garage";
+            SetupSubtree(
+                new LocationDbModel { Id = id, Name = "Garage" },
+                new LocationDbModel { Id = "shelf", Name = "Shelf", ParentLocationId = id });
+            SetupItems();
+
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(() => Service.DeleteLocationAsync(id, LocationDeleteModes.Move, "shelf"));
+
+            Assert.Contains("sublocations", exception.Message);
+            MockRepository.Verify(r => r.MoveContentsAndDeleteAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task DeleteLocationAsync_WhenMovingItemsToLocationWithChildren_ThrowsInvalidOperationException()
+        {
+            // Arrange
+            string id = "drawer";
+            string targetId = "cabinet";
+            SetupSubtree(new LocationDbModel { Id = id, Name = "Drawer" });
+            SetupItems(CreateItem(id));
+
+            MockRepository
+                .Setup(r => r.ExistsAsync(targetId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
+
+            MockRepository
+                .Setup(r => r.HasChildrenAsync(targetId, null))
+                .ReturnsAsync(true);
+
+            // Act & Assert
+            await Assert.ThrowsAsync<InvalidOperationException>(() => Service.DeleteLocationAsync(id, LocationDeleteModes.Move, targetId));
+
+            MockRepository.Verify(r => r.MoveContentsAndDeleteAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task DeleteLocationAsync_WhenModeIsMove_MovesContentsAndRecordsChanges()
+        {
+            // Arrange
+            string id = "drawer";
+            string targetId = "other-drawer";
+            ItemDbModel item = CreateItem(id);
+            SetupSubtree(new LocationDbModel { Id = id, Name = "Drawer" });
+            SetupItems(item);
+
+            MockRepository
+                .Setup(r => r.ExistsAsync(targetId, It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
+
+            MockRepository
+                .Setup(r => r.MoveContentsAndDeleteAsync(id, targetId, null))
+                .ReturnsAsync(true);
+
+            MockItemRepository
+                .Setup(r => r.GetByIdsAsync(It.IsAny<IEnumerable<Guid>>(), It.IsAny<Guid?>(), null))
+                .ReturnsAsync(new[] { CreateItem(targetId, item.Id) });
+
+            // Act
+            bool result = await Service.DeleteLocationAsync(id, LocationDeleteModes.Move, targetId);
+
+            // Assert
+            Assert.True(result);
+            MockRepository.Verify(r => r.MoveContentsAndDeleteAsync(id, targetId, null), Times.Once);
+            MockAuditService.Verify(a => a.RecordAsync(
+                AuditEntityTypes.Item,
+                item.Id.ToString(),
+                AuditActions.Move,
+                It.IsAny<object?>(),
+                It.Is<Item>(i => i.LocationId == targetId), null), Times.Once);
+            MockAuditService.Verify(a => a.RecordAsync(AuditEntityTypes.Location, id, AuditActions.Delete, It.IsAny<object?>(), null, null), Times.Once);
+        }
+
+        [Fact]
+        public async Task DeleteLocationAsync_WhenModeIsCascade_DeletesSubtreeAndRecordsEachDeletion()
+        {
+            // Arrange
+            string id = "garage";
+            ItemDbModel item = CreateItem("shelf");
+            SetupSubtree(
+                new LocationDbModel { Id = id, Name = "Garage" },
+                new LocationDbModel { Id = "shelf", Name = "Shelf", ParentLocationId = id });
+            SetupItems(item);
+
+            MockRepository
+                .Setup(r => r.DeleteSubtreeAsync(id, null))
+                .ReturnsAsync(true);
+
+            // Act
+            bool result = await Service.DeleteLocationAsync(id, LocationDeleteModes.Cascade);
+
+            // Assert
+            Assert.True(result);
+            MockRepository.Verify(r => r.DeleteAsync(It.IsAny<string>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockAuditService.Verify(a => a.RecordAsync(AuditEntityTypes.Item, item.Id.ToString(), AuditActions.Delete, It.IsAny<object?>(), null, null), Times.Once);
+            MockAuditService.Verify(a => a.RecordAsync(AuditEntityTypes.Location, id, AuditActions.Delete, It.IsAny<object?>(), null, null), Times.Once);
+            MockAuditService.Verify(a => a.RecordAsync(AuditEntityTypes.Location, "shelf", AuditActions.Delete, It.IsAny<object?>(), null, null), Times.Once);
         }
 
         [Fact]
@@ -495,7 +901,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.SearchAsync(searchTerm, offset, limit, null))
+                .Setup(r => r.SearchAsync(searchTerm, offset, limit, It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null))
                 .ReturnsAsync((locationDbModels, 2));
 
             // Act
@@ -504,7 +910,7 @@ namespace Ordning.Server.Tests.Services
             // Assert
             Assert.Equal(2, results.Count());
             Assert.Equal(2, totalCount);
-            MockRepository.Verify(r => r.SearchAsync(searchTerm, offset, limit, null), Times.Once);
+            MockRepository.Verify(r => r.SearchAsync(searchTerm, offset, limit, It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null), Times.Once);
         }
 
         [Fact]
@@ -519,7 +925,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetAllAsync(null))
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
                 .ReturnsAsync(allLocations);
 
             // Act
@@ -528,8 +934,8 @@ namespace Ordning.Server.Tests.Services
             // Assert
             Assert.Equal(3, totalCount);
             Assert.Equal(3, results.Count());
-            MockRepository.Verify(r => r.GetAllAsync(null), Times.Once);
-            MockRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
+            MockRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
@@ -542,7 +948,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetAllAsync(null))
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
                 .ReturnsAsync(allLocations);
 
             // Act
@@ -551,8 +957,8 @@ namespace Ordning.Server.Tests.Services
             // Assert
             Assert.Equal(1, totalCount);
             Assert.Single(results);
-            MockRepository.Verify(r => r.GetAllAsync(null), Times.Once);
-            MockRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
+            MockRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
@@ -565,7 +971,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetAllAsync(null))
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
                 .ReturnsAsync(allLocations);
 
             // Act
@@ -574,8 +980,8 @@ namespace Ordning.Server.Tests.Services
             // Assert
             Assert.Equal(1, totalCount);
             Assert.Single(results);
-            MockRepository.Verify(r => r.GetAllAsync(null), Times.Once);
-            MockRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
+            MockRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
@@ -589,7 +995,7 @@ namespace Ordning.Server.Tests.Services
             }
 
             MockRepository
-                .Setup(r => r.GetAllAsync(null))
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
                 .ReturnsAsync(allLocations);
 
             // Act
@@ -598,7 +1004,7 @@ namespace Ordning.Server.Tests.Services
             // Assert
             Assert.Equal(10, totalCount);
             Assert.Equal(3, results.Count());
-            MockRepository.Verify(r => r.GetAllAsync(null), Times.Once);
+            MockRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -609,7 +1015,7 @@ namespace Ordning.Server.Tests.Services
                 () => Service.SearchLocationsAsync("test", -1, 20));
 
             Assert.Contains("must be greater than or equal to zero", exception.Message);
-            MockRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
@@ -620,7 +1026,7 @@ namespace Ordning.Server.Tests.Services
                 () => Service.SearchLocationsAsync("test", 0, 0));
 
             Assert.Contains("must be greater than zero", exception.Message);
-            MockRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
@@ -631,7 +1037,7 @@ namespace Ordning.Server.Tests.Services
                 () => Service.SearchLocationsAsync("test", 0, 101));
 
             Assert.Contains("cannot exceed 100", exception.Message);
-            MockRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<IDbSession?>()), Times.Never);
+            MockRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
@@ -649,7 +1055,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.SearchAsync("garage", 0, 20, null))
+                .Setup(r => r.SearchAsync("garage", 0, 20, It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null))
                 .ReturnsAsync((locationDbModels, 2));
 
             // Act
@@ -684,7 +1090,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.SearchAsync("test", 0, 20, null))
+                .Setup(r => r.SearchAsync("test", 0, 20, It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null))
                 .ReturnsAsync((new[] { locationDbModel }, 1));
 
             // Act
@@ -705,7 +1111,7 @@ namespace Ordning.Server.Tests.Services
         {
             // Arrange
             MockRepository
-                .Setup(r => r.GetAllAsync(null))
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
                 .ReturnsAsync(Array.Empty<LocationDbModel>());
 
             // Act
@@ -713,7 +1119,7 @@ namespace Ordning.Server.Tests.Services
 
             // Assert
             Assert.Empty(result);
-            MockRepository.Verify(r => r.GetAllAsync(null), Times.Once);
+            MockRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -732,7 +1138,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetAllAsync(null))
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
                 .ReturnsAsync(new[] { location });
 
             // Act
@@ -744,7 +1150,7 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal("root-1", nodes[0].Location.Id);
             Assert.Equal("Root Location", nodes[0].Location.Name);
             Assert.Empty(nodes[0].Children);
-            MockRepository.Verify(r => r.GetAllAsync(null), Times.Once);
+            MockRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -760,7 +1166,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetAllAsync(null))
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
                 .ReturnsAsync(locations);
 
             // Act
@@ -773,7 +1179,7 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal("Root 2", nodes[1].Location.Name);
             Assert.Equal("Root 3", nodes[2].Location.Name);
             Assert.All(nodes, n => Assert.Empty(n.Children));
-            MockRepository.Verify(r => r.GetAllAsync(null), Times.Once);
+            MockRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -788,7 +1194,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetAllAsync(null))
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
                 .ReturnsAsync(locations);
 
             // Act
@@ -802,7 +1208,7 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal("child-1", nodes[0].Children[0].Location.Id);
             Assert.Equal("parent-1", nodes[0].Children[0].Location.ParentLocationId);
             Assert.Empty(nodes[0].Children[0].Children);
-            MockRepository.Verify(r => r.GetAllAsync(null), Times.Once);
+            MockRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -819,7 +1225,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetAllAsync(null))
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
                 .ReturnsAsync(locations);
 
             // Act
@@ -832,7 +1238,7 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal("Child 1", nodes[0].Children[0].Location.Name);
             Assert.Equal("Child 2", nodes[0].Children[1].Location.Name);
             Assert.Equal("Child 3", nodes[0].Children[2].Location.Name);
-            MockRepository.Verify(r => r.GetAllAsync(null), Times.Once);
+            MockRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -849,7 +1255,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetAllAsync(null))
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
                 .ReturnsAsync(locations);
 
             // Act
@@ -865,7 +1271,7 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal("level2", nodes[0].Children[0].Children[0].Location.Id);
             Assert.Single(nodes[0].Children[0].Children[0].Children);
             Assert.Equal("level3", nodes[0].Children[0].Children[0].Children[0].Location.Id);
-            MockRepository.Verify(r => r.GetAllAsync(null), Times.Once);
+            MockRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -880,7 +1286,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetAllAsync(null))
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
                 .ReturnsAsync(locations);
 
             // Act
@@ -891,7 +1297,36 @@ namespace Ordning.Server.Tests.Services
             Assert.Single(nodes);
             Assert.Equal("root", nodes[0].Location.Id);
             Assert.Empty(nodes[0].Children);
-            MockRepository.Verify(r => r.GetAllAsync(null), Times.Once);
+            MockRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
+        }
+
+        [Fact]
+        public async Task GetLocationTreeAsync_WhenLocationIsHidden_ShowsVisibleChildrenAsRoots()
+        {
+            // Arrange
+            DateTimeOffset timestamp = DateTimeOffset.UtcNow;
+            IEnumerable<LocationDbModel> locations = new[]
+            {
+                new LocationDbModel { Id = "workshop", Name = "Workshop", Description = null, ParentLocationId = null, CreatedAt = timestamp, UpdatedAt = timestamp },
+                new LocationDbModel { Id = "toolbox", Name = "Toolbox", Description = null, ParentLocationId = "workshop", CreatedAt = timestamp, UpdatedAt = timestamp },
+                new LocationDbModel { Id = "shared-shelf", Name = "Shared Shelf", Description = null, ParentLocationId = "workshop", CreatedAt = timestamp, UpdatedAt = timestamp },
+                new LocationDbModel { Id = "pantry", Name = "Pantry", Description = null, ParentLocationId = null, CreatedAt = timestamp, UpdatedAt = timestamp }
+            };
+
+            MockRepository
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
+                .ReturnsAsync(locations);
+
+            HiddenLocationIds.Add("workshop");
+            HiddenLocationIds.Add("toolbox");
+
+            // Act
+            IEnumerable<LocationTreeNode> result = await Service.GetLocationTreeAsync();
+
+            // Assert
+            List<LocationTreeNode> nodes = result.ToList();
+            Assert.Equal(new[] { "pantry", "shared-shelf" }, nodes.Select(n => n.Location.Id));
+            Assert.All(nodes, n => Assert.Empty(n.Children));
         }
 
         [Fact]
@@ -910,7 +1345,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetAllAsync(null))
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), null))
                 .ReturnsAsync(locations);
 
             // Act
@@ -932,7 +1367,7 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal("Child 2-1", root2.Children[0].Location.Name);
             Assert.Empty(root2.Children[0].Children);
 
-            MockRepository.Verify(r => r.GetAllAsync(null), Times.Once);
+            MockRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -952,7 +1387,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetFullPathAsync(childId, null))
+                .Setup(r => r.GetFullPathAsync(childId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(path);
 
             // Act
@@ -967,7 +1402,7 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal("Parent", resultList[1].Name);
             Assert.Equal(childId, resultList[2].Id);
             Assert.Equal("Child", resultList[2].Name);
-            MockRepository.Verify(r => r.GetFullPathAsync(childId, null), Times.Once);
+            MockRepository.Verify(r => r.GetFullPathAsync(childId, It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -982,7 +1417,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetFullPathAsync(rootId, null))
+                .Setup(r => r.GetFullPathAsync(rootId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(path);
 
             // Act
@@ -994,7 +1429,7 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal(rootId, resultList[0].Id);
             Assert.Equal("Root", resultList[0].Name);
             Assert.Null(resultList[0].ParentLocationId);
-            MockRepository.Verify(r => r.GetFullPathAsync(rootId, null), Times.Once);
+            MockRepository.Verify(r => r.GetFullPathAsync(rootId, It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -1004,7 +1439,7 @@ namespace Ordning.Server.Tests.Services
             string nonExistentId = "nonexistent-location";
 
             MockRepository
-                .Setup(r => r.GetFullPathAsync(nonExistentId, null))
+                .Setup(r => r.GetFullPathAsync(nonExistentId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(Array.Empty<LocationDbModel>());
 
             // Act
@@ -1012,7 +1447,7 @@ namespace Ordning.Server.Tests.Services
 
             // Assert
             Assert.Empty(result);
-            MockRepository.Verify(r => r.GetFullPathAsync(nonExistentId, null), Times.Once);
+            MockRepository.Verify(r => r.GetFullPathAsync(nonExistentId, It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -1030,7 +1465,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetFullPathAsync(childId, null))
+                .Setup(r => r.GetFullPathAsync(childId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(path);
 
             // Act
@@ -1042,7 +1477,7 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal(parentId, resultList[0].Id);
             Assert.Equal(childId, resultList[1].Id);
             Assert.Equal(parentId, resultList[1].ParentLocationId);
-            MockRepository.Verify(r => r.GetFullPathAsync(childId, null), Times.Once);
+            MockRepository.Verify(r => r.GetFullPathAsync(childId, It.IsAny<Guid?>(), null), Times.Once);
         }
 
         [Fact]
@@ -1065,7 +1500,7 @@ namespace Ordning.Server.Tests.Services
             };
 
             MockRepository
-                .Setup(r => r.GetFullPathAsync(locationId, null))
+                .Setup(r => r.GetFullPathAsync(locationId, It.IsAny<Guid?>(), null))
                 .ReturnsAsync(path);
 
             // Act
@@ -1080,5 +1515,141 @@ namespace Ordning.Server.Tests.Services
             Assert.Equal(timestamp, location.CreatedAt);
             Assert.Equal(timestamp, location.UpdatedAt);
         }
+
+        [Fact]
+        public async Task SearchLocationsAsync_WhenSearchTermUsesQuerySyntax_CallsQuerySearch()
+        {
+            // Arrange
+            MockRepository
+                .Setup(r => r.SearchAsync(It.IsAny<SearchQuery>(), 0, 20, It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null))
+                .ReturnsAsync((Enumerable.Empty<LocationDbModel>(), 0));
+
+            // Act
+            await Service.SearchLocationsAsync("in:G1 shelf", 0, 20);
+
+            // Assert
+            MockRepository.Verify(r => r.SearchAsync(It.Is<SearchQuery>(q => q.Text == "shelf" && q.Filters.Single().Key == "in"), 0, 20, It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null), Times.Once);
+            MockRepository.Verify(r => r.SearchAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task SearchLocationsAsync_WhenQueryHasPropertyFilter_ThrowsArgumentException()
+        {
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.SearchLocationsAsync("color:red", 0, 20));
+
+            Assert.Contains("cannot be filtered by 'color:'", exception.Message);
+            MockRepository.Verify(r => r.SearchAsync(It.IsAny<SearchQuery>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task RestoreLocationsAsync_WhenChildIsListedFirst_RestoresParentBeforeChild()
+        {
+            // Arrange
+            MockRepository
+                .Setup(r => r.ExistsAsync(It.IsAny<string>(), It.IsAny<Guid?>(), null))
+                .ReturnsAsync(false);
+
+            MockAuditService
+                .Setup(a => a.GetDeletedSnapshotAsync<Location>(AuditEntityTypes.Location, "shelf"))
+                .ReturnsAsync(new Location(id: "shelf", name: "Shelf", parentLocationId: "garage"));
+
+            MockAuditService
+                .Setup(a => a.GetDeletedSnapshotAsync<Location>(AuditEntityTypes.Location, "garage"))
+                .ReturnsAsync(new Location(id: "garage", name: "Garage"));
+
+            List<string> createdIds = new List<string>();
+            MockRepository
+                .Setup(r => r.CreateAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string?>(), It.IsAny<Guid?>(), null))
+                .Callback<string, string, string?, string?, Guid?, IDbSession?>((id, name, description, parentLocationId, workspaceId, session) => createdIds.Add(id))
+                .ReturnsAsync((string id, string name, string? description, string? parentLocationId, Guid? workspaceId, IDbSession? session) =>
+                    new LocationDbModel { Id = id, Name = name, Description = description, ParentLocationId = parentLocationId });
+
+            // Act
+            List<Location> result = (await Service.RestoreLocationsAsync(new[] { "shelf", "garage" })).ToList();
+
+            // Assert
+            Assert.Equal(new[] { "garage", "shelf" }, createdIds);
+            Assert.Equal("garage", result[1].ParentLocationId);
+            MockAuditService.Verify(a => a.RecordAsync(AuditEntityTypes.Location, It.IsAny<string>(), AuditActions.Create, null, It.IsAny<Location>(), null), Times.Exactly(2));
+        }
+
+        [Fact]
+        public async Task RestoreLocationsAsync_WhenLocationIsRestored_KeepsItsAccessRules()
+        {
+            // Arrange
+            MockRepository
+                .Setup(r => r.ExistsAsync("safe", It.IsAny<Guid?>(), null))
+                .ReturnsAsync(false);
+
+            MockAuditService
+                .Setup(a => a.GetDeletedSnapshotAsync<Location>(AuditEntityTypes.Location, "safe"))
+                .ReturnsAsync(new Location(id: "safe", name: "Safe"));
+
+            MockRepository
+                .Setup(r => r.CreateAsync("safe", "Safe", null, null, WorkspaceId, null))
+                .ReturnsAsync(new LocationDbModel { Id = "safe", Name = "Safe" });
+
+            // Act
+            await Service.RestoreLocationsAsync(new[] { "safe" });
+
+            // Assert
+            MockLocationAccessRepository.Verify(r => r.SetRulesAsync(It.IsAny<string>(), It.IsAny<IEnumerable<LocationAccessRuleDbModel>>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task RestoreLocationsAsync_WhenParentNoLongerExists_ThrowsInvalidOperationException()
+        {
+            // Arrange
+            MockRepository
+                .Setup(r => r.ExistsAsync(It.IsAny<string>(), It.IsAny<Guid?>(), null))
+                .ReturnsAsync(false);
+
+            MockAuditService
+                .Setup(a => a.GetDeletedSnapshotAsync<Location>(AuditEntityTypes.Location, "shelf"))
+                .ReturnsAsync(new Location(id: "shelf", name: "Shelf", parentLocationId: "garage"));
+
+            // Act & Assert
+            InvalidOperationException exception = await Assert.ThrowsAsync<InvalidOperationException>(
+                () => Service.RestoreLocationsAsync(new[] { "shelf" }));
+
+            Assert.Contains("parent location 'garage' no longer exists", exception.Message);
+            MockRepository.Verify(r => r.CreateAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<string?>(), It.IsAny<Guid?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task RestoreLocationsAsync_WhenLocationExists_ThrowsInvalidOperationException()
+        {
+            // Arrange
+            MockRepository
+                .Setup(r => r.ExistsAsync("garage", It.IsAny<Guid?>(), null))
+                .ReturnsAsync(true);
+
+            // Act & Assert
+            InvalidOperationException exception = await Assert.ThrowsAsync<InvalidOperationException>(
+                () => Service.RestoreLocationsAsync(new[] { "garage" }));
+
+            Assert.Contains("already exists", exception.Message);
+        }
+
+        private void SetupSubtree(params LocationDbModel[] subtree)
+        {
+            MockRepository
+                .Setup(r => r.GetSubtreeAsync(It.IsAny<string>(), It.IsAny<Guid?>(), null))
+                .ReturnsAsync(subtree);
+        }
+
+        private void SetupItems(params ItemDbModel[] items)
+        {
+            MockItemRepository
+                .Setup(r => r.GetByLocationIdsAsync(It.IsAny<IEnumerable<string>>(), null))
+                .ReturnsAsync(items);
+        }
+
+        private static ItemDbModel CreateItem(string locationId, Guid? id = null)
+        {
+            return new ItemDbModel { Id = id ?? Guid.NewGuid(), Name = "Item", LocationId = locationId, PropertiesJson = "{}" };
+        }
     }
 }
@@ -0,0 +1,117 @@
+using EasyReasy.Database;
+using Fido2NetLib;
+using Microsoft.Extensions.Caching.Memory;
+using Moq;
+using Ordning.Server.Passkeys.Models;
+using Ordning.Server.Passkeys.Repositories;
+using Ordning.Server.Passkeys.Services;
+using Ordning.Server.Sessions.Models;
+using Ordning.Server.Sessions.Services;
+using Ordning.Server.Users.Models;
+using Ordning.Server.Users.Services;
+using Ordning.Server.Workspaces.Services;
+
+namespace Ordning.Server.Tests.Services
+{
+    /// <summary>
+    /// Unit tests for PasskeyService.
+    /// </summary>
+    public class PasskeyServiceTests
+    {
+        private Mock<IPasskeyRepository> MockRepository { get; set; } = null!;
+        private Mock<IUserService> MockUserService { get; set; } = null!;
+        private Mock<ISessionService> MockSessionService { get; set; } = null!;
+        private Mock<IWorkspaceService> MockWorkspaceService { get; set; } = null!;
+        private Guid UserId { get; set; } = Guid.NewGuid();
+        private PasskeyService Service { get; set; } = null!;
+
+        public PasskeyServiceTests()
+        {
+            MockRepository = new Mock<IPasskeyRepository>();
+            MockUserService = new Mock<IUserService>();
+            MockUserService
+                .Setup(s => s.GetUserByIdAsync(UserId.ToString()))
+                .ReturnsAsync(new User(UserId.ToString(), "anna", "anna@example.com"));
+            MockSessionService = new Mock<ISessionService>();
+            MockWorkspaceService = new Mock<IWorkspaceService>();
+            MockWorkspaceService
+                .Setup(s => s.GetCurrentUserId())
+                .Returns(UserId);
+
+            Fido2 fido2 = new Fido2(new Fido2Configuration
+            {
+                ServerDomain = "localhost",
+                ServerName = "Ordning",
+                Origins = new HashSet<string> { "https://localhost" },
+            });
+            Service = new PasskeyService(MockRepository.Object, fido2, new MemoryCache(new MemoryCacheOptions()), MockUserService.Object, MockSessionService.Object, MockWorkspaceService.Object);
+        }
+
+        [Fact]
+        public async Task StartRegistrationAsync_WhenUserHasPasskeys_ExcludesThem()
+        {
+            // Arrange
+            byte[] existingCredentialId = new byte[] { 1, 2, 3, 4 };
+            MockRepository
+                .Setup(r => r.GetByUserAsync(UserId, null))
+                .ReturnsAsync(new List<PasskeyDbModel> { new PasskeyDbModel { Id = Guid.NewGuid(), UserId = UserId, CredentialId = existingCredentialId, Name = "Phone" } });
+
+            // Act
+            PasskeyRegistrationOptions result = await Service.StartRegistrationAsync();
+
+            // Assert
+            Assert.False(string.IsNullOrEmpty(result.CeremonyId));
+            Assert.Equal(UserId.ToByteArray(), result.Options.User.Id);
+            Assert.Equal("anna", result.Options.User.Name);
+            Assert.Contains(result.Options.ExcludeCredentials, c => c.Id.SequenceEqual(existingCredentialId));
+        }
+
+        [Fact]
+        public async Task CompleteRegistrationAsync_WhenAnotherUserStartedIt_ThrowsUnauthorizedAccessException()
+        {
+            // Arrange
+            MockRepository
+                .Setup(r => r.GetByUserAsync(UserId, null))
+                .ReturnsAsync(new List<PasskeyDbModel>());
+            PasskeyRegistrationOptions started = await Service.StartRegistrationAsync();
+            MockWorkspaceService
+                .Setup(s => s.GetCurrentUserId())
+                .Returns(Guid.NewGuid());
+
+            // Act & Assert
+            await Assert.ThrowsAsync<UnauthorizedAccessException>(
+                () => Service.CompleteRegistrationAsync(started.CeremonyId, "Phone", new AuthenticatorAttestationRawResponse()));
+            MockRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<byte[]>(), It.IsAny<byte[]>(), It.IsAny<long>(), It.IsAny<string>(), null), Times.Never);
+        }
+
+        [Fact]
+        public async Task CompleteRegistrationAsync_WhenCeremonyIsUnknown_ThrowsInvalidOperationException()
+        {
+            // Act & Assert
+            await Assert.ThrowsAsync<InvalidOperationException>(
+                () => Service.CompleteRegistrationAsync("unknown", "Phone", new AuthenticatorAttestationRawResponse()));
+        }
+
+        [Fact]
+        public async Task CompleteLoginAsync_WhenCredentialIsNotRegistered_ReturnsNullAndUsesUpCeremony()
+        {
+            // Arrange
+            byte[] credentialId = new byte[] { 9, 8, 7 };
+            MockRepository
+                .Setup(r => r.GetByCredentialIdAsync(credentialId, null))
+                .ReturnsAsync((PasskeyDbModel?)null);
+            PasskeyLoginOptions started = Service.StartLogin();
+            AuthenticatorAssertionRawResponse credential = new AuthenticatorAssertionRawResponse { Id = credentialId, RawId = credentialId };
+
+            // Act
+            SessionTokens? first = await Service.CompleteLoginAsync(started.CeremonyId, credential);
+            SessionTokens? second = await Service.CompleteLoginAsync(started.CeremonyId, credential);
+
+            // Assert
+            Assert.Null(first);
+            Assert.Null(second);
+            MockRepository.Verify(r => r.GetByCredentialIdAsync(credentialId, null), Times.Once);
+            MockSessionService.Verify(s => s.StartSessionAsync(It.IsAny<User>()), Times.Never);
+        }
+    }
+}
@@ -0,0 +1,121 @@
+using EasyReasy.Database;
+using Moq;
+using Ordning.Server.PropertyDefinitions.Models;
+using Ordning.Server.PropertyDefinitions.Repositories;
+using Ordning.Server.PropertyDefinitions.Services;
+
+namespace Ordning.Server.Tests.Services
+{
+    /// <summary>
+    /// Unit tests for PropertyDefinitionService.
+    /// </summary>
+    public class PropertyDefinitionServiceTests
+    {
+        private Mock<IPropertyDefinitionRepository> MockRepository { get; set; } = null!;
+        private PropertyDefinitionService Service { get; set; } = null!;
+
+        public PropertyDefinitionServiceTests()
+        {
+            MockRepository = new Mock<IPropertyDefinitionRepository>();
+            Service = new PropertyDefinitionService(MockRepository.Object);
+        }
+
+        [Fact]
+        public async Task CreatePropertyDefinitionAsync_WhenValid_TrimsValuesAndRemovesDuplicateOptions()
+        {
+            // Arrange
+            MockRepository
+                .Setup(r => r.CreateAsync("condition", "Condition", PropertyTypes.Enum, null, true, It.IsAny<IEnumerable<string>?>(), null))
+                .ReturnsAsync(new PropertyDefinitionDbModel { Key = "condition", Name = "Condition", Type = PropertyTypes.Enum, IsRequired = true, OptionsJson = "[\"New\",\"Used\"]" });
+
+            // Act
+            PropertyDefinition result = await Service.CreatePropertyDefinitionAsync(
+                key: " condition ",
+                name: " Condition ",
+                type: "Enum",
+                isRequired: true,
+                options: new[] { "New", " Used ", "new", "" });
+
+            // Assert
+            Assert.Equal("condition", result.Key);
+            Assert.Equal(new[] { "New", "Used" }, result.Options);
+            MockRepository.Verify(r => r.CreateAsync(
+                "condition",
+                "Condition",
+                PropertyTypes.Enum,
+                null,
+                true,
+                It.Is<IEnumerable<string>?>(options => options != null && options.SequenceEqual(new[] { "New", "Used" })),
+                null), Times.Once);
+        }
+
+        [Fact]
+        public async Task CreatePropertyDefinitionAsync_WhenKeyExistsInOtherCase_ThrowsArgumentException()
+        {
+            // Arrange
+            MockRepository
+                .Setup(r => r.GetByKeyAsync("Color", null))
+                .ReturnsAsync(new PropertyDefinitionDbModel { Key = "color", Name = "Color", Type = PropertyTypes.Text });
+
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.CreatePropertyDefinitionAsync("Color", "Color", PropertyTypes.Text));
+
+            Assert.Contains("'color' already exists", exception.Message);
+            MockRepository.Verify(r => r.CreateAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<bool>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Theory]
+        [InlineData(PropertyTypes.Enum, null, null)]
+        [InlineData(PropertyTypes.Text, "kg", null)]
+        [InlineData(PropertyTypes.Number, null, "Small")]
+        [InlineData("colour", null, null)]
+        public async Task CreatePropertyDefinitionAsync_WhenTypeDoesNotFitUnitOrOptions_ThrowsArgumentException(string type, string? unit, string? option)
+        {
+            // Act & Assert
+            await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.CreatePropertyDefinitionAsync("size", "Size", type, unit, options: option == null ? null : new[] { option }));
+
+            MockRepository.Verify(r => r.CreateAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<bool>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task UpdatePropertyDefinitionAsync_WhenKeyDiffersInCase_UpdatesDefinedKey()
+        {
+            // Arrange
+            PropertyDefinitionDbModel existing = new PropertyDefinitionDbModel { Key = "weight", Name = "Weight", Type = PropertyTypes.Text };
+            PropertyDefinitionDbModel updated = new PropertyDefinitionDbModel { Key = "weight", Name = "Weight", Type = PropertyTypes.Number, Unit = "kg" };
+
+            MockRepository
+                .Setup(r => r.GetByKeyAsync("WEIGHT", null))
+                .ReturnsAsync(existing);
+
+            MockRepository
+                .Setup(r => r.UpdateAsync("weight", "Weight", PropertyTypes.Number, "kg", false, It.IsAny<IEnumerable<string>?>(), null))
+                .ReturnsAsync(true);
+
+            MockRepository
+                .Setup(r => r.GetByKeyAsync("weight", null))
+                .ReturnsAsync(updated);
+
+            // Act
+            PropertyDefinition result = await Service.UpdatePropertyDefinitionAsync("WEIGHT", "Weight", PropertyTypes.Number, "kg");
+
+            // Assert
+            Assert.Equal(PropertyTypes.Number, result.Type);
+            Assert.Equal("kg", result.Unit);
+            MockRepository.Verify(r => r.UpdateAsync("weight", "Weight", PropertyTypes.Number, "kg", false, It.IsAny<IEnumerable<string>?>(), null), Times.Once);
+        }
+
+        [Fact]
+        public async Task DeletePropertyDefinitionAsync_WhenDefinitionDoesNotExist_ReturnsFalse()
+        {
+            // Act
+            bool result = await Service.DeletePropertyDefinitionAsync("missing");
+
+            // Assert
+            Assert.False(result);
+            MockRepository.Verify(r => r.DeleteAsync(It.IsAny<string>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+    }
+}
@@ -0,0 +1,140 @@
+using EasyReasy.Database;
+using Moq;
+using Ordning.Server.Auth;
+using Ordning.Server.Sessions.Models;
+using Ordning.Server.Sessions.Repositories;
+using Ordning.Server.Sessions.Services;
+using Ordning.Server.Users.Models;
+using Ordning.Server.Users.Services;
+
+namespace Ordning.Server.Tests.Services
+{
+    /// <summary>
+    /// Unit tests for SessionService.
+    /// </summary>
+    public class SessionServiceTests
+    {
+        private Mock<IRefreshTokenRepository> MockRepository { get; set; } = null!;
+        private Mock<IUserService> MockUserService { get; set; } = null!;
+        private Mock<IAccessTokenIssuer> MockAccessTokenIssuer { get; set; } = null!;
+        private User User { get; set; } = new User(Guid.NewGuid().ToString(), "anna", "anna@example.com");
+        private SessionService Service { get; set; } = null!;
+
+        public SessionServiceTests()
+        {
+            MockRepository = new Mock<IRefreshTokenRepository>();
+            MockRepository
+                .Setup(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<DateTimeOffset>(), null))
+                .ReturnsAsync((Guid id, Guid userId, Guid familyId, string tokenHash, DateTimeOffset expiresAt, IDbSession? session) =>
+                    new RefreshTokenDbModel { Id = id, UserId = userId, FamilyId = familyId, TokenHash = tokenHash, ExpiresAt = expiresAt });
+            MockUserService = new Mock<IUserService>();
+            MockAccessTokenIssuer = new Mock<IAccessTokenIssuer>();
+            MockAccessTokenIssuer
+                .Setup(i => i.IssueToken(It.IsAny<User>()))
+                .Returns(("access-token", DateTimeOffset.UtcNow.AddHours(1)));
+            Service = new SessionService(MockRepository.Object, MockUserService.Object, MockAccessTokenIssuer.Object);
+        }
+
+        [Fact]
+        public async Task CreateSessionAsync_WhenCredentialsAreValid_StoresOnlyHashOfRefreshToken()
+        {
+            // Arrange
+            MockUserService
+                .Setup(s => s.ValidateCredentialsAsync("anna", "secret"))
+                .ReturnsAsync(User);
+
+            // Act
+            SessionTokens? result = await Service.CreateSessionAsync("anna", "secret");
+
+            // Assert
+            Assert.NotNull(result);
+            Assert.Equal("access-token", result.Token);
+            Assert.False(string.IsNullOrEmpty(result.RefreshToken));
+            MockRepository.Verify(r => r.CreateAsync(
+                It.IsAny<Guid>(),
+                Guid.Parse(User.Id),
+                It.IsAny<Guid>(),
+                It.Is<string>(hash => hash.Length == 64 && hash != result.RefreshToken),
+                result.RefreshTokenExpiresAt,
+                null), Times.Once);
+        }
+
+        [Fact]
+        public async Task CreateSessionAsync_WhenCredentialsAreInvalid_ReturnsNull()
+        {
+            // Arrange
+            MockUserService
+                .Setup(s => s.ValidateCredentialsAsync("anna", "wrong"))
+                .ReturnsAsync((User?)null);
+
+            // Act
+            SessionTokens? result = await Service.CreateSessionAsync("anna", "wrong");
+
+            // Assert
+            Assert.Null(result);
+            MockRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<DateTimeOffset>(), null), Times.Never);
+        }
+
+        [Fact]
+        public async Task RefreshSessionAsync_WhenTokenIsUnused_RotatesTokenInSameFamily()
+        {
+            // Arrange
+            Guid familyId = Guid.NewGuid();
+            RefreshTokenDbModel stored = new RefreshTokenDbModel { Id = Guid.NewGuid(), UserId = Guid.Parse(User.Id), FamilyId = familyId, ExpiresAt = DateTimeOffset.UtcNow.AddDays(1) };
+            MockRepository
+                .Setup(r => r.GetByTokenHashAsync(It.IsAny<string>(), null))
+                .ReturnsAsync(stored);
+            MockRepository
+                .Setup(r => r.MarkUsedAsync(stored.Id, null))
+                .ReturnsAsync(true);
+            MockUserService
+                .Setup(s => s.GetUserByIdAsync(User.Id))
+                .ReturnsAsync(User);
+
+            // Act
+            SessionTokens? result = await Service.RefreshSessionAsync("old-refresh-token");
+
+            // Assert
+            Assert.NotNull(result);
+            Assert.NotEqual("old-refresh-token", result.RefreshToken);
+            MockRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), stored.UserId, familyId, It.IsAny<string>(), It.IsAny<DateTimeOffset>(), null), Times.Once);
+            MockRepository.Verify(r => r.RevokeFamilyAsync(It.IsAny<Guid>(), null), Times.Never);
+        }
+
+        [Fact]
+        public async Task RefreshSessionAsync_WhenTokenHasAlreadyBeenUsed_RevokesFamilyAndReturnsNull()
+        {
+            // Arrange
+            Guid familyId = Guid.NewGuid();
+            RefreshTokenDbModel stored = new RefreshTokenDbModel { Id = Guid.NewGuid(), UserId = Guid.Parse(User.Id), FamilyId = familyId, ExpiresAt = DateTimeOffset.UtcNow.AddDays(1), UsedAt = DateTimeOffset.UtcNow.AddMinutes(-5) };
+            MockRepository
+                .Setup(r => r.GetByTokenHashAsync(It.IsAny<string>(), null))
+                .ReturnsAsync(stored);
+
+            // Act
+            SessionTokens? result = await Service.RefreshSessionAsync("stolen-refresh-token");
+
+            // Assert
+            Assert.Null(result);
+            MockRepository.Verify(r => r.RevokeFamilyAsync(familyId, null), Times.Once);
+            MockRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<DateTimeOffset>(), null), Times.Never);
+        }
+
+        [Fact]
+        public async Task RefreshSessionAsync_WhenTokenHasExpired_ReturnsNullWithoutUsingIt()
+        {
+            // Arrange
+            RefreshTokenDbModel stored = new RefreshTokenDbModel { Id = Guid.NewGuid(), UserId = Guid.Parse(User.Id), FamilyId = Guid.NewGuid(), ExpiresAt = DateTimeOffset.UtcNow.AddMinutes(-1) };
+            MockRepository
+                .Setup(r => r.GetByTokenHashAsync(It.IsAny<string>(), null))
+                .ReturnsAsync(stored);
+
+            // Act
+            SessionTokens? result = await Service.RefreshSessionAsync("expired-refresh-token");
+
+            // Assert
+            Assert.Null(result);
+            MockRepository.Verify(r => r.MarkUsedAsync(It.IsAny<Guid>(), null), Times.Never);
+        }
+    }
+}
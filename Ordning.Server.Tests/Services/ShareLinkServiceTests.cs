@@ -0,0 +1,229 @@
+using EasyReasy.Database;
+using Moq;
+using Ordning.Server.Items.Repositories;
+using Ordning.Server.Locations.Repositories;
+using Ordning.Server.Locations.Services;
+using Ordning.Server.Shares.Models;
+using Ordning.Server.Shares.Repositories;
+using Ordning.Server.Shares.Services;
+using Ordning.Server.Workspaces.Models;
+using Ordning.Server.Workspaces.Services;
+
+namespace Ordning.Server.Tests.Services
+{
+    /// <summary>
+    /// Unit tests for ShareLinkService.
+    /// </summary>
+    public class ShareLinkServiceTests
+    {
+        private Mock<IShareLinkRepository> MockRepository { get; set; } = null!;
+        private ShareTokenSigner Signer { get; set; } = new ShareTokenSigner("a-test-secret-that-is-at-least-32-characters");
+        private Mock<ILocationRepository> MockLocationRepository { get; set; } = null!;
+        private Mock<IItemRepository> MockItemRepository { get; set; } = null!;
+        private Guid WorkspaceId { get; set; } = Guid.NewGuid();
+        private Mock<IWorkspaceService> MockWorkspaceService { get; set; } = null!;
+        private HashSet<string> HiddenLocationIds { get; set; } = new HashSet<string>();
+        private Mock<ILocationAccessService> MockLocationAccessService { get; set; } = null!;
+        private ShareLinkService Service { get; set; } = null!;
+
+        public ShareLinkServiceTests()
+        {
+            MockRepository = new Mock<IShareLinkRepository>();
+            MockLocationRepository = new Mock<ILocationRepository>();
+            MockItemRepository = new Mock<IItemRepository>();
+            MockWorkspaceService = new Mock<IWorkspaceService>();
+            MockWorkspaceService
+                .Setup(s => s.GetCurrentWorkspaceIdAsync(It.IsAny<string>()))
+                .ReturnsAsync(WorkspaceId);
+            MockLocationAccessService = new Mock<ILocationAccessService>();
+            MockLocationAccessService
+                .Setup(s => s.GetLocationIdsHiddenFromEveryoneAsync(WorkspaceId))
+                .ReturnsAsync(() => HiddenLocationIds);
+            Service = new ShareLinkService(MockRepository.Object, Signer, MockLocationRepository.Object, MockItemRepository.Object, MockWorkspaceService.Object, MockLocationAccessService.Object);
+        }
+
+        [Fact]
+        public async Task CreateShareLinkAsync_WhenValid_CreatesLinkWithTokenThatOpensIt()
+        {
+            // Arrange
+            Guid userId = Guid.NewGuid();
+            MockWorkspaceService
+                .Setup(s => s.GetCurrentUserId())
+                .Returns(userId);
+
+            MockLocationRepository
+                .Setup(r => r.ExistsAsync("first-aid", WorkspaceId, null))
+                .ReturnsAsync(true);
+
+            MockRepository
+                .Setup(r => r.CreateAsync(It.IsAny<Guid>(), WorkspaceId, "first-aid", "Babysitter", It.IsAny<DateTimeOffset>(), userId, null))
+                .ReturnsAsync((Guid id, Guid workspaceId, string locationId, string? label, DateTimeOffset expiresAt, Guid createdBy, IDbSession? session) =>
+                    new ShareLinkDbModel { Id = id, WorkspaceId = workspaceId, LocationId = locationId, LocationName = "First aid", Label = label, ExpiresAt = expiresAt });
+
+            // Act
+            ShareLink result = await Service.CreateShareLinkAsync("first-aid", "  Babysitter ", 48);
+
+            // Assert
+            Assert.Equal("Babysitter", result.Label);
+            Assert.InRange(result.ExpiresAt, DateTimeOffset.UtcNow.AddHours(47.9), DateTimeOffset.UtcNow.AddHours(48.1));
+            Assert.True(Signer.TryReadToken(result.Token, out Guid tokenId, out DateTimeOffset tokenExpiresAt));
+            Assert.Equal(result.Id, tokenId);
+            Assert.Equal(result.ExpiresAt, tokenExpiresAt);
+            MockWorkspaceService.Verify(s => s.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Admin), Times.Once);
+        }
+
+        [Theory]
+        [InlineData(0)]
+        [InlineData(ShareLinkService.MaxExpiresInHours + 1)]
+        public async Task CreateShareLinkAsync_WhenExpiryIsOutOfRange_ThrowsArgumentException(int expiresInHours)
+        {
+            // Act & Assert
+            await Assert.ThrowsAsync<ArgumentException>(() => Service.CreateShareLinkAsync("first-aid", null, expiresInHours));
+            MockRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<DateTimeOffset>(), It.IsAny<Guid>(), null), Times.Never);
+        }
+
+        [Fact]
+        public async Task GetSharedLocationAsync_WhenLinkIsValid_ReturnsSubtreeAndItsItems()
+        {
+            // Arrange
+            Guid id = Guid.NewGuid();
+            DateTimeOffset expiresAt = DateTimeOffset.FromUnixTimeSeconds(DateTimeOffset.UtcNow.AddDays(1).ToUnixTimeSeconds());
+
+            MockRepository
+                .Setup(r => r.GetByIdAsync(id, null))
+                .ReturnsAsync(new ShareLinkDbModel { Id = id, WorkspaceId = WorkspaceId, LocationId = "hallway", LocationName = "Hallway", ExpiresAt = expiresAt });
+
+            MockLocationRepository
+                .Setup(r => r.GetSubtreeAsync("hallway", WorkspaceId, null))
+                .ReturnsAsync(new[]
+                {
+                    new LocationDbModel { Id = "hallway", Name = "Hallway", ParentLocationId = "house" },
+                    new LocationDbModel { Id = "key-cabinet", Name = "Key cabinet", ParentLocationId = "hallway" }
+                });
+
+            MockItemRepository
+                .Setup(r => r.GetByLocationIdsAsync(It.Is<IEnumerable<string>>(ids => ids.SequenceEqual(new[] { "hallway", "key-cabinet" })), null))
+                .ReturnsAsync(new[]
+                {
+                    new ItemDbModel { Id = Guid.NewGuid(), Name = "Spare keys", LocationId = "key-cabinet", PropertiesJson = "{}" },
+                    new ItemDbModel { Id = Guid.NewGuid(), Name = "First aid kit", LocationId = "hallway", PropertiesJson = "{}" }
+                });
+
+            // Act
+            SharedLocation? result = await Service.GetSharedLocationAsync(Signer.CreateToken(id, expiresAt));
+
+            // Assert
+            Assert.NotNull(result);
+            Assert.Equal("hallway", result.LocationId);
+            Assert.Equal(new[] { "hallway", "key-cabinet" }, result.Locations.Select(l => l.Id));
+            Assert.Equal(new[] { "First aid kit", "Spare keys" }, result.Items.Select(i => i.Name));
+        }
+
+        [Fact]
+        public async Task CreateShareLinkAsync_WhenLocationIsHiddenFromEveryone_ThrowsInvalidOperationException()
+        {
+            // Arrange
+            HiddenLocationIds.Add("safe");
+            MockLocationRepository
+                .Setup(r => r.ExistsAsync("safe", WorkspaceId, null))
+                .ReturnsAsync(true);
+
+            // Act & Assert
+            await Assert.ThrowsAsync<InvalidOperationException>(() => Service.CreateShareLinkAsync("safe", null, 48));
+            MockRepository.Verify(r => r.CreateAsync(It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<DateTimeOffset>(), It.IsAny<Guid>(), null), Times.Never);
+        }
+
+        [Fact]
+        public async Task GetSharedLocationAsync_WhenLocationIsHiddenFromEveryone_LeavesItOutWithEverythingBelow()
+        {
+            // Arrange
+            Guid id = Guid.NewGuid();
+            DateTimeOffset expiresAt = DateTimeOffset.FromUnixTimeSeconds(DateTimeOffset.UtcNow.AddDays(1).ToUnixTimeSeconds());
+            HiddenLocationIds.Add("safe");
+
+            MockRepository
+                .Setup(r => r.GetByIdAsync(id, null))
+                .ReturnsAsync(new ShareLinkDbModel { Id = id, WorkspaceId = WorkspaceId, LocationId = "hallway", LocationName = "Hallway", ExpiresAt = expiresAt });
+
+            MockLocationRepository
+                .Setup(r => r.GetSubtreeAsync("hallway", WorkspaceId, null))
+                .ReturnsAsync(new[]
+                {
+                    new LocationDbModel { Id = "hallway", Name = "Hallway", ParentLocationId = "house" },
+                    new LocationDbModel { Id = "safe", Name = "Safe", ParentLocationId = "hallway" },
+                    new LocationDbModel { Id = "safe-drawer", Name = "Safe drawer", ParentLocationId = "safe" },
+                    new LocationDbModel { Id = "key-cabinet", Name = "Key cabinet", ParentLocationId = "hallway" }
+                });
+
+            MockItemRepository
+                .Setup(r => r.GetByLocationIdsAsync(It.Is<IEnumerable<string>>(ids => ids.SequenceEqual(new[] { "hallway", "key-cabinet" })), null))
+                .ReturnsAsync(new[]
+                {
+                    new ItemDbModel { Id = Guid.NewGuid(), Name = "Spare keys", LocationId = "key-cabinet", PropertiesJson = "{}" }
+                });
+
+            // Act
+            SharedLocation? result = await Service.GetSharedLocationAsync(Signer.CreateToken(id, expiresAt));
+
+            // Assert
+            Assert.NotNull(result);
+            Assert.Equal(new[] { "hallway", "key-cabinet" }, result.Locations.Select(l => l.Id));
+            Assert.Equal(new[] { "Spare keys" }, result.Items.Select(i => i.Name));
+        }
+
+        [Fact]
+        public async Task GetSharedLocationAsync_WhenSharedLocationIsHiddenFromEveryone_ReturnsNull()
+        {
+            // Arrange
+            Guid id = Guid.NewGuid();
+            DateTimeOffset expiresAt = DateTimeOffset.FromUnixTimeSeconds(DateTimeOffset.UtcNow.AddDays(1).ToUnixTimeSeconds());
+            HiddenLocationIds.Add("hallway");
+
+            MockRepository
+                .Setup(r => r.GetByIdAsync(id, null))
+                .ReturnsAsync(new ShareLinkDbModel { Id = id, WorkspaceId = WorkspaceId, LocationId = "hallway", LocationName = "Hallway", ExpiresAt = expiresAt });
+
+            MockLocationRepository
+                .Setup(r => r.GetSubtreeAsync("hallway", WorkspaceId, null))
+                .ReturnsAsync(new[]
+                {
+                    new LocationDbModel { Id = "hallway", Name = "Hallway", ParentLocationId = "house" }
+                });
+
+            // Act
+            SharedLocation? result = await Service.GetSharedLocationAsync(Signer.CreateToken(id, expiresAt));
+
+            // Assert
+            Assert.Null(result);
+            MockItemRepository.Verify(r => r.GetByLocationIdsAsync(It.IsAny<IEnumerable<string>>(), null), Times.Never);
+        }
+
+        [Fact]
+        public async Task GetSharedLocationAsync_WhenLinkWasRevoked_ReturnsNull()
+        {
+            // Arrange
+            Guid id = Guid.NewGuid();
+            MockRepository
+                .Setup(r => r.GetByIdAsync(id, null))
+                .ReturnsAsync((ShareLinkDbModel?)null);
+
+            // Act
+            SharedLocation? result = await Service.GetSharedLocationAsync(Signer.CreateToken(id, DateTimeOffset.UtcNow.AddDays(1)));
+
+            // Assert
+            Assert.Null(result);
+            MockLocationRepository.Verify(r => r.GetSubtreeAsync(It.IsAny<string>(), It.IsAny<Guid?>(), null), Times.Never);
+        }
+
+        [Fact]
+        public async Task GetSharedLocationAsync_WhenTokenHasExpired_DoesNotReadLink()
+        {
+            // Act
+            SharedLocation? result = await Service.GetSharedLocationAsync(Signer.CreateToken(Guid.NewGuid(), DateTimeOffset.UtcNow.AddMinutes(-1)));
+
+            // Assert
+            Assert.Null(result);
+            MockRepository.Verify(r => r.GetByIdAsync(It.IsAny<Guid>(), null), Times.Never);
+        }
+    }
+}
@@ -0,0 +1,77 @@
+using Ordning.Server.Shares.Services;
+
+namespace Ordning.Server.Tests.Services
+{
+    /// <summary>
+    /// Unit tests for ShareTokenSigner.
+    /// </summary>
+    public class ShareTokenSignerTests
+    {
+        private const string Secret = "a-test-secret-that-is-at-least-32-characters";
+
+        private ShareTokenSigner Signer { get; set; } = new ShareTokenSigner(Secret);
+
+        [Fact]
+        public void TryReadToken_WhenTokenWasCreatedBySigner_ReturnsIdAndExpiry()
+        {
+            // Arrange
+            Guid id = Guid.NewGuid();
+            DateTimeOffset expiresAt = DateTimeOffset.FromUnixTimeSeconds(1_900_000_000);
+            string token = Signer.CreateToken(id, expiresAt);
+
+            // Act
+            bool result = Signer.TryReadToken(token, out Guid readId, out DateTimeOffset readExpiresAt);
+
+            // Assert
+            Assert.True(result);
+            Assert.Equal(id, readId);
+            Assert.Equal(expiresAt, readExpiresAt);
+            Assert.DoesNotContain('/', token);
+            Assert.DoesNotContain('+', token);
+        }
+
+        [Fact]
+        public void TryReadToken_WhenSignedWithAnotherSecret_ReturnsFalse()
+        {
+            // Arrange
+            ShareTokenSigner otherSigner = new ShareTokenSigner("another-secret-that-is-at-least-32-characters");
+            string token = otherSigner.CreateToken(Guid.NewGuid(), DateTimeOffset.UtcNow.AddDays(1));
+
+            // Act
+            bool result = Signer.TryReadToken(token, out _, out _);
+
+            // Assert
+            Assert.False(result);
+        }
+
+        [Theory]
+        [InlineData("")]
+        [InlineData("not-a-token")]
+        [InlineData("bm90.YSB0b2tlbg")]
+        [InlineData("a.b.c")]
+        public void TryReadToken_WhenTokenIsMalformed_ReturnsFalse(string token)
+        {
+            // Act
+            bool result = Signer.TryReadToken(token, out _, out _);
+
+            // Assert
+            Assert.False(result);
+        }
+
+        [Fact]
+        public void TryReadToken_WhenExpiryIsChanged_ReturnsFalse()
+        {
+            // Arrange
+            Guid id = Guid.NewGuid();
+            string token = Signer.CreateToken(id, DateTimeOffset.UtcNow.AddHours(1));
+            string longerToken = Signer.CreateToken(id, DateTimeOffset.UtcNow.AddDays(30));
+            string tamperedToken = $"{longerToken.Split('.')[0]}.{token.Split('.')[1]}";
+
+            // Act
+            bool result = Signer.TryReadToken(tamperedToken, out _, out _);
+
+            // Assert
+            Assert.False(result);
+        }
+    }
+}
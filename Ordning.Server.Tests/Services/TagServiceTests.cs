@@ -0,0 +1,110 @@
+using Moq;
+using Ordning.Server.Locations.Models;
+using Ordning.Server.Locations.Repositories;
+using Ordning.Server.Locations.Services;
+using Ordning.Server.Tags.Repositories;
+using Ordning.Server.Tags.Services;
+using Ordning.Server.Workspaces.Services;
+
+namespace Ordning.Server.Tests.Services
+{
+    /// <summary>
+    /// Unit tests for TagService.
+    /// </summary>
+    public class TagServiceTests
+    {
+        private Mock<ITagRepository> MockRepository { get; set; } = null!;
+        private Mock<ILocationRepository> MockLocationRepository { get; set; } = null!;
+        private Guid WorkspaceId { get; set; } = Guid.NewGuid();
+        private Mock<IWorkspaceService> MockWorkspaceService { get; set; } = null!;
+        private HashSet<string> HiddenLocationIds { get; set; } = new HashSet<string>();
+        private Mock<ILocationAccessService> MockLocationAccessService { get; set; } = null!;
+        private TagService Service { get; set; } = null!;
+
+        public TagServiceTests()
+        {
+            MockRepository = new Mock<ITagRepository>();
+            MockLocationRepository = new Mock<ILocationRepository>();
+            MockWorkspaceService = new Mock<IWorkspaceService>();
+            MockWorkspaceService
+                .Setup(s => s.GetCurrentWorkspaceIdAsync(It.IsAny<string>()))
+                .ReturnsAsync(WorkspaceId);
+            MockLocationAccessService = new Mock<ILocationAccessService>();
+            MockLocationAccessService
+                .Setup(s => s.GetHiddenLocationIdsAsync())
+                .ReturnsAsync(() => HiddenLocationIds);
+            Service = new TagService(MockRepository.Object, MockLocationRepository.Object, MockWorkspaceService.Object, MockLocationAccessService.Object);
+
+            MockRepository
+                .Setup(r => r.GetAllAsync(It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null))
+                .ReturnsAsync(new[]
+                {
+                    new TagDbModel { Name = "Power tools", ItemCount = 3, LocationCount = 0 }
+                });
+        }
+
+        [Fact]
+        public async Task NormalizeTagsAsync_WhenValid_TrimsRemovesDuplicatesAndUsesExistingSpelling()
+        {
+            // Act
+            IReadOnlyList<string> result = await Service.NormalizeTagsAsync(new[] { " power TOOLS ", "Garden", "garden", "Power tools" });
+
+            // Assert
+            Assert.Equal(new[] { "Power tools", "Garden" }, result);
+        }
+
+        [Fact]
+        public async Task NormalizeTagsAsync_WhenNoTags_DoesNotReadExistingTags()
+        {
+            // Act
+            IReadOnlyList<string> result = await Service.NormalizeTagsAsync(Array.Empty<string>());
+
+            // Assert
+            Assert.Empty(result);
+            MockRepository.Verify(r => r.GetAllAsync(It.IsAny<Guid?>(), It.IsAny<IEnumerable<string>?>(), null), Times.Never);
+        }
+
+        [Fact]
+        public async Task GetAllTagsAsync_WhenLocationsAreHidden_LeavesThemOutOfTheCounts()
+        {
+            // Arrange
+            HiddenLocationIds.Add("SAFE");
+
+            // Act
+            await Service.GetAllTagsAsync();
+
+            // Assert
+            MockRepository.Verify(r => r.GetAllAsync(WorkspaceId, HiddenLocationIds, null), Times.Once);
+        }
+
+        [Fact]
+        public async Task GetTaggedLocationsAsync_WhenLocationIsHidden_LeavesItOut()
+        {
+            // Arrange
+            HiddenLocationIds.Add("SAFE");
+            MockLocationRepository
+                .Setup(r => r.GetByTagAsync("Secret", WorkspaceId, null))
+                .ReturnsAsync(new[]
+                {
+                    new LocationDbModel { Id = "SAFE", Name = "Safe" },
+                    new LocationDbModel { Id = "DESK", Name = "Desk" }
+                });
+
+            // Act
+            IEnumerable<Location> result = await Service.GetTaggedLocationsAsync(" Secret ");
+
+            // Assert
+            Location location = Assert.Single(result);
+            Assert.Equal("DESK", location.Id);
+        }
+
+        [Theory]
+        [InlineData(" ")]
+        [InlineData("This tag name is far too long to be a useful tag at all")]
+        public async Task NormalizeTagsAsync_WhenTagIsInvalid_ThrowsArgumentException(string tag)
+        {
+            // Act & Assert
+            await Assert.ThrowsAsync<ArgumentException>(() => Service.NormalizeTagsAsync(new[] { "Garden", tag }));
+        }
+    }
+}
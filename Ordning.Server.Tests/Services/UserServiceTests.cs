@@ -1,9 +1,12 @@
 using EasyReasy.Auth;
 using EasyReasy.Database;
 using Moq;
+using Ordning.Server.Sessions.Repositories;
 using Ordning.Server.Users.Models;
 using Ordning.Server.Users.Repositories;
 using Ordning.Server.Users.Services;
+using Ordning.Server.Workspaces.Models;
+using Ordning.Server.Workspaces.Repositories;
 
 namespace Ordning.Server.Tests.Services
 {
@@ -14,13 +17,17 @@ namespace Ordning.Server.Tests.Services
     {
         private Mock<IUserRepository> MockRepository { get; set; } = null!;
         private IPasswordHasher PasswordHasher { get; set; } = null!;
+        private Mock<IRefreshTokenRepository> MockRefreshTokenRepository { get; set; } = null!;
+        private Mock<IWorkspaceRepository> MockWorkspaceRepository { get; set; } = null!;
         private UserService Service { get; set; } = null!;
 
         public UserServiceTests()
         {
             MockRepository = new Mock<IUserRepository>();
             PasswordHasher = new SecurePasswordHasher();
-            Service = new UserService(MockRepository.Object, PasswordHasher);
+            MockRefreshTokenRepository = new Mock<IRefreshTokenRepository>();
+            MockWorkspaceRepository = new Mock<IWorkspaceRepository>();
+            Service = new UserService(MockRepository.Object, PasswordHasher, MockRefreshTokenRepository.Object, MockWorkspaceRepository.Object);
         }
 
         [Fact]
@@ -296,6 +303,79 @@ namespace Ordning.Server.Tests.Services
                 Times.Once);
         }
 
+        [Fact]
+        public async Task CreateUserAsync_WhenWorkspaceIsGiven_AddsUserToWorkspace()
+        {
+            // Arrange
+            Guid userId = Guid.NewGuid();
+            Guid workspaceId = Guid.NewGuid();
+
+            UserDbModel createdUserDbModel = new UserDbModel
+            {
+                Id = userId,
+                Username = "testuser",
+                Email = "test@example.com",
+                PasswordHash = "hashed_password",
+                RolesJson = "[]"
+            };
+
+            MockRepository
+                .Setup(r => r.CreateAsync(
+                    It.IsAny<string>(),
+                    It.IsAny<string>(),
+                    It.IsAny<string>(),
+                    It.IsAny<IEnumerable<string>?>(),
+                    It.IsAny<IDbSession?>()))
+                .ReturnsAsync(createdUserDbModel);
+
+            // Act
+            await Service.CreateUserAsync("testuser", "test@example.com", "TestPassword123!", workspaceId: workspaceId, workspaceRole: " Read ");
+
+            // Assert
+            MockWorkspaceRepository.Verify(r => r.SetMemberAsync(workspaceId, userId, WorkspaceRoles.Read, null), Times.Once);
+        }
+
+        [Fact]
+        public async Task CreateUserAsync_WhenNoWorkspaceIsGiven_DoesNotAddUserToWorkspace()
+        {
+            // Arrange
+            UserDbModel createdUserDbModel = new UserDbModel
+            {
+                Id = Guid.NewGuid(),
+                Username = "testuser",
+                Email = "test@example.com",
+                PasswordHash = "hashed_password",
+                RolesJson = "[]"
+            };
+
+            MockRepository
+                .Setup(r => r.CreateAsync(
+                    It.IsAny<string>(),
+                    It.IsAny<string>(),
+                    It.IsAny<string>(),
+                    It.IsAny<IEnumerable<string>?>(),
+                    It.IsAny<IDbSession?>()))
+                .ReturnsAsync(createdUserDbModel);
+
+            // Act
+            await Service.CreateUserAsync("testuser", "test@example.com", "TestPassword123!");
+
+            // Assert
+            MockWorkspaceRepository.Verify(r => r.SetMemberAsync(It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task CreateUserAsync_WhenWorkspaceRoleIsUnknown_ThrowsArgumentExceptionWithoutCreatingUser()
+        {
+            // Act & Assert
+            await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.CreateUserAsync("testuser", "test@example.com", "TestPassword123!", workspaceId: Guid.NewGuid(), workspaceRole: "owner"));
+
+            MockRepository.Verify(
+                r => r.CreateAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<IEnumerable<string>?>(), It.IsAny<IDbSession?>()),
+                Times.Never);
+        }
+
         [Fact]
         public async Task GetUserByIdAsync_WhenUserExists_ReturnsUser()
         {
@@ -406,6 +486,7 @@ namespace Ordning.Server.Tests.Services
                     It.Is<string>(hash => !string.IsNullOrEmpty(hash) && hash != newPassword),
                     null),
                 Times.Once);
+            MockRefreshTokenRepository.Verify(r => r.RevokeAllForUserAsync(userId, null), Times.Once);
         }
 
         [Fact]
@@ -457,6 +538,7 @@ namespace Ordning.Server.Tests.Services
                     It.IsAny<string>(),
                     It.IsAny<IDbSession?>()),
                 Times.Never);
+            MockRefreshTokenRepository.Verify(r => r.RevokeAllForUserAsync(It.IsAny<Guid>(), It.IsAny<IDbSession?>()), Times.Never);
         }
 
         [Fact]
@@ -555,7 +637,7 @@ namespace Ordning.Server.Tests.Services
             // Arrange
             Guid userId = Guid.NewGuid();
             string userIdString = userId.ToString();
-            IEnumerable<string> roles = new[] { "write", "admin" };
+            IEnumerable<string> roles = new[] { "admin" };
 
             MockRepository
                 .Setup(r => r.UpdateRolesAsync(userId, roles, null))
@@ -575,7 +657,7 @@ namespace Ordning.Server.Tests.Services
             // Arrange
             Guid userId = Guid.NewGuid();
             string userIdString = userId.ToString();
-            IEnumerable<string> roles = new[] { "write", "invalidrole" };
+            IEnumerable<string> roles = new[] { "admin", "invalidrole" };
 
             // Act & Assert
             ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
@@ -591,7 +673,7 @@ namespace Ordning.Server.Tests.Services
             // Arrange
             Guid userId = Guid.NewGuid();
             string userIdString = userId.ToString();
-            IEnumerable<string> roles = new[] { "write" };
+            IEnumerable<string> roles = new[] { "admin" };
 
             MockRepository
                 .Setup(r => r.UpdateRolesAsync(userId, roles, null))
@@ -610,7 +692,7 @@ namespace Ordning.Server.Tests.Services
         {
             // Arrange
             string invalidUserId = "not-a-valid-guid";
-            IEnumerable<string> roles = new[] { "write" };
+            IEnumerable<string> roles = new[] { "admin" };
 
             // Act
             bool result = await Service.UpdateRolesAsync(invalidUserId, roles);
@@ -626,7 +708,7 @@ namespace Ordning.Server.Tests.Services
             // Arrange
             Guid userId = Guid.NewGuid();
             string userIdString = userId.ToString();
-            string role = "write";
+            string role = "admin";
 
             MockRepository
                 .Setup(r => r.AddRoleAsync(userId, role, null))
@@ -657,13 +739,29 @@ namespace Ordning.Server.Tests.Services
         }
 
         [Fact]
-        public async Task AddRoleAsync_WhenUserDoesNotExist_ReturnsFalse()
+        public async Task AddRoleAsync_WhenGlobalWriteRole_ThrowsArgumentException()
         {
             // Arrange
             Guid userId = Guid.NewGuid();
             string userIdString = userId.ToString();
             string role = "write";
 
+            // Act & Assert
+            ArgumentException exception = await Assert.ThrowsAsync<ArgumentException>(
+                () => Service.AddRoleAsync(userIdString, role));
+
+            Assert.Contains("Invalid role", exception.Message);
+            MockRepository.Verify(r => r.AddRoleAsync(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<IDbSession?>()), Times.Never);
+        }
+
+        [Fact]
+        public async Task AddRoleAsync_WhenUserDoesNotExist_ReturnsFalse()
+        {
+            // Arrange
+            Guid userId = Guid.NewGuid();
+            string userIdString = userId.ToString();
+            string role = "admin";
+
             MockRepository
                 .Setup(r => r.AddRoleAsync(userId, role, null))
                 .ReturnsAsync(false);
@@ -681,7 +779,7 @@ namespace Ordning.Server.Tests.Services
         {
             // Arrange
             string invalidUserId = "not-a-valid-guid";
-            string role = "write";
+            string role = "admin";
 
             // Act
             bool result = await Service.AddRoleAsync(invalidUserId, role);
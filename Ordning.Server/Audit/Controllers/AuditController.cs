@@ -0,0 +1,88 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.RateLimiting;
+using Ordning.Server.Audit.Models;
+using Ordning.Server.Audit.Services;
+using Ordning.Server.RateLimiting;
+
+namespace Ordning.Server.Audit.Controllers
+{
+    /// <summary>
+    /// Controller for reading the history of changes to items and locations.
+    /// </summary>
+    [ApiController]
+    [Route("api/[controller]")]
+    [EnableRateLimiting(RateLimitPolicies.Lenient)]
+    public class AuditController : ControllerBase
+    {
+        private readonly IAuditService _auditService;
+        private readonly ILogger<AuditController> _logger;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="AuditController"/> class.
+        /// </summary>
+        /// <param name="auditService">The audit service.</param>
+        /// <param name="logger">The logger.</param>
+        public AuditController(IAuditService auditService, ILogger<AuditController> logger)
+        {
+            _auditService = auditService;
+            _logger = logger;
+        }
+
+        /// <summary>
+        /// Gets recorded changes, newest first.
+        /// </summary>
+        /// <param name="entityType">Only include changes to this type of entity: "item" or "location".</param>
+        /// <param name="entityId">Only include changes to the entity with this identifier.</param>
+        /// <param name="userId">Only include changes made by this user.</param>
+        /// <param name="action">Only include this kind of change: "create", "update", "move" or "delete".</param>
+        /// <param name="offset">The number of entries to skip for pagination. Defaults to 0.</param>
+        /// <param name="limit">The maximum number of entries to return. Defaults to 20, maximum 100.</param>
+        /// <returns>Audit entries with pagination metadata.</returns>
+        [HttpGet]
+        [Authorize]
+        [ProducesResponseType(typeof(AuditLogResponse), 200)]
+        [ProducesResponseType(400)]
+        public async Task<ActionResult<AuditLogResponse>> GetEntries([FromQuery] string? entityType = null, [FromQuery] string? entityId = null, [FromQuery] string? userId = null, [FromQuery] string? action = null, [FromQuery] int offset = 0, [FromQuery] int limit = 20)
+        {
+            try
+            {
+                (IEnumerable<AuditEntry> results, int totalCount) = await _auditService.GetEntriesAsync(
+                    entityType: entityType,
+                    entityId: entityId,
+                    userId: userId,
+                    action: action,
+                    offset: offset,
+                    limit: limit);
+
+                AuditLogResponse response = new AuditLogResponse
+                {
+                    Results = results,
+                    TotalCount = totalCount,
+                    Offset = offset,
+                    Limit = limit,
+                    HasMore = offset + limit < totalCount
+                };
+
+                return Ok(response);
+            }
+            catch (ArgumentException ex)
+            {
+                return BadRequest(ex.Message);
+            }
+        }
+
+        /// <summary>
+        /// Gets the members of the current workspace who have made at least one recorded change in it, for filtering the activity feed.
+        /// </summary>
+        /// <returns>A collection of users ordered by username.</returns>
+        [HttpGet("users")]
+        [Authorize]
+        [ProducesResponseType(typeof(IEnumerable<AuditUser>), 200)]
+        public async Task<ActionResult<IEnumerable<AuditUser>>> GetUsers()
+        {
+            IEnumerable<AuditUser> users = await _auditService.GetUsersAsync();
+            return Ok(users);
+        }
+    }
+}
@@ -0,0 +1,43 @@
+namespace Ordning.Server.Audit.Models
+{
+    /// <summary>
+    /// The kinds of changes recorded in the audit log.
+    /// </summary>
+    public static class AuditActions
+    {
+        /// <summary>
+        /// The entity was created.
+        /// </summary>
+        public const string Create = "create";
+
+        /// <summary>
+        /// The entity's details were changed.
+        /// </summary>
+        public const string Update = "update";
+
+        /// <summary>
+        /// The entity was moved to another location or parent.
+        /// </summary>
+        public const string Move = "move";
+
+        /// <summary>
+        /// The entity was deleted.
+        /// </summary>
+        public const string Delete = "delete";
+
+        /// <summary>
+        /// Gets all audit actions.
+        /// </summary>
+        public static IReadOnlyList<string> All { get; } = new[] { Create, Update, Move, Delete };
+
+        /// <summary>
+        /// Checks whether a value is a known audit action.
+        /// </summary>
+        /// <param name="action">The value to check.</param>
+        /// <returns>True if the value is a known audit action; otherwise, false.</returns>
+        public static bool IsValid(string action)
+        {
+            return All.Contains(action);
+        }
+    }
+}
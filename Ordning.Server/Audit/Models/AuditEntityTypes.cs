@@ -0,0 +1,33 @@
+namespace Ordning.Server.Audit.Models
+{
+    /// <summary>
+    /// The kinds of entities whose changes are recorded in the audit log.
+    /// </summary>
+    public static class AuditEntityTypes
+    {
+        /// <summary>
+        /// An item.
+        /// </summary>
+        public const string Item = "item";
+
+        /// <summary>
+        /// A location.
+        /// </summary>
+        public const string Location = "location";
+
+        /// <summary>
+        /// Gets all audit entity types.
+        /// </summary>
+        public static IReadOnlyList<string> All { get; } = new[] { Item, Location };
+
+        /// <summary>
+        /// Checks whether a value is a known audit entity type.
+        /// </summary>
+        /// <param name="entityType">The value to check.</param>
+        /// <returns>True if the value is a known audit entity type; otherwise, false.</returns>
+        public static bool IsValid(string entityType)
+        {
+            return All.Contains(entityType);
+        }
+    }
+}
@@ -0,0 +1,80 @@
+using System.Text.Json;
+
+namespace Ordning.Server.Audit.Models
+{
+    /// <summary>
+    /// Represents a recorded change to an item or location.
+    /// </summary>
+    public class AuditEntry
+    {
+        /// <summary>
+        /// Gets the unique identifier for the audit entry.
+        /// </summary>
+        public Guid Id { get; }
+
+        /// <summary>
+        /// Gets the type of the changed entity, one of <see cref="AuditEntityTypes"/>.
+        /// </summary>
+        public string EntityType { get; }
+
+        /// <summary>
+        /// Gets the identifier of the changed entity.
+        /// </summary>
+        public string EntityId { get; }
+
+        /// <summary>
+        /// Gets the kind of change, one of <see cref="AuditActions"/>.
+        /// </summary>
+        public string Action { get; }
+
+        /// <summary>
+        /// Gets the identifier of the user who made the change, if known.
+        /// </summary>
+        public string? UserId { get; }
+
+        /// <summary>
+        /// Gets the username of the user who made the change, if the user still exists.
+        /// </summary>
+        public string? Username { get; }
+
+        /// <summary>
+        /// Gets the entity as it was before the change, or null for a create.
+        /// </summary>
+        public JsonElement? Before { get; }
+
+        /// <summary>
+        /// Gets the entity as it was after the change, or null for a delete.
+        /// </summary>
+        public JsonElement? After { get; }
+
+        /// <summary>
+        /// Gets the UTC timestamp when the change was made.
+        /// </summary>
+        public DateTimeOffset CreatedAt { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="AuditEntry"/> class.
+        /// </summary>
+        /// <param name="id">The unique identifier for the audit entry.</param>
+        /// <param name="entityType">The type of the changed entity.</param>
+        /// <param name="entityId">The identifier of the changed entity.</param>
+        /// <param name="action">The kind of change.</param>
+        /// <param name="userId">The identifier of the user who made the change. Defaults to null.</param>
+        /// <param name="username">The username of the user who made the change. Defaults to null.</param>
+        /// <param name="before">The entity as it was before the change. Defaults to null.</param>
+        /// <param name="after">The entity as it was after the change. Defaults to null.</param>
+        /// <param name="createdAt">The UTC timestamp when the change was made.</param>
+        public AuditEntry(Guid id, string entityType, string entityId, string action, string? userId = null, string? username = null, JsonElement? before = null, JsonElement? after = null, DateTimeOffset createdAt = default)
+        {
+            Id = id;
+            EntityType = entityType;
+            EntityId = entityId;
+            Action = action;
+            UserId = userId;
+            Username = username;
+            Before = before;
+            After = after;
+            CreatedAt = createdAt;
+        }
+    }
+}
@@ -0,0 +1,33 @@
+namespace Ordning.Server.Audit.Models
+{
+    /// <summary>
+    /// Response model for a page of audit entries with pagination metadata.
+    /// </summary>
+    public class AuditLogResponse
+    {
+        /// <summary>
+        /// Gets or sets the audit entries, newest first.
+        /// </summary>
+        public IEnumerable<AuditEntry> Results { get; set; } = Array.Empty<AuditEntry>();
+
+        /// <summary>
+        /// Gets or sets the total count of matching audit entries.
+        /// </summary>
+        public int TotalCount { get; set; }
+
+        /// <summary>
+        /// Gets or sets the pagination offset.
+        /// </summary>
+        public int Offset { get; set; }
+
+        /// <summary>
+        /// Gets or sets the pagination limit.
+        /// </summary>
+        public int Limit { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether there are more audit entries available.
+        /// </summary>
+        public bool HasMore { get; set; }
+    }
+}
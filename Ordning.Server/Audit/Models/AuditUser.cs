@@ -0,0 +1,29 @@
+namespace Ordning.Server.Audit.Models
+{
+    /// <summary>
+    /// Represents a user who appears in the audit log.
+    /// </summary>
+    public class AuditUser
+    {
+        /// <summary>
+        /// Gets the unique identifier for the user.
+        /// </summary>
+        public string UserId { get; }
+
+        /// <summary>
+        /// Gets the username of the user, if the user still exists.
+        /// </summary>
+        public string? Username { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="AuditUser"/> class.
+        /// </summary>
+        /// <param name="userId">The unique identifier for the user.</param>
+        /// <param name="username">The username of the user. Defaults to null.</param>
+        public AuditUser(string userId, string? username = null)
+        {
+            UserId = userId;
+            Username = username;
+        }
+    }
+}
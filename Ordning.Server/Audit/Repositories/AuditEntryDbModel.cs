@@ -0,0 +1,92 @@
+using System.Text.Json;
+using Ordning.Server.Audit.Models;
+
+namespace Ordning.Server.Audit.Repositories
+{
+    /// <summary>
+    /// Database model representing an audit log entry in the database.
+    /// </summary>
+    public class AuditEntryDbModel
+    {
+        /// <summary>
+        /// Gets or sets the unique identifier for the audit entry.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// Gets or sets the type of the changed entity.
+        /// </summary>
+        public string EntityType { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the identifier of the changed entity.
+        /// </summary>
+        public string EntityId { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the kind of change.
+        /// </summary>
+        public string Action { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the identifier of the user who made the change.
+        /// </summary>
+        public Guid? UserId { get; set; }
+
+        /// <summary>
+        /// Gets or sets the username of the user who made the change, joined from the user table.
+        /// </summary>
+        public string? Username { get; set; }
+
+        /// <summary>
+        /// Gets or sets the entity before the change as a JSONB string.
+        /// </summary>
+        public string? BeforeJson { get; set; }
+
+        /// <summary>
+        /// Gets or sets the entity after the change as a JSONB string.
+        /// </summary>
+        public string? AfterJson { get; set; }
+
+        /// <summary>
+        /// Gets or sets the UTC timestamp when the change was made.
+        /// </summary>
+        public DateTimeOffset CreatedAt { get; set; }
+
+        /// <summary>
+        /// Converts the database model to a domain AuditEntry model.
+        /// </summary>
+        /// <returns>An AuditEntry domain model.</returns>
+        public AuditEntry ToDomainAuditEntry()
+        {
+            return new AuditEntry(
+                id: Id,
+                entityType: EntityType,
+                entityId: EntityId,
+                action: Action,
+                userId: UserId?.ToString(),
+                username: Username,
+                before: ParseJson(BeforeJson),
+                after: ParseJson(AfterJson),
+                createdAt: CreatedAt);
+        }
+
+        private static JsonElement? ParseJson(string? json)
+        {
+            if (string.IsNullOrWhiteSpace(json))
+            {
+                return null;
+            }
+
+            try
+            {
+                using JsonDocument document = JsonDocument.Parse(json);
+                return document.RootElement.Clone();
+            }
+            catch (JsonException)
+            {
+                return null;
+            }
+        }
+    }
+}
@@ -0,0 +1,195 @@
+using System.Data.Common;
+using Dapper;
+using EasyReasy.Database;
+using Ordning.Server.Audit.Models;
+using Ordning.Server.Search.Repositories;
+
+namespace Ordning.Server.Audit.Repositories
+{
+    /// <summary>
+    /// Repository implementation for audit log data access operations.
+    /// </summary>
+    public class AuditRepository : RepositoryBase, IAuditRepository
+    {
+        private const string SelectColumns = @"
+                        audit_log.id,
+                        audit_log.entity_type AS EntityType,
+                        audit_log.entity_id AS EntityId,
+                        audit_log.action,
+                        audit_log.user_id AS UserId,
+                        auth_user.username,
+                        audit_log.before_value::text AS BeforeJson,
+                        audit_log.after_value::text AS AfterJson,
+                        audit_log.created_at AS CreatedAt";
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="AuditRepository"/> class.
+        /// </summary>
+        /// <param name="dataSource">The database data source.</param>
+        /// <param name="sessionFactory">The session factory for creating database sessions.</param>
+        public AuditRepository(DbDataSource dataSource, IDbSessionFactory sessionFactory)
+            : base(dataSource, sessionFactory)
+        {
+        }
+
+        /// <summary>
+        /// Records a change in the audit log.
+        /// </summary>
+        /// <param name="id">The unique identifier for the audit entry.</param>
+        /// <param name="entityType">The type of the changed entity.</param>
+        /// <param name="entityId">The identifier of the changed entity.</param>
+        /// <param name="action">The kind of change.</param>
+        /// <param name="userId">The identifier of the user who made the change, if known.</param>
+        /// <param name="beforeJson">The entity before the change as JSON, or null for a create.</param>
+        /// <param name="afterJson">The entity after the change as JSON, or null for a delete.</param>
+        /// <param name="workspaceId">The workspace the change was made in. Defaults to null.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The created audit entry database model.</returns>
+        public async Task<AuditEntryDbModel> CreateAsync(Guid id, string entityType, string entityId, string action, Guid? userId, string? beforeJson, string? afterJson, Guid? workspaceId = null, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    WITH inserted AS (
+                        INSERT INTO audit_log (id, entity_type, entity_id, action, user_id, before_value, after_value, workspace_id)
+                        VALUES (@{nameof(id)}, @{nameof(entityType)}, @{nameof(entityId)}, @{nameof(action)}, @{nameof(userId)}, @{nameof(beforeJson)}::jsonb, @{nameof(afterJson)}::jsonb, @{nameof(workspaceId)})
+                        RETURNING *
+                    )
+                    SELECT {SelectColumns}
+                    FROM inserted AS audit_log
+                    LEFT JOIN auth_user ON auth_user.id = audit_log.user_id";
+
+                AuditEntryDbModel result = await dbSession.Connection.QuerySingleAsync<AuditEntryDbModel>(
+                    query,
+                    new { id, entityType, entityId, action, userId, beforeJson, afterJson, workspaceId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets audit entries, newest first. Filters that are null are not applied.
+        /// </summary>
+        /// <param name="entityType">Only include changes to this type of entity.</param>
+        /// <param name="entityId">Only include changes to the entity with this identifier.</param>
+        /// <param name="userId">Only include changes made by this user.</param>
+        /// <param name="action">Only include this kind of change.</param>
+        /// <param name="offset">The number of entries to skip for pagination.</param>
+        /// <param name="limit">The maximum number of entries to return.</param>
+        /// <param name="workspaceId">Only include changes made in this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="hiddenLocationIds">Changes to these locations and to items that were in them before or after the change are left out. Defaults to null for none.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A tuple containing the matching audit entries and the total count of matches.</returns>
+        public async Task<(IEnumerable<AuditEntryDbModel> Results, int TotalCount)> GetEntriesAsync(string? entityType, string? entityId, Guid? userId, string? action, int offset, int limit, Guid? workspaceId = null, IEnumerable<string>? hiddenLocationIds = null, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                DynamicParameters parameters = new DynamicParameters();
+                List<string> conditions = new List<string>();
+
+                if (entityType != null)
+                {
+                    parameters.Add(nameof(entityType), entityType);
+                    conditions.Add($"audit_log.entity_type = @{nameof(entityType)}");
+                }
+
+                if (entityId != null)
+                {
+                    parameters.Add(nameof(entityId), entityId);
+                    conditions.Add($"audit_log.entity_id = @{nameof(entityId)}");
+                }
+
+                if (userId != null)
+                {
+                    parameters.Add(nameof(userId), userId);
+                    conditions.Add($"audit_log.user_id = @{nameof(userId)}");
+                }
+
+                if (action != null)
+                {
+                    parameters.Add(nameof(action), action);
+                    conditions.Add($"audit_log.action = @{nameof(action)}");
+                }
+
+                if (workspaceId != null)
+                {
+                    parameters.Add(nameof(workspaceId), workspaceId);
+                    conditions.Add($"audit_log.workspace_id = @{nameof(workspaceId)}");
+                }
+
+                string[] hiddenLocationIdsArray = hiddenLocationIds?.ToArray() ?? Array.Empty<string>();
+                if (hiddenLocationIdsArray.Length > 0)
+                {
+                    parameters.Add(nameof(hiddenLocationIdsArray), hiddenLocationIdsArray);
+                    conditions.Add($"NOT (audit_log.entity_type = '{AuditEntityTypes.Location}' AND audit_log.entity_id = ANY(@{nameof(hiddenLocationIdsArray)}))");
+                    conditions.Add($@"NOT (audit_log.entity_type = '{AuditEntityTypes.Item}' AND (
+                        COALESCE(audit_log.before_value->>'locationId' = ANY(@{nameof(hiddenLocationIdsArray)}), FALSE)
+                        OR COALESCE(audit_log.after_value->>'locationId' = ANY(@{nameof(hiddenLocationIdsArray)}), FALSE)))");
+                }
+
+                string whereClause = SearchQuerySql.BuildWhereClause(conditions);
+                parameters.Add(nameof(limit), limit);
+                parameters.Add(nameof(offset), offset);
+
+                string query = $@"
+                    SELECT {SelectColumns}
+                    FROM audit_log
+                    LEFT JOIN auth_user ON auth_user.id = audit_log.user_id
+                    {whereClause}
+                    ORDER BY audit_log.created_at DESC, audit_log.id
+                    LIMIT @{nameof(limit)} OFFSET @{nameof(offset)}";
+
+                IEnumerable<AuditEntryDbModel> results = await dbSession.Connection.QueryAsync<AuditEntryDbModel>(
+                    query,
+                    parameters,
+                    transaction: dbSession.Transaction);
+
+                string countQuery = $@"
+                    SELECT COUNT(*)
+                    FROM audit_log
+                    {whereClause}";
+
+                int totalCount = await dbSession.Connection.QuerySingleAsync<int>(
+                    countQuery,
+                    parameters,
+                    transaction: dbSession.Transaction);
+
+                return (results, totalCount);
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets the members of a workspace who have made at least one recorded change in it.
+        /// </summary>
+        /// <param name="workspaceId">The unique identifier of the workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of users ordered by username.</returns>
+        public async Task<IEnumerable<AuditUserDbModel>> GetUsersAsync(Guid workspaceId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT
+                        actors.user_id AS UserId,
+                        auth_user.username
+                    FROM (
+                        SELECT DISTINCT audit_log.user_id
+                        FROM audit_log
+                        INNER JOIN workspace_members ON workspace_members.workspace_id = audit_log.workspace_id
+                            AND workspace_members.user_id = audit_log.user_id
+                        WHERE audit_log.workspace_id = @{nameof(workspaceId)}
+                    ) AS actors
+                    LEFT JOIN auth_user ON auth_user.id = actors.user_id
+                    ORDER BY auth_user.username NULLS LAST, actors.user_id";
+
+                IEnumerable<AuditUserDbModel> result = await dbSession.Connection.QueryAsync<AuditUserDbModel>(
+                    query,
+                    new { workspaceId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+    }
+}
@@ -0,0 +1,31 @@
+using Ordning.Server.Audit.Models;
+
+namespace Ordning.Server.Audit.Repositories
+{
+    /// <summary>
+    /// Database model representing a user who appears in the audit log.
+    /// </summary>
+    public class AuditUserDbModel
+    {
+        /// <summary>
+        /// Gets or sets the unique identifier for the user.
+        /// </summary>
+        public Guid UserId { get; set; }
+
+        /// <summary>
+        /// Gets or sets the username of the user, joined from the user table.
+        /// </summary>
+        public string? Username { get; set; }
+
+        /// <summary>
+        /// Converts the database model to a domain AuditUser model.
+        /// </summary>
+        /// <returns>An AuditUser domain model.</returns>
+        public AuditUser ToDomainAuditUser()
+        {
+            return new AuditUser(
+                userId: UserId.ToString(),
+                username: Username);
+        }
+    }
+}
@@ -0,0 +1,48 @@
+using EasyReasy.Database;
+
+namespace Ordning.Server.Audit.Repositories
+{
+    /// <summary>
+    /// Repository interface for audit log data access operations.
+    /// </summary>
+    public interface IAuditRepository : IRepository
+    {
+        /// <summary>
+        /// Records a change in the audit log.
+        /// </summary>
+        /// <param name="id">The unique identifier for the audit entry.</param>
+        /// <param name="entityType">The type of the changed entity.</param>
+        /// <param name="entityId">The identifier of the changed entity.</param>
+        /// <param name="action">The kind of change.</param>
+        /// <param name="userId">The identifier of the user who made the change, if known.</param>
+        /// <param name="beforeJson">The entity before the change as JSON, or null for a create.</param>
+        /// <param name="afterJson">The entity after the change as JSON, or null for a delete.</param>
+        /// <param name="workspaceId">The workspace the change was made in. Defaults to null.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The created audit entry database model.</returns>
+        Task<AuditEntryDbModel> CreateAsync(Guid id, string entityType, string entityId, string action, Guid? userId, string? beforeJson, string? afterJson, Guid? workspaceId = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Gets audit entries, newest first. Filters that are null are not applied.
+        /// </summary>
+        /// <param name="entityType">Only include changes to this type of entity.</param>
+        /// <param name="entityId">Only include changes to the entity with this identifier.</param>
+        /// <param name="userId">Only include changes made by this user.</param>
+        /// <param name="action">Only include this kind of change.</param>
+        /// <param name="offset">The number of entries to skip for pagination.</param>
+        /// <param name="limit">The maximum number of entries to return.</param>
+        /// <param name="workspaceId">Only include changes made in this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="hiddenLocationIds">Changes to these locations and to items that were in them before or after the change are left out. Defaults to null for none.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A tuple containing the matching audit entries and the total count of matches.</returns>
+        Task<(IEnumerable<AuditEntryDbModel> Results, int TotalCount)> GetEntriesAsync(string? entityType, string? entityId, Guid? userId, string? action, int offset, int limit, Guid? workspaceId = null, IEnumerable<string>? hiddenLocationIds = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Gets the members of a workspace who have made at least one recorded change in it.
+        /// </summary>
+        /// <param name="workspaceId">The unique identifier of the workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of users ordered by username.</returns>
+        Task<IEnumerable<AuditUserDbModel>> GetUsersAsync(Guid workspaceId, IDbSession? session = null);
+    }
+}
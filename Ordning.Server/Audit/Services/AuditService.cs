@@ -0,0 +1,184 @@
+using System.Text.Json;
+using EasyReasy.Auth;
+using EasyReasy.Database;
+using Ordning.Server.Audit.Models;
+using Ordning.Server.Audit.Repositories;
+using Ordning.Server.Locations.Services;
+using Ordning.Server.Workspaces.Services;
+
+namespace Ordning.Server.Audit.Services
+{
+    /// <summary>
+    /// Implementation of <see cref="IAuditService"/> that records changes together with the user and workspace of the current request.
+    /// </summary>
+    public class AuditService : IAuditService
+    {
+        private static readonly JsonSerializerOptions SnapshotSerializerOptions = new JsonSerializerOptions(JsonSerializerDefaults.Web);
+
+        private readonly IAuditRepository _auditRepository;
+        private readonly IHttpContextAccessor _httpContextAccessor;
+        private readonly IWorkspaceService _workspaceService;
+        private readonly ILocationAccessService _locationAccessService;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="AuditService"/> class.
+        /// </summary>
+        /// <param name="auditRepository">The audit repository for database access.</param>
+        /// <param name="httpContextAccessor">The accessor used to find the user making the current request.</param>
+        /// <param name="workspaceService">The workspace service used to find the workspace of the current request.</param>
+        /// <param name="locationAccessService">The location access service used to leave out changes in locations hidden from the current user.</param>
+        public AuditService(IAuditRepository auditRepository, IHttpContextAccessor httpContextAccessor, IWorkspaceService workspaceService, ILocationAccessService locationAccessService)
+        {
+            _auditRepository = auditRepository;
+            _httpContextAccessor = httpContextAccessor;
+            _workspaceService = workspaceService;
+            _locationAccessService = locationAccessService;
+        }
+
+        /// <summary>
+        /// Records a change made by the current user in the current workspace. Changes made outside a request are recorded
+        /// without a workspace. Snapshots are stored as JSON in the same shape the API returns them.
+        /// </summary>
+        /// <param name="entityType">The type of the changed entity, one of <see cref="AuditEntityTypes"/>.</param>
+        /// <param name="entityId">The identifier of the changed entity.</param>
+        /// <param name="action">The kind of change, one of <see cref="AuditActions"/>.</param>
+        /// <param name="before">The entity before the change, or null for a create.</param>
+        /// <param name="after">The entity after the change, or null for a delete.</param>
+        /// <param name="session">The database session to record the change in, so that it is only kept if the change itself is. Defaults to null.</param>
+        /// <returns>A task that completes when the change has been recorded.</returns>
+        /// <exception cref="ArgumentException">Thrown when the entity type or action is unknown.</exception>
+        public async Task RecordAsync(string entityType, string entityId, string action, object? before, object? after, IDbSession? session = null)
+        {
+            if (!AuditEntityTypes.IsValid(entityType))
+            {
+                throw new ArgumentException($"Unknown audit entity type '{entityType}'.", nameof(entityType));
+            }
+
+            if (!AuditActions.IsValid(action))
+            {
+                throw new ArgumentException($"Unknown audit action '{action}'.", nameof(action));
+            }
+
+            string? currentUserId = _httpContextAccessor.HttpContext?.GetUserId();
+            Guid? userId = Guid.TryParse(currentUserId, out Guid parsedUserId) ? parsedUserId : null;
+            Guid? workspaceId = _httpContextAccessor.HttpContext != null ? await _workspaceService.GetCurrentWorkspaceIdAsync() : null;
+
+            await _auditRepository.CreateAsync(
+                id: Guid.NewGuid(),
+                entityType: entityType,
+                entityId: entityId,
+                action: action,
+                userId: userId,
+                beforeJson: before == null ? null : JsonSerializer.Serialize(before, SnapshotSerializerOptions),
+                afterJson: after == null ? null : JsonSerializer.Serialize(after, SnapshotSerializerOptions),
+                workspaceId: workspaceId,
+                session: session);
+        }
+
+        /// <summary>
+        /// Gets audit entries of the current workspace, newest first. Filters that are null or empty are not applied.
+        /// Changes to locations hidden from the current user, and to items in them, are left out.
+        /// </summary>
+        /// <param name="entityType">Only include changes to this type of entity. Defaults to null.</param>
+        /// <param name="entityId">Only include changes to the entity with this identifier. Defaults to null.</param>
+        /// <param name="userId">Only include changes made by this user. Defaults to null.</param>
+        /// <param name="action">Only include this kind of change. Defaults to null.</param>
+        /// <param name="offset">The number of entries to skip for pagination. Defaults to 0.</param>
+        /// <param name="limit">The maximum number of entries to return. Defaults to 20, maximum 100.</param>
+        /// <returns>A tuple containing the matching audit entries and the total count of matches.</returns>
+        /// <exception cref="ArgumentException">Thrown when a filter or pagination parameter is invalid.</exception>
+        public async Task<(IEnumerable<AuditEntry> Results, int TotalCount)> GetEntriesAsync(string? entityType = null, string? entityId = null, string? userId = null, string? action = null, int offset = 0, int limit = 20)
+        {
+            if (offset < 0)
+            {
+                throw new ArgumentException("Offset must be greater than or equal to zero.", nameof(offset));
+            }
+
+            if (limit <= 0)
+            {
+                throw new ArgumentException("Limit must be greater than zero.", nameof(limit));
+            }
+
+            if (limit > 100)
+            {
+                throw new ArgumentException("Limit cannot exceed 100.", nameof(limit));
+            }
+
+            string? entityTypeFilter = string.IsNullOrWhiteSpace(entityType) ? null : entityType.Trim().ToLowerInvariant();
+            if (entityTypeFilter != null && !AuditEntityTypes.IsValid(entityTypeFilter))
+            {
+                throw new ArgumentException($"Entity type must be one of: {string.Join(", ", AuditEntityTypes.All)}.", nameof(entityType));
+            }
+
+            string? actionFilter = string.IsNullOrWhiteSpace(action) ? null : action.Trim().ToLowerInvariant();
+            if (actionFilter != null && !AuditActions.IsValid(actionFilter))
+            {
+                throw new ArgumentException($"Action must be one of: {string.Join(", ", AuditActions.All)}.", nameof(action));
+            }
+
+            Guid? userIdFilter = null;
+            if (!string.IsNullOrWhiteSpace(userId))
+            {
+                if (!Guid.TryParse(userId, out Guid parsedUserId))
+                {
+                    throw new ArgumentException($"'{userId}' is not a valid user ID.", nameof(userId));
+                }
+
+                userIdFilter = parsedUserId;
+            }
+
+            string? entityIdFilter = string.IsNullOrWhiteSpace(entityId) ? null : entityId;
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            IReadOnlySet<string> hiddenLocationIds = await _locationAccessService.GetHiddenLocationIdsAsync();
+
+            (IEnumerable<AuditEntryDbModel> results, int totalCount) = await _auditRepository.GetEntriesAsync(
+                entityType: entityTypeFilter,
+                entityId: entityIdFilter,
+                userId: userIdFilter,
+                action: actionFilter,
+                offset: offset,
+                limit: limit,
+                workspaceId: workspaceId,
+                hiddenLocationIds: hiddenLocationIds);
+
+            return (results.Select(e => e.ToDomainAuditEntry()), totalCount);
+        }
+
+        /// <summary>
+        /// Gets the snapshot recorded when an entity was last deleted, so that it can be restored.
+        /// Snapshots are read back with the same serializer options they were recorded with.
+        /// </summary>
+        /// <typeparam name="T">The domain type the snapshot was recorded from.</typeparam>
+        /// <param name="entityType">The type of the deleted entity, one of <see cref="AuditEntityTypes"/>.</param>
+        /// <param name="entityId">The identifier of the deleted entity.</param>
+        /// <returns>The entity as it was right before it was deleted, or null if no deletion was recorded.</returns>
+        /// <exception cref="ArgumentException">Thrown when the entity type is unknown.</exception>
+        public async Task<T?> GetDeletedSnapshotAsync<T>(string entityType, string entityId) where T : class
+        {
+            (IEnumerable<AuditEntry> entries, int _) = await GetEntriesAsync(
+                entityType: entityType,
+                entityId: entityId,
+                action: AuditActions.Delete,
+                limit: 1);
+
+            JsonElement? before = entries.FirstOrDefault()?.Before;
+            if (before == null)
+            {
+                return null;
+            }
+
+            return before.Value.Deserialize<T>(SnapshotSerializerOptions);
+        }
+
+        /// <summary>
+        /// Gets the members of the current workspace who have made at least one recorded change in it.
+        /// </summary>
+        /// <returns>A collection of users ordered by username.</returns>
+        public async Task<IEnumerable<AuditUser>> GetUsersAsync()
+        {
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            IEnumerable<AuditUserDbModel> users = await _auditRepository.GetUsersAsync(workspaceId);
+            return users.Select(u => u.ToDomainAuditUser());
+        }
+    }
+}
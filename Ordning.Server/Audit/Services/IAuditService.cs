@@ -0,0 +1,52 @@
+using EasyReasy.Database;
+using Ordning.Server.Audit.Models;
+
+namespace Ordning.Server.Audit.Services
+{
+    /// <summary>
+    /// Service interface for recording and reading the audit log.
+    /// </summary>
+    public interface IAuditService
+    {
+        /// <summary>
+        /// Records a change made by the current user in the current workspace.
+        /// </summary>
+        /// <param name="entityType">The type of the changed entity, one of <see cref="AuditEntityTypes"/>.</param>
+        /// <param name="entityId">The identifier of the changed entity.</param>
+        /// <param name="action">The kind of change, one of <see cref="AuditActions"/>.</param>
+        /// <param name="before">The entity before the change, or null for a create.</param>
+        /// <param name="after">The entity after the change, or null for a delete.</param>
+        /// <param name="session">The database session to record the change in, so that it is only kept if the change itself is. Defaults to null.</param>
+        /// <returns>A task that completes when the change has been recorded.</returns>
+        Task RecordAsync(string entityType, string entityId, string action, object? before, object? after, IDbSession? session = null);
+
+        /// <summary>
+        /// Gets audit entries of the current workspace, newest first. Filters that are null or empty are not applied.
+        /// Changes to locations hidden from the current user, and to items in them, are left out.
+        /// </summary>
+        /// <param name="entityType">Only include changes to this type of entity. Defaults to null.</param>
+        /// <param name="entityId">Only include changes to the entity with this identifier. Defaults to null.</param>
+        /// <param name="userId">Only include changes made by this user. Defaults to null.</param>
+        /// <param name="action">Only include this kind of change. Defaults to null.</param>
+        /// <param name="offset">The number of entries to skip for pagination. Defaults to 0.</param>
+        /// <param name="limit">The maximum number of entries to return. Defaults to 20, maximum 100.</param>
+        /// <returns>A tuple containing the matching audit entries and the total count of matches.</returns>
+        /// <exception cref="ArgumentException">Thrown when a filter or pagination parameter is invalid.</exception>
+        Task<(IEnumerable<AuditEntry> Results, int TotalCount)> GetEntriesAsync(string? entityType = null, string? entityId = null, string? userId = null, string? action = null, int offset = 0, int limit = 20);
+
+        /// <summary>
+        /// Gets the snapshot recorded when an entity was last deleted, so that it can be restored.
+        /// </summary>
+        /// <typeparam name="T">The domain type the snapshot was recorded from.</typeparam>
+        /// <param name="entityType">The type of the deleted entity, one of <see cref="AuditEntityTypes"/>.</param>
+        /// <param name="entityId">The identifier of the deleted entity.</param>
+        /// <returns>The entity as it was right before it was deleted, or null if no deletion was recorded.</returns>
+        Task<T?> GetDeletedSnapshotAsync<T>(string entityType, string entityId) where T : class;
+
+        /// <summary>
+        /// Gets the members of the current workspace who have made at least one recorded change in it.
+        /// </summary>
+        /// <returns>A collection of users ordered by username.</returns>
+        Task<IEnumerable<AuditUser>> GetUsersAsync();
+    }
+}
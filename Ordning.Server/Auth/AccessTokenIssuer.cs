@@ -0,0 +1,57 @@
+using EasyReasy.Auth;
+using Ordning.Server.Users.Models;
+using System.Security.Claims;
+
+namespace Ordning.Server.Auth
+{
+    /// <summary>
+    /// Implementation of <see cref="IAccessTokenIssuer"/> that creates JWT tokens with the user's global roles.
+    /// </summary>
+    public class AccessTokenIssuer : IAccessTokenIssuer
+    {
+        /// <summary>
+        /// How long an access token works. Clients renew it with a refresh token before it expires.
+        /// </summary>
+        public static readonly TimeSpan Lifetime = TimeSpan.FromHours(1);
+
+        private readonly IJwtTokenService _jwtTokenService;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="AccessTokenIssuer"/> class.
+        /// </summary>
+        /// <param name="jwtTokenService">The JWT token service for creating tokens.</param>
+        public AccessTokenIssuer(IJwtTokenService jwtTokenService)
+        {
+            _jwtTokenService = jwtTokenService;
+        }
+
+        /// <summary>
+        /// Issues an access token for a user.
+        /// </summary>
+        /// <param name="user">The user to issue the token for.</param>
+        /// <returns>The access token and the UTC timestamp when it expires.</returns>
+        public (string Token, DateTimeOffset ExpiresAt) IssueToken(User user)
+        {
+            return IssueToken(_jwtTokenService, user);
+        }
+
+        /// <summary>
+        /// Issues an access token for a user with the given JWT token service.
+        /// </summary>
+        /// <param name="jwtTokenService">The JWT token service for creating tokens.</param>
+        /// <param name="user">The user to issue the token for.</param>
+        /// <returns>The access token and the UTC timestamp when it expires.</returns>
+        public static (string Token, DateTimeOffset ExpiresAt) IssueToken(IJwtTokenService jwtTokenService, User user)
+        {
+            DateTime expiresAt = DateTime.UtcNow.Add(Lifetime);
+            string token = jwtTokenService.CreateToken(
+                subject: user.Id,
+                authType: "user",
+                additionalClaims: Array.Empty<Claim>(),
+                roles: user.Roles.ToArray(),
+                expiresAt: expiresAt);
+
+            return (token, new DateTimeOffset(expiresAt));
+        }
+    }
+}
@@ -1,7 +1,6 @@
 using EasyReasy.Auth;
 using Ordning.Server.Users.Models;
 using Ordning.Server.Users.Services;
-using System.Security.Claims;
 
 namespace Ordning.Server.Auth
 {
@@ -55,15 +54,8 @@ namespace Ordning.Server.Auth
             if (user == null)
                 return null;
 
-            DateTime expiresAt = DateTime.UtcNow.AddHours(1);
-            string token = jwtTokenService.CreateToken(
-                subject: user.Id,
-                authType: "user",
-                additionalClaims: Array.Empty<Claim>(),
-                roles: user.Roles.ToArray(),
-                expiresAt: expiresAt);
-
-            return new AuthResponse(token, expiresAt.ToString("o"));
+            (string token, DateTimeOffset expiresAt) = AccessTokenIssuer.IssueToken(jwtTokenService, user);
+            return new AuthResponse(token, expiresAt.UtcDateTime.ToString("o"));
         }
     }
 }
@@ -0,0 +1,17 @@
+using Ordning.Server.Users.Models;
+
+namespace Ordning.Server.Auth
+{
+    /// <summary>
+    /// Issues the short-lived JWT access tokens that are sent with every request.
+    /// </summary>
+    public interface IAccessTokenIssuer
+    {
+        /// <summary>
+        /// Issues an access token for a user.
+        /// </summary>
+        /// <param name="user">The user to issue the token for.</param>
+        /// <returns>The access token and the UTC timestamp when it expires.</returns>
+        (string Token, DateTimeOffset ExpiresAt) IssueToken(User user);
+    }
+}
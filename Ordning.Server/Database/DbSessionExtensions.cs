@@ -0,0 +1,34 @@
+using System.Data;
+using EasyReasy.Database;
+
+namespace Ordning.Server.Database
+{
+    /// <summary>
+    /// Extension methods for running work in database sessions.
+    /// </summary>
+    public static class DbSessionExtensions
+    {
+        /// <summary>
+        /// Runs an action in the session's transaction, or in a new transaction that is committed when the action completes
+        /// if the session has none. A new transaction is rolled back if the action throws.
+        /// </summary>
+        /// <typeparam name="T">The type of the result.</typeparam>
+        /// <param name="dbSession">The database session to run the action in.</param>
+        /// <param name="action">The action to run with the transaction to use.</param>
+        /// <returns>The result of the action.</returns>
+        public static async Task<T> UseTransactionAsync<T>(this IDbSession dbSession, Func<IDbTransaction, Task<T>> action)
+        {
+            if (dbSession.Transaction != null)
+            {
+                return await action(dbSession.Transaction);
+            }
+
+            using (IDbTransaction transaction = dbSession.Connection.BeginTransaction())
+            {
+                T result = await action(transaction);
+                transaction.Commit();
+                return result;
+            }
+        }
+    }
+}
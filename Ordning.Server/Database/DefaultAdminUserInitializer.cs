@@ -1,9 +1,11 @@
 using Ordning.Server.Users.Services;
+using Ordning.Server.Workspaces.Models;
 
 namespace Ordning.Server.Database
 {
     /// <summary>
     /// Background service that initializes a default admin user if no users exist in the database.
+    /// The user becomes the admin of the default workspace.
     /// </summary>
     public class DefaultAdminUserInitializer : IHostedService
     {
@@ -45,7 +47,9 @@ namespace Ordning.Server.Database
                             username: "admin",
                             email: "admin@admin.com",
                             password: "admin",
-                            roles: new[] { "admin" });
+                            roles: new[] { "admin" },
+                            workspaceId: Workspace.DefaultId,
+                            workspaceRole: WorkspaceRoles.Admin);
                         
                         _logger.LogInformation("Default admin user created successfully. Username: admin, Email: admin@admin.com");
                     }
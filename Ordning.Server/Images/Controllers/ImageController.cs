@@ -0,0 +1,93 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.RateLimiting;
+using Ordning.Server.Images.Models;
+using Ordning.Server.Images.Services;
+using Ordning.Server.RateLimiting;
+
+namespace Ordning.Server.Images.Controllers
+{
+    /// <summary>
+    /// Controller for reading and deleting photos. Photos are uploaded through the entity they belong to.
+    /// </summary>
+    [ApiController]
+    [Route("api/[controller]")]
+    [EnableRateLimiting(RateLimitPolicies.Lenient)]
+    public class ImageController : ControllerBase
+    {
+        private readonly IImageService _imageService;
+        private readonly ILogger<ImageController> _logger;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ImageController"/> class.
+        /// </summary>
+        /// <param name="imageService">The image service.</param>
+        /// <param name="logger">The logger.</param>
+        public ImageController(IImageService imageService, ILogger<ImageController> logger)
+        {
+            _imageService = imageService;
+            _logger = logger;
+        }
+
+        /// <summary>
+        /// Gets the data of an image.
+        /// </summary>
+        /// <param name="id">The unique identifier of the image.</param>
+        /// <returns>The image data if found; otherwise, 404 Not Found.</returns>
+        [HttpGet("{id}")]
+        [Authorize]
+        [ProducesResponseType(200)]
+        [ProducesResponseType(404)]
+        public async Task<IActionResult> GetImage(Guid id)
+        {
+            return await GetImageContentAsync(id, thumbnail: false);
+        }
+
+        /// <summary>
+        /// Gets the thumbnail of an image.
+        /// </summary>
+        /// <param name="id">The unique identifier of the image.</param>
+        /// <returns>The thumbnail data if found; otherwise, 404 Not Found.</returns>
+        [HttpGet("{id}/thumbnail")]
+        [Authorize]
+        [ProducesResponseType(200)]
+        [ProducesResponseType(404)]
+        public async Task<IActionResult> GetThumbnail(Guid id)
+        {
+            return await GetImageContentAsync(id, thumbnail: true);
+        }
+
+        /// <summary>
+        /// Deletes an image.
+        /// </summary>
+        /// <param name="id">The unique identifier of the image to delete.</param>
+        /// <returns>204 No Content if deleted; otherwise, 404 Not Found.</returns>
+        [HttpDelete("{id}")]
+        [Authorize]
+        [ProducesResponseType(204)]
+        [ProducesResponseType(404)]
+        public async Task<IActionResult> DeleteImage(Guid id)
+        {
+            bool deleted = await _imageService.DeleteImageAsync(id);
+            if (!deleted)
+            {
+                return NotFound($"Image with ID '{id}' not found.");
+            }
+
+            return NoContent();
+        }
+
+        private async Task<IActionResult> GetImageContentAsync(Guid id, bool thumbnail)
+        {
+            ImageContent? imageContent = await _imageService.OpenImageAsync(id, thumbnail);
+            if (imageContent == null)
+            {
+                return NotFound($"Image with ID '{id}' not found.");
+            }
+
+            // Image data never changes for an ID, so clients can keep it for as long as they like
+            Response.Headers.CacheControl = "private, max-age=31536000, immutable";
+            return File(imageContent.Content, imageContent.ContentType);
+        }
+    }
+}
@@ -0,0 +1,71 @@
+namespace Ordning.Server.Images.Models
+{
+    /// <summary>
+    /// Represents a photo attached to an item or location. The image data itself is kept in blob storage.
+    /// </summary>
+    public class Image
+    {
+        /// <summary>
+        /// Gets the unique identifier for the image.
+        /// </summary>
+        public Guid Id { get; }
+
+        /// <summary>
+        /// Gets the type of entity the image is attached to, one of <see cref="ImageOwnerTypes"/>.
+        /// </summary>
+        public string OwnerType { get; }
+
+        /// <summary>
+        /// Gets the identifier of the entity the image is attached to.
+        /// </summary>
+        public string OwnerId { get; }
+
+        /// <summary>
+        /// Gets the content type of the image and its thumbnail, one of <see cref="ImageContentTypes"/>.
+        /// </summary>
+        public string ContentType { get; }
+
+        /// <summary>
+        /// Gets the width of the image in pixels.
+        /// </summary>
+        public int Width { get; }
+
+        /// <summary>
+        /// Gets the height of the image in pixels.
+        /// </summary>
+        public int Height { get; }
+
+        /// <summary>
+        /// Gets the size of the image in bytes, not counting the thumbnail.
+        /// </summary>
+        public long SizeBytes { get; }
+
+        /// <summary>
+        /// Gets the UTC timestamp when the image was uploaded.
+        /// </summary>
+        public DateTimeOffset CreatedAt { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="Image"/> class.
+        /// </summary>
+        /// <param name="id">The unique identifier for the image.</param>
+        /// <param name="ownerType">The type of entity the image is attached to.</param>
+        /// <param name="ownerId">The identifier of the entity the image is attached to.</param>
+        /// <param name="contentType">The content type of the image and its thumbnail.</param>
+        /// <param name="width">The width of the image in pixels.</param>
+        /// <param name="height">The height of the image in pixels.</param>
+        /// <param name="sizeBytes">The size of the image in bytes.</param>
+        /// <param name="createdAt">The UTC timestamp when the image was uploaded.</param>
+        public Image(Guid id, string ownerType, string ownerId, string contentType, int width, int height, long sizeBytes, DateTimeOffset createdAt = default)
+        {
+            Id = id;
+            OwnerType = ownerType;
+            OwnerId = ownerId;
+            ContentType = contentType;
+            Width = width;
+            Height = height;
+            SizeBytes = sizeBytes;
+            CreatedAt = createdAt;
+        }
+    }
+}
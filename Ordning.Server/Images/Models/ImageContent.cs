@@ -0,0 +1,29 @@
+namespace Ordning.Server.Images.Models
+{
+    /// <summary>
+    /// The data of a stored image or thumbnail, ready to be sent to a client.
+    /// </summary>
+    public class ImageContent
+    {
+        /// <summary>
+        /// Gets the image data. The caller is responsible for disposing it.
+        /// </summary>
+        public Stream Content { get; }
+
+        /// <summary>
+        /// Gets the content type of the image data.
+        /// </summary>
+        public string ContentType { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ImageContent"/> class.
+        /// </summary>
+        /// <param name="content">The image data.</param>
+        /// <param name="contentType">The content type of the image data.</param>
+        public ImageContent(Stream content, string contentType)
+        {
+            Content = content;
+            ContentType = contentType;
+        }
+    }
+}
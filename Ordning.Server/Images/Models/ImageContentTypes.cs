@@ -0,0 +1,39 @@
+namespace Ordning.Server.Images.Models
+{
+    /// <summary>
+    /// The image formats that can be uploaded. Clients convert photos to WebP before uploading,
+    /// and JPEG and PNG are accepted from browsers that can't encode WebP.
+    /// </summary>
+    public static class ImageContentTypes
+    {
+        /// <summary>
+        /// A WebP image.
+        /// </summary>
+        public const string Webp = "image/webp";
+
+        /// <summary>
+        /// A JPEG image.
+        /// </summary>
+        public const string Jpeg = "image/jpeg";
+
+        /// <summary>
+        /// A PNG image.
+        /// </summary>
+        public const string Png = "image/png";
+
+        /// <summary>
+        /// Gets all accepted image content types.
+        /// </summary>
+        public static IReadOnlyList<string> All { get; } = new[] { Webp, Jpeg, Png };
+
+        /// <summary>
+        /// Checks whether a value is an accepted image content type.
+        /// </summary>
+        /// <param name="contentType">The value to check.</param>
+        /// <returns>True if the value is an accepted image content type; otherwise, false.</returns>
+        public static bool IsValid(string contentType)
+        {
+            return All.Contains(contentType);
+        }
+    }
+}
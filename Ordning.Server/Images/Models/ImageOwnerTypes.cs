@@ -0,0 +1,33 @@
+namespace Ordning.Server.Images.Models
+{
+    /// <summary>
+    /// The kinds of entities that images can be attached to.
+    /// </summary>
+    public static class ImageOwnerTypes
+    {
+        /// <summary>
+        /// An item.
+        /// </summary>
+        public const string Item = "item";
+
+        /// <summary>
+        /// A location.
+        /// </summary>
+        public const string Location = "location";
+
+        /// <summary>
+        /// Gets all image owner types.
+        /// </summary>
+        public static IReadOnlyList<string> All { get; } = new[] { Item, Location };
+
+        /// <summary>
+        /// Checks whether a value is a known image owner type.
+        /// </summary>
+        /// <param name="ownerType">The value to check.</param>
+        /// <returns>True if the value is a known image owner type; otherwise, false.</returns>
+        public static bool IsValid(string ownerType)
+        {
+            return All.Contains(ownerType);
+        }
+    }
+}
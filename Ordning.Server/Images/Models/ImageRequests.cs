@@ -0,0 +1,29 @@
+namespace Ordning.Server.Images.Models
+{
+    /// <summary>
+    /// Multipart form request for uploading a photo. The client resizes and compresses the photo
+    /// and renders the thumbnail, both in the same format.
+    /// </summary>
+    public class UploadImageRequest
+    {
+        /// <summary>
+        /// Gets or sets the image file.
+        /// </summary>
+        public IFormFile Image { get; set; } = null!;
+
+        /// <summary>
+        /// Gets or sets the thumbnail file.
+        /// </summary>
+        public IFormFile Thumbnail { get; set; } = null!;
+
+        /// <summary>
+        /// Gets or sets the width of the image in pixels.
+        /// </summary>
+        public int Width { get; set; }
+
+        /// <summary>
+        /// Gets or sets the height of the image in pixels.
+        /// </summary>
+        public int Height { get; set; }
+    }
+}
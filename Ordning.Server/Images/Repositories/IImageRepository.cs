@@ -0,0 +1,61 @@
+using EasyReasy.Database;
+
+namespace Ordning.Server.Images.Repositories
+{
+    /// <summary>
+    /// Repository interface for image metadata data access operations.
+    /// </summary>
+    public interface IImageRepository : IRepository
+    {
+        /// <summary>
+        /// Gets an image by its unique identifier.
+        /// </summary>
+        /// <param name="id">The unique identifier of the image.</param>
+        /// <param name="workspaceId">Only find the image if it was uploaded in this workspace. Defaults to null, which finds it in any workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The image database model if found; otherwise, null.</returns>
+        Task<ImageDbModel?> GetByIdAsync(Guid id, Guid? workspaceId = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Gets the images attached to an entity, in upload order.
+        /// </summary>
+        /// <param name="ownerType">The type of entity the images are attached to.</param>
+        /// <param name="ownerId">The identifier of the entity the images are attached to.</param>
+        /// <param name="workspaceId">Only include images uploaded in this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of image database models.</returns>
+        Task<IEnumerable<ImageDbModel>> GetByOwnerAsync(string ownerType, string ownerId, Guid? workspaceId = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Gets the images whose owner no longer exists and was not deleted after a point in time. Images uploaded after that
+        /// point are never included.
+        /// </summary>
+        /// <param name="deletedBefore">Only include images whose owner was deleted before this time.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of image database models.</returns>
+        Task<IEnumerable<ImageDbModel>> GetOfDeletedOwnersAsync(DateTimeOffset deletedBefore, IDbSession? session = null);
+
+        /// <summary>
+        /// Creates a new image record, placed after the existing images of its owner.
+        /// </summary>
+        /// <param name="id">The unique identifier for the image.</param>
+        /// <param name="workspaceId">The unique identifier of the workspace the image is uploaded in.</param>
+        /// <param name="ownerType">The type of entity the image is attached to.</param>
+        /// <param name="ownerId">The identifier of the entity the image is attached to.</param>
+        /// <param name="contentType">The content type of the image.</param>
+        /// <param name="width">The width of the image in pixels.</param>
+        /// <param name="height">The height of the image in pixels.</param>
+        /// <param name="sizeBytes">The size of the image in bytes.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The created image database model.</returns>
+        Task<ImageDbModel> CreateAsync(Guid id, Guid workspaceId, string ownerType, string ownerId, string contentType, int width, int height, long sizeBytes, IDbSession? session = null);
+
+        /// <summary>
+        /// Deletes an image record.
+        /// </summary>
+        /// <param name="id">The unique identifier of the image to delete.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the image was deleted; otherwise, false.</returns>
+        Task<bool> DeleteAsync(Guid id, IDbSession? session = null);
+    }
+}
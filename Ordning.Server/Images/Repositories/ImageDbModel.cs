@@ -0,0 +1,77 @@
+using Ordning.Server.Images.Models;
+
+namespace Ordning.Server.Images.Repositories
+{
+    /// <summary>
+    /// Database model representing an image in the database.
+    /// </summary>
+    public class ImageDbModel
+    {
+        /// <summary>
+        /// Gets or sets the unique identifier for the image.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// Gets or sets the unique identifier of the workspace the image was uploaded in.
+        /// </summary>
+        public Guid WorkspaceId { get; set; }
+
+        /// <summary>
+        /// Gets or sets the type of entity the image is attached to.
+        /// </summary>
+        public string OwnerType { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the identifier of the entity the image is attached to.
+        /// </summary>
+        public string OwnerId { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the content type of the image.
+        /// </summary>
+        public string ContentType { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the width of the image in pixels.
+        /// </summary>
+        public int Width { get; set; }
+
+        /// <summary>
+        /// Gets or sets the height of the image in pixels.
+        /// </summary>
+        public int Height { get; set; }
+
+        /// <summary>
+        /// Gets or sets the size of the image in bytes.
+        /// </summary>
+        public long SizeBytes { get; set; }
+
+        /// <summary>
+        /// Gets or sets the position of the image among the images of its owner.
+        /// </summary>
+        public int SortOrder { get; set; }
+
+        /// <summary>
+        /// Gets or sets the UTC timestamp when the image was uploaded.
+        /// </summary>
+        public DateTimeOffset CreatedAt { get; set; }
+
+        /// <summary>
+        /// Converts the database model to a domain Image model.
+        /// </summary>
+        /// <returns>An Image domain model.</returns>
+        public Image ToDomainImage()
+        {
+            return new Image(
+                id: Id,
+                ownerType: OwnerType,
+                ownerId: OwnerId,
+                contentType: ContentType,
+                width: Width,
+                height: Height,
+                sizeBytes: SizeBytes,
+                createdAt: CreatedAt);
+        }
+    }
+}
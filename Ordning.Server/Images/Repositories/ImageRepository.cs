@@ -0,0 +1,185 @@
+using System.Data.Common;
+using Dapper;
+using EasyReasy.Database;
+
+namespace Ordning.Server.Images.Repositories
+{
+    /// <summary>
+    /// Repository implementation for image metadata data access operations.
+    /// </summary>
+    public class ImageRepository : RepositoryBase, IImageRepository
+    {
+        private const string SelectColumns = @"
+                        id,
+                        workspace_id AS WorkspaceId,
+                        owner_type AS OwnerType,
+                        owner_id AS OwnerId,
+                        content_type AS ContentType,
+                        width,
+                        height,
+                        size_bytes AS SizeBytes,
+                        sort_order AS SortOrder,
+                        created_at AS CreatedAt";
+
+        private const string WorkspaceCondition = "(@workspaceId::uuid IS NULL OR workspace_id = @workspaceId)";
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ImageRepository"/> class.
+        /// </summary>
+        /// <param name="dataSource">The database data source.</param>
+        /// <param name="sessionFactory">The session factory for creating database sessions.</param>
+        public ImageRepository(DbDataSource dataSource, IDbSessionFactory sessionFactory)
+            : base(dataSource, sessionFactory)
+        {
+        }
+
+        /// <summary>
+        /// Gets an image by its unique identifier.
+        /// </summary>
+        /// <param name="id">The unique identifier of the image.</param>
+        /// <param name="workspaceId">Only find the image if it was uploaded in this workspace. Defaults to null, which finds it in any workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The image database model if found; otherwise, null.</returns>
+        public async Task<ImageDbModel?> GetByIdAsync(Guid id, Guid? workspaceId = null, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT {SelectColumns}
+                    FROM images
+                    WHERE id = @{nameof(id)} AND {WorkspaceCondition}";
+
+                ImageDbModel? result = await dbSession.Connection.QuerySingleOrDefaultAsync<ImageDbModel>(
+                    query,
+                    new { id, workspaceId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets the images attached to an entity, in upload order.
+        /// </summary>
+        /// <param name="ownerType">The type of entity the images are attached to.</param>
+        /// <param name="ownerId">The identifier of the entity the images are attached to.</param>
+        /// <param name="workspaceId">Only include images uploaded in this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of image database models.</returns>
+        public async Task<IEnumerable<ImageDbModel>> GetByOwnerAsync(string ownerType, string ownerId, Guid? workspaceId = null, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT {SelectColumns}
+                    FROM images
+                    WHERE owner_type = @{nameof(ownerType)} AND owner_id = @{nameof(ownerId)} AND {WorkspaceCondition}
+                    ORDER BY sort_order, created_at";
+
+                IEnumerable<ImageDbModel> results = await dbSession.Connection.QueryAsync<ImageDbModel>(
+                    query,
+                    new { ownerType, ownerId, workspaceId },
+                    transaction: dbSession.Transaction);
+
+                return results;
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets the images whose owner no longer exists and was not deleted after a point in time. Images uploaded after that
+        /// point are never included.
+        /// </summary>
+        /// <param name="deletedBefore">Only include images whose owner was deleted before this time.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of image database models.</returns>
+        public async Task<IEnumerable<ImageDbModel>> GetOfDeletedOwnersAsync(DateTimeOffset deletedBefore, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                // An owner deleted again after being restored only counts from its latest deletion
+                string query = $@"
+                    SELECT {SelectColumns}
+                    FROM images
+                    WHERE created_at < @{nameof(deletedBefore)}
+                        AND NOT EXISTS (
+                            SELECT 1 FROM items
+                            WHERE images.owner_type = 'item' AND items.id::text = images.owner_id)
+                        AND NOT EXISTS (
+                            SELECT 1 FROM locations
+                            WHERE images.owner_type = 'location' AND locations.id = images.owner_id)
+                        AND NOT EXISTS (
+                            SELECT 1 FROM audit_log
+                            WHERE audit_log.entity_type = images.owner_type
+                                AND audit_log.entity_id = images.owner_id
+                                AND audit_log.action = 'delete'
+                                AND audit_log.created_at >= @{nameof(deletedBefore)})
+                    ORDER BY created_at";
+
+                IEnumerable<ImageDbModel> results = await dbSession.Connection.QueryAsync<ImageDbModel>(
+                    query,
+                    new { deletedBefore },
+                    transaction: dbSession.Transaction);
+
+                return results;
+            }, session);
+        }
+
+        /// <summary>
+        /// Creates a new image record, placed after the existing images of its owner.
+        /// </summary>
+        /// <param name="id">The unique identifier for the image.</param>
+        /// <param name="workspaceId">The unique identifier of the workspace the image is uploaded in.</param>
+        /// <param name="ownerType">The type of entity the image is attached to.</param>
+        /// <param name="ownerId">The identifier of the entity the image is attached to.</param>
+        /// <param name="contentType">The content type of the image.</param>
+        /// <param name="width">The width of the image in pixels.</param>
+        /// <param name="height">The height of the image in pixels.</param>
+        /// <param name="sizeBytes">The size of the image in bytes.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The created image database model.</returns>
+        public async Task<ImageDbModel> CreateAsync(Guid id, Guid workspaceId, string ownerType, string ownerId, string contentType, int width, int height, long sizeBytes, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    INSERT INTO images (id, workspace_id, owner_type, owner_id, content_type, width, height, size_bytes, sort_order)
+                    VALUES (
+                        @{nameof(id)}, @{nameof(workspaceId)}, @{nameof(ownerType)}, @{nameof(ownerId)}, @{nameof(contentType)},
+                        @{nameof(width)}, @{nameof(height)}, @{nameof(sizeBytes)},
+                        (SELECT COALESCE(MAX(sort_order) + 1, 0) FROM images
+                            WHERE workspace_id = @{nameof(workspaceId)} AND owner_type = @{nameof(ownerType)} AND owner_id = @{nameof(ownerId)}))
+                    RETURNING {SelectColumns}";
+
+                ImageDbModel result = await dbSession.Connection.QuerySingleAsync<ImageDbModel>(
+                    query,
+                    new { id, workspaceId, ownerType, ownerId, contentType, width, height, sizeBytes },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Deletes an image record.
+        /// </summary>
+        /// <param name="id">The unique identifier of the image to delete.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the image was deleted; otherwise, false.</returns>
+        public async Task<bool> DeleteAsync(Guid id, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    DELETE FROM images
+                    WHERE id = @{nameof(id)}";
+
+                int rowsAffected = await dbSession.Connection.ExecuteAsync(
+                    query,
+                    new { id },
+                    transaction: dbSession.Transaction);
+
+                return rowsAffected > 0;
+            }, session);
+        }
+    }
+}
@@ -0,0 +1,74 @@
+namespace Ordning.Server.Images.Services
+{
+    /// <summary>
+    /// Background service that regularly deletes the images of items and locations that were deleted longer than
+    /// <see cref="ImageService.DeletedOwnerRetention"/> ago, so their data does not stay in the blob store forever.
+    /// </summary>
+    public class DeletedOwnerImageCleanup : BackgroundService
+    {
+        /// <summary>
+        /// How often the images of deleted items and locations are looked for.
+        /// </summary>
+        public static readonly TimeSpan Interval = TimeSpan.FromHours(6);
+
+        private readonly IServiceProvider _serviceProvider;
+        private readonly ILogger<DeletedOwnerImageCleanup> _logger;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="DeletedOwnerImageCleanup"/> class.
+        /// </summary>
+        /// <param name="serviceProvider">The service provider for creating scoped services.</param>
+        /// <param name="logger">The logger for logging cleanup events.</param>
+        public DeletedOwnerImageCleanup(
+            IServiceProvider serviceProvider,
+            ILogger<DeletedOwnerImageCleanup> logger)
+        {
+            _serviceProvider = serviceProvider;
+            _logger = logger;
+        }
+
+        /// <summary>
+        /// Deletes the images of deleted items and locations once at startup and then every <see cref="Interval"/>.
+        /// </summary>
+        /// <param name="stoppingToken">The token that is cancelled when the application stops.</param>
+        protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+        {
+            using (PeriodicTimer timer = new PeriodicTimer(Interval))
+            {
+                do
+                {
+                    try
+                    {
+                        using (IServiceScope scope = _serviceProvider.CreateScope())
+                        {
+                            IImageService imageService = scope.ServiceProvider.GetRequiredService<IImageService>();
+                            int deletedCount = await imageService.DeleteImagesOfDeletedOwnersAsync();
+                            if (deletedCount > 0)
+                            {
+                                _logger.LogInformation("Deleted {DeletedCount} image(s) of deleted items and locations.", deletedCount);
+                            }
+                        }
+                    }
+                    catch (Exception ex)
+                    {
+                        // The next run tries again, so a failed run does not stop the application
+                        _logger.LogError(ex, "Failed to delete images of deleted items and locations");
+                    }
+                }
+                while (await WaitForNextTickAsync(timer, stoppingToken));
+            }
+        }
+
+        private static async Task<bool> WaitForNextTickAsync(PeriodicTimer timer, CancellationToken stoppingToken)
+        {
+            try
+            {
+                return await timer.WaitForNextTickAsync(stoppingToken);
+            }
+            catch (OperationCanceledException)
+            {
+                return false;
+            }
+        }
+    }
+}
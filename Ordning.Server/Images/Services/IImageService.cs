@@ -0,0 +1,68 @@
+using Ordning.Server.Images.Models;
+
+namespace Ordning.Server.Images.Services
+{
+    /// <summary>
+    /// Service interface for photos attached to items and locations.
+    /// </summary>
+    public interface IImageService
+    {
+        /// <summary>
+        /// Gets an image by its unique identifier.
+        /// </summary>
+        /// <param name="id">The unique identifier of the image.</param>
+        /// <returns>The image if found in the current workspace; otherwise, null.</returns>
+        Task<Image?> GetImageByIdAsync(Guid id);
+
+        /// <summary>
+        /// Gets the images attached to an entity, in upload order.
+        /// </summary>
+        /// <param name="ownerType">The type of entity the images are attached to, one of <see cref="ImageOwnerTypes"/>.</param>
+        /// <param name="ownerId">The identifier of the entity the images are attached to.</param>
+        /// <returns>A collection of images, empty when the owner does not exist in the current workspace.</returns>
+        /// <exception cref="ArgumentException">Thrown when the owner type is not valid.</exception>
+        Task<IEnumerable<Image>> GetImagesAsync(string ownerType, string ownerId);
+
+        /// <summary>
+        /// Stores an uploaded image and its thumbnail and attaches them to an entity. Images are resized
+        /// and compressed by the client, so the server only checks that they are within the limits.
+        /// </summary>
+        /// <param name="ownerType">The type of entity to attach the image to, one of <see cref="ImageOwnerTypes"/>.</param>
+        /// <param name="ownerId">The identifier of the entity to attach the image to.</param>
+        /// <param name="image">The image data.</param>
+        /// <param name="imageSizeBytes">The size of the image data in bytes.</param>
+        /// <param name="thumbnail">The thumbnail data.</param>
+        /// <param name="thumbnailSizeBytes">The size of the thumbnail data in bytes.</param>
+        /// <param name="contentType">The content type of the image and the thumbnail, one of <see cref="ImageContentTypes"/>.</param>
+        /// <param name="width">The width of the image in pixels.</param>
+        /// <param name="height">The height of the image in pixels.</param>
+        /// <returns>The stored image.</returns>
+        /// <exception cref="ArgumentException">Thrown when the owner type, content type, size or dimensions are not valid, or when the owner does not exist.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when the owner already has the maximum number of images.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the owner is in a location the current user may not change.</exception>
+        Task<Image> AddImageAsync(string ownerType, string ownerId, Stream image, long imageSizeBytes, Stream thumbnail, long thumbnailSizeBytes, string contentType, int width, int height);
+
+        /// <summary>
+        /// Opens the data of an image or its thumbnail for reading.
+        /// </summary>
+        /// <param name="id">The unique identifier of the image.</param>
+        /// <param name="thumbnail">Whether to open the thumbnail instead of the full image.</param>
+        /// <returns>The image data if found in the current workspace; otherwise, null. The caller is responsible for disposing the stream.</returns>
+        Task<ImageContent?> OpenImageAsync(Guid id, bool thumbnail);
+
+        /// <summary>
+        /// Deletes an image and its thumbnail.
+        /// </summary>
+        /// <param name="id">The unique identifier of the image to delete.</param>
+        /// <returns>True if the image was deleted; otherwise, false, also when it is not in the current workspace or hidden from the current user.</returns>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the owner is in a location the current user may not change.</exception>
+        Task<bool> DeleteImageAsync(Guid id);
+
+        /// <summary>
+        /// Deletes the images and thumbnails of items and locations that were deleted longer than
+        /// <see cref="ImageService.DeletedOwnerRetention"/> ago. Runs outside of a request, so it is not limited to a workspace.
+        /// </summary>
+        /// <returns>The number of images deleted.</returns>
+        Task<int> DeleteImagesOfDeletedOwnersAsync();
+    }
+}
@@ -0,0 +1,324 @@
+using Ordning.Server.Images.Models;
+using Ordning.Server.Images.Repositories;
+using Ordning.Server.Items.Repositories;
+using Ordning.Server.Locations.Repositories;
+using Ordning.Server.Locations.Services;
+using Ordning.Server.Storage;
+using Ordning.Server.Workspaces.Models;
+using Ordning.Server.Workspaces.Services;
+
+namespace Ordning.Server.Images.Services
+{
+    /// <summary>
+    /// Implementation of <see cref="IImageService"/> that keeps image metadata in the database and
+    /// the image data in the configured <see cref="IBlobStore"/>. Images of items and locations hidden by access rules are
+    /// treated as if they did not exist, and images can only be added or removed where the current user may make changes.
+    /// </summary>
+    public class ImageService : IImageService
+    {
+        /// <summary>
+        /// The largest image that can be uploaded, in bytes.
+        /// </summary>
+        public const long MaxImageSizeBytes = 10 * 1024 * 1024;
+
+        /// <summary>
+        /// The largest thumbnail that can be uploaded, in bytes.
+        /// </summary>
+        public const long MaxThumbnailSizeBytes = 1024 * 1024;
+
+        /// <summary>
+        /// The largest upload request, which holds an image, its thumbnail and a little room for the form fields.
+        /// </summary>
+        public const long MaxUploadRequestSizeBytes = MaxImageSizeBytes + MaxThumbnailSizeBytes + 64 * 1024;
+
+        /// <summary>
+        /// The largest width or height of an uploaded image, in pixels.
+        /// </summary>
+        public const int MaxDimension = 8192;
+
+        /// <summary>
+        /// The maximum number of images that can be attached to one entity.
+        /// </summary>
+        public const int MaxImagesPerOwner = 20;
+
+        /// <summary>
+        /// How long the images of a deleted item or location are kept, so that restoring it brings them back.
+        /// </summary>
+        public static readonly TimeSpan DeletedOwnerRetention = TimeSpan.FromDays(30);
+
+        private readonly IImageRepository _imageRepository;
+        private readonly IItemRepository _itemRepository;
+        private readonly ILocationRepository _locationRepository;
+        private readonly IBlobStore _blobStore;
+        private readonly IWorkspaceService _workspaceService;
+        private readonly ILocationAccessService _locationAccessService;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ImageService"/> class.
+        /// </summary>
+        /// <param name="imageRepository">The image repository for database access.</param>
+        /// <param name="itemRepository">The item repository for validating item owners.</param>
+        /// <param name="locationRepository">The location repository for validating location owners.</param>
+        /// <param name="blobStore">The blob store that holds the image data.</param>
+        /// <param name="workspaceService">The workspace service used to check that owners are in the workspace of the current request.</param>
+        /// <param name="locationAccessService">The location access service used to check what the current user may see and change.</param>
+        public ImageService(IImageRepository imageRepository, IItemRepository itemRepository, ILocationRepository locationRepository, IBlobStore blobStore, IWorkspaceService workspaceService, ILocationAccessService locationAccessService)
+        {
+            _imageRepository = imageRepository;
+            _itemRepository = itemRepository;
+            _locationRepository = locationRepository;
+            _blobStore = blobStore;
+            _workspaceService = workspaceService;
+            _locationAccessService = locationAccessService;
+        }
+
+        /// <summary>
+        /// Gets an image by its unique identifier.
+        /// </summary>
+        /// <param name="id">The unique identifier of the image.</param>
+        /// <returns>The image if found in the current workspace; otherwise, null.</returns>
+        public async Task<Image?> GetImageByIdAsync(Guid id)
+        {
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            (ImageDbModel? imageDbModel, string? _) = await GetVisibleImageAsync(id, workspaceId);
+            return imageDbModel?.ToDomainImage();
+        }
+
+        /// <summary>
+        /// Gets the images attached to an entity, in upload order.
+        /// </summary>
+        /// <param name="ownerType">The type of entity the images are attached to, one of <see cref="ImageOwnerTypes"/>.</param>
+        /// <param name="ownerId">The identifier of the entity the images are attached to.</param>
+        /// <returns>A collection of images, empty when the owner does not exist in the current workspace.</returns>
+        /// <exception cref="ArgumentException">Thrown when the owner type is not valid.</exception>
+        public async Task<IEnumerable<Image>> GetImagesAsync(string ownerType, string ownerId)
+        {
+            ValidateOwnerType(ownerType);
+
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            string? locationId = await GetOwnerLocationIdAsync(ownerType, ownerId, workspaceId);
+            if (locationId == null || (await _locationAccessService.GetHiddenLocationIdsAsync()).Contains(locationId))
+            {
+                return Enumerable.Empty<Image>();
+            }
+
+            IEnumerable<ImageDbModel> imageDbModels = await _imageRepository.GetByOwnerAsync(ownerType, ownerId, workspaceId: workspaceId);
+            return imageDbModels.Select(i => i.ToDomainImage());
+        }
+
+        /// <summary>
+        /// Stores an uploaded image and its thumbnail and attaches them to an entity. Images are resized
+        /// and compressed by the client, so the server only checks that they are within the limits.
+        /// </summary>
+        /// <param name="ownerType">The type of entity to attach the image to, one of <see cref="ImageOwnerTypes"/>.</param>
+        /// <param name="ownerId">The identifier of the entity to attach the image to.</param>
+        /// <param name="image">The image data.</param>
+        /// <param name="imageSizeBytes">The size of the image data in bytes.</param>
+        /// <param name="thumbnail">The thumbnail data.</param>
+        /// <param name="thumbnailSizeBytes">The size of the thumbnail data in bytes.</param>
+        /// <param name="contentType">The content type of the image and the thumbnail, one of <see cref="ImageContentTypes"/>.</param>
+        /// <param name="width">The width of the image in pixels.</param>
+        /// <param name="height">The height of the image in pixels.</param>
+        /// <returns>The stored image.</returns>
+        /// <exception cref="ArgumentException">Thrown when the owner type, content type, size or dimensions are not valid, or when the owner does not exist in the current workspace.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when the owner already has the maximum number of images.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the owner is in a location the current user may not change.</exception>
+        public async Task<Image> AddImageAsync(string ownerType, string ownerId, Stream image, long imageSizeBytes, Stream thumbnail, long thumbnailSizeBytes, string contentType, int width, int height)
+        {
+            ValidateOwnerType(ownerType);
+
+            if (!ImageContentTypes.IsValid(contentType))
+            {
+                throw new ArgumentException($"Images must be one of: {string.Join(", ", ImageContentTypes.All)}.", nameof(contentType));
+            }
+
+            if (imageSizeBytes <= 0 || imageSizeBytes > MaxImageSizeBytes)
+            {
+                throw new ArgumentException($"Images must be between 1 byte and {MaxImageSizeBytes / (1024 * 1024)} MB.", nameof(imageSizeBytes));
+            }
+
+            if (thumbnailSizeBytes <= 0 || thumbnailSizeBytes > MaxThumbnailSizeBytes)
+            {
+                throw new ArgumentException($"Thumbnails must be between 1 byte and {MaxThumbnailSizeBytes / 1024} KB.", nameof(thumbnailSizeBytes));
+            }
+
+            if (width <= 0 || height <= 0 || width > MaxDimension || height > MaxDimension)
+            {
+                throw new ArgumentException($"Image width and height must be between 1 and {MaxDimension} pixels.", nameof(width));
+            }
+
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write);
+            string? locationId = await GetOwnerLocationIdAsync(ownerType, ownerId, workspaceId);
+            if (locationId == null)
+            {
+                throw new ArgumentException($"No {ownerType} with ID '{ownerId}' exists.", nameof(ownerId));
+            }
+
+            await _locationAccessService.EnsureCanWriteAsync(new[] { locationId });
+
+            IEnumerable<ImageDbModel> existingImages = await _imageRepository.GetByOwnerAsync(ownerType, ownerId, workspaceId: workspaceId);
+            if (existingImages.Count() >= MaxImagesPerOwner)
+            {
+                throw new InvalidOperationException($"A {ownerType} can have at most {MaxImagesPerOwner} images.");
+            }
+
+            Guid imageId = Guid.NewGuid();
+            await _blobStore.SaveAsync(GetImageKey(imageId), image, contentType);
+            await _blobStore.SaveAsync(GetThumbnailKey(imageId), thumbnail, contentType);
+
+            try
+            {
+                ImageDbModel imageDbModel = await _imageRepository.CreateAsync(
+                    id: imageId,
+                    workspaceId: workspaceId,
+                    ownerType: ownerType,
+                    ownerId: ownerId,
+                    contentType: contentType,
+                    width: width,
+                    height: height,
+                    sizeBytes: imageSizeBytes);
+
+                return imageDbModel.ToDomainImage();
+            }
+            catch
+            {
+                await DeleteBlobsAsync(imageId);
+                throw;
+            }
+        }
+
+        /// <summary>
+        /// Opens the data of an image or its thumbnail for reading.
+        /// </summary>
+        /// <param name="id">The unique identifier of the image.</param>
+        /// <param name="thumbnail">Whether to open the thumbnail instead of the full image.</param>
+        /// <returns>The image data if found in the current workspace; otherwise, null. The caller is responsible for disposing the stream.</returns>
+        public async Task<ImageContent?> OpenImageAsync(Guid id, bool thumbnail)
+        {
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            (ImageDbModel? imageDbModel, string? _) = await GetVisibleImageAsync(id, workspaceId);
+            if (imageDbModel == null)
+            {
+                return null;
+            }
+
+            Stream? content = await _blobStore.OpenReadAsync(thumbnail ? GetThumbnailKey(id) : GetImageKey(id));
+            if (content == null)
+            {
+                return null;
+            }
+
+            return new ImageContent(content, imageDbModel.ContentType);
+        }
+
+        /// <summary>
+        /// Deletes an image and its thumbnail.
+        /// </summary>
+        /// <param name="id">The unique identifier of the image to delete.</param>
+        /// <returns>True if the image was deleted; otherwise, false, also when it is not in the current workspace or hidden from the current user.</returns>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the owner is in a location the current user may not change.</exception>
+        public async Task<bool> DeleteImageAsync(Guid id)
+        {
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write);
+            (ImageDbModel? imageDbModel, string? locationId) = await GetVisibleImageAsync(id, workspaceId);
+            if (imageDbModel == null || locationId == null)
+            {
+                return false;
+            }
+
+            await _locationAccessService.EnsureCanWriteAsync(new[] { locationId });
+
+            bool deleted = await _imageRepository.DeleteAsync(id);
+            if (deleted)
+            {
+                await DeleteBlobsAsync(id);
+            }
+
+            return deleted;
+        }
+
+        /// <summary>
+        /// Deletes the images and thumbnails of items and locations that were deleted longer than
+        /// <see cref="DeletedOwnerRetention"/> ago. Runs outside of a request, so it is not limited to a workspace.
+        /// </summary>
+        /// <returns>The number of images deleted.</returns>
+        public async Task<int> DeleteImagesOfDeletedOwnersAsync()
+        {
+            IEnumerable<ImageDbModel> images = await _imageRepository.GetOfDeletedOwnersAsync(DateTimeOffset.UtcNow - DeletedOwnerRetention);
+
+            int deletedCount = 0;
+            foreach (ImageDbModel imageDbModel in images)
+            {
+                if (await _imageRepository.DeleteAsync(imageDbModel.Id))
+                {
+                    await DeleteBlobsAsync(imageDbModel.Id);
+                    deletedCount++;
+                }
+            }
+
+            return deletedCount;
+        }
+
+        private static void ValidateOwnerType(string ownerType)
+        {
+            if (!ImageOwnerTypes.IsValid(ownerType))
+            {
+                throw new ArgumentException($"Image owner type must be one of: {string.Join(", ", ImageOwnerTypes.All)}.", nameof(ownerType));
+            }
+        }
+
+        // The owner of an image must also still be in the workspace, and its location decides who may see the image
+        private async Task<(ImageDbModel? Image, string? LocationId)> GetVisibleImageAsync(Guid id, Guid workspaceId)
+        {
+            ImageDbModel? imageDbModel = await _imageRepository.GetByIdAsync(id, workspaceId: workspaceId);
+            if (imageDbModel == null)
+            {
+                return (null, null);
+            }
+
+            string? locationId = await GetOwnerLocationIdAsync(imageDbModel.OwnerType, imageDbModel.OwnerId, workspaceId);
+            if (locationId == null || (await _locationAccessService.GetHiddenLocationIdsAsync()).Contains(locationId))
+            {
+                return (null, null);
+            }
+
+            return (imageDbModel, locationId);
+        }
+
+        // The location an owner is in, which for a location is the location itself, or null if the owner is not in the workspace
+        private async Task<string?> GetOwnerLocationIdAsync(string ownerType, string ownerId, Guid workspaceId)
+        {
+            switch (ownerType)
+            {
+                case ImageOwnerTypes.Item:
+                    if (!Guid.TryParse(ownerId, out Guid itemId))
+                    {
+                        return null;
+                    }
+
+                    ItemDbModel? item = await _itemRepository.GetByIdAsync(itemId, workspaceId: workspaceId);
+                    return item?.LocationId;
+                case ImageOwnerTypes.Location:
+                    return await _locationRepository.ExistsAsync(ownerId, workspaceId: workspaceId) ? ownerId : null;
+                default:
+                    return null;
+            }
+        }
+
+        private async Task DeleteBlobsAsync(Guid id)
+        {
+            await _blobStore.DeleteAsync(GetImageKey(id));
+            await _blobStore.DeleteAsync(GetThumbnailKey(id));
+        }
+
+        private static string GetImageKey(Guid id)
+        {
+            return $"images/{id}";
+        }
+
+        private static string GetThumbnailKey(Guid id)
+        {
+            return $"images/{id}.thumbnail";
+        }
+    }
+}
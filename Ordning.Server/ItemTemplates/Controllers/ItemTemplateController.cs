@@ -0,0 +1,125 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.RateLimiting;
+using Ordning.Server.ItemTemplates.Models;
+using Ordning.Server.ItemTemplates.Services;
+using Ordning.Server.RateLimiting;
+
+namespace Ordning.Server.ItemTemplates.Controllers
+{
+    /// <summary>
+    /// Controller for managing item templates. Anyone signed in can read them to add items; only admins can change them.
+    /// </summary>
+    [ApiController]
+    [Route("api/[controller]")]
+    [EnableRateLimiting(RateLimitPolicies.Lenient)]
+    public class ItemTemplateController : ControllerBase
+    {
+        private readonly IItemTemplateService _itemTemplateService;
+        private readonly ILogger<ItemTemplateController> _logger;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ItemTemplateController"/> class.
+        /// </summary>
+        /// <param name="itemTemplateService">The item template service.</param>
+        /// <param name="logger">The logger.</param>
+        public ItemTemplateController(IItemTemplateService itemTemplateService, ILogger<ItemTemplateController> logger)
+        {
+            _itemTemplateService = itemTemplateService;
+            _logger = logger;
+        }
+
+        /// <summary>
+        /// Gets all item templates, ordered by name.
+        /// </summary>
+        /// <returns>A collection of all item templates.</returns>
+        [HttpGet]
+        [Authorize]
+        [ProducesResponseType(typeof(IEnumerable<ItemTemplate>), 200)]
+        public async Task<ActionResult<IEnumerable<ItemTemplate>>> GetAllItemTemplates()
+        {
+            IEnumerable<ItemTemplate> templates = await _itemTemplateService.GetAllItemTemplatesAsync();
+            return Ok(templates);
+        }
+
+        /// <summary>
+        /// Gets an item template by its unique identifier.
+        /// </summary>
+        /// <param name="id">The unique identifier of the template.</param>
+        /// <returns>The item template if found; otherwise, 404 Not Found.</returns>
+        [HttpGet("{id}")]
+        [Authorize]
+        [ProducesResponseType(typeof(ItemTemplate), 200)]
+        [ProducesResponseType(404)]
+        public async Task<ActionResult<ItemTemplate>> GetItemTemplate(Guid id)
+        {
+            ItemTemplate? template = await _itemTemplateService.GetItemTemplateAsync(id);
+            if (template == null)
+            {
+                return NotFound($"Item template with ID '{id}' not found.");
+            }
+
+            return Ok(template);
+        }
+
+        /// <summary>
+        /// Creates a new item template.
+        /// </summary>
+        /// <param name="request">The item template creation request.</param>
+        /// <returns>The created item template.</returns>
+        [HttpPost]
+        [Authorize(Roles = "admin")]
+        [ProducesResponseType(typeof(ItemTemplate), 201)]
+        [ProducesResponseType(400)]
+        public async Task<ActionResult<ItemTemplate>> CreateItemTemplate([FromBody] CreateItemTemplateRequest request)
+        {
+            ItemTemplate template = await _itemTemplateService.CreateItemTemplateAsync(
+                name: request.Name,
+                description: request.Description,
+                properties: request.Properties);
+
+            return CreatedAtAction(nameof(GetItemTemplate), new { id = template.Id }, template);
+        }
+
+        /// <summary>
+        /// Updates an existing item template. Items created from the template are not changed.
+        /// </summary>
+        /// <param name="id">The unique identifier of the template to update.</param>
+        /// <param name="request">The item template update request.</param>
+        /// <returns>The updated item template.</returns>
+        [HttpPut("{id}")]
+        [Authorize(Roles = "admin")]
+        [ProducesResponseType(typeof(ItemTemplate), 200)]
+        [ProducesResponseType(400)]
+        public async Task<ActionResult<ItemTemplate>> UpdateItemTemplate(Guid id, [FromBody] UpdateItemTemplateRequest request)
+        {
+            ItemTemplate template = await _itemTemplateService.UpdateItemTemplateAsync(
+                id: id,
+                name: request.Name,
+                description: request.Description,
+                properties: request.Properties);
+
+            return Ok(template);
+        }
+
+        /// <summary>
+        /// Deletes an item template. Items created from the template are kept and lose the reference to it.
+        /// </summary>
+        /// <param name="id">The unique identifier of the template to delete.</param>
+        /// <returns>204 No Content if deleted; otherwise, 404 Not Found.</returns>
+        [HttpDelete("{id}")]
+        [Authorize(Roles = "admin")]
+        [ProducesResponseType(204)]
+        [ProducesResponseType(404)]
+        public async Task<IActionResult> DeleteItemTemplate(Guid id)
+        {
+            bool deleted = await _itemTemplateService.DeleteItemTemplateAsync(id);
+            if (!deleted)
+            {
+                return NotFound($"Item template with ID '{id}' not found.");
+            }
+
+            return NoContent();
+        }
+    }
+}
@@ -0,0 +1,58 @@
+namespace Ordning.Server.ItemTemplates.Models
+{
+    /// <summary>
+    /// Represents a template for similar items, such as "Battery". Picking a template when adding an item prefills its
+    /// description and properties, and the item keeps a reference to the template so that it can be used as a category.
+    /// </summary>
+    public class ItemTemplate
+    {
+        /// <summary>
+        /// Gets the unique identifier for the template.
+        /// </summary>
+        public Guid Id { get; }
+
+        /// <summary>
+        /// Gets the name of the template.
+        /// </summary>
+        public string Name { get; }
+
+        /// <summary>
+        /// Gets the description that new items get, if any.
+        /// </summary>
+        public string? Description { get; }
+
+        /// <summary>
+        /// Gets the properties that new items get, in the order they are shown.
+        /// </summary>
+        public IReadOnlyList<ItemTemplateProperty> Properties { get; }
+
+        /// <summary>
+        /// Gets the UTC timestamp when the template was created.
+        /// </summary>
+        public DateTimeOffset CreatedAt { get; }
+
+        /// <summary>
+        /// Gets the UTC timestamp when the template was last updated.
+        /// </summary>
+        public DateTimeOffset UpdatedAt { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ItemTemplate"/> class.
+        /// </summary>
+        /// <param name="id">The unique identifier for the template.</param>
+        /// <param name="name">The name of the template.</param>
+        /// <param name="description">The description that new items get. Defaults to null.</param>
+        /// <param name="properties">The properties that new items get. Defaults to an empty list.</param>
+        /// <param name="createdAt">The UTC timestamp when the template was created.</param>
+        /// <param name="updatedAt">The UTC timestamp when the template was last updated.</param>
+        public ItemTemplate(Guid id, string name, string? description = null, IReadOnlyList<ItemTemplateProperty>? properties = null, DateTimeOffset createdAt = default, DateTimeOffset updatedAt = default)
+        {
+            Id = id;
+            Name = name;
+            Description = description;
+            Properties = properties ?? Array.Empty<ItemTemplateProperty>();
+            CreatedAt = createdAt;
+            UpdatedAt = updatedAt;
+        }
+    }
+}
@@ -0,0 +1,29 @@
+namespace Ordning.Server.ItemTemplates.Models
+{
+    /// <summary>
+    /// Represents a property that an item template prefills, with an optional default value.
+    /// </summary>
+    public class ItemTemplateProperty
+    {
+        /// <summary>
+        /// Gets the property key.
+        /// </summary>
+        public string Key { get; }
+
+        /// <summary>
+        /// Gets the default value of the property. Empty when the user fills in the value.
+        /// </summary>
+        public string Value { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ItemTemplateProperty"/> class.
+        /// </summary>
+        /// <param name="key">The property key.</param>
+        /// <param name="value">The default value of the property. Defaults to empty.</param>
+        public ItemTemplateProperty(string key, string? value = null)
+        {
+            Key = key;
+            Value = value ?? string.Empty;
+        }
+    }
+}
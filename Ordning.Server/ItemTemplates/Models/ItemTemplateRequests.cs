@@ -0,0 +1,44 @@
+namespace Ordning.Server.ItemTemplates.Models
+{
+    /// <summary>
+    /// Request model for creating an item template.
+    /// </summary>
+    public class CreateItemTemplateRequest
+    {
+        /// <summary>
+        /// Gets or sets the name of the template.
+        /// </summary>
+        public string Name { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the description that new items get.
+        /// </summary>
+        public string? Description { get; set; }
+
+        /// <summary>
+        /// Gets or sets the properties that new items get, in the order they are shown.
+        /// </summary>
+        public List<ItemTemplateProperty>? Properties { get; set; }
+    }
+
+    /// <summary>
+    /// Request model for updating an item template.
+    /// </summary>
+    public class UpdateItemTemplateRequest
+    {
+        /// <summary>
+        /// Gets or sets the name of the template.
+        /// </summary>
+        public string Name { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the description that new items get.
+        /// </summary>
+        public string? Description { get; set; }
+
+        /// <summary>
+        /// Gets or sets the properties that new items get, in the order they are shown.
+        /// </summary>
+        public List<ItemTemplateProperty>? Properties { get; set; }
+    }
+}
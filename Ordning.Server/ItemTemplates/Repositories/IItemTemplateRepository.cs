@@ -0,0 +1,64 @@
+using EasyReasy.Database;
+using Ordning.Server.ItemTemplates.Models;
+
+namespace Ordning.Server.ItemTemplates.Repositories
+{
+    /// <summary>
+    /// Repository interface for item template data access operations.
+    /// </summary>
+    public interface IItemTemplateRepository : IRepository
+    {
+        /// <summary>
+        /// Gets all item templates, ordered by name.
+        /// </summary>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of all item template database models.</returns>
+        Task<IEnumerable<ItemTemplateDbModel>> GetAllAsync(IDbSession? session = null);
+
+        /// <summary>
+        /// Gets an item template by its unique identifier.
+        /// </summary>
+        /// <param name="id">The unique identifier of the template.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The item template database model if found; otherwise, null.</returns>
+        Task<ItemTemplateDbModel?> GetByIdAsync(Guid id, IDbSession? session = null);
+
+        /// <summary>
+        /// Gets an item template by its name, ignoring case.
+        /// </summary>
+        /// <param name="name">The name of the template.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The item template database model if found; otherwise, null.</returns>
+        Task<ItemTemplateDbModel?> GetByNameAsync(string name, IDbSession? session = null);
+
+        /// <summary>
+        /// Creates a new item template in the database.
+        /// </summary>
+        /// <param name="id">The unique identifier for the template.</param>
+        /// <param name="name">The name of the template.</param>
+        /// <param name="description">The description that new items get. Defaults to null.</param>
+        /// <param name="properties">The properties that new items get, in order. Defaults to null for none.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The created item template database model.</returns>
+        Task<ItemTemplateDbModel> CreateAsync(Guid id, string name, string? description = null, IEnumerable<ItemTemplateProperty>? properties = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Updates an existing item template in the database. Items created from the template are not changed.
+        /// </summary>
+        /// <param name="id">The unique identifier of the template to update.</param>
+        /// <param name="name">The new name of the template.</param>
+        /// <param name="description">The new description that new items get. Defaults to null.</param>
+        /// <param name="properties">The new properties that new items get, in order. Defaults to null for none.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the template was found and updated; otherwise, false.</returns>
+        Task<bool> UpdateAsync(Guid id, string name, string? description = null, IEnumerable<ItemTemplateProperty>? properties = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Deletes an item template from the database. Items created from the template are kept and lose the reference to it.
+        /// </summary>
+        /// <param name="id">The unique identifier of the template to delete.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the template was found and deleted; otherwise, false.</returns>
+        Task<bool> DeleteAsync(Guid id, IDbSession? session = null);
+    }
+}
@@ -0,0 +1,69 @@
+using System.Text.Json;
+using Ordning.Server.ItemTemplates.Models;
+
+namespace Ordning.Server.ItemTemplates.Repositories
+{
+    /// <summary>
+    /// Database model representing an item template in the database.
+    /// </summary>
+    public class ItemTemplateDbModel
+    {
+        /// <summary>
+        /// Gets or sets the unique identifier for the template.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// Gets or sets the name of the template.
+        /// </summary>
+        public string Name { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the description that new items get.
+        /// </summary>
+        public string? Description { get; set; }
+
+        /// <summary>
+        /// Gets or sets the properties that new items get as a JSON array string.
+        /// </summary>
+        public string PropertiesJson { get; set; } = "[]";
+
+        /// <summary>
+        /// Gets or sets the UTC timestamp when the template was created.
+        /// </summary>
+        public DateTimeOffset CreatedAt { get; set; }
+
+        /// <summary>
+        /// Gets or sets the UTC timestamp when the template was last updated.
+        /// </summary>
+        public DateTimeOffset UpdatedAt { get; set; }
+
+        /// <summary>
+        /// Converts the database model to a domain ItemTemplate model.
+        /// </summary>
+        /// <returns>An ItemTemplate domain model.</returns>
+        public ItemTemplate ToDomainItemTemplate()
+        {
+            List<ItemTemplateProperty> properties = new List<ItemTemplateProperty>();
+            if (!string.IsNullOrWhiteSpace(PropertiesJson))
+            {
+                try
+                {
+                    properties = JsonSerializer.Deserialize<List<ItemTemplateProperty>>(PropertiesJson) ?? new List<ItemTemplateProperty>();
+                }
+                catch
+                {
+                    properties = new List<ItemTemplateProperty>();
+                }
+            }
+
+            return new ItemTemplate(
+                id: Id,
+                name: Name,
+                description: Description,
+                properties: properties,
+                createdAt: CreatedAt,
+                updatedAt: UpdatedAt);
+        }
+    }
+}
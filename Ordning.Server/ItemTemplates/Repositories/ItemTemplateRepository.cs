@@ -0,0 +1,202 @@
+using System.Data.Common;
+using System.Text.Json;
+using Dapper;
+using EasyReasy.Database;
+using Ordning.Server.ItemTemplates.Models;
+
+namespace Ordning.Server.ItemTemplates.Repositories
+{
+    /// <summary>
+    /// Repository implementation for item template data access operations.
+    /// </summary>
+    public class ItemTemplateRepository : RepositoryBase, IItemTemplateRepository
+    {
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ItemTemplateRepository"/> class.
+        /// </summary>
+        /// <param name="dataSource">The database data source.</param>
+        /// <param name="sessionFactory">The session factory for creating database sessions.</param>
+        public ItemTemplateRepository(DbDataSource dataSource, IDbSessionFactory sessionFactory)
+            : base(dataSource, sessionFactory)
+        {
+        }
+
+        /// <summary>
+        /// Gets all item templates, ordered by name.
+        /// </summary>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of all item template database models.</returns>
+        public async Task<IEnumerable<ItemTemplateDbModel>> GetAllAsync(IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = @"
+                    SELECT 
+                        id,
+                        name,
+                        description,
+                        properties::text AS PropertiesJson,
+                        created_at AS CreatedAt,
+                        updated_at AS UpdatedAt
+                    FROM item_templates
+                    ORDER BY LOWER(name)";
+
+                IEnumerable<ItemTemplateDbModel> result = await dbSession.Connection.QueryAsync<ItemTemplateDbModel>(
+                    query,
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets an item template by its unique identifier.
+        /// </summary>
+        /// <param name="id">The unique identifier of the template.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The item template database model if found; otherwise, null.</returns>
+        public async Task<ItemTemplateDbModel?> GetByIdAsync(Guid id, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT 
+                        id,
+                        name,
+                        description,
+                        properties::text AS PropertiesJson,
+                        created_at AS CreatedAt,
+                        updated_at AS UpdatedAt
+                    FROM item_templates
+                    WHERE id = @{nameof(id)}";
+
+                ItemTemplateDbModel? result = await dbSession.Connection.QuerySingleOrDefaultAsync<ItemTemplateDbModel>(
+                    query,
+                    new { id },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets an item template by its name, ignoring case.
+        /// </summary>
+        /// <param name="name">The name of the template.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The item template database model if found; otherwise, null.</returns>
+        public async Task<ItemTemplateDbModel?> GetByNameAsync(string name, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT 
+                        id,
+                        name,
+                        description,
+                        properties::text AS PropertiesJson,
+                        created_at AS CreatedAt,
+                        updated_at AS UpdatedAt
+                    FROM item_templates
+                    WHERE LOWER(name) = LOWER(@{nameof(name)})";
+
+                ItemTemplateDbModel? result = await dbSession.Connection.QuerySingleOrDefaultAsync<ItemTemplateDbModel>(
+                    query,
+                    new { name },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Creates a new item template in the database.
+        /// </summary>
+        /// <param name="id">The unique identifier for the template.</param>
+        /// <param name="name">The name of the template.</param>
+        /// <param name="description">The description that new items get. Defaults to null.</param>
+        /// <param name="properties">The properties that new items get, in order. Defaults to null for none.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The created item template database model.</returns>
+        public async Task<ItemTemplateDbModel> CreateAsync(Guid id, string name, string? description = null, IEnumerable<ItemTemplateProperty>? properties = null, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string propertiesJson = JsonSerializer.Serialize(properties ?? Enumerable.Empty<ItemTemplateProperty>());
+
+                string query = $@"
+                    INSERT INTO item_templates (id, name, description, properties)
+                    VALUES (@{nameof(id)}, @{nameof(name)}, @{nameof(description)}, @propertiesJson::jsonb)
+                    RETURNING 
+                        id,
+                        name,
+                        description,
+                        properties::text AS PropertiesJson,
+                        created_at AS CreatedAt,
+                        updated_at AS UpdatedAt";
+
+                ItemTemplateDbModel result = await dbSession.Connection.QuerySingleAsync<ItemTemplateDbModel>(
+                    query,
+                    new { id, name, description, propertiesJson },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Updates an existing item template in the database. Items created from the template are not changed.
+        /// </summary>
+        /// <param name="id">The unique identifier of the template to update.</param>
+        /// <param name="name">The new name of the template.</param>
+        /// <param name="description">The new description that new items get. Defaults to null.</param>
+        /// <param name="properties">The new properties that new items get, in order. Defaults to null for none.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the template was found and updated; otherwise, false.</returns>
+        public async Task<bool> UpdateAsync(Guid id, string name, string? description = null, IEnumerable<ItemTemplateProperty>? properties = null, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string propertiesJson = JsonSerializer.Serialize(properties ?? Enumerable.Empty<ItemTemplateProperty>());
+
+                string query = $@"
+                    UPDATE item_templates
+                    SET name = @{nameof(name)},
+                        description = @{nameof(description)},
+                        properties = @propertiesJson::jsonb,
+                        updated_at = NOW()
+                    WHERE id = @{nameof(id)}";
+
+                int rowsAffected = await dbSession.Connection.ExecuteAsync(
+                    query,
+                    new { id, name, description, propertiesJson },
+                    transaction: dbSession.Transaction);
+
+                return rowsAffected > 0;
+            }, session);
+        }
+
+        /// <summary>
+        /// Deletes an item template from the database. Items created from the template are kept and lose the reference to it.
+        /// </summary>
+        /// <param name="id">The unique identifier of the template to delete.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the template was found and deleted; otherwise, false.</returns>
+        public async Task<bool> DeleteAsync(Guid id, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    DELETE FROM item_templates
+                    WHERE id = @{nameof(id)}";
+
+                int rowsAffected = await dbSession.Connection.ExecuteAsync(
+                    query,
+                    new { id },
+                    transaction: dbSession.Transaction);
+
+                return rowsAffected > 0;
+            }, session);
+        }
+    }
+}
@@ -0,0 +1,51 @@
+using Ordning.Server.ItemTemplates.Models;
+
+namespace Ordning.Server.ItemTemplates.Services
+{
+    /// <summary>
+    /// Service interface for item template business logic operations.
+    /// </summary>
+    public interface IItemTemplateService
+    {
+        /// <summary>
+        /// Gets all item templates, ordered by name.
+        /// </summary>
+        /// <returns>A collection of all item templates.</returns>
+        Task<IEnumerable<ItemTemplate>> GetAllItemTemplatesAsync();
+
+        /// <summary>
+        /// Gets an item template by its unique identifier.
+        /// </summary>
+        /// <param name="id">The unique identifier of the template.</param>
+        /// <returns>The item template if found; otherwise, null.</returns>
+        Task<ItemTemplate?> GetItemTemplateAsync(Guid id);
+
+        /// <summary>
+        /// Creates a new item template.
+        /// </summary>
+        /// <param name="name">The name of the template.</param>
+        /// <param name="description">The description that new items get. Defaults to null.</param>
+        /// <param name="properties">The properties that new items get, in order. Defaults to null for none.</param>
+        /// <returns>The created item template.</returns>
+        /// <exception cref="ArgumentException">Thrown when the name is taken or when any of the values are invalid.</exception>
+        Task<ItemTemplate> CreateItemTemplateAsync(string name, string? description = null, IEnumerable<ItemTemplateProperty>? properties = null);
+
+        /// <summary>
+        /// Updates an existing item template. Items created from the template are not changed.
+        /// </summary>
+        /// <param name="id">The unique identifier of the template to update.</param>
+        /// <param name="name">The new name of the template.</param>
+        /// <param name="description">The new description that new items get. Defaults to null.</param>
+        /// <param name="properties">The new properties that new items get, in order. Defaults to null for none.</param>
+        /// <returns>The updated item template.</returns>
+        /// <exception cref="ArgumentException">Thrown when the template does not exist, when the name is taken or when any of the values are invalid.</exception>
+        Task<ItemTemplate> UpdateItemTemplateAsync(Guid id, string name, string? description = null, IEnumerable<ItemTemplateProperty>? properties = null);
+
+        /// <summary>
+        /// Deletes an item template. Items created from the template are kept and lose the reference to it.
+        /// </summary>
+        /// <param name="id">The unique identifier of the template to delete.</param>
+        /// <returns>True if the template was found and deleted; otherwise, false.</returns>
+        Task<bool> DeleteItemTemplateAsync(Guid id);
+    }
+}
@@ -0,0 +1,205 @@
+using Ordning.Server.ItemTemplates.Models;
+using Ordning.Server.ItemTemplates.Repositories;
+using Ordning.Server.PropertyDefinitions.Models;
+using Ordning.Server.PropertyDefinitions.Repositories;
+using Ordning.Server.PropertyDefinitions.Services;
+
+namespace Ordning.Server.ItemTemplates.Services
+{
+    /// <summary>
+    /// Implementation of <see cref="IItemTemplateService"/> that provides item template business logic operations.
+    /// </summary>
+    public class ItemTemplateService : IItemTemplateService
+    {
+        /// <summary>
+        /// The maximum length of a template name.
+        /// </summary>
+        public const int MaxNameLength = 255;
+
+        /// <summary>
+        /// The maximum length of a template description.
+        /// </summary>
+        public const int MaxDescriptionLength = 1000;
+
+        private readonly IItemTemplateRepository _itemTemplateRepository;
+        private readonly IPropertyDefinitionRepository _propertyDefinitionRepository;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ItemTemplateService"/> class.
+        /// </summary>
+        /// <param name="itemTemplateRepository">The item template repository for database access.</param>
+        /// <param name="propertyDefinitionRepository">The property definition repository for validating default values of typed properties.</param>
+        public ItemTemplateService(IItemTemplateRepository itemTemplateRepository, IPropertyDefinitionRepository propertyDefinitionRepository)
+        {
+            _itemTemplateRepository = itemTemplateRepository;
+            _propertyDefinitionRepository = propertyDefinitionRepository;
+        }
+
+        /// <summary>
+        /// Gets all item templates, ordered by name.
+        /// </summary>
+        /// <returns>A collection of all item templates.</returns>
+        public async Task<IEnumerable<ItemTemplate>> GetAllItemTemplatesAsync()
+        {
+            IEnumerable<ItemTemplateDbModel> templates = await _itemTemplateRepository.GetAllAsync();
+            return templates.Select(t => t.ToDomainItemTemplate());
+        }
+
+        /// <summary>
+        /// Gets an item template by its unique identifier.
+        /// </summary>
+        /// <param name="id">The unique identifier of the template.</param>
+        /// <returns>The item template if found; otherwise, null.</returns>
+        public async Task<ItemTemplate?> GetItemTemplateAsync(Guid id)
+        {
+            ItemTemplateDbModel? template = await _itemTemplateRepository.GetByIdAsync(id);
+            return template?.ToDomainItemTemplate();
+        }
+
+        /// <summary>
+        /// Creates a new item template.
+        /// </summary>
+        /// <param name="name">The name of the template.</param>
+        /// <param name="description">The description that new items get. Defaults to null.</param>
+        /// <param name="properties">The properties that new items get, in order. Defaults to null for none.</param>
+        /// <returns>The created item template.</returns>
+        /// <exception cref="ArgumentException">Thrown when the name is taken or when any of the values are invalid.</exception>
+        public async Task<ItemTemplate> CreateItemTemplateAsync(string name, string? description = null, IEnumerable<ItemTemplateProperty>? properties = null)
+        {
+            ItemTemplate template = await ValidateTemplateAsync(Guid.NewGuid(), name, description, properties);
+            ItemTemplateDbModel created = await _itemTemplateRepository.CreateAsync(
+                id: template.Id,
+                name: template.Name,
+                description: template.Description,
+                properties: template.Properties);
+
+            return created.ToDomainItemTemplate();
+        }
+
+        /// <summary>
+        /// Updates an existing item template. Items created from the template are not changed.
+        /// </summary>
+        /// <param name="id">The unique identifier of the template to update.</param>
+        /// <param name="name">The new name of the template.</param>
+        /// <param name="description">The new description that new items get. Defaults to null.</param>
+        /// <param name="properties">The new properties that new items get, in order. Defaults to null for none.</param>
+        /// <returns>The updated item template.</returns>
+        /// <exception cref="ArgumentException">Thrown when the template does not exist, when the name is taken or when any of the values are invalid.</exception>
+        public async Task<ItemTemplate> UpdateItemTemplateAsync(Guid id, string name, string? description = null, IEnumerable<ItemTemplateProperty>? properties = null)
+        {
+            ItemTemplateDbModel? existingTemplate = await _itemTemplateRepository.GetByIdAsync(id);
+            if (existingTemplate == null)
+            {
+                throw new ArgumentException($"Item template with ID '{id}' does not exist.", nameof(id));
+            }
+
+            ItemTemplate template = await ValidateTemplateAsync(id, name, description, properties);
+            bool updated = await _itemTemplateRepository.UpdateAsync(
+                id: id,
+                name: template.Name,
+                description: template.Description,
+                properties: template.Properties);
+
+            if (!updated)
+            {
+                throw new ArgumentException($"Failed to update item template with ID '{id}'.", nameof(id));
+            }
+
+            ItemTemplateDbModel? updatedTemplate = await _itemTemplateRepository.GetByIdAsync(id);
+            if (updatedTemplate == null)
+            {
+                throw new InvalidOperationException($"Item template with ID '{id}' was updated but could not be retrieved.");
+            }
+
+            return updatedTemplate.ToDomainItemTemplate();
+        }
+
+        /// <summary>
+        /// Deletes an item template. Items created from the template are kept and lose the reference to it.
+        /// </summary>
+        /// <param name="id">The unique identifier of the template to delete.</param>
+        /// <returns>True if the template was found and deleted; otherwise, false.</returns>
+        public async Task<bool> DeleteItemTemplateAsync(Guid id)
+        {
+            return await _itemTemplateRepository.DeleteAsync(id);
+        }
+
+        /// <summary>
+        /// Checks the values of a template and returns them trimmed. Property keys that have a definition are spelled
+        /// as defined, and their default values are normalized the same way item values are.
+        /// </summary>
+        /// <param name="id">The unique identifier of the template.</param>
+        /// <param name="name">The name of the template.</param>
+        /// <param name="description">The description that new items get.</param>
+        /// <param name="properties">The properties that new items get.</param>
+        /// <returns>The validated item template.</returns>
+        /// <exception cref="ArgumentException">Thrown when the name is taken by another template or when any of the values are invalid.</exception>
+        private async Task<ItemTemplate> ValidateTemplateAsync(Guid id, string name, string? description, IEnumerable<ItemTemplateProperty>? properties)
+        {
+            string trimmedName = (name ?? string.Empty).Trim();
+            if (string.IsNullOrEmpty(trimmedName))
+            {
+                throw new ArgumentException("Template name cannot be empty.", nameof(name));
+            }
+
+            if (trimmedName.Length > MaxNameLength)
+            {
+                throw new ArgumentException($"Template name cannot be longer than {MaxNameLength} characters.", nameof(name));
+            }
+
+            ItemTemplateDbModel? templateWithName = await _itemTemplateRepository.GetByNameAsync(trimmedName);
+            if (templateWithName != null && templateWithName.Id != id)
+            {
+                throw new ArgumentException($"A template named '{templateWithName.Name}' already exists.", nameof(name));
+            }
+
+            string? trimmedDescription = string.IsNullOrWhiteSpace(description) ? null : description.Trim();
+            if (trimmedDescription != null && trimmedDescription.Length > MaxDescriptionLength)
+            {
+                throw new ArgumentException($"Template description cannot be longer than {MaxDescriptionLength} characters.", nameof(description));
+            }
+
+            Dictionary<string, PropertyDefinition> definitions = (await _propertyDefinitionRepository.GetAllAsync())
+                .Select(d => d.ToDomainPropertyDefinition())
+                .ToDictionary(d => d.Key, StringComparer.OrdinalIgnoreCase);
+
+            List<ItemTemplateProperty> validatedProperties = new List<ItemTemplateProperty>();
+            foreach (ItemTemplateProperty property in properties ?? Enumerable.Empty<ItemTemplateProperty>())
+            {
+                string key = (property.Key ?? string.Empty).Trim();
+                if (string.IsNullOrEmpty(key))
+                {
+                    throw new ArgumentException("Template property keys cannot be empty.", nameof(properties));
+                }
+
+                if (key.Length > PropertyDefinitionService.MaxKeyLength)
+                {
+                    throw new ArgumentException($"Template property keys cannot be longer than {PropertyDefinitionService.MaxKeyLength} characters.", nameof(properties));
+                }
+
+                string value = (property.Value ?? string.Empty).Trim();
+                if (definitions.TryGetValue(key, out PropertyDefinition? definition))
+                {
+                    key = definition.Key;
+                    if (value.Length > 0)
+                    {
+                        value = definition.NormalizeValue(value);
+                    }
+                }
+
+                if (validatedProperties.Any(p => string.Equals(p.Key, key, StringComparison.OrdinalIgnoreCase)))
+                {
+                    throw new ArgumentException($"Template property '{key}' is listed more than once.", nameof(properties));
+                }
+
+                validatedProperties.Add(new ItemTemplateProperty(key, value));
+            }
+
+            return new ItemTemplate(
+                id: id,
+                name: trimmedName,
+                description: trimmedDescription,
+                properties: validatedProperties);
+        }
+    }
+}
@@ -1,6 +1,8 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.RateLimiting;
+using Ordning.Server.Images.Models;
+using Ordning.Server.Images.Services;
 using Ordning.Server.Items.Models;
 using Ordning.Server.Items.Services;
 using Ordning.Server.RateLimiting;
@@ -16,16 +18,19 @@ namespace Ordning.Server.Items.Controllers
     public class ItemController : ControllerBase
     {
         private readonly IItemService _itemService;
+        private readonly IImageService _imageService;
         private readonly ILogger<ItemController> _logger;
 
         /// <summary>
         /// Initializes a new instance of the <see cref="ItemController"/> class.
         /// </summary>
         /// <param name="itemService">The item service.</param>
+        /// <param name="imageService">The image service.</param>
         /// <param name="logger">The logger.</param>
-        public ItemController(IItemService itemService, ILogger<ItemController> logger)
+        public ItemController(IItemService itemService, IImageService imageService, ILogger<ItemController> logger)
         {
             _itemService = itemService;
+            _imageService = imageService;
             _logger = logger;
         }
 
@@ -76,6 +81,19 @@ namespace Ordning.Server.Items.Controllers
             return Ok(items);
         }
 
+        /// <summary>
+        /// Gets the items whose quantity is below their minimum quantity.
+        /// </summary>
+        /// <returns>The items that are low on stock, ordered by name.</returns>
+        [HttpGet("low-stock")]
+        [Authorize]
+        [ProducesResponseType(typeof(IEnumerable<Item>), 200)]
+        public async Task<ActionResult<IEnumerable<Item>>> GetLowStockItems()
+        {
+            IEnumerable<Item> items = await _itemService.GetLowStockItemsAsync();
+            return Ok(items);
+        }
+
         /// <summary>
         /// Creates a new item.
         /// </summary>
@@ -83,7 +101,7 @@ namespace Ordning.Server.Items.Controllers
         /// <returns>The created item.</returns>
         [HttpPost]
         [EnableRateLimiting(RateLimitPolicies.Strict)]
-        [Authorize(Roles = "write,admin")]
+        [Authorize]
         [ProducesResponseType(typeof(Item), 201)]
         [ProducesResponseType(400)]
         public async Task<ActionResult<Item>> CreateItem([FromBody] CreateItemRequest request)
@@ -92,7 +110,12 @@ namespace Ordning.Server.Items.Controllers
                 name: request.Name,
                 locationId: request.LocationId,
                 description: request.Description,
-                properties: request.Properties);
+                properties: request.Properties,
+                quantity: request.Quantity,
+                unit: request.Unit,
+                minQuantity: request.MinQuantity,
+                templateId: request.TemplateId,
+                tags: request.Tags);
 
             return CreatedAtAction(nameof(GetItemById), new { id = item.Id }, item);
         }
@@ -104,7 +127,7 @@ namespace Ordning.Server.Items.Controllers
         /// <param name="request">The item update request.</param>
         /// <returns>The updated item.</returns>
         [HttpPut("{id}")]
-        [Authorize(Roles = "write,admin")]
+        [Authorize]
         [ProducesResponseType(typeof(Item), 200)]
         [ProducesResponseType(400)]
         [ProducesResponseType(404)]
@@ -114,7 +137,11 @@ namespace Ordning.Server.Items.Controllers
                 id: id,
                 name: request.Name,
                 description: request.Description,
-                properties: request.Properties);
+                properties: request.Properties,
+                quantity: request.Quantity,
+                unit: request.Unit,
+                minQuantity: request.MinQuantity,
+                tags: request.Tags);
 
             return Ok(item);
         }
@@ -125,7 +152,7 @@ namespace Ordning.Server.Items.Controllers
         /// <param name="id">The unique identifier of the item to delete.</param>
         /// <returns>204 No Content if deleted; otherwise, 404 Not Found.</returns>
         [HttpDelete("{id}")]
-        [Authorize(Roles = "write,admin")]
+        [Authorize]
         [ProducesResponseType(204)]
         [ProducesResponseType(404)]
         public async Task<IActionResult> DeleteItem(Guid id)
@@ -139,13 +166,105 @@ namespace Ordning.Server.Items.Controllers
             return NoContent();
         }
 
+        /// <summary>
+        /// Adds to or subtracts from the quantity of an item.
+        /// </summary>
+        /// <param name="id">The unique identifier of the item.</param>
+        /// <param name="request">The quantity change request.</param>
+        /// <returns>The item with its new quantity.</returns>
+        [HttpPost("{id}/quantity")]
+        [Authorize]
+        [ProducesResponseType(typeof(Item), 200)]
+        [ProducesResponseType(400)]
+        public async Task<ActionResult<Item>> AdjustItemQuantity(Guid id, [FromBody] AdjustItemQuantityRequest request)
+        {
+            Item item = await _itemService.AdjustItemQuantityAsync(id, request.Delta);
+            return Ok(item);
+        }
+
+        /// <summary>
+        /// Moves part of an item's quantity to another location, adding it to an item there with the same name and unit or creating one.
+        /// </summary>
+        /// <param name="id">The unique identifier of the item to take the quantity from.</param>
+        /// <param name="request">The split request.</param>
+        /// <returns>The item the quantity was taken from and the item that received it.</returns>
+        [HttpPost("{id}/split")]
+        [Authorize]
+        [ProducesResponseType(typeof(ItemSplitResult), 200)]
+        [ProducesResponseType(400)]
+        public async Task<ActionResult<ItemSplitResult>> SplitItem(Guid id, [FromBody] SplitItemRequest request)
+        {
+            ItemSplitResult result = await _itemService.SplitItemAsync(id, request.Quantity, request.TargetLocationId);
+            return Ok(result);
+        }
+
+        /// <summary>
+        /// Gets the photos of an item, in upload order.
+        /// </summary>
+        /// <param name="id">The unique identifier of the item.</param>
+        /// <returns>The photos of the item if the item is found; otherwise, 404 Not Found.</returns>
+        [HttpGet("{id}/images")]
+        [Authorize]
+        [ProducesResponseType(typeof(IEnumerable<Image>), 200)]
+        [ProducesResponseType(404)]
+        public async Task<ActionResult<IEnumerable<Image>>> GetItemImages(Guid id)
+        {
+            Item? item = await _itemService.GetItemByIdAsync(id);
+            if (item == null)
+            {
+                return NotFound($"Item with ID '{id}' not found.");
+            }
+
+            IEnumerable<Image> images = await _imageService.GetImagesAsync(ImageOwnerTypes.Item, id.ToString());
+            return Ok(images);
+        }
+
+        /// <summary>
+        /// Uploads a photo of an item.
+        /// </summary>
+        /// <param name="id">The unique identifier of the item.</param>
+        /// <param name="request">The image upload request.</param>
+        /// <returns>The uploaded photo.</returns>
+        [HttpPost("{id}/images")]
+        [EnableRateLimiting(RateLimitPolicies.Strict)]
+        [Authorize]
+        [RequestSizeLimit(ImageService.MaxUploadRequestSizeBytes)]
+        [RequestFormLimits(MultipartBodyLengthLimit = ImageService.MaxUploadRequestSizeBytes)]
+        [ProducesResponseType(typeof(Image), 201)]
+        [ProducesResponseType(400)]
+        [ProducesResponseType(404)]
+        public async Task<ActionResult<Image>> UploadItemImage(Guid id, [FromForm] UploadImageRequest request)
+        {
+            Item? item = await _itemService.GetItemByIdAsync(id);
+            if (item == null)
+            {
+                return NotFound($"Item with ID '{id}' not found.");
+            }
+
+            await using Stream imageStream = request.Image.OpenReadStream();
+            await using Stream thumbnailStream = request.Thumbnail.OpenReadStream();
+
+            Image image = await _imageService.AddImageAsync(
+                ownerType: ImageOwnerTypes.Item,
+                ownerId: id.ToString(),
+                image: imageStream,
+                imageSizeBytes: request.Image.Length,
+                thumbnail: thumbnailStream,
+                thumbnailSizeBytes: request.Thumbnail.Length,
+                contentType: request.Image.ContentType,
+                width: request.Width,
+                height: request.Height);
+
+            return StatusCode(201, image);
+        }
+
         /// <summary>
         /// Moves one or more items to a new location.
         /// </summary>
         /// <param name="request">The move items request.</param>
         /// <returns>The number of items that were moved.</returns>
         [HttpPost("move")]
-        [Authorize(Roles = "write,admin")]
+        [Authorize]
         [ProducesResponseType(typeof(int), 200)]
         [ProducesResponseType(400)]
         public async Task<ActionResult<int>> MoveItems([FromBody] MoveItemsRequest request)
@@ -157,23 +276,82 @@ namespace Ordning.Server.Items.Controllers
             return Ok(movedCount);
         }
 
+        /// <summary>
+        /// Deletes one or more items.
+        /// </summary>
+        /// <param name="request">The delete items request.</param>
+        /// <returns>The number of items that were deleted.</returns>
+        [HttpPost("delete")]
+        [Authorize]
+        [ProducesResponseType(typeof(int), 200)]
+        [ProducesResponseType(400)]
+        public async Task<ActionResult<int>> DeleteItems([FromBody] DeleteItemsRequest request)
+        {
+            int deletedCount = await _itemService.DeleteItemsAsync(request.ItemIds);
+            return Ok(deletedCount);
+        }
+
+        /// <summary>
+        /// Restores deleted items with their original identifiers, locations and properties.
+        /// </summary>
+        /// <param name="request">The restore items request.</param>
+        /// <returns>The restored items.</returns>
+        [HttpPost("restore")]
+        [Authorize]
+        [ProducesResponseType(typeof(IEnumerable<Item>), 200)]
+        [ProducesResponseType(400)]
+        public async Task<ActionResult<IEnumerable<Item>>> RestoreItems([FromBody] RestoreItemsRequest request)
+        {
+            IEnumerable<Item> items = await _itemService.RestoreItemsAsync(request.ItemIds);
+            return Ok(items);
+        }
+
+        /// <summary>
+        /// Sets and removes properties on one or more items.
+        /// </summary>
+        /// <param name="request">The update item properties request.</param>
+        /// <returns>The number of items that were updated.</returns>
+        [HttpPost("properties")]
+        [Authorize]
+        [ProducesResponseType(typeof(int), 200)]
+        [ProducesResponseType(400)]
+        public async Task<ActionResult<int>> UpdateItemProperties([FromBody] UpdateItemPropertiesRequest request)
+        {
+            int updatedCount = await _itemService.UpdateItemPropertiesAsync(
+                itemIds: request.ItemIds,
+                propertiesToSet: request.SetProperties,
+                propertyKeysToRemove: request.RemoveProperties);
+
+            return Ok(updatedCount);
+        }
+
         /// <summary>
         /// Searches items using full-text search with relevance ranking.
         /// If the search query is empty or whitespace, returns all items.
+        /// The query supports "quoted phrases", -excluded terms, in:LOCATION (including descendants),
+        /// created: and updated: with an optional &gt;, &gt;=, &lt; or &lt;= before a yyyy-MM-dd date, and key:value property filters.
         /// </summary>
         /// <param name="q">The search term to match against item names, descriptions, and properties.</param>
         /// <param name="offset">The number of results to skip for pagination. Defaults to 0.</param>
         /// <param name="limit">The maximum number of results to return. Defaults to 20, maximum 100.</param>
+        /// <param name="filter">Property filters written as "key=value". Repeated keys match any of their values.</param>
+        /// <param name="range">Ranges on number and date properties written as "key=min..max". Either bound may be left out.</param>
+        /// <param name="sort">The order of the results: name, created, updated, quantity or property:KEY, with a leading "-" for descending. Defaults to relevance.</param>
+        /// <param name="templateId">Only returns items created from this template. Defaults to all items.</param>
+        /// <param name="tag">Only returns items that have all of these tags, ignoring case. Defaults to all items.</param>
         /// <returns>Search results with pagination metadata.</returns>
         [HttpGet("search")]
         [Authorize]
         [ProducesResponseType(typeof(SearchResponse<Item>), 200)]
         [ProducesResponseType(400)]
-        public async Task<ActionResult<SearchResponse<Item>>> SearchItems([FromQuery] string? q = null, [FromQuery] int offset = 0, [FromQuery] int limit = 20)
+        public async Task<ActionResult<SearchResponse<Item>>> SearchItems([FromQuery] string? q = null, [FromQuery] int offset = 0, [FromQuery] int limit = 20, [FromQuery] string[]? filter = null, [FromQuery] string[]? range = null, [FromQuery] string? sort = null, [FromQuery] Guid? templateId = null, [FromQuery] string[]? tag = null)
         {
             try
             {
-                (IEnumerable<Item> results, int totalCount) = await _itemService.SearchItemsAsync(q ?? string.Empty, offset, limit);
+                IReadOnlyList<ItemPropertyFilter> propertyFilters = ItemPropertyFilter.ParseMany(filter);
+                IReadOnlyList<ItemPropertyRange> propertyRanges = ItemPropertyRange.ParseMany(range);
+                ItemSortOrder? sortOrder = ItemSortOrder.Parse(sort);
+                (IEnumerable<Item> results, int totalCount) = await _itemService.SearchItemsAsync(q ?? string.Empty, offset, limit, propertyFilters, propertyRanges, sortOrder, templateId, tag);
 
                 SearchResponse<Item> response = new SearchResponse<Item>
                 {
@@ -191,5 +369,33 @@ namespace Ordning.Server.Items.Controllers
                 return BadRequest(ex.Message);
             }
         }
+
+        /// <summary>
+        /// Gets the most common property keys and values among the items matching a search.
+        /// </summary>
+        /// <param name="q">The search term to match against item names, descriptions, and properties.</param>
+        /// <param name="filter">Property filters written as "key=value". Repeated keys match any of their values.</param>
+        /// <param name="keyLimit">The maximum number of property keys to return. Defaults to 10, maximum 50.</param>
+        /// <param name="valueLimit">The maximum number of values to return per key. Defaults to 10, maximum 50.</param>
+        /// <param name="templateId">Only counts items created from this template. Defaults to all items.</param>
+        /// <param name="tag">Only counts items that have all of these tags, ignoring case. Defaults to all items.</param>
+        /// <returns>The property facets, most common key first.</returns>
+        [HttpGet("facets")]
+        [Authorize]
+        [ProducesResponseType(typeof(IEnumerable<PropertyFacet>), 200)]
+        [ProducesResponseType(400)]
+        public async Task<ActionResult<IEnumerable<PropertyFacet>>> GetPropertyFacets([FromQuery] string? q = null, [FromQuery] string[]? filter = null, [FromQuery] int keyLimit = 10, [FromQuery] int valueLimit = 10, [FromQuery] Guid? templateId = null, [FromQuery] string[]? tag = null)
+        {
+            try
+            {
+                IReadOnlyList<ItemPropertyFilter> propertyFilters = ItemPropertyFilter.ParseMany(filter);
+                IEnumerable<PropertyFacet> facets = await _itemService.GetPropertyFacetsAsync(q ?? string.Empty, propertyFilters, keyLimit, valueLimit, templateId, tag);
+                return Ok(facets);
+            }
+            catch (ArgumentException ex)
+            {
+                return BadRequest(ex.Message);
+            }
+        }
     }
 }
@@ -30,6 +30,41 @@ namespace Ordning.Server.Items.Models
         /// </summary>
         public IReadOnlyDictionary<string, string> Properties { get; }
 
+        /// <summary>
+        /// Gets the identifiers of the photos of the item, in upload order.
+        /// </summary>
+        public IReadOnlyList<Guid> ImageIds { get; }
+
+        /// <summary>
+        /// Gets how many of the item there are, or null if the item is a single thing.
+        /// </summary>
+        public decimal? Quantity { get; }
+
+        /// <summary>
+        /// Gets the unit the quantity is counted in, such as "pcs" or "m", if any.
+        /// </summary>
+        public string? Unit { get; }
+
+        /// <summary>
+        /// Gets the quantity below which the item is low on stock, if any.
+        /// </summary>
+        public decimal? MinQuantity { get; }
+
+        /// <summary>
+        /// Gets a value indicating whether the quantity is below the minimum quantity.
+        /// </summary>
+        public bool IsLowStock => Quantity.HasValue && MinQuantity.HasValue && Quantity.Value < MinQuantity.Value;
+
+        /// <summary>
+        /// Gets the identifier of the template the item was created from, if any.
+        /// </summary>
+        public Guid? TemplateId { get; }
+
+        /// <summary>
+        /// Gets the tags of the item, ordered by name.
+        /// </summary>
+        public IReadOnlyList<string> Tags { get; }
+
         /// <summary>
         /// Gets the UTC timestamp when the item was created.
         /// </summary>
@@ -50,7 +85,13 @@ namespace Ordning.Server.Items.Models
         /// <param name="properties">The optional properties of the item as key/value pairs. Defaults to empty dictionary.</param>
         /// <param name="createdAt">The UTC timestamp when the item was created.</param>
         /// <param name="updatedAt">The UTC timestamp when the item was last updated.</param>
-        public Item(Guid id, string name, string? description, string locationId, IReadOnlyDictionary<string, string>? properties = null, DateTimeOffset createdAt = default, DateTimeOffset updatedAt = default)
+        /// <param name="imageIds">The identifiers of the photos of the item. Defaults to an empty list.</param>
+        /// <param name="quantity">How many of the item there are. Defaults to null.</param>
+        /// <param name="unit">The unit the quantity is counted in. Defaults to null.</param>
+        /// <param name="minQuantity">The quantity below which the item is low on stock. Defaults to null.</param>
+        /// <param name="templateId">The identifier of the template the item was created from. Defaults to null.</param>
+        /// <param name="tags">The tags of the item. Defaults to an empty list.</param>
+        public Item(Guid id, string name, string? description, string locationId, IReadOnlyDictionary<string, string>? properties = null, DateTimeOffset createdAt = default, DateTimeOffset updatedAt = default, IReadOnlyList<Guid>? imageIds = null, decimal? quantity = null, string? unit = null, decimal? minQuantity = null, Guid? templateId = null, IReadOnlyList<string>? tags = null)
         {
             Id = id;
             Name = name;
@@ -59,6 +100,12 @@ namespace Ordning.Server.Items.Models
             Properties = properties ?? new Dictionary<string, string>();
             CreatedAt = createdAt;
             UpdatedAt = updatedAt;
+            ImageIds = imageIds ?? Array.Empty<Guid>();
+            Quantity = quantity;
+            Unit = unit;
+            MinQuantity = minQuantity;
+            TemplateId = templateId;
+            Tags = tags ?? Array.Empty<string>();
         }
     }
 }
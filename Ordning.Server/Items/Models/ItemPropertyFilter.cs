@@ -0,0 +1,67 @@
+namespace Ordning.Server.Items.Models
+{
+    /// <summary>
+    /// Represents a filter that matches items where a property has one of the given values.
+    /// </summary>
+    public class ItemPropertyFilter
+    {
+        /// <summary>
+        /// Gets the property key to filter on.
+        /// </summary>
+        public string Key { get; }
+
+        /// <summary>
+        /// Gets the accepted values for the property. An item matches if its value equals any of them.
+        /// </summary>
+        public IReadOnlyList<string> Values { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ItemPropertyFilter"/> class.
+        /// </summary>
+        /// <param name="key">The property key to filter on.</param>
+        /// <param name="values">The accepted values for the property.</param>
+        public ItemPropertyFilter(string key, IReadOnlyList<string> values)
+        {
+            Key = key;
+            Values = values;
+        }
+
+        /// <summary>
+        /// Parses filters written as "key=value". Filters that share a key are combined into one filter
+        /// that matches any of their values, while different keys must all match.
+        /// </summary>
+        /// <param name="filters">The filters to parse.</param>
+        /// <returns>One filter per distinct property key, in the order the keys first appear.</returns>
+        /// <exception cref="ArgumentException">Thrown when a filter is not in the "key=value" format.</exception>
+        public static IReadOnlyList<ItemPropertyFilter> ParseMany(IEnumerable<string>? filters)
+        {
+            Dictionary<string, List<string>> valuesByKey = new Dictionary<string, List<string>>();
+            List<string> keyOrder = new List<string>();
+
+            foreach (string filter in filters ?? Enumerable.Empty<string>())
+            {
+                int separatorIndex = filter.IndexOf('=');
+                string key = separatorIndex > 0 ? filter.Substring(0, separatorIndex).Trim() : string.Empty;
+                if (string.IsNullOrEmpty(key))
+                {
+                    throw new ArgumentException($"Property filter '{filter}' must be in the format 'key=value'.", nameof(filters));
+                }
+
+                string value = filter.Substring(separatorIndex + 1).Trim();
+                if (!valuesByKey.TryGetValue(key, out List<string>? values))
+                {
+                    values = new List<string>();
+                    valuesByKey[key] = values;
+                    keyOrder.Add(key);
+                }
+
+                if (!values.Contains(value))
+                {
+                    values.Add(value);
+                }
+            }
+
+            return keyOrder.Select(key => new ItemPropertyFilter(key: key, values: valuesByKey[key])).ToList();
+        }
+    }
+}
@@ -0,0 +1,86 @@
+using Ordning.Server.PropertyDefinitions.Models;
+
+namespace Ordning.Server.Items.Models
+{
+    /// <summary>
+    /// Represents a filter that matches items where a number or date property lies within a range.
+    /// </summary>
+    public class ItemPropertyRange
+    {
+        /// <summary>
+        /// The separator between the lower and upper bound of a range, as in "weight=1..5".
+        /// </summary>
+        public const string BoundSeparator = "..";
+
+        /// <summary>
+        /// Gets the property key to filter on.
+        /// </summary>
+        public string Key { get; }
+
+        /// <summary>
+        /// Gets the inclusive lower bound, or null if the range has no lower bound.
+        /// </summary>
+        public string? Min { get; }
+
+        /// <summary>
+        /// Gets the inclusive upper bound, or null if the range has no upper bound.
+        /// </summary>
+        public string? Max { get; }
+
+        /// <summary>
+        /// Gets the type that property values and bounds are compared as, either <see cref="PropertyTypes.Number"/> or <see cref="PropertyTypes.Date"/>.
+        /// </summary>
+        public string Type { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ItemPropertyRange"/> class.
+        /// </summary>
+        /// <param name="key">The property key to filter on.</param>
+        /// <param name="min">The inclusive lower bound, or null for no lower bound.</param>
+        /// <param name="max">The inclusive upper bound, or null for no upper bound.</param>
+        /// <param name="type">The type that values are compared as. Defaults to <see cref="PropertyTypes.Number"/>.</param>
+        public ItemPropertyRange(string key, string? min, string? max, string type = PropertyTypes.Number)
+        {
+            Key = key;
+            Min = min;
+            Max = max;
+            Type = type;
+        }
+
+        /// <summary>
+        /// Parses ranges written as "key=min..max". Either bound may be left out, as in "weight=..5" or "bought=2026-01-01..".
+        /// </summary>
+        /// <param name="ranges">The ranges to parse.</param>
+        /// <returns>The parsed ranges, in the order they were given.</returns>
+        /// <exception cref="ArgumentException">Thrown when a range is not in the "key=min..max" format or has neither bound.</exception>
+        public static IReadOnlyList<ItemPropertyRange> ParseMany(IEnumerable<string>? ranges)
+        {
+            List<ItemPropertyRange> result = new List<ItemPropertyRange>();
+            foreach (string range in ranges ?? Enumerable.Empty<string>())
+            {
+                int separatorIndex = range.IndexOf('=');
+                string key = separatorIndex > 0 ? range.Substring(0, separatorIndex).Trim() : string.Empty;
+                string bounds = separatorIndex > 0 ? range.Substring(separatorIndex + 1) : string.Empty;
+                int boundSeparatorIndex = bounds.IndexOf(BoundSeparator, StringComparison.Ordinal);
+                if (string.IsNullOrEmpty(key) || boundSeparatorIndex < 0)
+                {
+                    throw new ArgumentException($"Property range '{range}' must be in the format 'key=min..max'.", nameof(ranges));
+                }
+
+                string min = bounds.Substring(0, boundSeparatorIndex).Trim();
+                string max = bounds.Substring(boundSeparatorIndex + BoundSeparator.Length).Trim();
+                if (min.Length == 0 && max.Length == 0)
+                {
+                    throw new ArgumentException($"Property range '{range}' needs a lower or an upper bound.", nameof(ranges));
+                }
+
+                result.Add(new ItemPropertyRange(
+                    key: key,
+                    min: min.Length == 0 ? null : min,
+                    max: max.Length == 0 ? null : max));
+            }
+
+            return result;
+        }
+    }
+}
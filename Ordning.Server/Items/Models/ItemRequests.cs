@@ -24,6 +24,31 @@ namespace Ordning.Server.Items.Models
         /// Gets or sets the optional properties of the item as key/value pairs.
         /// </summary>
         public Dictionary<string, string>? Properties { get; set; }
+
+        /// <summary>
+        /// Gets or sets how many of the item there are. Leave empty for a single thing.
+        /// </summary>
+        public decimal? Quantity { get; set; }
+
+        /// <summary>
+        /// Gets or sets the unit the quantity is counted in, such as "pcs" or "m".
+        /// </summary>
+        public string? Unit { get; set; }
+
+        /// <summary>
+        /// Gets or sets the quantity below which the item is low on stock.
+        /// </summary>
+        public decimal? MinQuantity { get; set; }
+
+        /// <summary>
+        /// Gets or sets the identifier of the template the item is created from, if any.
+        /// </summary>
+        public Guid? TemplateId { get; set; }
+
+        /// <summary>
+        /// Gets or sets the tags of the item.
+        /// </summary>
+        public List<string>? Tags { get; set; }
     }
 
     /// <summary>
@@ -45,6 +70,53 @@ namespace Ordning.Server.Items.Models
         /// Gets or sets the optional properties of the item as key/value pairs.
         /// </summary>
         public Dictionary<string, string>? Properties { get; set; }
+
+        /// <summary>
+        /// Gets or sets how many of the item there are. Leave empty for a single thing.
+        /// </summary>
+        public decimal? Quantity { get; set; }
+
+        /// <summary>
+        /// Gets or sets the unit the quantity is counted in, such as "pcs" or "m".
+        /// </summary>
+        public string? Unit { get; set; }
+
+        /// <summary>
+        /// Gets or sets the quantity below which the item is low on stock.
+        /// </summary>
+        public decimal? MinQuantity { get; set; }
+
+        /// <summary>
+        /// Gets or sets the new tags of the item, or null to keep the current tags.
+        /// </summary>
+        public List<string>? Tags { get; set; }
+    }
+
+    /// <summary>
+    /// Request model for changing the quantity of an item.
+    /// </summary>
+    public class AdjustItemQuantityRequest
+    {
+        /// <summary>
+        /// Gets or sets the amount to add. Negative amounts are subtracted.
+        /// </summary>
+        public decimal Delta { get; set; }
+    }
+
+    /// <summary>
+    /// Request model for moving part of an item's quantity to another location.
+    /// </summary>
+    public class SplitItemRequest
+    {
+        /// <summary>
+        /// Gets or sets the quantity to move.
+        /// </summary>
+        public decimal Quantity { get; set; }
+
+        /// <summary>
+        /// Gets or sets the unique identifier of the location to move the quantity to.
+        /// </summary>
+        public string TargetLocationId { get; set; } = string.Empty;
     }
 
     /// <summary>
@@ -63,6 +135,49 @@ namespace Ordning.Server.Items.Models
         public string NewLocationId { get; set; } = string.Empty;
     }
 
+    /// <summary>
+    /// Request model for deleting multiple items at once.
+    /// </summary>
+    public class DeleteItemsRequest
+    {
+        /// <summary>
+        /// Gets or sets the unique identifiers of the items to delete.
+        /// </summary>
+        public IEnumerable<Guid> ItemIds { get; set; } = Array.Empty<Guid>();
+    }
+
+    /// <summary>
+    /// Request model for restoring deleted items.
+    /// </summary>
+    public class RestoreItemsRequest
+    {
+        /// <summary>
+        /// Gets or sets the unique identifiers of the deleted items to restore.
+        /// </summary>
+        public IEnumerable<Guid> ItemIds { get; set; } = Array.Empty<Guid>();
+    }
+
+    /// <summary>
+    /// Request model for changing properties on multiple items at once.
+    /// </summary>
+    public class UpdateItemPropertiesRequest
+    {
+        /// <summary>
+        /// Gets or sets the unique identifiers of the items to update.
+        /// </summary>
+        public IEnumerable<Guid> ItemIds { get; set; } = Array.Empty<Guid>();
+
+        /// <summary>
+        /// Gets or sets the properties to add or overwrite on every item.
+        /// </summary>
+        public Dictionary<string, string>? SetProperties { get; set; }
+
+        /// <summary>
+        /// Gets or sets the property keys to remove from every item.
+        /// </summary>
+        public IEnumerable<string>? RemoveProperties { get; set; }
+    }
+
     /// <summary>
     /// Response model for search results with pagination metadata.
     /// </summary>
@@ -0,0 +1,118 @@
+using Ordning.Server.PropertyDefinitions.Models;
+
+namespace Ordning.Server.Items.Models
+{
+    /// <summary>
+    /// Represents the order of item search results, either by a built-in field or by a property value.
+    /// </summary>
+    public class ItemSortOrder
+    {
+        /// <summary>
+        /// Sorts by item name.
+        /// </summary>
+        public const string Name = "name";
+
+        /// <summary>
+        /// Sorts by creation date.
+        /// </summary>
+        public const string Created = "created";
+
+        /// <summary>
+        /// Sorts by last update date.
+        /// </summary>
+        public const string Updated = "updated";
+
+        /// <summary>
+        /// Sorts by quantity, with items without a quantity last.
+        /// </summary>
+        public const string Quantity = "quantity";
+
+        /// <summary>
+        /// Sorts by the value of a property, with items without the property last.
+        /// </summary>
+        public const string Property = "property";
+
+        /// <summary>
+        /// The prefix that marks a sort by property value, as in "property:weight".
+        /// </summary>
+        public const string PropertyPrefix = "property:";
+
+        /// <summary>
+        /// Gets the built-in fields that results can be sorted by.
+        /// </summary>
+        public static IReadOnlyList<string> Fields { get; } = new[] { Name, Created, Updated, Quantity };
+
+        /// <summary>
+        /// Gets the field to sort by. One of <see cref="Fields"/> or <see cref="Property"/>.
+        /// </summary>
+        public string Field { get; }
+
+        /// <summary>
+        /// Gets a value indicating whether results are sorted from highest to lowest.
+        /// </summary>
+        public bool IsDescending { get; }
+
+        /// <summary>
+        /// Gets the property key to sort by when <see cref="Field"/> is <see cref="Property"/>.
+        /// </summary>
+        public string? PropertyKey { get; }
+
+        /// <summary>
+        /// Gets the type that property values are compared as. Text values are compared ignoring case.
+        /// </summary>
+        public string PropertyType { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ItemSortOrder"/> class.
+        /// </summary>
+        /// <param name="field">The field to sort by.</param>
+        /// <param name="isDescending">Whether results are sorted from highest to lowest. Defaults to false.</param>
+        /// <param name="propertyKey">The property key to sort by when sorting by property. Defaults to null.</param>
+        /// <param name="propertyType">The type that property values are compared as. Defaults to <see cref="PropertyTypes.Text"/>.</param>
+        public ItemSortOrder(string field, bool isDescending = false, string? propertyKey = null, string propertyType = PropertyTypes.Text)
+        {
+            Field = field;
+            IsDescending = isDescending;
+            PropertyKey = propertyKey;
+            PropertyType = propertyType;
+        }
+
+        /// <summary>
+        /// Parses a sort order written as a field name or "property:key", with a leading "-" for descending order,
+        /// for example "name", "-updated" or "-property:weight".
+        /// </summary>
+        /// <param name="sort">The sort order to parse.</param>
+        /// <returns>The parsed sort order, or null if the value is empty.</returns>
+        /// <exception cref="ArgumentException">Thrown when the field is unknown or the property key is empty.</exception>
+        public static ItemSortOrder? Parse(string? sort)
+        {
+            if (string.IsNullOrWhiteSpace(sort))
+            {
+                return null;
+            }
+
+            string trimmed = sort.Trim();
+            bool isDescending = trimmed.StartsWith('-');
+            string field = isDescending ? trimmed.Substring(1) : trimmed;
+
+            if (field.StartsWith(PropertyPrefix, StringComparison.OrdinalIgnoreCase))
+            {
+                string propertyKey = field.Substring(PropertyPrefix.Length).Trim();
+                if (propertyKey.Length == 0)
+                {
+                    throw new ArgumentException("Sorting by property needs a property key, as in 'property:weight'.", nameof(sort));
+                }
+
+                return new ItemSortOrder(field: Property, isDescending: isDescending, propertyKey: propertyKey);
+            }
+
+            string normalizedField = field.ToLowerInvariant();
+            if (!Fields.Contains(normalizedField))
+            {
+                throw new ArgumentException($"Unknown sort '{sort}'. Use one of: {string.Join(", ", Fields)}, or {PropertyPrefix}KEY.", nameof(sort));
+            }
+
+            return new ItemSortOrder(field: normalizedField, isDescending: isDescending);
+        }
+    }
+}
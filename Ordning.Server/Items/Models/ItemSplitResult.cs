@@ -0,0 +1,36 @@
+namespace Ordning.Server.Items.Models
+{
+    /// <summary>
+    /// Describes the outcome of moving part of an item's quantity to another location.
+    /// </summary>
+    public class ItemSplitResult
+    {
+        /// <summary>
+        /// Gets the item the quantity was taken from, with its remaining quantity.
+        /// </summary>
+        public Item Source { get; }
+
+        /// <summary>
+        /// Gets the item in the target location that received the quantity.
+        /// </summary>
+        public Item Target { get; }
+
+        /// <summary>
+        /// Gets a value indicating whether the quantity was added to an existing item rather than a newly created one.
+        /// </summary>
+        public bool Merged { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ItemSplitResult"/> class.
+        /// </summary>
+        /// <param name="source">The item the quantity was taken from.</param>
+        /// <param name="target">The item in the target location that received the quantity.</param>
+        /// <param name="merged">Whether the quantity was added to an existing item.</param>
+        public ItemSplitResult(Item source, Item target, bool merged)
+        {
+            Source = source;
+            Target = target;
+            Merged = merged;
+        }
+    }
+}
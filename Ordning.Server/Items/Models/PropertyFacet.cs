@@ -0,0 +1,63 @@
+namespace Ordning.Server.Items.Models
+{
+    /// <summary>
+    /// Represents how many items have a property key, and the most common values for it.
+    /// </summary>
+    public class PropertyFacet
+    {
+        /// <summary>
+        /// Gets the property key.
+        /// </summary>
+        public string Key { get; }
+
+        /// <summary>
+        /// Gets the number of matching items that have the property.
+        /// </summary>
+        public int ItemCount { get; }
+
+        /// <summary>
+        /// Gets the most common values of the property, ordered by item count.
+        /// </summary>
+        public IReadOnlyList<PropertyFacetValue> Values { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="PropertyFacet"/> class.
+        /// </summary>
+        /// <param name="key">The property key.</param>
+        /// <param name="itemCount">The number of matching items that have the property.</param>
+        /// <param name="values">The most common values of the property.</param>
+        public PropertyFacet(string key, int itemCount, IReadOnlyList<PropertyFacetValue> values)
+        {
+            Key = key;
+            ItemCount = itemCount;
+            Values = values;
+        }
+    }
+
+    /// <summary>
+    /// Represents how many items have a specific value for a property.
+    /// </summary>
+    public class PropertyFacetValue
+    {
+        /// <summary>
+        /// Gets the property value.
+        /// </summary>
+        public string Value { get; }
+
+        /// <summary>
+        /// Gets the number of matching items with the value.
+        /// </summary>
+        public int ItemCount { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="PropertyFacetValue"/> class.
+        /// </summary>
+        /// <param name="value">The property value.</param>
+        /// <param name="itemCount">The number of matching items with the value.</param>
+        public PropertyFacetValue(string value, int itemCount)
+        {
+            Value = value;
+            ItemCount = itemCount;
+        }
+    }
+}
@@ -1,4 +1,6 @@
 using EasyReasy.Database;
+using Ordning.Server.Items.Models;
+using Ordning.Server.Search.Models;
 
 namespace Ordning.Server.Items.Repositories
 {
@@ -11,24 +13,44 @@ namespace Ordning.Server.Items.Repositories
         /// Gets an item by its unique identifier.
         /// </summary>
         /// <param name="id">The unique identifier of the item.</param>
+        /// <param name="workspaceId">Only include items in locations of this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>The item database model if found; otherwise, null.</returns>
-        Task<ItemDbModel?> GetByIdAsync(Guid id, IDbSession? session = null);
+        Task<ItemDbModel?> GetByIdAsync(Guid id, Guid? workspaceId = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Gets the items with the given unique identifiers. Identifiers without a matching item are skipped.
+        /// </summary>
+        /// <param name="ids">The unique identifiers of the items.</param>
+        /// <param name="workspaceId">Only include items in locations of this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of the matching item database models.</returns>
+        Task<IEnumerable<ItemDbModel>> GetByIdsAsync(IEnumerable<Guid> ids, Guid? workspaceId = null, IDbSession? session = null);
 
         /// <summary>
         /// Gets all items in the database.
         /// </summary>
+        /// <param name="workspaceId">Only include items in locations of this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>A collection of all item database models.</returns>
-        Task<IEnumerable<ItemDbModel>> GetAllAsync(IDbSession? session = null);
+        Task<IEnumerable<ItemDbModel>> GetAllAsync(Guid? workspaceId = null, IDbSession? session = null);
 
         /// <summary>
         /// Gets all items in a specific location.
         /// </summary>
         /// <param name="locationId">The unique identifier of the location.</param>
+        /// <param name="workspaceId">Only include items if the location is in this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>A collection of item database models in the specified location.</returns>
-        Task<IEnumerable<ItemDbModel>> GetByLocationIdAsync(string locationId, IDbSession? session = null);
+        Task<IEnumerable<ItemDbModel>> GetByLocationIdAsync(string locationId, Guid? workspaceId = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Gets all items in any of the specified locations.
+        /// </summary>
+        /// <param name="locationIds">The unique identifiers of the locations.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of item database models in the specified locations.</returns>
+        Task<IEnumerable<ItemDbModel>> GetByLocationIdsAsync(IEnumerable<string> locationIds, IDbSession? session = null);
 
         /// <summary>
         /// Creates a new item in the database.
@@ -38,9 +60,13 @@ namespace Ordning.Server.Items.Repositories
         /// <param name="description">The description of the item. Defaults to null.</param>
         /// <param name="locationId">The location identifier where the item is stored.</param>
         /// <param name="properties">The optional properties of the item as key/value pairs. Defaults to null.</param>
+        /// <param name="quantity">How many of the item there are. Defaults to null.</param>
+        /// <param name="unit">The unit the quantity is counted in. Defaults to null.</param>
+        /// <param name="minQuantity">The quantity below which the item is low on stock. Defaults to null.</param>
+        /// <param name="templateId">The identifier of the template the item is created from. Defaults to null.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>The created item database model.</returns>
-        Task<ItemDbModel> CreateAsync(Guid id, string name, string? description, string locationId, Dictionary<string, string>? properties = null, IDbSession? session = null);
+        Task<ItemDbModel> CreateAsync(Guid id, string name, string? description, string locationId, Dictionary<string, string>? properties = null, decimal? quantity = null, string? unit = null, decimal? minQuantity = null, Guid? templateId = null, IDbSession? session = null);
 
         /// <summary>
         /// Updates an existing item in the database.
@@ -49,34 +75,102 @@ namespace Ordning.Server.Items.Repositories
         /// <param name="name">The new name of the item.</param>
         /// <param name="description">The new description of the item. Defaults to null.</param>
         /// <param name="properties">The new properties of the item as key/value pairs. Defaults to null.</param>
+        /// <param name="quantity">The new quantity of the item. Defaults to null.</param>
+        /// <param name="unit">The new unit the quantity is counted in. Defaults to null.</param>
+        /// <param name="minQuantity">The new quantity below which the item is low on stock. Defaults to null.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>True if the item was found and updated; otherwise, false.</returns>
-        Task<bool> UpdateAsync(Guid id, string name, string? description = null, Dictionary<string, string>? properties = null, IDbSession? session = null);
+        Task<bool> UpdateAsync(Guid id, string name, string? description = null, Dictionary<string, string>? properties = null, decimal? quantity = null, string? unit = null, decimal? minQuantity = null, IDbSession? session = null);
 
         /// <summary>
         /// Deletes an item from the database.
         /// </summary>
         /// <param name="id">The unique identifier of the item to delete.</param>
+        /// <param name="workspaceId">Only delete the item if it is in this workspace. Defaults to null, which allows every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>True if the item was found and deleted; otherwise, false.</returns>
-        Task<bool> DeleteAsync(Guid id, IDbSession? session = null);
+        Task<bool> DeleteAsync(Guid id, Guid? workspaceId = null, IDbSession? session = null);
 
         /// <summary>
         /// Checks if an item exists in the database.
         /// </summary>
         /// <param name="id">The unique identifier of the item.</param>
+        /// <param name="workspaceId">Only include items in locations of this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>True if the item exists; otherwise, false.</returns>
-        Task<bool> ExistsAsync(Guid id, IDbSession? session = null);
+        Task<bool> ExistsAsync(Guid id, Guid? workspaceId = null, IDbSession? session = null);
 
         /// <summary>
         /// Moves one or more items to a new location.
         /// </summary>
         /// <param name="itemIds">The unique identifiers of the items to move.</param>
         /// <param name="newLocationId">The unique identifier of the new location.</param>
+        /// <param name="workspaceId">Only move the items that are in this workspace. Defaults to null, which allows every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>The number of items that were moved.</returns>
-        Task<int> MoveItemsAsync(IEnumerable<Guid> itemIds, string newLocationId, IDbSession? session = null);
+        Task<int> MoveItemsAsync(IEnumerable<Guid> itemIds, string newLocationId, Guid? workspaceId = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Deletes one or more items from the database.
+        /// </summary>
+        /// <param name="itemIds">The unique identifiers of the items to delete.</param>
+        /// <param name="workspaceId">Only delete the items that are in this workspace. Defaults to null, which allows every workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The number of items that were deleted.</returns>
+        Task<int> DeleteItemsAsync(IEnumerable<Guid> itemIds, Guid? workspaceId = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Adds, overwrites and removes properties on one or more items, leaving other properties untouched.
+        /// </summary>
+        /// <param name="itemIds">The unique identifiers of the items to update.</param>
+        /// <param name="propertiesToSet">The properties to add or overwrite.</param>
+        /// <param name="propertyKeysToRemove">The property keys to remove.</param>
+        /// <param name="workspaceId">Only update the items that are in this workspace. Defaults to null, which allows every workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The number of items that were updated.</returns>
+        Task<int> UpdatePropertiesAsync(IEnumerable<Guid> itemIds, Dictionary<string, string> propertiesToSet, IEnumerable<string> propertyKeysToRemove, Guid? workspaceId = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Adds to or subtracts from the quantity of an item, unless the item has no quantity or the quantity would drop below zero.
+        /// </summary>
+        /// <param name="id">The unique identifier of the item.</param>
+        /// <param name="delta">The amount to add. Negative amounts are subtracted.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the quantity was changed; otherwise, false.</returns>
+        Task<bool> AdjustQuantityAsync(Guid id, decimal delta, IDbSession? session = null);
+
+        /// <summary>
+        /// Gets the items whose quantity is below their minimum quantity, ordered by name.
+        /// </summary>
+        /// <param name="workspaceId">Only include items in locations of this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of the item database models that are low on stock.</returns>
+        Task<IEnumerable<ItemDbModel>> GetLowStockAsync(Guid? workspaceId = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Finds an item in a location that a quantity of another item can be merged into: one with the same name and unit, ignoring case, that has a quantity.
+        /// </summary>
+        /// <param name="locationId">The unique identifier of the location to look in.</param>
+        /// <param name="name">The name of the item.</param>
+        /// <param name="unit">The unit of the item, or null if it has none.</param>
+        /// <param name="excludedId">The unique identifier of an item to skip, usually the item being split.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The oldest matching item database model if any; otherwise, null.</returns>
+        Task<ItemDbModel?> FindMergeTargetAsync(string locationId, string name, string? unit, Guid excludedId, IDbSession? session = null);
+
+        /// <summary>
+        /// Moves part of an item's quantity to another location in one transaction. The quantity is added to the merge target if one is given;
+        /// otherwise a copy of the item with its tags, but without its photos and minimum quantity, is created in the target location.
+        /// </summary>
+        /// <param name="id">The unique identifier of the item to take the quantity from.</param>
+        /// <param name="quantity">The quantity to move.</param>
+        /// <param name="targetLocationId">The unique identifier of the location to move the quantity to.</param>
+        /// <param name="mergeTargetId">The unique identifier of the item to add the quantity to, or null to create a copy of the item.</param>
+        /// <param name="newItemId">The unique identifier to give the copy. Not used when a merge target is given.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the quantity was moved; false if the item no longer has enough quantity, in which case nothing is changed.</returns>
+        /// <exception cref="InvalidOperationException">Thrown when the merge target no longer exists or has no quantity. Nothing is changed.</exception>
+        Task<bool> SplitAsync(Guid id, decimal quantity, string targetLocationId, Guid? mergeTargetId, Guid newItemId, IDbSession? session = null);
 
         /// <summary>
         /// Searches items using full-text search with relevance ranking.
@@ -84,8 +178,44 @@ namespace Ordning.Server.Items.Repositories
         /// <param name="searchTerm">The search term to match against item names, descriptions, and properties.</param>
         /// <param name="offset">The number of results to skip for pagination.</param>
         /// <param name="limit">The maximum number of results to return.</param>
+        /// <param name="workspaceId">Only include items in locations of this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="hiddenLocationIds">Items in these locations are left out. Defaults to null for none.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>A tuple containing the matching items and the total count of matches.</returns>
-        Task<(IEnumerable<ItemDbModel> Results, int TotalCount)> SearchAsync(string searchTerm, int offset, int limit, IDbSession? session = null);
+        Task<(IEnumerable<ItemDbModel> Results, int TotalCount)> SearchAsync(string searchTerm, int offset, int limit, Guid? workspaceId = null, IEnumerable<string>? hiddenLocationIds = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Searches items with a parsed search query, limited to items matching all property filters and ranges.
+        /// Results are in the given sort order, or else ranked by relevance to the query text, or ordered by name if the query has no text.
+        /// </summary>
+        /// <param name="query">The search query to match against item names, descriptions, properties, locations and dates.</param>
+        /// <param name="propertyFilters">The property filters that items must match.</param>
+        /// <param name="offset">The number of results to skip for pagination.</param>
+        /// <param name="limit">The maximum number of results to return.</param>
+        /// <param name="propertyRanges">The number and date ranges that item properties must lie within. Defaults to null.</param>
+        /// <param name="sortOrder">The order of the results. Defaults to null for relevance order.</param>
+        /// <param name="templateId">The template that items must have been created from. Defaults to null for any.</param>
+        /// <param name="tags">The tags that items must all have, ignoring case. Defaults to null for any.</param>
+        /// <param name="workspaceId">Only include items in locations of this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="hiddenLocationIds">Items in these locations are left out. Defaults to null for none.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A tuple containing the matching items and the total count of matches.</returns>
+        Task<(IEnumerable<ItemDbModel> Results, int TotalCount)> SearchAsync(SearchQuery query, IEnumerable<ItemPropertyFilter> propertyFilters, int offset, int limit, IEnumerable<ItemPropertyRange>? propertyRanges = null, ItemSortOrder? sortOrder = null, Guid? templateId = null, IEnumerable<string>? tags = null, Guid? workspaceId = null, IEnumerable<string>? hiddenLocationIds = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Counts the property keys and values of the items matching a search.
+        /// The filter on a key is ignored when counting that key's own values, so every value of a filtered key stays selectable.
+        /// </summary>
+        /// <param name="query">The search query to match against item names, descriptions, properties, locations and dates.</param>
+        /// <param name="propertyFilters">The property filters that items must match.</param>
+        /// <param name="keyLimit">The maximum number of property keys to return, most common first.</param>
+        /// <param name="valueLimit">The maximum number of values to return per key, most common first.</param>
+        /// <param name="templateId">The template that items must have been created from. Defaults to null for any.</param>
+        /// <param name="tags">The tags that items must all have, ignoring case. Defaults to null for any.</param>
+        /// <param name="workspaceId">Only include items in locations of this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="hiddenLocationIds">Items in these locations are left out. Defaults to null for none.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>One row per returned key and value, with the item counts for both.</returns>
+        Task<IEnumerable<PropertyFacetDbModel>> GetPropertyFacetsAsync(SearchQuery query, IEnumerable<ItemPropertyFilter> propertyFilters, int keyLimit, int valueLimit, Guid? templateId = null, IEnumerable<string>? tags = null, Guid? workspaceId = null, IEnumerable<string>? hiddenLocationIds = null, IDbSession? session = null);
     }
 }
@@ -33,6 +33,36 @@ namespace Ordning.Server.Items.Repositories
         /// </summary>
         public string PropertiesJson { get; set; } = "{}";
 
+        /// <summary>
+        /// Gets or sets the identifiers of the photos of the item as a JSON array string.
+        /// </summary>
+        public string ImageIdsJson { get; set; } = "[]";
+
+        /// <summary>
+        /// Gets or sets the tags of the item as a JSON array string.
+        /// </summary>
+        public string TagsJson { get; set; } = "[]";
+
+        /// <summary>
+        /// Gets or sets how many of the item there are, or null if the item is a single thing.
+        /// </summary>
+        public decimal? Quantity { get; set; }
+
+        /// <summary>
+        /// Gets or sets the unit the quantity is counted in.
+        /// </summary>
+        public string? Unit { get; set; }
+
+        /// <summary>
+        /// Gets or sets the quantity below which the item is low on stock.
+        /// </summary>
+        public decimal? MinQuantity { get; set; }
+
+        /// <summary>
+        /// Gets or sets the identifier of the template the item was created from.
+        /// </summary>
+        public Guid? TemplateId { get; set; }
+
         /// <summary>
         /// Gets or sets the UTC timestamp when the item was created.
         /// </summary>
@@ -63,6 +93,32 @@ namespace Ordning.Server.Items.Repositories
                 }
             }
 
+            List<Guid> imageIds = new List<Guid>();
+            if (!string.IsNullOrWhiteSpace(ImageIdsJson))
+            {
+                try
+                {
+                    imageIds = JsonSerializer.Deserialize<List<Guid>>(ImageIdsJson) ?? new List<Guid>();
+                }
+                catch
+                {
+                    imageIds = new List<Guid>();
+                }
+            }
+
+            List<string> tags = new List<string>();
+            if (!string.IsNullOrWhiteSpace(TagsJson))
+            {
+                try
+                {
+                    tags = JsonSerializer.Deserialize<List<string>>(TagsJson) ?? new List<string>();
+                }
+                catch
+                {
+                    tags = new List<string>();
+                }
+            }
+
             return new Item(
                 id: Id,
                 name: Name,
@@ -70,7 +126,13 @@ namespace Ordning.Server.Items.Repositories
                 locationId: LocationId,
                 properties: properties,
                 createdAt: CreatedAt,
-                updatedAt: UpdatedAt);
+                updatedAt: UpdatedAt,
+                imageIds: imageIds,
+                quantity: Quantity,
+                unit: Unit,
+                minQuantity: MinQuantity,
+                templateId: TemplateId,
+                tags: tags);
         }
     }
 }
@@ -5,6 +5,12 @@ using Dapper;
 using EasyReasy.Database;
 using Npgsql;
 using Ordning.Server.Database;
+using Ordning.Server.Images.Models;
+using Ordning.Server.Items.Models;
+using Ordning.Server.PropertyDefinitions.Models;
+using Ordning.Server.Search.Models;
+using Ordning.Server.Search.Repositories;
+using Ordning.Server.Tags.Models;
 
 namespace Ordning.Server.Items.Repositories
 {
@@ -13,6 +19,39 @@ namespace Ordning.Server.Items.Repositories
     /// </summary>
     public class ItemRepository : RepositoryBase, IItemRepository
     {
+        private const string ImageIdsColumn = $@"(
+                            SELECT COALESCE(json_agg(images.id ORDER BY images.sort_order, images.created_at), '[]')::text
+                            FROM images
+                            WHERE images.owner_type = '{ImageOwnerTypes.Item}' AND images.owner_id = items.id::text
+                                AND images.workspace_id = (SELECT image_owners.workspace_id FROM locations image_owners WHERE image_owners.id = items.location_id)
+                        ) AS ImageIdsJson";
+
+        private const string TagsColumn = $@"(
+                            SELECT COALESCE(json_agg(tags.name ORDER BY LOWER(tags.name)), '[]')::text
+                            FROM tags
+                            WHERE tags.owner_type = '{TagOwnerTypes.Item}' AND tags.owner_id = items.id::text
+                        ) AS TagsJson";
+
+        private const string WorkspaceCondition = @"(@workspaceId::uuid IS NULL OR items.location_id IN (
+                            SELECT locations.id FROM locations WHERE locations.workspace_id = @workspaceId
+                        ))";
+
+        private const string SearchDocumentExpression = "to_tsvector('english', name || ' ' || COALESCE(description, '') || ' ' || COALESCE(properties::text, ''))";
+
+        private const string WeightedSearchDocumentExpression = @"
+                                    setweight(to_tsvector('english', name), 'A') ||
+                                    setweight(to_tsvector('english', COALESCE(description, '')), 'B') ||
+                                    setweight(to_tsvector('english', COALESCE(properties::text, '')), 'C')";
+
+        private const string RelevanceScoreExpression = $@"(
+                                -- Phrase match score (highest weight)
+                                COALESCE(ts_rank_cd({WeightedSearchDocumentExpression}, to_tsquery('english', @phraseQuery)), 0) * 3.0 +
+                                -- Both words match score
+                                COALESCE(ts_rank_cd({WeightedSearchDocumentExpression}, to_tsquery('english', @andQuery)), 0) * 2.0 +
+                                -- Either word match score
+                                COALESCE(ts_rank_cd({WeightedSearchDocumentExpression}, to_tsquery('english', @orQuery)), 0)
+                            )";
+
         /// <summary>
         /// Initializes a new instance of the <see cref="ItemRepository"/> class.
         /// </summary>
@@ -27,9 +66,10 @@ namespace Ordning.Server.Items.Repositories
         /// Gets an item by its unique identifier.
         /// </summary>
         /// <param name="id">The unique identifier of the item.</param>
+        /// <param name="workspaceId">Only include items in locations of this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>The item database model if found; otherwise, null.</returns>
-        public async Task<ItemDbModel?> GetByIdAsync(Guid id, IDbSession? session = null)
+        public async Task<ItemDbModel?> GetByIdAsync(Guid id, Guid? workspaceId = null, IDbSession? session = null)
         {
             return await UseSessionAsync(async (dbSession) =>
             {
@@ -41,13 +81,59 @@ namespace Ordning.Server.Items.Repositories
                         location_id AS LocationId,
                         properties::text AS PropertiesJson,
                         created_at AS CreatedAt,
-                        updated_at AS UpdatedAt
+                        updated_at AS UpdatedAt,
+                        quantity AS Quantity,
+                        unit AS Unit,
+                        min_quantity AS MinQuantity,
+                        template_id AS TemplateId,
+                        {ImageIdsColumn},
+                        {TagsColumn}
                     FROM items
-                    WHERE id = @{nameof(id)}";
+                    WHERE id = @{nameof(id)} AND {WorkspaceCondition}";
 
                 ItemDbModel? result = await dbSession.Connection.QuerySingleOrDefaultAsync<ItemDbModel>(
                     query,
-                    new { id },
+                    new { id, workspaceId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets the items with the given unique identifiers. Identifiers without a matching item are skipped.
+        /// </summary>
+        /// <param name="ids">The unique identifiers of the items.</param>
+        /// <param name="workspaceId">Only include items in locations of this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of the matching item database models.</returns>
+        public async Task<IEnumerable<ItemDbModel>> GetByIdsAsync(IEnumerable<Guid> ids, Guid? workspaceId = null, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                Guid[] idsArray = ids.ToArray();
+
+                string query = $@"
+                    SELECT 
+                        id,
+                        name,
+                        description,
+                        location_id AS LocationId,
+                        properties::text AS PropertiesJson,
+                        created_at AS CreatedAt,
+                        updated_at AS UpdatedAt,
+                        quantity AS Quantity,
+                        unit AS Unit,
+                        min_quantity AS MinQuantity,
+                        template_id AS TemplateId,
+                        {ImageIdsColumn},
+                        {TagsColumn}
+                    FROM items
+                    WHERE id = ANY(@{nameof(idsArray)}) AND {WorkspaceCondition}";
+
+                IEnumerable<ItemDbModel> result = await dbSession.Connection.QueryAsync<ItemDbModel>(
+                    query,
+                    new { idsArray, workspaceId },
                     transaction: dbSession.Transaction);
 
                 return result;
@@ -57,13 +143,14 @@ namespace Ordning.Server.Items.Repositories
         /// <summary>
         /// Gets all items in the database.
         /// </summary>
+        /// <param name="workspaceId">Only include items in locations of this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>A collection of all item database models.</returns>
-        public async Task<IEnumerable<ItemDbModel>> GetAllAsync(IDbSession? session = null)
+        public async Task<IEnumerable<ItemDbModel>> GetAllAsync(Guid? workspaceId = null, IDbSession? session = null)
         {
             return await UseSessionAsync(async (dbSession) =>
             {
-                string query = @"
+                string query = $@"
                     SELECT 
                         id,
                         name,
@@ -71,12 +158,20 @@ namespace Ordning.Server.Items.Repositories
                         location_id AS LocationId,
                         properties::text AS PropertiesJson,
                         created_at AS CreatedAt,
-                        updated_at AS UpdatedAt
+                        updated_at AS UpdatedAt,
+                        quantity AS Quantity,
+                        unit AS Unit,
+                        min_quantity AS MinQuantity,
+                        template_id AS TemplateId,
+                        {ImageIdsColumn},
+                        {TagsColumn}
                     FROM items
+                    WHERE {WorkspaceCondition}
                     ORDER BY name";
 
                 IEnumerable<ItemDbModel> result = await dbSession.Connection.QueryAsync<ItemDbModel>(
                     query,
+                    new { workspaceId },
                     transaction: dbSession.Transaction);
 
                 return result;
@@ -87,9 +182,10 @@ namespace Ordning.Server.Items.Repositories
         /// Gets all items in a specific location.
         /// </summary>
         /// <param name="locationId">The unique identifier of the location.</param>
+        /// <param name="workspaceId">Only include items if the location is in this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>A collection of item database models in the specified location.</returns>
-        public async Task<IEnumerable<ItemDbModel>> GetByLocationIdAsync(string locationId, IDbSession? session = null)
+        public async Task<IEnumerable<ItemDbModel>> GetByLocationIdAsync(string locationId, Guid? workspaceId = null, IDbSession? session = null)
         {
             return await UseSessionAsync(async (dbSession) =>
             {
@@ -101,14 +197,60 @@ namespace Ordning.Server.Items.Repositories
                         location_id AS LocationId,
                         properties::text AS PropertiesJson,
                         created_at AS CreatedAt,
-                        updated_at AS UpdatedAt
+                        updated_at AS UpdatedAt,
+                        quantity AS Quantity,
+                        unit AS Unit,
+                        min_quantity AS MinQuantity,
+                        template_id AS TemplateId,
+                        {ImageIdsColumn},
+                        {TagsColumn}
                     FROM items
-                    WHERE location_id = @{nameof(locationId)}
+                    WHERE location_id = @{nameof(locationId)} AND {WorkspaceCondition}
                     ORDER BY name";
 
                 IEnumerable<ItemDbModel> result = await dbSession.Connection.QueryAsync<ItemDbModel>(
                     query,
-                    new { locationId },
+                    new { locationId, workspaceId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets all items in any of the specified locations.
+        /// </summary>
+        /// <param name="locationIds">The unique identifiers of the locations.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of item database models in the specified locations.</returns>
+        public async Task<IEnumerable<ItemDbModel>> GetByLocationIdsAsync(IEnumerable<string> locationIds, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string[] locationIdsArray = locationIds.ToArray();
+
+                string query = $@"
+                    SELECT 
+                        id,
+                        name,
+                        description,
+                        location_id AS LocationId,
+                        properties::text AS PropertiesJson,
+                        created_at AS CreatedAt,
+                        updated_at AS UpdatedAt,
+                        quantity AS Quantity,
+                        unit AS Unit,
+                        min_quantity AS MinQuantity,
+                        template_id AS TemplateId,
+                        {ImageIdsColumn},
+                        {TagsColumn}
+                    FROM items
+                    WHERE location_id = ANY(@{nameof(locationIdsArray)})
+                    ORDER BY name";
+
+                IEnumerable<ItemDbModel> result = await dbSession.Connection.QueryAsync<ItemDbModel>(
+                    query,
+                    new { locationIdsArray },
                     transaction: dbSession.Transaction);
 
                 return result;
@@ -123,9 +265,13 @@ namespace Ordning.Server.Items.Repositories
         /// <param name="description">The description of the item. Defaults to null.</param>
         /// <param name="locationId">The location identifier where the item is stored.</param>
         /// <param name="properties">The optional properties of the item as key/value pairs. Defaults to null.</param>
+        /// <param name="quantity">How many of the item there are. Defaults to null.</param>
+        /// <param name="unit">The unit the quantity is counted in. Defaults to null.</param>
+        /// <param name="minQuantity">The quantity below which the item is low on stock. Defaults to null.</param>
+        /// <param name="templateId">The identifier of the template the item is created from. Defaults to null.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>The created item database model.</returns>
-        public async Task<ItemDbModel> CreateAsync(Guid id, string name, string? description, string locationId, Dictionary<string, string>? properties = null, IDbSession? session = null)
+        public async Task<ItemDbModel> CreateAsync(Guid id, string name, string? description, string locationId, Dictionary<string, string>? properties = null, decimal? quantity = null, string? unit = null, decimal? minQuantity = null, Guid? templateId = null, IDbSession? session = null)
         {
             try
             {
@@ -134,8 +280,8 @@ namespace Ordning.Server.Items.Repositories
                     string propertiesJson = JsonSerializer.Serialize(properties ?? new Dictionary<string, string>());
 
                     string query = $@"
-                        INSERT INTO items (id, name, description, location_id, properties)
-                        VALUES (@{nameof(id)}, @{nameof(name)}, @{nameof(description)}, @{nameof(locationId)}, @propertiesJson::jsonb)
+                        INSERT INTO items (id, name, description, location_id, properties, quantity, unit, min_quantity, template_id)
+                        VALUES (@{nameof(id)}, @{nameof(name)}, @{nameof(description)}, @{nameof(locationId)}, @propertiesJson::jsonb, @{nameof(quantity)}, @{nameof(unit)}, @{nameof(minQuantity)}, @{nameof(templateId)})
                         RETURNING 
                             id,
                             name,
@@ -143,11 +289,17 @@ namespace Ordning.Server.Items.Repositories
                             location_id AS LocationId,
                             properties::text AS PropertiesJson,
                             created_at AS CreatedAt,
-                            updated_at AS UpdatedAt";
+                            updated_at AS UpdatedAt,
+                            quantity AS Quantity,
+                            unit AS Unit,
+                            min_quantity AS MinQuantity,
+                            template_id AS TemplateId,
+                            {ImageIdsColumn},
+                            {TagsColumn}";
 
                     ItemDbModel result = await dbSession.Connection.QuerySingleAsync<ItemDbModel>(
                         query,
-                        new { id, name, description, locationId, propertiesJson },
+                        new { id, name, description, locationId, propertiesJson, quantity, unit, minQuantity, templateId },
                         transaction: dbSession.Transaction);
 
                     return result;
@@ -161,6 +313,11 @@ namespace Ordning.Server.Items.Repositories
                     throw new DatabaseConstraintViolationException("Location does not exist.", ex);
                 }
 
+                if (constraintName.Contains("fk_items_template"))
+                {
+                    throw new DatabaseConstraintViolationException("Item template does not exist.", ex);
+                }
+
                 throw new DatabaseConstraintViolationException("A database constraint violation occurred.", ex);
             }
         }
@@ -172,9 +329,12 @@ namespace Ordning.Server.Items.Repositories
         /// <param name="name">The new name of the item.</param>
         /// <param name="description">The new description of the item. Defaults to null.</param>
         /// <param name="properties">The new properties of the item as key/value pairs. Defaults to null. When null, properties are cleared to an empty dictionary (serialized as <c>{}</c>).</param>
+        /// <param name="quantity">The new quantity of the item. Defaults to null.</param>
+        /// <param name="unit">The new unit the quantity is counted in. Defaults to null.</param>
+        /// <param name="minQuantity">The new quantity below which the item is low on stock. Defaults to null.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>True if the item was found and updated; otherwise, false.</returns>
-        public async Task<bool> UpdateAsync(Guid id, string name, string? description = null, Dictionary<string, string>? properties = null, IDbSession? session = null)
+        public async Task<bool> UpdateAsync(Guid id, string name, string? description = null, Dictionary<string, string>? properties = null, decimal? quantity = null, string? unit = null, decimal? minQuantity = null, IDbSession? session = null)
         {
             return await UseSessionAsync(async (dbSession) =>
             {
@@ -185,12 +345,15 @@ namespace Ordning.Server.Items.Repositories
                     SET name = @{nameof(name)},
                         description = @{nameof(description)},
                         properties = @propertiesJson::jsonb,
+                        quantity = @{nameof(quantity)},
+                        unit = @{nameof(unit)},
+                        min_quantity = @{nameof(minQuantity)},
                         updated_at = NOW()
                     WHERE id = @{nameof(id)}";
 
                 int rowsAffected = await dbSession.Connection.ExecuteAsync(
                     query,
-                    new { id, name, description, propertiesJson },
+                    new { id, name, description, propertiesJson, quantity, unit, minQuantity },
                     transaction: dbSession.Transaction);
 
                 return rowsAffected > 0;
@@ -201,19 +364,20 @@ namespace Ordning.Server.Items.Repositories
         /// Deletes an item from the database.
         /// </summary>
         /// <param name="id">The unique identifier of the item to delete.</param>
+        /// <param name="workspaceId">Only delete the item if it is in this workspace. Defaults to null, which allows every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>True if the item was found and deleted; otherwise, false.</returns>
-        public async Task<bool> DeleteAsync(Guid id, IDbSession? session = null)
+        public async Task<bool> DeleteAsync(Guid id, Guid? workspaceId = null, IDbSession? session = null)
         {
             return await UseSessionAsync(async (dbSession) =>
             {
                 string query = $@"
                     DELETE FROM items
-                    WHERE id = @{nameof(id)}";
+                    WHERE id = @{nameof(id)} AND {WorkspaceCondition}";
 
                 int rowsAffected = await dbSession.Connection.ExecuteAsync(
                     query,
-                    new { id },
+                    new { id, workspaceId },
                     transaction: dbSession.Transaction);
 
                 return rowsAffected > 0;
@@ -224,20 +388,21 @@ namespace Ordning.Server.Items.Repositories
         /// Checks if an item exists in the database.
         /// </summary>
         /// <param name="id">The unique identifier of the item.</param>
+        /// <param name="workspaceId">Only include items in locations of this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>True if the item exists; otherwise, false.</returns>
-        public async Task<bool> ExistsAsync(Guid id, IDbSession? session = null)
+        public async Task<bool> ExistsAsync(Guid id, Guid? workspaceId = null, IDbSession? session = null)
         {
             return await UseSessionAsync(async (dbSession) =>
             {
                 string query = $@"
                     SELECT COUNT(*)
                     FROM items
-                    WHERE id = @{nameof(id)}";
+                    WHERE id = @{nameof(id)} AND {WorkspaceCondition}";
 
                 int count = await dbSession.Connection.QuerySingleAsync<int>(
                     query,
-                    new { id },
+                    new { id, workspaceId },
                     transaction: dbSession.Transaction);
 
                 return count > 0;
@@ -249,9 +414,10 @@ namespace Ordning.Server.Items.Repositories
         /// </summary>
         /// <param name="itemIds">The unique identifiers of the items to move.</param>
         /// <param name="newLocationId">The unique identifier of the new location.</param>
+        /// <param name="workspaceId">Only move the items that are in this workspace. Defaults to null, which allows every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>The number of items that were moved.</returns>
-        public async Task<int> MoveItemsAsync(IEnumerable<Guid> itemIds, string newLocationId, IDbSession? session = null)
+        public async Task<int> MoveItemsAsync(IEnumerable<Guid> itemIds, string newLocationId, Guid? workspaceId = null, IDbSession? session = null)
         {
             try
             {
@@ -263,11 +429,11 @@ namespace Ordning.Server.Items.Repositories
                         UPDATE items
                         SET location_id = @{nameof(newLocationId)},
                             updated_at = NOW()
-                        WHERE id = ANY(@{nameof(itemIdsArray)})";
+                        WHERE id = ANY(@{nameof(itemIdsArray)}) AND {WorkspaceCondition}";
 
                     int rowsAffected = await dbSession.Connection.ExecuteAsync(
                         query,
-                        new { newLocationId, itemIdsArray },
+                        new { newLocationId, itemIdsArray, workspaceId },
                         transaction: dbSession.Transaction);
 
                     return rowsAffected;
@@ -285,38 +451,340 @@ namespace Ordning.Server.Items.Repositories
             }
         }
 
+        /// <summary>
+        /// Deletes one or more items from the database.
+        /// </summary>
+        /// <param name="itemIds">The unique identifiers of the items to delete.</param>
+        /// <param name="workspaceId">Only delete the items that are in this workspace. Defaults to null, which allows every workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The number of items that were deleted.</returns>
+        public async Task<int> DeleteItemsAsync(IEnumerable<Guid> itemIds, Guid? workspaceId = null, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                Guid[] itemIdsArray = itemIds.ToArray();
+
+                string query = $@"
+                    DELETE FROM items
+                    WHERE id = ANY(@{nameof(itemIdsArray)}) AND {WorkspaceCondition}";
+
+                int rowsAffected = await dbSession.Connection.ExecuteAsync(
+                    query,
+                    new { itemIdsArray, workspaceId },
+                    transaction: dbSession.Transaction);
+
+                return rowsAffected;
+            }, session);
+        }
+
+        /// <summary>
+        /// Adds, overwrites and removes properties on one or more items, leaving other properties untouched.
+        /// </summary>
+        /// <param name="itemIds">The unique identifiers of the items to update.</param>
+        /// <param name="propertiesToSet">The properties to add or overwrite.</param>
+        /// <param name="propertyKeysToRemove">The property keys to remove.</param>
+        /// <param name="workspaceId">Only update the items that are in this workspace. Defaults to null, which allows every workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The number of items that were updated.</returns>
+        public async Task<int> UpdatePropertiesAsync(IEnumerable<Guid> itemIds, Dictionary<string, string> propertiesToSet, IEnumerable<string> propertyKeysToRemove, Guid? workspaceId = null, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                Guid[] itemIdsArray = itemIds.ToArray();
+                string[] keysToRemove = propertyKeysToRemove.ToArray();
+                string propertiesJson = JsonSerializer.Serialize(propertiesToSet);
+
+                string query = $@"
+                    UPDATE items
+                    SET properties = (properties - @{nameof(keysToRemove)}::text[]) || @{nameof(propertiesJson)}::jsonb,
+                        updated_at = NOW()
+                    WHERE id = ANY(@{nameof(itemIdsArray)}) AND {WorkspaceCondition}";
+
+                int rowsAffected = await dbSession.Connection.ExecuteAsync(
+                    query,
+                    new { itemIdsArray, keysToRemove, propertiesJson, workspaceId },
+                    transaction: dbSession.Transaction);
+
+                return rowsAffected;
+            }, session);
+        }
+
+        /// <summary>
+        /// Adds to or subtracts from the quantity of an item, unless the item has no quantity or the quantity would drop below zero.
+        /// </summary>
+        /// <param name="id">The unique identifier of the item.</param>
+        /// <param name="delta">The amount to add. Negative amounts are subtracted.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the quantity was changed; otherwise, false.</returns>
+        public async Task<bool> AdjustQuantityAsync(Guid id, decimal delta, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    UPDATE items
+                    SET quantity = quantity + @{nameof(delta)},
+                        updated_at = NOW()
+                    WHERE id = @{nameof(id)}
+                        AND quantity IS NOT NULL
+                        AND quantity + @{nameof(delta)} >= 0";
+
+                int rowsAffected = await dbSession.Connection.ExecuteAsync(
+                    query,
+                    new { id, delta },
+                    transaction: dbSession.Transaction);
+
+                return rowsAffected > 0;
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets the items whose quantity is below their minimum quantity, ordered by name.
+        /// </summary>
+        /// <param name="workspaceId">Only include items in locations of this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of the item database models that are low on stock.</returns>
+        public async Task<IEnumerable<ItemDbModel>> GetLowStockAsync(Guid? workspaceId = null, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT 
+                        id,
+                        name,
+                        description,
+                        location_id AS LocationId,
+                        properties::text AS PropertiesJson,
+                        created_at AS CreatedAt,
+                        updated_at AS UpdatedAt,
+                        quantity AS Quantity,
+                        unit AS Unit,
+                        min_quantity AS MinQuantity,
+                        template_id AS TemplateId,
+                        {ImageIdsColumn},
+                        {TagsColumn}
+                    FROM items
+                    WHERE quantity < min_quantity AND {WorkspaceCondition}
+                    ORDER BY name";
+
+                IEnumerable<ItemDbModel> result = await dbSession.Connection.QueryAsync<ItemDbModel>(
+                    query,
+                    new { workspaceId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Finds an item in a location that a quantity of another item can be merged into: one with the same name and unit, ignoring case, that has a quantity.
+        /// </summary>
+        /// <param name="locationId">The unique identifier of the location to look in.</param>
+        /// <param name="name">The name of the item.</param>
+        /// <param name="unit">The unit of the item, or null if it has none.</param>
+        /// <param name="excludedId">The unique identifier of an item to skip, usually the item being split.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The oldest matching item database model if any; otherwise, null.</returns>
+        public async Task<ItemDbModel?> FindMergeTargetAsync(string locationId, string name, string? unit, Guid excludedId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT 
+                        id,
+                        name,
+                        description,
+                        location_id AS LocationId,
+                        properties::text AS PropertiesJson,
+                        created_at AS CreatedAt,
+                        updated_at AS UpdatedAt,
+                        quantity AS Quantity,
+                        unit AS Unit,
+                        min_quantity AS MinQuantity,
+                        template_id AS TemplateId,
+                        {ImageIdsColumn},
+                        {TagsColumn}
+                    FROM items
+                    WHERE location_id = @{nameof(locationId)}
+                        AND LOWER(name) = LOWER(@{nameof(name)})
+                        AND LOWER(unit) IS NOT DISTINCT FROM LOWER(@{nameof(unit)})
+                        AND quantity IS NOT NULL
+                        AND id <> @{nameof(excludedId)}
+                    ORDER BY created_at
+                    LIMIT 1";
+
+                ItemDbModel? result = await dbSession.Connection.QueryFirstOrDefaultAsync<ItemDbModel>(
+                    query,
+                    new { locationId, name, unit, excludedId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Moves part of an item's quantity to another location in one transaction. The quantity is added to the merge target if one is given;
+        /// otherwise a copy of the item with its tags, but without its photos and minimum quantity, is created in the target location.
+        /// </summary>
+        /// <param name="id">The unique identifier of the item to take the quantity from.</param>
+        /// <param name="quantity">The quantity to move.</param>
+        /// <param name="targetLocationId">The unique identifier of the location to move the quantity to.</param>
+        /// <param name="mergeTargetId">The unique identifier of the item to add the quantity to, or null to create a copy of the item.</param>
+        /// <param name="newItemId">The unique identifier to give the copy. Not used when a merge target is given.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the quantity was moved; false if the item no longer has enough quantity, in which case nothing is changed.</returns>
+        /// <exception cref="InvalidOperationException">Thrown when the merge target no longer exists or has no quantity. Nothing is changed.</exception>
+        public async Task<bool> SplitAsync(Guid id, decimal quantity, string targetLocationId, Guid? mergeTargetId, Guid newItemId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                return await dbSession.UseTransactionAsync(async (transaction) =>
+                {
+                    string takeQuery = $@"
+                        UPDATE items
+                        SET quantity = quantity - @{nameof(quantity)},
+                            updated_at = NOW()
+                        WHERE id = @{nameof(id)}
+                            AND quantity IS NOT NULL
+                            AND quantity - @{nameof(quantity)} >= 0";
+
+                    int takenRows = await dbSession.Connection.ExecuteAsync(
+                        takeQuery,
+                        new { id, quantity },
+                        transaction: transaction);
+
+                    if (takenRows == 0)
+                    {
+                        return false;
+                    }
+
+                    if (mergeTargetId != null)
+                    {
+                        string mergeQuery = $@"
+                            UPDATE items
+                            SET quantity = quantity + @{nameof(quantity)},
+                                updated_at = NOW()
+                            WHERE id = @{nameof(mergeTargetId)}
+                                AND quantity IS NOT NULL";
+
+                        int mergedRows = await dbSession.Connection.ExecuteAsync(
+                            mergeQuery,
+                            new { mergeTargetId, quantity },
+                            transaction: transaction);
+
+                        if (mergedRows == 0)
+                        {
+                            throw new InvalidOperationException("The item to add the quantity to no longer exists.");
+                        }
+
+                        return true;
+                    }
+
+                    string copyQuery = $@"
+                        INSERT INTO items (id, name, description, location_id, properties, quantity, unit, min_quantity, template_id)
+                        SELECT @{nameof(newItemId)}, name, description, @{nameof(targetLocationId)}, properties, @{nameof(quantity)}, unit, NULL, template_id
+                        FROM items
+                        WHERE id = @{nameof(id)}";
+
+                    await dbSession.Connection.ExecuteAsync(
+                        copyQuery,
+                        new { id, newItemId, targetLocationId, quantity },
+                        transaction: transaction);
+
+                    string copyTagsQuery = $@"
+                        INSERT INTO tags (owner_type, owner_id, name)
+                        SELECT owner_type, @{nameof(newItemId)}::text, name
+                        FROM tags
+                        WHERE owner_type = '{TagOwnerTypes.Item}' AND owner_id = @{nameof(id)}::text";
+
+                    await dbSession.Connection.ExecuteAsync(
+                        copyTagsQuery,
+                        new { id, newItemId },
+                        transaction: transaction);
+
+                    return true;
+                });
+            }, session);
+        }
+
         /// <summary>
         /// Searches items using full-text search with relevance ranking.
         /// </summary>
         /// <param name="searchTerm">The search term to match against item names, descriptions, and properties.</param>
         /// <param name="offset">The number of results to skip for pagination.</param>
         /// <param name="limit">The maximum number of results to return.</param>
+        /// <param name="workspaceId">Only include items in locations of this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="hiddenLocationIds">Items in these locations are left out. Defaults to null for none.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A tuple containing the matching items and the total count of matches.</returns>
+        public async Task<(IEnumerable<ItemDbModel> Results, int TotalCount)> SearchAsync(string searchTerm, int offset, int limit, Guid? workspaceId = null, IEnumerable<string>? hiddenLocationIds = null, IDbSession? session = null)
+        {
+            return await SearchAsync(
+                query: SearchQuery.FromText(searchTerm),
+                propertyFilters: Array.Empty<ItemPropertyFilter>(),
+                offset: offset,
+                limit: limit,
+                workspaceId: workspaceId,
+                hiddenLocationIds: hiddenLocationIds,
+                session: session);
+        }
+
+        /// <summary>
+        /// Searches items with a parsed search query, limited to items matching all property filters and ranges.
+        /// Results are in the given sort order, or else ranked by relevance to the query text, or ordered by name if the query has no text.
+        /// </summary>
+        /// <param name="query">The search query to match against item names, descriptions, properties, locations and dates.</param>
+        /// <param name="propertyFilters">The property filters that items must match.</param>
+        /// <param name="offset">The number of results to skip for pagination.</param>
+        /// <param name="limit">The maximum number of results to return.</param>
+        /// <param name="propertyRanges">The number and date ranges that item properties must lie within. Defaults to null.</param>
+        /// <param name="sortOrder">The order of the results. Defaults to null for relevance order.</param>
+        /// <param name="templateId">The template that items must have been created from. Defaults to null for any.</param>
+        /// <param name="tags">The tags that items must all have, ignoring case. Defaults to null for any.</param>
+        /// <param name="workspaceId">Only include items in locations of this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="hiddenLocationIds">Items in these locations are left out. Defaults to null for none.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>A tuple containing the matching items and the total count of matches.</returns>
-        public async Task<(IEnumerable<ItemDbModel> Results, int TotalCount)> SearchAsync(string searchTerm, int offset, int limit, IDbSession? session = null)
+        public async Task<(IEnumerable<ItemDbModel> Results, int TotalCount)> SearchAsync(SearchQuery query, IEnumerable<ItemPropertyFilter> propertyFilters, int offset, int limit, IEnumerable<ItemPropertyRange>? propertyRanges = null, ItemSortOrder? sortOrder = null, Guid? templateId = null, IEnumerable<string>? tags = null, Guid? workspaceId = null, IEnumerable<string>? hiddenLocationIds = null, IDbSession? session = null)
         {
             return await UseSessionAsync(async (dbSession) =>
             {
-                // Sanitize and prepare search terms
-                string sanitizedTerm = SanitizeSearchTerm(searchTerm);
-                string[] words = sanitizedTerm.Split(new[] { ' ' }, StringSplitOptions.RemoveEmptyEntries);
-
-                // Create prefix queries by appending :* to each word for prefix matching
-                string[] prefixWords = words.Select(w => w + ":*").ToArray();
-                string phraseQuery = string.Join(" & ", prefixWords);
-                string andQuery = string.Join(" & ", prefixWords);
-                string orQuery = string.Join(" | ", prefixWords);
-
-                // If single word, use same query for all
-                if (words.Length == 1)
+                DynamicParameters parameters = new DynamicParameters();
+                List<string> conditions = new List<string>();
+                bool hasTextSearch = AddSearchQueryConditions(query, conditions, parameters);
+                AddWorkspaceCondition(workspaceId, conditions, parameters);
+                AddHiddenLocationsCondition(hiddenLocationIds, conditions, parameters);
+                foreach ((ItemPropertyFilter filter, int index) in propertyFilters.Select((filter, index) => (filter, index)))
+                {
+                    conditions.Add(AddPropertyFilterCondition(filter, index, "properties", parameters));
+                }
+
+                foreach ((ItemPropertyRange range, int index) in (propertyRanges ?? Enumerable.Empty<ItemPropertyRange>()).Select((range, index) => (range, index)))
                 {
-                    phraseQuery = prefixWords[0];
-                    andQuery = prefixWords[0];
-                    orQuery = prefixWords[0];
+                    conditions.Add(AddPropertyRangeCondition(range, index, parameters));
                 }
 
+                if (templateId.HasValue)
+                {
+                    conditions.Add($"template_id = @{nameof(templateId)}");
+                    parameters.Add(nameof(templateId), templateId.Value);
+                }
+
+                foreach ((string tag, int index) in (tags ?? Enumerable.Empty<string>()).Select((tag, index) => (tag, index)))
+                {
+                    conditions.Add(AddTagCondition(tag, index, parameters));
+                }
+
+                string whereClause = SearchQuerySql.BuildWhereClause(conditions);
+                string relevanceScore = hasTextSearch ? RelevanceScoreExpression : "0";
+                string orderBy = sortOrder != null
+                    ? BuildSortOrderClause(sortOrder, parameters)
+                    : hasTextSearch ? "relevance_score DESC, name ASC" : "name ASC";
+
+                parameters.Add(nameof(limit), limit);
+                parameters.Add(nameof(offset), offset);
+
                 // Build the search query with relevance ranking
-                string searchQuery = @"
+                string searchQuery = $@"
                     SELECT 
                         id,
                         name,
@@ -324,7 +792,13 @@ namespace Ordning.Server.Items.Repositories
                         location_id AS LocationId,
                         properties::text AS PropertiesJson,
                         created_at AS CreatedAt,
-                        updated_at AS UpdatedAt
+                        updated_at AS UpdatedAt,
+                        quantity AS Quantity,
+                        unit AS Unit,
+                        min_quantity AS MinQuantity,
+                        template_id AS TemplateId,
+                        {ImageIdsColumn},
+                        {TagsColumn}
                     FROM (
                         SELECT 
                             id,
@@ -334,67 +808,341 @@ namespace Ordning.Server.Items.Repositories
                             properties,
                             created_at,
                             updated_at,
-                            (
-                                -- Phrase match score (highest weight)
-                                COALESCE(ts_rank_cd(
-                                    setweight(to_tsvector('english', name), 'A') ||
-                                    setweight(to_tsvector('english', COALESCE(description, '')), 'B') ||
-                                    setweight(to_tsvector('english', COALESCE(properties::text, '')), 'C'),
-                                    to_tsquery('english', @phraseQuery)
-                                ), 0) * 3.0 +
-                                -- Both words match score
-                                COALESCE(ts_rank_cd(
-                                    setweight(to_tsvector('english', name), 'A') ||
-                                    setweight(to_tsvector('english', COALESCE(description, '')), 'B') ||
-                                    setweight(to_tsvector('english', COALESCE(properties::text, '')), 'C'),
-                                    to_tsquery('english', @andQuery)
-                                ), 0) * 2.0 +
-                                -- Either word match score
-                                COALESCE(ts_rank_cd(
-                                    setweight(to_tsvector('english', name), 'A') ||
-                                    setweight(to_tsvector('english', COALESCE(description, '')), 'B') ||
-                                    setweight(to_tsvector('english', COALESCE(properties::text, '')), 'C'),
-                                    to_tsquery('english', @orQuery)
-                                ), 0)
-                            ) AS relevance_score
+                            quantity,
+                            unit,
+                            min_quantity,
+                            template_id,
+                            {relevanceScore} AS relevance_score
                         FROM items
-                        WHERE 
-                            to_tsvector('english', name || ' ' || COALESCE(description, '') || ' ' || COALESCE(properties::text, '')) 
-                            @@ to_tsquery('english', @phraseQuery)
-                            OR to_tsvector('english', name || ' ' || COALESCE(description, '') || ' ' || COALESCE(properties::text, '')) 
-                            @@ to_tsquery('english', @andQuery)
-                            OR to_tsvector('english', name || ' ' || COALESCE(description, '') || ' ' || COALESCE(properties::text, '')) 
-                            @@ to_tsquery('english', @orQuery)
-                    ) AS ranked_items
-                    ORDER BY relevance_score DESC, name ASC
-                    LIMIT @limit OFFSET @offset";
+                        {whereClause}
+                    ) AS items
+                    ORDER BY {orderBy}
+                    LIMIT @{nameof(limit)} OFFSET @{nameof(offset)}";
 
                 IEnumerable<ItemDbModel> results = await dbSession.Connection.QueryAsync<ItemDbModel>(
                     searchQuery,
-                    new { phraseQuery, andQuery, orQuery, limit, offset },
+                    parameters,
                     transaction: dbSession.Transaction);
 
                 // Get total count
-                string countQuery = @"
+                string countQuery = $@"
                     SELECT COUNT(*)
                     FROM items
-                    WHERE 
-                        to_tsvector('english', name || ' ' || COALESCE(description, '') || ' ' || COALESCE(properties::text, '')) 
-                        @@ to_tsquery('english', @phraseQuery)
-                        OR to_tsvector('english', name || ' ' || COALESCE(description, '') || ' ' || COALESCE(properties::text, '')) 
-                        @@ to_tsquery('english', @andQuery)
-                        OR to_tsvector('english', name || ' ' || COALESCE(description, '') || ' ' || COALESCE(properties::text, '')) 
-                        @@ to_tsquery('english', @orQuery)";
+                    {whereClause}";
 
                 int totalCount = await dbSession.Connection.QuerySingleAsync<int>(
                     countQuery,
-                    new { phraseQuery, andQuery, orQuery },
+                    parameters,
                     transaction: dbSession.Transaction);
 
                 return (results, totalCount);
             }, session);
         }
 
+        /// <summary>
+        /// Counts the property keys and values of the items matching a search.
+        /// The filter on a key is ignored when counting that key's own values, so every value of a filtered key stays selectable.
+        /// </summary>
+        /// <param name="query">The search query to match against item names, descriptions, properties, locations and dates.</param>
+        /// <param name="propertyFilters">The property filters that items must match.</param>
+        /// <param name="keyLimit">The maximum number of property keys to return, most common first.</param>
+        /// <param name="valueLimit">The maximum number of values to return per key, most common first.</param>
+        /// <param name="templateId">The template that items must have been created from. Defaults to null for any.</param>
+        /// <param name="tags">The tags that items must all have, ignoring case. Defaults to null for any.</param>
+        /// <param name="workspaceId">Only include items in locations of this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="hiddenLocationIds">Items in these locations are left out. Defaults to null for none.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>One row per returned key and value, with the item counts for both.</returns>
+        public async Task<IEnumerable<PropertyFacetDbModel>> GetPropertyFacetsAsync(SearchQuery query, IEnumerable<ItemPropertyFilter> propertyFilters, int keyLimit, int valueLimit, Guid? templateId = null, IEnumerable<string>? tags = null, Guid? workspaceId = null, IEnumerable<string>? hiddenLocationIds = null, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                DynamicParameters parameters = new DynamicParameters();
+                List<string> queryConditions = new List<string>();
+                AddSearchQueryConditions(query, queryConditions, parameters);
+                AddWorkspaceCondition(workspaceId, queryConditions, parameters);
+                AddHiddenLocationsCondition(hiddenLocationIds, queryConditions, parameters);
+                if (templateId.HasValue)
+                {
+                    queryConditions.Add($"template_id = @{nameof(templateId)}");
+                    parameters.Add(nameof(templateId), templateId.Value);
+                }
+
+                foreach ((string tag, int index) in (tags ?? Enumerable.Empty<string>()).Select((tag, index) => (tag, index)))
+                {
+                    queryConditions.Add(AddTagCondition(tag, index, parameters));
+                }
+
+                // A property row counts when the item matches every filter on the other keys
+                List<string> facetConditions = new List<string>();
+                foreach ((ItemPropertyFilter filter, int index) in propertyFilters.Select((filter, index) => (filter, index)))
+                {
+                    string filterCondition = AddPropertyFilterCondition(filter, index, "matched_items.properties", parameters);
+                    facetConditions.Add($"property.key = @filterKey{index} OR {filterCondition}");
+                }
+
+                parameters.Add(nameof(keyLimit), keyLimit);
+                parameters.Add(nameof(valueLimit), valueLimit);
+
+                string facetQuery = $@"
+                    WITH matched_items AS (
+                        SELECT id, properties
+                        FROM items
+                        {SearchQuerySql.BuildWhereClause(queryConditions)}
+                    ),
+                    property_values AS (
+                        SELECT property.key, property.value
+                        FROM matched_items, jsonb_each_text(matched_items.properties) AS property
+                        {SearchQuerySql.BuildWhereClause(facetConditions)}
+                    ),
+                    key_counts AS (
+                        SELECT key, COUNT(*)::int AS key_item_count
+                        FROM property_values
+                        GROUP BY key
+                        ORDER BY key_item_count DESC, key
+                        LIMIT @{nameof(keyLimit)}
+                    ),
+                    value_counts AS (
+                        SELECT
+                            property_values.key,
+                            property_values.value,
+                            COUNT(*)::int AS item_count,
+                            ROW_NUMBER() OVER (PARTITION BY property_values.key ORDER BY COUNT(*) DESC, property_values.value) AS value_rank
+                        FROM property_values
+                        JOIN key_counts ON key_counts.key = property_values.key
+                        GROUP BY property_values.key, property_values.value
+                    )
+                    SELECT
+                        value_counts.key AS Key,
+                        value_counts.value AS Value,
+                        value_counts.item_count AS ItemCount,
+                        key_counts.key_item_count AS KeyItemCount
+                    FROM value_counts
+                    JOIN key_counts ON key_counts.key = value_counts.key
+                    WHERE value_counts.value_rank <= @{nameof(valueLimit)}
+                    ORDER BY key_counts.key_item_count DESC, value_counts.key, value_counts.item_count DESC, value_counts.value";
+
+                IEnumerable<PropertyFacetDbModel> result = await dbSession.Connection.QueryAsync<PropertyFacetDbModel>(
+                    facetQuery,
+                    parameters,
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Adds the conditions and query parameters for a parsed search query. Phrases are also part of the relevance ranking,
+        /// "in:" matches the location and its descendants, and other filter keys match property values ignoring case.
+        /// </summary>
+        /// <param name="query">The search query.</param>
+        /// <param name="conditions">The conditions to add to.</param>
+        /// <param name="parameters">The query parameters to add to.</param>
+        /// <returns>True if the query has text to rank by; otherwise, false.</returns>
+        private static bool AddSearchQueryConditions(SearchQuery query, List<string> conditions, DynamicParameters parameters)
+        {
+            string rankedText = string.Join(" ", query.Phrases.Prepend(query.Text));
+            bool hasTextSearch = AddTextSearchCondition(rankedText, conditions, parameters);
+            SearchQuerySql.AddPhraseConditions(query, SearchDocumentExpression, conditions, parameters);
+
+            for (int index = 0; index < query.Filters.Count; index++)
+            {
+                SearchQueryFilter filter = query.Filters[index];
+                string parameterName = $"queryFilter{index}";
+                if (filter.HasKey(SearchQuery.LocationFilterKey))
+                {
+                    SearchQuerySql.AddLocationFilterCondition(filter, "location_id", includeRoot: true, parameterName, conditions, parameters);
+                }
+                else if (SearchQuery.IsDateFilterKey(filter.Key))
+                {
+                    SearchQuerySql.AddDateFilterCondition(filter, parameterName, conditions, parameters);
+                }
+                else
+                {
+                    parameters.Add($"{parameterName}Key", filter.Key);
+                    parameters.Add($"{parameterName}Value", filter.Value);
+                    string condition = $"LOWER(properties ->> @{parameterName}Key) = LOWER(@{parameterName}Value)";
+
+                    // Items without the property count as not matching, so a negated filter keeps them
+                    conditions.Add(filter.IsNegated ? $"NOT COALESCE({condition}, FALSE)" : condition);
+                }
+            }
+
+            return hasTextSearch;
+        }
+
+        /// <summary>
+        /// Adds the condition that limits items to the locations of a workspace, if a workspace is given.
+        /// </summary>
+        /// <param name="workspaceId">The workspace to limit items to, or null for every workspace.</param>
+        /// <param name="conditions">The conditions to add to.</param>
+        /// <param name="parameters">The query parameters to add to.</param>
+        private static void AddWorkspaceCondition(Guid? workspaceId, List<string> conditions, DynamicParameters parameters)
+        {
+            if (workspaceId == null)
+            {
+                return;
+            }
+
+            conditions.Add($"location_id IN (SELECT locations.id FROM locations WHERE locations.workspace_id = @{nameof(workspaceId)})");
+            parameters.Add(nameof(workspaceId), workspaceId.Value);
+        }
+
+        /// <summary>
+        /// Adds the condition that leaves out the items in hidden locations, if any locations are hidden.
+        /// </summary>
+        /// <param name="hiddenLocationIds">The locations whose items to leave out, or null for none.</param>
+        /// <param name="conditions">The conditions to add to.</param>
+        /// <param name="parameters">The query parameters to add to.</param>
+        private static void AddHiddenLocationsCondition(IEnumerable<string>? hiddenLocationIds, List<string> conditions, DynamicParameters parameters)
+        {
+            string[] hiddenLocationIdsArray = hiddenLocationIds?.ToArray() ?? Array.Empty<string>();
+            if (hiddenLocationIdsArray.Length == 0)
+            {
+                return;
+            }
+
+            conditions.Add($"NOT (location_id = ANY(@{nameof(hiddenLocationIdsArray)}))");
+            parameters.Add(nameof(hiddenLocationIdsArray), hiddenLocationIdsArray);
+        }
+
+        /// <summary>
+        /// Adds the full-text match condition and its query parameters for a search term.
+        /// </summary>
+        /// <param name="searchTerm">The search term to match.</param>
+        /// <param name="conditions">The conditions to add to.</param>
+        /// <param name="parameters">The query parameters to add to.</param>
+        /// <returns>True if the search term contained any words and a condition was added; otherwise, false.</returns>
+        private static bool AddTextSearchCondition(string searchTerm, List<string> conditions, DynamicParameters parameters)
+        {
+            // Sanitize and prepare search terms
+            string sanitizedTerm = SanitizeSearchTerm(searchTerm);
+            string[] words = sanitizedTerm.Split(new[] { ' ' }, StringSplitOptions.RemoveEmptyEntries);
+            if (words.Length == 0)
+            {
+                return false;
+            }
+
+            // Create prefix queries by appending :* to each word for prefix matching
+            string[] prefixWords = words.Select(w => w + ":*").ToArray();
+            string phraseQuery = string.Join(" & ", prefixWords);
+            string andQuery = string.Join(" & ", prefixWords);
+            string orQuery = string.Join(" | ", prefixWords);
+
+            parameters.Add(nameof(phraseQuery), phraseQuery);
+            parameters.Add(nameof(andQuery), andQuery);
+            parameters.Add(nameof(orQuery), orQuery);
+
+            conditions.Add($@"{SearchDocumentExpression} @@ to_tsquery('english', @{nameof(phraseQuery)})
+                            OR {SearchDocumentExpression} @@ to_tsquery('english', @{nameof(andQuery)})
+                            OR {SearchDocumentExpression} @@ to_tsquery('english', @{nameof(orQuery)})");
+
+            return true;
+        }
+
+        /// <summary>
+        /// Adds the query parameters for a property filter and returns the condition that matches it.
+        /// </summary>
+        /// <param name="filter">The property filter.</param>
+        /// <param name="index">The position of the filter, used to give its parameters unique names.</param>
+        /// <param name="propertiesColumn">The SQL expression for the properties column to filter on.</param>
+        /// <param name="parameters">The query parameters to add to.</param>
+        /// <returns>The SQL condition for the filter.</returns>
+        private static string AddPropertyFilterCondition(ItemPropertyFilter filter, int index, string propertiesColumn, DynamicParameters parameters)
+        {
+            parameters.Add($"filterKey{index}", filter.Key);
+            parameters.Add($"filterValues{index}", filter.Values.ToArray());
+            return $"{propertiesColumn} ->> @filterKey{index} = ANY(@filterValues{index})";
+        }
+
+        /// <summary>
+        /// Adds the query parameters for a property range and returns the condition that matches it.
+        /// Values that cannot be read as the range type, such as text written before the property had a type, never match.
+        /// </summary>
+        /// <param name="range">The property range.</param>
+        /// <param name="index">The position of the range, used to give its parameters unique names.</param>
+        /// <param name="parameters">The query parameters to add to.</param>
+        /// <returns>The SQL condition for the range.</returns>
+        private static string AddPropertyRangeCondition(ItemPropertyRange range, int index, DynamicParameters parameters)
+        {
+            string valueExpression = PropertyValueExpression(range.Type, $"@rangeKey{index}");
+            string sqlType = range.Type == PropertyTypes.Date ? "date" : "numeric";
+            parameters.Add($"rangeKey{index}", range.Key);
+
+            List<string> bounds = new List<string>();
+            if (range.Min != null)
+            {
+                parameters.Add($"rangeMin{index}", range.Min);
+                bounds.Add($"{valueExpression} >= @rangeMin{index}::{sqlType}");
+            }
+
+            if (range.Max != null)
+            {
+                parameters.Add($"rangeMax{index}", range.Max);
+                bounds.Add($"{valueExpression} <= @rangeMax{index}::{sqlType}");
+            }
+
+            return bounds.Count == 0 ? $"{valueExpression} IS NOT NULL" : string.Join(" AND ", bounds);
+        }
+
+        /// <summary>
+        /// Adds the query parameter for a tag filter and returns the condition that matches items with the tag, ignoring case.
+        /// </summary>
+        /// <param name="tag">The tag name.</param>
+        /// <param name="index">The position of the tag, used to give its parameter a unique name.</param>
+        /// <param name="parameters">The query parameters to add to.</param>
+        /// <returns>The SQL condition for the tag.</returns>
+        private static string AddTagCondition(string tag, int index, DynamicParameters parameters)
+        {
+            parameters.Add($"tag{index}", tag.Trim());
+            return $@"EXISTS (
+                            SELECT 1 FROM tags
+                            WHERE tags.owner_type = '{TagOwnerTypes.Item}' AND tags.owner_id = items.id::text AND LOWER(tags.name) = LOWER(@tag{index})
+                        )";
+        }
+
+        /// <summary>
+        /// Builds the ORDER BY clause for a sort order, adding the property key parameter when sorting by a property.
+        /// Items without a value sort last in both directions, and items that compare equal are ordered by name.
+        /// </summary>
+        /// <param name="sortOrder">The sort order.</param>
+        /// <param name="parameters">The query parameters to add to.</param>
+        /// <returns>The ORDER BY clause, without the ORDER BY keywords.</returns>
+        private static string BuildSortOrderClause(ItemSortOrder sortOrder, DynamicParameters parameters)
+        {
+            string direction = sortOrder.IsDescending ? "DESC" : "ASC";
+            switch (sortOrder.Field)
+            {
+                case ItemSortOrder.Created:
+                    return $"created_at {direction}, name ASC";
+                case ItemSortOrder.Updated:
+                    return $"updated_at {direction}, name ASC";
+                case ItemSortOrder.Quantity:
+                    return $"quantity {direction} NULLS LAST, name ASC";
+                case ItemSortOrder.Property:
+                    parameters.Add("sortKey", sortOrder.PropertyKey);
+                    return $"{PropertyValueExpression(sortOrder.PropertyType, "@sortKey")} {direction} NULLS LAST, name ASC";
+                default:
+                    return $"name {direction}";
+            }
+        }
+
+        /// <summary>
+        /// Gets the SQL expression that reads a property value as the given type, so that numbers and dates compare by value.
+        /// </summary>
+        /// <param name="type">The property type.</param>
+        /// <param name="keyExpression">The SQL expression for the property key.</param>
+        /// <returns>The SQL expression for the property value.</returns>
+        private static string PropertyValueExpression(string type, string keyExpression)
+        {
+            return type switch
+            {
+                PropertyTypes.Number => $"property_value_as_numeric(properties ->> {keyExpression})",
+                PropertyTypes.Date => $"property_value_as_date(properties ->> {keyExpression})",
+                _ => $"LOWER(properties ->> {keyExpression})"
+            };
+        }
+
         /// <summary>
         /// Sanitizes a search term for use in PostgreSQL full-text search queries.
         /// Escapes special characters that have meaning in tsquery.
@@ -0,0 +1,28 @@
+namespace Ordning.Server.Items.Repositories
+{
+    /// <summary>
+    /// Database model representing the item count for one property value, together with the item count for its key.
+    /// </summary>
+    public class PropertyFacetDbModel
+    {
+        /// <summary>
+        /// Gets or sets the property key.
+        /// </summary>
+        public string Key { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the property value.
+        /// </summary>
+        public string Value { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the number of items with this value.
+        /// </summary>
+        public int ItemCount { get; set; }
+
+        /// <summary>
+        /// Gets or sets the number of items that have the key, regardless of value.
+        /// </summary>
+        public int KeyItemCount { get; set; }
+    }
+}
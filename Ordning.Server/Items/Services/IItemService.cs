@@ -1,4 +1,5 @@
 using Ordning.Server.Items.Models;
+using Ordning.Server.Search.Models;
 
 namespace Ordning.Server.Items.Services
 {
@@ -34,10 +35,17 @@ namespace Ordning.Server.Items.Services
         /// <param name="locationId">The location identifier where the item is stored.</param>
         /// <param name="description">The description of the item. Defaults to null.</param>
         /// <param name="properties">The optional properties of the item as key/value pairs. Defaults to null.</param>
+        /// <param name="quantity">How many of the item there are. Defaults to null for a single thing.</param>
+        /// <param name="unit">The unit the quantity is counted in. Defaults to null.</param>
+        /// <param name="minQuantity">The quantity below which the item is low on stock. Defaults to null.</param>
+        /// <param name="templateId">The template the item was created from. Defaults to null.</param>
+        /// <param name="tags">The tags of the item. Defaults to null for none.</param>
         /// <returns>The created item.</returns>
-        /// <exception cref="ArgumentException">Thrown when the location does not exist.</exception>
+        /// <exception cref="ArgumentException">Thrown when the location does not exist, when the quantity, unit or minimum quantity is invalid,
+        /// when a defined property has an invalid value or a required property is missing, when the template does not exist or when a tag is invalid.</exception>
         /// <exception cref="InvalidOperationException">Thrown when the location does not exist.</exception>
-        Task<Item> CreateItemAsync(string name, string locationId, string? description = null, Dictionary<string, string>? properties = null);
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location.</exception>
+        Task<Item> CreateItemAsync(string name, string locationId, string? description = null, Dictionary<string, string>? properties = null, decimal? quantity = null, string? unit = null, decimal? minQuantity = null, Guid? templateId = null, IEnumerable<string>? tags = null);
 
         /// <summary>
         /// Updates an existing item in the system.
@@ -46,15 +54,22 @@ namespace Ordning.Server.Items.Services
         /// <param name="name">The new name of the item.</param>
         /// <param name="description">The new description of the item. Defaults to null.</param>
         /// <param name="properties">The new properties of the item as key/value pairs. Defaults to null.</param>
+        /// <param name="quantity">The new quantity of the item. Defaults to null for a single thing.</param>
+        /// <param name="unit">The new unit the quantity is counted in. Defaults to null.</param>
+        /// <param name="minQuantity">The new quantity below which the item is low on stock. Defaults to null.</param>
+        /// <param name="tags">The new tags of the item. Defaults to null, which keeps the current tags.</param>
         /// <returns>The updated item.</returns>
-        /// <exception cref="ArgumentException">Thrown when the item does not exist.</exception>
-        Task<Item> UpdateItemAsync(Guid id, string name, string? description = null, Dictionary<string, string>? properties = null);
+        /// <exception cref="ArgumentException">Thrown when the item does not exist, when the quantity, unit or minimum quantity is invalid,
+        /// when a defined property has an invalid value or a required property is missing, or when a tag is invalid.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location of the item.</exception>
+        Task<Item> UpdateItemAsync(Guid id, string name, string? description = null, Dictionary<string, string>? properties = null, decimal? quantity = null, string? unit = null, decimal? minQuantity = null, IEnumerable<string>? tags = null);
 
         /// <summary>
         /// Deletes an item from the system.
         /// </summary>
         /// <param name="id">The unique identifier of the item to delete.</param>
         /// <returns>True if the item was found and deleted; otherwise, false.</returns>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location of the item.</exception>
         Task<bool> DeleteItemAsync(Guid id);
 
         /// <summary>
@@ -65,17 +80,99 @@ namespace Ordning.Server.Items.Services
         /// <returns>The number of items that were moved.</returns>
         /// <exception cref="ArgumentException">Thrown when any item does not exist or when the new location does not exist.</exception>
         /// <exception cref="InvalidOperationException">Thrown when the new location does not exist.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the new location or the current location of an item.</exception>
         Task<int> MoveItemsAsync(IEnumerable<Guid> itemIds, string newLocationId);
 
+        /// <summary>
+        /// Adds to or subtracts from the quantity of an item.
+        /// </summary>
+        /// <param name="id">The unique identifier of the item.</param>
+        /// <param name="delta">The amount to add. Negative amounts are subtracted.</param>
+        /// <returns>The item with its new quantity.</returns>
+        /// <exception cref="ArgumentException">Thrown when the change is zero, when the item does not exist or when the new quantity would be too large.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when the item has no quantity or when the quantity would drop below zero.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location of the item.</exception>
+        Task<Item> AdjustItemQuantityAsync(Guid id, decimal delta);
+
+        /// <summary>
+        /// Gets the items whose quantity is below their minimum quantity.
+        /// </summary>
+        /// <returns>The items that are low on stock, ordered by name.</returns>
+        Task<IEnumerable<Item>> GetLowStockItemsAsync();
+
+        /// <summary>
+        /// Moves part of an item's quantity to another location, adding it to an item there with the same name and unit or creating one.
+        /// </summary>
+        /// <param name="id">The unique identifier of the item to take the quantity from.</param>
+        /// <param name="quantity">The quantity to move. Must be less than the item's quantity.</param>
+        /// <param name="targetLocationId">The unique identifier of the location to move the quantity to.</param>
+        /// <returns>The item the quantity was taken from and the item that received it.</returns>
+        /// <exception cref="ArgumentException">Thrown when the quantity is not positive or when the item does not exist.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when the item has no quantity or not enough of it, when the item is already in the target location,
+        /// or when the target location does not exist or has child locations.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location of the item or the target location.</exception>
+        Task<ItemSplitResult> SplitItemAsync(Guid id, decimal quantity, string targetLocationId);
+
+        /// <summary>
+        /// Deletes one or more items from the system.
+        /// </summary>
+        /// <param name="itemIds">The unique identifiers of the items to delete.</param>
+        /// <returns>The number of items that were deleted.</returns>
+        /// <exception cref="ArgumentException">Thrown when no item IDs are provided.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location of an item.</exception>
+        Task<int> DeleteItemsAsync(IEnumerable<Guid> itemIds);
+
+        /// <summary>
+        /// Re-creates deleted items with their original identifiers, locations and properties. Either the whole batch is restored or nothing is.
+        /// </summary>
+        /// <param name="itemIds">The unique identifiers of the deleted items.</param>
+        /// <returns>The restored items.</returns>
+        /// <exception cref="ArgumentException">Thrown when no item IDs are provided or when no deletion was recorded for an item.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when an item exists again or when its location no longer exists or has child locations.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location of an item.</exception>
+        Task<IEnumerable<Item>> RestoreItemsAsync(IEnumerable<Guid> itemIds);
+
+        /// <summary>
+        /// Sets and removes properties on one or more items without touching their other properties.
+        /// </summary>
+        /// <param name="itemIds">The unique identifiers of the items to update.</param>
+        /// <param name="propertiesToSet">The properties to add or overwrite. Defaults to null.</param>
+        /// <param name="propertyKeysToRemove">The property keys to remove. Defaults to null.</param>
+        /// <returns>The number of items that were updated.</returns>
+        /// <exception cref="ArgumentException">Thrown when no item IDs or no changes are provided, when a property key is empty,
+        /// when a defined property gets an invalid value or when a required property would be removed.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location of an item.</exception>
+        Task<int> UpdateItemPropertiesAsync(IEnumerable<Guid> itemIds, Dictionary<string, string>? propertiesToSet = null, IEnumerable<string>? propertyKeysToRemove = null);
+
         /// <summary>
         /// Searches items using full-text search with relevance ranking.
+        /// The search term may use the query syntax described by <see cref="SearchQuery.Parse(string?)"/>.
         /// If the search term is empty or whitespace, returns all items with pagination.
         /// </summary>
         /// <param name="searchTerm">The search term to match against item names, descriptions, and properties.</param>
         /// <param name="offset">The number of results to skip for pagination.</param>
         /// <param name="limit">The maximum number of results to return.</param>
+        /// <param name="propertyFilters">Optional property filters that items must match. Defaults to null.</param>
+        /// <param name="propertyRanges">Optional ranges that number and date properties must lie within. Defaults to null.</param>
+        /// <param name="sortOrder">Optional order of the results. Defaults to null for relevance order.</param>
+        /// <param name="templateId">Optional template that items must have been created from. Defaults to null.</param>
+        /// <param name="tags">Optional tags that items must all have, ignoring case. Defaults to null.</param>
         /// <returns>A tuple containing the matching items and the total count of matches.</returns>
-        /// <exception cref="ArgumentException">Thrown when pagination parameters are invalid.</exception>
-        Task<(IEnumerable<Item> Results, int TotalCount)> SearchItemsAsync(string searchTerm, int offset, int limit);
+        /// <exception cref="ArgumentException">Thrown when pagination parameters or the search query are invalid,
+        /// or when a range is on a property that is not a defined number or date property or has an invalid bound.</exception>
+        Task<(IEnumerable<Item> Results, int TotalCount)> SearchItemsAsync(string searchTerm, int offset, int limit, IEnumerable<ItemPropertyFilter>? propertyFilters = null, IEnumerable<ItemPropertyRange>? propertyRanges = null, ItemSortOrder? sortOrder = null, Guid? templateId = null, IEnumerable<string>? tags = null);
+
+        /// <summary>
+        /// Gets the most common property keys and values among the items matching a search.
+        /// </summary>
+        /// <param name="searchTerm">The search term to match against item names, descriptions, and properties.</param>
+        /// <param name="propertyFilters">Optional property filters that items must match. Defaults to null.</param>
+        /// <param name="keyLimit">The maximum number of property keys to return. Defaults to 10, maximum 50.</param>
+        /// <param name="valueLimit">The maximum number of values to return per key. Defaults to 10, maximum 50.</param>
+        /// <param name="templateId">Optional template that items must have been created from. Defaults to null.</param>
+        /// <param name="tags">Optional tags that items must all have, ignoring case. Defaults to null.</param>
+        /// <returns>The property facets, most common key first.</returns>
+        /// <exception cref="ArgumentException">Thrown when a limit is out of range or the search query is invalid.</exception>
+        Task<IEnumerable<PropertyFacet>> GetPropertyFacetsAsync(string searchTerm, IEnumerable<ItemPropertyFilter>? propertyFilters = null, int keyLimit = 10, int valueLimit = 10, Guid? templateId = null, IEnumerable<string>? tags = null);
     }
 }
@@ -1,29 +1,72 @@
 using System.Collections.Generic;
 using System.Linq;
 using EasyReasy.Database;
+using Ordning.Server.Audit.Models;
+using Ordning.Server.Audit.Services;
 using Ordning.Server.Items.Models;
 using Ordning.Server.Items.Repositories;
+using Ordning.Server.ItemTemplates.Repositories;
 using Ordning.Server.Locations.Repositories;
+using Ordning.Server.Locations.Services;
+using Ordning.Server.PropertyDefinitions.Models;
+using Ordning.Server.PropertyDefinitions.Repositories;
+using Ordning.Server.Search.Models;
+using Ordning.Server.Tags.Models;
+using Ordning.Server.Tags.Services;
+using Ordning.Server.Workspaces.Models;
+using Ordning.Server.Workspaces.Services;
 
 namespace Ordning.Server.Items.Services
 {
     /// <summary>
     /// Implementation of <see cref="IItemService"/> that provides item business logic operations.
+    /// Every operation works in the workspace of the current request, and items in locations hidden by access rules are left out.
     /// </summary>
     public class ItemService : IItemService
     {
+        /// <summary>
+        /// The largest quantity an item can have.
+        /// </summary>
+        public const decimal MaxQuantity = 999_999_999m;
+
+        /// <summary>
+        /// The maximum length of a quantity unit.
+        /// </summary>
+        public const int MaxUnitLength = 32;
+
         private readonly IItemRepository _itemRepository;
         private readonly ILocationRepository _locationRepository;
+        private readonly IAuditService _auditService;
+        private readonly IPropertyDefinitionRepository _propertyDefinitionRepository;
+        private readonly IItemTemplateRepository _itemTemplateRepository;
+        private readonly ITagService _tagService;
+        private readonly IWorkspaceService _workspaceService;
+        private readonly ILocationAccessService _locationAccessService;
+        private readonly IDbSessionFactory _sessionFactory;
 
         /// <summary>
         /// Initializes a new instance of the <see cref="ItemService"/> class.
         /// </summary>
         /// <param name="itemRepository">The item repository for database access.</param>
         /// <param name="locationRepository">The location repository for validation.</param>
-        public ItemService(IItemRepository itemRepository, ILocationRepository locationRepository)
+        /// <param name="auditService">The audit service for recording changes.</param>
+        /// <param name="propertyDefinitionRepository">The property definition repository for validating typed properties.</param>
+        /// <param name="itemTemplateRepository">The item template repository for validating the template of new items.</param>
+        /// <param name="tagService">The tag service for checking and saving the tags of items.</param>
+        /// <param name="workspaceService">The workspace service used to find the workspace of the current request.</param>
+        /// <param name="locationAccessService">The location access service for checking which locations the current user may see and change.</param>
+        /// <param name="sessionFactory">The session factory for changes that must be saved together or not at all.</param>
+        public ItemService(IItemRepository itemRepository, ILocationRepository locationRepository, IAuditService auditService, IPropertyDefinitionRepository propertyDefinitionRepository, IItemTemplateRepository itemTemplateRepository, ITagService tagService, IWorkspaceService workspaceService, ILocationAccessService locationAccessService, IDbSessionFactory sessionFactory)
         {
             _itemRepository = itemRepository;
             _locationRepository = locationRepository;
+            _auditService = auditService;
+            _propertyDefinitionRepository = propertyDefinitionRepository;
+            _itemTemplateRepository = itemTemplateRepository;
+            _tagService = tagService;
+            _workspaceService = workspaceService;
+            _locationAccessService = locationAccessService;
+            _sessionFactory = sessionFactory;
         }
 
         /// <summary>
@@ -33,8 +76,9 @@ namespace Ordning.Server.Items.Services
         /// <returns>The item if found; otherwise, null.</returns>
         public async Task<Item?> GetItemByIdAsync(Guid id)
         {
-            ItemDbModel? itemDbModel = await _itemRepository.GetByIdAsync(id);
-            if (itemDbModel == null)
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            ItemDbModel? itemDbModel = await _itemRepository.GetByIdAsync(id, workspaceId: workspaceId);
+            if (itemDbModel == null || (await _locationAccessService.GetHiddenLocationIdsAsync()).Contains(itemDbModel.LocationId))
             {
                 return null;
             }
@@ -48,8 +92,10 @@ namespace Ordning.Server.Items.Services
         /// <returns>A collection of all items.</returns>
         public async Task<IEnumerable<Item>> GetAllItemsAsync()
         {
-            IEnumerable<ItemDbModel> itemDbModels = await _itemRepository.GetAllAsync();
-            return itemDbModels.Select(i => i.ToDomainItem());
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            IEnumerable<ItemDbModel> itemDbModels = await _itemRepository.GetAllAsync(workspaceId: workspaceId);
+            IReadOnlySet<string> hiddenLocationIds = await _locationAccessService.GetHiddenLocationIdsAsync();
+            return itemDbModels.Where(i => !hiddenLocationIds.Contains(i.LocationId)).Select(i => i.ToDomainItem());
         }
 
         /// <summary>
@@ -59,7 +105,13 @@ namespace Ordning.Server.Items.Services
         /// <returns>A collection of items in the specified location.</returns>
         public async Task<IEnumerable<Item>> GetItemsByLocationIdAsync(string locationId)
         {
-            IEnumerable<ItemDbModel> itemDbModels = await _itemRepository.GetByLocationIdAsync(locationId);
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            if ((await _locationAccessService.GetHiddenLocationIdsAsync()).Contains(locationId))
+            {
+                return Enumerable.Empty<Item>();
+            }
+
+            IEnumerable<ItemDbModel> itemDbModels = await _itemRepository.GetByLocationIdAsync(locationId, workspaceId: workspaceId);
             return itemDbModels.Select(i => i.ToDomainItem());
         }
 
@@ -70,17 +122,35 @@ namespace Ordning.Server.Items.Services
         /// <param name="locationId">The location identifier where the item is stored.</param>
         /// <param name="description">The description of the item. Defaults to null.</param>
         /// <param name="properties">The optional properties of the item as key/value pairs. Defaults to null.</param>
+        /// <param name="quantity">How many of the item there are. Defaults to null for a single thing.</param>
+        /// <param name="unit">The unit the quantity is counted in. Defaults to null.</param>
+        /// <param name="minQuantity">The quantity below which the item is low on stock. Defaults to null.</param>
+        /// <param name="templateId">The template the item was created from. Defaults to null.</param>
+        /// <param name="tags">The tags of the item. Defaults to null for none.</param>
         /// <returns>The created item.</returns>
-        /// <exception cref="ArgumentException">Thrown when the location does not exist.</exception>
+        /// <exception cref="ArgumentException">Thrown when the location does not exist, when the quantity, unit or minimum quantity is invalid,
+        /// when a defined property has an invalid value or a required property is missing, when the template does not exist or when a tag is invalid.</exception>
         /// <exception cref="InvalidOperationException">Thrown when the location does not exist or when the location has child locations.</exception>
-        public async Task<Item> CreateItemAsync(string name, string locationId, string? description = null, Dictionary<string, string>? properties = null)
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location.</exception>
+        public async Task<Item> CreateItemAsync(string name, string locationId, string? description = null, Dictionary<string, string>? properties = null, decimal? quantity = null, string? unit = null, decimal? minQuantity = null, Guid? templateId = null, IEnumerable<string>? tags = null)
         {
-            bool locationExists = await _locationRepository.ExistsAsync(locationId);
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write);
+            string? normalizedUnit = ValidateQuantity(quantity, unit, minQuantity);
+            Dictionary<string, string>? normalizedProperties = await NormalizePropertiesAsync(properties, requireAll: true);
+            IReadOnlyList<string> normalizedTags = await _tagService.NormalizeTagsAsync(tags ?? Enumerable.Empty<string>());
+
+            if (templateId != null && await _itemTemplateRepository.GetByIdAsync(templateId.Value) == null)
+            {
+                throw new ArgumentException($"Item template with ID '{templateId}' does not exist.", nameof(templateId));
+            }
+
+            bool locationExists = await _locationRepository.ExistsAsync(locationId, workspaceId: workspaceId);
             if (!locationExists)
             {
                 throw new InvalidOperationException($"Location with ID '{locationId}' does not exist.");
             }
 
+            await _locationAccessService.EnsureCanWriteAsync(new[] { locationId });
             bool hasChildren = await _locationRepository.HasChildrenAsync(locationId);
             if (hasChildren)
             {
@@ -93,9 +163,22 @@ namespace Ordning.Server.Items.Services
                 name: name,
                 description: description,
                 locationId: locationId,
-                properties: properties);
+                properties: normalizedProperties,
+                quantity: quantity,
+                unit: normalizedUnit,
+                minQuantity: minQuantity,
+                templateId: templateId);
 
-            return itemDbModel.ToDomainItem();
+            if (normalizedTags.Count > 0)
+            {
+                await _tagService.SetTagsAsync(TagOwnerTypes.Item, itemId.ToString(), normalizedTags);
+                itemDbModel = await _itemRepository.GetByIdAsync(itemId, workspaceId: workspaceId) ?? itemDbModel;
+            }
+
+            Item item = itemDbModel.ToDomainItem();
+            await _auditService.RecordAsync(AuditEntityTypes.Item, item.Id.ToString(), AuditActions.Create, before: null, after: item);
+
+            return item;
         }
 
         /// <summary>
@@ -105,34 +188,57 @@ namespace Ordning.Server.Items.Services
         /// <param name="name">The new name of the item.</param>
         /// <param name="description">The new description of the item. Defaults to null.</param>
         /// <param name="properties">The new properties of the item as key/value pairs. Defaults to null.</param>
+        /// <param name="quantity">The new quantity of the item. Defaults to null for a single thing.</param>
+        /// <param name="unit">The new unit the quantity is counted in. Defaults to null.</param>
+        /// <param name="minQuantity">The new quantity below which the item is low on stock. Defaults to null.</param>
+        /// <param name="tags">The new tags of the item. Defaults to null, which keeps the current tags.</param>
         /// <returns>The updated item.</returns>
-        /// <exception cref="ArgumentException">Thrown when the item does not exist.</exception>
-        public async Task<Item> UpdateItemAsync(Guid id, string name, string? description = null, Dictionary<string, string>? properties = null)
+        /// <exception cref="ArgumentException">Thrown when the item does not exist, when the quantity, unit or minimum quantity is invalid,
+        /// when a defined property has an invalid value or a required property is missing, or when a tag is invalid.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location of the item.</exception>
+        public async Task<Item> UpdateItemAsync(Guid id, string name, string? description = null, Dictionary<string, string>? properties = null, decimal? quantity = null, string? unit = null, decimal? minQuantity = null, IEnumerable<string>? tags = null)
         {
-            ItemDbModel? existingItem = await _itemRepository.GetByIdAsync(id);
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write);
+            string? normalizedUnit = ValidateQuantity(quantity, unit, minQuantity);
+            Dictionary<string, string>? normalizedProperties = await NormalizePropertiesAsync(properties, requireAll: true);
+            IReadOnlyList<string>? normalizedTags = tags != null ? await _tagService.NormalizeTagsAsync(tags) : null;
+
+            ItemDbModel? existingItem = await _itemRepository.GetByIdAsync(id, workspaceId: workspaceId);
             if (existingItem == null)
             {
                 throw new ArgumentException($"Item with ID '{id}' does not exist.", nameof(id));
             }
 
+            await _locationAccessService.EnsureCanWriteAsync(new[] { existingItem.LocationId });
             bool updated = await _itemRepository.UpdateAsync(
                 id: id,
                 name: name,
                 description: description,
-                properties: properties);
+                properties: normalizedProperties,
+                quantity: quantity,
+                unit: normalizedUnit,
+                minQuantity: minQuantity);
 
             if (!updated)
             {
                 throw new ArgumentException($"Failed to update item with ID '{id}'.", nameof(id));
             }
 
-            ItemDbModel? updatedItem = await _itemRepository.GetByIdAsync(id);
+            if (normalizedTags != null)
+            {
+                await _tagService.SetTagsAsync(TagOwnerTypes.Item, id.ToString(), normalizedTags);
+            }
+
+            ItemDbModel? updatedItem = await _itemRepository.GetByIdAsync(id, workspaceId: workspaceId);
             if (updatedItem == null)
             {
                 throw new InvalidOperationException($"Item with ID '{id}' was updated but could not be retrieved.");
             }
 
-            return updatedItem.ToDomainItem();
+            Item item = updatedItem.ToDomainItem();
+            await _auditService.RecordAsync(AuditEntityTypes.Item, id.ToString(), AuditActions.Update, before: existingItem.ToDomainItem(), after: item);
+
+            return item;
         }
 
         /// <summary>
@@ -140,9 +246,24 @@ namespace Ordning.Server.Items.Services
         /// </summary>
         /// <param name="id">The unique identifier of the item to delete.</param>
         /// <returns>True if the item was found and deleted; otherwise, false.</returns>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location of the item.</exception>
         public async Task<bool> DeleteItemAsync(Guid id)
         {
-            return await _itemRepository.DeleteAsync(id);
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write);
+            ItemDbModel? existingItem = await _itemRepository.GetByIdAsync(id, workspaceId: workspaceId);
+            if (existingItem != null)
+            {
+                await _locationAccessService.EnsureCanWriteAsync(new[] { existingItem.LocationId });
+            }
+
+            bool deleted = await _itemRepository.DeleteAsync(id, workspaceId: workspaceId);
+
+            if (deleted && existingItem != null)
+            {
+                await _auditService.RecordAsync(AuditEntityTypes.Item, id.ToString(), AuditActions.Delete, before: existingItem.ToDomainItem(), after: null);
+            }
+
+            return deleted;
         }
 
         /// <summary>
@@ -153,6 +274,7 @@ namespace Ordning.Server.Items.Services
         /// <returns>The number of items that were moved.</returns>
         /// <exception cref="ArgumentException">Thrown when any item does not exist or when the new location does not exist.</exception>
         /// <exception cref="InvalidOperationException">Thrown when the new location does not exist or when the location has child locations.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the new location or the current location of an item.</exception>
         public async Task<int> MoveItemsAsync(IEnumerable<Guid> itemIds, string newLocationId)
         {
             Guid[] itemIdsArray = itemIds.ToArray();
@@ -161,7 +283,8 @@ namespace Ordning.Server.Items.Services
                 throw new ArgumentException("At least one item ID must be provided.", nameof(itemIds));
             }
 
-            bool locationExists = await _locationRepository.ExistsAsync(newLocationId);
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write);
+            bool locationExists = await _locationRepository.ExistsAsync(newLocationId, workspaceId: workspaceId);
             if (!locationExists)
             {
                 throw new InvalidOperationException($"Location with ID '{newLocationId}' does not exist.");
@@ -175,27 +298,373 @@ namespace Ordning.Server.Items.Services
 
             foreach (Guid itemId in itemIdsArray)
             {
-                bool itemExists = await _itemRepository.ExistsAsync(itemId);
+                bool itemExists = await _itemRepository.ExistsAsync(itemId, workspaceId: workspaceId);
                 if (!itemExists)
                 {
                     throw new ArgumentException($"Item with ID '{itemId}' does not exist.", nameof(itemIds));
                 }
             }
 
-            int movedCount = await _itemRepository.MoveItemsAsync(itemIdsArray, newLocationId);
+            List<ItemDbModel> itemsBeforeMove = (await _itemRepository.GetByIdsAsync(itemIdsArray, workspaceId: workspaceId)).ToList();
+            await _locationAccessService.EnsureCanWriteAsync(itemsBeforeMove.Select(i => i.LocationId).Append(newLocationId));
+            int movedCount = await _itemRepository.MoveItemsAsync(itemIdsArray, newLocationId, workspaceId: workspaceId);
+            IEnumerable<ItemDbModel> itemsAfterMove = await _itemRepository.GetByIdsAsync(itemIdsArray, workspaceId: workspaceId);
+
+            await RecordItemChangesAsync(AuditActions.Move, itemsBeforeMove, itemsAfterMove, (before, after) => before.LocationId != after.LocationId);
+
             return movedCount;
         }
 
+        /// <summary>
+        /// Adds to or subtracts from the quantity of an item.
+        /// </summary>
+        /// <param name="id">The unique identifier of the item.</param>
+        /// <param name="delta">The amount to add. Negative amounts are subtracted.</param>
+        /// <returns>The item with its new quantity.</returns>
+        /// <exception cref="ArgumentException">Thrown when the change is zero, when the item does not exist or when the new quantity would be too large.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when the item has no quantity or when the quantity would drop below zero.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location of the item.</exception>
+        public async Task<Item> AdjustItemQuantityAsync(Guid id, decimal delta)
+        {
+            if (delta == 0)
+            {
+                throw new ArgumentException("Quantity change cannot be zero.", nameof(delta));
+            }
+
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write);
+            ItemDbModel? existingItem = await _itemRepository.GetByIdAsync(id, workspaceId: workspaceId);
+            if (existingItem == null)
+            {
+                throw new ArgumentException($"Item with ID '{id}' does not exist.", nameof(id));
+            }
+
+            await _locationAccessService.EnsureCanWriteAsync(new[] { existingItem.LocationId });
+            if (existingItem.Quantity == null)
+            {
+                throw new InvalidOperationException("The item does not have a quantity. Set one by editing the item.");
+            }
+
+            if (existingItem.Quantity.Value + delta > MaxQuantity)
+            {
+                throw new ArgumentException($"Quantity cannot exceed {MaxQuantity}.", nameof(delta));
+            }
+
+            bool adjusted = await _itemRepository.AdjustQuantityAsync(id, delta);
+            if (!adjusted)
+            {
+                throw new InvalidOperationException("Quantity cannot go below zero.");
+            }
+
+            ItemDbModel? updatedItem = await _itemRepository.GetByIdAsync(id, workspaceId: workspaceId);
+            if (updatedItem == null)
+            {
+                throw new InvalidOperationException($"Item with ID '{id}' was updated but could not be retrieved.");
+            }
+
+            Item item = updatedItem.ToDomainItem();
+            await _auditService.RecordAsync(AuditEntityTypes.Item, id.ToString(), AuditActions.Update, before: existingItem.ToDomainItem(), after: item);
+
+            return item;
+        }
+
+        /// <summary>
+        /// Gets the items whose quantity is below their minimum quantity.
+        /// </summary>
+        /// <returns>The items that are low on stock, ordered by name.</returns>
+        public async Task<IEnumerable<Item>> GetLowStockItemsAsync()
+        {
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            IEnumerable<ItemDbModel> itemDbModels = await _itemRepository.GetLowStockAsync(workspaceId: workspaceId);
+            IReadOnlySet<string> hiddenLocationIds = await _locationAccessService.GetHiddenLocationIdsAsync();
+            return itemDbModels.Where(i => !hiddenLocationIds.Contains(i.LocationId)).Select(i => i.ToDomainItem());
+        }
+
+        /// <summary>
+        /// Moves part of an item's quantity to another location. The quantity is added to an item there with the same name and unit if there is one;
+        /// otherwise a copy of the item is created there, without its photos and minimum quantity.
+        /// </summary>
+        /// <param name="id">The unique identifier of the item to take the quantity from.</param>
+        /// <param name="quantity">The quantity to move. Must be less than the item's quantity; move the item itself to move all of it.</param>
+        /// <param name="targetLocationId">The unique identifier of the location to move the quantity to.</param>
+        /// <returns>The item the quantity was taken from and the item that received it.</returns>
+        /// <exception cref="ArgumentException">Thrown when the quantity is not positive or when the item does not exist.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when the item has no quantity or not enough of it, when the item is already in the target location,
+        /// or when the target location does not exist or has child locations.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location of the item or the target location.</exception>
+        public async Task<ItemSplitResult> SplitItemAsync(Guid id, decimal quantity, string targetLocationId)
+        {
+            if (quantity <= 0)
+            {
+                throw new ArgumentException("Quantity to move must be greater than zero.", nameof(quantity));
+            }
+
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write);
+            ItemDbModel? sourceBefore = await _itemRepository.GetByIdAsync(id, workspaceId: workspaceId);
+            if (sourceBefore == null)
+            {
+                throw new ArgumentException($"Item with ID '{id}' does not exist.", nameof(id));
+            }
+
+            if (sourceBefore.Quantity == null)
+            {
+                throw new InvalidOperationException("Only items with a quantity can be split.");
+            }
+
+            if (quantity >= sourceBefore.Quantity.Value)
+            {
+                throw new InvalidOperationException("Quantity to move must be less than the item's quantity. Move the item itself to move all of it.");
+            }
+
+            if (sourceBefore.LocationId == targetLocationId)
+            {
+                throw new InvalidOperationException("The item is already in the selected location.");
+            }
+
+            bool locationExists = await _locationRepository.ExistsAsync(targetLocationId, workspaceId: workspaceId);
+            if (!locationExists)
+            {
+                throw new InvalidOperationException($"Location with ID '{targetLocationId}' does not exist.");
+            }
+
+            await _locationAccessService.EnsureCanWriteAsync(new[] { sourceBefore.LocationId, targetLocationId });
+            bool hasChildren = await _locationRepository.HasChildrenAsync(targetLocationId);
+            if (hasChildren)
+            {
+                throw new InvalidOperationException("Items cannot be added to the selected location because it has child locations. Please select a more specific location.");
+            }
+
+            ItemDbModel? mergeTarget = await _itemRepository.FindMergeTargetAsync(targetLocationId, sourceBefore.Name, sourceBefore.Unit, id);
+            if (mergeTarget != null && mergeTarget.Quantity!.Value + quantity > MaxQuantity)
+            {
+                throw new InvalidOperationException($"The item in the selected location cannot hold more than {MaxQuantity}.");
+            }
+
+            // The quantity is taken and added in one transaction, so a concurrent change that leaves too little or removes the merge target changes nothing
+            Guid targetId = mergeTarget?.Id ?? Guid.NewGuid();
+            bool moved = await _itemRepository.SplitAsync(id, quantity, targetLocationId, mergeTargetId: mergeTarget?.Id, newItemId: targetId);
+            if (!moved)
+            {
+                throw new InvalidOperationException("The item no longer has enough quantity to move.");
+            }
+
+            ItemDbModel? targetAfter = await _itemRepository.GetByIdAsync(targetId, workspaceId: workspaceId);
+            if (targetAfter == null)
+            {
+                throw new InvalidOperationException($"Item with ID '{targetId}' was updated but could not be retrieved.");
+            }
+
+            Item target = targetAfter.ToDomainItem();
+            if (mergeTarget != null)
+            {
+                await _auditService.RecordAsync(AuditEntityTypes.Item, target.Id.ToString(), AuditActions.Update, before: mergeTarget.ToDomainItem(), after: target);
+            }
+            else
+            {
+                await _auditService.RecordAsync(AuditEntityTypes.Item, target.Id.ToString(), AuditActions.Create, before: null, after: target);
+            }
+
+            ItemDbModel? sourceAfter = await _itemRepository.GetByIdAsync(id, workspaceId: workspaceId);
+            if (sourceAfter == null)
+            {
+                throw new InvalidOperationException($"Item with ID '{id}' was updated but could not be retrieved.");
+            }
+
+            Item source = sourceAfter.ToDomainItem();
+            await _auditService.RecordAsync(AuditEntityTypes.Item, id.ToString(), AuditActions.Update, before: sourceBefore.ToDomainItem(), after: source);
+
+            return new ItemSplitResult(source: source, target: target, merged: mergeTarget != null);
+        }
+
+        /// <summary>
+        /// Deletes one or more items from the system.
+        /// </summary>
+        /// <param name="itemIds">The unique identifiers of the items to delete.</param>
+        /// <returns>The number of items that were deleted.</returns>
+        /// <exception cref="ArgumentException">Thrown when no item IDs are provided.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location of an item.</exception>
+        public async Task<int> DeleteItemsAsync(IEnumerable<Guid> itemIds)
+        {
+            Guid[] itemIdsArray = itemIds.ToArray();
+            if (itemIdsArray.Length == 0)
+            {
+                throw new ArgumentException("At least one item ID must be provided.", nameof(itemIds));
+            }
+
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write);
+            List<ItemDbModel> itemsBeforeDelete = (await _itemRepository.GetByIdsAsync(itemIdsArray, workspaceId: workspaceId)).ToList();
+            await _locationAccessService.EnsureCanWriteAsync(itemsBeforeDelete.Select(i => i.LocationId));
+            int deletedCount = await _itemRepository.DeleteItemsAsync(itemIdsArray, workspaceId: workspaceId);
+
+            foreach (ItemDbModel deletedItem in itemsBeforeDelete)
+            {
+                await _auditService.RecordAsync(AuditEntityTypes.Item, deletedItem.Id.ToString(), AuditActions.Delete, before: deletedItem.ToDomainItem(), after: null);
+            }
+
+            return deletedCount;
+        }
+
+        /// <summary>
+        /// Re-creates deleted items with their original identifiers, locations and properties, as recorded in the audit log when they were deleted.
+        /// The items and their audit entries are saved in one transaction, so either the whole batch is restored or nothing is.
+        /// </summary>
+        /// <param name="itemIds">The unique identifiers of the deleted items.</param>
+        /// <returns>The restored items.</returns>
+        /// <exception cref="ArgumentException">Thrown when no item IDs are provided or when no deletion was recorded for an item.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when an item exists again or when its location no longer exists or has child locations.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location of an item.</exception>
+        public async Task<IEnumerable<Item>> RestoreItemsAsync(IEnumerable<Guid> itemIds)
+        {
+            Guid[] itemIdsArray = itemIds.Distinct().ToArray();
+            if (itemIdsArray.Length == 0)
+            {
+                throw new ArgumentException("At least one item ID must be provided.", nameof(itemIds));
+            }
+
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write);
+            List<Item> snapshots = new List<Item>();
+            foreach (Guid itemId in itemIdsArray)
+            {
+                bool itemExists = await _itemRepository.ExistsAsync(itemId);
+                if (itemExists)
+                {
+                    throw new InvalidOperationException($"Item with ID '{itemId}' already exists.");
+                }
+
+                Item? snapshot = await _auditService.GetDeletedSnapshotAsync<Item>(AuditEntityTypes.Item, itemId.ToString());
+                if (snapshot == null)
+                {
+                    throw new ArgumentException($"No deleted item with ID '{itemId}' was found.", nameof(itemIds));
+                }
+
+                snapshots.Add(snapshot);
+            }
+
+            foreach (string locationId in snapshots.Select(i => i.LocationId).Distinct())
+            {
+                bool locationExists = await _locationRepository.ExistsAsync(locationId, workspaceId: workspaceId);
+                if (!locationExists)
+                {
+                    throw new InvalidOperationException($"Location with ID '{locationId}' does not exist.");
+                }
+
+                bool hasChildren = await _locationRepository.HasChildrenAsync(locationId);
+                if (hasChildren)
+                {
+                    throw new InvalidOperationException($"Items cannot be restored to location '{locationId}' because it now has child locations.");
+                }
+            }
+
+            await _locationAccessService.EnsureCanWriteAsync(snapshots.Select(i => i.LocationId));
+
+            // Templates are only categories, so an item whose template was deleted since is restored without one
+            HashSet<Guid> existingTemplateIds = new HashSet<Guid>();
+            foreach (Guid templateId in snapshots.Where(i => i.TemplateId != null).Select(i => i.TemplateId!.Value).Distinct())
+            {
+                if (await _itemTemplateRepository.GetByIdAsync(templateId) != null)
+                {
+                    existingTemplateIds.Add(templateId);
+                }
+            }
+
+            List<Item> restoredItems = new List<Item>();
+            await using (IDbSession session = await _sessionFactory.CreateTransactionSessionAsync())
+            {
+                foreach (Item snapshot in snapshots)
+                {
+                    ItemDbModel itemDbModel = await _itemRepository.CreateAsync(
+                        id: snapshot.Id,
+                        name: snapshot.Name,
+                        description: snapshot.Description,
+                        locationId: snapshot.LocationId,
+                        properties: snapshot.Properties.ToDictionary(p => p.Key, p => p.Value),
+                        quantity: snapshot.Quantity,
+                        unit: snapshot.Unit,
+                        minQuantity: snapshot.MinQuantity,
+                        templateId: snapshot.TemplateId != null && existingTemplateIds.Contains(snapshot.TemplateId.Value) ? snapshot.TemplateId : null,
+                        session: session);
+
+                    Item item = itemDbModel.ToDomainItem();
+                    await _auditService.RecordAsync(AuditEntityTypes.Item, item.Id.ToString(), AuditActions.Create, before: null, after: item, session: session);
+                    restoredItems.Add(item);
+                }
+
+                // Disposing the session without committing rolls back every item restored so far
+                session.Transaction!.Commit();
+            }
+
+            return restoredItems;
+        }
+
+        /// <summary>
+        /// Sets and removes properties on one or more items without touching their other properties.
+        /// </summary>
+        /// <param name="itemIds">The unique identifiers of the items to update.</param>
+        /// <param name="propertiesToSet">The properties to add or overwrite. Defaults to null.</param>
+        /// <param name="propertyKeysToRemove">The property keys to remove. Defaults to null.</param>
+        /// <returns>The number of items that were updated.</returns>
+        /// <exception cref="ArgumentException">Thrown when no item IDs or no changes are provided, when a property key is empty,
+        /// when a defined property gets an invalid value or when a required property would be removed.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location of an item.</exception>
+        public async Task<int> UpdateItemPropertiesAsync(IEnumerable<Guid> itemIds, Dictionary<string, string>? propertiesToSet = null, IEnumerable<string>? propertyKeysToRemove = null)
+        {
+            Guid[] itemIdsArray = itemIds.ToArray();
+            if (itemIdsArray.Length == 0)
+            {
+                throw new ArgumentException("At least one item ID must be provided.", nameof(itemIds));
+            }
+
+            Dictionary<string, string> properties = propertiesToSet ?? new Dictionary<string, string>();
+            string[] keysToRemove = (propertyKeysToRemove ?? Array.Empty<string>()).ToArray();
+
+            if (properties.Count == 0 && keysToRemove.Length == 0)
+            {
+                throw new ArgumentException("At least one property must be set or removed.", nameof(propertiesToSet));
+            }
+
+            if (properties.Keys.Any(string.IsNullOrWhiteSpace) || keysToRemove.Any(string.IsNullOrWhiteSpace))
+            {
+                throw new ArgumentException("Property keys cannot be empty.", nameof(propertiesToSet));
+            }
+
+            properties = await NormalizePropertiesAsync(properties, requireAll: false) ?? properties;
+            if (keysToRemove.Length > 0)
+            {
+                IEnumerable<PropertyDefinitionDbModel> definitions = await _propertyDefinitionRepository.GetAllAsync();
+                PropertyDefinitionDbModel? requiredDefinition = definitions.FirstOrDefault(d => d.IsRequired && keysToRemove.Contains(d.Key, StringComparer.OrdinalIgnoreCase));
+                if (requiredDefinition != null)
+                {
+                    throw new ArgumentException($"{requiredDefinition.Name} is required and cannot be removed.", nameof(propertyKeysToRemove));
+                }
+            }
+
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write);
+            List<ItemDbModel> itemsBeforeUpdate = (await _itemRepository.GetByIdsAsync(itemIdsArray, workspaceId: workspaceId)).ToList();
+            await _locationAccessService.EnsureCanWriteAsync(itemsBeforeUpdate.Select(i => i.LocationId));
+            int updatedCount = await _itemRepository.UpdatePropertiesAsync(itemIdsArray, properties, keysToRemove, workspaceId: workspaceId);
+            IEnumerable<ItemDbModel> itemsAfterUpdate = await _itemRepository.GetByIdsAsync(itemIdsArray, workspaceId: workspaceId);
+
+            await RecordItemChangesAsync(AuditActions.Update, itemsBeforeUpdate, itemsAfterUpdate, (before, after) => before.PropertiesJson != after.PropertiesJson);
+
+            return updatedCount;
+        }
+
         /// <summary>
         /// Searches items using full-text search with relevance ranking.
+        /// The search term may use the query syntax described by <see cref="SearchQuery.Parse(string?)"/>.
         /// If the search term is empty or whitespace, returns all items with pagination.
         /// </summary>
         /// <param name="searchTerm">The search term to match against item names, descriptions, and properties.</param>
         /// <param name="offset">The number of results to skip for pagination.</param>
         /// <param name="limit">The maximum number of results to return.</param>
+        /// <param name="propertyFilters">Optional property filters that items must match. Defaults to null.</param>
+        /// <param name="propertyRanges">Optional ranges that number and date properties must lie within. Defaults to null.</param>
+        /// <param name="sortOrder">Optional order of the results. Defaults to null for relevance order.</param>
+        /// <param name="templateId">Optional template that items must have been created from. Defaults to null.</param>
+        /// <param name="tags">Optional tags that items must all have, ignoring case. Defaults to null.</param>
         /// <returns>A tuple containing the matching items and the total count of matches.</returns>
-        /// <exception cref="ArgumentException">Thrown when pagination parameters are invalid.</exception>
-        public async Task<(IEnumerable<Item> Results, int TotalCount)> SearchItemsAsync(string searchTerm, int offset, int limit)
+        /// <exception cref="ArgumentException">Thrown when pagination parameters or the search query are invalid,
+        /// or when a range is on a property that is not a defined number or date property or has an invalid bound.</exception>
+        public async Task<(IEnumerable<Item> Results, int TotalCount)> SearchItemsAsync(string searchTerm, int offset, int limit, IEnumerable<ItemPropertyFilter>? propertyFilters = null, IEnumerable<ItemPropertyRange>? propertyRanges = null, ItemSortOrder? sortOrder = null, Guid? templateId = null, IEnumerable<string>? tags = null)
         {
             if (offset < 0)
             {
@@ -212,11 +681,34 @@ namespace Ordning.Server.Items.Services
                 throw new ArgumentException("Limit cannot exceed 100.", nameof(limit));
             }
 
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            SearchQuery query = SearchQuery.Parse(searchTerm);
+            List<ItemPropertyFilter> filters = propertyFilters?.ToList() ?? new List<ItemPropertyFilter>();
+            List<ItemPropertyRange> ranges = propertyRanges?.ToList() ?? new List<ItemPropertyRange>();
+            List<string> tagList = tags?.Where(t => !string.IsNullOrWhiteSpace(t)).ToList() ?? new List<string>();
+            IReadOnlySet<string> hiddenLocationIds = await _locationAccessService.GetHiddenLocationIdsAsync();
+            if (filters.Count > 0 || ranges.Count > 0 || sortOrder != null || templateId != null || tagList.Count > 0 || !query.IsPlainText)
+            {
+                List<PropertyDefinition> definitions = (await _propertyDefinitionRepository.GetAllAsync()).Select(d => d.ToDomainPropertyDefinition()).ToList();
+                (IEnumerable<ItemDbModel> filteredResults, int filteredCount) = await _itemRepository.SearchAsync(
+                    query: query,
+                    propertyFilters: filters,
+                    offset: offset,
+                    limit: limit,
+                    propertyRanges: ranges.Select(r => ResolvePropertyRange(r, definitions)).ToList(),
+                    sortOrder: ResolveSortOrder(sortOrder, definitions),
+                    templateId: templateId,
+                    tags: tagList,
+                    workspaceId: workspaceId,
+                    hiddenLocationIds: hiddenLocationIds);
+                return (filteredResults.Select(i => i.ToDomainItem()), filteredCount);
+            }
+
             // If search term is empty or whitespace, return all items with pagination
             if (string.IsNullOrWhiteSpace(searchTerm))
             {
-                IEnumerable<ItemDbModel> allItems = await _itemRepository.GetAllAsync();
-                List<ItemDbModel> allItemsList = allItems.ToList();
+                IEnumerable<ItemDbModel> allItems = await _itemRepository.GetAllAsync(workspaceId: workspaceId);
+                List<ItemDbModel> allItemsList = allItems.Where(i => !hiddenLocationIds.Contains(i.LocationId)).ToList();
                 int allItemsCount = allItemsList.Count;
                 IEnumerable<ItemDbModel> paginatedItems = allItemsList.Skip(offset).Take(limit);
                 IEnumerable<Item> allItemsResult = paginatedItems.Select(i => i.ToDomainItem());
@@ -224,10 +716,201 @@ namespace Ordning.Server.Items.Services
                 return (allItemsResult, allItemsCount);
             }
 
-            (IEnumerable<ItemDbModel> results, int totalCount) = await _itemRepository.SearchAsync(searchTerm, offset, limit);
+            (IEnumerable<ItemDbModel> results, int totalCount) = await _itemRepository.SearchAsync(searchTerm, offset, limit, workspaceId: workspaceId, hiddenLocationIds: hiddenLocationIds);
             IEnumerable<Item> items = results.Select(i => i.ToDomainItem());
 
             return (items, totalCount);
         }
+
+        /// <summary>
+        /// Gets the most common property keys and values among the items matching a search.
+        /// </summary>
+        /// <param name="searchTerm">The search term to match against item names, descriptions, and properties.</param>
+        /// <param name="propertyFilters">Optional property filters that items must match. Defaults to null.</param>
+        /// <param name="keyLimit">The maximum number of property keys to return. Defaults to 10, maximum 50.</param>
+        /// <param name="valueLimit">The maximum number of values to return per key. Defaults to 10, maximum 50.</param>
+        /// <param name="templateId">Optional template that items must have been created from. Defaults to null.</param>
+        /// <param name="tags">Optional tags that items must all have, ignoring case. Defaults to null.</param>
+        /// <returns>The property facets, most common key first.</returns>
+        /// <exception cref="ArgumentException">Thrown when a limit is out of range or the search query is invalid.</exception>
+        public async Task<IEnumerable<PropertyFacet>> GetPropertyFacetsAsync(string searchTerm, IEnumerable<ItemPropertyFilter>? propertyFilters = null, int keyLimit = 10, int valueLimit = 10, Guid? templateId = null, IEnumerable<string>? tags = null)
+        {
+            if (keyLimit <= 0 || keyLimit > 50)
+            {
+                throw new ArgumentException("Key limit must be between 1 and 50.", nameof(keyLimit));
+            }
+
+            if (valueLimit <= 0 || valueLimit > 50)
+            {
+                throw new ArgumentException("Value limit must be between 1 and 50.", nameof(valueLimit));
+            }
+
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            SearchQuery query = SearchQuery.Parse(searchTerm);
+            IEnumerable<ItemPropertyFilter> filters = propertyFilters ?? Enumerable.Empty<ItemPropertyFilter>();
+            IReadOnlySet<string> hiddenLocationIds = await _locationAccessService.GetHiddenLocationIdsAsync();
+            IEnumerable<PropertyFacetDbModel> rows = await _itemRepository.GetPropertyFacetsAsync(query, filters, keyLimit, valueLimit, templateId: templateId, tags: tags?.Where(t => !string.IsNullOrWhiteSpace(t)).ToList(), workspaceId: workspaceId, hiddenLocationIds: hiddenLocationIds);
+
+            return rows
+                .GroupBy(row => row.Key)
+                .Select(group => new PropertyFacet(
+                    key: group.Key,
+                    itemCount: group.First().KeyItemCount,
+                    values: group.Select(row => new PropertyFacetValue(value: row.Value, itemCount: row.ItemCount)).ToList()))
+                .ToList();
+        }
+
+        /// <summary>
+        /// Records a change for every item that exists both before and after a bulk operation and was actually changed by it.
+        /// </summary>
+        /// <param name="action">The kind of change.</param>
+        /// <param name="itemsBefore">The items before the operation.</param>
+        /// <param name="itemsAfter">The items after the operation.</param>
+        /// <param name="hasChanged">Decides whether an item was changed, given its state before and after.</param>
+        private async Task RecordItemChangesAsync(string action, IEnumerable<ItemDbModel> itemsBefore, IEnumerable<ItemDbModel> itemsAfter, Func<ItemDbModel, ItemDbModel, bool> hasChanged)
+        {
+            Dictionary<Guid, ItemDbModel> itemsAfterById = itemsAfter.ToDictionary(i => i.Id);
+            foreach (ItemDbModel itemBefore in itemsBefore)
+            {
+                if (itemsAfterById.TryGetValue(itemBefore.Id, out ItemDbModel? itemAfter) && hasChanged(itemBefore, itemAfter))
+                {
+                    await _auditService.RecordAsync(AuditEntityTypes.Item, itemBefore.Id.ToString(), action, before: itemBefore.ToDomainItem(), after: itemAfter.ToDomainItem());
+                }
+            }
+        }
+
+        /// <summary>
+        /// Matches property keys to their definitions ignoring case and normalizes the values of defined properties.
+        /// Empty values of defined properties are left out, and properties without a definition are kept as they are.
+        /// </summary>
+        /// <param name="properties">The properties to normalize.</param>
+        /// <param name="requireAll">Whether every required property must have a value, as when the properties replace all of an item's properties.</param>
+        /// <returns>The normalized properties, or null if no properties were given.</returns>
+        /// <exception cref="ArgumentException">Thrown when a defined property has an invalid value or is given twice, or when a required property is missing.</exception>
+        private async Task<Dictionary<string, string>?> NormalizePropertiesAsync(Dictionary<string, string>? properties, bool requireAll)
+        {
+            List<PropertyDefinition> definitions = (await _propertyDefinitionRepository.GetAllAsync()).Select(d => d.ToDomainPropertyDefinition()).ToList();
+            if (definitions.Count == 0)
+            {
+                return properties;
+            }
+
+            Dictionary<string, string> normalized = new Dictionary<string, string>();
+            foreach (KeyValuePair<string, string> property in properties ?? new Dictionary<string, string>())
+            {
+                PropertyDefinition? definition = definitions.FirstOrDefault(d => d.Key.Equals(property.Key, StringComparison.OrdinalIgnoreCase));
+                if (definition == null)
+                {
+                    normalized[property.Key] = property.Value;
+                    continue;
+                }
+
+                if (normalized.ContainsKey(definition.Key))
+                {
+                    throw new ArgumentException($"{definition.Name} is given more than once.", nameof(properties));
+                }
+
+                if (!string.IsNullOrWhiteSpace(property.Value))
+                {
+                    normalized[definition.Key] = definition.NormalizeValue(property.Value);
+                }
+            }
+
+            if (requireAll)
+            {
+                PropertyDefinition? missingDefinition = definitions.FirstOrDefault(d => d.IsRequired && !normalized.ContainsKey(d.Key));
+                if (missingDefinition != null)
+                {
+                    throw new ArgumentException($"{missingDefinition.Name} is required.", nameof(properties));
+                }
+            }
+
+            return properties == null && normalized.Count == 0 ? null : normalized;
+        }
+
+        /// <summary>
+        /// Matches a property range to the definition of its property and normalizes its bounds.
+        /// </summary>
+        /// <param name="range">The property range.</param>
+        /// <param name="definitions">All property definitions.</param>
+        /// <returns>The range with the defined property key and type.</returns>
+        /// <exception cref="ArgumentException">Thrown when the property is not a defined number or date property or when a bound is invalid.</exception>
+        private static ItemPropertyRange ResolvePropertyRange(ItemPropertyRange range, IReadOnlyList<PropertyDefinition> definitions)
+        {
+            PropertyDefinition? definition = definitions.FirstOrDefault(d => d.Key.Equals(range.Key, StringComparison.OrdinalIgnoreCase));
+            if (definition == null || !PropertyTypes.IsRangeComparable(definition.Type))
+            {
+                throw new ArgumentException($"Only number and date properties can be filtered by range, and '{range.Key}' is not one.", nameof(range));
+            }
+
+            return new ItemPropertyRange(
+                key: definition.Key,
+                min: range.Min == null ? null : definition.NormalizeValue(range.Min),
+                max: range.Max == null ? null : definition.NormalizeValue(range.Max),
+                type: definition.Type);
+        }
+
+        /// <summary>
+        /// Matches a sort by property value to the definition of its property, so that numbers and dates sort by value.
+        /// Properties without a definition sort as text.
+        /// </summary>
+        /// <param name="sortOrder">The sort order, or null for relevance order.</param>
+        /// <param name="definitions">All property definitions.</param>
+        /// <returns>The sort order with the defined property key and type, or null if no sort order was given.</returns>
+        private static ItemSortOrder? ResolveSortOrder(ItemSortOrder? sortOrder, IReadOnlyList<PropertyDefinition> definitions)
+        {
+            if (sortOrder == null || sortOrder.Field != ItemSortOrder.Property || sortOrder.PropertyKey == null)
+            {
+                return sortOrder;
+            }
+
+            PropertyDefinition? definition = definitions.FirstOrDefault(d => d.Key.Equals(sortOrder.PropertyKey, StringComparison.OrdinalIgnoreCase));
+            if (definition == null)
+            {
+                return sortOrder;
+            }
+
+            return new ItemSortOrder(
+                field: ItemSortOrder.Property,
+                isDescending: sortOrder.IsDescending,
+                propertyKey: definition.Key,
+                propertyType: definition.Type);
+        }
+
+        /// <summary>
+        /// Checks the quantity fields of an item and returns the unit trimmed, or null if it is empty.
+        /// </summary>
+        /// <param name="quantity">How many of the item there are, if any.</param>
+        /// <param name="unit">The unit the quantity is counted in, if any.</param>
+        /// <param name="minQuantity">The quantity below which the item is low on stock, if any.</param>
+        /// <returns>The trimmed unit, or null if it is empty.</returns>
+        /// <exception cref="ArgumentException">Thrown when a quantity is negative or too large, when the unit is too long,
+        /// or when a unit or minimum quantity is given without a quantity.</exception>
+        private static string? ValidateQuantity(decimal? quantity, string? unit, decimal? minQuantity)
+        {
+            string? normalizedUnit = string.IsNullOrWhiteSpace(unit) ? null : unit.Trim();
+
+            if (quantity < 0 || quantity > MaxQuantity)
+            {
+                throw new ArgumentException($"Quantity must be between 0 and {MaxQuantity}.", nameof(quantity));
+            }
+
+            if (minQuantity < 0 || minQuantity > MaxQuantity)
+            {
+                throw new ArgumentException($"Minimum quantity must be between 0 and {MaxQuantity}.", nameof(minQuantity));
+            }
+
+            if (normalizedUnit != null && normalizedUnit.Length > MaxUnitLength)
+            {
+                throw new ArgumentException($"Unit cannot be longer than {MaxUnitLength} characters.", nameof(unit));
+            }
+
+            if (quantity == null && (normalizedUnit != null || minQuantity != null))
+            {
+                throw new ArgumentException("A unit or minimum quantity can only be set together with a quantity.", nameof(quantity));
+            }
+
+            return normalizedUnit;
+        }
     }
 }
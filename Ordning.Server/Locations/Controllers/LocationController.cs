@@ -1,6 +1,8 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.RateLimiting;
+using Ordning.Server.Images.Models;
+using Ordning.Server.Images.Services;
 using Ordning.Server.Locations.Models;
 using Ordning.Server.Locations.Services;
 using Ordning.Server.RateLimiting;
@@ -16,16 +18,22 @@ namespace Ordning.Server.Locations.Controllers
     public class LocationController : ControllerBase
     {
         private readonly ILocationService _locationService;
+        private readonly ILocationAccessService _locationAccessService;
+        private readonly IImageService _imageService;
         private readonly ILogger<LocationController> _logger;
 
         /// <summary>
         /// Initializes a new instance of the <see cref="LocationController"/> class.
         /// </summary>
         /// <param name="locationService">The location service.</param>
+        /// <param name="locationAccessService">The location access service.</param>
+        /// <param name="imageService">The image service.</param>
         /// <param name="logger">The logger.</param>
-        public LocationController(ILocationService locationService, ILogger<LocationController> logger)
+        public LocationController(ILocationService locationService, ILocationAccessService locationAccessService, IImageService imageService, ILogger<LocationController> logger)
         {
             _locationService = locationService;
+            _locationAccessService = locationAccessService;
+            _imageService = imageService;
             _logger = logger;
         }
 
@@ -76,6 +84,133 @@ namespace Ordning.Server.Locations.Controllers
             return Ok(children);
         }
 
+        /// <summary>
+        /// Gets which child locations and items would be affected by deleting a location.
+        /// </summary>
+        /// <param name="id">The unique identifier of the location.</param>
+        /// <returns>The delete impact if found; otherwise, 404 Not Found.</returns>
+        [HttpGet("{id}/delete-impact")]
+        [Authorize]
+        [ProducesResponseType(typeof(LocationDeleteImpact), 200)]
+        [ProducesResponseType(404)]
+        public async Task<ActionResult<LocationDeleteImpact>> GetDeleteImpact(string id)
+        {
+            LocationDeleteImpact? impact = await _locationService.GetDeleteImpactAsync(id);
+            if (impact == null)
+            {
+                return NotFound($"Location with ID '{id}' not found.");
+            }
+
+            return Ok(impact);
+        }
+
+        /// <summary>
+        /// Gets the access rules of a location. Needs the admin role in the workspace.
+        /// </summary>
+        /// <param name="id">The unique identifier of the location.</param>
+        /// <returns>The access rules of the location, the rule for everyone else first.</returns>
+        [HttpGet("{id}/access")]
+        [Authorize]
+        [ProducesResponseType(typeof(IEnumerable<LocationAccessRule>), 200)]
+        [ProducesResponseType(403)]
+        [ProducesResponseType(404)]
+        public async Task<ActionResult<IEnumerable<LocationAccessRule>>> GetLocationAccess(string id)
+        {
+            IEnumerable<LocationAccessRule>? rules = await _locationAccessService.GetRulesAsync(id);
+            if (rules == null)
+            {
+                return NotFound($"Location with ID '{id}' not found.");
+            }
+
+            return Ok(rules);
+        }
+
+        /// <summary>
+        /// Replaces the access rules of a location. The rules also apply to everything below the location. Needs the admin role in the workspace.
+        /// </summary>
+        /// <param name="id">The unique identifier of the location.</param>
+        /// <param name="request">The new access rules.</param>
+        /// <returns>The saved access rules of the location.</returns>
+        [HttpPut("{id}/access")]
+        [Authorize]
+        [ProducesResponseType(typeof(IEnumerable<LocationAccessRule>), 200)]
+        [ProducesResponseType(400)]
+        [ProducesResponseType(403)]
+        [ProducesResponseType(404)]
+        public async Task<ActionResult<IEnumerable<LocationAccessRule>>> SetLocationAccess(string id, [FromBody] SetLocationAccessRequest request)
+        {
+            IEnumerable<LocationAccessRule>? rules = await _locationAccessService.SetRulesAsync(
+                id,
+                request.Rules.Select(r => (r.UserId, r.Access)));
+
+            if (rules == null)
+            {
+                return NotFound($"Location with ID '{id}' not found.");
+            }
+
+            return Ok(rules);
+        }
+
+        /// <summary>
+        /// Gets the photos of a location, in upload order.
+        /// </summary>
+        /// <param name="id">The unique identifier of the location.</param>
+        /// <returns>The photos of the location if the location is found; otherwise, 404 Not Found.</returns>
+        [HttpGet("{id}/images")]
+        [Authorize]
+        [ProducesResponseType(typeof(IEnumerable<Image>), 200)]
+        [ProducesResponseType(404)]
+        public async Task<ActionResult<IEnumerable<Image>>> GetLocationImages(string id)
+        {
+            Location? location = await _locationService.GetLocationByIdAsync(id);
+            if (location == null)
+            {
+                return NotFound($"Location with ID '{id}' not found.");
+            }
+
+            IEnumerable<Image> images = await _imageService.GetImagesAsync(ImageOwnerTypes.Location, id);
+            return Ok(images);
+        }
+
+        /// <summary>
+        /// Uploads a photo of a location, such as the contents of a box or drawer.
+        /// </summary>
+        /// <param name="id">The unique identifier of the location.</param>
+        /// <param name="request">The image upload request.</param>
+        /// <returns>The uploaded photo.</returns>
+        [HttpPost("{id}/images")]
+        [EnableRateLimiting(RateLimitPolicies.Strict)]
+        [Authorize]
+        [RequestSizeLimit(ImageService.MaxUploadRequestSizeBytes)]
+        [RequestFormLimits(MultipartBodyLengthLimit = ImageService.MaxUploadRequestSizeBytes)]
+        [ProducesResponseType(typeof(Image), 201)]
+        [ProducesResponseType(400)]
+        [ProducesResponseType(404)]
+        public async Task<ActionResult<Image>> UploadLocationImage(string id, [FromForm] UploadImageRequest request)
+        {
+            Location? location = await _locationService.GetLocationByIdAsync(id);
+            if (location == null)
+            {
+                return NotFound($"Location with ID '{id}' not found.");
+            }
+
+            await using Stream imageStream = request.Image.OpenReadStream();
+            await using Stream thumbnailStream = request.Thumbnail.OpenReadStream();
+
+            Image image = await _imageService.AddImageAsync(
+                ownerType: ImageOwnerTypes.Location,
+                ownerId: id,
+                image: imageStream,
+                imageSizeBytes: request.Image.Length,
+                thumbnail: thumbnailStream,
+                thumbnailSizeBytes: request.Thumbnail.Length,
+                contentType: request.Image.ContentType,
+                width: request.Width,
+                height: request.Height);
+
+            return StatusCode(201, image);
+        }
+
         /// <summary>
         /// Creates a new location.
         /// </summary>
@@ -83,7 +218,7 @@ namespace Ordning.Server.Locations.Controllers
         /// <returns>The created location.</returns>
         [HttpPost]
         [EnableRateLimiting(RateLimitPolicies.Strict)]
-        [Authorize(Roles = "write,admin")]
+        [Authorize]
         [ProducesResponseType(typeof(Location), 201)]
         [ProducesResponseType(400)]
         public async Task<ActionResult<Location>> CreateLocation([FromBody] CreateLocationRequest request)
@@ -92,7 +227,8 @@ namespace Ordning.Server.Locations.Controllers
                 id: request.Id,
                 name: request.Name,
                 description: request.Description,
-                parentLocationId: request.ParentLocationId);
+                parentLocationId: request.ParentLocationId,
+                tags: request.Tags);
 
             return CreatedAtAction(nameof(GetLocationById), new { id = location.Id }, location);
         }
@@ -104,7 +240,7 @@ namespace Ordning.Server.Locations.Controllers
         /// <param name="request">The location update request.</param>
         /// <returns>The updated location.</returns>
         [HttpPut("{id}")]
-        [Authorize(Roles = "write,admin")]
+        [Authorize]
         [ProducesResponseType(typeof(Location), 200)]
         [ProducesResponseType(400)]
         [ProducesResponseType(404)]
@@ -114,34 +250,69 @@ namespace Ordning.Server.Locations.Controllers
                 id: id,
                 name: request.Name,
                 description: request.Description,
-                parentLocationId: request.ParentLocationId);
+                parentLocationId: request.ParentLocationId,
+                tags: request.Tags);
 
             return Ok(location);
         }
 
         /// <summary>
-        /// Deletes a location.
+        /// Deletes a location. By default only an empty location can be deleted. Use mode "move" together with
+        /// targetLocationId to move its child locations and items elsewhere first, or mode "cascade" to delete
+        /// everything inside it as well.
         /// </summary>
         /// <param name="id">The unique identifier of the location to delete.</param>
+        /// <param name="mode">How child locations and items are handled: "restrict", "move" or "cascade". Defaults to "restrict".</param>
+        /// <param name="targetLocationId">The location that receives the child locations and items when the mode is "move".</param>
         /// <returns>204 No Content if deleted; otherwise, 404 Not Found.</returns>
         [HttpDelete("{id}")]
-        [Authorize(Roles = "write,admin")]
+        [Authorize]
         [ProducesResponseType(204)]
+        [ProducesResponseType(400)]
         [ProducesResponseType(404)]
-        public async Task<IActionResult> DeleteLocation(string id)
+        public async Task<IActionResult> DeleteLocation(string id, [FromQuery] string? mode = null, [FromQuery] string? targetLocationId = null)
         {
-            bool deleted = await _locationService.DeleteLocationAsync(id);
-            if (!deleted)
+            try
             {
-                return NotFound($"Location with ID '{id}' not found.");
+                bool deleted = await _locationService.DeleteLocationAsync(
+                    id: id,
+                    mode: mode ?? LocationDeleteModes.Restrict,
+                    targetLocationId: targetLocationId);
+
+                if (!deleted)
+                {
+                    return NotFound($"Location with ID '{id}' not found.");
+                }
+
+                return NoContent();
+            }
+            catch (ArgumentException ex)
+            {
+                return BadRequest(ex.Message);
             }
+        }
 
-            return NoContent();
+        /// <summary>
+        /// Restores deleted locations with their original identifiers, names and parents.
+        /// Items that were deleted with them are restored separately through the item restore endpoint.
+        /// </summary>
+        /// <param name="request">The restore locations request.</param>
+        /// <returns>The restored locations, parents before their children.</returns>
+        [HttpPost("restore")]
+        [Authorize]
+        [ProducesResponseType(typeof(IEnumerable<Location>), 200)]
+        [ProducesResponseType(400)]
+        public async Task<ActionResult<IEnumerable<Location>>> RestoreLocations([FromBody] RestoreLocationsRequest request)
+        {
+            IEnumerable<Location> locations = await _locationService.RestoreLocationsAsync(request.LocationIds);
+            return Ok(locations);
         }
 
         /// <summary>
         /// Searches locations using full-text search with relevance ranking.
         /// If the search query is empty or whitespace, returns all locations.
+        /// The query supports "quoted phrases", -excluded terms, in:LOCATION (descendants of a location),
+        /// and created: or updated: with an optional &gt;, &gt;=, &lt; or &lt;= before a yyyy-MM-dd date.
         /// </summary>
         /// <param name="q">The search term to match against location IDs, names, and descriptions.</param>
         /// <param name="offset">The number of results to skip for pagination. Defaults to 0.</param>
@@ -25,6 +25,16 @@ namespace Ordning.Server.Locations.Models
         /// </summary>
         public string? ParentLocationId { get; }
 
+        /// <summary>
+        /// Gets the identifiers of the photos of the location, in upload order.
+        /// </summary>
+        public IReadOnlyList<Guid> ImageIds { get; }
+
+        /// <summary>
+        /// Gets the tags of the location, ordered by name.
+        /// </summary>
+        public IReadOnlyList<string> Tags { get; }
+
         /// <summary>
         /// Gets the UTC timestamp when the location was created.
         /// </summary>
@@ -44,7 +54,9 @@ namespace Ordning.Server.Locations.Models
         /// <param name="parentLocationId">The parent location identifier. Defaults to null.</param>
         /// <param name="createdAt">The UTC timestamp when the location was created.</param>
         /// <param name="updatedAt">The UTC timestamp when the location was last updated.</param>
-        public Location(string id, string name, string? description = null, string? parentLocationId = null, DateTimeOffset createdAt = default, DateTimeOffset updatedAt = default)
+        /// <param name="imageIds">The identifiers of the photos of the location. Defaults to an empty list.</param>
+        /// <param name="tags">The tags of the location. Defaults to an empty list.</param>
+        public Location(string id, string name, string? description = null, string? parentLocationId = null, DateTimeOffset createdAt = default, DateTimeOffset updatedAt = default, IReadOnlyList<Guid>? imageIds = null, IReadOnlyList<string>? tags = null)
         {
             Id = id;
             Name = name;
@@ -52,6 +64,8 @@ namespace Ordning.Server.Locations.Models
             ParentLocationId = parentLocationId;
             CreatedAt = createdAt;
             UpdatedAt = updatedAt;
+            ImageIds = imageIds ?? Array.Empty<Guid>();
+            Tags = tags ?? Array.Empty<string>();
         }
     }
 }
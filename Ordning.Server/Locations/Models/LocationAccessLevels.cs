@@ -0,0 +1,39 @@
+namespace Ordning.Server.Locations.Models
+{
+    /// <summary>
+    /// The access a location access rule gives to a location and everything below it. A rule can only limit what a
+    /// member's workspace role allows, never add to it.
+    /// </summary>
+    public static class LocationAccessLevels
+    {
+        /// <summary>
+        /// The location, its sublocations and their items are hidden.
+        /// </summary>
+        public const string None = "none";
+
+        /// <summary>
+        /// The location, its sublocations and their items can be seen but not changed.
+        /// </summary>
+        public const string Read = "read";
+
+        /// <summary>
+        /// The location, its sublocations and their items can be seen and changed.
+        /// </summary>
+        public const string Write = "write";
+
+        /// <summary>
+        /// Gets all location access levels, from least to most access.
+        /// </summary>
+        public static IReadOnlyList<string> All { get; } = new[] { None, Read, Write };
+
+        /// <summary>
+        /// Checks whether a value is a known location access level.
+        /// </summary>
+        /// <param name="access">The value to check.</param>
+        /// <returns>True if the value is a known location access level; otherwise, false.</returns>
+        public static bool IsValid(string access)
+        {
+            return All.Contains(access);
+        }
+    }
+}
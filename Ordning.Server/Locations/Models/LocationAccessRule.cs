@@ -0,0 +1,43 @@
+namespace Ordning.Server.Locations.Models
+{
+    /// <summary>
+    /// Represents a rule that limits the access to a location and everything below it, for one user or for everyone else.
+    /// </summary>
+    public class LocationAccessRule
+    {
+        /// <summary>
+        /// Gets the unique identifier of the location the rule is on.
+        /// </summary>
+        public string LocationId { get; }
+
+        /// <summary>
+        /// Gets the unique identifier of the user the rule is for, or null if it is for everyone without a rule of their own.
+        /// </summary>
+        public Guid? UserId { get; }
+
+        /// <summary>
+        /// Gets the username of the user the rule is for, or null if it is for everyone without a rule of their own.
+        /// </summary>
+        public string? Username { get; }
+
+        /// <summary>
+        /// Gets the access the rule gives, one of <see cref="LocationAccessLevels"/>.
+        /// </summary>
+        public string Access { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="LocationAccessRule"/> class.
+        /// </summary>
+        /// <param name="locationId">The unique identifier of the location the rule is on.</param>
+        /// <param name="userId">The unique identifier of the user the rule is for, or null for everyone else.</param>
+        /// <param name="username">The username of the user the rule is for, or null for everyone else.</param>
+        /// <param name="access">The access the rule gives.</param>
+        public LocationAccessRule(string locationId, Guid? userId, string? username, string access)
+        {
+            LocationId = locationId;
+            UserId = userId;
+            Username = username;
+            Access = access;
+        }
+    }
+}
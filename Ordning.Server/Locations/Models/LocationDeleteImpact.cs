@@ -0,0 +1,75 @@
+namespace Ordning.Server.Locations.Models
+{
+    /// <summary>
+    /// Describes what deleting a location would affect.
+    /// </summary>
+    public class LocationDeleteImpact
+    {
+        /// <summary>
+        /// Gets the unique identifier of the location.
+        /// </summary>
+        public string LocationId { get; }
+
+        /// <summary>
+        /// Gets the number of direct child locations.
+        /// </summary>
+        public int ChildLocationCount => ChildLocationIds.Count;
+
+        /// <summary>
+        /// Gets the number of locations below the location at any depth.
+        /// </summary>
+        public int DescendantLocationCount => DescendantLocationIds.Count;
+
+        /// <summary>
+        /// Gets the number of items directly in the location.
+        /// </summary>
+        public int ItemCount => ItemIds.Count;
+
+        /// <summary>
+        /// Gets the number of items in the location and all of its sublocations.
+        /// </summary>
+        public int TotalItemCount => SubtreeItemIds.Count;
+
+        /// <summary>
+        /// Gets the unique identifiers of the direct child locations.
+        /// </summary>
+        public IReadOnlyList<string> ChildLocationIds { get; }
+
+        /// <summary>
+        /// Gets the unique identifiers of the locations below the location at any depth, parents before their children.
+        /// </summary>
+        public IReadOnlyList<string> DescendantLocationIds { get; }
+
+        /// <summary>
+        /// Gets the unique identifiers of the items directly in the location.
+        /// </summary>
+        public IReadOnlyList<Guid> ItemIds { get; }
+
+        /// <summary>
+        /// Gets the unique identifiers of the items in the location and all of its sublocations.
+        /// </summary>
+        public IReadOnlyList<Guid> SubtreeItemIds { get; }
+
+        /// <summary>
+        /// Gets a value indicating whether the location has no child locations and no items, so that it can be deleted as is.
+        /// </summary>
+        public bool IsEmpty => ChildLocationCount == 0 && ItemCount == 0;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="LocationDeleteImpact"/> class.
+        /// </summary>
+        /// <param name="locationId">The unique identifier of the location.</param>
+        /// <param name="childLocationIds">The unique identifiers of the direct child locations.</param>
+        /// <param name="descendantLocationIds">The unique identifiers of the locations below the location at any depth, parents first.</param>
+        /// <param name="itemIds">The unique identifiers of the items directly in the location.</param>
+        /// <param name="subtreeItemIds">The unique identifiers of the items in the location and all of its sublocations.</param>
+        public LocationDeleteImpact(string locationId, IReadOnlyList<string> childLocationIds, IReadOnlyList<string> descendantLocationIds, IReadOnlyList<Guid> itemIds, IReadOnlyList<Guid> subtreeItemIds)
+        {
+            LocationId = locationId;
+            ChildLocationIds = childLocationIds;
+            DescendantLocationIds = descendantLocationIds;
+            ItemIds = itemIds;
+            SubtreeItemIds = subtreeItemIds;
+        }
+    }
+}
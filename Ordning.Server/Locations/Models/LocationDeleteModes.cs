@@ -0,0 +1,38 @@
+namespace Ordning.Server.Locations.Models
+{
+    /// <summary>
+    /// The ways a location's child locations and items can be handled when the location is deleted.
+    /// </summary>
+    public static class LocationDeleteModes
+    {
+        /// <summary>
+        /// Only delete the location if it is empty.
+        /// </summary>
+        public const string Restrict = "restrict";
+
+        /// <summary>
+        /// Move the child locations and items to another location before deleting the location.
+        /// </summary>
+        public const string Move = "move";
+
+        /// <summary>
+        /// Delete the location together with all of its sublocations and the items in them.
+        /// </summary>
+        public const string Cascade = "cascade";
+
+        /// <summary>
+        /// Gets all location delete modes.
+        /// </summary>
+        public static IReadOnlyList<string> All { get; } = new[] { Restrict, Move, Cascade };
+
+        /// <summary>
+        /// Checks whether a value is a known location delete mode.
+        /// </summary>
+        /// <param name="mode">The value to check.</param>
+        /// <returns>True if the value is a known location delete mode; otherwise, false.</returns>
+        public static bool IsValid(string mode)
+        {
+            return All.Contains(mode);
+        }
+    }
+}
@@ -24,6 +24,11 @@ namespace Ordning.Server.Locations.Models
         /// Gets or sets the parent location identifier.
         /// </summary>
         public string? ParentLocationId { get; set; }
+
+        /// <summary>
+        /// Gets or sets the tags of the location.
+        /// </summary>
+        public List<string>? Tags { get; set; }
     }
 
     /// <summary>
@@ -45,6 +50,49 @@ namespace Ordning.Server.Locations.Models
         /// Gets or sets the parent location identifier.
         /// </summary>
         public string? ParentLocationId { get; set; }
+
+        /// <summary>
+        /// Gets or sets the new tags of the location, or null to keep the current tags.
+        /// </summary>
+        public List<string>? Tags { get; set; }
+    }
+
+    /// <summary>
+    /// Request model for restoring deleted locations.
+    /// </summary>
+    public class RestoreLocationsRequest
+    {
+        /// <summary>
+        /// Gets or sets the unique identifiers of the deleted locations to restore.
+        /// </summary>
+        public IEnumerable<string> LocationIds { get; set; } = Array.Empty<string>();
+    }
+
+    /// <summary>
+    /// Request model for replacing the access rules of a location.
+    /// </summary>
+    public class SetLocationAccessRequest
+    {
+        /// <summary>
+        /// Gets or sets the new access rules of the location. An empty list removes all rules from the location.
+        /// </summary>
+        public List<LocationAccessRuleRequest> Rules { get; set; } = new List<LocationAccessRuleRequest>();
+    }
+
+    /// <summary>
+    /// Request model for one access rule of a location.
+    /// </summary>
+    public class LocationAccessRuleRequest
+    {
+        /// <summary>
+        /// Gets or sets the unique identifier of the user the rule is for, or null for everyone without a rule of their own.
+        /// </summary>
+        public Guid? UserId { get; set; }
+
+        /// <summary>
+        /// Gets or sets the access the rule gives, one of "none", "read" or "write".
+        /// </summary>
+        public string Access { get; set; } = string.Empty;
     }
 
     /// <summary>
@@ -0,0 +1,35 @@
+using EasyReasy.Database;
+
+namespace Ordning.Server.Locations.Repositories
+{
+    /// <summary>
+    /// Repository interface for location access rule data access operations.
+    /// </summary>
+    public interface ILocationAccessRepository : IRepository
+    {
+        /// <summary>
+        /// Gets the access rules of every location in a workspace.
+        /// </summary>
+        /// <param name="workspaceId">The unique identifier of the workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of access rule database models.</returns>
+        Task<IEnumerable<LocationAccessRuleDbModel>> GetByWorkspaceAsync(Guid workspaceId, IDbSession? session = null);
+
+        /// <summary>
+        /// Gets the access rules of a location, the rule for everyone else first and then by username.
+        /// </summary>
+        /// <param name="locationId">The unique identifier of the location.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of access rule database models.</returns>
+        Task<IEnumerable<LocationAccessRuleDbModel>> GetByLocationAsync(string locationId, IDbSession? session = null);
+
+        /// <summary>
+        /// Replaces the access rules of a location in one transaction.
+        /// </summary>
+        /// <param name="locationId">The unique identifier of the location.</param>
+        /// <param name="rules">The new access rules. The location ID of each rule is ignored.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A task that represents the asynchronous operation.</returns>
+        Task SetRulesAsync(string locationId, IEnumerable<LocationAccessRuleDbModel> rules, IDbSession? session = null);
+    }
+}
@@ -1,4 +1,5 @@
 using EasyReasy.Database;
+using Ordning.Server.Search.Models;
 
 namespace Ordning.Server.Locations.Repositories
 {
@@ -11,24 +12,36 @@ namespace Ordning.Server.Locations.Repositories
         /// Gets a location by its unique identifier.
         /// </summary>
         /// <param name="id">The unique identifier of the location.</param>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>The location database model if found; otherwise, null.</returns>
-        Task<LocationDbModel?> GetByIdAsync(string id, IDbSession? session = null);
+        Task<LocationDbModel?> GetByIdAsync(string id, Guid? workspaceId = null, IDbSession? session = null);
 
         /// <summary>
         /// Gets all locations in the database.
         /// </summary>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>A collection of all location database models.</returns>
-        Task<IEnumerable<LocationDbModel>> GetAllAsync(IDbSession? session = null);
+        Task<IEnumerable<LocationDbModel>> GetAllAsync(Guid? workspaceId = null, IDbSession? session = null);
 
         /// <summary>
         /// Gets all direct children of a parent location.
         /// </summary>
         /// <param name="parentId">The unique identifier of the parent location.</param>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>A collection of child location database models.</returns>
-        Task<IEnumerable<LocationDbModel>> GetChildrenAsync(string parentId, IDbSession? session = null);
+        Task<IEnumerable<LocationDbModel>> GetChildrenAsync(string parentId, Guid? workspaceId = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Gets all locations that have a tag, ignoring case.
+        /// </summary>
+        /// <param name="tag">The name of the tag.</param>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of tagged location database models, ordered by name.</returns>
+        Task<IEnumerable<LocationDbModel>> GetByTagAsync(string tag, Guid? workspaceId = null, IDbSession? session = null);
 
         /// <summary>
         /// Checks if a location has any child locations.
@@ -38,6 +51,15 @@ namespace Ordning.Server.Locations.Repositories
         /// <returns>True if the location has child locations; otherwise, false.</returns>
         Task<bool> HasChildrenAsync(string locationId, IDbSession? session = null);
 
+        /// <summary>
+        /// Gets a location together with all locations below it at any depth.
+        /// </summary>
+        /// <param name="id">The unique identifier of the location at the top of the subtree.</param>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of location database models ordered from the top of the subtree downwards. Returns empty collection if location not found.</returns>
+        Task<IEnumerable<LocationDbModel>> GetSubtreeAsync(string id, Guid? workspaceId = null, IDbSession? session = null);
+
         /// <summary>
         /// Creates a new location in the database.
         /// </summary>
@@ -45,9 +67,10 @@ namespace Ordning.Server.Locations.Repositories
         /// <param name="name">The name of the location.</param>
         /// <param name="description">The description of the location. Defaults to null.</param>
         /// <param name="parentLocationId">The parent location identifier. Defaults to null.</param>
+        /// <param name="workspaceId">The workspace the location belongs to. Defaults to null, which uses the default workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>The created location database model.</returns>
-        Task<LocationDbModel> CreateAsync(string id, string name, string? description = null, string? parentLocationId = null, IDbSession? session = null);
+        Task<LocationDbModel> CreateAsync(string id, string name, string? description = null, string? parentLocationId = null, Guid? workspaceId = null, IDbSession? session = null);
 
         /// <summary>
         /// Updates an existing location in the database.
@@ -64,17 +87,36 @@ namespace Ordning.Server.Locations.Repositories
         /// Deletes a location from the database.
         /// </summary>
         /// <param name="id">The unique identifier of the location to delete.</param>
+        /// <param name="workspaceId">Only delete the location if it is in this workspace. Defaults to null, which allows every workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the location was found and deleted; otherwise, false.</returns>
+        Task<bool> DeleteAsync(string id, Guid? workspaceId = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Moves the child locations and items of a location to another location and then deletes the location, all in one transaction.
+        /// </summary>
+        /// <param name="id">The unique identifier of the location to delete.</param>
+        /// <param name="targetLocationId">The unique identifier of the location that receives the child locations and items.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>True if the location was found and deleted; otherwise, false.</returns>
-        Task<bool> DeleteAsync(string id, IDbSession? session = null);
+        Task<bool> MoveContentsAndDeleteAsync(string id, string targetLocationId, IDbSession? session = null);
+
+        /// <summary>
+        /// Deletes a location together with all of its sublocations and the items in them, all in one transaction.
+        /// </summary>
+        /// <param name="id">The unique identifier of the location at the top of the subtree.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the location was found and deleted; otherwise, false.</returns>
+        Task<bool> DeleteSubtreeAsync(string id, IDbSession? session = null);
 
         /// <summary>
         /// Checks if a location exists in the database.
         /// </summary>
         /// <param name="id">The unique identifier of the location.</param>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>True if the location exists; otherwise, false.</returns>
-        Task<bool> ExistsAsync(string id, IDbSession? session = null);
+        Task<bool> ExistsAsync(string id, Guid? workspaceId = null, IDbSession? session = null);
 
         /// <summary>
         /// Searches locations using full-text search with relevance ranking.
@@ -82,16 +124,32 @@ namespace Ordning.Server.Locations.Repositories
         /// <param name="searchTerm">The search term to match against location names and descriptions.</param>
         /// <param name="offset">The number of results to skip for pagination.</param>
         /// <param name="limit">The maximum number of results to return.</param>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="hiddenLocationIds">These locations are left out. Defaults to null for none.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A tuple containing the matching locations and the total count of matches.</returns>
+        Task<(IEnumerable<LocationDbModel> Results, int TotalCount)> SearchAsync(string searchTerm, int offset, int limit, Guid? workspaceId = null, IEnumerable<string>? hiddenLocationIds = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Searches locations with a parsed search query. Results are ranked by relevance to the query text,
+        /// or ordered by name if the query has no text. Filters other than "in:", "created:" and "updated:" are ignored.
+        /// </summary>
+        /// <param name="query">The search query to match against location IDs, names, descriptions, parent locations and dates.</param>
+        /// <param name="offset">The number of results to skip for pagination.</param>
+        /// <param name="limit">The maximum number of results to return.</param>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="hiddenLocationIds">These locations are left out. Defaults to null for none.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>A tuple containing the matching locations and the total count of matches.</returns>
-        Task<(IEnumerable<LocationDbModel> Results, int TotalCount)> SearchAsync(string searchTerm, int offset, int limit, IDbSession? session = null);
+        Task<(IEnumerable<LocationDbModel> Results, int TotalCount)> SearchAsync(SearchQuery query, int offset, int limit, Guid? workspaceId = null, IEnumerable<string>? hiddenLocationIds = null, IDbSession? session = null);
 
         /// <summary>
         /// Gets the full path from root to the specified location.
         /// </summary>
         /// <param name="id">The unique identifier of the location.</param>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>A collection of location database models representing the path from root to the location, ordered from root to the target location. Returns empty collection if location not found.</returns>
-        Task<IEnumerable<LocationDbModel>> GetFullPathAsync(string id, IDbSession? session = null);
+        Task<IEnumerable<LocationDbModel>> GetFullPathAsync(string id, Guid? workspaceId = null, IDbSession? session = null);
     }
 }
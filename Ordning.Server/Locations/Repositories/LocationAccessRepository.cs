@@ -0,0 +1,124 @@
+using System.Data.Common;
+using Dapper;
+using EasyReasy.Database;
+using Ordning.Server.Database;
+
+namespace Ordning.Server.Locations.Repositories
+{
+    /// <summary>
+    /// Repository implementation for location access rule data access operations.
+    /// </summary>
+    public class LocationAccessRepository : RepositoryBase, ILocationAccessRepository
+    {
+        private const string RuleColumns = @"
+                        location_access_rules.location_id AS LocationId,
+                        location_access_rules.user_id AS UserId,
+                        auth_user.username AS Username,
+                        location_access_rules.access AS Access";
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="LocationAccessRepository"/> class.
+        /// </summary>
+        /// <param name="dataSource">The database data source.</param>
+        /// <param name="sessionFactory">The session factory for creating database sessions.</param>
+        public LocationAccessRepository(DbDataSource dataSource, IDbSessionFactory sessionFactory)
+            : base(dataSource, sessionFactory)
+        {
+        }
+
+        /// <summary>
+        /// Gets the access rules of every location in a workspace.
+        /// </summary>
+        /// <param name="workspaceId">The unique identifier of the workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of access rule database models.</returns>
+        public async Task<IEnumerable<LocationAccessRuleDbModel>> GetByWorkspaceAsync(Guid workspaceId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT {RuleColumns}
+                    FROM location_access_rules
+                    INNER JOIN locations ON locations.id = location_access_rules.location_id
+                    LEFT JOIN auth_user ON auth_user.id = location_access_rules.user_id
+                    WHERE locations.workspace_id = @{nameof(workspaceId)}";
+
+                IEnumerable<LocationAccessRuleDbModel> result = await dbSession.Connection.QueryAsync<LocationAccessRuleDbModel>(
+                    query,
+                    new { workspaceId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets the access rules of a location, the rule for everyone else first and then by username.
+        /// </summary>
+        /// <param name="locationId">The unique identifier of the location.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of access rule database models.</returns>
+        public async Task<IEnumerable<LocationAccessRuleDbModel>> GetByLocationAsync(string locationId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT {RuleColumns}
+                    FROM location_access_rules
+                    LEFT JOIN auth_user ON auth_user.id = location_access_rules.user_id
+                    WHERE location_access_rules.location_id = @{nameof(locationId)}
+                    ORDER BY location_access_rules.user_id IS NOT NULL, auth_user.username";
+
+                IEnumerable<LocationAccessRuleDbModel> result = await dbSession.Connection.QueryAsync<LocationAccessRuleDbModel>(
+                    query,
+                    new { locationId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Replaces the access rules of a location in one transaction.
+        /// </summary>
+        /// <param name="locationId">The unique identifier of the location.</param>
+        /// <param name="rules">The new access rules. The location ID of each rule is ignored.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A task that represents the asynchronous operation.</returns>
+        public async Task SetRulesAsync(string locationId, IEnumerable<LocationAccessRuleDbModel> rules, IDbSession? session = null)
+        {
+            List<LocationAccessRuleDbModel> rulesList = rules.ToList();
+
+            await UseSessionAsync(async (dbSession) =>
+            {
+                return await dbSession.UseTransactionAsync(async (transaction) =>
+                {
+                    string deleteQuery = $@"
+                        DELETE FROM location_access_rules
+                        WHERE location_id = @{nameof(locationId)}";
+
+                    await dbSession.Connection.ExecuteAsync(
+                        deleteQuery,
+                        new { locationId },
+                        transaction: transaction);
+
+                    foreach (LocationAccessRuleDbModel rule in rulesList)
+                    {
+                        Guid? userId = rule.UserId;
+                        string access = rule.Access;
+                        string insertQuery = $@"
+                            INSERT INTO location_access_rules (location_id, user_id, access)
+                            VALUES (@{nameof(locationId)}, @{nameof(userId)}, @{nameof(access)})";
+
+                        await dbSession.Connection.ExecuteAsync(
+                            insertQuery,
+                            new { locationId, userId, access },
+                            transaction: transaction);
+                    }
+
+                    return rulesList.Count;
+                });
+            }, session);
+        }
+    }
+}
@@ -0,0 +1,43 @@
+using Ordning.Server.Locations.Models;
+
+namespace Ordning.Server.Locations.Repositories
+{
+    /// <summary>
+    /// Database model representing an access rule of a location.
+    /// </summary>
+    public class LocationAccessRuleDbModel
+    {
+        /// <summary>
+        /// Gets or sets the unique identifier of the location the rule is on.
+        /// </summary>
+        public string LocationId { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the unique identifier of the user the rule is for, or null for everyone else.
+        /// </summary>
+        public Guid? UserId { get; set; }
+
+        /// <summary>
+        /// Gets or sets the username of the user the rule is for, or null for everyone else.
+        /// </summary>
+        public string? Username { get; set; }
+
+        /// <summary>
+        /// Gets or sets the access the rule gives.
+        /// </summary>
+        public string Access { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Converts the database model to a domain LocationAccessRule model.
+        /// </summary>
+        /// <returns>A LocationAccessRule domain model.</returns>
+        public LocationAccessRule ToDomainLocationAccessRule()
+        {
+            return new LocationAccessRule(
+                locationId: LocationId,
+                userId: UserId,
+                username: Username,
+                access: Access);
+        }
+    }
+}
@@ -1,3 +1,4 @@
+using System.Text.Json;
 using Ordning.Server.Locations.Models;
 
 namespace Ordning.Server.Locations.Repositories
@@ -27,6 +28,16 @@ namespace Ordning.Server.Locations.Repositories
         /// </summary>
         public string? ParentLocationId { get; set; }
 
+        /// <summary>
+        /// Gets or sets the identifiers of the photos of the location as a JSON array string.
+        /// </summary>
+        public string ImageIdsJson { get; set; } = "[]";
+
+        /// <summary>
+        /// Gets or sets the tags of the location as a JSON array string.
+        /// </summary>
+        public string TagsJson { get; set; } = "[]";
+
         /// <summary>
         /// Gets or sets the UTC timestamp when the location was created.
         /// </summary>
@@ -43,13 +54,41 @@ namespace Ordning.Server.Locations.Repositories
         /// <returns>A Location domain model.</returns>
         public Location ToDomainLocation()
         {
+            List<Guid> imageIds = new List<Guid>();
+            if (!string.IsNullOrWhiteSpace(ImageIdsJson))
+            {
+                try
+                {
+                    imageIds = JsonSerializer.Deserialize<List<Guid>>(ImageIdsJson) ?? new List<Guid>();
+                }
+                catch
+                {
+                    imageIds = new List<Guid>();
+                }
+            }
+
+            List<string> tags = new List<string>();
+            if (!string.IsNullOrWhiteSpace(TagsJson))
+            {
+                try
+                {
+                    tags = JsonSerializer.Deserialize<List<string>>(TagsJson) ?? new List<string>();
+                }
+                catch
+                {
+                    tags = new List<string>();
+                }
+            }
+
             return new Location(
                 id: Id,
                 name: Name,
                 description: Description,
                 parentLocationId: ParentLocationId,
                 createdAt: CreatedAt,
-                updatedAt: UpdatedAt);
+                updatedAt: UpdatedAt,
+                imageIds: imageIds,
+                tags: tags);
         }
     }
 }
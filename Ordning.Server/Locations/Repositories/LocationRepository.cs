@@ -4,6 +4,11 @@ using Dapper;
 using EasyReasy.Database;
 using Npgsql;
 using Ordning.Server.Database;
+using Ordning.Server.Images.Models;
+using Ordning.Server.Search.Models;
+using Ordning.Server.Search.Repositories;
+using Ordning.Server.Tags.Models;
+using Ordning.Server.Workspaces.Models;
 
 namespace Ordning.Server.Locations.Repositories
 {
@@ -12,6 +17,22 @@ namespace Ordning.Server.Locations.Repositories
     /// </summary>
     public class LocationRepository : RepositoryBase, ILocationRepository
     {
+        private const string SearchDocumentExpression = "to_tsvector('english', id || ' ' || name || ' ' || COALESCE(description, ''))";
+
+        private const string WeightedSearchDocumentExpression = @"
+                                    setweight(to_tsvector('english', id), 'A') ||
+                                    setweight(to_tsvector('english', name), 'A') ||
+                                    setweight(to_tsvector('english', COALESCE(description, '')), 'B')";
+
+        private const string RelevanceScoreExpression = $@"(
+                                -- Phrase match score (highest weight)
+                                COALESCE(ts_rank_cd({WeightedSearchDocumentExpression}, to_tsquery('english', @phraseQuery)), 0) * 3.0 +
+                                -- Both words match score
+                                COALESCE(ts_rank_cd({WeightedSearchDocumentExpression}, to_tsquery('english', @andQuery)), 0) * 2.0 +
+                                -- Either word match score
+                                COALESCE(ts_rank_cd({WeightedSearchDocumentExpression}, to_tsquery('english', @orQuery)), 0)
+                            )";
+
         /// <summary>
         /// Initializes a new instance of the <see cref="LocationRepository"/> class.
         /// </summary>
@@ -26,9 +47,10 @@ namespace Ordning.Server.Locations.Repositories
         /// Gets a location by its unique identifier.
         /// </summary>
         /// <param name="id">The unique identifier of the location.</param>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>The location database model if found; otherwise, null.</returns>
-        public async Task<LocationDbModel?> GetByIdAsync(string id, IDbSession? session = null)
+        public async Task<LocationDbModel?> GetByIdAsync(string id, Guid? workspaceId = null, IDbSession? session = null)
         {
             return await UseSessionAsync(async (dbSession) =>
             {
@@ -39,13 +61,15 @@ namespace Ordning.Server.Locations.Repositories
                         description,
                         parent_location_id AS ParentLocationId,
                         created_at AS CreatedAt,
-                        updated_at AS UpdatedAt
+                        updated_at AS UpdatedAt,
+                        {ImageIdsColumn("locations")},
+                        {TagsColumn("locations")}
                     FROM locations
-                    WHERE id = @{nameof(id)}";
+                    WHERE id = @{nameof(id)} AND {WorkspaceCondition("locations")}";
 
                 LocationDbModel? result = await dbSession.Connection.QuerySingleOrDefaultAsync<LocationDbModel>(
                     query,
-                    new { id },
+                    new { id, workspaceId },
                     transaction: dbSession.Transaction);
 
                 return result;
@@ -55,25 +79,30 @@ namespace Ordning.Server.Locations.Repositories
         /// <summary>
         /// Gets all locations in the database.
         /// </summary>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>A collection of all location database models.</returns>
-        public async Task<IEnumerable<LocationDbModel>> GetAllAsync(IDbSession? session = null)
+        public async Task<IEnumerable<LocationDbModel>> GetAllAsync(Guid? workspaceId = null, IDbSession? session = null)
         {
             return await UseSessionAsync(async (dbSession) =>
             {
-                string query = @"
+                string query = $@"
                     SELECT 
                         id,
                         name,
                         description,
                         parent_location_id AS ParentLocationId,
                         created_at AS CreatedAt,
-                        updated_at AS UpdatedAt
+                        updated_at AS UpdatedAt,
+                        {ImageIdsColumn("locations")},
+                        {TagsColumn("locations")}
                     FROM locations
+                    WHERE {WorkspaceCondition("locations")}
                     ORDER BY name";
 
                 IEnumerable<LocationDbModel> result = await dbSession.Connection.QueryAsync<LocationDbModel>(
                     query,
+                    new { workspaceId },
                     transaction: dbSession.Transaction);
 
                 return result;
@@ -84,9 +113,10 @@ namespace Ordning.Server.Locations.Repositories
         /// Gets all direct children of a parent location.
         /// </summary>
         /// <param name="parentId">The unique identifier of the parent location.</param>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>A collection of child location database models.</returns>
-        public async Task<IEnumerable<LocationDbModel>> GetChildrenAsync(string parentId, IDbSession? session = null)
+        public async Task<IEnumerable<LocationDbModel>> GetChildrenAsync(string parentId, Guid? workspaceId = null, IDbSession? session = null)
         {
             return await UseSessionAsync(async (dbSession) =>
             {
@@ -97,14 +127,112 @@ namespace Ordning.Server.Locations.Repositories
                         description,
                         parent_location_id AS ParentLocationId,
                         created_at AS CreatedAt,
-                        updated_at AS UpdatedAt
+                        updated_at AS UpdatedAt,
+                        {ImageIdsColumn("locations")},
+                        {TagsColumn("locations")}
                     FROM locations
-                    WHERE parent_location_id = @{nameof(parentId)}
+                    WHERE parent_location_id = @{nameof(parentId)} AND {WorkspaceCondition("locations")}
                     ORDER BY name";
 
                 IEnumerable<LocationDbModel> result = await dbSession.Connection.QueryAsync<LocationDbModel>(
                     query,
-                    new { parentId },
+                    new { parentId, workspaceId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets all locations that have a tag, ignoring case.
+        /// </summary>
+        /// <param name="tag">The name of the tag.</param>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of tagged location database models, ordered by name.</returns>
+        public async Task<IEnumerable<LocationDbModel>> GetByTagAsync(string tag, Guid? workspaceId = null, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT 
+                        id,
+                        name,
+                        description,
+                        parent_location_id AS ParentLocationId,
+                        created_at AS CreatedAt,
+                        updated_at AS UpdatedAt,
+                        {ImageIdsColumn("locations")},
+                        {TagsColumn("locations")}
+                    FROM locations
+                    WHERE EXISTS (
+                        SELECT 1 FROM tags
+                        WHERE tags.owner_type = '{TagOwnerTypes.Location}' AND tags.owner_id = locations.id AND LOWER(tags.name) = LOWER(@{nameof(tag)})
+                    )
+                    AND {WorkspaceCondition("locations")}
+                    ORDER BY name";
+
+                IEnumerable<LocationDbModel> result = await dbSession.Connection.QueryAsync<LocationDbModel>(
+                    query,
+                    new { tag, workspaceId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets a location together with all locations below it at any depth.
+        /// </summary>
+        /// <param name="id">The unique identifier of the location at the top of the subtree.</param>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of location database models ordered from the top of the subtree downwards. Returns empty collection if location not found.</returns>
+        public async Task<IEnumerable<LocationDbModel>> GetSubtreeAsync(string id, Guid? workspaceId = null, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    WITH RECURSIVE location_subtree AS (
+                        SELECT 
+                            id,
+                            name,
+                            description,
+                            parent_location_id,
+                            created_at,
+                            updated_at,
+                            0 AS depth
+                        FROM locations
+                        WHERE id = @{nameof(id)} AND {WorkspaceCondition("locations")}
+
+                        UNION ALL
+
+                        SELECT 
+                            l.id,
+                            l.name,
+                            l.description,
+                            l.parent_location_id,
+                            l.created_at,
+                            l.updated_at,
+                            ls.depth + 1 AS depth
+                        FROM locations l
+                        INNER JOIN location_subtree ls ON l.parent_location_id = ls.id
+                    )
+                    SELECT 
+                        id,
+                        name,
+                        description,
+                        parent_location_id AS ParentLocationId,
+                        created_at AS CreatedAt,
+                        updated_at AS UpdatedAt,
+                        {ImageIdsColumn("location_subtree")},
+                        {TagsColumn("location_subtree")}
+                    FROM location_subtree
+                    ORDER BY depth, name";
+
+                IEnumerable<LocationDbModel> result = await dbSession.Connection.QueryAsync<LocationDbModel>(
+                    query,
+                    new { id, workspaceId },
                     transaction: dbSession.Transaction);
 
                 return result;
@@ -142,28 +270,33 @@ namespace Ordning.Server.Locations.Repositories
         /// <param name="name">The name of the location.</param>
         /// <param name="description">The description of the location. Defaults to null.</param>
         /// <param name="parentLocationId">The parent location identifier. Defaults to null.</param>
+        /// <param name="workspaceId">The workspace the location belongs to. Defaults to null, which uses the default workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>The created location database model.</returns>
-        public async Task<LocationDbModel> CreateAsync(string id, string name, string? description = null, string? parentLocationId = null, IDbSession? session = null)
+        public async Task<LocationDbModel> CreateAsync(string id, string name, string? description = null, string? parentLocationId = null, Guid? workspaceId = null, IDbSession? session = null)
         {
+            Guid locationWorkspaceId = workspaceId ?? Workspace.DefaultId;
+
             try
             {
                 return await UseSessionAsync(async (dbSession) =>
                 {
                     string query = $@"
-                        INSERT INTO locations (id, name, description, parent_location_id)
-                        VALUES (@{nameof(id)}, @{nameof(name)}, @{nameof(description)}, @{nameof(parentLocationId)})
+                        INSERT INTO locations (id, name, description, parent_location_id, workspace_id)
+                        VALUES (@{nameof(id)}, @{nameof(name)}, @{nameof(description)}, @{nameof(parentLocationId)}, @{nameof(locationWorkspaceId)})
                         RETURNING 
                             id,
                             name,
                             description,
                             parent_location_id AS ParentLocationId,
                             created_at AS CreatedAt,
-                            updated_at AS UpdatedAt";
+                            updated_at AS UpdatedAt,
+                            {ImageIdsColumn("locations")},
+                            {TagsColumn("locations")}";
 
                     LocationDbModel result = await dbSession.Connection.QuerySingleAsync<LocationDbModel>(
                         query,
-                        new { id, name, description, parentLocationId },
+                        new { id, name, description, parentLocationId, locationWorkspaceId },
                         transaction: dbSession.Transaction);
 
                     return result;
@@ -228,9 +361,10 @@ namespace Ordning.Server.Locations.Repositories
         /// Deletes a location from the database.
         /// </summary>
         /// <param name="id">The unique identifier of the location to delete.</param>
+        /// <param name="workspaceId">Only delete the location if it is in this workspace. Defaults to null, which allows every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>True if the location was found and deleted; otherwise, false.</returns>
-        public async Task<bool> DeleteAsync(string id, IDbSession? session = null)
+        public async Task<bool> DeleteAsync(string id, Guid? workspaceId = null, IDbSession? session = null)
         {
             try
             {
@@ -238,11 +372,11 @@ namespace Ordning.Server.Locations.Repositories
                 {
                     string query = $@"
                         DELETE FROM locations
-                        WHERE id = @{nameof(id)}";
+                        WHERE id = @{nameof(id)} AND {WorkspaceCondition("locations")}";
 
                     int rowsAffected = await dbSession.Connection.ExecuteAsync(
                         query,
-                        new { id },
+                        new { id, workspaceId },
                         transaction: dbSession.Transaction);
 
                     return rowsAffected > 0;
@@ -265,24 +399,138 @@ namespace Ordning.Server.Locations.Repositories
             }
         }
 
+        /// <summary>
+        /// Moves the child locations and items of a location to another location and then deletes the location, all in one transaction.
+        /// </summary>
+        /// <param name="id">The unique identifier of the location to delete.</param>
+        /// <param name="targetLocationId">The unique identifier of the location that receives the child locations and items.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the location was found and deleted; otherwise, false.</returns>
+        public async Task<bool> MoveContentsAndDeleteAsync(string id, string targetLocationId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                return await dbSession.UseTransactionAsync(async (transaction) =>
+                {
+                    string moveItemsQuery = $@"
+                        UPDATE items
+                        SET location_id = @{nameof(targetLocationId)}, updated_at = NOW()
+                        WHERE location_id = @{nameof(id)}";
+
+                    await dbSession.Connection.ExecuteAsync(
+                        moveItemsQuery,
+                        new { id, targetLocationId },
+                        transaction: transaction);
+
+                    string moveChildrenQuery = $@"
+                        UPDATE locations
+                        SET parent_location_id = @{nameof(targetLocationId)}, updated_at = NOW()
+                        WHERE parent_location_id = @{nameof(id)}";
+
+                    await dbSession.Connection.ExecuteAsync(
+                        moveChildrenQuery,
+                        new { id, targetLocationId },
+                        transaction: transaction);
+
+                    string deleteQuery = $@"
+                        DELETE FROM locations
+                        WHERE id = @{nameof(id)}";
+
+                    int rowsAffected = await dbSession.Connection.ExecuteAsync(
+                        deleteQuery,
+                        new { id },
+                        transaction: transaction);
+
+                    return rowsAffected > 0;
+                });
+            }, session);
+        }
+
+        /// <summary>
+        /// Deletes a location together with all of its sublocations and the items in them, all in one transaction.
+        /// </summary>
+        /// <param name="id">The unique identifier of the location at the top of the subtree.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the location was found and deleted; otherwise, false.</returns>
+        public async Task<bool> DeleteSubtreeAsync(string id, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                return await dbSession.UseTransactionAsync(async (transaction) =>
+                {
+                    string subtreeQuery = $@"
+                        WITH RECURSIVE location_subtree AS (
+                            SELECT id, 0 AS depth
+                            FROM locations
+                            WHERE id = @{nameof(id)}
+
+                            UNION ALL
+
+                            SELECT l.id, ls.depth + 1 AS depth
+                            FROM locations l
+                            INNER JOIN location_subtree ls ON l.parent_location_id = ls.id
+                        )
+                        SELECT id AS Id, depth AS Depth
+                        FROM location_subtree";
+
+                    List<(string Id, int Depth)> subtree = (await dbSession.Connection.QueryAsync<(string Id, int Depth)>(
+                        subtreeQuery,
+                        new { id },
+                        transaction: transaction)).ToList();
+
+                    if (subtree.Count == 0)
+                    {
+                        return false;
+                    }
+
+                    string[] locationIds = subtree.Select(l => l.Id).ToArray();
+                    string deleteItemsQuery = $@"
+                        DELETE FROM items
+                        WHERE location_id = ANY(@{nameof(locationIds)})";
+
+                    await dbSession.Connection.ExecuteAsync(
+                        deleteItemsQuery,
+                        new { locationIds },
+                        transaction: transaction);
+
+                    // Parents are protected by ON DELETE RESTRICT, so the deepest locations have to go first
+                    foreach (IGrouping<int, (string Id, int Depth)> level in subtree.GroupBy(l => l.Depth).OrderByDescending(g => g.Key))
+                    {
+                        string[] levelIds = level.Select(l => l.Id).ToArray();
+                        string deleteLocationsQuery = $@"
+                            DELETE FROM locations
+                            WHERE id = ANY(@{nameof(levelIds)})";
+
+                        await dbSession.Connection.ExecuteAsync(
+                            deleteLocationsQuery,
+                            new { levelIds },
+                            transaction: transaction);
+                    }
+
+                    return true;
+                });
+            }, session);
+        }
+
         /// <summary>
         /// Checks if a location exists in the database.
         /// </summary>
         /// <param name="id">The unique identifier of the location.</param>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>True if the location exists; otherwise, false.</returns>
-        public async Task<bool> ExistsAsync(string id, IDbSession? session = null)
+        public async Task<bool> ExistsAsync(string id, Guid? workspaceId = null, IDbSession? session = null)
         {
             return await UseSessionAsync(async (dbSession) =>
             {
                 string query = $@"
                     SELECT COUNT(*)
                     FROM locations
-                    WHERE id = @{nameof(id)}";
+                    WHERE id = @{nameof(id)} AND {WorkspaceCondition("locations")}";
 
                 int count = await dbSession.Connection.QuerySingleAsync<int>(
                     query,
-                    new { id },
+                    new { id, workspaceId },
                     transaction: dbSession.Transaction);
 
                 return count > 0;
@@ -295,39 +543,70 @@ namespace Ordning.Server.Locations.Repositories
         /// <param name="searchTerm">The search term to match against location IDs, names, and descriptions.</param>
         /// <param name="offset">The number of results to skip for pagination.</param>
         /// <param name="limit">The maximum number of results to return.</param>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="hiddenLocationIds">These locations are left out. Defaults to null for none.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A tuple containing the matching locations and the total count of matches.</returns>
+        public async Task<(IEnumerable<LocationDbModel> Results, int TotalCount)> SearchAsync(string searchTerm, int offset, int limit, Guid? workspaceId = null, IEnumerable<string>? hiddenLocationIds = null, IDbSession? session = null)
+        {
+            return await SearchAsync(
+                query: SearchQuery.FromText(searchTerm),
+                offset: offset,
+                limit: limit,
+                workspaceId: workspaceId,
+                hiddenLocationIds: hiddenLocationIds,
+                session: session);
+        }
+
+        /// <summary>
+        /// Searches locations with a parsed search query. Results are ranked by relevance to the query text,
+        /// or ordered by name if the query has no text. Filters other than "in:", "created:" and "updated:" are ignored.
+        /// </summary>
+        /// <param name="query">The search query to match against location IDs, names, descriptions, parent locations and dates.</param>
+        /// <param name="offset">The number of results to skip for pagination.</param>
+        /// <param name="limit">The maximum number of results to return.</param>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
+        /// <param name="hiddenLocationIds">These locations are left out. Defaults to null for none.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>A tuple containing the matching locations and the total count of matches.</returns>
-        public async Task<(IEnumerable<LocationDbModel> Results, int TotalCount)> SearchAsync(string searchTerm, int offset, int limit, IDbSession? session = null)
+        public async Task<(IEnumerable<LocationDbModel> Results, int TotalCount)> SearchAsync(SearchQuery query, int offset, int limit, Guid? workspaceId = null, IEnumerable<string>? hiddenLocationIds = null, IDbSession? session = null)
         {
             return await UseSessionAsync(async (dbSession) =>
             {
-                // Sanitize and prepare search terms
-                string sanitizedTerm = SanitizeSearchTerm(searchTerm);
-                string[] words = sanitizedTerm.Split(new[] { ' ' }, StringSplitOptions.RemoveEmptyEntries);
-
-                // Create prefix queries by appending :* to each word for prefix matching
-                string[] prefixWords = words.Select(w => w + ":*").ToArray();
-                string phraseQuery = string.Join(" & ", prefixWords);
-                string andQuery = string.Join(" & ", prefixWords);
-                string orQuery = string.Join(" | ", prefixWords);
-
-                // If single word, use same query for all
-                if (words.Length == 1)
+                DynamicParameters parameters = new DynamicParameters();
+                List<string> conditions = new List<string>();
+                bool hasTextSearch = AddSearchQueryConditions(query, conditions, parameters);
+                if (workspaceId != null)
+                {
+                    conditions.Add($"workspace_id = @{nameof(workspaceId)}");
+                    parameters.Add(nameof(workspaceId), workspaceId);
+                }
+
+                string[] hiddenLocationIdsArray = hiddenLocationIds?.ToArray() ?? Array.Empty<string>();
+                if (hiddenLocationIdsArray.Length > 0)
                 {
-                    phraseQuery = prefixWords[0];
-                    andQuery = prefixWords[0];
-                    orQuery = prefixWords[0];
+                    conditions.Add($"NOT (id = ANY(@{nameof(hiddenLocationIdsArray)}))");
+                    parameters.Add(nameof(hiddenLocationIdsArray), hiddenLocationIdsArray);
                 }
 
+                string whereClause = SearchQuerySql.BuildWhereClause(conditions);
+                string relevanceScore = hasTextSearch ? RelevanceScoreExpression : "0";
+                string orderBy = hasTextSearch ? "relevance_score DESC, name ASC" : "name ASC";
+
+                parameters.Add(nameof(limit), limit);
+                parameters.Add(nameof(offset), offset);
+
                 // Build the search query with relevance ranking
-                string searchQuery = @"
+                string searchQuery = $@"
                     SELECT 
                         id,
                         name,
                         description,
                         parent_location_id AS ParentLocationId,
                         created_at AS CreatedAt,
-                        updated_at AS UpdatedAt
+                        updated_at AS UpdatedAt,
+                        {ImageIdsColumn("ranked_locations")},
+                        {TagsColumn("ranked_locations")}
                     FROM (
                         SELECT 
                             id,
@@ -336,61 +615,27 @@ namespace Ordning.Server.Locations.Repositories
                             parent_location_id,
                             created_at,
                             updated_at,
-                            (
-                                -- Phrase match score (highest weight)
-                                COALESCE(ts_rank_cd(
-                                    setweight(to_tsvector('english', id), 'A') ||
-                                    setweight(to_tsvector('english', name), 'A') ||
-                                    setweight(to_tsvector('english', COALESCE(description, '')), 'B'),
-                                    to_tsquery('english', @phraseQuery)
-                                ), 0) * 3.0 +
-                                -- Both words match score
-                                COALESCE(ts_rank_cd(
-                                    setweight(to_tsvector('english', id), 'A') ||
-                                    setweight(to_tsvector('english', name), 'A') ||
-                                    setweight(to_tsvector('english', COALESCE(description, '')), 'B'),
-                                    to_tsquery('english', @andQuery)
-                                ), 0) * 2.0 +
-                                -- Either word match score
-                                COALESCE(ts_rank_cd(
-                                    setweight(to_tsvector('english', id), 'A') ||
-                                    setweight(to_tsvector('english', name), 'A') ||
-                                    setweight(to_tsvector('english', COALESCE(description, '')), 'B'),
-                                    to_tsquery('english', @orQuery)
-                                ), 0)
-                            ) AS relevance_score
+                            {relevanceScore} AS relevance_score
                         FROM locations
-                        WHERE 
-                            to_tsvector('english', id || ' ' || name || ' ' || COALESCE(description, '')) 
-                            @@ to_tsquery('english', @phraseQuery)
-                            OR to_tsvector('english', id || ' ' || name || ' ' || COALESCE(description, '')) 
-                            @@ to_tsquery('english', @andQuery)
-                            OR to_tsvector('english', id || ' ' || name || ' ' || COALESCE(description, '')) 
-                            @@ to_tsquery('english', @orQuery)
+                        {whereClause}
                     ) AS ranked_locations
-                    ORDER BY relevance_score DESC, name ASC
-                    LIMIT @limit OFFSET @offset";
+                    ORDER BY {orderBy}
+                    LIMIT @{nameof(limit)} OFFSET @{nameof(offset)}";
 
                 IEnumerable<LocationDbModel> results = await dbSession.Connection.QueryAsync<LocationDbModel>(
                     searchQuery,
-                    new { phraseQuery, andQuery, orQuery, limit, offset },
+                    parameters,
                     transaction: dbSession.Transaction);
 
                 // Get total count
-                string countQuery = @"
+                string countQuery = $@"
                     SELECT COUNT(*)
                     FROM locations
-                    WHERE 
-                        to_tsvector('english', id || ' ' || name || ' ' || COALESCE(description, '')) 
-                        @@ to_tsquery('english', @phraseQuery)
-                        OR to_tsvector('english', id || ' ' || name || ' ' || COALESCE(description, '')) 
-                        @@ to_tsquery('english', @andQuery)
-                        OR to_tsvector('english', id || ' ' || name || ' ' || COALESCE(description, '')) 
-                        @@ to_tsquery('english', @orQuery)";
+                    {whereClause}";
 
                 int totalCount = await dbSession.Connection.QuerySingleAsync<int>(
                     countQuery,
-                    new { phraseQuery, andQuery, orQuery },
+                    parameters,
                     transaction: dbSession.Transaction);
 
                 return (results, totalCount);
@@ -401,9 +646,10 @@ namespace Ordning.Server.Locations.Repositories
         /// Gets the full path from root to the specified location.
         /// </summary>
         /// <param name="id">The unique identifier of the location.</param>
+        /// <param name="workspaceId">Only include locations in this workspace. Defaults to null, which includes every workspace.</param>
         /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
         /// <returns>A collection of location database models representing the path from root to the location, ordered from root to the target location. Returns empty collection if location not found.</returns>
-        public async Task<IEnumerable<LocationDbModel>> GetFullPathAsync(string id, IDbSession? session = null)
+        public async Task<IEnumerable<LocationDbModel>> GetFullPathAsync(string id, Guid? workspaceId = null, IDbSession? session = null)
         {
             return await UseSessionAsync(async (dbSession) =>
             {
@@ -419,7 +665,7 @@ namespace Ordning.Server.Locations.Repositories
                             updated_at AS UpdatedAt,
                             0 AS depth
                         FROM locations
-                        WHERE id = @{nameof(id)}
+                        WHERE id = @{nameof(id)} AND {WorkspaceCondition("locations")}
                         
                         UNION ALL
                         
@@ -441,19 +687,126 @@ namespace Ordning.Server.Locations.Repositories
                         description,
                         ParentLocationId,
                         CreatedAt,
-                        UpdatedAt
+                        UpdatedAt,
+                        {ImageIdsColumn("location_path")},
+                        {TagsColumn("location_path")}
                     FROM location_path
                     ORDER BY depth DESC";
 
                 IEnumerable<LocationDbModel> result = await dbSession.Connection.QueryAsync<LocationDbModel>(
                     query,
-                    new { id },
+                    new { id, workspaceId },
                     transaction: dbSession.Transaction);
 
                 return result;
             }, session);
         }
 
+        /// <summary>
+        /// Gets the condition that limits locations to the workspace in the workspaceId parameter, or to no workspace in
+        /// particular if the parameter is null.
+        /// </summary>
+        /// <param name="locationAlias">The table or subquery alias the location rows are selected from.</param>
+        /// <returns>The condition expression.</returns>
+        private static string WorkspaceCondition(string locationAlias)
+        {
+            return $"(@workspaceId::uuid IS NULL OR {locationAlias}.workspace_id = @workspaceId)";
+        }
+
+        /// <summary>
+        /// Gets the column expression for the identifiers of the photos of a location, as a JSON array.
+        /// </summary>
+        /// <param name="locationAlias">The table or subquery alias the location rows are selected from.</param>
+        /// <returns>The column expression aliased as ImageIdsJson.</returns>
+        private static string ImageIdsColumn(string locationAlias)
+        {
+            return $@"(
+                            SELECT COALESCE(json_agg(images.id ORDER BY images.sort_order, images.created_at), '[]')::text
+                            FROM images
+                            WHERE images.owner_type = '{ImageOwnerTypes.Location}' AND images.owner_id = {locationAlias}.id
+                                AND images.workspace_id = (SELECT image_owners.workspace_id FROM locations image_owners WHERE image_owners.id = {locationAlias}.id)
+                        ) AS ImageIdsJson";
+        }
+
+        /// <summary>
+        /// Gets the column expression for the tags of a location, as a JSON array ordered by name.
+        /// </summary>
+        /// <param name="locationAlias">The table or subquery alias the location rows are selected from.</param>
+        /// <returns>The column expression aliased as TagsJson.</returns>
+        private static string TagsColumn(string locationAlias)
+        {
+            return $@"(
+                            SELECT COALESCE(json_agg(tags.name ORDER BY LOWER(tags.name)), '[]')::text
+                            FROM tags
+                            WHERE tags.owner_type = '{TagOwnerTypes.Location}' AND tags.owner_id = {locationAlias}.id
+                        ) AS TagsJson";
+        }
+
+        /// <summary>
+        /// Adds the conditions and query parameters for a parsed search query. Phrases are also part of the relevance ranking,
+        /// and "in:" matches the descendants of a location but not the location itself.
+        /// </summary>
+        /// <param name="query">The search query.</param>
+        /// <param name="conditions">The conditions to add to.</param>
+        /// <param name="parameters">The query parameters to add to.</param>
+        /// <returns>True if the query has text to rank by; otherwise, false.</returns>
+        private static bool AddSearchQueryConditions(SearchQuery query, List<string> conditions, DynamicParameters parameters)
+        {
+            string rankedText = string.Join(" ", query.Phrases.Prepend(query.Text));
+            bool hasTextSearch = AddTextSearchCondition(rankedText, conditions, parameters);
+            SearchQuerySql.AddPhraseConditions(query, SearchDocumentExpression, conditions, parameters);
+
+            for (int index = 0; index < query.Filters.Count; index++)
+            {
+                SearchQueryFilter filter = query.Filters[index];
+                string parameterName = $"queryFilter{index}";
+                if (filter.HasKey(SearchQuery.LocationFilterKey))
+                {
+                    SearchQuerySql.AddLocationFilterCondition(filter, "id", includeRoot: false, parameterName, conditions, parameters);
+                }
+                else if (SearchQuery.IsDateFilterKey(filter.Key))
+                {
+                    SearchQuerySql.AddDateFilterCondition(filter, parameterName, conditions, parameters);
+                }
+            }
+
+            return hasTextSearch;
+        }
+
+        /// <summary>
+        /// Adds the full-text match condition and its query parameters for a search term.
+        /// </summary>
+        /// <param name="searchTerm">The search term to match.</param>
+        /// <param name="conditions">The conditions to add to.</param>
+        /// <param name="parameters">The query parameters to add to.</param>
+        /// <returns>True if the search term contained any words and a condition was added; otherwise, false.</returns>
+        private static bool AddTextSearchCondition(string searchTerm, List<string> conditions, DynamicParameters parameters)
+        {
+            // Sanitize and prepare search terms
+            string sanitizedTerm = SanitizeSearchTerm(searchTerm);
+            string[] words = sanitizedTerm.Split(new[] { ' ' }, StringSplitOptions.RemoveEmptyEntries);
+            if (words.Length == 0)
+            {
+                return false;
+            }
+
+            // Create prefix queries by appending :* to each word for prefix matching
+            string[] prefixWords = words.Select(w => w + ":*").ToArray();
+            string phraseQuery = string.Join(" & ", prefixWords);
+            string andQuery = string.Join(" & ", prefixWords);
+            string orQuery = string.Join(" | ", prefixWords);
+
+            parameters.Add(nameof(phraseQuery), phraseQuery);
+            parameters.Add(nameof(andQuery), andQuery);
+            parameters.Add(nameof(orQuery), orQuery);
+
+            conditions.Add($@"{SearchDocumentExpression} @@ to_tsquery('english', @{nameof(phraseQuery)})
+                            OR {SearchDocumentExpression} @@ to_tsquery('english', @{nameof(andQuery)})
+                            OR {SearchDocumentExpression} @@ to_tsquery('english', @{nameof(orQuery)})");
+
+            return true;
+        }
+
         /// <summary>
         /// Sanitizes a search term for use in PostgreSQL full-text search queries.
         /// Escapes special characters that have meaning in tsquery.
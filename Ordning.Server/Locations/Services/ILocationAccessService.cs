@@ -0,0 +1,52 @@
+using Ordning.Server.Locations.Models;
+
+namespace Ordning.Server.Locations.Services
+{
+    /// <summary>
+    /// Service interface for the access rules of locations, and for checking what the current user may do in a location.
+    /// A rule on a location also applies to everything below it, until a rule further down says otherwise. Workspace admins
+    /// are not limited by rules.
+    /// </summary>
+    public interface ILocationAccessService
+    {
+        /// <summary>
+        /// Gets the locations in the current workspace that the current user may not see. The result is cached for the rest of the request.
+        /// </summary>
+        /// <returns>The unique identifiers of the hidden locations.</returns>
+        Task<IReadOnlySet<string>> GetHiddenLocationIdsAsync();
+
+        /// <summary>
+        /// Gets the locations in a workspace that a rule hides from everyone who has no rule of their own, such as the visitors
+        /// of a share link. Does not need a signed in user.
+        /// </summary>
+        /// <param name="workspaceId">The unique identifier of the workspace.</param>
+        /// <returns>The unique identifiers of the locations hidden from everyone else.</returns>
+        Task<IReadOnlySet<string>> GetLocationIdsHiddenFromEveryoneAsync(Guid workspaceId);
+
+        /// <summary>
+        /// Checks that the current user may change the given locations and the items in them.
+        /// </summary>
+        /// <param name="locationIds">The unique identifiers of the locations.</param>
+        /// <returns>A task that represents the asynchronous operation.</returns>
+        /// <exception cref="UnauthorizedAccessException">Thrown when a location is hidden from or read-only for the current user.</exception>
+        Task EnsureCanWriteAsync(IEnumerable<string> locationIds);
+
+        /// <summary>
+        /// Gets the access rules of a location in the current workspace. Needs the admin role in the workspace.
+        /// </summary>
+        /// <param name="locationId">The unique identifier of the location.</param>
+        /// <returns>The rules if the location was found; otherwise, null.</returns>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user is not an admin of the workspace.</exception>
+        Task<IEnumerable<LocationAccessRule>?> GetRulesAsync(string locationId);
+
+        /// <summary>
+        /// Replaces the access rules of a location in the current workspace. Needs the admin role in the workspace.
+        /// </summary>
+        /// <param name="locationId">The unique identifier of the location.</param>
+        /// <param name="rules">The new rules, each for a member of the workspace or, with a null user, for everyone else.</param>
+        /// <returns>The saved rules if the location was found; otherwise, null.</returns>
+        /// <exception cref="ArgumentException">Thrown when an access level is unknown, when a user is not a member of the workspace or has more than one rule.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user is not an admin of the workspace.</exception>
+        Task<IEnumerable<LocationAccessRule>?> SetRulesAsync(string locationId, IEnumerable<(Guid? UserId, string Access)> rules);
+    }
+}
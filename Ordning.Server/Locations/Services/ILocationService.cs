@@ -1,4 +1,5 @@
 using Ordning.Server.Locations.Models;
+using Ordning.Server.Search.Models;
 
 namespace Ordning.Server.Locations.Services
 {
@@ -34,10 +35,12 @@ namespace Ordning.Server.Locations.Services
         /// <param name="name">The name of the location.</param>
         /// <param name="description">The description of the location. Defaults to null.</param>
         /// <param name="parentLocationId">The parent location identifier. Defaults to null.</param>
+        /// <param name="tags">The tags of the location. Defaults to null for none.</param>
         /// <returns>The created location.</returns>
-        /// <exception cref="ArgumentException">Thrown when the location ID already exists or when a circular reference would be created.</exception>
+        /// <exception cref="ArgumentException">Thrown when the location ID already exists, when a circular reference would be created or when a tag is invalid.</exception>
         /// <exception cref="InvalidOperationException">Thrown when the parent location does not exist.</exception>
-        Task<Location> CreateLocationAsync(string id, string name, string? description = null, string? parentLocationId = null);
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the parent location.</exception>
+        Task<Location> CreateLocationAsync(string id, string name, string? description = null, string? parentLocationId = null, IEnumerable<string>? tags = null);
 
         /// <summary>
         /// Updates an existing location in the system.
@@ -46,31 +49,61 @@ namespace Ordning.Server.Locations.Services
         /// <param name="name">The new name of the location.</param>
         /// <param name="description">The new description of the location. Defaults to null.</param>
         /// <param name="parentLocationId">The new parent location identifier. Defaults to null.</param>
+        /// <param name="tags">The new tags of the location. Defaults to null, which keeps the current tags.</param>
         /// <returns>The updated location.</returns>
-        /// <exception cref="ArgumentException">Thrown when the location does not exist or when a circular reference would be created.</exception>
+        /// <exception cref="ArgumentException">Thrown when the location does not exist, when a circular reference would be created or when a tag is invalid.</exception>
         /// <exception cref="InvalidOperationException">Thrown when the parent location does not exist.</exception>
-        Task<Location> UpdateLocationAsync(string id, string name, string? description = null, string? parentLocationId = null);
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location or the new parent location.</exception>
+        Task<Location> UpdateLocationAsync(string id, string name, string? description = null, string? parentLocationId = null, IEnumerable<string>? tags = null);
+
+        /// <summary>
+        /// Gets which child locations and items would be affected by deleting a location.
+        /// </summary>
+        /// <param name="id">The unique identifier of the location.</param>
+        /// <returns>The delete impact if the location was found; otherwise, null.</returns>
+        Task<LocationDeleteImpact?> GetDeleteImpactAsync(string id);
 
         /// <summary>
         /// Deletes a location from the system.
+        /// With <see cref="LocationDeleteModes.Restrict"/> only an empty location can be deleted. With <see cref="LocationDeleteModes.Move"/>
+        /// the child locations and items are moved to the target location first, and with <see cref="LocationDeleteModes.Cascade"/>
+        /// all sublocations and the items in them are deleted too. Either way the deletion happens in one transaction.
         /// </summary>
         /// <param name="id">The unique identifier of the location to delete.</param>
+        /// <param name="mode">How child locations and items are handled. Defaults to <see cref="LocationDeleteModes.Restrict"/>.</param>
+        /// <param name="targetLocationId">The location that receives the child locations and items when moving them. Defaults to null.</param>
         /// <returns>True if the location was found and deleted; otherwise, false.</returns>
-        Task<bool> DeleteLocationAsync(string id);
+        /// <exception cref="ArgumentException">Thrown when the mode is unknown or the target location is missing or inside the deleted location.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when the target location does not exist or cannot hold the items.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change a location in the subtree or the target location.</exception>
+        Task<bool> DeleteLocationAsync(string id, string mode = LocationDeleteModes.Restrict, string? targetLocationId = null);
+
+        /// <summary>
+        /// Re-creates deleted locations with their original identifiers, names and parents. Parents are restored before their children.
+        /// </summary>
+        /// <param name="locationIds">The unique identifiers of the deleted locations.</param>
+        /// <returns>The restored locations, parents before their children.</returns>
+        /// <exception cref="ArgumentException">Thrown when no location IDs are provided or when no deletion was recorded for a location.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when a location exists again or when its parent no longer exists.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the parent of a restored location.</exception>
+        Task<IEnumerable<Location>> RestoreLocationsAsync(IEnumerable<string> locationIds);
 
         /// <summary>
         /// Searches locations using full-text search with relevance ranking.
+        /// The search term may use the query syntax described by <see cref="SearchQuery.Parse(string?)"/>,
+        /// limited to the "in:", "created:" and "updated:" filters.
         /// If the search term is empty or whitespace, returns all locations with pagination.
         /// </summary>
         /// <param name="searchTerm">The search term to match against location IDs, names, and descriptions.</param>
         /// <param name="offset">The number of results to skip for pagination.</param>
         /// <param name="limit">The maximum number of results to return.</param>
         /// <returns>A tuple containing the matching locations and the total count of matches.</returns>
-        /// <exception cref="ArgumentException">Thrown when pagination parameters are invalid.</exception>
+        /// <exception cref="ArgumentException">Thrown when pagination parameters or the search query are invalid.</exception>
         Task<(IEnumerable<Location> Results, int TotalCount)> SearchLocationsAsync(string searchTerm, int offset, int limit);
 
         /// <summary>
         /// Gets all locations organized in a hierarchical tree structure.
+        /// A visible location below a hidden one is shown as a root location.
         /// </summary>
         /// <returns>A collection of root location tree nodes (locations without a parent).</returns>
         Task<IEnumerable<LocationTreeNode>> GetLocationTreeAsync();
@@ -79,7 +112,8 @@ namespace Ordning.Server.Locations.Services
         /// Gets the full path from root to the specified location.
         /// </summary>
         /// <param name="id">The unique identifier of the location.</param>
-        /// <returns>A collection of locations representing the path from root to the location, ordered from root to the target location. Returns empty collection if location not found.</returns>
+        /// <returns>A collection of locations representing the path from root to the location, ordered from root to the target location.
+        /// Hidden locations are left out of the path. Returns empty collection if location not found or hidden.</returns>
         Task<IEnumerable<Location>> GetFullPathAsync(string id);
     }
 }
@@ -0,0 +1,232 @@
+using Ordning.Server.Locations.Models;
+using Ordning.Server.Locations.Repositories;
+using Ordning.Server.Workspaces.Models;
+using Ordning.Server.Workspaces.Repositories;
+using Ordning.Server.Workspaces.Services;
+
+namespace Ordning.Server.Locations.Services
+{
+    /// <summary>
+    /// Implementation of <see cref="ILocationAccessService"/> that works out the access of the current user from the rules
+    /// of the current workspace. Registered per request, so the rules are only read once per request.
+    /// </summary>
+    public class LocationAccessService : ILocationAccessService
+    {
+        private readonly ILocationAccessRepository _locationAccessRepository;
+        private readonly ILocationRepository _locationRepository;
+        private readonly IWorkspaceRepository _workspaceRepository;
+        private readonly IWorkspaceService _workspaceService;
+
+        private Dictionary<string, string>? _limitedAccessByLocationId;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="LocationAccessService"/> class.
+        /// </summary>
+        /// <param name="locationAccessRepository">The location access repository for database access.</param>
+        /// <param name="locationRepository">The location repository for finding the parents of locations.</param>
+        /// <param name="workspaceRepository">The workspace repository for checking that rules are for members of the workspace.</param>
+        /// <param name="workspaceService">The workspace service used to find the user and workspace of the current request.</param>
+        public LocationAccessService(ILocationAccessRepository locationAccessRepository, ILocationRepository locationRepository, IWorkspaceRepository workspaceRepository, IWorkspaceService workspaceService)
+        {
+            _locationAccessRepository = locationAccessRepository;
+            _locationRepository = locationRepository;
+            _workspaceRepository = workspaceRepository;
+            _workspaceService = workspaceService;
+        }
+
+        /// <summary>
+        /// Gets the locations in the current workspace that the current user may not see. The result is cached for the rest of the request.
+        /// </summary>
+        /// <returns>The unique identifiers of the hidden locations.</returns>
+        public async Task<IReadOnlySet<string>> GetHiddenLocationIdsAsync()
+        {
+            Dictionary<string, string> limitedAccess = await GetLimitedAccessAsync();
+            return limitedAccess.Where(a => a.Value == LocationAccessLevels.None).Select(a => a.Key).ToHashSet();
+        }
+
+        /// <summary>
+        /// Gets the locations in a workspace that a rule hides from everyone who has no rule of their own, such as the visitors
+        /// of a share link. Does not need a signed in user.
+        /// </summary>
+        /// <param name="workspaceId">The unique identifier of the workspace.</param>
+        /// <returns>The unique identifiers of the locations hidden from everyone else.</returns>
+        public async Task<IReadOnlySet<string>> GetLocationIdsHiddenFromEveryoneAsync(Guid workspaceId)
+        {
+            Dictionary<string, string> ruleAccessByLocationId = (await _locationAccessRepository.GetByWorkspaceAsync(workspaceId))
+                .Where(r => r.UserId == null)
+                .GroupBy(r => r.LocationId)
+                .ToDictionary(g => g.Key, g => g.First().Access);
+
+            if (ruleAccessByLocationId.Count == 0)
+            {
+                return new HashSet<string>();
+            }
+
+            Dictionary<string, string?> parentIdById = (await _locationRepository.GetAllAsync(workspaceId: workspaceId))
+                .ToDictionary(l => l.Id, l => l.ParentLocationId);
+
+            return parentIdById.Keys
+                .Where(id => FindClosestRuleAccess(id, ruleAccessByLocationId, parentIdById) == LocationAccessLevels.None)
+                .ToHashSet();
+        }
+
+        /// <summary>
+        /// Checks that the current user may change the given locations and the items in them.
+        /// </summary>
+        /// <param name="locationIds">The unique identifiers of the locations.</param>
+        /// <returns>A task that represents the asynchronous operation.</returns>
+        /// <exception cref="UnauthorizedAccessException">Thrown when a location is hidden from or read-only for the current user.</exception>
+        public async Task EnsureCanWriteAsync(IEnumerable<string> locationIds)
+        {
+            Dictionary<string, string> limitedAccess = await GetLimitedAccessAsync();
+            foreach (string locationId in locationIds.Distinct())
+            {
+                if (limitedAccess.TryGetValue(locationId, out string? access))
+                {
+                    throw new UnauthorizedAccessException(access == LocationAccessLevels.Read
+                        ? $"You can only view location '{locationId}' and what is in it."
+                        : $"You do not have access to location '{locationId}'.");
+                }
+            }
+        }
+
+        /// <summary>
+        /// Gets the access rules of a location in the current workspace. Needs the admin role in the workspace.
+        /// </summary>
+        /// <param name="locationId">The unique identifier of the location.</param>
+        /// <returns>The rules if the location was found; otherwise, null.</returns>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user is not an admin of the workspace.</exception>
+        public async Task<IEnumerable<LocationAccessRule>?> GetRulesAsync(string locationId)
+        {
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Admin);
+            if (!await _locationRepository.ExistsAsync(locationId, workspaceId: workspaceId))
+            {
+                return null;
+            }
+
+            IEnumerable<LocationAccessRuleDbModel> rules = await _locationAccessRepository.GetByLocationAsync(locationId);
+            return rules.Select(r => r.ToDomainLocationAccessRule());
+        }
+
+        /// <summary>
+        /// Replaces the access rules of a location in the current workspace. Needs the admin role in the workspace.
+        /// </summary>
+        /// <param name="locationId">The unique identifier of the location.</param>
+        /// <param name="rules">The new rules, each for a member of the workspace or, with a null user, for everyone else.</param>
+        /// <returns>The saved rules if the location was found; otherwise, null.</returns>
+        /// <exception cref="ArgumentException">Thrown when an access level is unknown, when a user is not a member of the workspace or has more than one rule.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user is not an admin of the workspace.</exception>
+        public async Task<IEnumerable<LocationAccessRule>?> SetRulesAsync(string locationId, IEnumerable<(Guid? UserId, string Access)> rules)
+        {
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Admin);
+            if (!await _locationRepository.ExistsAsync(locationId, workspaceId: workspaceId))
+            {
+                return null;
+            }
+
+            HashSet<Guid> memberIds = (await _workspaceRepository.GetMembersAsync(workspaceId)).Select(m => m.UserId).ToHashSet();
+            List<LocationAccessRuleDbModel> normalizedRules = new List<LocationAccessRuleDbModel>();
+            foreach ((Guid? userId, string access) in rules)
+            {
+                string normalizedAccess = (access ?? string.Empty).Trim().ToLowerInvariant();
+                if (!LocationAccessLevels.IsValid(normalizedAccess))
+                {
+                    throw new ArgumentException($"Access must be one of: {string.Join(", ", LocationAccessLevels.All)}.", nameof(rules));
+                }
+
+                if (userId != null && !memberIds.Contains(userId.Value))
+                {
+                    throw new ArgumentException($"User '{userId}' is not a member of this workspace.", nameof(rules));
+                }
+
+                if (normalizedRules.Any(r => r.UserId == userId))
+                {
+                    throw new ArgumentException(userId == null ? "Only one rule can be for everyone else." : $"User '{userId}' has more than one rule.", nameof(rules));
+                }
+
+                normalizedRules.Add(new LocationAccessRuleDbModel
+                {
+                    LocationId = locationId,
+                    UserId = userId,
+                    Access = normalizedAccess,
+                });
+            }
+
+            await _locationAccessRepository.SetRulesAsync(locationId, normalizedRules);
+            _limitedAccessByLocationId = null;
+
+            IEnumerable<LocationAccessRuleDbModel> savedRules = await _locationAccessRepository.GetByLocationAsync(locationId);
+            return savedRules.Select(r => r.ToDomainLocationAccessRule());
+        }
+
+        /// <summary>
+        /// Gets the locations in the current workspace where the current user has less than full access, with the access they have.
+        /// Locations that are not included can be used as the user's workspace role allows.
+        /// </summary>
+        /// <returns>The limited access of the current user by location identifier.</returns>
+        private async Task<Dictionary<string, string>> GetLimitedAccessAsync()
+        {
+            if (_limitedAccessByLocationId != null)
+            {
+                return _limitedAccessByLocationId;
+            }
+
+            Dictionary<string, string> limitedAccess = new Dictionary<string, string>();
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            string role = await _workspaceService.GetCurrentWorkspaceRoleAsync();
+            List<LocationAccessRuleDbModel> rules = role == WorkspaceRoles.Admin
+                ? new List<LocationAccessRuleDbModel>()
+                : (await _locationAccessRepository.GetByWorkspaceAsync(workspaceId)).ToList();
+
+            if (rules.Count > 0)
+            {
+                Guid userId = _workspaceService.GetCurrentUserId();
+
+                // On one location the user's own rule wins over the rule for everyone else
+                Dictionary<string, string> ruleAccessByLocationId = rules
+                    .Where(r => r.UserId == null || r.UserId == userId)
+                    .GroupBy(r => r.LocationId)
+                    .ToDictionary(g => g.Key, g => g.OrderBy(r => r.UserId == null).First().Access);
+
+                Dictionary<string, string?> parentIdById = (await _locationRepository.GetAllAsync(workspaceId: workspaceId))
+                    .ToDictionary(l => l.Id, l => l.ParentLocationId);
+
+                foreach (string locationId in parentIdById.Keys)
+                {
+                    string? access = FindClosestRuleAccess(locationId, ruleAccessByLocationId, parentIdById);
+                    if (access != null && access != LocationAccessLevels.Write)
+                    {
+                        limitedAccess[locationId] = access;
+                    }
+                }
+            }
+
+            _limitedAccessByLocationId = limitedAccess;
+            return limitedAccess;
+        }
+
+        /// <summary>
+        /// Finds the access of the closest rule on a location or one of its ancestors.
+        /// </summary>
+        /// <param name="locationId">The unique identifier of the location.</param>
+        /// <param name="ruleAccessByLocationId">The access of the rule that applies to the current user, by the location it is on.</param>
+        /// <param name="parentIdById">The parent of every location in the workspace.</param>
+        /// <returns>The access of the closest rule, or null if no rule applies.</returns>
+        private static string? FindClosestRuleAccess(string locationId, Dictionary<string, string> ruleAccessByLocationId, Dictionary<string, string?> parentIdById)
+        {
+            HashSet<string> visited = new HashSet<string>();
+            string? currentId = locationId;
+            while (currentId != null && visited.Add(currentId))
+            {
+                if (ruleAccessByLocationId.TryGetValue(currentId, out string? access))
+                {
+                    return access;
+                }
+
+                currentId = parentIdById.GetValueOrDefault(currentId);
+            }
+
+            return null;
+        }
+    }
+}
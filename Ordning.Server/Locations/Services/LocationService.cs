@@ -1,5 +1,14 @@
+using Ordning.Server.Audit.Models;
+using Ordning.Server.Audit.Services;
+using Ordning.Server.Images.Services;
+using Ordning.Server.Items.Repositories;
 using Ordning.Server.Locations.Models;
 using Ordning.Server.Locations.Repositories;
+using Ordning.Server.Search.Models;
+using Ordning.Server.Tags.Models;
+using Ordning.Server.Tags.Services;
+using Ordning.Server.Workspaces.Models;
+using Ordning.Server.Workspaces.Services;
 using System.Collections.Generic;
 using System.Linq;
 
@@ -7,18 +16,37 @@ namespace Ordning.Server.Locations.Services
 {
     /// <summary>
     /// Implementation of <see cref="ILocationService"/> that provides location business logic operations.
+    /// Every operation works in the workspace of the current request, and locations hidden by access rules are left out.
     /// </summary>
     public class LocationService : ILocationService
     {
         private readonly ILocationRepository _locationRepository;
+        private readonly IItemRepository _itemRepository;
+        private readonly IAuditService _auditService;
+        private readonly ITagService _tagService;
+        private readonly IWorkspaceService _workspaceService;
+        private readonly ILocationAccessService _locationAccessService;
+        private readonly ILocationAccessRepository _locationAccessRepository;
 
         /// <summary>
         /// Initializes a new instance of the <see cref="LocationService"/> class.
         /// </summary>
         /// <param name="locationRepository">The location repository for database access.</param>
-        public LocationService(ILocationRepository locationRepository)
+        /// <param name="itemRepository">The item repository for the items affected when a location is deleted.</param>
+        /// <param name="auditService">The audit service for recording changes.</param>
+        /// <param name="tagService">The tag service for checking and saving the tags of locations.</param>
+        /// <param name="workspaceService">The workspace service used to find the workspace of the current request.</param>
+        /// <param name="locationAccessService">The location access service for checking what the current user may see and change.</param>
+        /// <param name="locationAccessRepository">The location access repository for clearing the rules a deleted location left behind.</param>
+        public LocationService(ILocationRepository locationRepository, IItemRepository itemRepository, IAuditService auditService, ITagService tagService, IWorkspaceService workspaceService, ILocationAccessService locationAccessService, ILocationAccessRepository locationAccessRepository)
         {
             _locationRepository = locationRepository;
+            _itemRepository = itemRepository;
+            _auditService = auditService;
+            _tagService = tagService;
+            _workspaceService = workspaceService;
+            _locationAccessService = locationAccessService;
+            _locationAccessRepository = locationAccessRepository;
         }
 
         /// <summary>
@@ -28,8 +56,9 @@ namespace Ordning.Server.Locations.Services
         /// <returns>The location if found; otherwise, null.</returns>
         public async Task<Location?> GetLocationByIdAsync(string id)
         {
-            LocationDbModel? locationDbModel = await _locationRepository.GetByIdAsync(id);
-            if (locationDbModel == null)
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            LocationDbModel? locationDbModel = await _locationRepository.GetByIdAsync(id, workspaceId: workspaceId);
+            if (locationDbModel == null || (await _locationAccessService.GetHiddenLocationIdsAsync()).Contains(id))
             {
                 return null;
             }
@@ -43,8 +72,10 @@ namespace Ordning.Server.Locations.Services
         /// <returns>A collection of all locations.</returns>
         public async Task<IEnumerable<Location>> GetAllLocationsAsync()
         {
-            IEnumerable<LocationDbModel> locationDbModels = await _locationRepository.GetAllAsync();
-            return locationDbModels.Select(l => l.ToDomainLocation());
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            IEnumerable<LocationDbModel> locationDbModels = await _locationRepository.GetAllAsync(workspaceId: workspaceId);
+            IReadOnlySet<string> hiddenLocationIds = await _locationAccessService.GetHiddenLocationIdsAsync();
+            return locationDbModels.Where(l => !hiddenLocationIds.Contains(l.Id)).Select(l => l.ToDomainLocation());
         }
 
         /// <summary>
@@ -54,8 +85,10 @@ namespace Ordning.Server.Locations.Services
         /// <returns>A collection of child locations.</returns>
         public async Task<IEnumerable<Location>> GetChildrenAsync(string parentId)
         {
-            IEnumerable<LocationDbModel> locationDbModels = await _locationRepository.GetChildrenAsync(parentId);
-            return locationDbModels.Select(l => l.ToDomainLocation());
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            IEnumerable<LocationDbModel> locationDbModels = await _locationRepository.GetChildrenAsync(parentId, workspaceId: workspaceId);
+            IReadOnlySet<string> hiddenLocationIds = await _locationAccessService.GetHiddenLocationIdsAsync();
+            return locationDbModels.Where(l => !hiddenLocationIds.Contains(l.Id)).Select(l => l.ToDomainLocation());
         }
 
         /// <summary>
@@ -65,11 +98,17 @@ namespace Ordning.Server.Locations.Services
         /// <param name="name">The name of the location.</param>
         /// <param name="description">The description of the location. Defaults to null.</param>
         /// <param name="parentLocationId">The parent location identifier. Defaults to null.</param>
+        /// <param name="tags">The tags of the location. Defaults to null for none.</param>
         /// <returns>The created location.</returns>
-        /// <exception cref="ArgumentException">Thrown when the location ID already exists or when a circular reference would be created.</exception>
+        /// <exception cref="ArgumentException">Thrown when the location ID already exists, when a circular reference would be created or when a tag is invalid.</exception>
         /// <exception cref="InvalidOperationException">Thrown when the parent location does not exist.</exception>
-        public async Task<Location> CreateLocationAsync(string id, string name, string? description = null, string? parentLocationId = null)
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the parent location.</exception>
+        public async Task<Location> CreateLocationAsync(string id, string name, string? description = null, string? parentLocationId = null, IEnumerable<string>? tags = null)
         {
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write);
+            IReadOnlyList<string> normalizedTags = await _tagService.NormalizeTagsAsync(tags ?? Enumerable.Empty<string>());
+
+            // Location IDs are printed on labels, so they stay unique across all workspaces
             bool exists = await _locationRepository.ExistsAsync(id);
             if (exists)
             {
@@ -78,12 +117,13 @@ namespace Ordning.Server.Locations.Services
 
             if (!string.IsNullOrWhiteSpace(parentLocationId))
             {
-                bool parentExists = await _locationRepository.ExistsAsync(parentLocationId);
+                bool parentExists = await _locationRepository.ExistsAsync(parentLocationId, workspaceId: workspaceId);
                 if (!parentExists)
                 {
                     throw new InvalidOperationException($"Parent location with ID '{parentLocationId}' does not exist.");
                 }
 
+                await _locationAccessService.EnsureCanWriteAsync(new[] { parentLocationId });
                 await ValidateNoCircularReferenceAsync(id, parentLocationId);
             }
 
@@ -91,9 +131,22 @@ namespace Ordning.Server.Locations.Services
                 id: id,
                 name: name,
                 description: description,
-                parentLocationId: parentLocationId);
+                parentLocationId: parentLocationId,
+                workspaceId: workspaceId);
+
+            // Tags are set even when there are none, so a reused ID doesn't get the tags of a deleted location back.
+            // The same goes for the access rules, which are kept when a location is deleted so that restoring it keeps them.
+            await _tagService.SetTagsAsync(TagOwnerTypes.Location, id, normalizedTags);
+            await _locationAccessRepository.SetRulesAsync(id, Enumerable.Empty<LocationAccessRuleDbModel>());
+            if (normalizedTags.Count > 0)
+            {
+                locationDbModel = await _locationRepository.GetByIdAsync(id, workspaceId: workspaceId) ?? locationDbModel;
+            }
 
-            return locationDbModel.ToDomainLocation();
+            Location location = locationDbModel.ToDomainLocation();
+            await _auditService.RecordAsync(AuditEntityTypes.Location, location.Id, AuditActions.Create, before: null, after: location);
+
+            return location;
         }
 
         /// <summary>
@@ -103,17 +156,23 @@ namespace Ordning.Server.Locations.Services
         /// <param name="name">The new name of the location.</param>
         /// <param name="description">The new description of the location. Defaults to null.</param>
         /// <param name="parentLocationId">The new parent location identifier. Defaults to null.</param>
+        /// <param name="tags">The new tags of the location. Defaults to null, which keeps the current tags.</param>
         /// <returns>The updated location.</returns>
-        /// <exception cref="ArgumentException">Thrown when the location does not exist or when a circular reference would be created.</exception>
+        /// <exception cref="ArgumentException">Thrown when the location does not exist, when a circular reference would be created or when a tag is invalid.</exception>
         /// <exception cref="InvalidOperationException">Thrown when the parent location does not exist.</exception>
-        public async Task<Location> UpdateLocationAsync(string id, string name, string? description = null, string? parentLocationId = null)
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the location or the new parent location.</exception>
+        public async Task<Location> UpdateLocationAsync(string id, string name, string? description = null, string? parentLocationId = null, IEnumerable<string>? tags = null)
         {
-            LocationDbModel? existingLocation = await _locationRepository.GetByIdAsync(id);
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write);
+            LocationDbModel? existingLocation = await _locationRepository.GetByIdAsync(id, workspaceId: workspaceId);
             if (existingLocation == null)
             {
                 throw new ArgumentException($"Location with ID '{id}' does not exist.", nameof(id));
             }
 
+            await _locationAccessService.EnsureCanWriteAsync(new[] { id });
+            IReadOnlyList<string>? normalizedTags = tags != null ? await _tagService.NormalizeTagsAsync(tags) : null;
+
             if (!string.IsNullOrWhiteSpace(parentLocationId))
             {
                 if (parentLocationId == id)
@@ -121,12 +180,17 @@ namespace Ordning.Server.Locations.Services
                     throw new ArgumentException("A location cannot be its own parent.", nameof(parentLocationId));
                 }
 
-                bool parentExists = await _locationRepository.ExistsAsync(parentLocationId);
+                bool parentExists = await _locationRepository.ExistsAsync(parentLocationId, workspaceId: workspaceId);
                 if (!parentExists)
                 {
                     throw new InvalidOperationException($"Parent location with ID '{parentLocationId}' does not exist.");
                 }
 
+                if (parentLocationId != existingLocation.ParentLocationId)
+                {
+                    await _locationAccessService.EnsureCanWriteAsync(new[] { parentLocationId });
+                }
+
                 await ValidateNoCircularReferenceAsync(id, parentLocationId);
             }
 
@@ -141,23 +205,260 @@ namespace Ordning.Server.Locations.Services
                 throw new ArgumentException($"Failed to update location with ID '{id}'.", nameof(id));
             }
 
-            LocationDbModel? updatedLocation = await _locationRepository.GetByIdAsync(id);
+            if (normalizedTags != null)
+            {
+                await _tagService.SetTagsAsync(TagOwnerTypes.Location, id, normalizedTags);
+            }
+
+            LocationDbModel? updatedLocation = await _locationRepository.GetByIdAsync(id, workspaceId: workspaceId);
             if (updatedLocation == null)
             {
                 throw new InvalidOperationException($"Location with ID '{id}' was updated but could not be retrieved.");
             }
 
-            return updatedLocation.ToDomainLocation();
+            // A changed parent is recorded as a move so that the history can show where the location went
+            string action = updatedLocation.ParentLocationId != existingLocation.ParentLocationId ? AuditActions.Move : AuditActions.Update;
+            Location location = updatedLocation.ToDomainLocation();
+            await _auditService.RecordAsync(AuditEntityTypes.Location, id, action, before: existingLocation.ToDomainLocation(), after: location);
+
+            return location;
+        }
+
+        /// <summary>
+        /// Gets which child locations and items would be affected by deleting a location.
+        /// </summary>
+        /// <param name="id">The unique identifier of the location.</param>
+        /// <returns>The delete impact if the location was found; otherwise, null.</returns>
+        public async Task<LocationDeleteImpact?> GetDeleteImpactAsync(string id)
+        {
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            List<LocationDbModel> subtree = (await _locationRepository.GetSubtreeAsync(id, workspaceId: workspaceId)).ToList();
+            if (subtree.Count == 0 || (await _locationAccessService.GetHiddenLocationIdsAsync()).Contains(id))
+            {
+                return null;
+            }
+
+            List<ItemDbModel> items = (await _itemRepository.GetByLocationIdsAsync(subtree.Select(l => l.Id))).ToList();
+
+            return new LocationDeleteImpact(
+                locationId: id,
+                childLocationIds: subtree.Where(l => l.ParentLocationId == id).Select(l => l.Id).ToList(),
+                descendantLocationIds: subtree.Where(l => l.Id != id).Select(l => l.Id).ToList(),
+                itemIds: items.Where(i => i.LocationId == id).Select(i => i.Id).ToList(),
+                subtreeItemIds: items.Select(i => i.Id).ToList());
         }
 
         /// <summary>
         /// Deletes a location from the system.
+        /// With <see cref="LocationDeleteModes.Restrict"/> only an empty location can be deleted. With <see cref="LocationDeleteModes.Move"/>
+        /// the child locations and items are moved to the target location first, and with <see cref="LocationDeleteModes.Cascade"/>
+        /// all sublocations and the items in them are deleted too. Either way the deletion happens in one transaction.
         /// </summary>
         /// <param name="id">The unique identifier of the location to delete.</param>
+        /// <param name="mode">How child locations and items are handled. Defaults to <see cref="LocationDeleteModes.Restrict"/>.</param>
+        /// <param name="targetLocationId">The location that receives the child locations and items when moving them. Defaults to null.</param>
         /// <returns>True if the location was found and deleted; otherwise, false.</returns>
-        public async Task<bool> DeleteLocationAsync(string id)
+        /// <exception cref="ArgumentException">Thrown when the mode is unknown or the target location is missing or inside the deleted location.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when the target location does not exist or cannot hold the items.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change a location in the subtree or the target location.</exception>
+        public async Task<bool> DeleteLocationAsync(string id, string mode = LocationDeleteModes.Restrict, string? targetLocationId = null)
         {
-            return await _locationRepository.DeleteAsync(id);
+            string normalizedMode = mode.Trim().ToLowerInvariant();
+            if (!LocationDeleteModes.IsValid(normalizedMode))
+            {
+                throw new ArgumentException($"Unknown delete mode '{mode}'. Use one of: {string.Join(", ", LocationDeleteModes.All)}.", nameof(mode));
+            }
+
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write);
+
+            if (normalizedMode == LocationDeleteModes.Restrict)
+            {
+                LocationDbModel? existingLocation = await _locationRepository.GetByIdAsync(id, workspaceId: workspaceId);
+                if (existingLocation != null)
+                {
+                    await _locationAccessService.EnsureCanWriteAsync(new[] { id });
+                }
+
+                bool deleted = await _locationRepository.DeleteAsync(id, workspaceId: workspaceId);
+
+                if (deleted && existingLocation != null)
+                {
+                    await _auditService.RecordAsync(AuditEntityTypes.Location, id, AuditActions.Delete, before: existingLocation.ToDomainLocation(), after: null);
+                }
+
+                return deleted;
+            }
+
+            List<LocationDbModel> subtree = (await _locationRepository.GetSubtreeAsync(id, workspaceId: workspaceId)).ToList();
+            if (subtree.Count == 0)
+            {
+                return false;
+            }
+
+            await _locationAccessService.EnsureCanWriteAsync(subtree.Select(l => l.Id));
+            List<ItemDbModel> items = (await _itemRepository.GetByLocationIdsAsync(subtree.Select(l => l.Id))).ToList();
+
+            if (normalizedMode == LocationDeleteModes.Move)
+            {
+                return await MoveContentsAndDeleteLocationAsync(subtree, items, targetLocationId, workspaceId);
+            }
+
+            bool subtreeDeleted = await _locationRepository.DeleteSubtreeAsync(id);
+            if (subtreeDeleted)
+            {
+                foreach (ItemDbModel item in items)
+                {
+                    await _auditService.RecordAsync(AuditEntityTypes.Item, item.Id.ToString(), AuditActions.Delete, before: item.ToDomainItem(), after: null);
+                }
+
+                // Deepest first, so that the activity feed reads the same way as the deletion happened
+                foreach (LocationDbModel location in Enumerable.Reverse(subtree))
+                {
+                    await _auditService.RecordAsync(AuditEntityTypes.Location, location.Id, AuditActions.Delete, before: location.ToDomainLocation(), after: null);
+                }
+            }
+
+            return subtreeDeleted;
+        }
+
+        /// <summary>
+        /// Re-creates deleted locations with their original identifiers, names and parents, as recorded in the audit log when they were deleted.
+        /// Parents are restored before their children, so a deleted subtree can be restored in one call. Tags, images and access rules
+        /// are kept when a location is deleted, so a restored location gets them back. Images are only kept for
+        /// <see cref="ImageService.DeletedOwnerRetention"/>.
+        /// </summary>
+        /// <param name="locationIds">The unique identifiers of the deleted locations.</param>
+        /// <returns>The restored locations, parents before their children.</returns>
+        /// <exception cref="ArgumentException">Thrown when no location IDs are provided or when no deletion was recorded for a location.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when a location exists again or when its parent no longer exists.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not change the parent of a restored location.</exception>
+        public async Task<IEnumerable<Location>> RestoreLocationsAsync(IEnumerable<string> locationIds)
+        {
+            string[] locationIdsArray = locationIds.Distinct().ToArray();
+            if (locationIdsArray.Length == 0)
+            {
+                throw new ArgumentException("At least one location ID must be provided.", nameof(locationIds));
+            }
+
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Write);
+            List<Location> snapshots = new List<Location>();
+            foreach (string locationId in locationIdsArray)
+            {
+                bool exists = await _locationRepository.ExistsAsync(locationId);
+                if (exists)
+                {
+                    throw new InvalidOperationException($"Location with ID '{locationId}' already exists.");
+                }
+
+                Location? snapshot = await _auditService.GetDeletedSnapshotAsync<Location>(AuditEntityTypes.Location, locationId);
+                if (snapshot == null)
+                {
+                    throw new ArgumentException($"No deleted location with ID '{locationId}' was found.", nameof(locationIds));
+                }
+
+                snapshots.Add(snapshot);
+            }
+
+            HashSet<string> pendingIds = snapshots.Select(l => l.Id).ToHashSet();
+            List<Location> restoredLocations = new List<Location>();
+            while (pendingIds.Count > 0)
+            {
+                Location next = snapshots.First(l => pendingIds.Contains(l.Id) && (l.ParentLocationId == null || !pendingIds.Contains(l.ParentLocationId)));
+
+                if (next.ParentLocationId != null && restoredLocations.All(l => l.Id != next.ParentLocationId))
+                {
+                    bool parentExists = await _locationRepository.ExistsAsync(next.ParentLocationId, workspaceId: workspaceId);
+                    if (!parentExists)
+                    {
+                        throw new InvalidOperationException($"Location '{next.Id}' cannot be restored because its parent location '{next.ParentLocationId}' no longer exists.");
+                    }
+
+                    await _locationAccessService.EnsureCanWriteAsync(new[] { next.ParentLocationId });
+                }
+
+                LocationDbModel locationDbModel = await _locationRepository.CreateAsync(
+                    id: next.Id,
+                    name: next.Name,
+                    description: next.Description,
+                    parentLocationId: next.ParentLocationId,
+                    workspaceId: workspaceId);
+
+                Location location = locationDbModel.ToDomainLocation();
+                await _auditService.RecordAsync(AuditEntityTypes.Location, location.Id, AuditActions.Create, before: null, after: location);
+                restoredLocations.Add(location);
+                pendingIds.Remove(next.Id);
+            }
+
+            return restoredLocations;
+        }
+
+        /// <summary>
+        /// Moves the child locations and direct items of a location to a target location and deletes the location.
+        /// </summary>
+        /// <param name="subtree">The location to delete followed by all locations below it.</param>
+        /// <param name="items">The items in the subtree.</param>
+        /// <param name="targetLocationId">The location that receives the child locations and items.</param>
+        /// <param name="workspaceId">The workspace the target location must be in.</param>
+        /// <returns>True if the location was deleted; otherwise, false.</returns>
+        /// <exception cref="ArgumentException">Thrown when the target location is missing or inside the deleted location.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when the target location does not exist or cannot hold the items.</exception>
+        private async Task<bool> MoveContentsAndDeleteLocationAsync(List<LocationDbModel> subtree, List<ItemDbModel> items, string? targetLocationId, Guid workspaceId)
+        {
+            LocationDbModel location = subtree[0];
+
+            if (string.IsNullOrWhiteSpace(targetLocationId))
+            {
+                throw new ArgumentException("A target location is required when moving the contents of a location.", nameof(targetLocationId));
+            }
+
+            if (subtree.Any(l => l.Id == targetLocationId))
+            {
+                throw new ArgumentException("The contents cannot be moved to the location being deleted or one of its sublocations.", nameof(targetLocationId));
+            }
+
+            bool targetExists = await _locationRepository.ExistsAsync(targetLocationId, workspaceId: workspaceId);
+            if (!targetExists)
+            {
+                throw new InvalidOperationException($"Target location with ID '{targetLocationId}' does not exist.");
+            }
+
+            await _locationAccessService.EnsureCanWriteAsync(new[] { targetLocationId });
+
+            List<LocationDbModel> children = subtree.Where(l => l.ParentLocationId == location.Id).ToList();
+            List<ItemDbModel> directItems = items.Where(i => i.LocationId == location.Id).ToList();
+            if (directItems.Count > 0 && (children.Count > 0 || await _locationRepository.HasChildrenAsync(targetLocationId)))
+            {
+                throw new InvalidOperationException("Items cannot be moved to the selected location because it has or would get child locations. Please select a more specific location.");
+            }
+
+            bool deleted = await _locationRepository.MoveContentsAndDeleteAsync(location.Id, targetLocationId);
+            if (!deleted)
+            {
+                return false;
+            }
+
+            IEnumerable<ItemDbModel> movedItems = await _itemRepository.GetByIdsAsync(directItems.Select(i => i.Id));
+            Dictionary<Guid, ItemDbModel> movedItemsById = movedItems.ToDictionary(i => i.Id);
+            foreach (ItemDbModel item in directItems)
+            {
+                if (movedItemsById.TryGetValue(item.Id, out ItemDbModel? movedItem))
+                {
+                    await _auditService.RecordAsync(AuditEntityTypes.Item, item.Id.ToString(), AuditActions.Move, before: item.ToDomainItem(), after: movedItem.ToDomainItem());
+                }
+            }
+
+            foreach (LocationDbModel child in children)
+            {
+                LocationDbModel? movedChild = await _locationRepository.GetByIdAsync(child.Id);
+                if (movedChild != null)
+                {
+                    await _auditService.RecordAsync(AuditEntityTypes.Location, child.Id, AuditActions.Move, before: child.ToDomainLocation(), after: movedChild.ToDomainLocation());
+                }
+            }
+
+            await _auditService.RecordAsync(AuditEntityTypes.Location, location.Id, AuditActions.Delete, before: location.ToDomainLocation(), after: null);
+
+            return true;
         }
 
         /// <summary>
@@ -197,13 +498,15 @@ namespace Ordning.Server.Locations.Services
 
         /// <summary>
         /// Searches locations using full-text search with relevance ranking.
+        /// The search term may use the query syntax described by <see cref="SearchQuery.Parse(string?)"/>,
+        /// limited to the "in:", "created:" and "updated:" filters.
         /// If the search term is empty or whitespace, returns all locations with pagination.
         /// </summary>
         /// <param name="searchTerm">The search term to match against location IDs, names, and descriptions.</param>
         /// <param name="offset">The number of results to skip for pagination.</param>
         /// <param name="limit">The maximum number of results to return.</param>
         /// <returns>A tuple containing the matching locations and the total count of matches.</returns>
-        /// <exception cref="ArgumentException">Thrown when pagination parameters are invalid.</exception>
+        /// <exception cref="ArgumentException">Thrown when pagination parameters or the search query are invalid.</exception>
         public async Task<(IEnumerable<Location> Results, int TotalCount)> SearchLocationsAsync(string searchTerm, int offset, int limit)
         {
             if (offset < 0)
@@ -221,11 +524,26 @@ namespace Ordning.Server.Locations.Services
                 throw new ArgumentException("Limit cannot exceed 100.", nameof(limit));
             }
 
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            SearchQuery query = SearchQuery.Parse(searchTerm);
+            SearchQueryFilter? unsupportedFilter = query.Filters.FirstOrDefault(f => !SearchQuery.IsReservedFilterKey(f.Key));
+            if (unsupportedFilter != null)
+            {
+                throw new ArgumentException($"Locations cannot be filtered by '{unsupportedFilter.Key}:'. Use '{SearchQuery.LocationFilterKey}:', '{SearchQuery.CreatedFilterKey}:' or '{SearchQuery.UpdatedFilterKey}:'.", nameof(searchTerm));
+            }
+
+            IReadOnlySet<string> hiddenLocationIds = await _locationAccessService.GetHiddenLocationIdsAsync();
+            if (!query.IsPlainText)
+            {
+                (IEnumerable<LocationDbModel> queryResults, int queryCount) = await _locationRepository.SearchAsync(query, offset, limit, workspaceId: workspaceId, hiddenLocationIds: hiddenLocationIds);
+                return (queryResults.Select(l => l.ToDomainLocation()), queryCount);
+            }
+
             // If search term is empty or whitespace, return all locations with pagination
             if (string.IsNullOrWhiteSpace(searchTerm))
             {
-                IEnumerable<LocationDbModel> allLocations = await _locationRepository.GetAllAsync();
-                List<LocationDbModel> allLocationsList = allLocations.ToList();
+                IEnumerable<LocationDbModel> allLocations = await _locationRepository.GetAllAsync(workspaceId: workspaceId);
+                List<LocationDbModel> allLocationsList = allLocations.Where(l => !hiddenLocationIds.Contains(l.Id)).ToList();
                 int allLocationsCount = allLocationsList.Count;
                 IEnumerable<LocationDbModel> paginatedLocations = allLocationsList.Skip(offset).Take(limit);
                 IEnumerable<Location> allLocationsResult = paginatedLocations.Select(l => l.ToDomainLocation());
@@ -233,7 +551,7 @@ namespace Ordning.Server.Locations.Services
                 return (allLocationsResult, allLocationsCount);
             }
 
-            (IEnumerable<LocationDbModel> results, int totalCount) = await _locationRepository.SearchAsync(searchTerm, offset, limit);
+            (IEnumerable<LocationDbModel> results, int totalCount) = await _locationRepository.SearchAsync(searchTerm, offset, limit, workspaceId: workspaceId, hiddenLocationIds: hiddenLocationIds);
             IEnumerable<Location> locations = results.Select(l => l.ToDomainLocation());
 
             return (locations, totalCount);
@@ -241,12 +559,15 @@ namespace Ordning.Server.Locations.Services
 
         /// <summary>
         /// Gets all locations organized in a hierarchical tree structure.
+        /// A visible location below a hidden one is shown as a root location.
         /// </summary>
         /// <returns>A collection of root location tree nodes (locations without a parent).</returns>
         public async Task<IEnumerable<LocationTreeNode>> GetLocationTreeAsync()
         {
-            IEnumerable<LocationDbModel> allLocationDbModels = await _locationRepository.GetAllAsync();
-            IEnumerable<Location> allLocations = allLocationDbModels.Select(l => l.ToDomainLocation()).ToList();
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            IEnumerable<LocationDbModel> allLocationDbModels = await _locationRepository.GetAllAsync(workspaceId: workspaceId);
+            IReadOnlySet<string> hiddenLocationIds = await _locationAccessService.GetHiddenLocationIdsAsync();
+            IEnumerable<Location> allLocations = allLocationDbModels.Where(l => !hiddenLocationIds.Contains(l.Id)).Select(l => l.ToDomainLocation()).ToList();
 
             Dictionary<string, LocationTreeNode> nodeMap = new Dictionary<string, LocationTreeNode>();
             List<LocationTreeNode> rootNodes = new List<LocationTreeNode>();
@@ -265,7 +586,7 @@ namespace Ordning.Server.Locations.Services
             {
                 LocationTreeNode node = nodeMap[location.Id];
 
-                if (string.IsNullOrWhiteSpace(location.ParentLocationId))
+                if (string.IsNullOrWhiteSpace(location.ParentLocationId) || hiddenLocationIds.Contains(location.ParentLocationId))
                 {
                     rootNodes.Add(node);
                 }
@@ -290,11 +611,19 @@ namespace Ordning.Server.Locations.Services
         /// Gets the full path from root to the specified location.
         /// </summary>
         /// <param name="id">The unique identifier of the location.</param>
-        /// <returns>A collection of locations representing the path from root to the location, ordered from root to the target location. Returns empty collection if location not found.</returns>
+        /// <returns>A collection of locations representing the path from root to the location, ordered from root to the target location.
+        /// Hidden locations are left out of the path. Returns empty collection if location not found or hidden.</returns>
         public async Task<IEnumerable<Location>> GetFullPathAsync(string id)
         {
-            IEnumerable<LocationDbModel> locationDbModels = await _locationRepository.GetFullPathAsync(id);
-            return locationDbModels.Select(l => l.ToDomainLocation());
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            IReadOnlySet<string> hiddenLocationIds = await _locationAccessService.GetHiddenLocationIdsAsync();
+            if (hiddenLocationIds.Contains(id))
+            {
+                return Enumerable.Empty<Location>();
+            }
+
+            IEnumerable<LocationDbModel> locationDbModels = await _locationRepository.GetFullPathAsync(id, workspaceId: workspaceId);
+            return locationDbModels.Where(l => !hiddenLocationIds.Contains(l.Id)).Select(l => l.ToDomainLocation());
         }
 
         /// <summary>
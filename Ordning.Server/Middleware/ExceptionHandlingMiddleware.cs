@@ -70,6 +70,12 @@ namespace Ordning.Server.Middleware
                     _logger.LogWarning(exception, "Invalid operation: {Message}", opEx.Message);
                     break;
 
+                case UnauthorizedAccessException accessEx:
+                    statusCode = HttpStatusCode.Forbidden;
+                    message = accessEx.Message;
+                    _logger.LogWarning(exception, "Access denied: {Message}", accessEx.Message);
+                    break;
+
                 default:
                     statusCode = HttpStatusCode.InternalServerError;
                     message = "An error occurred while processing your request.";
@@ -0,0 +1,15 @@
+-- Images belong to an item or a location. There is no foreign key to the owner, so images outlive
+-- a deleted item and come back when the item is restored.
+CREATE TABLE IF NOT EXISTS images (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    owner_type VARCHAR(32) NOT NULL,
+    owner_id VARCHAR(255) NOT NULL,
+    content_type VARCHAR(64) NOT NULL,
+    width INT NOT NULL,
+    height INT NOT NULL,
+    size_bytes BIGINT NOT NULL,
+    sort_order INT NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_images_owner ON images(owner_type, owner_id, sort_order);
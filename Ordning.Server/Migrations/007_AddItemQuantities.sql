@@ -0,0 +1,14 @@
+-- Items without a quantity are single things. A minimum quantity only makes sense together with a quantity,
+-- and items below their minimum are listed as low on stock.
+ALTER TABLE items ADD COLUMN IF NOT EXISTS quantity NUMERIC(12, 3);
+ALTER TABLE items ADD COLUMN IF NOT EXISTS unit VARCHAR(32);
+ALTER TABLE items ADD COLUMN IF NOT EXISTS min_quantity NUMERIC(12, 3);
+
+ALTER TABLE items DROP CONSTRAINT IF EXISTS chk_items_quantity;
+ALTER TABLE items ADD CONSTRAINT chk_items_quantity CHECK (
+    (quantity IS NULL OR quantity >= 0)
+    AND (min_quantity IS NULL OR (min_quantity >= 0 AND quantity IS NOT NULL))
+    AND (unit IS NULL OR quantity IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_items_low_stock ON items(name) WHERE quantity < min_quantity;
@@ -0,0 +1,36 @@
+-- Property definitions give an item property key a type, a display name and an optional unit.
+-- Items can still have properties without a definition; those stay free-form text.
+CREATE TABLE IF NOT EXISTS property_definitions (
+    key VARCHAR(100) PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    type VARCHAR(16) NOT NULL,
+    unit VARCHAR(32),
+    is_required BOOLEAN NOT NULL DEFAULT FALSE,
+    options JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_property_definitions_key_lower ON property_definitions(LOWER(key));
+
+-- Property values are stored as text. These read them as numbers and dates for sorting and range filters,
+-- giving NULL instead of an error for values written before the property had a type.
+CREATE OR REPLACE FUNCTION property_value_as_numeric(value TEXT) RETURNS NUMERIC AS $$
+BEGIN
+    RETURN value::numeric;
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION property_value_as_date(value TEXT) RETURNS DATE AS $$
+BEGIN
+    IF value !~ '^\d{4}-\d{2}-\d{2}$' THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN value::date;
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
@@ -0,0 +1,22 @@
+-- Templates prefill new items with a description and a list of properties. The properties are a JSON array
+-- rather than an object so that they keep the order they were defined in.
+CREATE TABLE IF NOT EXISTS item_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL,
+    description VARCHAR(1000),
+    properties JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_item_templates_name_lower ON item_templates(LOWER(name));
+
+-- Items remember the template they were created from, which makes the template usable as a category.
+-- Deleting a template keeps its items.
+ALTER TABLE items ADD COLUMN IF NOT EXISTS template_id UUID;
+
+ALTER TABLE items DROP CONSTRAINT IF EXISTS fk_items_template;
+ALTER TABLE items ADD CONSTRAINT fk_items_template FOREIGN KEY (template_id)
+    REFERENCES item_templates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_items_template_id ON items(template_id);
@@ -0,0 +1,11 @@
+-- Tags belong to an item or a location, and the same tag name can be on any number of both.
+-- Like images there is no foreign key to the owner, so tags come back when the owner is restored.
+CREATE TABLE IF NOT EXISTS tags (
+    owner_type VARCHAR(32) NOT NULL,
+    owner_id VARCHAR(255) NOT NULL,
+    name VARCHAR(50) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_owner_name ON tags(owner_type, owner_id, LOWER(name));
+CREATE INDEX IF NOT EXISTS idx_tags_name_lower ON tags(LOWER(name));
@@ -0,0 +1,56 @@
+-- Workspaces keep the inventories of households or groups that share one server apart. Members have a role
+-- per workspace. Locations belong to a workspace and items belong to the workspace of their location.
+-- Location IDs stay unique across all workspaces, since they are printed on labels.
+CREATE TABLE IF NOT EXISTS workspaces (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+    workspace_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+    role VARCHAR(32) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (workspace_id, user_id),
+    CONSTRAINT fk_workspace_members_workspace FOREIGN KEY (workspace_id)
+        REFERENCES workspaces(id) ON DELETE CASCADE,
+    CONSTRAINT fk_workspace_members_user FOREIGN KEY (user_id)
+        REFERENCES auth_user(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+
+-- Everything from before workspaces goes into a default workspace, and every existing user keeps the access
+-- they had through their global roles
+INSERT INTO workspaces (id, name)
+VALUES ('00000000-0000-0000-0000-000000000001', 'Home')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO workspace_members (workspace_id, user_id, role)
+SELECT
+    '00000000-0000-0000-0000-000000000001',
+    id,
+    CASE
+        WHEN roles ? 'admin' THEN 'admin'
+        WHEN roles ? 'write' THEN 'write'
+        ELSE 'read'
+    END
+FROM auth_user
+ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+ALTER TABLE locations ADD COLUMN IF NOT EXISTS workspace_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE locations ALTER COLUMN workspace_id DROP DEFAULT;
+
+ALTER TABLE locations DROP CONSTRAINT IF EXISTS fk_locations_workspace;
+ALTER TABLE locations ADD CONSTRAINT fk_locations_workspace FOREIGN KEY (workspace_id)
+    REFERENCES workspaces(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_locations_workspace_id ON locations(workspace_id);
+
+-- The activity feed only shows changes made in the current workspace
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS workspace_id UUID;
+UPDATE audit_log SET workspace_id = '00000000-0000-0000-0000-000000000001' WHERE workspace_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_workspace_id ON audit_log(workspace_id, created_at DESC);
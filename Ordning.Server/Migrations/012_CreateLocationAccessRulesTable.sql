@@ -0,0 +1,16 @@
+-- Access rules limit what members of a workspace can do in a location and everything below it. A rule is for one
+-- user, or for everyone without a rule of their own when user_id is NULL. The closest rule above a location wins,
+-- and locations without any rule above them are open to every member according to their workspace role.
+CREATE TABLE IF NOT EXISTS location_access_rules (
+    location_id VARCHAR(255) NOT NULL,
+    user_id UUID,
+    access VARCHAR(32) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT fk_location_access_rules_location FOREIGN KEY (location_id)
+        REFERENCES locations(id) ON DELETE CASCADE,
+    CONSTRAINT fk_location_access_rules_user FOREIGN KEY (user_id)
+        REFERENCES auth_user(id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_location_access_rules_location_user
+    ON location_access_rules(location_id, COALESCE(user_id, '00000000-0000-0000-0000-000000000000'));
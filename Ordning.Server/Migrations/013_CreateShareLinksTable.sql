@@ -0,0 +1,19 @@
+-- Share links give anyone with the link read-only access to a location and everything below it until the link
+-- expires or is revoked. The link itself is signed, so only its ID and expiry time need to be stored to check it.
+CREATE TABLE IF NOT EXISTS share_links (
+    id UUID PRIMARY KEY,
+    workspace_id UUID NOT NULL,
+    location_id VARCHAR(255) NOT NULL,
+    label VARCHAR(255),
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_by UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT fk_share_links_workspace FOREIGN KEY (workspace_id)
+        REFERENCES workspaces(id) ON DELETE CASCADE,
+    CONSTRAINT fk_share_links_location FOREIGN KEY (location_id)
+        REFERENCES locations(id) ON DELETE CASCADE,
+    CONSTRAINT fk_share_links_created_by FOREIGN KEY (created_by)
+        REFERENCES auth_user(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_workspace_id ON share_links(workspace_id);
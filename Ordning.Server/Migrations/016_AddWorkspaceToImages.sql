@@ -0,0 +1,38 @@
+-- Images keep the workspace they were uploaded in. Their owner has no foreign key, so without it a location in
+-- another workspace that reuses the ID of a deleted location would show the photos of the deleted one.
+ALTER TABLE images ADD COLUMN IF NOT EXISTS workspace_id UUID;
+
+UPDATE images
+SET workspace_id = locations.workspace_id
+FROM locations
+WHERE images.workspace_id IS NULL
+    AND images.owner_type = 'location'
+    AND images.owner_id = locations.id;
+
+UPDATE images
+SET workspace_id = locations.workspace_id
+FROM items
+INNER JOIN locations ON locations.id = items.location_id
+WHERE images.workspace_id IS NULL
+    AND images.owner_type = 'item'
+    AND images.owner_id = items.id::text;
+
+-- Images of deleted owners take the workspace their owner was last changed in
+UPDATE images
+SET workspace_id = (
+    SELECT audit_log.workspace_id
+    FROM audit_log
+    WHERE audit_log.entity_type = images.owner_type
+        AND audit_log.entity_id = images.owner_id
+        AND audit_log.workspace_id IS NOT NULL
+    ORDER BY audit_log.created_at DESC
+    LIMIT 1
+)
+WHERE images.workspace_id IS NULL;
+
+UPDATE images SET workspace_id = '00000000-0000-0000-0000-000000000001' WHERE workspace_id IS NULL;
+
+ALTER TABLE images ALTER COLUMN workspace_id SET NOT NULL;
+
+DROP INDEX IF EXISTS idx_images_owner;
+CREATE INDEX IF NOT EXISTS idx_images_workspace_owner ON images(workspace_id, owner_type, owner_id, sort_order);
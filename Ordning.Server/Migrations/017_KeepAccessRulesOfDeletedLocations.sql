@@ -0,0 +1,3 @@
+-- Access rules outlive a deleted location like its tags and images do, so a restored location is as restricted as it was
+-- before it was deleted. A new location that reuses the ID of a deleted one starts without rules.
+ALTER TABLE location_access_rules DROP CONSTRAINT IF EXISTS fk_location_access_rules_location;
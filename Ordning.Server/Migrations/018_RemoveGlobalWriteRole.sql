@@ -0,0 +1,3 @@
+-- What a user may change is decided by their workspace role, which migration 011 took from the global "write" role, so
+-- the global role no longer does anything and is removed.
+UPDATE users SET roles = roles - 'write' WHERE roles ? 'write';
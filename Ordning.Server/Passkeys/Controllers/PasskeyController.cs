@@ -0,0 +1,134 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.RateLimiting;
+using Ordning.Server.Passkeys.Models;
+using Ordning.Server.Passkeys.Services;
+using Ordning.Server.RateLimiting;
+using Ordning.Server.Sessions.Models;
+
+namespace Ordning.Server.Passkeys.Controllers
+{
+    /// <summary>
+    /// Controller for passkeys. Signed in users register and remove their passkeys, and anyone can sign in with one.
+    /// Registering and signing in both take two steps: the first gets a challenge and the second sends back what the
+    /// browser made with it.
+    /// </summary>
+    [ApiController]
+    [Route("api/[controller]")]
+    [EnableRateLimiting(RateLimitPolicies.Lenient)]
+    public class PasskeyController : ControllerBase
+    {
+        private readonly IPasskeyService _passkeyService;
+        private readonly ILogger<PasskeyController> _logger;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="PasskeyController"/> class.
+        /// </summary>
+        /// <param name="passkeyService">The passkey service.</param>
+        /// <param name="logger">The logger.</param>
+        public PasskeyController(IPasskeyService passkeyService, ILogger<PasskeyController> logger)
+        {
+            _passkeyService = passkeyService;
+            _logger = logger;
+        }
+
+        /// <summary>
+        /// Gets the passkeys of the current user.
+        /// </summary>
+        /// <returns>A collection of passkeys, the oldest first.</returns>
+        [HttpGet]
+        [Authorize]
+        [ProducesResponseType(typeof(IEnumerable<Passkey>), 200)]
+        public async Task<ActionResult<IEnumerable<Passkey>>> GetPasskeys()
+        {
+            IEnumerable<Passkey> passkeys = await _passkeyService.GetPasskeysAsync();
+            return Ok(passkeys);
+        }
+
+        /// <summary>
+        /// Starts registering a new passkey for the current user.
+        /// </summary>
+        /// <returns>The options to pass to the browser.</returns>
+        [HttpPost("registration/options")]
+        [EnableRateLimiting(RateLimitPolicies.Strict)]
+        [Authorize]
+        [ProducesResponseType(typeof(PasskeyRegistrationOptions), 200)]
+        public async Task<ActionResult<PasskeyRegistrationOptions>> StartRegistration()
+        {
+            PasskeyRegistrationOptions options = await _passkeyService.StartRegistrationAsync();
+            return Ok(options);
+        }
+
+        /// <summary>
+        /// Registers the passkey the browser created as a passkey of the current user.
+        /// </summary>
+        /// <param name="request">The passkey registration request.</param>
+        /// <returns>The registered passkey.</returns>
+        [HttpPost("registration")]
+        [EnableRateLimiting(RateLimitPolicies.Strict)]
+        [Authorize]
+        [ProducesResponseType(typeof(Passkey), 201)]
+        [ProducesResponseType(400)]
+        [ProducesResponseType(403)]
+        public async Task<ActionResult<Passkey>> CompleteRegistration([FromBody] CompletePasskeyRegistrationRequest request)
+        {
+            Passkey passkey = await _passkeyService.CompleteRegistrationAsync(request.CeremonyId, request.Name, request.Credential);
+            return StatusCode(201, passkey);
+        }
+
+        /// <summary>
+        /// Removes a passkey of the current user.
+        /// </summary>
+        /// <param name="id">The unique identifier of the passkey.</param>
+        /// <returns>204 No Content if removed; otherwise, 404 Not Found.</returns>
+        [HttpDelete("{id}")]
+        [Authorize]
+        [ProducesResponseType(204)]
+        [ProducesResponseType(404)]
+        public async Task<IActionResult> DeletePasskey(Guid id)
+        {
+            bool deleted = await _passkeyService.DeletePasskeyAsync(id);
+            if (!deleted)
+            {
+                return NotFound($"Passkey with ID '{id}' not found.");
+            }
+
+            return NoContent();
+        }
+
+        /// <summary>
+        /// Starts signing in with a passkey.
+        /// </summary>
+        /// <returns>The options to pass to the browser.</returns>
+        [HttpPost("login/options")]
+        [EnableRateLimiting(RateLimitPolicies.Strict)]
+        [AllowAnonymous]
+        [ProducesResponseType(typeof(PasskeyLoginOptions), 200)]
+        public ActionResult<PasskeyLoginOptions> StartLogin()
+        {
+            PasskeyLoginOptions options = _passkeyService.StartLogin();
+            return Ok(options);
+        }
+
+        /// <summary>
+        /// Signs in with the passkey that signed the challenge and starts a new session.
+        /// </summary>
+        /// <param name="request">The passkey sign in request.</param>
+        /// <returns>The tokens of the new session.</returns>
+        [HttpPost("login")]
+        [EnableRateLimiting(RateLimitPolicies.VeryStrict)]
+        [AllowAnonymous]
+        [ProducesResponseType(typeof(SessionTokens), 200)]
+        [ProducesResponseType(401)]
+        public async Task<ActionResult<SessionTokens>> CompleteLogin([FromBody] CompletePasskeyLoginRequest request)
+        {
+            SessionTokens? tokens = await _passkeyService.CompleteLoginAsync(request.CeremonyId, request.Credential);
+            if (tokens == null)
+            {
+                return Unauthorized("The passkey could not be used to sign in.");
+            }
+
+            return Ok(tokens);
+        }
+    }
+}
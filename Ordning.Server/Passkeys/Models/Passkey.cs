@@ -0,0 +1,43 @@
+namespace Ordning.Server.Passkeys.Models
+{
+    /// <summary>
+    /// Represents a passkey a user has registered for signing in without a password.
+    /// </summary>
+    public class Passkey
+    {
+        /// <summary>
+        /// Gets the unique identifier for the passkey.
+        /// </summary>
+        public Guid Id { get; }
+
+        /// <summary>
+        /// Gets the name the user gave the passkey, such as the device it is on.
+        /// </summary>
+        public string Name { get; }
+
+        /// <summary>
+        /// Gets the UTC timestamp when the passkey was registered.
+        /// </summary>
+        public DateTimeOffset CreatedAt { get; }
+
+        /// <summary>
+        /// Gets the UTC timestamp when the passkey was last used to sign in, if it has been.
+        /// </summary>
+        public DateTimeOffset? LastUsedAt { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="Passkey"/> class.
+        /// </summary>
+        /// <param name="id">The unique identifier for the passkey.</param>
+        /// <param name="name">The name the user gave the passkey.</param>
+        /// <param name="createdAt">The UTC timestamp when the passkey was registered.</param>
+        /// <param name="lastUsedAt">The UTC timestamp when the passkey was last used to sign in.</param>
+        public Passkey(Guid id, string name, DateTimeOffset createdAt, DateTimeOffset? lastUsedAt)
+        {
+            Id = id;
+            Name = name;
+            CreatedAt = createdAt;
+            LastUsedAt = lastUsedAt;
+        }
+    }
+}
@@ -0,0 +1,58 @@
+using Fido2NetLib;
+
+namespace Ordning.Server.Passkeys.Models
+{
+    /// <summary>
+    /// Represents the options the browser needs to register a new passkey, and the ceremony they belong to.
+    /// </summary>
+    public class PasskeyRegistrationOptions
+    {
+        /// <summary>
+        /// Gets the identifier to send back with the new passkey, so that the server can find the challenge it made.
+        /// </summary>
+        public string CeremonyId { get; }
+
+        /// <summary>
+        /// Gets the options to pass to the browser when creating the passkey.
+        /// </summary>
+        public CredentialCreateOptions Options { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="PasskeyRegistrationOptions"/> class.
+        /// </summary>
+        /// <param name="ceremonyId">The identifier of the registration ceremony.</param>
+        /// <param name="options">The options to pass to the browser.</param>
+        public PasskeyRegistrationOptions(string ceremonyId, CredentialCreateOptions options)
+        {
+            CeremonyId = ceremonyId;
+            Options = options;
+        }
+    }
+
+    /// <summary>
+    /// Represents the options the browser needs to sign in with a passkey, and the ceremony they belong to.
+    /// </summary>
+    public class PasskeyLoginOptions
+    {
+        /// <summary>
+        /// Gets the identifier to send back with the signed challenge, so that the server can find the challenge it made.
+        /// </summary>
+        public string CeremonyId { get; }
+
+        /// <summary>
+        /// Gets the options to pass to the browser when asking for a passkey.
+        /// </summary>
+        public AssertionOptions Options { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="PasskeyLoginOptions"/> class.
+        /// </summary>
+        /// <param name="ceremonyId">The identifier of the sign in ceremony.</param>
+        /// <param name="options">The options to pass to the browser.</param>
+        public PasskeyLoginOptions(string ceremonyId, AssertionOptions options)
+        {
+            CeremonyId = ceremonyId;
+            Options = options;
+        }
+    }
+}
@@ -0,0 +1,41 @@
+using Fido2NetLib;
+
+namespace Ordning.Server.Passkeys.Models
+{
+    /// <summary>
+    /// Request model for finishing the registration of a passkey.
+    /// </summary>
+    public class CompletePasskeyRegistrationRequest
+    {
+        /// <summary>
+        /// Gets or sets the identifier of the ceremony the registration options came from.
+        /// </summary>
+        public string CeremonyId { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets an optional name for the passkey, such as the device it is on.
+        /// </summary>
+        public string? Name { get; set; }
+
+        /// <summary>
+        /// Gets or sets the new credential as the browser created it.
+        /// </summary>
+        public AuthenticatorAttestationRawResponse Credential { get; set; } = null!;
+    }
+
+    /// <summary>
+    /// Request model for finishing signing in with a passkey.
+    /// </summary>
+    public class CompletePasskeyLoginRequest
+    {
+        /// <summary>
+        /// Gets or sets the identifier of the ceremony the sign in options came from.
+        /// </summary>
+        public string CeremonyId { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the signed challenge as the browser returned it.
+        /// </summary>
+        public AuthenticatorAssertionRawResponse Credential { get; set; } = null!;
+    }
+}
@@ -0,0 +1,31 @@
+using Fido2NetLib;
+
+namespace Ordning.Server.Passkeys
+{
+    /// <summary>
+    /// Configures WebAuthn for passkeys from the "Passkeys" settings. "ServerDomain" must be the domain the app is
+    /// served from, and "Origins" every origin the browser may report, such as "https://ordning.example.com".
+    /// </summary>
+    public static class PasskeyConfiguration
+    {
+        /// <summary>
+        /// Adds the WebAuthn services passkeys need to the service collection.
+        /// </summary>
+        /// <param name="services">The service collection to add services to.</param>
+        /// <param name="configuration">The application configuration to read the "Passkeys" section from.</param>
+        public static void AddPasskeys(IServiceCollection services, IConfiguration configuration)
+        {
+            IConfigurationSection section = configuration.GetSection("Passkeys");
+            string[] origins = section.GetSection("Origins").Get<string[]>() ?? Array.Empty<string>();
+
+            // Challenges only have to live for the minute or two a registration or sign in takes
+            services.AddMemoryCache();
+            services.AddSingleton<IFido2>(new Fido2(new Fido2Configuration
+            {
+                ServerDomain = section["ServerDomain"] ?? "localhost",
+                ServerName = section["ServerName"] ?? "Ordning",
+                Origins = new HashSet<string>(origins),
+            }));
+        }
+    }
+}
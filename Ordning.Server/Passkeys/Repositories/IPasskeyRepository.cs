@@ -0,0 +1,57 @@
+using EasyReasy.Database;
+
+namespace Ordning.Server.Passkeys.Repositories
+{
+    /// <summary>
+    /// Repository interface for passkey data access operations.
+    /// </summary>
+    public interface IPasskeyRepository : IRepository
+    {
+        /// <summary>
+        /// Gets the passkeys of a user, the oldest first.
+        /// </summary>
+        /// <param name="userId">The unique identifier of the user.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of passkey database models.</returns>
+        Task<IEnumerable<PasskeyDbModel>> GetByUserAsync(Guid userId, IDbSession? session = null);
+
+        /// <summary>
+        /// Gets a passkey by the identifier the authenticator gave the credential.
+        /// </summary>
+        /// <param name="credentialId">The credential identifier.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The passkey database model if found; otherwise, null.</returns>
+        Task<PasskeyDbModel?> GetByCredentialIdAsync(byte[] credentialId, IDbSession? session = null);
+
+        /// <summary>
+        /// Creates a new passkey.
+        /// </summary>
+        /// <param name="id">The unique identifier for the passkey.</param>
+        /// <param name="userId">The unique identifier of the user the passkey signs in as.</param>
+        /// <param name="credentialId">The identifier the authenticator gave the credential.</param>
+        /// <param name="publicKey">The COSE encoded public key of the credential.</param>
+        /// <param name="signatureCounter">The signature counter the authenticator reported.</param>
+        /// <param name="name">The name the user gave the passkey.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The created passkey database model.</returns>
+        Task<PasskeyDbModel> CreateAsync(Guid id, Guid userId, byte[] credentialId, byte[] publicKey, long signatureCounter, string name, IDbSession? session = null);
+
+        /// <summary>
+        /// Records that a passkey was used to sign in, with the signature counter the authenticator reported.
+        /// </summary>
+        /// <param name="id">The unique identifier of the passkey.</param>
+        /// <param name="signatureCounter">The signature counter the authenticator reported.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A task that represents the asynchronous operation.</returns>
+        Task UpdateSignatureCounterAsync(Guid id, long signatureCounter, IDbSession? session = null);
+
+        /// <summary>
+        /// Deletes a passkey of a user.
+        /// </summary>
+        /// <param name="id">The unique identifier of the passkey.</param>
+        /// <param name="userId">The unique identifier of the user the passkey must belong to.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the passkey was deleted; otherwise, false.</returns>
+        Task<bool> DeleteAsync(Guid id, Guid userId, IDbSession? session = null);
+    }
+}
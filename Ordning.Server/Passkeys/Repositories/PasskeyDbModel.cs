@@ -0,0 +1,59 @@
+using Ordning.Server.Passkeys.Models;
+
+namespace Ordning.Server.Passkeys.Repositories
+{
+    /// <summary>
+    /// Database model representing a registered passkey.
+    /// </summary>
+    public class PasskeyDbModel
+    {
+        /// <summary>
+        /// Gets or sets the unique identifier for the passkey.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// Gets or sets the unique identifier of the user the passkey signs in as.
+        /// </summary>
+        public Guid UserId { get; set; }
+
+        /// <summary>
+        /// Gets or sets the identifier the authenticator gave the credential.
+        /// </summary>
+        public byte[] CredentialId { get; set; } = Array.Empty<byte>();
+
+        /// <summary>
+        /// Gets or sets the COSE encoded public key of the credential.
+        /// </summary>
+        public byte[] PublicKey { get; set; } = Array.Empty<byte>();
+
+        /// <summary>
+        /// Gets or sets the signature counter the authenticator last reported.
+        /// </summary>
+        public long SignatureCounter { get; set; }
+
+        /// <summary>
+        /// Gets or sets the name the user gave the passkey.
+        /// </summary>
+        public string Name { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the UTC timestamp when the passkey was registered.
+        /// </summary>
+        public DateTimeOffset CreatedAt { get; set; }
+
+        /// <summary>
+        /// Gets or sets the UTC timestamp when the passkey was last used to sign in.
+        /// </summary>
+        public DateTimeOffset? LastUsedAt { get; set; }
+
+        /// <summary>
+        /// Converts this database model to a domain model.
+        /// </summary>
+        /// <returns>The domain model representation of this passkey.</returns>
+        public Passkey ToDomainPasskey()
+        {
+            return new Passkey(Id, Name, CreatedAt, LastUsedAt);
+        }
+    }
+}
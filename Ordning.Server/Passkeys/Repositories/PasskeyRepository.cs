@@ -0,0 +1,157 @@
+using System.Data.Common;
+using Dapper;
+using EasyReasy.Database;
+
+namespace Ordning.Server.Passkeys.Repositories
+{
+    /// <summary>
+    /// Repository implementation for passkey data access operations.
+    /// </summary>
+    public class PasskeyRepository : RepositoryBase, IPasskeyRepository
+    {
+        private const string PasskeyColumns = @"
+                        id AS Id,
+                        user_id AS UserId,
+                        credential_id AS CredentialId,
+                        public_key AS PublicKey,
+                        signature_counter AS SignatureCounter,
+                        name AS Name,
+                        created_at AS CreatedAt,
+                        last_used_at AS LastUsedAt";
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="PasskeyRepository"/> class.
+        /// </summary>
+        /// <param name="dataSource">The database data source.</param>
+        /// <param name="sessionFactory">The session factory for creating database sessions.</param>
+        public PasskeyRepository(DbDataSource dataSource, IDbSessionFactory sessionFactory)
+            : base(dataSource, sessionFactory)
+        {
+        }
+
+        /// <summary>
+        /// Gets the passkeys of a user, the oldest first.
+        /// </summary>
+        /// <param name="userId">The unique identifier of the user.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of passkey database models.</returns>
+        public async Task<IEnumerable<PasskeyDbModel>> GetByUserAsync(Guid userId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT {PasskeyColumns}
+                    FROM passkeys
+                    WHERE user_id = @{nameof(userId)}
+                    ORDER BY created_at, id";
+
+                IEnumerable<PasskeyDbModel> result = await dbSession.Connection.QueryAsync<PasskeyDbModel>(
+                    query,
+                    new { userId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets a passkey by the identifier the authenticator gave the credential.
+        /// </summary>
+        /// <param name="credentialId">The credential identifier.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The passkey database model if found; otherwise, null.</returns>
+        public async Task<PasskeyDbModel?> GetByCredentialIdAsync(byte[] credentialId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT {PasskeyColumns}
+                    FROM passkeys
+                    WHERE credential_id = @{nameof(credentialId)}";
+
+                PasskeyDbModel? result = await dbSession.Connection.QuerySingleOrDefaultAsync<PasskeyDbModel>(
+                    query,
+                    new { credentialId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Creates a new passkey.
+        /// </summary>
+        /// <param name="id">The unique identifier for the passkey.</param>
+        /// <param name="userId">The unique identifier of the user the passkey signs in as.</param>
+        /// <param name="credentialId">The identifier the authenticator gave the credential.</param>
+        /// <param name="publicKey">The COSE encoded public key of the credential.</param>
+        /// <param name="signatureCounter">The signature counter the authenticator reported.</param>
+        /// <param name="name">The name the user gave the passkey.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The created passkey database model.</returns>
+        public async Task<PasskeyDbModel> CreateAsync(Guid id, Guid userId, byte[] credentialId, byte[] publicKey, long signatureCounter, string name, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    INSERT INTO passkeys (id, user_id, credential_id, public_key, signature_counter, name)
+                    VALUES (@{nameof(id)}, @{nameof(userId)}, @{nameof(credentialId)}, @{nameof(publicKey)}, @{nameof(signatureCounter)}, @{nameof(name)})
+                    RETURNING {PasskeyColumns}";
+
+                PasskeyDbModel result = await dbSession.Connection.QuerySingleAsync<PasskeyDbModel>(
+                    query,
+                    new { id, userId, credentialId, publicKey, signatureCounter, name },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Records that a passkey was used to sign in, with the signature counter the authenticator reported.
+        /// </summary>
+        /// <param name="id">The unique identifier of the passkey.</param>
+        /// <param name="signatureCounter">The signature counter the authenticator reported.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A task that represents the asynchronous operation.</returns>
+        public async Task UpdateSignatureCounterAsync(Guid id, long signatureCounter, IDbSession? session = null)
+        {
+            await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    UPDATE passkeys
+                    SET signature_counter = @{nameof(signatureCounter)}, last_used_at = NOW()
+                    WHERE id = @{nameof(id)}";
+
+                return await dbSession.Connection.ExecuteAsync(
+                    query,
+                    new { id, signatureCounter },
+                    transaction: dbSession.Transaction);
+            }, session);
+        }
+
+        /// <summary>
+        /// Deletes a passkey of a user.
+        /// </summary>
+        /// <param name="id">The unique identifier of the passkey.</param>
+        /// <param name="userId">The unique identifier of the user the passkey must belong to.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the passkey was deleted; otherwise, false.</returns>
+        public async Task<bool> DeleteAsync(Guid id, Guid userId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    DELETE FROM passkeys
+                    WHERE id = @{nameof(id)} AND user_id = @{nameof(userId)}";
+
+                int rowsAffected = await dbSession.Connection.ExecuteAsync(
+                    query,
+                    new { id, userId },
+                    transaction: dbSession.Transaction);
+
+                return rowsAffected > 0;
+            }, session);
+        }
+    }
+}
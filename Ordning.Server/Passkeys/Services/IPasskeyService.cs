@@ -0,0 +1,56 @@
+using Fido2NetLib;
+using Ordning.Server.Passkeys.Models;
+using Ordning.Server.Sessions.Models;
+
+namespace Ordning.Server.Passkeys.Services
+{
+    /// <summary>
+    /// Service interface for registering passkeys and signing in with them.
+    /// </summary>
+    public interface IPasskeyService
+    {
+        /// <summary>
+        /// Gets the passkeys of the current user.
+        /// </summary>
+        /// <returns>A collection of passkeys, the oldest first.</returns>
+        Task<IEnumerable<Passkey>> GetPasskeysAsync();
+
+        /// <summary>
+        /// Starts registering a new passkey for the current user.
+        /// </summary>
+        /// <returns>The options to pass to the browser.</returns>
+        Task<PasskeyRegistrationOptions> StartRegistrationAsync();
+
+        /// <summary>
+        /// Checks the credential the browser created and registers it as a passkey of the current user.
+        /// </summary>
+        /// <param name="ceremonyId">The identifier of the ceremony the registration options came from.</param>
+        /// <param name="name">An optional name for the passkey.</param>
+        /// <param name="credential">The new credential as the browser created it.</param>
+        /// <returns>The registered passkey.</returns>
+        /// <exception cref="InvalidOperationException">Thrown when the ceremony has expired or the credential does not check out.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when another user started the ceremony.</exception>
+        Task<Passkey> CompleteRegistrationAsync(string ceremonyId, string? name, AuthenticatorAttestationRawResponse credential);
+
+        /// <summary>
+        /// Removes a passkey of the current user, so that it can no longer be used to sign in.
+        /// </summary>
+        /// <param name="id">The unique identifier of the passkey.</param>
+        /// <returns>True if the passkey was removed; otherwise, false.</returns>
+        Task<bool> DeletePasskeyAsync(Guid id);
+
+        /// <summary>
+        /// Starts signing in with a passkey. The browser lets the user pick any passkey they have for this site.
+        /// </summary>
+        /// <returns>The options to pass to the browser.</returns>
+        PasskeyLoginOptions StartLogin();
+
+        /// <summary>
+        /// Checks the challenge the passkey signed and starts a session for the user it belongs to.
+        /// </summary>
+        /// <param name="ceremonyId">The identifier of the ceremony the sign in options came from.</param>
+        /// <param name="credential">The signed challenge as the browser returned it.</param>
+        /// <returns>The tokens of the new session if the passkey checks out; otherwise, null.</returns>
+        Task<SessionTokens?> CompleteLoginAsync(string ceremonyId, AuthenticatorAssertionRawResponse credential);
+    }
+}
@@ -0,0 +1,250 @@
+using Fido2NetLib;
+using Fido2NetLib.Objects;
+using Microsoft.Extensions.Caching.Memory;
+using Ordning.Server.Passkeys.Models;
+using Ordning.Server.Passkeys.Repositories;
+using Ordning.Server.Sessions.Models;
+using Ordning.Server.Sessions.Services;
+using Ordning.Server.Users.Models;
+using Ordning.Server.Users.Services;
+using Ordning.Server.Workspaces.Services;
+
+namespace Ordning.Server.Passkeys.Services
+{
+    /// <summary>
+    /// Implementation of <see cref="IPasskeyService"/> that provides passkey business logic operations. The challenges
+    /// of ceremonies that have been started are kept in memory and can only be used once.
+    /// </summary>
+    public class PasskeyService : IPasskeyService
+    {
+        /// <summary>
+        /// How long the user has to finish a registration or sign in after starting it.
+        /// </summary>
+        public static readonly TimeSpan CeremonyLifetime = TimeSpan.FromMinutes(5);
+
+        /// <summary>
+        /// The maximum length of the name of a passkey.
+        /// </summary>
+        public const int MaxNameLength = 255;
+
+        private const string DefaultName = "Passkey";
+        private const string RegistrationKeyPrefix = "passkey-registration:";
+        private const string LoginKeyPrefix = "passkey-login:";
+
+        private readonly IPasskeyRepository _passkeyRepository;
+        private readonly IFido2 _fido2;
+        private readonly IMemoryCache _memoryCache;
+        private readonly IUserService _userService;
+        private readonly ISessionService _sessionService;
+        private readonly IWorkspaceService _workspaceService;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="PasskeyService"/> class.
+        /// </summary>
+        /// <param name="passkeyRepository">The passkey repository for database access.</param>
+        /// <param name="fido2">The WebAuthn implementation that makes and checks challenges.</param>
+        /// <param name="memoryCache">The cache that keeps the challenges of started ceremonies.</param>
+        /// <param name="userService">The user service for reading users.</param>
+        /// <param name="sessionService">The session service for signing users in.</param>
+        /// <param name="workspaceService">The workspace service used to find the user of the current request.</param>
+        public PasskeyService(IPasskeyRepository passkeyRepository, IFido2 fido2, IMemoryCache memoryCache, IUserService userService, ISessionService sessionService, IWorkspaceService workspaceService)
+        {
+            _passkeyRepository = passkeyRepository;
+            _fido2 = fido2;
+            _memoryCache = memoryCache;
+            _userService = userService;
+            _sessionService = sessionService;
+            _workspaceService = workspaceService;
+        }
+
+        /// <summary>
+        /// Gets the passkeys of the current user.
+        /// </summary>
+        /// <returns>A collection of passkeys, the oldest first.</returns>
+        public async Task<IEnumerable<Passkey>> GetPasskeysAsync()
+        {
+            Guid userId = _workspaceService.GetCurrentUserId();
+            IEnumerable<PasskeyDbModel> passkeys = await _passkeyRepository.GetByUserAsync(userId);
+            return passkeys.Select(p => p.ToDomainPasskey());
+        }
+
+        /// <summary>
+        /// Starts registering a new passkey for the current user.
+        /// </summary>
+        /// <returns>The options to pass to the browser.</returns>
+        public async Task<PasskeyRegistrationOptions> StartRegistrationAsync()
+        {
+            Guid userId = _workspaceService.GetCurrentUserId();
+            User user = await _userService.GetUserByIdAsync(userId.ToString())
+                ?? throw new UnauthorizedAccessException("No signed in user was found for this request.");
+
+            // Passkeys the user already has are excluded, so the same authenticator is not registered twice
+            IEnumerable<PasskeyDbModel> existing = await _passkeyRepository.GetByUserAsync(userId);
+            List<PublicKeyCredentialDescriptor> excludeCredentials = existing
+                .Select(p => new PublicKeyCredentialDescriptor(p.CredentialId))
+                .ToList();
+
+            Fido2User fido2User = new Fido2User
+            {
+                Id = userId.ToByteArray(),
+                Name = user.Username,
+                DisplayName = user.Username,
+            };
+
+            // A resident key lets the user sign in without typing a username first
+            AuthenticatorSelection authenticatorSelection = new AuthenticatorSelection
+            {
+                ResidentKey = ResidentKeyRequirement.Required,
+                UserVerification = UserVerificationRequirement.Preferred,
+            };
+
+            CredentialCreateOptions options = _fido2.RequestNewCredential(fido2User, excludeCredentials, authenticatorSelection, AttestationConveyancePreference.None);
+            string ceremonyId = StartCeremony(RegistrationKeyPrefix, options);
+            return new PasskeyRegistrationOptions(ceremonyId, options);
+        }
+
+        /// <summary>
+        /// Checks the credential the browser created and registers it as a passkey of the current user.
+        /// </summary>
+        /// <param name="ceremonyId">The identifier of the ceremony the registration options came from.</param>
+        /// <param name="name">An optional name for the passkey.</param>
+        /// <param name="credential">The new credential as the browser created it.</param>
+        /// <returns>The registered passkey.</returns>
+        /// <exception cref="InvalidOperationException">Thrown when the ceremony has expired or the credential does not check out.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when another user started the ceremony.</exception>
+        public async Task<Passkey> CompleteRegistrationAsync(string ceremonyId, string? name, AuthenticatorAttestationRawResponse credential)
+        {
+            string trimmedName = string.IsNullOrWhiteSpace(name) ? DefaultName : name.Trim();
+            if (trimmedName.Length > MaxNameLength)
+            {
+                throw new ArgumentException($"The name of a passkey cannot be longer than {MaxNameLength} characters.", nameof(name));
+            }
+
+            CredentialCreateOptions options = TakeCeremony<CredentialCreateOptions>(RegistrationKeyPrefix, ceremonyId)
+                ?? throw new InvalidOperationException("The passkey registration has expired. Try again.");
+
+            Guid userId = _workspaceService.GetCurrentUserId();
+            if (!options.User.Id.SequenceEqual(userId.ToByteArray()))
+            {
+                throw new UnauthorizedAccessException("This passkey registration was started by another user.");
+            }
+
+            Fido2.CredentialMakeResult result;
+            try
+            {
+                result = await _fido2.MakeNewCredentialAsync(
+                    credential,
+                    options,
+                    async (args, cancellationToken) => await _passkeyRepository.GetByCredentialIdAsync(args.CredentialId) == null);
+            }
+            catch (Fido2VerificationException ex)
+            {
+                throw new InvalidOperationException($"The passkey could not be verified: {ex.Message}", ex);
+            }
+
+            AttestationVerificationSuccess created = result.Result
+                ?? throw new InvalidOperationException($"The passkey could not be verified: {result.ErrorMessage}");
+
+            PasskeyDbModel passkey = await _passkeyRepository.CreateAsync(
+                id: Guid.NewGuid(),
+                userId: userId,
+                credentialId: created.CredentialId,
+                publicKey: created.PublicKey,
+                signatureCounter: created.Counter,
+                name: trimmedName);
+
+            return passkey.ToDomainPasskey();
+        }
+
+        /// <summary>
+        /// Removes a passkey of the current user, so that it can no longer be used to sign in.
+        /// </summary>
+        /// <param name="id">The unique identifier of the passkey.</param>
+        /// <returns>True if the passkey was removed; otherwise, false.</returns>
+        public async Task<bool> DeletePasskeyAsync(Guid id)
+        {
+            Guid userId = _workspaceService.GetCurrentUserId();
+            return await _passkeyRepository.DeleteAsync(id, userId);
+        }
+
+        /// <summary>
+        /// Starts signing in with a passkey. The browser lets the user pick any passkey they have for this site.
+        /// </summary>
+        /// <returns>The options to pass to the browser.</returns>
+        public PasskeyLoginOptions StartLogin()
+        {
+            AssertionOptions options = _fido2.GetAssertionOptions(new List<PublicKeyCredentialDescriptor>(), UserVerificationRequirement.Preferred);
+            string ceremonyId = StartCeremony(LoginKeyPrefix, options);
+            return new PasskeyLoginOptions(ceremonyId, options);
+        }
+
+        /// <summary>
+        /// Checks the challenge the passkey signed and starts a session for the user it belongs to.
+        /// </summary>
+        /// <param name="ceremonyId">The identifier of the ceremony the sign in options came from.</param>
+        /// <param name="credential">The signed challenge as the browser returned it.</param>
+        /// <returns>The tokens of the new session if the passkey checks out; otherwise, null.</returns>
+        public async Task<SessionTokens?> CompleteLoginAsync(string ceremonyId, AuthenticatorAssertionRawResponse credential)
+        {
+            AssertionOptions? options = TakeCeremony<AssertionOptions>(LoginKeyPrefix, ceremonyId);
+            if (options == null || credential?.Id == null)
+            {
+                return null;
+            }
+
+            PasskeyDbModel? passkey = await _passkeyRepository.GetByCredentialIdAsync(credential.Id);
+            if (passkey == null)
+            {
+                return null;
+            }
+
+            AssertionVerificationResult result;
+            try
+            {
+                result = await _fido2.MakeAssertionAsync(
+                    credential,
+                    options,
+                    passkey.PublicKey,
+                    new List<byte[]>(),
+                    (uint)passkey.SignatureCounter,
+                    (args, cancellationToken) => Task.FromResult(args.UserHandle.SequenceEqual(passkey.UserId.ToByteArray())));
+            }
+            catch (Fido2VerificationException)
+            {
+                return null;
+            }
+
+            await _passkeyRepository.UpdateSignatureCounterAsync(passkey.Id, result.Counter);
+
+            User? user = await _userService.GetUserByIdAsync(passkey.UserId.ToString());
+            if (user == null)
+            {
+                return null;
+            }
+
+            return await _sessionService.StartSessionAsync(user);
+        }
+
+        private string StartCeremony<T>(string keyPrefix, T options)
+        {
+            string ceremonyId = Guid.NewGuid().ToString("N");
+            _memoryCache.Set(keyPrefix + ceremonyId, options, CeremonyLifetime);
+            return ceremonyId;
+        }
+
+        /// <summary>
+        /// Gets the options of a started ceremony and forgets them, so that the same challenge cannot be answered twice.
+        /// </summary>
+        private T? TakeCeremony<T>(string keyPrefix, string ceremonyId) where T : class
+        {
+            string key = keyPrefix + ceremonyId;
+            if (string.IsNullOrEmpty(ceremonyId) || !_memoryCache.TryGetValue(key, out T? options))
+            {
+                return null;
+            }
+
+            _memoryCache.Remove(key);
+            return options;
+        }
+    }
+}
@@ -1,15 +1,35 @@
 using EasyReasy.Auth;
 using EasyReasy.EnvironmentVariables;
+using Ordning.Server.Audit.Repositories;
+using Ordning.Server.Audit.Services;
 using Ordning.Server.Auth;
 using Ordning.Server.Database;
+using Ordning.Server.Images.Repositories;
+using Ordning.Server.Images.Services;
 using Ordning.Server.Items.Repositories;
 using Ordning.Server.Items.Services;
+using Ordning.Server.ItemTemplates.Repositories;
+using Ordning.Server.ItemTemplates.Services;
 using Ordning.Server.Locations.Repositories;
 using Ordning.Server.Locations.Services;
 using Ordning.Server.Middleware;
+using Ordning.Server.Passkeys;
+using Ordning.Server.Passkeys.Repositories;
+using Ordning.Server.Passkeys.Services;
+using Ordning.Server.PropertyDefinitions.Repositories;
+using Ordning.Server.PropertyDefinitions.Services;
 using Ordning.Server.RateLimiting;
+using Ordning.Server.Sessions.Repositories;
+using Ordning.Server.Sessions.Services;
+using Ordning.Server.Shares.Repositories;
+using Ordning.Server.Shares.Services;
+using Ordning.Server.Storage;
+using Ordning.Server.Tags.Repositories;
+using Ordning.Server.Tags.Services;
 using Ordning.Server.Users.Repositories;
 using Ordning.Server.Users.Services;
+using Ordning.Server.Workspaces.Repositories;
+using Ordning.Server.Workspaces.Services;
 
 namespace Ordning.Server
 {
@@ -38,6 +58,12 @@ namespace Ordning.Server
             // Configure database services
             DatabaseConfiguration.AddDatabaseServices(builder.Services);
 
+            // Configure where uploaded images are stored
+            BlobStorageConfiguration.AddBlobStorage(builder.Services, builder.Configuration, builder.Environment.ContentRootPath);
+
+            // Configure WebAuthn for signing in with passkeys
+            PasskeyConfiguration.AddPasskeys(builder.Services, builder.Configuration);
+
             // Configure EasyReasy.Auth
             string jwtSecret = EnvironmentVariables.JwtSecret.GetValue();
             builder.Services.AddEasyReasyAuth(jwtSecret, issuer: "ordning");
@@ -45,10 +71,33 @@ namespace Ordning.Server
             builder.Services.AddScoped<IUserRepository, UserRepository>();
             builder.Services.AddScoped<IUserService, UserService>();
             builder.Services.AddScoped<IAuthRequestValidationService, AuthRequestValidationService>();
+            builder.Services.AddScoped<IAccessTokenIssuer, AccessTokenIssuer>();
+            builder.Services.AddScoped<IRefreshTokenRepository, RefreshTokenRepository>();
+            builder.Services.AddScoped<ISessionService, SessionService>();
+            builder.Services.AddScoped<IPasskeyRepository, PasskeyRepository>();
+            builder.Services.AddScoped<IPasskeyService, PasskeyService>();
+            builder.Services.AddHttpContextAccessor();
+            builder.Services.AddScoped<IWorkspaceRepository, WorkspaceRepository>();
+            builder.Services.AddScoped<IWorkspaceService, WorkspaceService>();
+            builder.Services.AddScoped<IAuditRepository, AuditRepository>();
+            builder.Services.AddScoped<IAuditService, AuditService>();
+            builder.Services.AddScoped<ITagRepository, TagRepository>();
+            builder.Services.AddScoped<ITagService, TagService>();
             builder.Services.AddScoped<ILocationRepository, LocationRepository>();
             builder.Services.AddScoped<ILocationService, LocationService>();
+            builder.Services.AddScoped<ILocationAccessRepository, LocationAccessRepository>();
+            builder.Services.AddScoped<ILocationAccessService, LocationAccessService>();
+            builder.Services.AddScoped<IPropertyDefinitionRepository, PropertyDefinitionRepository>();
+            builder.Services.AddScoped<IPropertyDefinitionService, PropertyDefinitionService>();
+            builder.Services.AddScoped<IItemTemplateRepository, ItemTemplateRepository>();
+            builder.Services.AddScoped<IItemTemplateService, ItemTemplateService>();
             builder.Services.AddScoped<IItemRepository, ItemRepository>();
             builder.Services.AddScoped<IItemService, ItemService>();
+            builder.Services.AddScoped<IImageRepository, ImageRepository>();
+            builder.Services.AddScoped<IImageService, ImageService>();
+            builder.Services.AddSingleton<IShareTokenSigner>(new ShareTokenSigner(jwtSecret));
+            builder.Services.AddScoped<IShareLinkRepository, ShareLinkRepository>();
+            builder.Services.AddScoped<IShareLinkService, ShareLinkService>();
 
             // Configure Rate Limiting
             builder.Services.AddRateLimiting();
@@ -56,6 +105,9 @@ namespace Ordning.Server
             // Register background service for default admin user initialization
             builder.Services.AddHostedService<Database.DefaultAdminUserInitializer>();
 
+            // Register background service that deletes the images of items and locations deleted long ago
+            builder.Services.AddHostedService<DeletedOwnerImageCleanup>();
+
             WebApplication app = builder.Build();
 
             app.UseDefaultFiles();
@@ -0,0 +1,130 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.RateLimiting;
+using Ordning.Server.PropertyDefinitions.Models;
+using Ordning.Server.PropertyDefinitions.Services;
+using Ordning.Server.RateLimiting;
+
+namespace Ordning.Server.PropertyDefinitions.Controllers
+{
+    /// <summary>
+    /// Controller for managing the definitions of typed item properties. Anyone signed in can read them; only admins can change them.
+    /// </summary>
+    [ApiController]
+    [Route("api/[controller]")]
+    [EnableRateLimiting(RateLimitPolicies.Lenient)]
+    public class PropertyDefinitionController : ControllerBase
+    {
+        private readonly IPropertyDefinitionService _propertyDefinitionService;
+        private readonly ILogger<PropertyDefinitionController> _logger;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="PropertyDefinitionController"/> class.
+        /// </summary>
+        /// <param name="propertyDefinitionService">The property definition service.</param>
+        /// <param name="logger">The logger.</param>
+        public PropertyDefinitionController(IPropertyDefinitionService propertyDefinitionService, ILogger<PropertyDefinitionController> logger)
+        {
+            _propertyDefinitionService = propertyDefinitionService;
+            _logger = logger;
+        }
+
+        /// <summary>
+        /// Gets all property definitions, ordered by name.
+        /// </summary>
+        /// <returns>A collection of all property definitions.</returns>
+        [HttpGet]
+        [Authorize]
+        [ProducesResponseType(typeof(IEnumerable<PropertyDefinition>), 200)]
+        public async Task<ActionResult<IEnumerable<PropertyDefinition>>> GetAllPropertyDefinitions()
+        {
+            IEnumerable<PropertyDefinition> definitions = await _propertyDefinitionService.GetAllPropertyDefinitionsAsync();
+            return Ok(definitions);
+        }
+
+        /// <summary>
+        /// Gets a property definition by its key, ignoring case.
+        /// </summary>
+        /// <param name="key">The property key.</param>
+        /// <returns>The property definition if found; otherwise, 404 Not Found.</returns>
+        [HttpGet("{key}")]
+        [Authorize]
+        [ProducesResponseType(typeof(PropertyDefinition), 200)]
+        [ProducesResponseType(404)]
+        public async Task<ActionResult<PropertyDefinition>> GetPropertyDefinition(string key)
+        {
+            PropertyDefinition? definition = await _propertyDefinitionService.GetPropertyDefinitionAsync(key);
+            if (definition == null)
+            {
+                return NotFound($"Property definition with key '{key}' not found.");
+            }
+
+            return Ok(definition);
+        }
+
+        /// <summary>
+        /// Creates a new property definition.
+        /// </summary>
+        /// <param name="request">The property definition creation request.</param>
+        /// <returns>The created property definition.</returns>
+        [HttpPost]
+        [Authorize(Roles = "admin")]
+        [ProducesResponseType(typeof(PropertyDefinition), 201)]
+        [ProducesResponseType(400)]
+        public async Task<ActionResult<PropertyDefinition>> CreatePropertyDefinition([FromBody] CreatePropertyDefinitionRequest request)
+        {
+            PropertyDefinition definition = await _propertyDefinitionService.CreatePropertyDefinitionAsync(
+                key: request.Key,
+                name: request.Name,
+                type: request.Type,
+                unit: request.Unit,
+                isRequired: request.IsRequired,
+                options: request.Options);
+
+            return CreatedAtAction(nameof(GetPropertyDefinition), new { key = definition.Key }, definition);
+        }
+
+        /// <summary>
+        /// Updates an existing property definition. Values that items already have are not changed.
+        /// </summary>
+        /// <param name="key">The key of the property definition to update.</param>
+        /// <param name="request">The property definition update request.</param>
+        /// <returns>The updated property definition.</returns>
+        [HttpPut("{key}")]
+        [Authorize(Roles = "admin")]
+        [ProducesResponseType(typeof(PropertyDefinition), 200)]
+        [ProducesResponseType(400)]
+        public async Task<ActionResult<PropertyDefinition>> UpdatePropertyDefinition(string key, [FromBody] UpdatePropertyDefinitionRequest request)
+        {
+            PropertyDefinition definition = await _propertyDefinitionService.UpdatePropertyDefinitionAsync(
+                key: key,
+                name: request.Name,
+                type: request.Type,
+                unit: request.Unit,
+                isRequired: request.IsRequired,
+                options: request.Options);
+
+            return Ok(definition);
+        }
+
+        /// <summary>
+        /// Deletes a property definition. Items keep their values for the property, which become free-form text.
+        /// </summary>
+        /// <param name="key">The key of the property definition to delete.</param>
+        /// <returns>204 No Content if deleted; otherwise, 404 Not Found.</returns>
+        [HttpDelete("{key}")]
+        [Authorize(Roles = "admin")]
+        [ProducesResponseType(204)]
+        [ProducesResponseType(404)]
+        public async Task<IActionResult> DeletePropertyDefinition(string key)
+        {
+            bool deleted = await _propertyDefinitionService.DeletePropertyDefinitionAsync(key);
+            if (!deleted)
+            {
+                return NotFound($"Property definition with key '{key}' not found.");
+            }
+
+            return NoContent();
+        }
+    }
+}
@@ -0,0 +1,141 @@
+using System.Globalization;
+
+namespace Ordning.Server.PropertyDefinitions.Models
+{
+    /// <summary>
+    /// Represents the definition of an item property: the type of its values, how it is displayed and whether items must have it.
+    /// </summary>
+    public class PropertyDefinition
+    {
+        /// <summary>
+        /// The format that date property values are stored in.
+        /// </summary>
+        public const string DateFormat = "yyyy-MM-dd";
+
+        /// <summary>
+        /// Gets the property key that item properties are stored under.
+        /// </summary>
+        public string Key { get; }
+
+        /// <summary>
+        /// Gets the display name of the property.
+        /// </summary>
+        public string Name { get; }
+
+        /// <summary>
+        /// Gets the type of the property values. See <see cref="PropertyTypes"/>.
+        /// </summary>
+        public string Type { get; }
+
+        /// <summary>
+        /// Gets the unit that number values are measured in, if any.
+        /// </summary>
+        public string? Unit { get; }
+
+        /// <summary>
+        /// Gets a value indicating whether every item must have a value for the property.
+        /// </summary>
+        public bool IsRequired { get; }
+
+        /// <summary>
+        /// Gets the allowed values of an enum property. Empty for other types.
+        /// </summary>
+        public IReadOnlyList<string> Options { get; }
+
+        /// <summary>
+        /// Gets the UTC timestamp when the definition was created.
+        /// </summary>
+        public DateTimeOffset CreatedAt { get; }
+
+        /// <summary>
+        /// Gets the UTC timestamp when the definition was last updated.
+        /// </summary>
+        public DateTimeOffset UpdatedAt { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="PropertyDefinition"/> class.
+        /// </summary>
+        /// <param name="key">The property key that item properties are stored under.</param>
+        /// <param name="name">The display name of the property.</param>
+        /// <param name="type">The type of the property values.</param>
+        /// <param name="unit">The unit that number values are measured in. Defaults to null.</param>
+        /// <param name="isRequired">Whether every item must have a value for the property. Defaults to false.</param>
+        /// <param name="options">The allowed values of an enum property. Defaults to an empty list.</param>
+        /// <param name="createdAt">The UTC timestamp when the definition was created.</param>
+        /// <param name="updatedAt">The UTC timestamp when the definition was last updated.</param>
+        public PropertyDefinition(string key, string name, string type, string? unit = null, bool isRequired = false, IReadOnlyList<string>? options = null, DateTimeOffset createdAt = default, DateTimeOffset updatedAt = default)
+        {
+            Key = key;
+            Name = name;
+            Type = type;
+            Unit = unit;
+            IsRequired = isRequired;
+            Options = options ?? Array.Empty<string>();
+            CreatedAt = createdAt;
+            UpdatedAt = updatedAt;
+        }
+
+        /// <summary>
+        /// Checks a value against the property type and returns it in the form it is stored in: numbers with a dot as the
+        /// decimal separator, dates as yyyy-MM-dd, booleans as "true" or "false" and enum values as written in <see cref="Options"/>.
+        /// </summary>
+        /// <param name="value">The value to check.</param>
+        /// <returns>The normalized value.</returns>
+        /// <exception cref="ArgumentException">Thrown when the value is not valid for the property type.</exception>
+        public string NormalizeValue(string value)
+        {
+            string trimmed = value.Trim();
+            switch (Type)
+            {
+                case PropertyTypes.Number:
+                    if (!decimal.TryParse(trimmed, NumberStyles.AllowLeadingSign | NumberStyles.AllowDecimalPoint, CultureInfo.InvariantCulture, out decimal number))
+                    {
+                        throw new ArgumentException($"{Name} must be a number.", nameof(value));
+                    }
+
+                    return number.ToString(CultureInfo.InvariantCulture);
+
+                case PropertyTypes.Date:
+                    if (!DateOnly.TryParseExact(trimmed, DateFormat, CultureInfo.InvariantCulture, DateTimeStyles.None, out DateOnly date))
+                    {
+                        throw new ArgumentException($"{Name} must be a date in the format {DateFormat}.", nameof(value));
+                    }
+
+                    return date.ToString(DateFormat, CultureInfo.InvariantCulture);
+
+                case PropertyTypes.Boolean:
+                    if (trimmed.Equals("true", StringComparison.OrdinalIgnoreCase) || trimmed.Equals("yes", StringComparison.OrdinalIgnoreCase))
+                    {
+                        return "true";
+                    }
+
+                    if (trimmed.Equals("false", StringComparison.OrdinalIgnoreCase) || trimmed.Equals("no", StringComparison.OrdinalIgnoreCase))
+                    {
+                        return "false";
+                    }
+
+                    throw new ArgumentException($"{Name} must be true or false.", nameof(value));
+
+                case PropertyTypes.Enum:
+                    string? option = Options.FirstOrDefault(o => o.Equals(trimmed, StringComparison.OrdinalIgnoreCase));
+                    if (option == null)
+                    {
+                        throw new ArgumentException($"{Name} must be one of: {string.Join(", ", Options)}.", nameof(value));
+                    }
+
+                    return option;
+
+                case PropertyTypes.Url:
+                    if (!Uri.TryCreate(trimmed, UriKind.Absolute, out Uri? uri) || (uri.Scheme != Uri.UriSchemeHttp && uri.Scheme != Uri.UriSchemeHttps))
+                    {
+                        throw new ArgumentException($"{Name} must be a link starting with http:// or https://.", nameof(value));
+                    }
+
+                    return trimmed;
+
+                default:
+                    return trimmed;
+            }
+        }
+    }
+}
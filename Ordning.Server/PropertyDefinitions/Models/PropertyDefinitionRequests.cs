@@ -0,0 +1,69 @@
+namespace Ordning.Server.PropertyDefinitions.Models
+{
+    /// <summary>
+    /// Request model for creating a property definition.
+    /// </summary>
+    public class CreatePropertyDefinitionRequest
+    {
+        /// <summary>
+        /// Gets or sets the property key that item properties are stored under.
+        /// </summary>
+        public string Key { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the display name of the property.
+        /// </summary>
+        public string Name { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the type of the property values: text, number, date, boolean, enum or url.
+        /// </summary>
+        public string Type { get; set; } = PropertyTypes.Text;
+
+        /// <summary>
+        /// Gets or sets the unit that number values are measured in, such as "kg" or "mm".
+        /// </summary>
+        public string? Unit { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether every item must have a value for the property.
+        /// </summary>
+        public bool IsRequired { get; set; }
+
+        /// <summary>
+        /// Gets or sets the allowed values of an enum property.
+        /// </summary>
+        public List<string>? Options { get; set; }
+    }
+
+    /// <summary>
+    /// Request model for updating a property definition. The key of a definition cannot change.
+    /// </summary>
+    public class UpdatePropertyDefinitionRequest
+    {
+        /// <summary>
+        /// Gets or sets the display name of the property.
+        /// </summary>
+        public string Name { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the type of the property values: text, number, date, boolean, enum or url.
+        /// </summary>
+        public string Type { get; set; } = PropertyTypes.Text;
+
+        /// <summary>
+        /// Gets or sets the unit that number values are measured in, such as "kg" or "mm".
+        /// </summary>
+        public string? Unit { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether every item must have a value for the property.
+        /// </summary>
+        public bool IsRequired { get; set; }
+
+        /// <summary>
+        /// Gets or sets the allowed values of an enum property.
+        /// </summary>
+        public List<string>? Options { get; set; }
+    }
+}
@@ -0,0 +1,63 @@
+namespace Ordning.Server.PropertyDefinitions.Models
+{
+    /// <summary>
+    /// The kinds of values that a defined item property can hold.
+    /// </summary>
+    public static class PropertyTypes
+    {
+        /// <summary>
+        /// Free-form text.
+        /// </summary>
+        public const string Text = "text";
+
+        /// <summary>
+        /// A decimal number, stored with a dot as the decimal separator.
+        /// </summary>
+        public const string Number = "number";
+
+        /// <summary>
+        /// A calendar date, stored as yyyy-MM-dd.
+        /// </summary>
+        public const string Date = "date";
+
+        /// <summary>
+        /// A yes or no value, stored as "true" or "false".
+        /// </summary>
+        public const string Boolean = "boolean";
+
+        /// <summary>
+        /// One of a fixed list of options.
+        /// </summary>
+        public const string Enum = "enum";
+
+        /// <summary>
+        /// An absolute http or https URL.
+        /// </summary>
+        public const string Url = "url";
+
+        /// <summary>
+        /// Gets all property types.
+        /// </summary>
+        public static IReadOnlyList<string> All { get; } = new[] { Text, Number, Date, Boolean, Enum, Url };
+
+        /// <summary>
+        /// Checks whether a value is a known property type.
+        /// </summary>
+        /// <param name="type">The value to check.</param>
+        /// <returns>True if the value is a known property type; otherwise, false.</returns>
+        public static bool IsValid(string type)
+        {
+            return All.Contains(type);
+        }
+
+        /// <summary>
+        /// Checks whether values of a property type can be compared as ranges.
+        /// </summary>
+        /// <param name="type">The property type to check.</param>
+        /// <returns>True for number and date properties; otherwise, false.</returns>
+        public static bool IsRangeComparable(string type)
+        {
+            return type == Number || type == Date;
+        }
+    }
+}
@@ -0,0 +1,59 @@
+using EasyReasy.Database;
+
+namespace Ordning.Server.PropertyDefinitions.Repositories
+{
+    /// <summary>
+    /// Repository interface for property definition data access operations.
+    /// </summary>
+    public interface IPropertyDefinitionRepository : IRepository
+    {
+        /// <summary>
+        /// Gets all property definitions, ordered by name.
+        /// </summary>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of all property definition database models.</returns>
+        Task<IEnumerable<PropertyDefinitionDbModel>> GetAllAsync(IDbSession? session = null);
+
+        /// <summary>
+        /// Gets a property definition by its key, ignoring case.
+        /// </summary>
+        /// <param name="key">The property key.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The property definition database model if found; otherwise, null.</returns>
+        Task<PropertyDefinitionDbModel?> GetByKeyAsync(string key, IDbSession? session = null);
+
+        /// <summary>
+        /// Creates a new property definition in the database.
+        /// </summary>
+        /// <param name="key">The property key that item properties are stored under.</param>
+        /// <param name="name">The display name of the property.</param>
+        /// <param name="type">The type of the property values.</param>
+        /// <param name="unit">The unit that number values are measured in. Defaults to null.</param>
+        /// <param name="isRequired">Whether every item must have a value for the property. Defaults to false.</param>
+        /// <param name="options">The allowed values of an enum property. Defaults to null.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The created property definition database model.</returns>
+        Task<PropertyDefinitionDbModel> CreateAsync(string key, string name, string type, string? unit = null, bool isRequired = false, IEnumerable<string>? options = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Updates an existing property definition in the database.
+        /// </summary>
+        /// <param name="key">The key of the property definition to update.</param>
+        /// <param name="name">The new display name of the property.</param>
+        /// <param name="type">The new type of the property values.</param>
+        /// <param name="unit">The new unit that number values are measured in. Defaults to null.</param>
+        /// <param name="isRequired">Whether every item must have a value for the property. Defaults to false.</param>
+        /// <param name="options">The new allowed values of an enum property. Defaults to null.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the property definition was found and updated; otherwise, false.</returns>
+        Task<bool> UpdateAsync(string key, string name, string type, string? unit = null, bool isRequired = false, IEnumerable<string>? options = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Deletes a property definition from the database. Item properties with the key are kept.
+        /// </summary>
+        /// <param name="key">The key of the property definition to delete.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the property definition was found and deleted; otherwise, false.</returns>
+        Task<bool> DeleteAsync(string key, IDbSession? session = null);
+    }
+}
@@ -0,0 +1,81 @@
+using System.Text.Json;
+using Ordning.Server.PropertyDefinitions.Models;
+
+namespace Ordning.Server.PropertyDefinitions.Repositories
+{
+    /// <summary>
+    /// Database model representing a property definition in the database.
+    /// </summary>
+    public class PropertyDefinitionDbModel
+    {
+        /// <summary>
+        /// Gets or sets the property key that item properties are stored under.
+        /// </summary>
+        public string Key { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the display name of the property.
+        /// </summary>
+        public string Name { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the type of the property values.
+        /// </summary>
+        public string Type { get; set; } = PropertyTypes.Text;
+
+        /// <summary>
+        /// Gets or sets the unit that number values are measured in.
+        /// </summary>
+        public string? Unit { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether every item must have a value for the property.
+        /// </summary>
+        public bool IsRequired { get; set; }
+
+        /// <summary>
+        /// Gets or sets the allowed values of an enum property as a JSON array string.
+        /// </summary>
+        public string OptionsJson { get; set; } = "[]";
+
+        /// <summary>
+        /// Gets or sets the UTC timestamp when the definition was created.
+        /// </summary>
+        public DateTimeOffset CreatedAt { get; set; }
+
+        /// <summary>
+        /// Gets or sets the UTC timestamp when the definition was last updated.
+        /// </summary>
+        public DateTimeOffset UpdatedAt { get; set; }
+
+        /// <summary>
+        /// Converts the database model to a domain PropertyDefinition model.
+        /// </summary>
+        /// <returns>A PropertyDefinition domain model.</returns>
+        public PropertyDefinition ToDomainPropertyDefinition()
+        {
+            List<string> options = new List<string>();
+            if (!string.IsNullOrWhiteSpace(OptionsJson))
+            {
+                try
+                {
+                    options = JsonSerializer.Deserialize<List<string>>(OptionsJson) ?? new List<string>();
+                }
+                catch
+                {
+                    options = new List<string>();
+                }
+            }
+
+            return new PropertyDefinition(
+                key: Key,
+                name: Name,
+                type: Type,
+                unit: Unit,
+                isRequired: IsRequired,
+                options: options,
+                createdAt: CreatedAt,
+                updatedAt: UpdatedAt);
+        }
+    }
+}
@@ -0,0 +1,183 @@
+using System.Data.Common;
+using System.Text.Json;
+using Dapper;
+using EasyReasy.Database;
+
+namespace Ordning.Server.PropertyDefinitions.Repositories
+{
+    /// <summary>
+    /// Repository implementation for property definition data access operations.
+    /// </summary>
+    public class PropertyDefinitionRepository : RepositoryBase, IPropertyDefinitionRepository
+    {
+        /// <summary>
+        /// Initializes a new instance of the <see cref="PropertyDefinitionRepository"/> class.
+        /// </summary>
+        /// <param name="dataSource">The database data source.</param>
+        /// <param name="sessionFactory">The session factory for creating database sessions.</param>
+        public PropertyDefinitionRepository(DbDataSource dataSource, IDbSessionFactory sessionFactory)
+            : base(dataSource, sessionFactory)
+        {
+        }
+
+        /// <summary>
+        /// Gets all property definitions, ordered by name.
+        /// </summary>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of all property definition database models.</returns>
+        public async Task<IEnumerable<PropertyDefinitionDbModel>> GetAllAsync(IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = @"
+                    SELECT 
+                        key,
+                        name,
+                        type,
+                        unit,
+                        is_required AS IsRequired,
+                        options::text AS OptionsJson,
+                        created_at AS CreatedAt,
+                        updated_at AS UpdatedAt
+                    FROM property_definitions
+                    ORDER BY LOWER(name)";
+
+                IEnumerable<PropertyDefinitionDbModel> result = await dbSession.Connection.QueryAsync<PropertyDefinitionDbModel>(
+                    query,
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets a property definition by its key, ignoring case.
+        /// </summary>
+        /// <param name="key">The property key.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The property definition database model if found; otherwise, null.</returns>
+        public async Task<PropertyDefinitionDbModel?> GetByKeyAsync(string key, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT 
+                        key,
+                        name,
+                        type,
+                        unit,
+                        is_required AS IsRequired,
+                        options::text AS OptionsJson,
+                        created_at AS CreatedAt,
+                        updated_at AS UpdatedAt
+                    FROM property_definitions
+                    WHERE LOWER(key) = LOWER(@{nameof(key)})";
+
+                PropertyDefinitionDbModel? result = await dbSession.Connection.QuerySingleOrDefaultAsync<PropertyDefinitionDbModel>(
+                    query,
+                    new { key },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Creates a new property definition in the database.
+        /// </summary>
+        /// <param name="key">The property key that item properties are stored under.</param>
+        /// <param name="name">The display name of the property.</param>
+        /// <param name="type">The type of the property values.</param>
+        /// <param name="unit">The unit that number values are measured in. Defaults to null.</param>
+        /// <param name="isRequired">Whether every item must have a value for the property. Defaults to false.</param>
+        /// <param name="options">The allowed values of an enum property. Defaults to null.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The created property definition database model.</returns>
+        public async Task<PropertyDefinitionDbModel> CreateAsync(string key, string name, string type, string? unit = null, bool isRequired = false, IEnumerable<string>? options = null, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string optionsJson = JsonSerializer.Serialize(options ?? Enumerable.Empty<string>());
+
+                string query = $@"
+                    INSERT INTO property_definitions (key, name, type, unit, is_required, options)
+                    VALUES (@{nameof(key)}, @{nameof(name)}, @{nameof(type)}, @{nameof(unit)}, @{nameof(isRequired)}, @optionsJson::jsonb)
+                    RETURNING 
+                        key,
+                        name,
+                        type,
+                        unit,
+                        is_required AS IsRequired,
+                        options::text AS OptionsJson,
+                        created_at AS CreatedAt,
+                        updated_at AS UpdatedAt";
+
+                PropertyDefinitionDbModel result = await dbSession.Connection.QuerySingleAsync<PropertyDefinitionDbModel>(
+                    query,
+                    new { key, name, type, unit, isRequired, optionsJson },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Updates an existing property definition in the database.
+        /// </summary>
+        /// <param name="key">The key of the property definition to update.</param>
+        /// <param name="name">The new display name of the property.</param>
+        /// <param name="type">The new type of the property values.</param>
+        /// <param name="unit">The new unit that number values are measured in. Defaults to null.</param>
+        /// <param name="isRequired">Whether every item must have a value for the property. Defaults to false.</param>
+        /// <param name="options">The new allowed values of an enum property. Defaults to null.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the property definition was found and updated; otherwise, false.</returns>
+        public async Task<bool> UpdateAsync(string key, string name, string type, string? unit = null, bool isRequired = false, IEnumerable<string>? options = null, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string optionsJson = JsonSerializer.Serialize(options ?? Enumerable.Empty<string>());
+
+                string query = $@"
+                    UPDATE property_definitions
+                    SET name = @{nameof(name)},
+                        type = @{nameof(type)},
+                        unit = @{nameof(unit)},
+                        is_required = @{nameof(isRequired)},
+                        options = @optionsJson::jsonb,
+                        updated_at = NOW()
+                    WHERE key = @{nameof(key)}";
+
+                int rowsAffected = await dbSession.Connection.ExecuteAsync(
+                    query,
+                    new { key, name, type, unit, isRequired, optionsJson },
+                    transaction: dbSession.Transaction);
+
+                return rowsAffected > 0;
+            }, session);
+        }
+
+        /// <summary>
+        /// Deletes a property definition from the database. Item properties with the key are kept.
+        /// </summary>
+        /// <param name="key">The key of the property definition to delete.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the property definition was found and deleted; otherwise, false.</returns>
+        public async Task<bool> DeleteAsync(string key, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    DELETE FROM property_definitions
+                    WHERE key = @{nameof(key)}";
+
+                int rowsAffected = await dbSession.Connection.ExecuteAsync(
+                    query,
+                    new { key },
+                    transaction: dbSession.Transaction);
+
+                return rowsAffected > 0;
+            }, session);
+        }
+    }
+}
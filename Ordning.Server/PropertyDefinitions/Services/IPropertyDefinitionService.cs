@@ -0,0 +1,56 @@
+using Ordning.Server.PropertyDefinitions.Models;
+
+namespace Ordning.Server.PropertyDefinitions.Services
+{
+    /// <summary>
+    /// Service interface for property definition business logic operations.
+    /// </summary>
+    public interface IPropertyDefinitionService
+    {
+        /// <summary>
+        /// Gets all property definitions, ordered by name.
+        /// </summary>
+        /// <returns>A collection of all property definitions.</returns>
+        Task<IEnumerable<PropertyDefinition>> GetAllPropertyDefinitionsAsync();
+
+        /// <summary>
+        /// Gets a property definition by its key, ignoring case.
+        /// </summary>
+        /// <param name="key">The property key.</param>
+        /// <returns>The property definition if found; otherwise, null.</returns>
+        Task<PropertyDefinition?> GetPropertyDefinitionAsync(string key);
+
+        /// <summary>
+        /// Creates a new property definition.
+        /// </summary>
+        /// <param name="key">The property key that item properties are stored under.</param>
+        /// <param name="name">The display name of the property.</param>
+        /// <param name="type">The type of the property values. See <see cref="PropertyTypes"/>.</param>
+        /// <param name="unit">The unit that number values are measured in. Defaults to null.</param>
+        /// <param name="isRequired">Whether every item must have a value for the property. Defaults to false.</param>
+        /// <param name="options">The allowed values of an enum property. Defaults to null.</param>
+        /// <returns>The created property definition.</returns>
+        /// <exception cref="ArgumentException">Thrown when the key already exists or when any of the values are invalid.</exception>
+        Task<PropertyDefinition> CreatePropertyDefinitionAsync(string key, string name, string type, string? unit = null, bool isRequired = false, IEnumerable<string>? options = null);
+
+        /// <summary>
+        /// Updates an existing property definition. Values that items already have are not changed.
+        /// </summary>
+        /// <param name="key">The key of the property definition to update, ignoring case.</param>
+        /// <param name="name">The new display name of the property.</param>
+        /// <param name="type">The new type of the property values. See <see cref="PropertyTypes"/>.</param>
+        /// <param name="unit">The new unit that number values are measured in. Defaults to null.</param>
+        /// <param name="isRequired">Whether every item must have a value for the property. Defaults to false.</param>
+        /// <param name="options">The new allowed values of an enum property. Defaults to null.</param>
+        /// <returns>The updated property definition.</returns>
+        /// <exception cref="ArgumentException">Thrown when the definition does not exist or when any of the values are invalid.</exception>
+        Task<PropertyDefinition> UpdatePropertyDefinitionAsync(string key, string name, string type, string? unit = null, bool isRequired = false, IEnumerable<string>? options = null);
+
+        /// <summary>
+        /// Deletes a property definition. Items keep their values for the property, which become free-form text.
+        /// </summary>
+        /// <param name="key">The key of the property definition to delete, ignoring case.</param>
+        /// <returns>True if the property definition was found and deleted; otherwise, false.</returns>
+        Task<bool> DeletePropertyDefinitionAsync(string key);
+    }
+}
@@ -0,0 +1,232 @@
+using Ordning.Server.PropertyDefinitions.Models;
+using Ordning.Server.PropertyDefinitions.Repositories;
+
+namespace Ordning.Server.PropertyDefinitions.Services
+{
+    /// <summary>
+    /// Implementation of <see cref="IPropertyDefinitionService"/> that provides property definition business logic operations.
+    /// </summary>
+    public class PropertyDefinitionService : IPropertyDefinitionService
+    {
+        /// <summary>
+        /// The maximum length of a property key.
+        /// </summary>
+        public const int MaxKeyLength = 100;
+
+        /// <summary>
+        /// The maximum length of a property display name.
+        /// </summary>
+        public const int MaxNameLength = 255;
+
+        /// <summary>
+        /// The maximum length of a property unit.
+        /// </summary>
+        public const int MaxUnitLength = 32;
+
+        private readonly IPropertyDefinitionRepository _propertyDefinitionRepository;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="PropertyDefinitionService"/> class.
+        /// </summary>
+        /// <param name="propertyDefinitionRepository">The property definition repository for database access.</param>
+        public PropertyDefinitionService(IPropertyDefinitionRepository propertyDefinitionRepository)
+        {
+            _propertyDefinitionRepository = propertyDefinitionRepository;
+        }
+
+        /// <summary>
+        /// Gets all property definitions, ordered by name.
+        /// </summary>
+        /// <returns>A collection of all property definitions.</returns>
+        public async Task<IEnumerable<PropertyDefinition>> GetAllPropertyDefinitionsAsync()
+        {
+            IEnumerable<PropertyDefinitionDbModel> definitions = await _propertyDefinitionRepository.GetAllAsync();
+            return definitions.Select(d => d.ToDomainPropertyDefinition());
+        }
+
+        /// <summary>
+        /// Gets a property definition by its key, ignoring case.
+        /// </summary>
+        /// <param name="key">The property key.</param>
+        /// <returns>The property definition if found; otherwise, null.</returns>
+        public async Task<PropertyDefinition?> GetPropertyDefinitionAsync(string key)
+        {
+            PropertyDefinitionDbModel? definition = await _propertyDefinitionRepository.GetByKeyAsync(key);
+            return definition?.ToDomainPropertyDefinition();
+        }
+
+        /// <summary>
+        /// Creates a new property definition.
+        /// </summary>
+        /// <param name="key">The property key that item properties are stored under.</param>
+        /// <param name="name">The display name of the property.</param>
+        /// <param name="type">The type of the property values. See <see cref="PropertyTypes"/>.</param>
+        /// <param name="unit">The unit that number values are measured in. Defaults to null.</param>
+        /// <param name="isRequired">Whether every item must have a value for the property. Defaults to false.</param>
+        /// <param name="options">The allowed values of an enum property. Defaults to null.</param>
+        /// <returns>The created property definition.</returns>
+        /// <exception cref="ArgumentException">Thrown when the key already exists or when any of the values are invalid.</exception>
+        public async Task<PropertyDefinition> CreatePropertyDefinitionAsync(string key, string name, string type, string? unit = null, bool isRequired = false, IEnumerable<string>? options = null)
+        {
+            string trimmedKey = (key ?? string.Empty).Trim();
+            if (string.IsNullOrEmpty(trimmedKey))
+            {
+                throw new ArgumentException("Property key cannot be empty.", nameof(key));
+            }
+
+            if (trimmedKey.Length > MaxKeyLength)
+            {
+                throw new ArgumentException($"Property key cannot be longer than {MaxKeyLength} characters.", nameof(key));
+            }
+
+            if (trimmedKey.Contains('='))
+            {
+                throw new ArgumentException("Property key cannot contain '='.", nameof(key));
+            }
+
+            PropertyDefinitionDbModel? existingDefinition = await _propertyDefinitionRepository.GetByKeyAsync(trimmedKey);
+            if (existingDefinition != null)
+            {
+                throw new ArgumentException($"A property definition with key '{existingDefinition.Key}' already exists.", nameof(key));
+            }
+
+            PropertyDefinition definition = ValidateDefinition(trimmedKey, name, type, unit, isRequired, options);
+            PropertyDefinitionDbModel created = await _propertyDefinitionRepository.CreateAsync(
+                key: definition.Key,
+                name: definition.Name,
+                type: definition.Type,
+                unit: definition.Unit,
+                isRequired: definition.IsRequired,
+                options: definition.Options);
+
+            return created.ToDomainPropertyDefinition();
+        }
+
+        /// <summary>
+        /// Updates an existing property definition. Values that items already have are not changed.
+        /// </summary>
+        /// <param name="key">The key of the property definition to update, ignoring case.</param>
+        /// <param name="name">The new display name of the property.</param>
+        /// <param name="type">The new type of the property values. See <see cref="PropertyTypes"/>.</param>
+        /// <param name="unit">The new unit that number values are measured in. Defaults to null.</param>
+        /// <param name="isRequired">Whether every item must have a value for the property. Defaults to false.</param>
+        /// <param name="options">The new allowed values of an enum property. Defaults to null.</param>
+        /// <returns>The updated property definition.</returns>
+        /// <exception cref="ArgumentException">Thrown when the definition does not exist or when any of the values are invalid.</exception>
+        public async Task<PropertyDefinition> UpdatePropertyDefinitionAsync(string key, string name, string type, string? unit = null, bool isRequired = false, IEnumerable<string>? options = null)
+        {
+            PropertyDefinitionDbModel? existingDefinition = await _propertyDefinitionRepository.GetByKeyAsync(key);
+            if (existingDefinition == null)
+            {
+                throw new ArgumentException($"Property definition with key '{key}' does not exist.", nameof(key));
+            }
+
+            PropertyDefinition definition = ValidateDefinition(existingDefinition.Key, name, type, unit, isRequired, options);
+            bool updated = await _propertyDefinitionRepository.UpdateAsync(
+                key: definition.Key,
+                name: definition.Name,
+                type: definition.Type,
+                unit: definition.Unit,
+                isRequired: definition.IsRequired,
+                options: definition.Options);
+
+            if (!updated)
+            {
+                throw new ArgumentException($"Failed to update property definition with key '{key}'.", nameof(key));
+            }
+
+            PropertyDefinitionDbModel? updatedDefinition = await _propertyDefinitionRepository.GetByKeyAsync(definition.Key);
+            if (updatedDefinition == null)
+            {
+                throw new InvalidOperationException($"Property definition with key '{key}' was updated but could not be retrieved.");
+            }
+
+            return updatedDefinition.ToDomainPropertyDefinition();
+        }
+
+        /// <summary>
+        /// Deletes a property definition. Items keep their values for the property, which become free-form text.
+        /// </summary>
+        /// <param name="key">The key of the property definition to delete, ignoring case.</param>
+        /// <returns>True if the property definition was found and deleted; otherwise, false.</returns>
+        public async Task<bool> DeletePropertyDefinitionAsync(string key)
+        {
+            PropertyDefinitionDbModel? existingDefinition = await _propertyDefinitionRepository.GetByKeyAsync(key);
+            if (existingDefinition == null)
+            {
+                return false;
+            }
+
+            return await _propertyDefinitionRepository.DeleteAsync(existingDefinition.Key);
+        }
+
+        /// <summary>
+        /// Checks the values of a property definition and returns them trimmed, with duplicate enum options removed.
+        /// </summary>
+        /// <param name="key">The property key.</param>
+        /// <param name="name">The display name of the property.</param>
+        /// <param name="type">The type of the property values.</param>
+        /// <param name="unit">The unit that number values are measured in.</param>
+        /// <param name="isRequired">Whether every item must have a value for the property.</param>
+        /// <param name="options">The allowed values of an enum property.</param>
+        /// <returns>The validated property definition.</returns>
+        /// <exception cref="ArgumentException">Thrown when any of the values are invalid.</exception>
+        private static PropertyDefinition ValidateDefinition(string key, string name, string type, string? unit, bool isRequired, IEnumerable<string>? options)
+        {
+            string trimmedName = (name ?? string.Empty).Trim();
+            if (string.IsNullOrEmpty(trimmedName))
+            {
+                throw new ArgumentException("Property name cannot be empty.", nameof(name));
+            }
+
+            if (trimmedName.Length > MaxNameLength)
+            {
+                throw new ArgumentException($"Property name cannot be longer than {MaxNameLength} characters.", nameof(name));
+            }
+
+            string normalizedType = (type ?? string.Empty).Trim().ToLowerInvariant();
+            if (!PropertyTypes.IsValid(normalizedType))
+            {
+                throw new ArgumentException($"Unknown property type '{type}'. Use one of: {string.Join(", ", PropertyTypes.All)}.", nameof(type));
+            }
+
+            string? trimmedUnit = string.IsNullOrWhiteSpace(unit) ? null : unit.Trim();
+            if (trimmedUnit != null && normalizedType != PropertyTypes.Number)
+            {
+                throw new ArgumentException("Only number properties can have a unit.", nameof(unit));
+            }
+
+            if (trimmedUnit != null && trimmedUnit.Length > MaxUnitLength)
+            {
+                throw new ArgumentException($"Unit cannot be longer than {MaxUnitLength} characters.", nameof(unit));
+            }
+
+            List<string> distinctOptions = new List<string>();
+            foreach (string option in (options ?? Enumerable.Empty<string>()).Select(o => (o ?? string.Empty).Trim()))
+            {
+                if (option.Length > 0 && !distinctOptions.Contains(option, StringComparer.OrdinalIgnoreCase))
+                {
+                    distinctOptions.Add(option);
+                }
+            }
+
+            if (normalizedType == PropertyTypes.Enum && distinctOptions.Count == 0)
+            {
+                throw new ArgumentException("An enum property needs at least one option.", nameof(options));
+            }
+
+            if (normalizedType != PropertyTypes.Enum && distinctOptions.Count > 0)
+            {
+                throw new ArgumentException("Only enum properties can have options.", nameof(options));
+            }
+
+            return new PropertyDefinition(
+                key: key,
+                name: trimmedName,
+                type: normalizedType,
+                unit: trimmedUnit,
+                isRequired: isRequired,
+                options: distinctOptions);
+        }
+    }
+}
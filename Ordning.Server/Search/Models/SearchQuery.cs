@@ -0,0 +1,279 @@
+using System.Globalization;
+using System.Text;
+
+namespace Ordning.Server.Search.Models
+{
+    /// <summary>
+    /// Represents a parsed search query. Queries combine free text with quoted phrases, excluded terms
+    /// and filters, for example: in:G1 color:red -broken "power drill" updated:&gt;2026-01-01
+    /// </summary>
+    public class SearchQuery
+    {
+        /// <summary>
+        /// The filter key that limits results to a location and all of its descendants.
+        /// </summary>
+        public const string LocationFilterKey = "in";
+
+        /// <summary>
+        /// The filter key that compares against the creation date.
+        /// </summary>
+        public const string CreatedFilterKey = "created";
+
+        /// <summary>
+        /// The filter key that compares against the last update date.
+        /// </summary>
+        public const string UpdatedFilterKey = "updated";
+
+        /// <summary>
+        /// The format that date filter values must be written in.
+        /// </summary>
+        public const string DateFormat = "yyyy-MM-dd";
+
+        /// <summary>
+        /// Gets the free text words of the query, separated by spaces.
+        /// </summary>
+        public string Text { get; }
+
+        /// <summary>
+        /// Gets the quoted phrases that results must contain.
+        /// </summary>
+        public IReadOnlyList<string> Phrases { get; }
+
+        /// <summary>
+        /// Gets the words and phrases that results must not contain.
+        /// </summary>
+        public IReadOnlyList<string> ExcludedTerms { get; }
+
+        /// <summary>
+        /// Gets the "key:value" filters of the query.
+        /// </summary>
+        public IReadOnlyList<SearchQueryFilter> Filters { get; }
+
+        /// <summary>
+        /// Gets a value indicating whether the query has any words or phrases to match.
+        /// </summary>
+        public bool HasText => !string.IsNullOrWhiteSpace(Text) || Phrases.Count > 0;
+
+        /// <summary>
+        /// Gets a value indicating whether the query is only free text, without phrases, exclusions or filters.
+        /// </summary>
+        public bool IsPlainText => Phrases.Count == 0 && ExcludedTerms.Count == 0 && Filters.Count == 0;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="SearchQuery"/> class.
+        /// </summary>
+        /// <param name="text">The free text words of the query.</param>
+        /// <param name="phrases">The quoted phrases that results must contain.</param>
+        /// <param name="excludedTerms">The words and phrases that results must not contain.</param>
+        /// <param name="filters">The "key:value" filters of the query.</param>
+        public SearchQuery(string text, IReadOnlyList<string> phrases, IReadOnlyList<string> excludedTerms, IReadOnlyList<SearchQueryFilter> filters)
+        {
+            Text = text;
+            Phrases = phrases;
+            ExcludedTerms = excludedTerms;
+            Filters = filters;
+        }
+
+        /// <summary>
+        /// Creates a query that matches the given text as free text, without interpreting any query syntax.
+        /// </summary>
+        /// <param name="text">The text to match.</param>
+        /// <returns>A plain text query.</returns>
+        public static SearchQuery FromText(string? text)
+        {
+            return new SearchQuery(
+                text: text ?? string.Empty,
+                phrases: Array.Empty<string>(),
+                excludedTerms: Array.Empty<string>(),
+                filters: Array.Empty<SearchQueryFilter>());
+        }
+
+        /// <summary>
+        /// Parses a search query. Words separated by whitespace are free text, "quoted text" is a phrase,
+        /// a leading "-" excludes a word, phrase or filter, and "key:value" is a filter. Filter values may be
+        /// quoted, and date filters may start with a comparison operator (&gt;, &gt;=, &lt;, &lt;=).
+        /// Filters without a value are ignored so that a query can be searched while it is being typed.
+        /// </summary>
+        /// <param name="query">The query to parse.</param>
+        /// <returns>The parsed query.</returns>
+        /// <exception cref="ArgumentException">Thrown when a date filter has an invalid date, or another filter uses a comparison operator.</exception>
+        public static SearchQuery Parse(string? query)
+        {
+            string input = query ?? string.Empty;
+            List<string> words = new List<string>();
+            List<string> phrases = new List<string>();
+            List<string> excludedTerms = new List<string>();
+            List<SearchQueryFilter> filters = new List<SearchQueryFilter>();
+
+            int position = 0;
+            while (position < input.Length)
+            {
+                if (char.IsWhiteSpace(input[position]))
+                {
+                    position++;
+                    continue;
+                }
+
+                bool isNegated = false;
+                if (input[position] == '-' && position + 1 < input.Length && !char.IsWhiteSpace(input[position + 1]))
+                {
+                    isNegated = true;
+                    position++;
+                }
+
+                if (input[position] == '"')
+                {
+                    string phrase = ReadQuoted(input, ref position).Trim();
+                    if (phrase.Length > 0)
+                    {
+                        (isNegated ? excludedTerms : phrases).Add(phrase);
+                    }
+
+                    continue;
+                }
+
+                int tokenStart = position;
+                while (position < input.Length && !char.IsWhiteSpace(input[position]) && input[position] != ':' && input[position] != '"')
+                {
+                    position++;
+                }
+
+                if (position < input.Length && input[position] == ':' && position > tokenStart)
+                {
+                    string key = input.Substring(tokenStart, position - tokenStart);
+                    position++;
+                    string rawValue = position < input.Length && input[position] == '"'
+                        ? ReadQuoted(input, ref position)
+                        : ReadUntilWhiteSpace(input, ref position);
+
+                    SearchQueryFilter? filter = CreateFilter(key, rawValue, isNegated);
+                    if (filter != null)
+                    {
+                        filters.Add(filter);
+                    }
+
+                    continue;
+                }
+
+                position = tokenStart;
+                string word = ReadUntilWhiteSpace(input, ref position);
+                (isNegated ? excludedTerms : words).Add(word);
+            }
+
+            return new SearchQuery(
+                text: string.Join(" ", words),
+                phrases: phrases,
+                excludedTerms: excludedTerms,
+                filters: filters);
+        }
+
+        /// <summary>
+        /// Checks whether a filter key is one of the keys with a built-in meaning, rather than a property key.
+        /// </summary>
+        /// <param name="key">The filter key.</param>
+        /// <returns>True if the key is "in", "created" or "updated", ignoring case; otherwise, false.</returns>
+        public static bool IsReservedFilterKey(string key)
+        {
+            return string.Equals(key, LocationFilterKey, StringComparison.OrdinalIgnoreCase) || IsDateFilterKey(key);
+        }
+
+        /// <summary>
+        /// Checks whether a filter key compares against a date.
+        /// </summary>
+        /// <param name="key">The filter key.</param>
+        /// <returns>True if the key is "created" or "updated", ignoring case; otherwise, false.</returns>
+        public static bool IsDateFilterKey(string key)
+        {
+            return string.Equals(key, CreatedFilterKey, StringComparison.OrdinalIgnoreCase)
+                || string.Equals(key, UpdatedFilterKey, StringComparison.OrdinalIgnoreCase);
+        }
+
+        /// <summary>
+        /// Parses the value of a date filter.
+        /// </summary>
+        /// <param name="filter">The date filter.</param>
+        /// <returns>The date of the filter.</returns>
+        /// <exception cref="ArgumentException">Thrown when the value is not a date in the <see cref="DateFormat"/> format.</exception>
+        public static DateOnly ParseFilterDate(SearchQueryFilter filter)
+        {
+            if (!DateOnly.TryParseExact(filter.Value, DateFormat, CultureInfo.InvariantCulture, DateTimeStyles.None, out DateOnly date))
+            {
+                throw new ArgumentException($"'{filter.Value}' is not a valid date for '{filter.Key}:'. Use the format {DateFormat}.", nameof(filter));
+            }
+
+            return date;
+        }
+
+        /// <summary>
+        /// Creates a filter from a key and its raw value, splitting off any comparison operator.
+        /// </summary>
+        /// <param name="key">The filter key.</param>
+        /// <param name="rawValue">The value as written, including any comparison operator.</param>
+        /// <param name="isNegated">Whether the filter was negated.</param>
+        /// <returns>The filter, or null if it has no value.</returns>
+        /// <exception cref="ArgumentException">Thrown when the filter is invalid for its key.</exception>
+        private static SearchQueryFilter? CreateFilter(string key, string rawValue, bool isNegated)
+        {
+            (SearchFilterOperator filterOperator, int operatorLength) = rawValue switch
+            {
+                _ when rawValue.StartsWith(">=") => (SearchFilterOperator.GreaterThanOrEqual, 2),
+                _ when rawValue.StartsWith("<=") => (SearchFilterOperator.LessThanOrEqual, 2),
+                _ when rawValue.StartsWith('>') => (SearchFilterOperator.GreaterThan, 1),
+                _ when rawValue.StartsWith('<') => (SearchFilterOperator.LessThan, 1),
+                _ when rawValue.StartsWith('=') => (SearchFilterOperator.Equal, 1),
+                _ => (SearchFilterOperator.Equal, 0)
+            };
+
+            string value = rawValue.Substring(operatorLength).Trim();
+            if (value.Length == 0)
+            {
+                return null;
+            }
+
+            SearchQueryFilter filter = new SearchQueryFilter(key: key, filterOperator: filterOperator, value: value, isNegated: isNegated);
+            if (IsDateFilterKey(key))
+            {
+                ParseFilterDate(filter);
+            }
+            else if (filterOperator != SearchFilterOperator.Equal)
+            {
+                throw new ArgumentException($"Filter '{key}:' can only match exact values. Comparisons are supported for '{CreatedFilterKey}:' and '{UpdatedFilterKey}:'.", nameof(key));
+            }
+
+            return filter;
+        }
+
+        /// <summary>
+        /// Reads a quoted section starting at the opening quote. A missing closing quote reads to the end of the input.
+        /// </summary>
+        /// <param name="input">The query being parsed.</param>
+        /// <param name="position">The position of the opening quote, moved past the closing quote.</param>
+        /// <returns>The text between the quotes.</returns>
+        private static string ReadQuoted(string input, ref int position)
+        {
+            int closingQuote = input.IndexOf('"', position + 1);
+            int end = closingQuote < 0 ? input.Length : closingQuote;
+            string text = input.Substring(position + 1, end - position - 1);
+            position = closingQuote < 0 ? input.Length : closingQuote + 1;
+            return text;
+        }
+
+        /// <summary>
+        /// Reads characters until the next whitespace or the end of the input.
+        /// </summary>
+        /// <param name="input">The query being parsed.</param>
+        /// <param name="position">The position to start at, moved to the end of the read text.</param>
+        /// <returns>The text that was read.</returns>
+        private static string ReadUntilWhiteSpace(string input, ref int position)
+        {
+            StringBuilder builder = new StringBuilder();
+            while (position < input.Length && !char.IsWhiteSpace(input[position]))
+            {
+                builder.Append(input[position]);
+                position++;
+            }
+
+            return builder.ToString();
+        }
+    }
+}
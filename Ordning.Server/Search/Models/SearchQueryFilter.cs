@@ -0,0 +1,84 @@
+namespace Ordning.Server.Search.Models
+{
+    /// <summary>
+    /// The comparison a search query filter makes between a field and its value.
+    /// </summary>
+    public enum SearchFilterOperator
+    {
+        /// <summary>
+        /// The field must equal the value. Written as "key:value" or "key:=value".
+        /// </summary>
+        Equal,
+
+        /// <summary>
+        /// The field must be greater than the value. Written as "key:&gt;value".
+        /// </summary>
+        GreaterThan,
+
+        /// <summary>
+        /// The field must be greater than or equal to the value. Written as "key:&gt;=value".
+        /// </summary>
+        GreaterThanOrEqual,
+
+        /// <summary>
+        /// The field must be less than the value. Written as "key:&lt;value".
+        /// </summary>
+        LessThan,
+
+        /// <summary>
+        /// The field must be less than or equal to the value. Written as "key:&lt;=value".
+        /// </summary>
+        LessThanOrEqual
+    }
+
+    /// <summary>
+    /// Represents a "key:value" filter in a search query.
+    /// </summary>
+    public class SearchQueryFilter
+    {
+        /// <summary>
+        /// Gets the key of the filter, such as "in", "updated" or a property key.
+        /// </summary>
+        public string Key { get; }
+
+        /// <summary>
+        /// Gets the comparison the filter makes.
+        /// </summary>
+        public SearchFilterOperator Operator { get; }
+
+        /// <summary>
+        /// Gets the value of the filter, without any comparison operator.
+        /// </summary>
+        public string Value { get; }
+
+        /// <summary>
+        /// Gets a value indicating whether the filter was negated with a leading "-", so matches are excluded.
+        /// </summary>
+        public bool IsNegated { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="SearchQueryFilter"/> class.
+        /// </summary>
+        /// <param name="key">The key of the filter.</param>
+        /// <param name="filterOperator">The comparison the filter makes.</param>
+        /// <param name="value">The value of the filter.</param>
+        /// <param name="isNegated">Whether matches are excluded instead of required.</param>
+        public SearchQueryFilter(string key, SearchFilterOperator filterOperator, string value, bool isNegated)
+        {
+            Key = key;
+            Operator = filterOperator;
+            Value = value;
+            IsNegated = isNegated;
+        }
+
+        /// <summary>
+        /// Checks whether the filter has the given key, ignoring case.
+        /// </summary>
+        /// <param name="key">The key to compare with.</param>
+        /// <returns>True if the keys are equal ignoring case; otherwise, false.</returns>
+        public bool HasKey(string key)
+        {
+            return string.Equals(Key, key, StringComparison.OrdinalIgnoreCase);
+        }
+    }
+}
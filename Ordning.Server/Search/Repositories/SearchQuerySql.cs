@@ -0,0 +1,114 @@
+using Dapper;
+using Ordning.Server.Search.Models;
+
+namespace Ordning.Server.Search.Repositories
+{
+    /// <summary>
+    /// Builds the SQL conditions and parameters shared by the item and location search queries.
+    /// </summary>
+    public static class SearchQuerySql
+    {
+        /// <summary>
+        /// Combines conditions into a WHERE clause where all conditions must match.
+        /// </summary>
+        /// <param name="conditions">The conditions to combine.</param>
+        /// <returns>The WHERE clause, or an empty string if there are no conditions.</returns>
+        public static string BuildWhereClause(IEnumerable<string> conditions)
+        {
+            List<string> conditionList = conditions.ToList();
+            return conditionList.Count == 0
+                ? string.Empty
+                : "WHERE " + string.Join(" AND ", conditionList.Select(condition => $"({condition})"));
+        }
+
+        /// <summary>
+        /// Adds conditions requiring every phrase of the query and excluding every excluded term.
+        /// </summary>
+        /// <param name="query">The search query.</param>
+        /// <param name="documentExpression">The SQL expression for the text search document of a row.</param>
+        /// <param name="conditions">The conditions to add to.</param>
+        /// <param name="parameters">The query parameters to add to.</param>
+        public static void AddPhraseConditions(SearchQuery query, string documentExpression, List<string> conditions, DynamicParameters parameters)
+        {
+            for (int index = 0; index < query.Phrases.Count; index++)
+            {
+                string parameterName = $"queryPhrase{index}";
+                parameters.Add(parameterName, query.Phrases[index]);
+                conditions.Add($"{documentExpression} @@ phraseto_tsquery('english', @{parameterName})");
+            }
+
+            for (int index = 0; index < query.ExcludedTerms.Count; index++)
+            {
+                string parameterName = $"queryExcluded{index}";
+                parameters.Add(parameterName, query.ExcludedTerms[index]);
+                conditions.Add($"NOT ({documentExpression} @@ phraseto_tsquery('english', @{parameterName}))");
+            }
+        }
+
+        /// <summary>
+        /// Adds the condition for a "created:" or "updated:" filter. Dates are whole UTC days, so "updated:2026-01-01"
+        /// matches the entire day and "updated:&gt;2026-01-01" starts at the following day.
+        /// </summary>
+        /// <param name="filter">The date filter.</param>
+        /// <param name="parameterName">A parameter name that is unique within the query.</param>
+        /// <param name="conditions">The conditions to add to.</param>
+        /// <param name="parameters">The query parameters to add to.</param>
+        /// <exception cref="ArgumentException">Thrown when the filter value is not a valid date.</exception>
+        public static void AddDateFilterCondition(SearchQueryFilter filter, string parameterName, List<string> conditions, DynamicParameters parameters)
+        {
+            string column = filter.HasKey(SearchQuery.CreatedFilterKey) ? "created_at" : "updated_at";
+            DateOnly date = SearchQuery.ParseFilterDate(filter);
+            DateTimeOffset dayStart = new DateTimeOffset(date.ToDateTime(TimeOnly.MinValue), TimeSpan.Zero);
+            DateTimeOffset dayEnd = dayStart.AddDays(1);
+
+            string startParameter = $"{parameterName}Start";
+            string endParameter = $"{parameterName}End";
+            parameters.Add(startParameter, dayStart);
+            parameters.Add(endParameter, dayEnd);
+
+            string condition = filter.Operator switch
+            {
+                SearchFilterOperator.GreaterThan => $"{column} >= @{endParameter}",
+                SearchFilterOperator.GreaterThanOrEqual => $"{column} >= @{startParameter}",
+                SearchFilterOperator.LessThan => $"{column} < @{startParameter}",
+                SearchFilterOperator.LessThanOrEqual => $"{column} < @{endParameter}",
+                _ => $"{column} >= @{startParameter} AND {column} < @{endParameter}"
+            };
+
+            conditions.Add(filter.IsNegated ? $"NOT ({condition})" : condition);
+        }
+
+        /// <summary>
+        /// Adds the condition for an "in:" filter, matching rows whose location column is the filtered location or any of its descendants.
+        /// Location identifiers are compared ignoring case.
+        /// </summary>
+        /// <param name="filter">The location filter.</param>
+        /// <param name="locationColumn">The SQL expression for the location identifier of a row.</param>
+        /// <param name="includeRoot">Whether the filtered location itself matches, or only its descendants.</param>
+        /// <param name="parameterName">A parameter name that is unique within the query.</param>
+        /// <param name="conditions">The conditions to add to.</param>
+        /// <param name="parameters">The query parameters to add to.</param>
+        public static void AddLocationFilterCondition(SearchQueryFilter filter, string locationColumn, bool includeRoot, string parameterName, List<string> conditions, DynamicParameters parameters)
+        {
+            parameters.Add(parameterName, filter.Value);
+            string rootCondition = includeRoot ? string.Empty : "WHERE depth > 0";
+
+            string condition = $@"{locationColumn} IN (
+                            WITH RECURSIVE location_subtree AS (
+                                SELECT id, 0 AS depth
+                                FROM locations
+                                WHERE LOWER(id) = LOWER(@{parameterName})
+
+                                UNION ALL
+
+                                SELECT child.id, location_subtree.depth + 1
+                                FROM locations child
+                                INNER JOIN location_subtree ON child.parent_location_id = location_subtree.id
+                            )
+                            SELECT id FROM location_subtree {rootCondition}
+                        )";
+
+            conditions.Add(filter.IsNegated ? $"NOT ({condition})" : condition);
+        }
+    }
+}
@@ -0,0 +1,88 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.RateLimiting;
+using Ordning.Server.RateLimiting;
+using Ordning.Server.Sessions.Models;
+using Ordning.Server.Sessions.Services;
+
+namespace Ordning.Server.Sessions.Controllers
+{
+    /// <summary>
+    /// Controller for signed in sessions. A session has a short-lived access token and a refresh token that the client
+    /// exchanges for new tokens before the access token expires.
+    /// </summary>
+    [ApiController]
+    [Route("api/[controller]")]
+    [EnableRateLimiting(RateLimitPolicies.Strict)]
+    public class SessionController : ControllerBase
+    {
+        private readonly ISessionService _sessionService;
+        private readonly ILogger<SessionController> _logger;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="SessionController"/> class.
+        /// </summary>
+        /// <param name="sessionService">The session service.</param>
+        /// <param name="logger">The logger.</param>
+        public SessionController(ISessionService sessionService, ILogger<SessionController> logger)
+        {
+            _sessionService = sessionService;
+            _logger = logger;
+        }
+
+        /// <summary>
+        /// Signs in with a username and password and starts a new session.
+        /// </summary>
+        /// <param name="request">The sign in request.</param>
+        /// <returns>The tokens of the new session.</returns>
+        [HttpPost]
+        [EnableRateLimiting(RateLimitPolicies.VeryStrict)]
+        [AllowAnonymous]
+        [ProducesResponseType(typeof(SessionTokens), 200)]
+        [ProducesResponseType(401)]
+        public async Task<ActionResult<SessionTokens>> CreateSession([FromBody] CreateSessionRequest request)
+        {
+            SessionTokens? tokens = await _sessionService.CreateSessionAsync(request.Username, request.Password);
+            if (tokens == null)
+            {
+                return Unauthorized("Invalid username or password.");
+            }
+
+            return Ok(tokens);
+        }
+
+        /// <summary>
+        /// Exchanges a refresh token for new tokens. The old refresh token stops working.
+        /// </summary>
+        /// <param name="request">The request with the refresh token.</param>
+        /// <returns>The new tokens of the session.</returns>
+        [HttpPost("refresh")]
+        [AllowAnonymous]
+        [ProducesResponseType(typeof(SessionTokens), 200)]
+        [ProducesResponseType(401)]
+        public async Task<ActionResult<SessionTokens>> RefreshSession([FromBody] RefreshSessionRequest request)
+        {
+            SessionTokens? tokens = await _sessionService.RefreshSessionAsync(request.RefreshToken);
+            if (tokens == null)
+            {
+                return Unauthorized("The session has expired. Sign in again.");
+            }
+
+            return Ok(tokens);
+        }
+
+        /// <summary>
+        /// Ends a session, so that its refresh token cannot be used anymore.
+        /// </summary>
+        /// <param name="request">The request with the refresh token.</param>
+        /// <returns>204 No Content.</returns>
+        [HttpPost("end")]
+        [AllowAnonymous]
+        [ProducesResponseType(204)]
+        public async Task<IActionResult> EndSession([FromBody] RefreshSessionRequest request)
+        {
+            await _sessionService.EndSessionAsync(request.RefreshToken);
+            return NoContent();
+        }
+    }
+}
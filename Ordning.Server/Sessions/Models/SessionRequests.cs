@@ -0,0 +1,29 @@
+namespace Ordning.Server.Sessions.Models
+{
+    /// <summary>
+    /// Request model for signing in with a username and password.
+    /// </summary>
+    public class CreateSessionRequest
+    {
+        /// <summary>
+        /// Gets or sets the username or email of the user.
+        /// </summary>
+        public string Username { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the password of the user.
+        /// </summary>
+        public string Password { get; set; } = string.Empty;
+    }
+
+    /// <summary>
+    /// Request model for renewing or ending a session with its refresh token.
+    /// </summary>
+    public class RefreshSessionRequest
+    {
+        /// <summary>
+        /// Gets or sets the refresh token of the session.
+        /// </summary>
+        public string RefreshToken { get; set; } = string.Empty;
+    }
+}
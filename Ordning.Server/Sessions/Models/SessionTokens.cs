@@ -0,0 +1,43 @@
+namespace Ordning.Server.Sessions.Models
+{
+    /// <summary>
+    /// Represents the tokens of a signed in session: a short-lived access token and the refresh token that renews it.
+    /// </summary>
+    public class SessionTokens
+    {
+        /// <summary>
+        /// Gets the JWT access token that is sent with every request.
+        /// </summary>
+        public string Token { get; }
+
+        /// <summary>
+        /// Gets the UTC timestamp when the access token expires.
+        /// </summary>
+        public DateTimeOffset ExpiresAt { get; }
+
+        /// <summary>
+        /// Gets the refresh token. It can be exchanged once for new tokens.
+        /// </summary>
+        public string RefreshToken { get; }
+
+        /// <summary>
+        /// Gets the UTC timestamp when the refresh token expires and the user has to sign in again.
+        /// </summary>
+        public DateTimeOffset RefreshTokenExpiresAt { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="SessionTokens"/> class.
+        /// </summary>
+        /// <param name="token">The JWT access token.</param>
+        /// <param name="expiresAt">The UTC timestamp when the access token expires.</param>
+        /// <param name="refreshToken">The refresh token.</param>
+        /// <param name="refreshTokenExpiresAt">The UTC timestamp when the refresh token expires.</param>
+        public SessionTokens(string token, DateTimeOffset expiresAt, string refreshToken, DateTimeOffset refreshTokenExpiresAt)
+        {
+            Token = token;
+            ExpiresAt = expiresAt;
+            RefreshToken = refreshToken;
+            RefreshTokenExpiresAt = refreshTokenExpiresAt;
+        }
+    }
+}
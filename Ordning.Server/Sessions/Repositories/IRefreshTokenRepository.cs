@@ -0,0 +1,54 @@
+using EasyReasy.Database;
+
+namespace Ordning.Server.Sessions.Repositories
+{
+    /// <summary>
+    /// Repository interface for refresh token data access operations.
+    /// </summary>
+    public interface IRefreshTokenRepository : IRepository
+    {
+        /// <summary>
+        /// Gets a refresh token by the hash of the token.
+        /// </summary>
+        /// <param name="tokenHash">The SHA-256 hash of the token, as lowercase hex.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The refresh token database model if found; otherwise, null.</returns>
+        Task<RefreshTokenDbModel?> GetByTokenHashAsync(string tokenHash, IDbSession? session = null);
+
+        /// <summary>
+        /// Creates a new refresh token.
+        /// </summary>
+        /// <param name="id">The unique identifier for the refresh token.</param>
+        /// <param name="userId">The unique identifier of the user the token belongs to.</param>
+        /// <param name="familyId">The unique identifier of the token family.</param>
+        /// <param name="tokenHash">The SHA-256 hash of the token, as lowercase hex.</param>
+        /// <param name="expiresAt">The UTC timestamp when the token stops working.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The created refresh token database model.</returns>
+        Task<RefreshTokenDbModel> CreateAsync(Guid id, Guid userId, Guid familyId, string tokenHash, DateTimeOffset expiresAt, IDbSession? session = null);
+
+        /// <summary>
+        /// Marks a refresh token as used, unless it has already been used or revoked.
+        /// </summary>
+        /// <param name="id">The unique identifier of the refresh token.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if this call marked the token as used; otherwise, false.</returns>
+        Task<bool> MarkUsedAsync(Guid id, IDbSession? session = null);
+
+        /// <summary>
+        /// Revokes every token in a family that has not been revoked yet.
+        /// </summary>
+        /// <param name="familyId">The unique identifier of the token family.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The number of tokens that were revoked.</returns>
+        Task<int> RevokeFamilyAsync(Guid familyId, IDbSession? session = null);
+
+        /// <summary>
+        /// Revokes every token of a user that has not been revoked yet, which ends all of the user's sessions.
+        /// </summary>
+        /// <param name="userId">The unique identifier of the user.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The number of tokens that were revoked.</returns>
+        Task<int> RevokeAllForUserAsync(Guid userId, IDbSession? session = null);
+    }
+}
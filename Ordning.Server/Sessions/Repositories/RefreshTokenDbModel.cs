@@ -0,0 +1,48 @@
+namespace Ordning.Server.Sessions.Repositories
+{
+    /// <summary>
+    /// Database model representing a refresh token. Only the hash of the token is stored.
+    /// </summary>
+    public class RefreshTokenDbModel
+    {
+        /// <summary>
+        /// Gets or sets the unique identifier for the refresh token.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// Gets or sets the unique identifier of the user the token belongs to.
+        /// </summary>
+        public Guid UserId { get; set; }
+
+        /// <summary>
+        /// Gets or sets the unique identifier shared by every token that was rotated from the same sign in.
+        /// </summary>
+        public Guid FamilyId { get; set; }
+
+        /// <summary>
+        /// Gets or sets the SHA-256 hash of the token, as lowercase hex.
+        /// </summary>
+        public string TokenHash { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the UTC timestamp when the token stops working.
+        /// </summary>
+        public DateTimeOffset ExpiresAt { get; set; }
+
+        /// <summary>
+        /// Gets or sets the UTC timestamp when the token was exchanged for a new one, if it has been.
+        /// </summary>
+        public DateTimeOffset? UsedAt { get; set; }
+
+        /// <summary>
+        /// Gets or sets the UTC timestamp when the token was revoked, if it has been.
+        /// </summary>
+        public DateTimeOffset? RevokedAt { get; set; }
+
+        /// <summary>
+        /// Gets or sets the UTC timestamp when the token was created.
+        /// </summary>
+        public DateTimeOffset CreatedAt { get; set; }
+    }
+}
@@ -0,0 +1,156 @@
+using System.Data.Common;
+using Dapper;
+using EasyReasy.Database;
+
+namespace Ordning.Server.Sessions.Repositories
+{
+    /// <summary>
+    /// Repository implementation for refresh token data access operations.
+    /// </summary>
+    public class RefreshTokenRepository : RepositoryBase, IRefreshTokenRepository
+    {
+        private const string RefreshTokenColumns = @"
+                        id AS Id,
+                        user_id AS UserId,
+                        family_id AS FamilyId,
+                        token_hash AS TokenHash,
+                        expires_at AS ExpiresAt,
+                        used_at AS UsedAt,
+                        revoked_at AS RevokedAt,
+                        created_at AS CreatedAt";
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="RefreshTokenRepository"/> class.
+        /// </summary>
+        /// <param name="dataSource">The database data source.</param>
+        /// <param name="sessionFactory">The session factory for creating database sessions.</param>
+        public RefreshTokenRepository(DbDataSource dataSource, IDbSessionFactory sessionFactory)
+            : base(dataSource, sessionFactory)
+        {
+        }
+
+        /// <summary>
+        /// Gets a refresh token by the hash of the token.
+        /// </summary>
+        /// <param name="tokenHash">The SHA-256 hash of the token, as lowercase hex.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The refresh token database model if found; otherwise, null.</returns>
+        public async Task<RefreshTokenDbModel?> GetByTokenHashAsync(string tokenHash, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT {RefreshTokenColumns}
+                    FROM refresh_tokens
+                    WHERE token_hash = @{nameof(tokenHash)}";
+
+                RefreshTokenDbModel? result = await dbSession.Connection.QuerySingleOrDefaultAsync<RefreshTokenDbModel>(
+                    query,
+                    new { tokenHash },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Creates a new refresh token.
+        /// </summary>
+        /// <param name="id">The unique identifier for the refresh token.</param>
+        /// <param name="userId">The unique identifier of the user the token belongs to.</param>
+        /// <param name="familyId">The unique identifier of the token family.</param>
+        /// <param name="tokenHash">The SHA-256 hash of the token, as lowercase hex.</param>
+        /// <param name="expiresAt">The UTC timestamp when the token stops working.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The created refresh token database model.</returns>
+        public async Task<RefreshTokenDbModel> CreateAsync(Guid id, Guid userId, Guid familyId, string tokenHash, DateTimeOffset expiresAt, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    INSERT INTO refresh_tokens (id, user_id, family_id, token_hash, expires_at)
+                    VALUES (@{nameof(id)}, @{nameof(userId)}, @{nameof(familyId)}, @{nameof(tokenHash)}, @{nameof(expiresAt)})
+                    RETURNING {RefreshTokenColumns}";
+
+                RefreshTokenDbModel result = await dbSession.Connection.QuerySingleAsync<RefreshTokenDbModel>(
+                    query,
+                    new { id, userId, familyId, tokenHash, expiresAt },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Marks a refresh token as used, unless it has already been used or revoked.
+        /// </summary>
+        /// <param name="id">The unique identifier of the refresh token.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if this call marked the token as used; otherwise, false.</returns>
+        public async Task<bool> MarkUsedAsync(Guid id, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    UPDATE refresh_tokens
+                    SET used_at = NOW()
+                    WHERE id = @{nameof(id)} AND used_at IS NULL AND revoked_at IS NULL";
+
+                int rowsAffected = await dbSession.Connection.ExecuteAsync(
+                    query,
+                    new { id },
+                    transaction: dbSession.Transaction);
+
+                return rowsAffected > 0;
+            }, session);
+        }
+
+        /// <summary>
+        /// Revokes every token in a family that has not been revoked yet.
+        /// </summary>
+        /// <param name="familyId">The unique identifier of the token family.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The number of tokens that were revoked.</returns>
+        public async Task<int> RevokeFamilyAsync(Guid familyId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    UPDATE refresh_tokens
+                    SET revoked_at = NOW()
+                    WHERE family_id = @{nameof(familyId)} AND revoked_at IS NULL";
+
+                int rowsAffected = await dbSession.Connection.ExecuteAsync(
+                    query,
+                    new { familyId },
+                    transaction: dbSession.Transaction);
+
+                return rowsAffected;
+            }, session);
+        }
+
+        /// <summary>
+        /// Revokes every token of a user that has not been revoked yet, which ends all of the user's sessions.
+        /// </summary>
+        /// <param name="userId">The unique identifier of the user.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The number of tokens that were revoked.</returns>
+        public async Task<int> RevokeAllForUserAsync(Guid userId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    UPDATE refresh_tokens
+                    SET revoked_at = NOW()
+                    WHERE user_id = @{nameof(userId)} AND revoked_at IS NULL";
+
+                int rowsAffected = await dbSession.Connection.ExecuteAsync(
+                    query,
+                    new { userId },
+                    transaction: dbSession.Transaction);
+
+                return rowsAffected;
+            }, session);
+        }
+    }
+}
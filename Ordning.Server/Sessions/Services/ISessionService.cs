@@ -0,0 +1,41 @@
+using Ordning.Server.Sessions.Models;
+using Ordning.Server.Users.Models;
+
+namespace Ordning.Server.Sessions.Services
+{
+    /// <summary>
+    /// Service interface for signed in sessions that are kept alive with rotating refresh tokens.
+    /// </summary>
+    public interface ISessionService
+    {
+        /// <summary>
+        /// Signs a user in with a username and password.
+        /// </summary>
+        /// <param name="username">The username or email of the user.</param>
+        /// <param name="password">The password of the user.</param>
+        /// <returns>The tokens of the new session if the credentials are valid; otherwise, null.</returns>
+        Task<SessionTokens?> CreateSessionAsync(string username, string password);
+
+        /// <summary>
+        /// Starts a new session for a user whose identity has already been checked.
+        /// </summary>
+        /// <param name="user">The user to start the session for.</param>
+        /// <returns>The tokens of the new session.</returns>
+        Task<SessionTokens> StartSessionAsync(User user);
+
+        /// <summary>
+        /// Exchanges a refresh token for new tokens. The refresh token stops working, and if it is presented again the
+        /// whole session is revoked, since that means someone else has a copy of it.
+        /// </summary>
+        /// <param name="refreshToken">The refresh token of the session.</param>
+        /// <returns>The new tokens if the refresh token works; otherwise, null.</returns>
+        Task<SessionTokens?> RefreshSessionAsync(string refreshToken);
+
+        /// <summary>
+        /// Ends a session, so that none of its refresh tokens work anymore.
+        /// </summary>
+        /// <param name="refreshToken">A refresh token of the session.</param>
+        /// <returns>True if a session was ended; otherwise, false.</returns>
+        Task<bool> EndSessionAsync(string refreshToken);
+    }
+}
@@ -0,0 +1,154 @@
+using System.Security.Cryptography;
+using System.Text;
+using Microsoft.AspNetCore.WebUtilities;
+using Ordning.Server.Auth;
+using Ordning.Server.Sessions.Models;
+using Ordning.Server.Sessions.Repositories;
+using Ordning.Server.Users.Models;
+using Ordning.Server.Users.Services;
+
+namespace Ordning.Server.Sessions.Services
+{
+    /// <summary>
+    /// Implementation of <see cref="ISessionService"/> that provides session business logic operations.
+    /// </summary>
+    public class SessionService : ISessionService
+    {
+        /// <summary>
+        /// How long a refresh token works. A session that is used at least this often never has to sign in again.
+        /// </summary>
+        public static readonly TimeSpan RefreshTokenLifetime = TimeSpan.FromDays(30);
+
+        private const int RefreshTokenByteCount = 32;
+
+        private readonly IRefreshTokenRepository _refreshTokenRepository;
+        private readonly IUserService _userService;
+        private readonly IAccessTokenIssuer _accessTokenIssuer;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="SessionService"/> class.
+        /// </summary>
+        /// <param name="refreshTokenRepository">The refresh token repository for database access.</param>
+        /// <param name="userService">The user service for checking credentials and reading users.</param>
+        /// <param name="accessTokenIssuer">The issuer of access tokens.</param>
+        public SessionService(IRefreshTokenRepository refreshTokenRepository, IUserService userService, IAccessTokenIssuer accessTokenIssuer)
+        {
+            _refreshTokenRepository = refreshTokenRepository;
+            _userService = userService;
+            _accessTokenIssuer = accessTokenIssuer;
+        }
+
+        /// <summary>
+        /// Signs a user in with a username and password.
+        /// </summary>
+        /// <param name="username">The username or email of the user.</param>
+        /// <param name="password">The password of the user.</param>
+        /// <returns>The tokens of the new session if the credentials are valid; otherwise, null.</returns>
+        public async Task<SessionTokens?> CreateSessionAsync(string username, string password)
+        {
+            if (string.IsNullOrWhiteSpace(username) || string.IsNullOrWhiteSpace(password))
+            {
+                return null;
+            }
+
+            User? user = await _userService.ValidateCredentialsAsync(username, password);
+            if (user == null)
+            {
+                return null;
+            }
+
+            return await StartSessionAsync(user);
+        }
+
+        /// <summary>
+        /// Starts a new session for a user whose identity has already been checked.
+        /// </summary>
+        /// <param name="user">The user to start the session for.</param>
+        /// <returns>The tokens of the new session.</returns>
+        public async Task<SessionTokens> StartSessionAsync(User user)
+        {
+            return await IssueTokensAsync(user, familyId: Guid.NewGuid());
+        }
+
+        /// <summary>
+        /// Exchanges a refresh token for new tokens. The refresh token stops working, and if it is presented again the
+        /// whole session is revoked, since that means someone else has a copy of it.
+        /// </summary>
+        /// <param name="refreshToken">The refresh token of the session.</param>
+        /// <returns>The new tokens if the refresh token works; otherwise, null.</returns>
+        public async Task<SessionTokens?> RefreshSessionAsync(string refreshToken)
+        {
+            if (string.IsNullOrWhiteSpace(refreshToken))
+            {
+                return null;
+            }
+
+            RefreshTokenDbModel? stored = await _refreshTokenRepository.GetByTokenHashAsync(HashToken(refreshToken));
+            if (stored == null || stored.RevokedAt != null || stored.ExpiresAt <= DateTimeOffset.UtcNow)
+            {
+                return null;
+            }
+
+            if (stored.UsedAt != null || !await _refreshTokenRepository.MarkUsedAsync(stored.Id))
+            {
+                await _refreshTokenRepository.RevokeFamilyAsync(stored.FamilyId);
+                return null;
+            }
+
+            User? user = await _userService.GetUserByIdAsync(stored.UserId.ToString());
+            if (user == null)
+            {
+                return null;
+            }
+
+            return await IssueTokensAsync(user, stored.FamilyId);
+        }
+
+        /// <summary>
+        /// Ends a session, so that none of its refresh tokens work anymore.
+        /// </summary>
+        /// <param name="refreshToken">A refresh token of the session.</param>
+        /// <returns>True if a session was ended; otherwise, false.</returns>
+        public async Task<bool> EndSessionAsync(string refreshToken)
+        {
+            if (string.IsNullOrWhiteSpace(refreshToken))
+            {
+                return false;
+            }
+
+            RefreshTokenDbModel? stored = await _refreshTokenRepository.GetByTokenHashAsync(HashToken(refreshToken));
+            if (stored == null)
+            {
+                return false;
+            }
+
+            int revoked = await _refreshTokenRepository.RevokeFamilyAsync(stored.FamilyId);
+            return revoked > 0;
+        }
+
+        private async Task<SessionTokens> IssueTokensAsync(User user, Guid familyId)
+        {
+            (string accessToken, DateTimeOffset accessTokenExpiresAt) = _accessTokenIssuer.IssueToken(user);
+
+            string refreshToken = WebEncoders.Base64UrlEncode(RandomNumberGenerator.GetBytes(RefreshTokenByteCount));
+            DateTimeOffset refreshTokenExpiresAt = DateTimeOffset.UtcNow.Add(RefreshTokenLifetime);
+            await _refreshTokenRepository.CreateAsync(
+                id: Guid.NewGuid(),
+                userId: Guid.Parse(user.Id),
+                familyId: familyId,
+                tokenHash: HashToken(refreshToken),
+                expiresAt: refreshTokenExpiresAt);
+
+            return new SessionTokens(accessToken, accessTokenExpiresAt, refreshToken, refreshTokenExpiresAt);
+        }
+
+        /// <summary>
+        /// Hashes a refresh token for storage. The tokens are long and random, so a plain hash without salt is enough.
+        /// </summary>
+        private static string HashToken(string refreshToken)
+        {
+            byte[] hash = SHA256.HashData(Encoding.UTF8.GetBytes(refreshToken));
+            return Convert.ToHexString(hash).ToLowerInvariant();
+        }
+    }
+}
@@ -0,0 +1,106 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.RateLimiting;
+using Ordning.Server.RateLimiting;
+using Ordning.Server.Shares.Models;
+using Ordning.Server.Shares.Services;
+
+namespace Ordning.Server.Shares.Controllers
+{
+    /// <summary>
+    /// Controller for share links. Workspace admins make and revoke links, and anyone with a link can look at the shared
+    /// location without signing in.
+    /// </summary>
+    [ApiController]
+    [Route("api/[controller]")]
+    [EnableRateLimiting(RateLimitPolicies.Lenient)]
+    public class ShareController : ControllerBase
+    {
+        private readonly IShareLinkService _shareLinkService;
+        private readonly ILogger<ShareController> _logger;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ShareController"/> class.
+        /// </summary>
+        /// <param name="shareLinkService">The share link service.</param>
+        /// <param name="logger">The logger.</param>
+        public ShareController(IShareLinkService shareLinkService, ILogger<ShareController> logger)
+        {
+            _shareLinkService = shareLinkService;
+            _logger = logger;
+        }
+
+        /// <summary>
+        /// Gets the share links of the current workspace that still work, the ones that expire first first.
+        /// </summary>
+        /// <returns>A collection of share links.</returns>
+        [HttpGet]
+        [Authorize]
+        [ProducesResponseType(typeof(IEnumerable<ShareLink>), 200)]
+        [ProducesResponseType(403)]
+        public async Task<ActionResult<IEnumerable<ShareLink>>> GetShareLinks()
+        {
+            IEnumerable<ShareLink> shareLinks = await _shareLinkService.GetShareLinksAsync();
+            return Ok(shareLinks);
+        }
+
+        /// <summary>
+        /// Creates a share link for a location in the current workspace.
+        /// </summary>
+        /// <param name="request">The share link creation request.</param>
+        /// <returns>The created share link.</returns>
+        [HttpPost]
+        [EnableRateLimiting(RateLimitPolicies.Strict)]
+        [Authorize]
+        [ProducesResponseType(typeof(ShareLink), 201)]
+        [ProducesResponseType(400)]
+        [ProducesResponseType(403)]
+        public async Task<ActionResult<ShareLink>> CreateShareLink([FromBody] CreateShareLinkRequest request)
+        {
+            ShareLink shareLink = await _shareLinkService.CreateShareLinkAsync(request.LocationId, request.Label, request.ExpiresInHours);
+            return StatusCode(201, shareLink);
+        }
+
+        /// <summary>
+        /// Revokes a share link in the current workspace, so that it stops working at once.
+        /// </summary>
+        /// <param name="id">The unique identifier of the share link.</param>
+        /// <returns>204 No Content if revoked; otherwise, 404 Not Found.</returns>
+        [HttpDelete("{id}")]
+        [Authorize]
+        [ProducesResponseType(204)]
+        [ProducesResponseType(403)]
+        [ProducesResponseType(404)]
+        public async Task<IActionResult> RevokeShareLink(Guid id)
+        {
+            bool revoked = await _shareLinkService.RevokeShareLinkAsync(id);
+            if (!revoked)
+            {
+                return NotFound($"Share link with ID '{id}' not found.");
+            }
+
+            return NoContent();
+        }
+
+        /// <summary>
+        /// Gets the location a share link shows, with the locations below it and the items in them. Needs no signed in user.
+        /// </summary>
+        /// <param name="token">The signed token from the share link.</param>
+        /// <returns>The shared location.</returns>
+        [HttpGet("public/{token}")]
+        [EnableRateLimiting(RateLimitPolicies.Strict)]
+        [AllowAnonymous]
+        [ProducesResponseType(typeof(SharedLocation), 200)]
+        [ProducesResponseType(404)]
+        public async Task<ActionResult<SharedLocation>> GetSharedLocation(string token)
+        {
+            SharedLocation? sharedLocation = await _shareLinkService.GetSharedLocationAsync(token);
+            if (sharedLocation == null)
+            {
+                return NotFound("This share link does not exist, has expired or has been revoked.");
+            }
+
+            return Ok(sharedLocation);
+        }
+    }
+}
@@ -0,0 +1,71 @@
+namespace Ordning.Server.Shares.Models
+{
+    /// <summary>
+    /// Represents a link that gives anyone who has it read-only access to a location and everything below it.
+    /// </summary>
+    public class ShareLink
+    {
+        /// <summary>
+        /// Gets the unique identifier for the share link.
+        /// </summary>
+        public Guid Id { get; }
+
+        /// <summary>
+        /// Gets the unique identifier of the shared location.
+        /// </summary>
+        public string LocationId { get; }
+
+        /// <summary>
+        /// Gets the name of the shared location.
+        /// </summary>
+        public string LocationName { get; }
+
+        /// <summary>
+        /// Gets the note that tells who the link was made for, if any.
+        /// </summary>
+        public string? Label { get; }
+
+        /// <summary>
+        /// Gets the signed token that opens the shared location. It is the last part of the link.
+        /// </summary>
+        public string Token { get; }
+
+        /// <summary>
+        /// Gets the UTC timestamp when the link stops working.
+        /// </summary>
+        public DateTimeOffset ExpiresAt { get; }
+
+        /// <summary>
+        /// Gets the username of the user who made the link, or null if the user has been deleted.
+        /// </summary>
+        public string? CreatedBy { get; }
+
+        /// <summary>
+        /// Gets the UTC timestamp when the link was made.
+        /// </summary>
+        public DateTimeOffset CreatedAt { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ShareLink"/> class.
+        /// </summary>
+        /// <param name="id">The unique identifier for the share link.</param>
+        /// <param name="locationId">The unique identifier of the shared location.</param>
+        /// <param name="locationName">The name of the shared location.</param>
+        /// <param name="label">The note that tells who the link was made for.</param>
+        /// <param name="token">The signed token that opens the shared location.</param>
+        /// <param name="expiresAt">The UTC timestamp when the link stops working.</param>
+        /// <param name="createdBy">The username of the user who made the link.</param>
+        /// <param name="createdAt">The UTC timestamp when the link was made.</param>
+        public ShareLink(Guid id, string locationId, string locationName, string? label, string token, DateTimeOffset expiresAt, string? createdBy, DateTimeOffset createdAt)
+        {
+            Id = id;
+            LocationId = locationId;
+            LocationName = locationName;
+            Label = label;
+            Token = token;
+            ExpiresAt = expiresAt;
+            CreatedBy = createdBy;
+            CreatedAt = createdAt;
+        }
+    }
+}
@@ -0,0 +1,23 @@
+namespace Ordning.Server.Shares.Models
+{
+    /// <summary>
+    /// Request model for creating a share link.
+    /// </summary>
+    public class CreateShareLinkRequest
+    {
+        /// <summary>
+        /// Gets or sets the unique identifier of the location to share.
+        /// </summary>
+        public string LocationId { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets an optional note that tells who the link is for.
+        /// </summary>
+        public string? Label { get; set; }
+
+        /// <summary>
+        /// Gets or sets how many hours the link works for.
+        /// </summary>
+        public int ExpiresInHours { get; set; } = 24;
+    }
+}
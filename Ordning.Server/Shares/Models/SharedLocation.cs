@@ -0,0 +1,53 @@
+using Ordning.Server.Items.Models;
+using Ordning.Server.Locations.Models;
+
+namespace Ordning.Server.Shares.Models
+{
+    /// <summary>
+    /// Represents what a share link shows: the shared location, the locations below it and the items in all of them.
+    /// </summary>
+    public class SharedLocation
+    {
+        /// <summary>
+        /// Gets the unique identifier of the shared location, the top of <see cref="Locations"/>.
+        /// </summary>
+        public string LocationId { get; }
+
+        /// <summary>
+        /// Gets the note that tells who the link was made for, if any.
+        /// </summary>
+        public string? Label { get; }
+
+        /// <summary>
+        /// Gets the UTC timestamp when the link stops working.
+        /// </summary>
+        public DateTimeOffset ExpiresAt { get; }
+
+        /// <summary>
+        /// Gets the shared location and every location below it, ordered from the top downwards.
+        /// </summary>
+        public IReadOnlyList<Location> Locations { get; }
+
+        /// <summary>
+        /// Gets the items in the shared locations.
+        /// </summary>
+        public IReadOnlyList<Item> Items { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="SharedLocation"/> class.
+        /// </summary>
+        /// <param name="locationId">The unique identifier of the shared location.</param>
+        /// <param name="label">The note that tells who the link was made for.</param>
+        /// <param name="expiresAt">The UTC timestamp when the link stops working.</param>
+        /// <param name="locations">The shared location and every location below it.</param>
+        /// <param name="items">The items in the shared locations.</param>
+        public SharedLocation(string locationId, string? label, DateTimeOffset expiresAt, IReadOnlyList<Location> locations, IReadOnlyList<Item> items)
+        {
+            LocationId = locationId;
+            Label = label;
+            ExpiresAt = expiresAt;
+            Locations = locations;
+            Items = items;
+        }
+    }
+}
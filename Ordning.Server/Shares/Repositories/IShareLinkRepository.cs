@@ -0,0 +1,48 @@
+using EasyReasy.Database;
+
+namespace Ordning.Server.Shares.Repositories
+{
+    /// <summary>
+    /// Repository interface for share link data access operations.
+    /// </summary>
+    public interface IShareLinkRepository : IRepository
+    {
+        /// <summary>
+        /// Gets a share link by its unique identifier.
+        /// </summary>
+        /// <param name="id">The unique identifier of the share link.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The share link database model if found; otherwise, null.</returns>
+        Task<ShareLinkDbModel?> GetByIdAsync(Guid id, IDbSession? session = null);
+
+        /// <summary>
+        /// Gets the share links of a workspace that have not expired yet, the ones that expire first first.
+        /// </summary>
+        /// <param name="workspaceId">The unique identifier of the workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of share link database models.</returns>
+        Task<IEnumerable<ShareLinkDbModel>> GetActiveByWorkspaceAsync(Guid workspaceId, IDbSession? session = null);
+
+        /// <summary>
+        /// Creates a new share link.
+        /// </summary>
+        /// <param name="id">The unique identifier for the share link.</param>
+        /// <param name="workspaceId">The unique identifier of the workspace the shared location belongs to.</param>
+        /// <param name="locationId">The unique identifier of the shared location.</param>
+        /// <param name="label">The note that tells who the link is for.</param>
+        /// <param name="expiresAt">The UTC timestamp when the link stops working.</param>
+        /// <param name="createdBy">The unique identifier of the user who makes the link.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The created share link database model.</returns>
+        Task<ShareLinkDbModel> CreateAsync(Guid id, Guid workspaceId, string locationId, string? label, DateTimeOffset expiresAt, Guid createdBy, IDbSession? session = null);
+
+        /// <summary>
+        /// Deletes a share link, so that it stops working at once.
+        /// </summary>
+        /// <param name="id">The unique identifier of the share link.</param>
+        /// <param name="workspaceId">The unique identifier of the workspace the share link must belong to.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the share link was deleted; otherwise, false.</returns>
+        Task<bool> DeleteAsync(Guid id, Guid workspaceId, IDbSession? session = null);
+    }
+}
@@ -0,0 +1,68 @@
+using Ordning.Server.Shares.Models;
+
+namespace Ordning.Server.Shares.Repositories
+{
+    /// <summary>
+    /// Database model representing a share link together with the name of the shared location.
+    /// </summary>
+    public class ShareLinkDbModel
+    {
+        /// <summary>
+        /// Gets or sets the unique identifier for the share link.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// Gets or sets the unique identifier of the workspace the shared location belongs to.
+        /// </summary>
+        public Guid WorkspaceId { get; set; }
+
+        /// <summary>
+        /// Gets or sets the unique identifier of the shared location.
+        /// </summary>
+        public string LocationId { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the name of the shared location.
+        /// </summary>
+        public string LocationName { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the note that tells who the link was made for.
+        /// </summary>
+        public string? Label { get; set; }
+
+        /// <summary>
+        /// Gets or sets the UTC timestamp when the link stops working.
+        /// </summary>
+        public DateTimeOffset ExpiresAt { get; set; }
+
+        /// <summary>
+        /// Gets or sets the username of the user who made the link.
+        /// </summary>
+        public string? CreatedBy { get; set; }
+
+        /// <summary>
+        /// Gets or sets the UTC timestamp when the link was made.
+        /// </summary>
+        public DateTimeOffset CreatedAt { get; set; }
+
+        /// <summary>
+        /// Converts the database model to a domain ShareLink model.
+        /// </summary>
+        /// <param name="token">The signed token that opens the shared location.</param>
+        /// <returns>A ShareLink domain model.</returns>
+        public ShareLink ToDomainShareLink(string token)
+        {
+            return new ShareLink(
+                id: Id,
+                locationId: LocationId,
+                locationName: LocationName,
+                label: Label,
+                token: token,
+                expiresAt: ExpiresAt,
+                createdBy: CreatedBy,
+                createdAt: CreatedAt);
+        }
+    }
+}
@@ -0,0 +1,144 @@
+using System.Data.Common;
+using Dapper;
+using EasyReasy.Database;
+
+namespace Ordning.Server.Shares.Repositories
+{
+    /// <summary>
+    /// Repository implementation for share link data access operations.
+    /// </summary>
+    public class ShareLinkRepository : RepositoryBase, IShareLinkRepository
+    {
+        private const string ShareLinkColumns = @"
+                        share_links.id AS Id,
+                        share_links.workspace_id AS WorkspaceId,
+                        share_links.location_id AS LocationId,
+                        locations.name AS LocationName,
+                        share_links.label AS Label,
+                        share_links.expires_at AS ExpiresAt,
+                        auth_user.username AS CreatedBy,
+                        share_links.created_at AS CreatedAt";
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ShareLinkRepository"/> class.
+        /// </summary>
+        /// <param name="dataSource">The database data source.</param>
+        /// <param name="sessionFactory">The session factory for creating database sessions.</param>
+        public ShareLinkRepository(DbDataSource dataSource, IDbSessionFactory sessionFactory)
+            : base(dataSource, sessionFactory)
+        {
+        }
+
+        /// <summary>
+        /// Gets a share link by its unique identifier.
+        /// </summary>
+        /// <param name="id">The unique identifier of the share link.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The share link database model if found; otherwise, null.</returns>
+        public async Task<ShareLinkDbModel?> GetByIdAsync(Guid id, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT {ShareLinkColumns}
+                    FROM share_links
+                    INNER JOIN locations ON locations.id = share_links.location_id
+                    LEFT JOIN auth_user ON auth_user.id = share_links.created_by
+                    WHERE share_links.id = @{nameof(id)}";
+
+                ShareLinkDbModel? result = await dbSession.Connection.QuerySingleOrDefaultAsync<ShareLinkDbModel>(
+                    query,
+                    new { id },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets the share links of a workspace that have not expired yet, the ones that expire first first.
+        /// </summary>
+        /// <param name="workspaceId">The unique identifier of the workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of share link database models.</returns>
+        public async Task<IEnumerable<ShareLinkDbModel>> GetActiveByWorkspaceAsync(Guid workspaceId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT {ShareLinkColumns}
+                    FROM share_links
+                    INNER JOIN locations ON locations.id = share_links.location_id
+                    LEFT JOIN auth_user ON auth_user.id = share_links.created_by
+                    WHERE share_links.workspace_id = @{nameof(workspaceId)} AND share_links.expires_at > NOW()
+                    ORDER BY share_links.expires_at, share_links.id";
+
+                IEnumerable<ShareLinkDbModel> result = await dbSession.Connection.QueryAsync<ShareLinkDbModel>(
+                    query,
+                    new { workspaceId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Creates a new share link.
+        /// </summary>
+        /// <param name="id">The unique identifier for the share link.</param>
+        /// <param name="workspaceId">The unique identifier of the workspace the shared location belongs to.</param>
+        /// <param name="locationId">The unique identifier of the shared location.</param>
+        /// <param name="label">The note that tells who the link is for.</param>
+        /// <param name="expiresAt">The UTC timestamp when the link stops working.</param>
+        /// <param name="createdBy">The unique identifier of the user who makes the link.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The created share link database model.</returns>
+        public async Task<ShareLinkDbModel> CreateAsync(Guid id, Guid workspaceId, string locationId, string? label, DateTimeOffset expiresAt, Guid createdBy, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    WITH inserted AS (
+                        INSERT INTO share_links (id, workspace_id, location_id, label, expires_at, created_by)
+                        VALUES (@{nameof(id)}, @{nameof(workspaceId)}, @{nameof(locationId)}, @{nameof(label)}, @{nameof(expiresAt)}, @{nameof(createdBy)})
+                        RETURNING *
+                    )
+                    SELECT {ShareLinkColumns}
+                    FROM inserted AS share_links
+                    INNER JOIN locations ON locations.id = share_links.location_id
+                    LEFT JOIN auth_user ON auth_user.id = share_links.created_by";
+
+                ShareLinkDbModel result = await dbSession.Connection.QuerySingleAsync<ShareLinkDbModel>(
+                    query,
+                    new { id, workspaceId, locationId, label, expiresAt, createdBy },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Deletes a share link, so that it stops working at once.
+        /// </summary>
+        /// <param name="id">The unique identifier of the share link.</param>
+        /// <param name="workspaceId">The unique identifier of the workspace the share link must belong to.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the share link was deleted; otherwise, false.</returns>
+        public async Task<bool> DeleteAsync(Guid id, Guid workspaceId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    DELETE FROM share_links
+                    WHERE id = @{nameof(id)} AND workspace_id = @{nameof(workspaceId)}";
+
+                int rowsAffected = await dbSession.Connection.ExecuteAsync(
+                    query,
+                    new { id, workspaceId },
+                    transaction: dbSession.Transaction);
+
+                return rowsAffected > 0;
+            }, session);
+        }
+    }
+}
@@ -0,0 +1,45 @@
+using Ordning.Server.Shares.Models;
+
+namespace Ordning.Server.Shares.Services
+{
+    /// <summary>
+    /// Service interface for share links, which let people without an account look at a location and everything below it.
+    /// </summary>
+    public interface IShareLinkService
+    {
+        /// <summary>
+        /// Gets the share links of the current workspace that still work. Needs the admin role in the workspace.
+        /// </summary>
+        /// <returns>A collection of share links, the ones that expire first first.</returns>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user is not an admin of the workspace.</exception>
+        Task<IEnumerable<ShareLink>> GetShareLinksAsync();
+
+        /// <summary>
+        /// Creates a share link for a location in the current workspace. Needs the admin role in the workspace.
+        /// </summary>
+        /// <param name="locationId">The unique identifier of the location to share.</param>
+        /// <param name="label">An optional note that tells who the link is for.</param>
+        /// <param name="expiresInHours">How many hours the link works for.</param>
+        /// <returns>The created share link.</returns>
+        /// <exception cref="ArgumentException">Thrown when the label is too long or the expiry time is out of range.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when the location does not exist or is hidden from everyone else by an access rule.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user is not an admin of the workspace.</exception>
+        Task<ShareLink> CreateShareLinkAsync(string locationId, string? label, int expiresInHours);
+
+        /// <summary>
+        /// Revokes a share link in the current workspace, so that it stops working at once. Needs the admin role in the workspace.
+        /// </summary>
+        /// <param name="id">The unique identifier of the share link.</param>
+        /// <returns>True if the share link was found and revoked; otherwise, false.</returns>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user is not an admin of the workspace.</exception>
+        Task<bool> RevokeShareLinkAsync(Guid id);
+
+        /// <summary>
+        /// Gets what a share link shows. Needs no signed in user, only a valid token. Visitors get the access of everyone without a
+        /// rule of their own, so locations hidden from everyone else are left out, with everything below them.
+        /// </summary>
+        /// <param name="token">The signed token from the share link.</param>
+        /// <returns>The shared location if the token is valid and the link has neither expired nor been revoked; otherwise, null.</returns>
+        Task<SharedLocation?> GetSharedLocationAsync(string token);
+    }
+}
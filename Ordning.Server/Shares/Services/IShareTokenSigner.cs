@@ -0,0 +1,25 @@
+namespace Ordning.Server.Shares.Services
+{
+    /// <summary>
+    /// Signs and checks the tokens in share links, so that a link can't be guessed or given a later expiry time.
+    /// </summary>
+    public interface IShareTokenSigner
+    {
+        /// <summary>
+        /// Creates the signed token for a share link.
+        /// </summary>
+        /// <param name="id">The unique identifier of the share link.</param>
+        /// <param name="expiresAt">The UTC timestamp when the link stops working. Only whole seconds are kept.</param>
+        /// <returns>The signed token, safe to use in a URL.</returns>
+        string CreateToken(Guid id, DateTimeOffset expiresAt);
+
+        /// <summary>
+        /// Reads a token created by <see cref="CreateToken"/> and checks its signature.
+        /// </summary>
+        /// <param name="token">The token to read.</param>
+        /// <param name="id">The unique identifier of the share link if the token is valid.</param>
+        /// <param name="expiresAt">The UTC timestamp when the link stops working if the token is valid.</param>
+        /// <returns>True if the token is well formed and correctly signed; otherwise, false.</returns>
+        bool TryReadToken(string token, out Guid id, out DateTimeOffset expiresAt);
+    }
+}
@@ -0,0 +1,195 @@
+using Ordning.Server.Items.Models;
+using Ordning.Server.Items.Repositories;
+using Ordning.Server.Locations.Models;
+using Ordning.Server.Locations.Repositories;
+using Ordning.Server.Locations.Services;
+using Ordning.Server.Shares.Models;
+using Ordning.Server.Shares.Repositories;
+using Ordning.Server.Workspaces.Models;
+using Ordning.Server.Workspaces.Services;
+
+namespace Ordning.Server.Shares.Services
+{
+    /// <summary>
+    /// Implementation of <see cref="IShareLinkService"/> that provides share link business logic operations.
+    /// </summary>
+    public class ShareLinkService : IShareLinkService
+    {
+        /// <summary>
+        /// The longest time a share link can work for, 90 days.
+        /// </summary>
+        public const int MaxExpiresInHours = 90 * 24;
+
+        /// <summary>
+        /// The maximum length of the note on a share link.
+        /// </summary>
+        public const int MaxLabelLength = 255;
+
+        private readonly IShareLinkRepository _shareLinkRepository;
+        private readonly IShareTokenSigner _shareTokenSigner;
+        private readonly ILocationRepository _locationRepository;
+        private readonly IItemRepository _itemRepository;
+        private readonly IWorkspaceService _workspaceService;
+        private readonly ILocationAccessService _locationAccessService;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ShareLinkService"/> class.
+        /// </summary>
+        /// <param name="shareLinkRepository">The share link repository for database access.</param>
+        /// <param name="shareTokenSigner">The signer for the tokens in share links.</param>
+        /// <param name="locationRepository">The location repository for reading shared locations.</param>
+        /// <param name="itemRepository">The item repository for reading the items in shared locations.</param>
+        /// <param name="workspaceService">The workspace service used to find the workspace of the current request.</param>
+        /// <param name="locationAccessService">The location access service used to leave out locations hidden from everyone else.</param>
+        public ShareLinkService(IShareLinkRepository shareLinkRepository, IShareTokenSigner shareTokenSigner, ILocationRepository locationRepository, IItemRepository itemRepository, IWorkspaceService workspaceService, ILocationAccessService locationAccessService)
+        {
+            _shareLinkRepository = shareLinkRepository;
+            _shareTokenSigner = shareTokenSigner;
+            _locationRepository = locationRepository;
+            _itemRepository = itemRepository;
+            _workspaceService = workspaceService;
+            _locationAccessService = locationAccessService;
+        }
+
+        /// <summary>
+        /// Gets the share links of the current workspace that still work. Needs the admin role in the workspace.
+        /// </summary>
+        /// <returns>A collection of share links, the ones that expire first first.</returns>
+        public async Task<IEnumerable<ShareLink>> GetShareLinksAsync()
+        {
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Admin);
+            IEnumerable<ShareLinkDbModel> shareLinks = await _shareLinkRepository.GetActiveByWorkspaceAsync(workspaceId);
+            return shareLinks.Select(ToDomainShareLink);
+        }
+
+        /// <summary>
+        /// Creates a share link for a location in the current workspace. Needs the admin role in the workspace.
+        /// </summary>
+        /// <param name="locationId">The unique identifier of the location to share.</param>
+        /// <param name="label">An optional note that tells who the link is for.</param>
+        /// <param name="expiresInHours">How many hours the link works for.</param>
+        /// <returns>The created share link.</returns>
+        public async Task<ShareLink> CreateShareLinkAsync(string locationId, string? label, int expiresInHours)
+        {
+            if (expiresInHours < 1 || expiresInHours > MaxExpiresInHours)
+            {
+                throw new ArgumentException($"A share link must work for between 1 and {MaxExpiresInHours} hours.", nameof(expiresInHours));
+            }
+
+            string? trimmedLabel = string.IsNullOrWhiteSpace(label) ? null : label.Trim();
+            if (trimmedLabel?.Length > MaxLabelLength)
+            {
+                throw new ArgumentException($"The note on a share link cannot be longer than {MaxLabelLength} characters.", nameof(label));
+            }
+
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Admin);
+            bool locationExists = await _locationRepository.ExistsAsync(locationId, workspaceId: workspaceId);
+            if (!locationExists)
+            {
+                throw new InvalidOperationException($"Location with ID '{locationId}' does not exist.");
+            }
+
+            IReadOnlySet<string> hiddenLocationIds = await _locationAccessService.GetLocationIdsHiddenFromEveryoneAsync(workspaceId);
+            if (hiddenLocationIds.Contains(locationId))
+            {
+                throw new InvalidOperationException($"Location '{locationId}' is hidden from everyone else by an access rule, so it cannot be shared.");
+            }
+
+            // The token only keeps whole seconds, so the stored expiry time must match it
+            DateTimeOffset expiresAt = DateTimeOffset.FromUnixTimeSeconds(DateTimeOffset.UtcNow.ToUnixTimeSeconds() + (expiresInHours * 3600L));
+
+            ShareLinkDbModel shareLink = await _shareLinkRepository.CreateAsync(
+                id: Guid.NewGuid(),
+                workspaceId: workspaceId,
+                locationId: locationId,
+                label: trimmedLabel,
+                expiresAt: expiresAt,
+                createdBy: _workspaceService.GetCurrentUserId());
+
+            return ToDomainShareLink(shareLink);
+        }
+
+        /// <summary>
+        /// Revokes a share link in the current workspace, so that it stops working at once. Needs the admin role in the workspace.
+        /// </summary>
+        /// <param name="id">The unique identifier of the share link.</param>
+        /// <returns>True if the share link was found and revoked; otherwise, false.</returns>
+        public async Task<bool> RevokeShareLinkAsync(Guid id)
+        {
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync(WorkspaceRoles.Admin);
+            return await _shareLinkRepository.DeleteAsync(id, workspaceId);
+        }
+
+        /// <summary>
+        /// Gets what a share link shows. Needs no signed in user, only a valid token. Visitors get the access of everyone without a
+        /// rule of their own, so locations hidden from everyone else are left out, with everything below them.
+        /// </summary>
+        /// <param name="token">The signed token from the share link.</param>
+        /// <returns>The shared location if the token is valid and the link has neither expired nor been revoked; otherwise, null.</returns>
+        public async Task<SharedLocation?> GetSharedLocationAsync(string token)
+        {
+            if (!_shareTokenSigner.TryReadToken(token, out Guid id, out DateTimeOffset expiresAt) || expiresAt <= DateTimeOffset.UtcNow)
+            {
+                return null;
+            }
+
+            // Revoked links are deleted, so a correctly signed token only works while its link is still stored
+            ShareLinkDbModel? shareLink = await _shareLinkRepository.GetByIdAsync(id);
+            if (shareLink == null || shareLink.ExpiresAt <= DateTimeOffset.UtcNow)
+            {
+                return null;
+            }
+
+            List<LocationDbModel> subtree = (await _locationRepository.GetSubtreeAsync(shareLink.LocationId, workspaceId: shareLink.WorkspaceId)).ToList();
+            IReadOnlySet<string> hiddenLocationIds = await _locationAccessService.GetLocationIdsHiddenFromEveryoneAsync(shareLink.WorkspaceId);
+            if (subtree.Count == 0 || hiddenLocationIds.Contains(shareLink.LocationId))
+            {
+                return null;
+            }
+
+            // The shared view is a tree, so a location below a hidden one is left out too, even if a rule shows it again
+            Dictionary<string, string?> parentIdById = subtree.ToDictionary(l => l.Id, l => l.ParentLocationId);
+            List<LocationDbModel> locations = subtree
+                .Where(l => !IsInHiddenBranch(l.Id, shareLink.LocationId, hiddenLocationIds, parentIdById))
+                .ToList();
+
+            IEnumerable<ItemDbModel> items = await _itemRepository.GetByLocationIdsAsync(locations.Select(l => l.Id));
+
+            return new SharedLocation(
+                locationId: shareLink.LocationId,
+                label: shareLink.Label,
+                expiresAt: shareLink.ExpiresAt,
+                locations: locations.Select(l => l.ToDomainLocation()).ToList(),
+                items: items.Select(i => i.ToDomainItem()).OrderBy(i => i.Name, StringComparer.OrdinalIgnoreCase).ToList());
+        }
+
+        /// <summary>
+        /// Checks whether a location in a shared subtree, or one of its parents up to the shared location, is hidden.
+        /// </summary>
+        /// <param name="locationId">The unique identifier of the location.</param>
+        /// <param name="sharedLocationId">The unique identifier of the shared location at the top of the subtree.</param>
+        /// <param name="hiddenLocationIds">The locations hidden from everyone else.</param>
+        /// <param name="parentIdById">The parent of every location in the subtree.</param>
+        /// <returns>True if the location or one of its parents is hidden; otherwise, false.</returns>
+        private static bool IsInHiddenBranch(string locationId, string sharedLocationId, IReadOnlySet<string> hiddenLocationIds, Dictionary<string, string?> parentIdById)
+        {
+            string? currentId = locationId;
+            while (currentId != null && parentIdById.ContainsKey(currentId))
+            {
+                if (hiddenLocationIds.Contains(currentId))
+                {
+                    return true;
+                }
+
+                currentId = currentId == sharedLocationId ? null : parentIdById[currentId];
+            }
+
+            return false;
+        }
+
+        private ShareLink ToDomainShareLink(ShareLinkDbModel shareLink)
+        {
+            return shareLink.ToDomainShareLink(_shareTokenSigner.CreateToken(shareLink.Id, shareLink.ExpiresAt));
+        }
+    }
+}
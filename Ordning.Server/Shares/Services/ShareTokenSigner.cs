@@ -0,0 +1,83 @@
+using System.Buffers.Binary;
+using System.Security.Cryptography;
+using System.Text;
+using Microsoft.AspNetCore.WebUtilities;
+
+namespace Ordning.Server.Shares.Services
+{
+    /// <summary>
+    /// Implementation of <see cref="IShareTokenSigner"/> that signs the link ID and expiry time with HMAC-SHA256. A token is
+    /// the base64url encoded ID and expiry time, a dot, and the base64url encoded signature.
+    /// </summary>
+    public class ShareTokenSigner : IShareTokenSigner
+    {
+        private const int PayloadLength = 24;
+
+        private readonly byte[] _key;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ShareTokenSigner"/> class.
+        /// </summary>
+        /// <param name="secret">The server secret. A separate key is derived from it, so share tokens can't be used as anything else.</param>
+        public ShareTokenSigner(string secret)
+        {
+            _key = HMACSHA256.HashData(Encoding.UTF8.GetBytes(secret), Encoding.UTF8.GetBytes("ordning-share-links"));
+        }
+
+        /// <summary>
+        /// Creates the signed token for a share link.
+        /// </summary>
+        /// <param name="id">The unique identifier of the share link.</param>
+        /// <param name="expiresAt">The UTC timestamp when the link stops working. Only whole seconds are kept.</param>
+        /// <returns>The signed token, safe to use in a URL.</returns>
+        public string CreateToken(Guid id, DateTimeOffset expiresAt)
+        {
+            byte[] payload = new byte[PayloadLength];
+            id.TryWriteBytes(payload.AsSpan(0, 16));
+            BinaryPrimitives.WriteInt64BigEndian(payload.AsSpan(16), expiresAt.ToUnixTimeSeconds());
+
+            byte[] signature = HMACSHA256.HashData(_key, payload);
+            return $"{WebEncoders.Base64UrlEncode(payload)}.{WebEncoders.Base64UrlEncode(signature)}";
+        }
+
+        /// <summary>
+        /// Reads a token created by <see cref="CreateToken"/> and checks its signature.
+        /// </summary>
+        /// <param name="token">The token to read.</param>
+        /// <param name="id">The unique identifier of the share link if the token is valid.</param>
+        /// <param name="expiresAt">The UTC timestamp when the link stops working if the token is valid.</param>
+        /// <returns>True if the token is well formed and correctly signed; otherwise, false.</returns>
+        public bool TryReadToken(string token, out Guid id, out DateTimeOffset expiresAt)
+        {
+            id = Guid.Empty;
+            expiresAt = default;
+
+            string[] parts = (token ?? string.Empty).Split('.');
+            if (parts.Length != 2)
+            {
+                return false;
+            }
+
+            byte[] payload;
+            byte[] signature;
+            try
+            {
+                payload = WebEncoders.Base64UrlDecode(parts[0]);
+                signature = WebEncoders.Base64UrlDecode(parts[1]);
+            }
+            catch (FormatException)
+            {
+                return false;
+            }
+
+            if (payload.Length != PayloadLength || !CryptographicOperations.FixedTimeEquals(signature, HMACSHA256.HashData(_key, payload)))
+            {
+                return false;
+            }
+
+            id = new Guid(payload.AsSpan(0, 16));
+            expiresAt = DateTimeOffset.FromUnixTimeSeconds(BinaryPrimitives.ReadInt64BigEndian(payload.AsSpan(16)));
+            return true;
+        }
+    }
+}
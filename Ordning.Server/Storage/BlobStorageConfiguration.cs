@@ -0,0 +1,38 @@
+namespace Ordning.Server.Storage
+{
+    /// <summary>
+    /// Configures blob storage for dependency injection. The provider is picked with the
+    /// "BlobStorage:Provider" setting, so another provider can be plugged in by implementing
+    /// <see cref="IBlobStore"/> and adding a case here.
+    /// </summary>
+    public static class BlobStorageConfiguration
+    {
+        /// <summary>
+        /// The provider that stores blobs as files on local disk.
+        /// </summary>
+        public const string LocalDiskProvider = "LocalDisk";
+
+        /// <summary>
+        /// Adds the configured blob store to the service collection.
+        /// </summary>
+        /// <param name="services">The service collection to add services to.</param>
+        /// <param name="configuration">The application configuration to read the "BlobStorage" section from.</param>
+        /// <param name="contentRootPath">The content root of the application, which relative paths are resolved against.</param>
+        /// <exception cref="InvalidOperationException">Thrown when the configured provider is not known.</exception>
+        public static void AddBlobStorage(IServiceCollection services, IConfiguration configuration, string contentRootPath)
+        {
+            IConfigurationSection section = configuration.GetSection("BlobStorage");
+            string provider = section["Provider"] ?? LocalDiskProvider;
+
+            switch (provider)
+            {
+                case LocalDiskProvider:
+                    string rootPath = Path.Combine(contentRootPath, section["RootPath"] ?? "App_Data/blobs");
+                    services.AddSingleton<IBlobStore>(new LocalDiskBlobStore(rootPath));
+                    break;
+                default:
+                    throw new InvalidOperationException($"Unknown blob storage provider '{provider}'. Supported providers: {LocalDiskProvider}.");
+            }
+        }
+    }
+}
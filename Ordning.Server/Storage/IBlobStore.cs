@@ -0,0 +1,35 @@
+namespace Ordning.Server.Storage
+{
+    /// <summary>
+    /// Stores binary data such as uploaded images under string keys. Implementations decide where
+    /// the data lives, for example on local disk or in a cloud blob service.
+    /// </summary>
+    public interface IBlobStore
+    {
+        /// <summary>
+        /// Saves data under a key, replacing any data already stored under it.
+        /// </summary>
+        /// <param name="key">The key to store the data under. Keys may contain forward slashes to group related blobs.</param>
+        /// <param name="content">The data to store. The stream is read to its end but not disposed.</param>
+        /// <param name="contentType">The content type of the data.</param>
+        /// <returns>A task that completes when the data has been stored.</returns>
+        /// <exception cref="ArgumentException">Thrown when the key is empty or not a valid key.</exception>
+        Task SaveAsync(string key, Stream content, string contentType);
+
+        /// <summary>
+        /// Opens the data stored under a key for reading.
+        /// </summary>
+        /// <param name="key">The key the data is stored under.</param>
+        /// <returns>A stream with the data, or null if nothing is stored under the key. The caller is responsible for disposing it.</returns>
+        /// <exception cref="ArgumentException">Thrown when the key is empty or not a valid key.</exception>
+        Task<Stream?> OpenReadAsync(string key);
+
+        /// <summary>
+        /// Deletes the data stored under a key. Deleting a key that has no data is not an error.
+        /// </summary>
+        /// <param name="key">The key the data is stored under.</param>
+        /// <returns>A task that completes when the data has been deleted.</returns>
+        /// <exception cref="ArgumentException">Thrown when the key is empty or not a valid key.</exception>
+        Task DeleteAsync(string key);
+    }
+}
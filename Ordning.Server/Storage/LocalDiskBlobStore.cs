@@ -0,0 +1,104 @@
+namespace Ordning.Server.Storage
+{
+    /// <summary>
+    /// Blob store that keeps each blob as a file in a directory on local disk.
+    /// </summary>
+    public class LocalDiskBlobStore : IBlobStore
+    {
+        private readonly string _rootPath;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="LocalDiskBlobStore"/> class.
+        /// </summary>
+        /// <param name="rootPath">The directory to store blobs in. It is created if it does not exist.</param>
+        public LocalDiskBlobStore(string rootPath)
+        {
+            _rootPath = Path.GetFullPath(rootPath);
+            Directory.CreateDirectory(_rootPath);
+        }
+
+        /// <summary>
+        /// Saves data under a key, replacing any data already stored under it.
+        /// </summary>
+        /// <param name="key">The key to store the data under. Keys may contain forward slashes to group related blobs.</param>
+        /// <param name="content">The data to store. The stream is read to its end but not disposed.</param>
+        /// <param name="contentType">The content type of the data. Not used, since the owner of the blob keeps track of it.</param>
+        /// <returns>A task that completes when the data has been stored.</returns>
+        /// <exception cref="ArgumentException">Thrown when the key is empty or would point outside the root directory.</exception>
+        public async Task SaveAsync(string key, Stream content, string contentType)
+        {
+            string path = GetPath(key);
+            Directory.CreateDirectory(Path.GetDirectoryName(path)!);
+
+            // Write to a temporary file first so that a failed upload never leaves a half-written blob behind
+            string temporaryPath = $"{path}.{Guid.NewGuid():N}.tmp";
+            try
+            {
+                await using (FileStream fileStream = new FileStream(temporaryPath, FileMode.CreateNew, FileAccess.Write, FileShare.None, bufferSize: 81920, useAsync: true))
+                {
+                    await content.CopyToAsync(fileStream);
+                }
+
+                File.Move(temporaryPath, path, overwrite: true);
+            }
+            finally
+            {
+                if (File.Exists(temporaryPath))
+                {
+                    File.Delete(temporaryPath);
+                }
+            }
+        }
+
+        /// <summary>
+        /// Opens the data stored under a key for reading.
+        /// </summary>
+        /// <param name="key">The key the data is stored under.</param>
+        /// <returns>A stream with the data, or null if nothing is stored under the key. The caller is responsible for disposing it.</returns>
+        /// <exception cref="ArgumentException">Thrown when the key is empty or would point outside the root directory.</exception>
+        public Task<Stream?> OpenReadAsync(string key)
+        {
+            string path = GetPath(key);
+            if (!File.Exists(path))
+            {
+                return Task.FromResult<Stream?>(null);
+            }
+
+            Stream stream = new FileStream(path, FileMode.Open, FileAccess.Read, FileShare.Read, bufferSize: 81920, useAsync: true);
+            return Task.FromResult<Stream?>(stream);
+        }
+
+        /// <summary>
+        /// Deletes the data stored under a key. Deleting a key that has no data is not an error.
+        /// </summary>
+        /// <param name="key">The key the data is stored under.</param>
+        /// <returns>A task that completes when the data has been deleted.</returns>
+        /// <exception cref="ArgumentException">Thrown when the key is empty or would point outside the root directory.</exception>
+        public Task DeleteAsync(string key)
+        {
+            string path = GetPath(key);
+            if (File.Exists(path))
+            {
+                File.Delete(path);
+            }
+
+            return Task.CompletedTask;
+        }
+
+        private string GetPath(string key)
+        {
+            if (string.IsNullOrWhiteSpace(key))
+            {
+                throw new ArgumentException("Blob key cannot be null or empty.", nameof(key));
+            }
+
+            string path = Path.GetFullPath(Path.Combine(_rootPath, key));
+            if (!path.StartsWith(_rootPath + Path.DirectorySeparatorChar, StringComparison.Ordinal))
+            {
+                throw new ArgumentException($"Blob key '{key}' is not valid.", nameof(key));
+            }
+
+            return path;
+        }
+    }
+}
@@ -0,0 +1,60 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.RateLimiting;
+using Ordning.Server.Locations.Models;
+using Ordning.Server.RateLimiting;
+using Ordning.Server.Tags.Models;
+using Ordning.Server.Tags.Services;
+
+namespace Ordning.Server.Tags.Controllers
+{
+    /// <summary>
+    /// Controller for browsing tags. Tags are set through the item and location endpoints, and tagged items are found with the item search.
+    /// </summary>
+    [ApiController]
+    [Route("api/[controller]")]
+    [EnableRateLimiting(RateLimitPolicies.Lenient)]
+    public class TagController : ControllerBase
+    {
+        private readonly ITagService _tagService;
+        private readonly ILogger<TagController> _logger;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="TagController"/> class.
+        /// </summary>
+        /// <param name="tagService">The tag service.</param>
+        /// <param name="logger">The logger.</param>
+        public TagController(ITagService tagService, ILogger<TagController> logger)
+        {
+            _tagService = tagService;
+            _logger = logger;
+        }
+
+        /// <summary>
+        /// Gets every tag in use, ordered by name, with how many items and locations have it.
+        /// </summary>
+        /// <returns>A collection of tags.</returns>
+        [HttpGet]
+        [Authorize]
+        [ProducesResponseType(typeof(IEnumerable<Tag>), 200)]
+        public async Task<ActionResult<IEnumerable<Tag>>> GetAllTags()
+        {
+            IEnumerable<Tag> tags = await _tagService.GetAllTagsAsync();
+            return Ok(tags);
+        }
+
+        /// <summary>
+        /// Gets the locations that have a tag, ignoring case.
+        /// </summary>
+        /// <param name="name">The name of the tag.</param>
+        /// <returns>The tagged locations, ordered by name.</returns>
+        [HttpGet("{name}/locations")]
+        [Authorize]
+        [ProducesResponseType(typeof(IEnumerable<Location>), 200)]
+        public async Task<ActionResult<IEnumerable<Location>>> GetTaggedLocations(string name)
+        {
+            IEnumerable<Location> locations = await _tagService.GetTaggedLocationsAsync(name);
+            return Ok(locations);
+        }
+    }
+}
@@ -0,0 +1,36 @@
+namespace Ordning.Server.Tags.Models
+{
+    /// <summary>
+    /// Represents a tag together with how many items and locations have it.
+    /// </summary>
+    public class Tag
+    {
+        /// <summary>
+        /// Gets the name of the tag.
+        /// </summary>
+        public string Name { get; }
+
+        /// <summary>
+        /// Gets the number of items that have the tag.
+        /// </summary>
+        public int ItemCount { get; }
+
+        /// <summary>
+        /// Gets the number of locations that have the tag.
+        /// </summary>
+        public int LocationCount { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="Tag"/> class.
+        /// </summary>
+        /// <param name="name">The name of the tag.</param>
+        /// <param name="itemCount">The number of items that have the tag.</param>
+        /// <param name="locationCount">The number of locations that have the tag.</param>
+        public Tag(string name, int itemCount, int locationCount)
+        {
+            Name = name;
+            ItemCount = itemCount;
+            LocationCount = locationCount;
+        }
+    }
+}
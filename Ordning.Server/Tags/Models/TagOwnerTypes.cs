@@ -0,0 +1,18 @@
+namespace Ordning.Server.Tags.Models
+{
+    /// <summary>
+    /// The kinds of entities that can be tagged.
+    /// </summary>
+    public static class TagOwnerTypes
+    {
+        /// <summary>
+        /// An item.
+        /// </summary>
+        public const string Item = "item";
+
+        /// <summary>
+        /// A location.
+        /// </summary>
+        public const string Location = "location";
+    }
+}
@@ -0,0 +1,29 @@
+using EasyReasy.Database;
+
+namespace Ordning.Server.Tags.Repositories
+{
+    /// <summary>
+    /// Repository interface for tag data access operations.
+    /// </summary>
+    public interface ITagRepository
+    {
+        /// <summary>
+        /// Gets every tag that is on at least one existing item or location, ordered by name, with its usage counts.
+        /// </summary>
+        /// <param name="workspaceId">Only count items and locations in this workspace. Defaults to null, which counts every workspace.</param>
+        /// <param name="hiddenLocationIds">These locations and the items in them are not counted. Defaults to null for none.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of tag database models.</returns>
+        Task<IEnumerable<TagDbModel>> GetAllAsync(Guid? workspaceId = null, IEnumerable<string>? hiddenLocationIds = null, IDbSession? session = null);
+
+        /// <summary>
+        /// Replaces the tags of an item or a location.
+        /// </summary>
+        /// <param name="ownerType">The kind of entity the tags belong to.</param>
+        /// <param name="ownerId">The identifier of the entity the tags belong to.</param>
+        /// <param name="names">The new tag names.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A task that represents the asynchronous operation.</returns>
+        Task SetTagsAsync(string ownerType, string ownerId, IEnumerable<string> names, IDbSession? session = null);
+    }
+}
@@ -0,0 +1,37 @@
+using Ordning.Server.Tags.Models;
+
+namespace Ordning.Server.Tags.Repositories
+{
+    /// <summary>
+    /// Database model representing a tag and its usage counts.
+    /// </summary>
+    public class TagDbModel
+    {
+        /// <summary>
+        /// Gets or sets the name of the tag.
+        /// </summary>
+        public string Name { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the number of items that have the tag.
+        /// </summary>
+        public int ItemCount { get; set; }
+
+        /// <summary>
+        /// Gets or sets the number of locations that have the tag.
+        /// </summary>
+        public int LocationCount { get; set; }
+
+        /// <summary>
+        /// Converts the database model to a domain Tag model.
+        /// </summary>
+        /// <returns>A Tag domain model.</returns>
+        public Tag ToDomainTag()
+        {
+            return new Tag(
+                name: Name,
+                itemCount: ItemCount,
+                locationCount: LocationCount);
+        }
+    }
+}
@@ -0,0 +1,102 @@
+using System.Data.Common;
+using Dapper;
+using EasyReasy.Database;
+using Ordning.Server.Database;
+using Ordning.Server.Tags.Models;
+
+namespace Ordning.Server.Tags.Repositories
+{
+    /// <summary>
+    /// Repository implementation for tag data access operations.
+    /// </summary>
+    public class TagRepository : RepositoryBase, ITagRepository
+    {
+        /// <summary>
+        /// Initializes a new instance of the <see cref="TagRepository"/> class.
+        /// </summary>
+        /// <param name="dataSource">The database data source.</param>
+        /// <param name="sessionFactory">The session factory for creating database sessions.</param>
+        public TagRepository(DbDataSource dataSource, IDbSessionFactory sessionFactory)
+            : base(dataSource, sessionFactory)
+        {
+        }
+
+        /// <summary>
+        /// Gets every tag that is on at least one existing item or location, ordered by name, with its usage counts.
+        /// Tags of deleted items and locations are kept for restoring them, but are not counted.
+        /// </summary>
+        /// <param name="workspaceId">Only count items and locations in this workspace. Defaults to null, which counts every workspace.</param>
+        /// <param name="hiddenLocationIds">These locations and the items in them are not counted. Defaults to null for none.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of tag database models.</returns>
+        public async Task<IEnumerable<TagDbModel>> GetAllAsync(Guid? workspaceId = null, IEnumerable<string>? hiddenLocationIds = null, IDbSession? session = null)
+        {
+            string[] hiddenLocationIdsArray = hiddenLocationIds?.ToArray() ?? Array.Empty<string>();
+
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT
+                        MIN(tags.name) AS Name,
+                        COUNT(*) FILTER (WHERE tags.owner_type = '{TagOwnerTypes.Item}')::int AS ItemCount,
+                        COUNT(*) FILTER (WHERE tags.owner_type = '{TagOwnerTypes.Location}')::int AS LocationCount
+                    FROM tags
+                    WHERE (tags.owner_type = '{TagOwnerTypes.Item}' AND EXISTS (
+                            SELECT 1 FROM items
+                            INNER JOIN locations ON locations.id = items.location_id
+                            WHERE items.id::text = tags.owner_id AND (@{nameof(workspaceId)}::uuid IS NULL OR locations.workspace_id = @{nameof(workspaceId)})
+                                AND NOT (locations.id = ANY(@{nameof(hiddenLocationIdsArray)}))))
+                        OR (tags.owner_type = '{TagOwnerTypes.Location}' AND EXISTS (
+                            SELECT 1 FROM locations
+                            WHERE locations.id = tags.owner_id AND (@{nameof(workspaceId)}::uuid IS NULL OR locations.workspace_id = @{nameof(workspaceId)})
+                                AND NOT (locations.id = ANY(@{nameof(hiddenLocationIdsArray)}))))
+                    GROUP BY LOWER(tags.name)
+                    ORDER BY LOWER(tags.name)";
+
+                IEnumerable<TagDbModel> result = await dbSession.Connection.QueryAsync<TagDbModel>(
+                    query,
+                    new { workspaceId, hiddenLocationIdsArray },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Replaces the tags of an item or a location in one transaction.
+        /// </summary>
+        /// <param name="ownerType">The kind of entity the tags belong to.</param>
+        /// <param name="ownerId">The identifier of the entity the tags belong to.</param>
+        /// <param name="names">The new tag names.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A task that represents the asynchronous operation.</returns>
+        public async Task SetTagsAsync(string ownerType, string ownerId, IEnumerable<string> names, IDbSession? session = null)
+        {
+            string[] namesArray = names.ToArray();
+
+            await UseSessionAsync(async (dbSession) =>
+            {
+                return await dbSession.UseTransactionAsync(async (transaction) =>
+                {
+                    string deleteQuery = $@"
+                        DELETE FROM tags
+                        WHERE owner_type = @{nameof(ownerType)} AND owner_id = @{nameof(ownerId)}";
+
+                    await dbSession.Connection.ExecuteAsync(
+                        deleteQuery,
+                        new { ownerType, ownerId },
+                        transaction: transaction);
+
+                    string insertQuery = $@"
+                        INSERT INTO tags (owner_type, owner_id, name)
+                        SELECT @{nameof(ownerType)}, @{nameof(ownerId)}, UNNEST(@{nameof(namesArray)})";
+
+                    return await dbSession.Connection.ExecuteAsync(
+                        insertQuery,
+                        new { ownerType, ownerId, namesArray },
+                        transaction: transaction);
+                });
+            }, session);
+        }
+    }
+}
@@ -0,0 +1,42 @@
+using Ordning.Server.Locations.Models;
+using Ordning.Server.Tags.Models;
+
+namespace Ordning.Server.Tags.Services
+{
+    /// <summary>
+    /// Service interface for tag business logic operations.
+    /// </summary>
+    public interface ITagService
+    {
+        /// <summary>
+        /// Gets every tag in use in the current workspace, ordered by name, with how many items and locations have it.
+        /// </summary>
+        /// <returns>A collection of tags.</returns>
+        Task<IEnumerable<Tag>> GetAllTagsAsync();
+
+        /// <summary>
+        /// Gets the locations in the current workspace that have a tag, ignoring case.
+        /// </summary>
+        /// <param name="name">The name of the tag.</param>
+        /// <returns>The tagged locations, ordered by name.</returns>
+        Task<IEnumerable<Location>> GetTaggedLocationsAsync(string name);
+
+        /// <summary>
+        /// Checks and cleans up tag names before they are saved. Names are trimmed, duplicates that only differ in case are
+        /// removed, and names already in use in the current workspace get the existing spelling so the same tag isn't written two ways.
+        /// </summary>
+        /// <param name="tags">The tag names as entered.</param>
+        /// <returns>The normalized tag names.</returns>
+        /// <exception cref="ArgumentException">Thrown when a tag name is empty or too long.</exception>
+        Task<IReadOnlyList<string>> NormalizeTagsAsync(IEnumerable<string> tags);
+
+        /// <summary>
+        /// Replaces the tags of an item or a location. The names should already be normalized with <see cref="NormalizeTagsAsync"/>.
+        /// </summary>
+        /// <param name="ownerType">The kind of entity the tags belong to. See <see cref="TagOwnerTypes"/>.</param>
+        /// <param name="ownerId">The identifier of the entity the tags belong to.</param>
+        /// <param name="tags">The new tag names.</param>
+        /// <returns>A task that represents the asynchronous operation.</returns>
+        Task SetTagsAsync(string ownerType, string ownerId, IEnumerable<string> tags);
+    }
+}
@@ -0,0 +1,125 @@
+using Ordning.Server.Locations.Models;
+using Ordning.Server.Locations.Repositories;
+using Ordning.Server.Locations.Services;
+using Ordning.Server.Tags.Models;
+using Ordning.Server.Tags.Repositories;
+using Ordning.Server.Workspaces.Services;
+
+namespace Ordning.Server.Tags.Services
+{
+    /// <summary>
+    /// Implementation of <see cref="ITagService"/> that provides tag business logic operations.
+    /// Locations hidden by access rules, and the items in them, are left out of what is read.
+    /// </summary>
+    public class TagService : ITagService
+    {
+        /// <summary>
+        /// The maximum length of a tag name.
+        /// </summary>
+        public const int MaxNameLength = 50;
+
+        private readonly ITagRepository _tagRepository;
+        private readonly ILocationRepository _locationRepository;
+        private readonly IWorkspaceService _workspaceService;
+        private readonly ILocationAccessService _locationAccessService;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="TagService"/> class.
+        /// </summary>
+        /// <param name="tagRepository">The tag repository for database access.</param>
+        /// <param name="locationRepository">The location repository for finding tagged locations.</param>
+        /// <param name="workspaceService">The workspace service used to find the workspace of the current request.</param>
+        /// <param name="locationAccessService">The location access service used to leave out locations hidden from the current user.</param>
+        public TagService(ITagRepository tagRepository, ILocationRepository locationRepository, IWorkspaceService workspaceService, ILocationAccessService locationAccessService)
+        {
+            _tagRepository = tagRepository;
+            _locationRepository = locationRepository;
+            _workspaceService = workspaceService;
+            _locationAccessService = locationAccessService;
+        }
+
+        /// <summary>
+        /// Gets every tag in use in the current workspace, ordered by name, with how many items and locations have it.
+        /// </summary>
+        /// <returns>A collection of tags.</returns>
+        public async Task<IEnumerable<Tag>> GetAllTagsAsync()
+        {
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            IReadOnlySet<string> hiddenLocationIds = await _locationAccessService.GetHiddenLocationIdsAsync();
+            IEnumerable<TagDbModel> tags = await _tagRepository.GetAllAsync(workspaceId: workspaceId, hiddenLocationIds: hiddenLocationIds);
+            return tags.Select(t => t.ToDomainTag());
+        }
+
+        /// <summary>
+        /// Gets the locations in the current workspace that have a tag, ignoring case.
+        /// </summary>
+        /// <param name="name">The name of the tag.</param>
+        /// <returns>The tagged locations, ordered by name.</returns>
+        public async Task<IEnumerable<Location>> GetTaggedLocationsAsync(string name)
+        {
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            IEnumerable<LocationDbModel> locations = await _locationRepository.GetByTagAsync((name ?? string.Empty).Trim(), workspaceId: workspaceId);
+            IReadOnlySet<string> hiddenLocationIds = await _locationAccessService.GetHiddenLocationIdsAsync();
+            return locations.Where(l => !hiddenLocationIds.Contains(l.Id)).Select(l => l.ToDomainLocation());
+        }
+
+        /// <summary>
+        /// Checks and cleans up tag names before they are saved. Names are trimmed, duplicates that only differ in case are
+        /// removed, and names already in use in the current workspace get the existing spelling so the same tag isn't written two ways.
+        /// </summary>
+        /// <param name="tags">The tag names as entered.</param>
+        /// <returns>The normalized tag names.</returns>
+        /// <exception cref="ArgumentException">Thrown when a tag name is empty or too long.</exception>
+        public async Task<IReadOnlyList<string>> NormalizeTagsAsync(IEnumerable<string> tags)
+        {
+            List<string> trimmedTags = new List<string>();
+            foreach (string tag in tags)
+            {
+                string trimmedTag = (tag ?? string.Empty).Trim();
+                if (string.IsNullOrEmpty(trimmedTag))
+                {
+                    throw new ArgumentException("Tag names cannot be empty.", nameof(tags));
+                }
+
+                if (trimmedTag.Length > MaxNameLength)
+                {
+                    throw new ArgumentException($"Tag '{trimmedTag}' is longer than {MaxNameLength} characters.", nameof(tags));
+                }
+
+                if (!trimmedTags.Any(t => string.Equals(t, trimmedTag, StringComparison.OrdinalIgnoreCase)))
+                {
+                    trimmedTags.Add(trimmedTag);
+                }
+            }
+
+            if (trimmedTags.Count == 0)
+            {
+                return trimmedTags;
+            }
+
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+            IEnumerable<TagDbModel> existingTags = await _tagRepository.GetAllAsync(workspaceId: workspaceId);
+            Dictionary<string, string> existingNames = new Dictionary<string, string>(StringComparer.OrdinalIgnoreCase);
+            foreach (TagDbModel existingTag in existingTags)
+            {
+                existingNames.TryAdd(existingTag.Name, existingTag.Name);
+            }
+
+            return trimmedTags
+                .Select(t => existingNames.TryGetValue(t, out string? existingName) ? existingName : t)
+                .ToList();
+        }
+
+        /// <summary>
+        /// Replaces the tags of an item or a location. The names should already be normalized with <see cref="NormalizeTagsAsync"/>.
+        /// </summary>
+        /// <param name="ownerType">The kind of entity the tags belong to. See <see cref="TagOwnerTypes"/>.</param>
+        /// <param name="ownerId">The identifier of the entity the tags belong to.</param>
+        /// <param name="tags">The new tag names.</param>
+        /// <returns>A task that represents the asynchronous operation.</returns>
+        public async Task SetTagsAsync(string ownerType, string ownerId, IEnumerable<string> tags)
+        {
+            await _tagRepository.SetTagsAsync(ownerType, ownerId, tags);
+        }
+    }
+}
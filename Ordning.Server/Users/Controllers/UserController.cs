@@ -5,6 +5,7 @@ using Microsoft.AspNetCore.RateLimiting;
 using Ordning.Server.RateLimiting;
 using Ordning.Server.Users.Models;
 using Ordning.Server.Users.Services;
+using Ordning.Server.Workspaces.Services;
 
 namespace Ordning.Server.Users.Controllers
 {
@@ -17,16 +18,19 @@ namespace Ordning.Server.Users.Controllers
     public class UserController : ControllerBase
     {
         private readonly IUserService _userService;
+        private readonly IWorkspaceService _workspaceService;
         private readonly ILogger<UserController> _logger;
 
         /// <summary>
         /// Initializes a new instance of the <see cref="UserController"/> class.
         /// </summary>
         /// <param name="userService">The user service.</param>
+        /// <param name="workspaceService">The workspace service for finding the workspace new users are added to.</param>
         /// <param name="logger">The logger.</param>
-        public UserController(IUserService userService, ILogger<UserController> logger)
+        public UserController(IUserService userService, IWorkspaceService workspaceService, ILogger<UserController> logger)
         {
             _userService = userService;
+            _workspaceService = workspaceService;
             _logger = logger;
         }
 
@@ -97,7 +101,7 @@ namespace Ordning.Server.Users.Controllers
         }
 
         /// <summary>
-        /// Creates a new user in the system.
+        /// Creates a new user in the system and adds the user to the workspace the creating admin works in.
         /// </summary>
         /// <param name="request">The user creation request.</param>
         /// <returns>The created user.</returns>
@@ -106,13 +110,18 @@ namespace Ordning.Server.Users.Controllers
         [Authorize(Roles = "admin")]
         [ProducesResponseType(typeof(User), 201)]
         [ProducesResponseType(400)]
+        [ProducesResponseType(403)]
         public async Task<ActionResult<User>> CreateUser([FromBody] CreateUserRequest request)
         {
+            Guid workspaceId = await _workspaceService.GetCurrentWorkspaceIdAsync();
+
             User user = await _userService.CreateUserAsync(
                 username: request.Username,
                 email: request.Email,
                 password: request.Password,
-                roles: request.Roles);
+                roles: request.Roles,
+                workspaceId: workspaceId,
+                workspaceRole: request.WorkspaceRole);
 
             return Created($"/api/users/{user.Id}", user);
         }
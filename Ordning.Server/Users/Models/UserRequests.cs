@@ -1,3 +1,5 @@
+using Ordning.Server.Workspaces.Models;
+
 namespace Ordning.Server.Users.Models
 {
     /// <summary>
@@ -24,6 +26,12 @@ namespace Ordning.Server.Users.Models
         /// Gets or sets the collection of roles for the user.
         /// </summary>
         public IEnumerable<string>? Roles { get; set; }
+
+        /// <summary>
+        /// Gets or sets the role of the user in the workspace the creating admin works in, one of "read", "write" or
+        /// "admin". Defaults to "write".
+        /// </summary>
+        public string WorkspaceRole { get; set; } = WorkspaceRoles.Write;
     }
 
     /// <summary>
@@ -43,7 +51,7 @@ namespace Ordning.Server.Users.Models
     public class UpdateRolesRequest
     {
         /// <summary>
-        /// Gets or sets the collection of roles for the user. Only "write" and "admin" are allowed.
+        /// Gets or sets the collection of roles for the user. Only "admin" is allowed.
         /// </summary>
         public IEnumerable<string> Roles { get; set; } = Array.Empty<string>();
     }
@@ -54,7 +62,7 @@ namespace Ordning.Server.Users.Models
     public class AddRoleRequest
     {
         /// <summary>
-        /// Gets or sets the role to add. Only "write" and "admin" are allowed.
+        /// Gets or sets the role to add. Only "admin" is allowed.
         /// </summary>
         public string Role { get; set; } = string.Empty;
     }
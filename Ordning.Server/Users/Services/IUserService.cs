@@ -1,4 +1,5 @@
 using Ordning.Server.Users.Models;
+using Ordning.Server.Workspaces.Models;
 
 namespace Ordning.Server.Users.Services
 {
@@ -23,17 +24,21 @@ namespace Ordning.Server.Users.Services
         Task<User?> GetUserByIdAsync(string userId);
 
         /// <summary>
-        /// Creates a new user in the system.
+        /// Creates a new user in the system, and adds the user to a workspace when one is given.
         /// </summary>
         /// <param name="username">The username for the user.</param>
         /// <param name="email">The email address for the user.</param>
         /// <param name="password">The plain text password for the user (will be hashed).</param>
         /// <param name="roles">The collection of roles for the user. Defaults to an empty collection.</param>
+        /// <param name="workspaceId">The unique identifier of the workspace to add the user to, or null to add the user to no workspace.</param>
+        /// <param name="workspaceRole">The role of the user in the workspace, one of <see cref="WorkspaceRoles"/>. Defaults to <see cref="WorkspaceRoles.Write"/>.</param>
         /// <returns>The created user domain model.</returns>
-        Task<User> CreateUserAsync(string username, string email, string password, IEnumerable<string>? roles = null);
+        /// <exception cref="ArgumentException">Thrown when the workspace role is unknown.</exception>
+        Task<User> CreateUserAsync(string username, string email, string password, IEnumerable<string>? roles = null, Guid? workspaceId = null, string workspaceRole = WorkspaceRoles.Write);
 
         /// <summary>
-        /// Updates the password for a user.
+        /// Updates the password for a user and ends all of the user's sessions, so that anyone who signed in
+        /// with the old password has to sign in again.
         /// </summary>
         /// <param name="userId">The unique identifier of the user.</param>
         /// <param name="newPassword">The new plain text password (will be hashed).</param>
@@ -50,7 +55,7 @@ namespace Ordning.Server.Users.Services
         /// Updates all roles for a user, replacing the existing roles.
         /// </summary>
         /// <param name="userId">The unique identifier of the user.</param>
-        /// <param name="roles">The collection of roles to set for the user. Only "write" and "admin" are allowed.</param>
+        /// <param name="roles">The collection of roles to set for the user. Only "admin" is allowed.</param>
         /// <returns>True if the user was found and roles were updated; otherwise, false.</returns>
         /// <exception cref="ArgumentException">Thrown when an invalid role is provided.</exception>
         Task<bool> UpdateRolesAsync(string userId, IEnumerable<string> roles);
@@ -59,7 +64,7 @@ namespace Ordning.Server.Users.Services
         /// Adds a role to a user if it doesn't already exist.
         /// </summary>
         /// <param name="userId">The unique identifier of the user.</param>
-        /// <param name="role">The role to add. Only "write" and "admin" are allowed.</param>
+        /// <param name="role">The role to add. Only "admin" is allowed.</param>
         /// <returns>True if the user was found and role was added (or already existed); otherwise, false.</returns>
         /// <exception cref="ArgumentException">Thrown when an invalid role is provided.</exception>
         Task<bool> AddRoleAsync(string userId, string role);
@@ -1,6 +1,9 @@
 using EasyReasy.Auth;
+using Ordning.Server.Sessions.Repositories;
 using Ordning.Server.Users.Models;
 using Ordning.Server.Users.Repositories;
+using Ordning.Server.Workspaces.Models;
+using Ordning.Server.Workspaces.Repositories;
 
 namespace Ordning.Server.Users.Services
 {
@@ -11,16 +14,22 @@ namespace Ordning.Server.Users.Services
     {
         private readonly IUserRepository _userRepository;
         private readonly IPasswordHasher _passwordHasher;
+        private readonly IRefreshTokenRepository _refreshTokenRepository;
+        private readonly IWorkspaceRepository _workspaceRepository;
 
         /// <summary>
         /// Initializes a new instance of the <see cref="UserService"/> class.
         /// </summary>
         /// <param name="userRepository">The user repository for database access.</param>
         /// <param name="passwordHasher">The password hasher for verifying passwords.</param>
-        public UserService(IUserRepository userRepository, IPasswordHasher passwordHasher)
+        /// <param name="refreshTokenRepository">The refresh token repository for ending the sessions of a user.</param>
+        /// <param name="workspaceRepository">The workspace repository for adding new users to a workspace.</param>
+        public UserService(IUserRepository userRepository, IPasswordHasher passwordHasher, IRefreshTokenRepository refreshTokenRepository, IWorkspaceRepository workspaceRepository)
         {
             _userRepository = userRepository;
             _passwordHasher = passwordHasher;
+            _refreshTokenRepository = refreshTokenRepository;
+            _workspaceRepository = workspaceRepository;
         }
 
         /// <summary>
@@ -72,15 +81,24 @@ namespace Ordning.Server.Users.Services
         }
 
         /// <summary>
-        /// Creates a new user in the system.
+        /// Creates a new user in the system, and adds the user to a workspace when one is given.
         /// </summary>
         /// <param name="username">The username for the user.</param>
         /// <param name="email">The email address for the user.</param>
         /// <param name="password">The plain text password for the user (will be hashed).</param>
         /// <param name="roles">The collection of roles for the user. Defaults to an empty collection.</param>
+        /// <param name="workspaceId">The unique identifier of the workspace to add the user to, or null to add the user to no workspace.</param>
+        /// <param name="workspaceRole">The role of the user in the workspace, one of <see cref="WorkspaceRoles"/>. Defaults to <see cref="WorkspaceRoles.Write"/>.</param>
         /// <returns>The created user domain model.</returns>
-        public async Task<User> CreateUserAsync(string username, string email, string password, IEnumerable<string>? roles = null)
+        /// <exception cref="ArgumentException">Thrown when the workspace role is unknown.</exception>
+        public async Task<User> CreateUserAsync(string username, string email, string password, IEnumerable<string>? roles = null, Guid? workspaceId = null, string workspaceRole = WorkspaceRoles.Write)
         {
+            string normalizedWorkspaceRole = (workspaceRole ?? string.Empty).Trim().ToLowerInvariant();
+            if (workspaceId.HasValue && !WorkspaceRoles.IsValid(normalizedWorkspaceRole))
+            {
+                throw new ArgumentException($"Workspace role must be one of: {string.Join(", ", WorkspaceRoles.All)}.", nameof(workspaceRole));
+            }
+
             string passwordHash = _passwordHasher.HashPassword(password, email);
             
             UserDbModel userDbModel = await _userRepository.CreateAsync(
@@ -88,12 +106,18 @@ namespace Ordning.Server.Users.Services
                 email: email,
                 passwordHash: passwordHash,
                 roles: roles);
+
+            if (workspaceId.HasValue)
+            {
+                await _workspaceRepository.SetMemberAsync(workspaceId.Value, userDbModel.Id, normalizedWorkspaceRole);
+            }
             
             return userDbModel.ToDomainUser();
         }
 
         /// <summary>
-        /// Updates the password for a user.
+        /// Updates the password for a user and ends all of the user's sessions, so that anyone who signed in
+        /// with the old password has to sign in again.
         /// </summary>
         /// <param name="userId">The unique identifier of the user.</param>
         /// <param name="newPassword">The new plain text password (will be hashed).</param>
@@ -116,7 +140,12 @@ namespace Ordning.Server.Users.Services
             bool updated = await _userRepository.UpdatePasswordAsync(
                 userId: userGuid,
                 passwordHash: passwordHash);
-            
+
+            if (updated)
+            {
+                await _refreshTokenRepository.RevokeAllForUserAsync(userGuid);
+            }
+
             return updated;
         }
 
@@ -134,7 +163,7 @@ namespace Ordning.Server.Users.Services
         /// Updates all roles for a user, replacing the existing roles.
         /// </summary>
         /// <param name="userId">The unique identifier of the user.</param>
-        /// <param name="roles">The collection of roles to set for the user. Only "write" and "admin" are allowed.</param>
+        /// <param name="roles">The collection of roles to set for the user. Only "admin" is allowed.</param>
         /// <returns>True if the user was found and roles were updated; otherwise, false.</returns>
         /// <exception cref="ArgumentException">Thrown when an invalid role is provided.</exception>
         public async Task<bool> UpdateRolesAsync(string userId, IEnumerable<string> roles)
@@ -157,7 +186,7 @@ namespace Ordning.Server.Users.Services
         /// Adds a role to a user if it doesn't already exist.
         /// </summary>
         /// <param name="userId">The unique identifier of the user.</param>
-        /// <param name="role">The role to add. Only "write" and "admin" are allowed.</param>
+        /// <param name="role">The role to add. Only "admin" is allowed.</param>
         /// <returns>True if the user was found and role was added (or already existed); otherwise, false.</returns>
         /// <exception cref="ArgumentException">Thrown when an invalid role is provided.</exception>
         public async Task<bool> AddRoleAsync(string userId, string role)
@@ -201,7 +230,7 @@ namespace Ordning.Server.Users.Services
         /// Validates that a role is one of the allowed values.
         /// </summary>
         /// <param name="role">The role to validate.</param>
-        /// <exception cref="ArgumentException">Thrown when the role is not "write" or "admin".</exception>
+        /// <exception cref="ArgumentException">Thrown when the role is not "admin".</exception>
         private static void ValidateRole(string role)
         {
             if (string.IsNullOrWhiteSpace(role))
@@ -209,9 +238,9 @@ namespace Ordning.Server.Users.Services
                 throw new ArgumentException("Role cannot be null or empty.", nameof(role));
             }
 
-            if (role != "write" && role != "admin")
+            if (role != "admin")
             {
-                throw new ArgumentException($"Invalid role '{role}'. Only 'write' and 'admin' are allowed.", nameof(role));
+                throw new ArgumentException($"Invalid role '{role}'. Only 'admin' is allowed.", nameof(role));
             }
         }
     }
@@ -0,0 +1,177 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.RateLimiting;
+using Ordning.Server.RateLimiting;
+using Ordning.Server.Workspaces.Models;
+using Ordning.Server.Workspaces.Services;
+
+namespace Ordning.Server.Workspaces.Controllers
+{
+    /// <summary>
+    /// Controller for workspaces and their members. The other endpoints work in the workspace selected with the
+    /// X-Workspace-Id header, or in the user's first workspace if the header is missing.
+    /// </summary>
+    [ApiController]
+    [Route("api/[controller]")]
+    [EnableRateLimiting(RateLimitPolicies.Lenient)]
+    public class WorkspaceController : ControllerBase
+    {
+        private readonly IWorkspaceService _workspaceService;
+        private readonly ILogger<WorkspaceController> _logger;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="WorkspaceController"/> class.
+        /// </summary>
+        /// <param name="workspaceService">The workspace service.</param>
+        /// <param name="logger">The logger.</param>
+        public WorkspaceController(IWorkspaceService workspaceService, ILogger<WorkspaceController> logger)
+        {
+            _workspaceService = workspaceService;
+            _logger = logger;
+        }
+
+        /// <summary>
+        /// Gets the workspaces the current user is a member of, ordered by name. Global admins get every workspace.
+        /// </summary>
+        /// <returns>A collection of workspaces with the current user's role.</returns>
+        [HttpGet]
+        [Authorize]
+        [ProducesResponseType(typeof(IEnumerable<Workspace>), 200)]
+        public async Task<ActionResult<IEnumerable<Workspace>>> GetWorkspaces()
+        {
+            IEnumerable<Workspace> workspaces = await _workspaceService.GetWorkspacesAsync();
+            return Ok(workspaces);
+        }
+
+        /// <summary>
+        /// Creates a workspace with the current user as its admin. Needs the global admin role.
+        /// </summary>
+        /// <param name="request">The workspace creation request.</param>
+        /// <returns>The created workspace.</returns>
+        [HttpPost]
+        [EnableRateLimiting(RateLimitPolicies.Strict)]
+        [Authorize(Roles = "admin")]
+        [ProducesResponseType(typeof(Workspace), 201)]
+        [ProducesResponseType(400)]
+        [ProducesResponseType(403)]
+        public async Task<ActionResult<Workspace>> CreateWorkspace([FromBody] CreateWorkspaceRequest request)
+        {
+            Workspace workspace = await _workspaceService.CreateWorkspaceAsync(request.Name);
+            return StatusCode(201, workspace);
+        }
+
+        /// <summary>
+        /// Renames a workspace. Needs the admin role in the workspace, or the global admin role.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <param name="request">The workspace update request.</param>
+        /// <returns>The renamed workspace.</returns>
+        [HttpPut("{id}")]
+        [Authorize]
+        [ProducesResponseType(typeof(Workspace), 200)]
+        [ProducesResponseType(400)]
+        [ProducesResponseType(403)]
+        [ProducesResponseType(404)]
+        public async Task<ActionResult<Workspace>> UpdateWorkspace(Guid id, [FromBody] UpdateWorkspaceRequest request)
+        {
+            Workspace? workspace = await _workspaceService.RenameWorkspaceAsync(id, request.Name);
+            if (workspace == null)
+            {
+                return NotFound($"Workspace with ID '{id}' not found.");
+            }
+
+            return Ok(workspace);
+        }
+
+        /// <summary>
+        /// Gets the members of a workspace, ordered by username.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <returns>The members of the workspace.</returns>
+        [HttpGet("{id}/members")]
+        [Authorize]
+        [ProducesResponseType(typeof(IEnumerable<WorkspaceMember>), 200)]
+        [ProducesResponseType(403)]
+        [ProducesResponseType(404)]
+        public async Task<ActionResult<IEnumerable<WorkspaceMember>>> GetMembers(Guid id)
+        {
+            IEnumerable<WorkspaceMember>? members = await _workspaceService.GetMembersAsync(id);
+            if (members == null)
+            {
+                return NotFound($"Workspace with ID '{id}' not found.");
+            }
+
+            return Ok(members);
+        }
+
+        /// <summary>
+        /// Adds a user to a workspace by username or email address, or changes their role if they already are a member.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <param name="request">The add member request.</param>
+        /// <returns>The added member.</returns>
+        [HttpPost("{id}/members")]
+        [Authorize]
+        [ProducesResponseType(typeof(WorkspaceMember), 200)]
+        [ProducesResponseType(400)]
+        [ProducesResponseType(403)]
+        [ProducesResponseType(404)]
+        public async Task<ActionResult<WorkspaceMember>> AddMember(Guid id, [FromBody] AddWorkspaceMemberRequest request)
+        {
+            WorkspaceMember? member = await _workspaceService.AddMemberAsync(id, request.User, request.Role);
+            if (member == null)
+            {
+                return NotFound($"Workspace with ID '{id}' not found.");
+            }
+
+            return Ok(member);
+        }
+
+        /// <summary>
+        /// Changes the role of a member of a workspace.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <param name="userId">The unique identifier of the member.</param>
+        /// <param name="request">The update member request.</param>
+        /// <returns>204 No Content if updated; otherwise, 404 Not Found.</returns>
+        [HttpPut("{id}/members/{userId}")]
+        [Authorize]
+        [ProducesResponseType(204)]
+        [ProducesResponseType(400)]
+        [ProducesResponseType(403)]
+        [ProducesResponseType(404)]
+        public async Task<IActionResult> UpdateMember(Guid id, Guid userId, [FromBody] UpdateWorkspaceMemberRequest request)
+        {
+            bool updated = await _workspaceService.UpdateMemberRoleAsync(id, userId, request.Role);
+            if (!updated)
+            {
+                return NotFound($"User with ID '{userId}' is not a member of workspace '{id}'.");
+            }
+
+            return NoContent();
+        }
+
+        /// <summary>
+        /// Removes a member from a workspace. Members can always leave a workspace themselves.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <param name="userId">The unique identifier of the member.</param>
+        /// <returns>204 No Content if removed; otherwise, 404 Not Found.</returns>
+        [HttpDelete("{id}/members/{userId}")]
+        [Authorize]
+        [ProducesResponseType(204)]
+        [ProducesResponseType(400)]
+        [ProducesResponseType(403)]
+        [ProducesResponseType(404)]
+        public async Task<IActionResult> RemoveMember(Guid id, Guid userId)
+        {
+            bool removed = await _workspaceService.RemoveMemberAsync(id, userId);
+            if (!removed)
+            {
+                return NotFound($"User with ID '{userId}' is not a member of workspace '{id}'.");
+            }
+
+            return NoContent();
+        }
+    }
+}
@@ -0,0 +1,48 @@
+namespace Ordning.Server.Workspaces.Models
+{
+    /// <summary>
+    /// Represents a workspace, a separate inventory of locations and items shared by its members.
+    /// </summary>
+    public class Workspace
+    {
+        /// <summary>
+        /// The identifier of the workspace that everything from before workspaces was moved into.
+        /// </summary>
+        public static readonly Guid DefaultId = new Guid("00000000-0000-0000-0000-000000000001");
+
+        /// <summary>
+        /// Gets the unique identifier for the workspace.
+        /// </summary>
+        public Guid Id { get; }
+
+        /// <summary>
+        /// Gets the name of the workspace.
+        /// </summary>
+        public string Name { get; }
+
+        /// <summary>
+        /// Gets the role of the current user in the workspace, one of <see cref="WorkspaceRoles"/>, or null if the user is not a member.
+        /// </summary>
+        public string? Role { get; }
+
+        /// <summary>
+        /// Gets the UTC timestamp when the workspace was created.
+        /// </summary>
+        public DateTimeOffset CreatedAt { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="Workspace"/> class.
+        /// </summary>
+        /// <param name="id">The unique identifier for the workspace.</param>
+        /// <param name="name">The name of the workspace.</param>
+        /// <param name="role">The role of the current user in the workspace. Defaults to null.</param>
+        /// <param name="createdAt">The UTC timestamp when the workspace was created.</param>
+        public Workspace(Guid id, string name, string? role = null, DateTimeOffset createdAt = default)
+        {
+            Id = id;
+            Name = name;
+            Role = role;
+            CreatedAt = createdAt;
+        }
+    }
+}
@@ -0,0 +1,43 @@
+namespace Ordning.Server.Workspaces.Models
+{
+    /// <summary>
+    /// Represents a user's membership in a workspace.
+    /// </summary>
+    public class WorkspaceMember
+    {
+        /// <summary>
+        /// Gets the unique identifier of the user.
+        /// </summary>
+        public Guid UserId { get; }
+
+        /// <summary>
+        /// Gets the username of the user.
+        /// </summary>
+        public string Username { get; }
+
+        /// <summary>
+        /// Gets the email address of the user.
+        /// </summary>
+        public string Email { get; }
+
+        /// <summary>
+        /// Gets the role of the user in the workspace, one of <see cref="WorkspaceRoles"/>.
+        /// </summary>
+        public string Role { get; }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="WorkspaceMember"/> class.
+        /// </summary>
+        /// <param name="userId">The unique identifier of the user.</param>
+        /// <param name="username">The username of the user.</param>
+        /// <param name="email">The email address of the user.</param>
+        /// <param name="role">The role of the user in the workspace.</param>
+        public WorkspaceMember(Guid userId, string username, string email, string role)
+        {
+            UserId = userId;
+            Username = username;
+            Email = email;
+            Role = role;
+        }
+    }
+}
@@ -0,0 +1,51 @@
+namespace Ordning.Server.Workspaces.Models
+{
+    /// <summary>
+    /// Request model for creating a workspace.
+    /// </summary>
+    public class CreateWorkspaceRequest
+    {
+        /// <summary>
+        /// Gets or sets the name of the workspace.
+        /// </summary>
+        public string Name { get; set; } = string.Empty;
+    }
+
+    /// <summary>
+    /// Request model for renaming a workspace.
+    /// </summary>
+    public class UpdateWorkspaceRequest
+    {
+        /// <summary>
+        /// Gets or sets the new name of the workspace.
+        /// </summary>
+        public string Name { get; set; } = string.Empty;
+    }
+
+    /// <summary>
+    /// Request model for adding a member to a workspace.
+    /// </summary>
+    public class AddWorkspaceMemberRequest
+    {
+        /// <summary>
+        /// Gets or sets the username or email address of the user to add.
+        /// </summary>
+        public string User { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the role of the user in the workspace.
+        /// </summary>
+        public string Role { get; set; } = WorkspaceRoles.Read;
+    }
+
+    /// <summary>
+    /// Request model for changing the role of a workspace member.
+    /// </summary>
+    public class UpdateWorkspaceMemberRequest
+    {
+        /// <summary>
+        /// Gets or sets the new role of the member in the workspace.
+        /// </summary>
+        public string Role { get; set; } = string.Empty;
+    }
+}
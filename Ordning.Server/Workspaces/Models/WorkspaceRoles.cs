@@ -0,0 +1,63 @@
+namespace Ordning.Server.Workspaces.Models
+{
+    /// <summary>
+    /// The roles a member can have in a workspace. Each role includes the access of the roles below it.
+    /// </summary>
+    public static class WorkspaceRoles
+    {
+        /// <summary>
+        /// Can see everything in the workspace.
+        /// </summary>
+        public const string Read = "read";
+
+        /// <summary>
+        /// Can also change items and locations in the workspace.
+        /// </summary>
+        public const string Write = "write";
+
+        /// <summary>
+        /// Can also rename the workspace and manage its members.
+        /// </summary>
+        public const string Admin = "admin";
+
+        /// <summary>
+        /// Gets all workspace roles, from least to most access.
+        /// </summary>
+        public static IReadOnlyList<string> All { get; } = new[] { Read, Write, Admin };
+
+        /// <summary>
+        /// Checks whether a value is a known workspace role.
+        /// </summary>
+        /// <param name="role">The value to check.</param>
+        /// <returns>True if the value is a known workspace role; otherwise, false.</returns>
+        public static bool IsValid(string role)
+        {
+            return All.Contains(role);
+        }
+
+        /// <summary>
+        /// Checks whether a role gives at least the access of another role.
+        /// </summary>
+        /// <param name="role">The role a member has.</param>
+        /// <param name="minimumRole">The role that is needed.</param>
+        /// <returns>True if the role is known and gives at least the access of the minimum role; otherwise, false.</returns>
+        public static bool Includes(string role, string minimumRole)
+        {
+            int rank = IndexOf(role);
+            return rank >= 0 && rank >= IndexOf(minimumRole);
+        }
+
+        private static int IndexOf(string role)
+        {
+            for (int index = 0; index < All.Count; index++)
+            {
+                if (All[index] == role)
+                {
+                    return index;
+                }
+            }
+
+            return -1;
+        }
+    }
+}
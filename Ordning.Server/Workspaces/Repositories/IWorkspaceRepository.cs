@@ -0,0 +1,81 @@
+using EasyReasy.Database;
+
+namespace Ordning.Server.Workspaces.Repositories
+{
+    /// <summary>
+    /// Repository interface for workspace and membership data access operations.
+    /// </summary>
+    public interface IWorkspaceRepository
+    {
+        /// <summary>
+        /// Gets a workspace by its unique identifier, with the role of a user in it.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <param name="userId">The user whose role to include.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The workspace database model if found; otherwise, null.</returns>
+        Task<WorkspaceDbModel?> GetByIdAsync(Guid id, Guid userId, IDbSession? session = null);
+
+        /// <summary>
+        /// Gets all workspaces, ordered by name, with the role of a user in each of them.
+        /// </summary>
+        /// <param name="userId">The user whose roles to include.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of workspace database models.</returns>
+        Task<IEnumerable<WorkspaceDbModel>> GetAllAsync(Guid userId, IDbSession? session = null);
+
+        /// <summary>
+        /// Gets the workspaces a user is a member of, ordered by name.
+        /// </summary>
+        /// <param name="userId">The unique identifier of the user.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of workspace database models with the user's role.</returns>
+        Task<IEnumerable<WorkspaceDbModel>> GetByUserAsync(Guid userId, IDbSession? session = null);
+
+        /// <summary>
+        /// Gets the members of a workspace, ordered by username.
+        /// </summary>
+        /// <param name="workspaceId">The unique identifier of the workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of workspace member database models.</returns>
+        Task<IEnumerable<WorkspaceMemberDbModel>> GetMembersAsync(Guid workspaceId, IDbSession? session = null);
+
+        /// <summary>
+        /// Creates a workspace with a user as its first admin, in one transaction.
+        /// </summary>
+        /// <param name="id">The unique identifier for the workspace.</param>
+        /// <param name="name">The name of the workspace.</param>
+        /// <param name="adminUserId">The user that becomes the admin of the workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The created workspace database model with the admin role.</returns>
+        Task<WorkspaceDbModel> CreateAsync(Guid id, string name, Guid adminUserId, IDbSession? session = null);
+
+        /// <summary>
+        /// Renames a workspace.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <param name="name">The new name of the workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the workspace was found and renamed; otherwise, false.</returns>
+        Task<bool> UpdateNameAsync(Guid id, string name, IDbSession? session = null);
+
+        /// <summary>
+        /// Adds a user to a workspace, or changes their role if they already are a member.
+        /// </summary>
+        /// <param name="workspaceId">The unique identifier of the workspace.</param>
+        /// <param name="userId">The unique identifier of the user.</param>
+        /// <param name="role">The role of the user in the workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A task that represents the asynchronous operation.</returns>
+        Task SetMemberAsync(Guid workspaceId, Guid userId, string role, IDbSession? session = null);
+
+        /// <summary>
+        /// Removes a user from a workspace.
+        /// </summary>
+        /// <param name="workspaceId">The unique identifier of the workspace.</param>
+        /// <param name="userId">The unique identifier of the user.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the user was a member and was removed; otherwise, false.</returns>
+        Task<bool> RemoveMemberAsync(Guid workspaceId, Guid userId, IDbSession? session = null);
+    }
+}
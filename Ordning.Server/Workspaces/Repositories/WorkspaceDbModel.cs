@@ -0,0 +1,43 @@
+using Ordning.Server.Workspaces.Models;
+
+namespace Ordning.Server.Workspaces.Repositories
+{
+    /// <summary>
+    /// Database model representing a workspace together with the role of one user in it.
+    /// </summary>
+    public class WorkspaceDbModel
+    {
+        /// <summary>
+        /// Gets or sets the unique identifier for the workspace.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// Gets or sets the name of the workspace.
+        /// </summary>
+        public string Name { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the role of the user the workspace was read for, or null if the user is not a member.
+        /// </summary>
+        public string? Role { get; set; }
+
+        /// <summary>
+        /// Gets or sets the UTC timestamp when the workspace was created.
+        /// </summary>
+        public DateTimeOffset CreatedAt { get; set; }
+
+        /// <summary>
+        /// Converts the database model to a domain Workspace model.
+        /// </summary>
+        /// <returns>A Workspace domain model.</returns>
+        public Workspace ToDomainWorkspace()
+        {
+            return new Workspace(
+                id: Id,
+                name: Name,
+                role: Role,
+                createdAt: CreatedAt);
+        }
+    }
+}
@@ -0,0 +1,43 @@
+using Ordning.Server.Workspaces.Models;
+
+namespace Ordning.Server.Workspaces.Repositories
+{
+    /// <summary>
+    /// Database model representing a member of a workspace.
+    /// </summary>
+    public class WorkspaceMemberDbModel
+    {
+        /// <summary>
+        /// Gets or sets the unique identifier of the user.
+        /// </summary>
+        public Guid UserId { get; set; }
+
+        /// <summary>
+        /// Gets or sets the username of the user.
+        /// </summary>
+        public string Username { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the email address of the user.
+        /// </summary>
+        public string Email { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the role of the user in the workspace.
+        /// </summary>
+        public string Role { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Converts the database model to a domain WorkspaceMember model.
+        /// </summary>
+        /// <returns>A WorkspaceMember domain model.</returns>
+        public WorkspaceMember ToDomainWorkspaceMember()
+        {
+            return new WorkspaceMember(
+                userId: UserId,
+                username: Username,
+                email: Email,
+                role: Role);
+        }
+    }
+}
@@ -0,0 +1,262 @@
+using System.Data.Common;
+using Dapper;
+using EasyReasy.Database;
+using Ordning.Server.Database;
+using Ordning.Server.Workspaces.Models;
+
+namespace Ordning.Server.Workspaces.Repositories
+{
+    /// <summary>
+    /// Repository implementation for workspace and membership data access operations.
+    /// </summary>
+    public class WorkspaceRepository : RepositoryBase, IWorkspaceRepository
+    {
+        /// <summary>
+        /// Initializes a new instance of the <see cref="WorkspaceRepository"/> class.
+        /// </summary>
+        /// <param name="dataSource">The database data source.</param>
+        /// <param name="sessionFactory">The session factory for creating database sessions.</param>
+        public WorkspaceRepository(DbDataSource dataSource, IDbSessionFactory sessionFactory)
+            : base(dataSource, sessionFactory)
+        {
+        }
+
+        /// <summary>
+        /// Gets a workspace by its unique identifier, with the role of a user in it.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <param name="userId">The user whose role to include.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The workspace database model if found; otherwise, null.</returns>
+        public async Task<WorkspaceDbModel?> GetByIdAsync(Guid id, Guid userId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT
+                        workspaces.id,
+                        workspaces.name,
+                        workspace_members.role,
+                        workspaces.created_at AS CreatedAt
+                    FROM workspaces
+                    LEFT JOIN workspace_members
+                        ON workspace_members.workspace_id = workspaces.id AND workspace_members.user_id = @{nameof(userId)}
+                    WHERE workspaces.id = @{nameof(id)}";
+
+                WorkspaceDbModel? result = await dbSession.Connection.QuerySingleOrDefaultAsync<WorkspaceDbModel>(
+                    query,
+                    new { id, userId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets all workspaces, ordered by name, with the role of a user in each of them.
+        /// </summary>
+        /// <param name="userId">The user whose roles to include.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of workspace database models.</returns>
+        public async Task<IEnumerable<WorkspaceDbModel>> GetAllAsync(Guid userId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT
+                        workspaces.id,
+                        workspaces.name,
+                        workspace_members.role,
+                        workspaces.created_at AS CreatedAt
+                    FROM workspaces
+                    LEFT JOIN workspace_members
+                        ON workspace_members.workspace_id = workspaces.id AND workspace_members.user_id = @{nameof(userId)}
+                    ORDER BY LOWER(workspaces.name), workspaces.id";
+
+                IEnumerable<WorkspaceDbModel> result = await dbSession.Connection.QueryAsync<WorkspaceDbModel>(
+                    query,
+                    new { userId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets the workspaces a user is a member of, ordered by name.
+        /// </summary>
+        /// <param name="userId">The unique identifier of the user.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of workspace database models with the user's role.</returns>
+        public async Task<IEnumerable<WorkspaceDbModel>> GetByUserAsync(Guid userId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT
+                        workspaces.id,
+                        workspaces.name,
+                        workspace_members.role,
+                        workspaces.created_at AS CreatedAt
+                    FROM workspaces
+                    INNER JOIN workspace_members ON workspace_members.workspace_id = workspaces.id
+                    WHERE workspace_members.user_id = @{nameof(userId)}
+                    ORDER BY LOWER(workspaces.name), workspaces.id";
+
+                IEnumerable<WorkspaceDbModel> result = await dbSession.Connection.QueryAsync<WorkspaceDbModel>(
+                    query,
+                    new { userId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Gets the members of a workspace, ordered by username.
+        /// </summary>
+        /// <param name="workspaceId">The unique identifier of the workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A collection of workspace member database models.</returns>
+        public async Task<IEnumerable<WorkspaceMemberDbModel>> GetMembersAsync(Guid workspaceId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    SELECT
+                        auth_user.id AS UserId,
+                        auth_user.username,
+                        auth_user.email,
+                        workspace_members.role
+                    FROM workspace_members
+                    INNER JOIN auth_user ON auth_user.id = workspace_members.user_id
+                    WHERE workspace_members.workspace_id = @{nameof(workspaceId)}
+                    ORDER BY LOWER(auth_user.username)";
+
+                IEnumerable<WorkspaceMemberDbModel> result = await dbSession.Connection.QueryAsync<WorkspaceMemberDbModel>(
+                    query,
+                    new { workspaceId },
+                    transaction: dbSession.Transaction);
+
+                return result;
+            }, session);
+        }
+
+        /// <summary>
+        /// Creates a workspace with a user as its first admin, in one transaction.
+        /// </summary>
+        /// <param name="id">The unique identifier for the workspace.</param>
+        /// <param name="name">The name of the workspace.</param>
+        /// <param name="adminUserId">The user that becomes the admin of the workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>The created workspace database model with the admin role.</returns>
+        public async Task<WorkspaceDbModel> CreateAsync(Guid id, string name, Guid adminUserId, IDbSession? session = null)
+        {
+            string role = WorkspaceRoles.Admin;
+
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                return await dbSession.UseTransactionAsync(async (transaction) =>
+                {
+                    string insertWorkspaceQuery = $@"
+                        INSERT INTO workspaces (id, name)
+                        VALUES (@{nameof(id)}, @{nameof(name)})
+                        RETURNING
+                            id,
+                            name,
+                            created_at AS CreatedAt";
+
+                    WorkspaceDbModel result = await dbSession.Connection.QuerySingleAsync<WorkspaceDbModel>(
+                        insertWorkspaceQuery,
+                        new { id, name },
+                        transaction: transaction);
+
+                    string insertMemberQuery = $@"
+                        INSERT INTO workspace_members (workspace_id, user_id, role)
+                        VALUES (@{nameof(id)}, @{nameof(adminUserId)}, @{nameof(role)})";
+
+                    await dbSession.Connection.ExecuteAsync(
+                        insertMemberQuery,
+                        new { id, adminUserId, role },
+                        transaction: transaction);
+
+                    result.Role = role;
+                    return result;
+                });
+            }, session);
+        }
+
+        /// <summary>
+        /// Renames a workspace.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <param name="name">The new name of the workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the workspace was found and renamed; otherwise, false.</returns>
+        public async Task<bool> UpdateNameAsync(Guid id, string name, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    UPDATE workspaces
+                    SET name = @{nameof(name)}, updated_at = NOW()
+                    WHERE id = @{nameof(id)}";
+
+                int rowsAffected = await dbSession.Connection.ExecuteAsync(
+                    query,
+                    new { id, name },
+                    transaction: dbSession.Transaction);
+
+                return rowsAffected > 0;
+            }, session);
+        }
+
+        /// <summary>
+        /// Adds a user to a workspace, or changes their role if they already are a member.
+        /// </summary>
+        /// <param name="workspaceId">The unique identifier of the workspace.</param>
+        /// <param name="userId">The unique identifier of the user.</param>
+        /// <param name="role">The role of the user in the workspace.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>A task that represents the asynchronous operation.</returns>
+        public async Task SetMemberAsync(Guid workspaceId, Guid userId, string role, IDbSession? session = null)
+        {
+            await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    INSERT INTO workspace_members (workspace_id, user_id, role)
+                    VALUES (@{nameof(workspaceId)}, @{nameof(userId)}, @{nameof(role)})
+                    ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = EXCLUDED.role";
+
+                return await dbSession.Connection.ExecuteAsync(
+                    query,
+                    new { workspaceId, userId, role },
+                    transaction: dbSession.Transaction);
+            }, session);
+        }
+
+        /// <summary>
+        /// Removes a user from a workspace.
+        /// </summary>
+        /// <param name="workspaceId">The unique identifier of the workspace.</param>
+        /// <param name="userId">The unique identifier of the user.</param>
+        /// <param name="session">Optional database session. If not provided, a new session will be created.</param>
+        /// <returns>True if the user was a member and was removed; otherwise, false.</returns>
+        public async Task<bool> RemoveMemberAsync(Guid workspaceId, Guid userId, IDbSession? session = null)
+        {
+            return await UseSessionAsync(async (dbSession) =>
+            {
+                string query = $@"
+                    DELETE FROM workspace_members
+                    WHERE workspace_id = @{nameof(workspaceId)} AND user_id = @{nameof(userId)}";
+
+                int rowsAffected = await dbSession.Connection.ExecuteAsync(
+                    query,
+                    new { workspaceId, userId },
+                    transaction: dbSession.Transaction);
+
+                return rowsAffected > 0;
+            }, session);
+        }
+    }
+}
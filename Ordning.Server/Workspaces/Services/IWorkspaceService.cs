@@ -0,0 +1,104 @@
+using Ordning.Server.Workspaces.Models;
+
+namespace Ordning.Server.Workspaces.Services
+{
+    /// <summary>
+    /// Service interface for workspace business logic operations, and for finding the workspace of the current request.
+    /// </summary>
+    public interface IWorkspaceService
+    {
+        /// <summary>
+        /// Gets the workspace the current request works in, from the workspace header, or the user's first workspace if the
+        /// header is missing. The result is cached for the rest of the request.
+        /// </summary>
+        /// <param name="minimumRole">The role the current user needs in the workspace. Defaults to <see cref="WorkspaceRoles.Read"/>.</param>
+        /// <returns>The unique identifier of the current workspace.</returns>
+        /// <exception cref="ArgumentException">Thrown when the workspace header is not a valid ID.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the user is not a member of the workspace or lacks the role.</exception>
+        Task<Guid> GetCurrentWorkspaceIdAsync(string minimumRole = WorkspaceRoles.Read);
+
+        /// <summary>
+        /// Gets the role of the current user in the workspace the current request works in.
+        /// </summary>
+        /// <returns>The role, one of <see cref="WorkspaceRoles"/>.</returns>
+        /// <exception cref="ArgumentException">Thrown when the workspace header is not a valid ID.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the user is not a member of the workspace.</exception>
+        Task<string> GetCurrentWorkspaceRoleAsync();
+
+        /// <summary>
+        /// Gets the unique identifier of the signed in user of the current request.
+        /// </summary>
+        /// <returns>The unique identifier of the current user.</returns>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the request has no signed in user.</exception>
+        Guid GetCurrentUserId();
+
+        /// <summary>
+        /// Gets the workspaces the current user is a member of, ordered by name. Global admins get every workspace.
+        /// </summary>
+        /// <returns>A collection of workspaces with the current user's role.</returns>
+        Task<IEnumerable<Workspace>> GetWorkspacesAsync();
+
+        /// <summary>
+        /// Creates a workspace with the current user as its admin. Needs the global admin role.
+        /// </summary>
+        /// <param name="name">The name of the workspace.</param>
+        /// <returns>The created workspace.</returns>
+        /// <exception cref="ArgumentException">Thrown when the name is empty or too long.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user is not a global admin.</exception>
+        Task<Workspace> CreateWorkspaceAsync(string name);
+
+        /// <summary>
+        /// Renames a workspace. Needs the admin role in the workspace, or the global admin role.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <param name="name">The new name of the workspace.</param>
+        /// <returns>The renamed workspace if found; otherwise, null.</returns>
+        /// <exception cref="ArgumentException">Thrown when the name is empty or too long.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not manage the workspace.</exception>
+        Task<Workspace?> RenameWorkspaceAsync(Guid id, string name);
+
+        /// <summary>
+        /// Gets the members of a workspace, ordered by username. Needs membership of the workspace, or the global admin role.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <returns>The members if the workspace was found; otherwise, null.</returns>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not see the workspace.</exception>
+        Task<IEnumerable<WorkspaceMember>?> GetMembersAsync(Guid id);
+
+        /// <summary>
+        /// Adds a user to a workspace, or changes their role if they already are a member. Needs the admin role in the
+        /// workspace, or the global admin role.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <param name="user">The username or email address of the user to add.</param>
+        /// <param name="role">The role of the user in the workspace, one of <see cref="WorkspaceRoles"/>.</param>
+        /// <returns>The added member if the workspace was found; otherwise, null.</returns>
+        /// <exception cref="ArgumentException">Thrown when the user is not found or the role is unknown.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when the change would leave the workspace without an admin.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not manage the workspace.</exception>
+        Task<WorkspaceMember?> AddMemberAsync(Guid id, string user, string role);
+
+        /// <summary>
+        /// Changes the role of a member of a workspace. Needs the admin role in the workspace, or the global admin role.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <param name="userId">The unique identifier of the member.</param>
+        /// <param name="role">The new role of the member, one of <see cref="WorkspaceRoles"/>.</param>
+        /// <returns>True if the member was found and updated; otherwise, false.</returns>
+        /// <exception cref="ArgumentException">Thrown when the role is unknown.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when the change would leave the workspace without an admin.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not manage the workspace.</exception>
+        Task<bool> UpdateMemberRoleAsync(Guid id, Guid userId, string role);
+
+        /// <summary>
+        /// Removes a member from a workspace. Members can always leave a workspace themselves; removing others needs the
+        /// admin role in the workspace, or the global admin role.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <param name="userId">The unique identifier of the member.</param>
+        /// <returns>True if the member was found and removed; otherwise, false.</returns>
+        /// <exception cref="InvalidOperationException">Thrown when the change would leave the workspace without an admin.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not manage the workspace.</exception>
+        Task<bool> RemoveMemberAsync(Guid id, Guid userId);
+    }
+}
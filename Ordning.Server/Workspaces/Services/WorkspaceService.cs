@@ -0,0 +1,376 @@
+using EasyReasy.Auth;
+using Ordning.Server.Users.Repositories;
+using Ordning.Server.Workspaces.Models;
+using Ordning.Server.Workspaces.Repositories;
+
+namespace Ordning.Server.Workspaces.Services
+{
+    /// <summary>
+    /// Implementation of <see cref="IWorkspaceService"/> that provides workspace business logic operations.
+    /// Registered per request, so the current workspace is only looked up once per request.
+    /// </summary>
+    public class WorkspaceService : IWorkspaceService
+    {
+        /// <summary>
+        /// The request header that selects the workspace a request works in.
+        /// </summary>
+        public const string WorkspaceHeaderName = "X-Workspace-Id";
+
+        /// <summary>
+        /// The maximum length of a workspace name.
+        /// </summary>
+        public const int MaxNameLength = 255;
+
+        private readonly IWorkspaceRepository _workspaceRepository;
+        private readonly IUserRepository _userRepository;
+        private readonly IHttpContextAccessor _httpContextAccessor;
+
+        private WorkspaceDbModel? _currentWorkspace;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="WorkspaceService"/> class.
+        /// </summary>
+        /// <param name="workspaceRepository">The workspace repository for database access.</param>
+        /// <param name="userRepository">The user repository for finding users to add as members.</param>
+        /// <param name="httpContextAccessor">The accessor used to find the user and workspace of the current request.</param>
+        public WorkspaceService(IWorkspaceRepository workspaceRepository, IUserRepository userRepository, IHttpContextAccessor httpContextAccessor)
+        {
+            _workspaceRepository = workspaceRepository;
+            _userRepository = userRepository;
+            _httpContextAccessor = httpContextAccessor;
+        }
+
+        /// <summary>
+        /// Gets the workspace the current request works in, from the workspace header, or the user's first workspace if the
+        /// header is missing. The result is cached for the rest of the request.
+        /// </summary>
+        /// <param name="minimumRole">The role the current user needs in the workspace. Defaults to <see cref="WorkspaceRoles.Read"/>.</param>
+        /// <returns>The unique identifier of the current workspace.</returns>
+        /// <exception cref="ArgumentException">Thrown when the workspace header is not a valid ID.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the user is not a member of the workspace or lacks the role.</exception>
+        public async Task<Guid> GetCurrentWorkspaceIdAsync(string minimumRole = WorkspaceRoles.Read)
+        {
+            if (_currentWorkspace == null)
+            {
+                Guid userId = GetCurrentUserId();
+                string? header = _httpContextAccessor.HttpContext?.Request.Headers[WorkspaceHeaderName].FirstOrDefault();
+
+                if (string.IsNullOrWhiteSpace(header))
+                {
+                    IEnumerable<WorkspaceDbModel> workspaces = await _workspaceRepository.GetByUserAsync(userId);
+                    _currentWorkspace = workspaces.FirstOrDefault()
+                        ?? throw new UnauthorizedAccessException("You are not a member of any workspace.");
+                }
+                else
+                {
+                    if (!Guid.TryParse(header, out Guid workspaceId))
+                    {
+                        throw new ArgumentException($"'{header}' is not a valid workspace ID.", WorkspaceHeaderName);
+                    }
+
+                    WorkspaceDbModel? workspace = await _workspaceRepository.GetByIdAsync(workspaceId, userId);
+                    if (workspace?.Role == null)
+                    {
+                        throw new UnauthorizedAccessException("You are not a member of this workspace.");
+                    }
+
+                    _currentWorkspace = workspace;
+                }
+            }
+
+            if (!WorkspaceRoles.Includes(_currentWorkspace.Role ?? string.Empty, minimumRole))
+            {
+                throw new UnauthorizedAccessException($"You need the '{minimumRole}' role in this workspace to do this.");
+            }
+
+            return _currentWorkspace.Id;
+        }
+
+        /// <summary>
+        /// Gets the role of the current user in the workspace the current request works in.
+        /// </summary>
+        /// <returns>The role, one of <see cref="WorkspaceRoles"/>.</returns>
+        /// <exception cref="ArgumentException">Thrown when the workspace header is not a valid ID.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the user is not a member of the workspace.</exception>
+        public async Task<string> GetCurrentWorkspaceRoleAsync()
+        {
+            await GetCurrentWorkspaceIdAsync();
+            return _currentWorkspace!.Role!;
+        }
+
+        /// <summary>
+        /// Gets the unique identifier of the signed in user of the current request.
+        /// </summary>
+        /// <returns>The unique identifier of the current user.</returns>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the request has no signed in user.</exception>
+        public Guid GetCurrentUserId()
+        {
+            string? currentUserId = _httpContextAccessor.HttpContext?.GetUserId();
+            if (!Guid.TryParse(currentUserId, out Guid userId))
+            {
+                throw new UnauthorizedAccessException("No signed in user was found for this request.");
+            }
+
+            return userId;
+        }
+
+        /// <summary>
+        /// Gets the workspaces the current user is a member of, ordered by name. Global admins get every workspace.
+        /// </summary>
+        /// <returns>A collection of workspaces with the current user's role.</returns>
+        public async Task<IEnumerable<Workspace>> GetWorkspacesAsync()
+        {
+            Guid userId = GetCurrentUserId();
+            IEnumerable<WorkspaceDbModel> workspaces = IsGlobalAdmin()
+                ? await _workspaceRepository.GetAllAsync(userId)
+                : await _workspaceRepository.GetByUserAsync(userId);
+
+            return workspaces.Select(w => w.ToDomainWorkspace());
+        }
+
+        /// <summary>
+        /// Creates a workspace with the current user as its admin. Needs the global admin role.
+        /// </summary>
+        /// <param name="name">The name of the workspace.</param>
+        /// <returns>The created workspace.</returns>
+        /// <exception cref="ArgumentException">Thrown when the name is empty or too long.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user is not a global admin.</exception>
+        public async Task<Workspace> CreateWorkspaceAsync(string name)
+        {
+            if (!IsGlobalAdmin())
+            {
+                throw new UnauthorizedAccessException("Only admins can create workspaces.");
+            }
+
+            string trimmedName = ValidateName(name);
+            Guid userId = GetCurrentUserId();
+
+            WorkspaceDbModel workspace = await _workspaceRepository.CreateAsync(Guid.NewGuid(), trimmedName, userId);
+            return workspace.ToDomainWorkspace();
+        }
+
+        /// <summary>
+        /// Renames a workspace. Needs the admin role in the workspace, or the global admin role.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <param name="name">The new name of the workspace.</param>
+        /// <returns>The renamed workspace if found; otherwise, null.</returns>
+        /// <exception cref="ArgumentException">Thrown when the name is empty or too long.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not manage the workspace.</exception>
+        public async Task<Workspace?> RenameWorkspaceAsync(Guid id, string name)
+        {
+            string trimmedName = ValidateName(name);
+
+            WorkspaceDbModel? workspace = await GetWorkspaceAsync(id, WorkspaceRoles.Admin);
+            if (workspace == null)
+            {
+                return null;
+            }
+
+            bool updated = await _workspaceRepository.UpdateNameAsync(id, trimmedName);
+            if (!updated)
+            {
+                return null;
+            }
+
+            workspace.Name = trimmedName;
+            return workspace.ToDomainWorkspace();
+        }
+
+        /// <summary>
+        /// Gets the members of a workspace, ordered by username. Needs membership of the workspace, or the global admin role.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <returns>The members if the workspace was found; otherwise, null.</returns>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not see the workspace.</exception>
+        public async Task<IEnumerable<WorkspaceMember>?> GetMembersAsync(Guid id)
+        {
+            WorkspaceDbModel? workspace = await GetWorkspaceAsync(id, WorkspaceRoles.Read);
+            if (workspace == null)
+            {
+                return null;
+            }
+
+            IEnumerable<WorkspaceMemberDbModel> members = await _workspaceRepository.GetMembersAsync(id);
+            return members.Select(m => m.ToDomainWorkspaceMember());
+        }
+
+        /// <summary>
+        /// Adds a user to a workspace, or changes their role if they already are a member. Needs the admin role in the
+        /// workspace, or the global admin role.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <param name="user">The username or email address of the user to add.</param>
+        /// <param name="role">The role of the user in the workspace, one of <see cref="WorkspaceRoles"/>.</param>
+        /// <returns>The added member if the workspace was found; otherwise, null.</returns>
+        /// <exception cref="ArgumentException">Thrown when the user is not found or the role is unknown.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when the change would leave the workspace without an admin.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not manage the workspace.</exception>
+        public async Task<WorkspaceMember?> AddMemberAsync(Guid id, string user, string role)
+        {
+            string normalizedRole = ValidateRole(role);
+
+            string trimmedUser = (user ?? string.Empty).Trim();
+            if (string.IsNullOrEmpty(trimmedUser))
+            {
+                throw new ArgumentException("A username or email address is required.", nameof(user));
+            }
+
+            WorkspaceDbModel? workspace = await GetWorkspaceAsync(id, WorkspaceRoles.Admin);
+            if (workspace == null)
+            {
+                return null;
+            }
+
+            UserDbModel userToAdd = await _userRepository.GetByEmailAsync(trimmedUser)
+                ?? await _userRepository.GetByUsernameAsync(trimmedUser)
+                ?? throw new ArgumentException($"No user with the username or email '{trimmedUser}' was found.", nameof(user));
+
+            List<WorkspaceMemberDbModel> members = (await _workspaceRepository.GetMembersAsync(id)).ToList();
+            EnsureAdminRemains(members, userToAdd.Id, normalizedRole);
+
+            await _workspaceRepository.SetMemberAsync(id, userToAdd.Id, normalizedRole);
+            return new WorkspaceMember(
+                userId: userToAdd.Id,
+                username: userToAdd.Username,
+                email: userToAdd.Email,
+                role: normalizedRole);
+        }
+
+        /// <summary>
+        /// Changes the role of a member of a workspace. Needs the admin role in the workspace, or the global admin role.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <param name="userId">The unique identifier of the member.</param>
+        /// <param name="role">The new role of the member, one of <see cref="WorkspaceRoles"/>.</param>
+        /// <returns>True if the member was found and updated; otherwise, false.</returns>
+        /// <exception cref="ArgumentException">Thrown when the role is unknown.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when the change would leave the workspace without an admin.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not manage the workspace.</exception>
+        public async Task<bool> UpdateMemberRoleAsync(Guid id, Guid userId, string role)
+        {
+            string normalizedRole = ValidateRole(role);
+
+            WorkspaceDbModel? workspace = await GetWorkspaceAsync(id, WorkspaceRoles.Admin);
+            if (workspace == null)
+            {
+                return false;
+            }
+
+            List<WorkspaceMemberDbModel> members = (await _workspaceRepository.GetMembersAsync(id)).ToList();
+            if (!members.Any(m => m.UserId == userId))
+            {
+                return false;
+            }
+
+            EnsureAdminRemains(members, userId, normalizedRole);
+
+            await _workspaceRepository.SetMemberAsync(id, userId, normalizedRole);
+            return true;
+        }
+
+        /// <summary>
+        /// Removes a member from a workspace. Members can always leave a workspace themselves; removing others needs the
+        /// admin role in the workspace, or the global admin role.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <param name="userId">The unique identifier of the member.</param>
+        /// <returns>True if the member was found and removed; otherwise, false.</returns>
+        /// <exception cref="InvalidOperationException">Thrown when the change would leave the workspace without an admin.</exception>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user may not manage the workspace.</exception>
+        public async Task<bool> RemoveMemberAsync(Guid id, Guid userId)
+        {
+            string minimumRole = userId == GetCurrentUserId() ? WorkspaceRoles.Read : WorkspaceRoles.Admin;
+
+            WorkspaceDbModel? workspace = await GetWorkspaceAsync(id, minimumRole);
+            if (workspace == null)
+            {
+                return false;
+            }
+
+            List<WorkspaceMemberDbModel> members = (await _workspaceRepository.GetMembersAsync(id)).ToList();
+            EnsureAdminRemains(members, userId, null);
+
+            return await _workspaceRepository.RemoveMemberAsync(id, userId);
+        }
+
+        /// <summary>
+        /// Gets a workspace and checks that the current user has at least a role in it. Global admins pass the check for
+        /// every workspace, so they can manage workspaces they are not a member of.
+        /// </summary>
+        /// <param name="id">The unique identifier of the workspace.</param>
+        /// <param name="minimumRole">The role the current user needs in the workspace.</param>
+        /// <returns>The workspace if found; otherwise, null.</returns>
+        /// <exception cref="UnauthorizedAccessException">Thrown when the current user lacks the role.</exception>
+        private async Task<WorkspaceDbModel?> GetWorkspaceAsync(Guid id, string minimumRole)
+        {
+            WorkspaceDbModel? workspace = await _workspaceRepository.GetByIdAsync(id, GetCurrentUserId());
+            if (workspace == null)
+            {
+                return null;
+            }
+
+            if (!IsGlobalAdmin() && !WorkspaceRoles.Includes(workspace.Role ?? string.Empty, minimumRole))
+            {
+                throw new UnauthorizedAccessException($"You need the '{minimumRole}' role in this workspace to do this.");
+            }
+
+            return workspace;
+        }
+
+        /// <summary>
+        /// Checks that a workspace keeps at least one admin after a member gets a new role or is removed.
+        /// </summary>
+        /// <param name="members">The current members of the workspace.</param>
+        /// <param name="userId">The member that changes.</param>
+        /// <param name="newRole">The new role of the member, or null if the member is removed.</param>
+        /// <exception cref="InvalidOperationException">Thrown when the workspace would be left without an admin.</exception>
+        private static void EnsureAdminRemains(IEnumerable<WorkspaceMemberDbModel> members, Guid userId, string? newRole)
+        {
+            if (newRole == WorkspaceRoles.Admin)
+            {
+                return;
+            }
+
+            bool hadAdmin = members.Any(m => m.Role == WorkspaceRoles.Admin);
+            bool keepsAdmin = members.Any(m => m.Role == WorkspaceRoles.Admin && m.UserId != userId);
+            if (hadAdmin && !keepsAdmin)
+            {
+                throw new InvalidOperationException("A workspace needs at least one admin.");
+            }
+        }
+
+        private static string ValidateName(string name)
+        {
+            string trimmedName = (name ?? string.Empty).Trim();
+            if (string.IsNullOrEmpty(trimmedName))
+            {
+                throw new ArgumentException("Workspace name cannot be empty.", nameof(name));
+            }
+
+            if (trimmedName.Length > MaxNameLength)
+            {
+                throw new ArgumentException($"Workspace name cannot be longer than {MaxNameLength} characters.", nameof(name));
+            }
+
+            return trimmedName;
+        }
+
+        private static string ValidateRole(string role)
+        {
+            string normalizedRole = (role ?? string.Empty).Trim().ToLowerInvariant();
+            if (!WorkspaceRoles.IsValid(normalizedRole))
+            {
+                throw new ArgumentException($"Role must be one of: {string.Join(", ", WorkspaceRoles.All)}.", nameof(role));
+            }
+
+            return normalizedRole;
+        }
+
+        private bool IsGlobalAdmin()
+        {
+            IEnumerable<string> roles = _httpContextAccessor.HttpContext?.GetRoles() ?? Enumerable.Empty<string>();
+            return roles.Contains("admin", StringComparer.OrdinalIgnoreCase);
+        }
+    }
+}
@@ -0,0 +1,74 @@
+// Service worker that keeps the Ordning app shell available offline.
+// API data is cached separately in IndexedDB by the client (see src/services/syncService.ts).
+
+const CACHE_NAME = 'ordning-shell-v2';
+const SHELL_URLS = [
+  '/',
+  '/index.html',
+  '/manifest.json',
+  '/icons/web/favicon.ico',
+  '/icons/web/icon-192.png',
+  '/icons/web/icon-512.png',
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') {
+    return;
+  }
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/') || url.pathname.startsWith('/swagger')) {
+    return;
+  }
+
+  // Page navigations: try the network first so deployments are picked up, fall back to the cached shell.
+  // Error pages, such as a 502 while the server restarts, must not replace the shell.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then((cache) => cache.put('/index.html', copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match('/index.html')),
+    );
+    return;
+  }
+
+  // Static assets: serve from cache, and cache anything fetched for the first time
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      if (cached) {
+        return cached;
+      }
+
+      return fetch(request).then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      });
+    }),
+  );
+});
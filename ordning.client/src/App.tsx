@@ -1,6 +1,7 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { useUndoShortcut } from './hooks/useUndoShortcut';
 import { LoginPage } from './pages/LoginPage';
 import { DashboardPage } from './pages/DashboardPage';
 import { AddItemPage } from './pages/AddItemPage';
@@ -12,11 +13,21 @@ import { AddLocationPage } from './pages/AddLocationPage';
 import { EditLocationPage } from './pages/EditLocationPage';
 import { AccountPage } from './pages/AccountPage';
 import { UserDetailPage } from './pages/UserDetailPage';
+import { ScanPage } from './pages/ScanPage';
+import { LabelsPage } from './pages/LabelsPage';
+import { ImportPage } from './pages/ImportPage';
+import { ActivityPage } from './pages/ActivityPage';
+import { PropertyDefinitionsPage } from './pages/PropertyDefinitionsPage';
+import { ItemTemplatesPage } from './pages/ItemTemplatesPage';
+import { TagsPage } from './pages/TagsPage';
+import { WorkspacesPage } from './pages/WorkspacesPage';
+import { SharedLocationPage } from './pages/SharedLocationPage';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import './App.css';
 
 function AppRoutes() {
   const { isAuthenticated, isLoading } = useAuth();
+  useUndoShortcut();
 
   if (isLoading) {
     return (
@@ -29,6 +40,7 @@ function AppRoutes() {
   return (
     <Routes>
       <Route path="/login" element={<LoginPage />} />
+      <Route path="/share/:token" element={<SharedLocationPage />} />
       <Route
         path="/dashboard"
         element={
@@ -93,6 +105,78 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/labels"
+        element={
+          <ProtectedRoute>
+            <LabelsPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/import"
+        element={
+          <ProtectedRoute>
+            <ImportPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/activity"
+        element={
+          <ProtectedRoute>
+            <ActivityPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/properties"
+        element={
+          <ProtectedRoute>
+            <PropertyDefinitionsPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/templates"
+        element={
+          <ProtectedRoute>
+            <ItemTemplatesPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/workspaces"
+        element={
+          <ProtectedRoute>
+            <WorkspacesPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/tags"
+        element={
+          <ProtectedRoute>
+            <TagsPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/tags/:name"
+        element={
+          <ProtectedRoute>
+            <TagsPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/scan"
+        element={
+          <ProtectedRoute>
+            <ScanPage />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/account"
         element={
@@ -0,0 +1,80 @@
+import { Link } from 'react-router-dom';
+import { IconArrowsMove, IconEdit, IconPlus, IconTrash } from '@tabler/icons-react';
+import type { components } from '../types/api';
+import {
+  formatAuditAction,
+  getAuditEntityName,
+  getAuditEntityPath,
+  getAuditFieldChanges,
+  type AuditAction,
+} from '../services/auditLog';
+
+type AuditEntry = components['schemas']['AuditEntry'];
+
+const ACTION_ICONS: Record<AuditAction, typeof IconPlus> = {
+  create: IconPlus,
+  update: IconEdit,
+  move: IconArrowsMove,
+  delete: IconTrash,
+};
+
+export interface AuditTimelineProps {
+  entries: AuditEntry[];
+  /** Shows which item or location each entry is about, for feeds that mix entities. */
+  showEntity?: boolean;
+}
+
+export function AuditTimeline({ entries, showEntity = false }: AuditTimelineProps) {
+  return (
+    <ol className="relative border-l border-[var(--color-border)] ml-3 space-y-4">
+      {entries.map((entry) => {
+        const ActionIcon = ACTION_ICONS[entry.action as AuditAction] ?? IconEdit;
+        const entityPath = getAuditEntityPath(entry);
+        const changes = getAuditFieldChanges(entry);
+
+        return (
+          <li key={entry.id} className="ml-6">
+            <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-[var(--elevation-level-3-dark)] border border-[var(--color-border)] text-[var(--color-fg)]">
+              <ActionIcon size={14} />
+            </span>
+            <div className="text-[var(--color-fg)] text-sm flex flex-wrap items-baseline gap-x-2">
+              <span className="font-medium">{formatAuditAction(entry.action)}</span>
+              {showEntity && (
+                <>
+                  <span className="opacity-60">{entry.entityType === 'location' ? 'location' : 'item'}</span>
+                  {entityPath ? (
+                    <Link to={entityPath} className="font-medium text-[var(--brand-color-light)] hover:underline">
+                      {getAuditEntityName(entry)}
+                    </Link>
+                  ) : (
+                    <span className="font-medium">{getAuditEntityName(entry)}</span>
+                  )}
+                </>
+              )}
+              <span className="opacity-60">by {entry.username || 'an unknown user'}</span>
+            </div>
+            {entry.createdAt && (
+              <div className="text-[var(--color-fg)] opacity-50 text-xs mt-0.5">
+                {new Date(entry.createdAt).toLocaleString()}
+              </div>
+            )}
+            {changes.length > 0 && entry.action !== 'delete' && (
+              <ul className="mt-2 space-y-1 text-xs text-[var(--color-fg)]">
+                {changes.map((change) => (
+                  <li key={change.field} className="flex flex-wrap items-baseline gap-x-2">
+                    <span className="opacity-70 min-w-[100px]">{change.label}:</span>
+                    {change.before !== null && (
+                      <span className="line-through opacity-50 break-all">{change.before}</span>
+                    )}
+                    {change.before !== null && change.after !== null && <span className="opacity-50">→</span>}
+                    {change.after !== null && <span className="opacity-90 break-all">{change.after}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,31 @@
+import { IconPhoto, IconPhotoOff } from '@tabler/icons-react';
+import { useImageUrl } from '../hooks/useImageUrl';
+import type { ImageVariant } from '../services/images';
+
+export interface AuthorizedImageProps {
+  imageId: string;
+  variant?: ImageVariant;
+  alt: string;
+  className?: string;
+  draggable?: boolean;
+}
+
+/** An uploaded image, with a placeholder while it loads and if it can't be loaded. */
+export function AuthorizedImage({ imageId, variant = 'thumbnail', alt, className = '', draggable = false }: AuthorizedImageProps) {
+  const { url, isLoading } = useImageUrl(imageId, variant);
+
+  if (!url) {
+    const Icon = isLoading ? IconPhoto : IconPhotoOff;
+    return (
+      <div
+        className={`flex items-center justify-center bg-[var(--elevation-level-3-dark)] text-[var(--color-fg)] ${isLoading ? 'opacity-30 animate-pulse' : 'opacity-50'} ${className}`}
+        role="img"
+        aria-label={alt}
+      >
+        <Icon size={20} />
+      </div>
+    );
+  }
+
+  return <img src={url} alt={alt} className={className} draggable={draggable} />;
+}
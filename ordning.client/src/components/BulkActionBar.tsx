@@ -0,0 +1,340 @@
+import { useState, useEffect } from 'react';
+import { IconArrowsMove, IconTrash, IconTag, IconX } from '@tabler/icons-react';
+import { apiClient, QUEUED_OFFLINE, unwrapMutationResponse, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import { Button, ConfirmationModal, Input, Modal, Select } from './ui';
+import { LocationTree } from './LocationTree';
+import { moveItemsBack, restoreItems, revertItem } from '../services/undoActions';
+import { showUndoToast } from '../services/undoToast';
+import toast from 'react-hot-toast';
+
+type Item = components['schemas']['Item'];
+type LocationTreeNode = components['schemas']['LocationTreeNode'];
+
+type PropertyEditMode = 'set' | 'remove';
+
+export interface BulkActionBarProps {
+  selectedItemIds: string[];
+  /** The loaded items, so that Undo can put the selected ones back the way they were. */
+  items: Item[];
+  totalItemCount: number;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onItemsChanged: () => void;
+}
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+function pluralizeItems(count: number): string {
+  return `${count} item${count === 1 ? '' : 's'}`;
+}
+
+export function BulkActionBar({ selectedItemIds, items, totalItemCount, onSelectAll, onClearSelection, onItemsChanged }: BulkActionBarProps) {
+  const [isMoveModalOpen, setIsMoveModalOpen] = useState<boolean>(false);
+  const [locationTree, setLocationTree] = useState<LocationTreeNode[]>([]);
+  const [isLoadingLocationTree, setIsLoadingLocationTree] = useState<boolean>(false);
+  const [selectedMoveLocationId, setSelectedMoveLocationId] = useState<string | null>(null);
+  const [isMoving, setIsMoving] = useState<boolean>(false);
+  const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState<boolean>(false);
+  const [isDeleting, setIsDeleting] = useState<boolean>(false);
+  const [isPropertyModalOpen, setIsPropertyModalOpen] = useState<boolean>(false);
+  const [propertyEditMode, setPropertyEditMode] = useState<PropertyEditMode>('set');
+  const [propertyKey, setPropertyKey] = useState<string>('');
+  const [propertyValue, setPropertyValue] = useState<string>('');
+  const [isUpdatingProperties, setIsUpdatingProperties] = useState<boolean>(false);
+
+  const selectedCount = selectedItemIds.length;
+
+  const getSelectedItems = () => {
+    const selected = new Set(selectedItemIds);
+    return items.filter((item) => item.id && selected.has(item.id));
+  };
+
+  useEffect(() => {
+    if (!isMoveModalOpen) return;
+
+    const fetchLocationTree = async () => {
+      setIsLoadingLocationTree(true);
+      try {
+        const responsePromise = apiClient.GET('/api/Location/tree');
+        const data = await unwrapResponse<LocationTreeNode[]>(responsePromise);
+        setLocationTree(data || []);
+      } catch (error) {
+        console.error('Failed to fetch location tree:', error);
+        toast.error('Failed to load locations');
+        setLocationTree([]);
+      } finally {
+        setIsLoadingLocationTree(false);
+      }
+    };
+
+    fetchLocationTree();
+  }, [isMoveModalOpen]);
+
+  if (selectedCount === 0) {
+    return null;
+  }
+
+  const closeMoveModal = () => {
+    setIsMoveModalOpen(false);
+    setSelectedMoveLocationId(null);
+  };
+
+  const closePropertyModal = () => {
+    setIsPropertyModalOpen(false);
+    setPropertyKey('');
+    setPropertyValue('');
+    setPropertyEditMode('set');
+  };
+
+  const handleMove = async () => {
+    if (!selectedMoveLocationId) return;
+
+    setIsMoving(true);
+    const movedItemIds = selectedItemIds;
+    const previousItems = getSelectedItems();
+    try {
+      const responsePromise = apiClient.POST('/api/Item/move', {
+        body: {
+          itemIds: movedItemIds,
+          newLocationId: selectedMoveLocationId,
+        },
+      });
+
+      const result = await unwrapMutationResponse<number>(responsePromise);
+      // A queued change has no count yet, so count the items it was made to
+      const movedCount = result === QUEUED_OFFLINE ? movedItemIds.length : result;
+      showUndoToast(`Moved ${pluralizeItems(movedCount)}`, () => moveItemsBack(previousItems, movedItemIds));
+      closeMoveModal();
+      onClearSelection();
+      onItemsChanged();
+    } catch (error) {
+      console.error('Failed to move items:', error);
+      toast.error(getErrorMessage(error, 'Failed to move items'));
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    const deletedItemIds = selectedItemIds;
+    try {
+      const responsePromise = apiClient.POST('/api/Item/delete', {
+        body: {
+          itemIds: deletedItemIds,
+        },
+      });
+
+      const result = await unwrapMutationResponse<number>(responsePromise);
+      const deletedCount = result === QUEUED_OFFLINE ? deletedItemIds.length : result;
+      showUndoToast(`Deleted ${pluralizeItems(deletedCount)}`, () => restoreItems(deletedItemIds));
+      setIsDeleteConfirmOpen(false);
+      onClearSelection();
+      onItemsChanged();
+    } catch (error) {
+      console.error('Failed to delete items:', error);
+      toast.error(getErrorMessage(error, 'Failed to delete items'));
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleUpdateProperties = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const key = propertyKey.trim();
+    if (!key) return;
+
+    setIsUpdatingProperties(true);
+    const previousItems = getSelectedItems();
+    try {
+      const responsePromise = apiClient.POST('/api/Item/properties', {
+        body: {
+          itemIds: selectedItemIds,
+          setProperties: propertyEditMode === 'set' ? { [key]: propertyValue.trim() } : null,
+          removeProperties: propertyEditMode === 'remove' ? [key] : null,
+        },
+      });
+
+      const result = await unwrapMutationResponse<number>(responsePromise);
+      const updatedCount = result === QUEUED_OFFLINE ? selectedItemIds.length : result;
+      showUndoToast(`Updated ${pluralizeItems(updatedCount)}`, async () => {
+        for (const previousItem of previousItems) {
+          await revertItem(previousItem);
+        }
+      });
+      closePropertyModal();
+      onItemsChanged();
+    } catch (error) {
+      console.error('Failed to update item properties:', error);
+      toast.error(getErrorMessage(error, 'Failed to update item properties'));
+    } finally {
+      setIsUpdatingProperties(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="sticky top-0 z-20 mb-3 bg-[var(--elevation-level-3-dark)] border border-[var(--color-border)] rounded-md p-3 flex flex-wrap items-center gap-2 shadow-lg">
+        <div className="text-[var(--color-fg)] font-medium mr-auto">
+          {selectedCount} of {totalItemCount} selected
+        </div>
+        {selectedCount < totalItemCount && (
+          <Button type="button" variant="ghost" size="sm" onClick={onSelectAll}>
+            Select all
+          </Button>
+        )}
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => setIsMoveModalOpen(true)}
+          icon={<IconArrowsMove size={18} />}
+        >
+          Move
+        </Button>
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => setIsPropertyModalOpen(true)}
+          icon={<IconTag size={18} />}
+        >
+          Edit property
+        </Button>
+        <Button
+          type="button"
+          variant="outlineDanger"
+          size="sm"
+          onClick={() => setIsDeleteConfirmOpen(true)}
+          icon={<IconTrash size={18} />}
+        >
+          Delete
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={onClearSelection}
+          icon={<IconX size={18} />}
+          aria-label="Clear selection"
+        />
+      </div>
+
+      <Modal
+        isOpen={isMoveModalOpen}
+        onClose={closeMoveModal}
+        title="Move Items"
+        className="max-w-2xl"
+      >
+        <div className="space-y-4">
+          <div className="text-[var(--color-fg)] opacity-70 text-sm">
+            Select a new location for {pluralizeItems(selectedCount)}:
+          </div>
+          {isLoadingLocationTree ? (
+            <div className="text-center py-8 text-[var(--color-fg)] opacity-70">
+              Loading locations...
+            </div>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto border border-[var(--color-border)] rounded-lg p-2 bg-[var(--elevation-level-1-dark)]">
+              <LocationTree
+                nodes={locationTree}
+                selectedLocationId={selectedMoveLocationId}
+                onSelectLocation={(location) => {
+                  setSelectedMoveLocationId(location?.id || null);
+                }}
+              />
+            </div>
+          )}
+          <div className="flex gap-3 justify-end pt-2">
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={closeMoveModal}
+              disabled={isMoving}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant="primary"
+              onClick={handleMove}
+              loading={isMoving}
+              disabled={isMoving || !selectedMoveLocationId}
+            >
+              Move Items
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      <Modal
+        isOpen={isPropertyModalOpen}
+        onClose={closePropertyModal}
+        title="Edit Property"
+      >
+        <form onSubmit={handleUpdateProperties} className="space-y-4">
+          <div className="text-[var(--color-fg)] opacity-70 text-sm">
+            Applies to {pluralizeItems(selectedCount)}. Other properties are left unchanged.
+          </div>
+          <Select
+            label="Action"
+            value={propertyEditMode}
+            onChange={(e) => setPropertyEditMode(e.target.value as PropertyEditMode)}
+          >
+            <option value="set">Set value</option>
+            <option value="remove">Remove property</option>
+          </Select>
+          <Input
+            label="Property"
+            type="text"
+            placeholder="e.g. Color"
+            value={propertyKey}
+            onChange={(e) => setPropertyKey(e.target.value)}
+            required
+          />
+          {propertyEditMode === 'set' && (
+            <Input
+              label="Value"
+              type="text"
+              value={propertyValue}
+              onChange={(e) => setPropertyValue(e.target.value)}
+            />
+          )}
+          <div className="flex gap-3 justify-end pt-2">
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={closePropertyModal}
+              disabled={isUpdatingProperties}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="primary"
+              loading={isUpdatingProperties}
+              disabled={isUpdatingProperties || !propertyKey.trim()}
+            >
+              Apply
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <ConfirmationModal
+        isOpen={isDeleteConfirmOpen}
+        onClose={() => setIsDeleteConfirmOpen(false)}
+        onConfirm={handleDelete}
+        title="Delete Items"
+        message={`Are you sure you want to delete ${pluralizeItems(selectedCount)}?`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="danger"
+        isLoading={isDeleting}
+      />
+    </>
+  );
+}
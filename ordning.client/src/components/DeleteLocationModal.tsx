@@ -0,0 +1,244 @@
+import { useEffect, useState } from 'react';
+import { IconAlertTriangle } from '@tabler/icons-react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import { Button, Modal } from './ui';
+import { LocationPicker } from './LocationPicker';
+import { moveItemsTo, moveLocationsInto, restoreItems, restoreLocations } from '../services/undoActions';
+import { showUndoToast } from '../services/undoToast';
+import toast from 'react-hot-toast';
+
+type Location = components['schemas']['Location'];
+type LocationDeleteImpact = components['schemas']['LocationDeleteImpact'];
+
+type DeleteContentsMode = 'move' | 'cascade';
+
+export interface DeleteLocationModalProps {
+  location: Location;
+  onClose: () => void;
+  onDeleted: () => void;
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function describeImpact(impact: LocationDeleteImpact): string {
+  const childCount = impact.childLocationCount ?? 0;
+  const descendantCount = impact.descendantLocationCount ?? 0;
+  const itemCount = impact.itemCount ?? 0;
+  const totalItemCount = impact.totalItemCount ?? 0;
+
+  const parts: string[] = [];
+  if (childCount > 0) {
+    parts.push(descendantCount > childCount
+      ? `${pluralize(childCount, 'location')} (${descendantCount} including sublocations)`
+      : pluralize(childCount, 'location'));
+  }
+  if (totalItemCount > 0) {
+    parts.push(totalItemCount > itemCount
+      ? `${pluralize(itemCount, 'item')} (${totalItemCount} including sublocations)`
+      : pluralize(itemCount, 'item'));
+  }
+  return parts.join(' and ');
+}
+
+/** Restores a deleted location and puts back what was inside it, using the impact fetched before the delete. */
+async function undoDeleteLocation(locationId: string, impact: LocationDeleteImpact | null, mode: DeleteContentsMode | null) {
+  if (mode === 'cascade') {
+    await restoreLocations([locationId, ...(impact?.descendantLocationIds || [])]);
+    await restoreItems(impact?.subtreeItemIds || []);
+    return;
+  }
+
+  await restoreLocations([locationId]);
+  if (mode === 'move') {
+    // Items go back first, since a location with child locations can't take items
+    await moveItemsTo(impact?.itemIds || [], locationId);
+    await moveLocationsInto(impact?.childLocationIds || [], locationId);
+  }
+}
+
+/**
+ * Confirms deleting a location. An empty location is deleted as is; otherwise the user chooses
+ * between moving its child locations and items to another location or deleting everything inside it.
+ * Mount it when the dialog should open so that the impact is fetched fresh each time.
+ */
+export function DeleteLocationModal({ location, onClose, onDeleted }: DeleteLocationModalProps) {
+  const [impact, setImpact] = useState<LocationDeleteImpact | null>(null);
+  const [isLoadingImpact, setIsLoadingImpact] = useState<boolean>(true);
+  const [mode, setMode] = useState<DeleteContentsMode>('move');
+  const [targetLocation, setTargetLocation] = useState<Location | null>(null);
+  const [isDeleting, setIsDeleting] = useState<boolean>(false);
+
+  const locationId = location.id || '';
+  const locationName = location.name || location.id || 'this location';
+  const isEmpty = impact?.isEmpty ?? true;
+  const canDelete = !isLoadingImpact && !isDeleting && (isEmpty || mode === 'cascade' || !!targetLocation?.id);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const responsePromise = apiClient.GET('/api/Location/{id}/delete-impact', {
+      params: {
+        path: {
+          id: locationId,
+        },
+      },
+      signal: controller.signal,
+    });
+
+    unwrapResponse<LocationDeleteImpact>(responsePromise)
+      .then((data) => {
+        setImpact(data);
+        setIsLoadingImpact(false);
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to fetch delete impact:', error);
+        toast.error('Failed to check what is in this location');
+        onClose();
+      });
+
+    return () => controller.abort();
+  }, [locationId, onClose]);
+
+  const handleDelete = async () => {
+    const deletedImpact = impact;
+    const deleteMode = isEmpty ? null : mode;
+    setIsDeleting(true);
+    try {
+      const response = await apiClient.DELETE('/api/Location/{id}', {
+        params: {
+          path: {
+            id: locationId,
+          },
+          query: isEmpty
+            ? undefined
+            : { mode, targetLocationId: mode === 'move' ? targetLocation?.id || undefined : undefined },
+        },
+      });
+
+      const responseData = response as { error?: unknown; response: Response };
+
+      // Check for 403 Forbidden status first
+      if (responseData.response.status === 403) {
+        throw new Error('You lack the required privileges to perform this action');
+      }
+
+      if (responseData.error) {
+        const errorMessage = typeof responseData.error === 'string'
+          ? responseData.error
+          : (responseData.error as { message?: string; detail?: string; title?: string })?.message
+            || (responseData.error as { message?: string; detail?: string; title?: string })?.detail
+            || (responseData.error as { message?: string; detail?: string; title?: string })?.title
+            || 'Failed to delete location';
+        throw new Error(errorMessage);
+      }
+
+      // DELETE returns 204 No Content, so we just check for success
+      if (responseData.response.status === 204 || responseData.response.ok) {
+        showUndoToast('Location deleted successfully', () => undoDeleteLocation(locationId, deletedImpact, deleteMode));
+        onDeleted();
+      } else {
+        throw new Error('Failed to delete location');
+      }
+    } catch (error) {
+      console.error('Failed to delete location:', error);
+      if (error instanceof Error) {
+        toast.error(error.message || 'Failed to delete location');
+      } else {
+        toast.error('Failed to delete location');
+      }
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const optionClassName = (selected: boolean) =>
+    `rounded-md border p-3 transition-colors ${
+      selected
+        ? 'border-[var(--brand-color-light)] bg-[var(--elevation-level-3-dark)]'
+        : 'border-[var(--color-border)] hover:bg-[var(--elevation-level-3-dark)]'
+    }`;
+
+  return (
+    <Modal isOpen onClose={onClose} title="Delete Location" className="max-w-md">
+      <div className="space-y-4">
+        <div className="flex items-start gap-4">
+          <div className="flex-shrink-0">
+            <div className="w-10 h-10 rounded-full bg-danger-dark/20 flex items-center justify-center">
+              <IconAlertTriangle size={24} className="text-danger-dark" />
+            </div>
+          </div>
+          <div className="flex-1 text-[var(--color-fg)]">
+            {isLoadingImpact ? (
+              <p className="opacity-70">Checking what is in this location...</p>
+            ) : isEmpty || !impact ? (
+              <p>Are you sure you want to delete "{locationName}"?</p>
+            ) : (
+              <p>"{locationName}" contains {describeImpact(impact)}. What should happen to them?</p>
+            )}
+          </div>
+        </div>
+
+        {!isLoadingImpact && !isEmpty && (
+          <div className="space-y-2">
+            <div className={optionClassName(mode === 'move')}>
+              <label className="flex items-center gap-2 text-[var(--color-fg)] font-medium cursor-pointer">
+                <input
+                  type="radio"
+                  name="delete-contents-mode"
+                  checked={mode === 'move'}
+                  onChange={() => setMode('move')}
+                  className="accent-[var(--brand-color-light)]"
+                />
+                Move them to another location
+              </label>
+              {mode === 'move' && (
+                <div className="mt-3">
+                  <LocationPicker
+                    selectedLocationId={targetLocation?.id}
+                    onSelectLocation={setTargetLocation}
+                    disabled={isDeleting}
+                  />
+                </div>
+              )}
+            </div>
+            <div className={optionClassName(mode === 'cascade')}>
+              <label className="flex items-center gap-2 text-[var(--color-fg)] font-medium cursor-pointer">
+                <input
+                  type="radio"
+                  name="delete-contents-mode"
+                  checked={mode === 'cascade'}
+                  onChange={() => setMode('cascade')}
+                  className="accent-[var(--brand-color-light)]"
+                />
+                Delete everything inside it
+              </label>
+              {mode === 'cascade' && (
+                <div className="mt-1 text-sm text-[var(--color-fg)] opacity-70">
+                  All sublocations and the items in them are deleted.
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-3 justify-end pt-2">
+          <Button type="button" variant="secondary" onClick={onClose} disabled={isDeleting}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="danger"
+            onClick={handleDelete}
+            loading={isDeleting}
+            disabled={!canDelete}
+          >
+            {!isEmpty && mode === 'cascade' ? 'Delete Everything' : 'Delete'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
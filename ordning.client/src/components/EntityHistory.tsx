@@ -0,0 +1,74 @@
+import { useCallback } from 'react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import { toPage } from '../services/pagination';
+import { usePaginatedQuery, type PageFetcher } from '../hooks/usePaginatedQuery';
+import type { AuditEntityType } from '../services/auditLog';
+import { AuditTimeline } from './AuditTimeline';
+import { PaginationFooter } from './PaginationFooter';
+
+type AuditEntry = components['schemas']['AuditEntry'];
+type AuditLogResponse = components['schemas']['AuditLogResponse'];
+
+export interface EntityHistoryProps {
+  entityType: AuditEntityType;
+  entityId: string;
+}
+
+/**
+ * The change history of one item or location, newest first. Give it a `key` that changes with the
+ * entity (such as its updatedAt) to reload after a change made on the same page.
+ */
+export function EntityHistory({ entityType, entityId }: EntityHistoryProps) {
+  const fetchHistoryPage = useCallback<PageFetcher<AuditEntry>>(async (offset, limit, signal) => {
+    const responsePromise = apiClient.GET('/api/Audit', {
+      params: {
+        query: {
+          entityType,
+          entityId,
+          offset,
+          limit,
+        },
+      },
+      signal,
+    });
+
+    return toPage(await unwrapResponse<AuditLogResponse>(responsePromise));
+  }, [entityType, entityId]);
+
+  const history = usePaginatedQuery(fetchHistoryPage, {
+    getKey: (entry) => entry.id,
+    pageSize: 20,
+    errorMessage: 'Failed to load history',
+  });
+  if (history.isLoading) {
+    return (
+      <div className="text-[var(--color-fg)] opacity-60 text-sm">
+        Loading history...
+      </div>
+    );
+  }
+
+  if (history.items.length === 0) {
+    return (
+      <div className="text-[var(--color-fg)] opacity-60 text-sm">
+        No recorded changes yet
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <AuditTimeline entries={history.items} />
+      <PaginationFooter
+        loadedCount={history.items.length}
+        totalCount={history.totalCount}
+        hasMore={history.hasMore}
+        isLoadingMore={history.isLoadingMore}
+        onLoadMore={history.loadMore}
+        sentinelRef={history.sentinelRef}
+        noun="changes"
+      />
+    </div>
+  );
+}
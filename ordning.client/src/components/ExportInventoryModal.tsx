@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { IconFileTypeCsv, IconJson } from '@tabler/icons-react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import { Button, Modal } from './ui';
+import { buildInventoryExport, serializeInventoryCsv, serializeInventoryJson } from '../services/inventorySerializer';
+import { downloadFile } from '../services/download';
+import toast from 'react-hot-toast';
+
+type Item = components['schemas']['Item'];
+type LocationTreeNode = components['schemas']['LocationTreeNode'];
+
+type ExportFormat = 'json' | 'csv';
+
+export interface ExportInventoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function ExportInventoryModal({ isOpen, onClose }: ExportInventoryModalProps) {
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExportingFormat(format);
+    try {
+      const [tree, items] = await Promise.all([
+        unwrapResponse<LocationTreeNode[]>(apiClient.GET('/api/Location/tree')),
+        unwrapResponse<Item[]>(apiClient.GET('/api/Item')),
+      ]);
+
+      const exportedAt = new Date();
+      const inventory = buildInventoryExport(tree || [], items || [], exportedAt);
+      const fileName = `ordning-export-${exportedAt.toISOString().slice(0, 10)}`;
+
+      if (format === 'json') {
+        downloadFile(serializeInventoryJson(inventory), `${fileName}.json`, 'application/json');
+      } else {
+        downloadFile(serializeInventoryCsv(inventory), `${fileName}.csv`, 'text/csv');
+      }
+
+      onClose();
+    } catch (error) {
+      console.error('Failed to export inventory:', error);
+      toast.error('Failed to export inventory');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Export Inventory"
+      className="max-w-md"
+    >
+      <div className="space-y-4">
+        <p className="text-[var(--color-fg)] opacity-70 text-sm">
+          JSON keeps the full location hierarchy with the items and their properties in each location.
+          CSV has one row per item with its location path and a column for every property.
+        </p>
+        <div className="flex gap-3">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => handleExport('json')}
+            loading={exportingFormat === 'json'}
+            disabled={exportingFormat !== null}
+            icon={<IconJson size={20} />}
+            className="flex-1"
+          >
+            JSON
+          </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => handleExport('csv')}
+            loading={exportingFormat === 'csv'}
+            disabled={exportingFormat !== null}
+            icon={<IconFileTypeCsv size={20} />}
+            className="flex-1"
+          >
+            CSV
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
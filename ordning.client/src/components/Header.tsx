@@ -1,6 +1,8 @@
 import { useLocation, useNavigate } from 'react-router-dom';
-import { IconBox, IconMapPin, IconUser } from '@tabler/icons-react';
+import { IconBox, IconHistory, IconMapPin, IconScan, IconTag, IconUser } from '@tabler/icons-react';
 import { Button } from './ui';
+import { SyncIndicator } from './SyncIndicator';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
 
 export function Header() {
   const navigate = useNavigate();
@@ -9,6 +11,9 @@ export function Header() {
   const isItemsPage = location.pathname === '/dashboard' || location.pathname.startsWith('/items');
   const isLocationsPage = location.pathname.startsWith('/locations');
   const isAccountPage = location.pathname.startsWith('/account');
+  const isScanPage = location.pathname.startsWith('/scan');
+  const isActivityPage = location.pathname.startsWith('/activity');
+  const isTagsPage = location.pathname.startsWith('/tags');
 
   return (
     <header className="bg-[var(--elevation-level-2-dark)] border-b border-[var(--color-border)] sticky top-0 z-50">
@@ -32,6 +37,30 @@ export function Header() {
           >
             Locations
           </Button>
+          <Button
+            variant={isScanPage ? 'secondary' : 'ghost'}
+            onClick={() => navigate('/scan')}
+            icon={<IconScan size={18} />}
+            size="sm"
+            className="shrink-0"
+            aria-label="Scan"
+          />
+          <Button
+            variant={isTagsPage ? 'secondary' : 'ghost'}
+            onClick={() => navigate('/tags')}
+            icon={<IconTag size={18} />}
+            size="sm"
+            className="shrink-0"
+            aria-label="Tags"
+          />
+          <Button
+            variant={isActivityPage ? 'secondary' : 'ghost'}
+            onClick={() => navigate('/activity')}
+            icon={<IconHistory size={18} />}
+            size="sm"
+            className="shrink-0"
+            aria-label="Activity"
+          />
           <Button
             variant={isAccountPage ? 'secondary' : 'ghost'}
             onClick={() => navigate('/account')}
@@ -39,6 +68,8 @@ export function Header() {
             size="sm"
             className="shrink-0"
           />
+          <WorkspaceSwitcher />
+          <SyncIndicator />
         </nav>
       </div>
     </header>
@@ -0,0 +1,120 @@
+import { useRef, useState, type KeyboardEvent, type PointerEvent } from 'react';
+import { IconChevronLeft, IconChevronRight } from '@tabler/icons-react';
+import { AuthorizedImage } from './AuthorizedImage';
+
+export interface ImageGalleryProps {
+  imageIds: string[];
+  alt: string;
+}
+
+const SWIPE_THRESHOLD_PX = 40;
+
+/** Photos of an item or location, one at a time. Swipe or use the arrows to move between them. */
+export function ImageGallery({ imageIds, alt }: ImageGalleryProps) {
+  const [index, setIndex] = useState<number>(0);
+  const swipeStartXRef = useRef<number | null>(null);
+
+  if (imageIds.length === 0) return null;
+
+  // Photos can be removed while the gallery is open, so keep the index in range
+  const currentIndex = Math.min(index, imageIds.length - 1);
+  const hasMultiple = imageIds.length > 1;
+
+  const showImage = (nextIndex: number) => {
+    setIndex((nextIndex + imageIds.length) % imageIds.length);
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    swipeStartXRef.current = e.clientX;
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    const startX = swipeStartXRef.current;
+    swipeStartXRef.current = null;
+    if (startX === null || !hasMultiple) return;
+
+    const deltaX = e.clientX - startX;
+    if (Math.abs(deltaX) >= SWIPE_THRESHOLD_PX) {
+      showImage(currentIndex + (deltaX < 0 ? 1 : -1));
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      showImage(currentIndex - 1);
+    } else if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      showImage(currentIndex + 1);
+    }
+  };
+
+  const arrowClassName = 'absolute top-1/2 -translate-y-1/2 w-9 h-9 rounded-full bg-black/50 text-white flex items-center justify-center hover:bg-black/70';
+
+  return (
+    <div className="space-y-2">
+      <div
+        className="relative rounded-md overflow-hidden bg-[var(--elevation-level-3-dark)] border border-[var(--color-border)] select-none touch-pan-y focus:outline-none focus-visible:ring-2 focus-visible:ring-[var(--brand-color-light)]"
+        onPointerDown={handlePointerDown}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { swipeStartXRef.current = null; }}
+        onKeyDown={handleKeyDown}
+        tabIndex={hasMultiple ? 0 : undefined}
+        aria-roledescription="carousel"
+        aria-label={`Photos of ${alt}`}
+      >
+        <AuthorizedImage
+          key={imageIds[currentIndex]}
+          imageId={imageIds[currentIndex]}
+          variant="full"
+          alt={`${alt}, photo ${currentIndex + 1} of ${imageIds.length}`}
+          className="w-full h-72 md:h-96 object-contain"
+        />
+        {hasMultiple && (
+          <>
+            <button
+              type="button"
+              onClick={() => showImage(currentIndex - 1)}
+              className={`${arrowClassName} left-2`}
+              aria-label="Previous photo"
+            >
+              <IconChevronLeft size={20} />
+            </button>
+            <button
+              type="button"
+              onClick={() => showImage(currentIndex + 1)}
+              className={`${arrowClassName} right-2`}
+              aria-label="Next photo"
+            >
+              <IconChevronRight size={20} />
+            </button>
+            <div className="absolute bottom-2 right-2 px-2 py-0.5 rounded bg-black/60 text-white text-xs">
+              {currentIndex + 1} / {imageIds.length}
+            </div>
+          </>
+        )}
+      </div>
+
+      {hasMultiple && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {imageIds.map((imageId, imageIndex) => (
+            <button
+              key={imageId}
+              type="button"
+              onClick={() => showImage(imageIndex)}
+              className={`shrink-0 rounded border-2 ${imageIndex === currentIndex ? 'border-[var(--brand-color-light)]' : 'border-transparent opacity-70 hover:opacity-100'}`}
+              aria-label={`Show photo ${imageIndex + 1}`}
+              aria-current={imageIndex === currentIndex}
+            >
+              <AuthorizedImage
+                imageId={imageId}
+                alt=""
+                className="w-14 h-14 rounded-sm object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
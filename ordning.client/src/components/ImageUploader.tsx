@@ -0,0 +1,188 @@
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import { IconCamera, IconPhotoPlus, IconX } from '@tabler/icons-react';
+import toast from 'react-hot-toast';
+import { Button } from './ui';
+import { AuthorizedImage } from './AuthorizedImage';
+import { processImage, type ProcessedImage } from '../services/imageProcessing';
+import { MAX_IMAGES_PER_OWNER } from '../services/images';
+
+export interface PendingImage {
+  key: string;
+  processed: ProcessedImage;
+  previewUrl: string;
+}
+
+export interface ImageUploaderProps {
+  pendingImages: PendingImage[];
+  onPendingImagesChange: (pendingImages: PendingImage[]) => void;
+  existingImageIds?: string[];
+  onRemoveExistingImage?: (imageId: string) => void;
+  label?: string;
+  disabled?: boolean;
+}
+
+let nextPendingKey = 0;
+
+/**
+ * Picks photos for an item or location, either straight from the camera or from the photo library.
+ * Photos are resized as soon as they are picked and kept as pending until the form is saved.
+ */
+export function ImageUploader({
+  pendingImages,
+  onPendingImagesChange,
+  existingImageIds = [],
+  onRemoveExistingImage,
+  label = 'Photos (optional)',
+  disabled = false,
+}: ImageUploaderProps) {
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const libraryInputRef = useRef<HTMLInputElement>(null);
+  const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const pendingImagesRef = useRef<PendingImage[]>(pendingImages);
+
+  useEffect(() => {
+    pendingImagesRef.current = pendingImages;
+  }, [pendingImages]);
+
+  // Previews of photos that were never saved are released when the form goes away
+  useEffect(() => () => {
+    pendingImagesRef.current.forEach((image) => URL.revokeObjectURL(image.previewUrl));
+  }, []);
+
+  const imageCount = existingImageIds.length + pendingImages.length;
+  const canAddMore = imageCount < MAX_IMAGES_PER_OWNER;
+
+  const handleFilesSelected = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const room = MAX_IMAGES_PER_OWNER - imageCount;
+    if (files.length > room) {
+      toast.error(`At most ${MAX_IMAGES_PER_OWNER} photos can be added`);
+    }
+
+    setIsProcessing(true);
+    const added: PendingImage[] = [];
+    for (const file of files.slice(0, Math.max(0, room))) {
+      try {
+        const processed = await processImage(file);
+        added.push({
+          key: `pending-${nextPendingKey++}`,
+          processed,
+          previewUrl: URL.createObjectURL(processed.thumbnail),
+        });
+      } catch (error) {
+        console.error('Failed to process photo:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to process photo');
+      }
+    }
+    setIsProcessing(false);
+
+    if (added.length > 0) {
+      onPendingImagesChange([...pendingImagesRef.current, ...added]);
+    }
+  };
+
+  const removePendingImage = (key: string) => {
+    const image = pendingImages.find((pending) => pending.key === key);
+    if (image) {
+      URL.revokeObjectURL(image.previewUrl);
+    }
+    onPendingImagesChange(pendingImages.filter((pending) => pending.key !== key));
+  };
+
+  const removeButtonClassName = 'absolute top-1 right-1 w-6 h-6 rounded-full bg-black/60 text-white flex items-center justify-center hover:bg-black/80 disabled:opacity-40';
+
+  return (
+    <div className="space-y-1.5">
+      <label className="text-sm font-medium text-[var(--color-fg)]">
+        {label}
+      </label>
+
+      {imageCount > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {existingImageIds.map((imageId) => (
+            <div key={imageId} className="relative w-20 h-20">
+              <AuthorizedImage
+                imageId={imageId}
+                alt="Photo"
+                className="w-20 h-20 rounded object-cover border border-[var(--color-border)]"
+              />
+              {onRemoveExistingImage && (
+                <button
+                  type="button"
+                  onClick={() => onRemoveExistingImage(imageId)}
+                  disabled={disabled}
+                  className={removeButtonClassName}
+                  aria-label="Remove photo"
+                >
+                  <IconX size={14} />
+                </button>
+              )}
+            </div>
+          ))}
+          {pendingImages.map((image) => (
+            <div key={image.key} className="relative w-20 h-20">
+              <img
+                src={image.previewUrl}
+                alt="New photo"
+                className="w-20 h-20 rounded object-cover border border-[var(--brand-color-light)]"
+              />
+              <button
+                type="button"
+                onClick={() => removePendingImage(image.key)}
+                disabled={disabled}
+                className={removeButtonClassName}
+                aria-label="Remove photo"
+              >
+                <IconX size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2 flex-wrap">
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => cameraInputRef.current?.click()}
+          icon={<IconCamera size={16} />}
+          disabled={disabled || isProcessing || !canAddMore}
+        >
+          Take Photo
+        </Button>
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => libraryInputRef.current?.click()}
+          icon={<IconPhotoPlus size={16} />}
+          loading={isProcessing}
+          disabled={disabled || isProcessing || !canAddMore}
+        >
+          Choose Photos
+        </Button>
+      </div>
+
+      <input
+        ref={cameraInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        onChange={handleFilesSelected}
+        className="hidden"
+      />
+      <input
+        ref={libraryInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={handleFilesSelected}
+        className="hidden"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { AuthorizedImage } from './AuthorizedImage';
+
+export interface ItemThumbnailProps {
+  imageIds?: string[] | null;
+  name?: string | null;
+}
+
+/** The first photo of an item in a list row. Items without photos show nothing so rows stay compact. */
+export function ItemThumbnail({ imageIds, name }: ItemThumbnailProps) {
+  const imageId = imageIds?.[0];
+  if (!imageId) return null;
+
+  return (
+    <AuthorizedImage
+      imageId={imageId}
+      alt={`Photo of ${name || 'item'}`}
+      className="w-12 h-12 shrink-0 rounded object-cover border border-[var(--color-border)]"
+    />
+  );
+}
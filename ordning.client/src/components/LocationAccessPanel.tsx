@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { IconDeviceFloppy } from '@tabler/icons-react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import { Button } from './ui';
+import {
+  EVERYONE_ELSE,
+  LOCATION_ACCESS_LABELS,
+  LOCATION_ACCESS_LEVELS,
+  toAccessChoices,
+  toAccessRuleRequests,
+  type LocationAccessChoices,
+  type LocationAccessLevel,
+} from '../services/locationAccess';
+import { hasWorkspaceRole } from '../services/workspaces';
+import toast from 'react-hot-toast';
+
+type LocationAccessRule = components['schemas']['LocationAccessRule'];
+type WorkspaceMember = components['schemas']['WorkspaceMember'];
+
+export interface LocationAccessPanelProps {
+  locationId: string;
+  workspaceId: string;
+}
+
+/**
+ * Lets workspace admins choose who can see and change a location and everything in it. Members without
+ * a choice of their own follow the choice for everyone else, and without that the closest parent decides.
+ * Workspace admins always have full access, so they are not listed.
+ */
+export function LocationAccessPanel({ locationId, workspaceId }: LocationAccessPanelProps) {
+  const [members, setMembers] = useState<WorkspaceMember[] | null>(null);
+  const [choices, setChoices] = useState<LocationAccessChoices>({});
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    Promise.all([
+      unwrapResponse<WorkspaceMember[]>(apiClient.GET('/api/Workspace/{id}/members', {
+        params: {
+          path: {
+            id: workspaceId,
+          },
+        },
+        signal: controller.signal,
+      })),
+      unwrapResponse<LocationAccessRule[]>(apiClient.GET('/api/Location/{id}/access', {
+        params: {
+          path: {
+            id: locationId,
+          },
+        },
+        signal: controller.signal,
+      })),
+    ])
+      .then(([memberData, ruleData]) => {
+        setMembers((memberData || []).filter((member) => !hasWorkspaceRole(member.role, 'admin')));
+        setChoices(toAccessChoices(ruleData || []));
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load location access:', error);
+        setMembers([]);
+      });
+    return () => controller.abort();
+  }, [locationId, workspaceId]);
+
+  const handleSave = async (): Promise<void> => {
+    setIsSaving(true);
+    try {
+      const response = await apiClient.PUT('/api/Location/{id}/access', {
+        params: {
+          path: {
+            id: locationId,
+          },
+        },
+        body: { rules: toAccessRuleRequests(choices) },
+      });
+
+      if (response.response.status === 403) {
+        throw new Error('You lack the required privileges to perform this action');
+      }
+      if (!response.response.ok) {
+        const errorBody = response.error as { message?: string } | undefined;
+        throw new Error(errorBody?.message || 'Failed to save access');
+      }
+
+      setChoices(toAccessChoices(response.data || []));
+      toast.success('Access saved');
+    } catch (error) {
+      console.error('Failed to save location access:', error);
+      toast.error(error instanceof Error ? error.message || 'Failed to save access' : 'Failed to save access');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (members === null) {
+    return (
+      <div className="text-[var(--color-fg)] opacity-60 text-sm">
+        Loading access...
+      </div>
+    );
+  }
+
+  const renderChoice = (key: string, label: string, inheritLabel: string) => (
+    <div key={key} className="flex items-center gap-2">
+      <div className="flex-1 min-w-0 text-[var(--color-fg)] text-sm truncate">
+        {label}
+      </div>
+      <select
+        value={choices[key] || ''}
+        onChange={(e) => setChoices((current) => ({ ...current, [key]: e.target.value as LocationAccessLevel | '' }))}
+        disabled={isSaving}
+        aria-label={`Access for ${label}`}
+        className="px-2 py-1 rounded-md bg-[var(--elevation-level-3-dark)] text-[var(--color-fg)] text-sm border border-[var(--color-border)] focus:outline-none focus:border-[var(--elevation-level-4-dark)]"
+      >
+        <option value="">{inheritLabel}</option>
+        {LOCATION_ACCESS_LEVELS.map((level) => (
+          <option key={level} value={level}>{LOCATION_ACCESS_LABELS[level]}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {renderChoice(EVERYONE_ELSE, 'Everyone else', 'Same as parent')}
+        {members.map((member) => member.userId && renderChoice(member.userId, member.username || member.userId, 'Same as everyone else'))}
+      </div>
+      <Button
+        type="button"
+        variant="outlinePrimary"
+        onClick={() => void handleSave()}
+        loading={isSaving}
+        disabled={isSaving}
+        icon={<IconDeviceFloppy size={20} />}
+        className="w-full md:w-auto"
+      >
+        Save Access
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import { LocationTree } from './LocationTree';
+import { useUndoListener } from '../hooks/useUndoListener';
+
+type Location = components['schemas']['Location'];
+type LocationTreeNode = components['schemas']['LocationTreeNode'];
+
+export interface LocationDropPanelProps {
+  onDropItems: (itemIds: string[], location: Location) => void;
+  currentLocationId?: string | null;
+}
+
+/**
+ * Side panel with the location tree that item rows can be dragged onto. Dragging needs a mouse,
+ * so the panel only shows on wide screens.
+ */
+export function LocationDropPanel({ onDropItems, currentLocationId }: LocationDropPanelProps) {
+  const navigate = useNavigate();
+  const [tree, setTree] = useState<LocationTreeNode[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    unwrapResponse<LocationTreeNode[]>(apiClient.GET('/api/Location/tree', { signal: controller.signal }))
+      .then((data) => {
+        setTree(data || []);
+        setIsLoading(false);
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to fetch location tree:', error);
+        setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  useUndoListener(() => {
+    unwrapResponse<LocationTreeNode[]>(apiClient.GET('/api/Location/tree'))
+      .then((data) => setTree(data || []))
+      .catch((error) => console.error('Failed to reload location tree:', error));
+  });
+
+  return (
+    <aside className="hidden lg:block w-72 shrink-0 self-start sticky top-4">
+      <div className="text-sm font-medium text-[var(--color-fg)] opacity-70 mb-1">
+        Drag items onto a location to move them:
+      </div>
+      <div className="max-h-[calc(100vh-6rem)] overflow-y-auto border border-[var(--color-border)] rounded-lg p-2 bg-[var(--elevation-level-2-dark)]">
+        {isLoading ? (
+          <div className="text-[var(--color-fg)] opacity-60 text-sm p-2">
+            Loading locations...
+          </div>
+        ) : (
+          <LocationTree
+            nodes={tree}
+            selectedLocationId={currentLocationId}
+            onSelectLocation={(location) => location.id && navigate(`/locations/${location.id}`)}
+            onDropItems={onDropItems}
+          />
+        )}
+      </div>
+    </aside>
+  );
+}
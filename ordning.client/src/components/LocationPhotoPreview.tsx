@@ -0,0 +1,47 @@
+import { AuthorizedImage } from './AuthorizedImage';
+
+export interface LocationPhotoPreviewProps {
+  imageIds: string[];
+  name: string;
+  anchorRect: DOMRect;
+}
+
+const PREVIEW_IMAGE_COUNT = 3;
+const PREVIEW_WIDTH_PX = 3 * 96 + 2 * 4 + 2 * 8;
+const GAP_PX = 8;
+
+/**
+ * Thumbnails of a location's photos shown next to its row in the location tree while hovering it.
+ * It is positioned against the viewport so that scrolling side panels don't clip it.
+ */
+export function LocationPhotoPreview({ imageIds, name, anchorRect }: LocationPhotoPreviewProps) {
+  const shownImageIds = imageIds.slice(0, PREVIEW_IMAGE_COUNT);
+  const fitsOnRight = anchorRect.right + GAP_PX + PREVIEW_WIDTH_PX <= window.innerWidth;
+  const left = fitsOnRight
+    ? anchorRect.right + GAP_PX
+    : Math.max(GAP_PX, anchorRect.left - GAP_PX - PREVIEW_WIDTH_PX);
+
+  return (
+    <div
+      className="fixed z-50 p-2 rounded-md border border-[var(--color-border)] bg-[var(--elevation-level-2-dark)] shadow-lg pointer-events-none"
+      style={{ left, top: anchorRect.top }}
+      role="tooltip"
+    >
+      <div className="flex gap-1">
+        {shownImageIds.map((imageId) => (
+          <AuthorizedImage
+            key={imageId}
+            imageId={imageId}
+            alt={`Photo of ${name}`}
+            className="w-24 h-24 rounded object-cover"
+          />
+        ))}
+      </div>
+      {imageIds.length > shownImageIds.length && (
+        <div className="text-xs text-[var(--color-fg)] opacity-60 mt-1">
+          +{imageIds.length - shownImageIds.length} more
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,9 @@ import type { components } from '../types/api';
 import { Button, Input } from './ui';
 import { Modal } from './ui/Modal';
 import { LocationTree } from './LocationTree';
+import { PaginationFooter } from './PaginationFooter';
+import { usePaginatedQuery, type PageFetcher } from '../hooks/usePaginatedQuery';
+import { toPage } from '../services/pagination';
 import toast from 'react-hot-toast';
 
 type Location = components['schemas']['Location'];
@@ -24,44 +27,37 @@ export function LocationPicker({ selectedLocationId, onSelectLocation, allowNone
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [selectedLocation, setSelectedLocation] = useState<Location | null>(null);
   const [searchQuery, setSearchQuery] = useState<string>('');
-  const [searchResults, setSearchResults] = useState<Location[]>([]);
-  const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [debouncedQuery, setDebouncedQuery] = useState<string>('');
 
   const hasSearchQuery = searchQuery.trim().length > 0;
 
-  const performSearch = useCallback(async (query: string) => {
-    if (!query.trim()) {
-      setSearchResults([]);
-      return;
-    }
-
-    setIsSearching(true);
-    try {
-      const responsePromise = apiClient.GET('/api/Location/search', {
-        params: {
-          query: {
-            q: query.trim(),
-            limit: 50,
-            offset: 0,
-          },
+  const fetchSearchPage = useCallback<PageFetcher<Location>>(async (offset, limit, signal) => {
+    const responsePromise = apiClient.GET('/api/Location/search', {
+      params: {
+        query: {
+          q: debouncedQuery,
+          limit,
+          offset,
         },
-      });
+      },
+      signal,
+    });
 
-      const data = await unwrapResponse<LocationSearchResponse>(responsePromise);
-      setSearchResults(data.results || []);
-    } catch (error) {
-      console.error('Search failed:', error);
-      toast.error('Failed to search locations');
-      setSearchResults([]);
-    } finally {
-      setIsSearching(false);
-    }
-  }, []);
+    return toPage(await unwrapResponse<LocationSearchResponse>(responsePromise));
+  }, [debouncedQuery]);
+
+  const searchQueryResults = usePaginatedQuery(fetchSearchPage, {
+    getKey: (location) => location.id,
+    enabled: isOpen && debouncedQuery.length > 0,
+    errorMessage: 'Failed to search locations',
+  });
+  const searchResults = searchQueryResults.items;
+  const isSearching = searchQueryResults.isLoading || searchQuery.trim() !== debouncedQuery;
 
   useEffect(() => {
     if (isOpen) {
       setSearchQuery('');
-      setSearchResults([]);
+      setDebouncedQuery('');
       fetchLocationTree();
     }
   }, [isOpen]);
@@ -69,17 +65,12 @@ export function LocationPicker({ selectedLocationId, onSelectLocation, allowNone
   useEffect(() => {
     if (!isOpen) return;
 
-    if (hasSearchQuery) {
-      const timeoutId = setTimeout(() => {
-        performSearch(searchQuery);
-      }, 300);
+    const timeoutId = setTimeout(() => {
+      setDebouncedQuery(searchQuery.trim());
+    }, 300);
 
-      return () => clearTimeout(timeoutId);
-    } else {
-      setSearchResults([]);
-      setIsSearching(false);
-    }
-  }, [searchQuery, hasSearchQuery, performSearch, isOpen]);
+    return () => clearTimeout(timeoutId);
+  }, [searchQuery, isOpen]);
 
   useEffect(() => {
     if (selectedLocationId) {
@@ -240,6 +231,15 @@ export function LocationPicker({ selectedLocationId, onSelectLocation, allowNone
                       )}
                     </div>
                   ))}
+                  <PaginationFooter
+                    loadedCount={searchResults.length}
+                    totalCount={searchQueryResults.totalCount}
+                    hasMore={searchQueryResults.hasMore}
+                    isLoadingMore={searchQueryResults.isLoadingMore}
+                    onLoadMore={searchQueryResults.loadMore}
+                    sentinelRef={searchQueryResults.sentinelRef}
+                    noun="locations"
+                  />
                 </div>
               )}
             </>
@@ -1,6 +1,9 @@
-import { useState } from 'react';
-import { IconChevronRight, IconChevronDown } from '@tabler/icons-react';
+import { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { IconChevronRight, IconChevronDown, IconGripVertical, IconPhoto } from '@tabler/icons-react';
 import type { components } from '../types/api';
+import { findLocationNode, getInvalidParentIds } from '../services/locationTree';
+import { isItemDrag, readItemDragData } from '../services/itemDrag';
+import { LocationPhotoPreview } from './LocationPhotoPreview';
 
 type LocationTreeNode = components['schemas']['LocationTreeNode'];
 type Location = components['schemas']['Location'];
@@ -9,10 +12,78 @@ interface LocationTreeProps {
   nodes: LocationTreeNode[];
   selectedLocationId?: string | null;
   onSelectLocation: (location: Location) => void;
+  /** Makes locations draggable by a handle. Called when a location is dropped onto a valid new parent. */
+  onMoveLocation?: (location: Location, newParent: Location) => void;
+  /** Lets item rows be dropped onto locations without child locations, the only ones that can hold items. */
+  onDropItems?: (itemIds: string[], location: Location) => void;
   level?: number;
 }
 
-export function LocationTree({ nodes, selectedLocationId, onSelectLocation, level = 0 }: LocationTreeProps) {
+interface LocationTreeDragState {
+  draggedLocationId: string | null;
+  dropTargetId: string | null;
+  invalidTargetIds: Set<string>;
+  startDrag: (locationId: string) => void;
+  setDropTarget: (locationId: string | null) => void;
+  endDrag: (drop: boolean) => void;
+}
+
+const PHOTO_PREVIEW_DELAY_MS = 300;
+
+const LocationTreeDragContext = createContext<LocationTreeDragState | null>(null);
+const LocationTreeItemDropContext = createContext<LocationTreeProps['onDropItems'] | null>(null);
+
+export function LocationTree({ nodes, selectedLocationId, onSelectLocation, onMoveLocation, onDropItems, level = 0 }: LocationTreeProps) {
+  const [draggedLocationId, setDraggedLocationId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const invalidTargetIds = useMemo(
+    () => (draggedLocationId ? getInvalidParentIds(nodes, draggedLocationId) : new Set<string>()),
+    [nodes, draggedLocationId],
+  );
+
+  const dragState = useMemo<LocationTreeDragState | null>(() => {
+    if (!onMoveLocation) {
+      return null;
+    }
+
+    return {
+      draggedLocationId,
+      dropTargetId,
+      invalidTargetIds,
+      startDrag: (locationId) => {
+        setDraggedLocationId(locationId);
+        setDropTargetId(null);
+      },
+      setDropTarget: setDropTargetId,
+      endDrag: (drop) => {
+        if (drop && draggedLocationId && dropTargetId && !invalidTargetIds.has(dropTargetId)) {
+          const location = findLocationNode(nodes, draggedLocationId)?.location;
+          const newParent = findLocationNode(nodes, dropTargetId)?.location;
+          if (location && newParent) {
+            onMoveLocation(location, newParent);
+          }
+        }
+        setDraggedLocationId(null);
+        setDropTargetId(null);
+      },
+    };
+  }, [nodes, onMoveLocation, draggedLocationId, dropTargetId, invalidTargetIds]);
+
+  const list = (
+    <div className="space-y-1">
+      {nodes.map((node) => (
+        <LocationTreeNode
+          key={node.location?.id || ''}
+          node={node}
+          selectedLocationId={selectedLocationId}
+          onSelectLocation={onSelectLocation}
+          level={level}
+        />
+      ))}
+    </div>
+  );
+
   return (
     <>
       {level === 0 && (
@@ -27,17 +98,12 @@ export function LocationTree({ nodes, selectedLocationId, onSelectLocation, leve
           }
         `}</style>
       )}
-      <div className="space-y-1">
-        {nodes.map((node) => (
-          <LocationTreeNode
-            key={node.location?.id || ''}
-            node={node}
-            selectedLocationId={selectedLocationId}
-            onSelectLocation={onSelectLocation}
-            level={level}
-          />
-        ))}
-      </div>
+      {/* Nested trees use the drag state of the top level tree, which knows every node */}
+      {level === 0 ? (
+        <LocationTreeDragContext.Provider value={dragState}>
+          <LocationTreeItemDropContext.Provider value={onDropItems ?? null}>{list}</LocationTreeItemDropContext.Provider>
+        </LocationTreeDragContext.Provider>
+      ) : list}
     </>
   );
 }
@@ -51,14 +117,101 @@ interface LocationTreeNodeProps {
 
 function LocationTreeNode({ node, selectedLocationId, onSelectLocation, level }: LocationTreeNodeProps) {
   const [isExpanded, setIsExpanded] = useState<boolean>(true);
+  const [isItemDropTarget, setIsItemDropTarget] = useState<boolean>(false);
+  const [photoPreviewRect, setPhotoPreviewRect] = useState<DOMRect | null>(null);
+  const photoPreviewTimerRef = useRef<number | null>(null);
+  const dragState = useContext(LocationTreeDragContext);
+  const onDropItems = useContext(LocationTreeItemDropContext);
   const location = node.location;
   const hasChildren = node.children && node.children.length > 0;
   const isSelected = location?.id === selectedLocationId;
+  const isDragging = !!dragState?.draggedLocationId;
+  const isDragged = isDragging && location?.id === dragState?.draggedLocationId;
+  const isInvalidTarget = isDragging && !!location?.id && !!dragState?.invalidTargetIds.has(location.id);
+  const isDropTarget = isDragging && !isInvalidTarget && location?.id === dragState?.dropTargetId;
+
+  useEffect(() => () => {
+    if (photoPreviewTimerRef.current !== null) {
+      window.clearTimeout(photoPreviewTimerRef.current);
+    }
+  }, []);
 
   if (!location) return null;
 
+  const imageIds = location.imageIds || [];
+
+  // Previews only make sense with a mouse; on touch screens a tap opens the location instead
+  const handlePointerEnter = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType !== 'mouse' || imageIds.length === 0 || isDragging) return;
+    const row = e.currentTarget;
+    photoPreviewTimerRef.current = window.setTimeout(() => {
+      setPhotoPreviewRect(row.getBoundingClientRect());
+    }, PHOTO_PREVIEW_DELAY_MS);
+  };
+
+  const handlePointerLeave = () => {
+    if (photoPreviewTimerRef.current !== null) {
+      window.clearTimeout(photoPreviewTimerRef.current);
+      photoPreviewTimerRef.current = null;
+    }
+    setPhotoPreviewRect(null);
+  };
+
   const handleClick = () => {
-    onSelectLocation(location);
+    if (!isDragging) {
+      onSelectLocation(location);
+    }
+  };
+
+  // Pointer events cover both mouse and touch. The handle captures the pointer so that moves keep
+  // arriving here, and the node under the pointer is found from its data attribute.
+  const handleDragStart = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (!dragState || !location.id || e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragState.startDrag(location.id);
+  };
+
+  const handleDragMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (!dragState || !isDragged) return;
+    const target = document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>('[data-location-id]');
+    const targetId = target?.dataset.locationId ?? null;
+    if (targetId !== dragState.dropTargetId) {
+      dragState.setDropTarget(targetId);
+    }
+  };
+
+  const handleDragEnd = (e: React.PointerEvent<HTMLButtonElement>, drop: boolean) => {
+    if (!dragState || !isDragged) return;
+    e.stopPropagation();
+    dragState.endDrag(drop);
+  };
+
+  const acceptsItems = !!onDropItems && !hasChildren && !!location.id;
+
+  const handleItemDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!acceptsItems || !isItemDrag(e.dataTransfer)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsItemDropTarget(true);
+  };
+
+  const handleItemDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    // Moving over the node's own children fires a leave for the node itself
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsItemDropTarget(false);
+    }
+  };
+
+  const handleItemDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    setIsItemDropTarget(false);
+    if (!acceptsItems || !onDropItems || !isItemDrag(e.dataTransfer)) return;
+    e.preventDefault();
+    const itemIds = readItemDragData(e.dataTransfer);
+    if (itemIds.length > 0) {
+      onDropItems(itemIds, location);
+    }
   };
 
   const handleToggle = (e: React.MouseEvent) => {
@@ -75,14 +228,36 @@ function LocationTreeNode({ node, selectedLocationId, onSelectLocation, level }:
           location-tree-item
           flex items-center gap-2 px-3 py-2 rounded-md cursor-pointer
           transition-colors
-          ${isSelected 
+          ${isSelected || isDropTarget || isItemDropTarget
             ? 'bg-[var(--elevation-level-3-dark)] border border-[var(--brand-color-light)]' 
             : ''
           }
+          ${isInvalidTarget ? 'opacity-40' : ''}
+          ${isDragged ? 'border border-dashed border-[var(--color-border)]' : ''}
         `}
         style={{ paddingLeft: `${12 + level * 24}px` }}
         onClick={handleClick}
+        onDragOver={acceptsItems ? handleItemDragOver : undefined}
+        onDragLeave={acceptsItems ? handleItemDragLeave : undefined}
+        onDrop={acceptsItems ? handleItemDrop : undefined}
+        onPointerEnter={handlePointerEnter}
+        onPointerLeave={handlePointerLeave}
+        data-location-id={location.id || undefined}
       >
+        {dragState && (
+          <button
+            type="button"
+            onPointerDown={handleDragStart}
+            onPointerMove={handleDragMove}
+            onPointerUp={(e) => handleDragEnd(e, true)}
+            onPointerCancel={(e) => handleDragEnd(e, false)}
+            onClick={(e) => e.stopPropagation()}
+            className={`flex items-center justify-center w-5 h-5 touch-none text-[var(--color-fg)] opacity-50 ${isDragged ? 'cursor-grabbing' : 'cursor-grab'}`}
+            aria-label={`Drag ${location.name || location.id || 'location'} to move it`}
+          >
+            <IconGripVertical size={16} />
+          </button>
+        )}
         {hasChildren ? (
           <button
             onClick={handleToggle}
@@ -107,12 +282,22 @@ function LocationTreeNode({ node, selectedLocationId, onSelectLocation, level }:
             </div>
           )}
         </div>
+        {imageIds.length > 0 && (
+          <IconPhoto size={16} className="text-[var(--color-fg)] opacity-40 shrink-0" aria-label="Has photos" />
+        )}
         {location.id && (
           <div className="text-[var(--color-fg)] opacity-40 text-xs shrink-0">
             {location.id}
           </div>
         )}
       </div>
+      {photoPreviewRect && !isDragging && (
+        <LocationPhotoPreview
+          imageIds={imageIds}
+          name={location.name || location.id || 'location'}
+          anchorRect={photoPreviewRect}
+        />
+      )}
       {hasChildren && isExpanded && (
         <LocationTree
           nodes={node.children || []}
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { IconAlertTriangle } from '@tabler/icons-react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import { formatQuantity } from '../services/quantity';
+import { useUndoListener } from '../hooks/useUndoListener';
+
+type Item = components['schemas']['Item'];
+
+const COLLAPSED_ITEM_COUNT = 5;
+
+/** Lists the items whose quantity is below their minimum. Shows nothing while no item is low on stock. */
+export function LowStockWidget() {
+  const navigate = useNavigate();
+  const [items, setItems] = useState<Item[]>([]);
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    unwrapResponse<Item[]>(apiClient.GET('/api/Item/low-stock', { signal: controller.signal }))
+      .then((data) => setItems(data || []))
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to fetch low stock items:', error);
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  useUndoListener(() => {
+    unwrapResponse<Item[]>(apiClient.GET('/api/Item/low-stock'))
+      .then((data) => setItems(data || []))
+      .catch((error) => console.error('Failed to reload low stock items:', error));
+  });
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const visibleItems = isExpanded ? items : items.slice(0, COLLAPSED_ITEM_COUNT);
+
+  return (
+    <section className="mb-6 bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-4">
+      <h2 className="flex items-center gap-2 text-sm font-medium text-[var(--color-fg)] mb-2">
+        <IconAlertTriangle size={18} className="text-danger-dark" />
+        Low on stock ({items.length})
+      </h2>
+      <ul className="divide-y divide-[var(--color-border)]">
+        {visibleItems.map((item) => (
+          <li key={item.id}>
+            <button
+              type="button"
+              onClick={() => item.id && navigate(`/items/${item.id}`)}
+              className="w-full flex items-center justify-between gap-4 py-2 text-left text-[var(--color-fg)] hover:opacity-80"
+            >
+              <span className="font-medium truncate">{item.name || 'Unnamed Item'}</span>
+              <span className="shrink-0 text-sm">
+                <span className="text-danger-dark">{formatQuantity(item.quantity, item.unit)}</span>
+                <span className="opacity-60"> / min {formatQuantity(item.minQuantity, item.unit)}</span>
+                {item.locationId && <span className="opacity-50 ml-3">{item.locationId}</span>}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+      {items.length > COLLAPSED_ITEM_COUNT && (
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="mt-2 text-sm text-[var(--color-fg)] opacity-70 hover:opacity-100 hover:underline"
+        >
+          {isExpanded ? 'Show fewer' : `Show all ${items.length}`}
+        </button>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,46 @@
+import { Button } from './ui';
+
+export interface PaginationFooterProps {
+  loadedCount: number;
+  totalCount: number;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
+  sentinelRef: (node: HTMLElement | null) => (() => void) | undefined;
+  noun?: string;
+}
+
+/**
+ * Shows how many results are loaded and loads more when scrolled into view. The button is a
+ * fallback for when scrolling can't trigger it, such as after a failed page.
+ */
+export function PaginationFooter({
+  loadedCount,
+  totalCount,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  sentinelRef,
+  noun = 'results',
+}: PaginationFooterProps) {
+  if (loadedCount === 0) {
+    return null;
+  }
+
+  return (
+    <div ref={sentinelRef} className="flex flex-col items-center gap-2 py-4 text-sm text-[var(--color-fg)]">
+      <span className="opacity-60">
+        Showing {loadedCount} of {totalCount} {noun}
+      </span>
+      {hasMore && (
+        isLoadingMore ? (
+          <span className="opacity-70">Loading more...</span>
+        ) : (
+          <Button type="button" variant="ghost" onClick={onLoadMore}>
+            Load more
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { IconFingerprint, IconTrash } from '@tabler/icons-react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import { Button, ConfirmationModal, IconButton, Input } from './ui';
+import { isPasskeyCancelled, isPasskeySupported, registerPasskey } from '../services/passkeys';
+import toast from 'react-hot-toast';
+
+type Passkey = components['schemas']['Passkey'];
+
+/** The passkeys of the signed in user, with a way to add one on this device and remove the ones that are no longer used. */
+export function PasskeysPanel() {
+  const [passkeys, setPasskeys] = useState<Passkey[] | null>(null);
+  const [name, setName] = useState<string>('');
+  const [isRegistering, setIsRegistering] = useState<boolean>(false);
+  const [removingPasskey, setRemovingPasskey] = useState<Passkey | null>(null);
+  const [isRemoving, setIsRemoving] = useState<boolean>(false);
+  const [reloadCount, setReloadCount] = useState<number>(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    unwrapResponse<Passkey[]>(apiClient.GET('/api/Passkey', { signal: controller.signal }))
+      .then((data) => setPasskeys(data || []))
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load passkeys:', error);
+        setPasskeys([]);
+      });
+    return () => controller.abort();
+  }, [reloadCount]);
+
+  const reloadPasskeys = () => setReloadCount((count) => count + 1);
+
+  const handleRegister = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault();
+
+    setIsRegistering(true);
+    try {
+      await registerPasskey(name);
+      setName('');
+      toast.success('Passkey added');
+      reloadPasskeys();
+    } catch (error) {
+      if (!isPasskeyCancelled(error)) {
+        console.error('Failed to add passkey:', error);
+        toast.error(error instanceof Error ? error.message || 'Failed to add passkey' : 'Failed to add passkey');
+      }
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  const handleRemove = async (): Promise<void> => {
+    const id = removingPasskey?.id;
+    if (!id) return;
+
+    setIsRemoving(true);
+    try {
+      const response = await apiClient.DELETE('/api/Passkey/{id}', {
+        params: {
+          path: {
+            id,
+          },
+        },
+      });
+
+      if (response.response.status === 403) {
+        throw new Error('You lack the required privileges to perform this action');
+      }
+      if (!response.response.ok) {
+        throw new Error('Failed to remove passkey');
+      }
+
+      setRemovingPasskey(null);
+      toast.success('Passkey removed');
+      reloadPasskeys();
+    } catch (error) {
+      console.error('Failed to remove passkey:', error);
+      toast.error(error instanceof Error ? error.message || 'Failed to remove passkey' : 'Failed to remove passkey');
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  if (passkeys === null) {
+    return (
+      <div className="text-[var(--color-fg)] opacity-60 text-sm">
+        Loading passkeys...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {passkeys.length === 0 ? (
+        <div className="text-[var(--color-fg)] opacity-60 text-sm">
+          No passkeys yet. Add one to sign in on this device without a password.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {passkeys.map((passkey) => (
+            <div key={passkey.id} className="flex items-center gap-2">
+              <div className="flex-1 min-w-0">
+                <div className="text-[var(--color-fg)] text-sm font-medium truncate">
+                  {passkey.name || 'Passkey'}
+                </div>
+                <div className="text-[var(--color-fg)] opacity-50 text-xs truncate">
+                  Added {passkey.createdAt ? new Date(passkey.createdAt).toLocaleDateString() : 'unknown'}
+                  {' · '}
+                  {passkey.lastUsedAt ? `last used ${new Date(passkey.lastUsedAt).toLocaleString()}` : 'never used'}
+                </div>
+              </div>
+              <IconButton
+                variant="danger"
+                size="sm"
+                onClick={() => setRemovingPasskey(passkey)}
+                aria-label={`Remove passkey ${passkey.name || ''}`.trim()}
+              >
+                <IconTrash size={16} />
+              </IconButton>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isPasskeySupported() ? (
+        <form onSubmit={handleRegister} className="flex flex-col md:flex-row gap-2 md:items-end">
+          <div className="flex-1">
+            <Input
+              label="Device name"
+              placeholder="e.g. My phone"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={255}
+              disabled={isRegistering}
+              autoComplete="off"
+            />
+          </div>
+          <Button
+            type="submit"
+            variant="outlinePrimary"
+            loading={isRegistering}
+            disabled={isRegistering}
+            icon={<IconFingerprint size={20} />}
+          >
+            Add Passkey
+          </Button>
+        </form>
+      ) : (
+        <div className="text-[var(--color-fg)] opacity-60 text-sm">
+          This browser does not support passkeys.
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={removingPasskey !== null}
+        onClose={() => setRemovingPasskey(null)}
+        onConfirm={handleRemove}
+        title="Remove Passkey"
+        message={`Remove the passkey "${removingPasskey?.name || 'Passkey'}"? It can no longer be used to sign in.`}
+        confirmText="Remove"
+        variant="danger"
+        isLoading={isRemoving}
+      />
+    </div>
+  );
+}
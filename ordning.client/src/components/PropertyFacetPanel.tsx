@@ -0,0 +1,53 @@
+import type { components } from '../types/api';
+import { hasPropertyFilter, type PropertyFilter } from '../services/propertyFilters';
+
+type PropertyFacet = components['schemas']['PropertyFacet'];
+
+interface PropertyFacetPanelProps {
+  facets: PropertyFacet[];
+  activeFilters: PropertyFilter[];
+  onToggleFilter: (key: string, value: string) => void;
+}
+
+export function PropertyFacetPanel({ facets, activeFilters, onToggleFilter }: PropertyFacetPanelProps) {
+  if (facets.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      {facets.map((facet) => {
+        const key = facet.key || '';
+        return (
+          <div key={key}>
+            <div className="flex items-center justify-between text-[var(--color-fg)] text-sm font-medium mb-1">
+              <span className="truncate">{key}</span>
+              <span className="opacity-50 shrink-0 ml-2">{facet.itemCount ?? 0}</span>
+            </div>
+            <div className="space-y-1">
+              {(facet.values || []).map((facetValue) => {
+                const value = facetValue.value ?? '';
+                const isActive = hasPropertyFilter(activeFilters, key, value);
+                return (
+                  <label
+                    key={value}
+                    className="flex items-center gap-2 text-sm text-[var(--color-fg)] cursor-pointer opacity-80 hover:opacity-100"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={isActive}
+                      onChange={() => onToggleFilter(key, value)}
+                      className="w-4 h-4 shrink-0 cursor-pointer accent-[var(--brand-color-light)]"
+                    />
+                    <span className="flex-1 truncate">{value || '(empty)'}</span>
+                    <span className="opacity-50 shrink-0">{facetValue.itemCount ?? 0}</span>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
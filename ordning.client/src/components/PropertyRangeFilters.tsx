@@ -0,0 +1,87 @@
+import { useState, type ChangeEvent, type FocusEvent, type KeyboardEvent } from 'react';
+import type { components } from '../types/api';
+import { getPropertyType, type PropertyRange } from '../services/propertyDefinitions';
+
+type PropertyDefinition = components['schemas']['PropertyDefinition'];
+
+interface PropertyRangeFiltersProps {
+  /** Number and date definitions to show range inputs for. */
+  definitions: PropertyDefinition[];
+  activeRanges: PropertyRange[];
+  onChangeRange: (key: string, min: string, max: string) => void;
+}
+
+interface RangeInputsProps {
+  definition: PropertyDefinition;
+  range: PropertyRange | undefined;
+  onChangeRange: (key: string, min: string, max: string) => void;
+}
+
+/** Min and max inputs for one property. Number bounds apply when the input loses focus or Enter is pressed, so each keystroke doesn't search. */
+function RangeInputs({ definition, range, onChangeRange }: RangeInputsProps) {
+  const key = definition.key || '';
+  const isDate = getPropertyType(definition) === 'date';
+  const [min, setMin] = useState<string>(range?.min || '');
+  const [max, setMax] = useState<string>(range?.max || '');
+
+  const apply = (newMin: string, newMax: string) => {
+    if (newMin !== (range?.min || '') || newMax !== (range?.max || '')) {
+      onChangeRange(key, newMin.replace(',', '.'), newMax.replace(',', '.'));
+    }
+  };
+
+  const inputClassName = 'w-full min-w-0 px-2 py-1 rounded-md bg-[var(--elevation-level-3-dark)] text-[var(--color-fg)] text-sm border border-[var(--color-border)] focus:outline-none focus:border-[var(--elevation-level-4-dark)]';
+  const inputProps = (value: string, setValue: (value: string) => void, label: string, onCommit: (value: string) => void) => ({
+    type: isDate ? 'date' : 'text',
+    inputMode: isDate ? undefined : 'decimal' as const,
+    value,
+    placeholder: label,
+    'aria-label': `${definition.name || key} ${label.toLowerCase()}`,
+    className: inputClassName,
+    onChange: (e: ChangeEvent<HTMLInputElement>) => {
+      setValue(e.target.value);
+      // A date picker has no typing in progress, so its value can apply right away
+      if (isDate) onCommit(e.target.value);
+    },
+    onBlur: (e: FocusEvent<HTMLInputElement>) => onCommit(e.target.value),
+    onKeyDown: (e: KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === 'Enter') onCommit(e.currentTarget.value);
+    },
+  });
+
+  return (
+    <div>
+      <div className="text-[var(--color-fg)] text-sm font-medium mb-1 truncate">
+        {definition.name || key}{definition.unit ? ` (${definition.unit})` : ''}
+      </div>
+      <div className="flex items-center gap-1">
+        <input {...inputProps(min, setMin, 'Min', (value) => apply(value, max))} />
+        <span className="text-[var(--color-fg)] opacity-50 text-sm">–</span>
+        <input {...inputProps(max, setMax, 'Max', (value) => apply(min, value))} />
+      </div>
+    </div>
+  );
+}
+
+export function PropertyRangeFilters({ definitions, activeRanges, onChangeRange }: PropertyRangeFiltersProps) {
+  if (definitions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {definitions.map((definition) => {
+        const range = activeRanges.find((activeRange) => activeRange.key === definition.key);
+        // Keyed by the applied bounds so the inputs start over when the range changes elsewhere, such as a removed chip
+        return (
+          <RangeInputs
+            key={`${definition.key}=${range?.min ?? ''}..${range?.max ?? ''}`}
+            definition={definition}
+            range={range}
+            onChangeRange={onChangeRange}
+          />
+        );
+      })}
+    </div>
+  );
+}
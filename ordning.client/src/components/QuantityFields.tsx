@@ -0,0 +1,58 @@
+import { Input } from './ui';
+import type { QuantityFormErrors, QuantityFormValues } from '../services/quantity';
+
+export interface QuantityFieldsProps {
+  values: QuantityFormValues;
+  onChange: (values: QuantityFormValues) => void;
+  errors?: QuantityFormErrors;
+  disabled?: boolean;
+}
+
+/** Quantity, unit and low-stock minimum inputs for the item forms. Leaving the quantity empty keeps the item a single thing. */
+export function QuantityFields({ values, onChange, errors = {}, disabled = false }: QuantityFieldsProps) {
+  return (
+    <div className="space-y-1.5">
+      <label className="text-sm font-medium text-[var(--color-fg)]">
+        Quantity (optional)
+      </label>
+      <div className="flex gap-2 items-start">
+        <Input
+          id="item-quantity"
+          type="text"
+          inputMode="decimal"
+          placeholder="Quantity"
+          aria-label="Quantity"
+          value={values.quantity}
+          onChange={(e) => onChange({ ...values, quantity: e.target.value })}
+          error={errors.quantity}
+          disabled={disabled}
+          autoComplete="off"
+        />
+        <Input
+          id="item-unit"
+          type="text"
+          placeholder="Unit, e.g. pcs or m"
+          aria-label="Unit"
+          value={values.unit}
+          onChange={(e) => onChange({ ...values, unit: e.target.value })}
+          maxLength={32}
+          disabled={disabled}
+          autoComplete="off"
+        />
+        <Input
+          id="item-min-quantity"
+          type="text"
+          inputMode="decimal"
+          placeholder="Low stock below"
+          aria-label="Low stock below"
+          title="Shown as low on stock when the quantity drops below this"
+          value={values.minQuantity}
+          onChange={(e) => onChange({ ...values, minQuantity: e.target.value })}
+          error={errors.minQuantity}
+          disabled={disabled}
+          autoComplete="off"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { IconFingerprint, IconLogin } from '@tabler/icons-react';
+import { Button, Input, Modal } from './ui';
+import { isPasskeyCancelled, isPasskeySupported } from '../services/passkeys';
+
+export interface ReLoginModalProps {
+  username: string;
+  onSignIn: (username: string, password: string) => Promise<void>;
+  onPasskeySignIn?: () => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Asks the user to sign in again when the session could not be renewed. The page stays as it is
+ * behind the dialog, and the requests that failed are sent again once the user has signed in.
+ * Signing in as someone else is rejected by onSignIn, so the user either signs in as the same user or signs out.
+ * Mount it when the dialog should open.
+ */
+export function ReLoginModal({ username: initialUsername, onSignIn, onPasskeySignIn, onCancel }: ReLoginModalProps) {
+  const [username, setUsername] = useState<string>(initialUsername);
+  const [password, setPassword] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  const [isSigningIn, setIsSigningIn] = useState<boolean>(false);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault();
+    if (!username.trim() || !password) {
+      return;
+    }
+
+    setError('');
+    setIsSigningIn(true);
+    try {
+      await onSignIn(username, password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed. Please try again.');
+      setIsSigningIn(false);
+    }
+  };
+
+  const handlePasskey = async (): Promise<void> => {
+    if (!onPasskeySignIn) return;
+
+    setError('');
+    setIsSigningIn(true);
+    try {
+      await onPasskeySignIn();
+    } catch (err) {
+      if (!isPasskeyCancelled(err)) {
+        setError(err instanceof Error ? err.message : 'Sign in with passkey failed');
+      }
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onCancel} title="Session Expired" className="max-w-md">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-[var(--color-fg)] opacity-70">
+          Your session has expired. Sign in again to continue where you left off.
+        </p>
+        {!initialUsername && (
+          <Input
+            label="Username"
+            id="relogin-username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            disabled={isSigningIn}
+            autoComplete="username"
+          />
+        )}
+        <Input
+          label="Password"
+          id="relogin-password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          disabled={isSigningIn}
+          autoComplete="current-password"
+          autoFocus
+          error={error || undefined}
+        />
+        <div className="flex gap-3 justify-end pt-2">
+          <Button type="button" variant="secondary" onClick={onCancel} disabled={isSigningIn}>
+            Sign Out
+          </Button>
+          {onPasskeySignIn && isPasskeySupported() && (
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => void handlePasskey()}
+              disabled={isSigningIn}
+              icon={<IconFingerprint size={16} />}
+            >
+              Use Passkey
+            </Button>
+          )}
+          <Button
+            type="submit"
+            variant="primary"
+            loading={isSigningIn}
+            disabled={!username.trim() || !password}
+            icon={!isSigningIn ? <IconLogin size={16} /> : undefined}
+          >
+            Sign In
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,122 @@
+import { useMemo, useRef, useState, type KeyboardEvent } from 'react';
+import { Input } from './ui';
+import {
+  applySearchSuggestion,
+  getSearchSuggestions,
+  type SearchSuggestion,
+  type SearchSuggestionContext,
+} from '../services/searchQuery';
+
+export interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  suggestionContext: SearchSuggestionContext;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Search input that suggests filter keys and values for the token at the cursor.
+ * Arrow keys move through the suggestions, Enter or Tab accepts one and Escape hides them.
+ */
+export function SearchQueryInput({ value, onChange, suggestionContext, placeholder, className }: SearchQueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState<number>(value.length);
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [highlightedIndex, setHighlightedIndex] = useState<number>(0);
+
+  const suggestions = useMemo(
+    () => getSearchSuggestions(value, cursor, suggestionContext),
+    [value, cursor, suggestionContext],
+  );
+  const showSuggestions = isOpen && suggestions.suggestions.length > 0;
+
+  const updateCursor = () => {
+    setCursor(inputRef.current?.selectionStart ?? value.length);
+  };
+
+  const acceptSuggestion = (suggestion: SearchSuggestion) => {
+    const next = applySearchSuggestion(value, suggestions, suggestion);
+    onChange(next.query);
+    setCursor(next.cursor);
+    setHighlightedIndex(0);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(next.cursor, next.cursor);
+    });
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) {
+      return;
+    }
+
+    const count = suggestions.suggestions.length;
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setHighlightedIndex((index) => (index + 1) % count);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setHighlightedIndex((index) => (index - 1 + count) % count);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      acceptSuggestion(suggestions.suggestions[Math.min(highlightedIndex, count - 1)]);
+    } else if (event.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative w-full">
+      <Input
+        ref={inputRef}
+        type="text"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCursor(e.target.selectionStart ?? e.target.value.length);
+          setHighlightedIndex(0);
+          setIsOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={updateCursor}
+        onClick={updateCursor}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        className={className}
+        autoComplete="off"
+        spellCheck={false}
+        role="combobox"
+        aria-expanded={showSuggestions}
+        aria-autocomplete="list"
+      />
+      {showSuggestions && (
+        <ul
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-1 z-20 max-h-72 overflow-y-auto rounded-md border border-[var(--color-border)] bg-[var(--elevation-level-3-dark)] shadow-lg py-1"
+        >
+          {suggestions.suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.insertText}
+              role="option"
+              aria-selected={index === highlightedIndex}
+              // Keep focus in the input so the blur handler doesn't close the list before the click lands
+              onMouseDown={(e) => {
+                e.preventDefault();
+                acceptSuggestion(suggestion);
+              }}
+              onMouseEnter={() => setHighlightedIndex(index)}
+              className={`flex items-center justify-between gap-4 px-4 py-2 text-sm cursor-pointer text-[var(--color-fg)] ${
+                index === highlightedIndex ? 'bg-[var(--elevation-level-4-dark)]' : ''
+              }`}
+            >
+              <span className="font-mono truncate">{suggestion.label}</span>
+              {suggestion.detail && <span className="opacity-60 truncate">{suggestion.detail}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
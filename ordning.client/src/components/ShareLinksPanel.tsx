@@ -0,0 +1,203 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { IconCopy, IconLink, IconLinkOff } from '@tabler/icons-react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import { Button, ConfirmationModal, IconButton, Input, Select } from './ui';
+import { SHARE_LINK_DURATIONS, getShareUrl } from '../services/shareLinks';
+import toast from 'react-hot-toast';
+
+type ShareLink = components['schemas']['ShareLink'];
+
+export interface ShareLinksPanelProps {
+  /** Only lists the links for this location and lets admins make new ones for it. Lists every link in the workspace when left out. */
+  locationId?: string;
+}
+
+/** The share links of the current workspace that still work, with a way to copy and revoke them. Only for workspace admins. */
+export function ShareLinksPanel({ locationId }: ShareLinksPanelProps) {
+  const [shareLinks, setShareLinks] = useState<ShareLink[] | null>(null);
+  const [label, setLabel] = useState<string>('');
+  const [expiresInHours, setExpiresInHours] = useState<number>(SHARE_LINK_DURATIONS[0].hours);
+  const [isCreating, setIsCreating] = useState<boolean>(false);
+  const [revokingLink, setRevokingLink] = useState<ShareLink | null>(null);
+  const [isRevoking, setIsRevoking] = useState<boolean>(false);
+  const [reloadCount, setReloadCount] = useState<number>(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    unwrapResponse<ShareLink[]>(apiClient.GET('/api/Share', { signal: controller.signal }))
+      .then((data) => setShareLinks(data || []))
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load share links:', error);
+        setShareLinks([]);
+      });
+    return () => controller.abort();
+  }, [reloadCount]);
+
+  const reloadShareLinks = () => setReloadCount((count) => count + 1);
+
+  const copyLink = async (shareLink: ShareLink): Promise<void> => {
+    if (!shareLink.token) return;
+
+    try {
+      await navigator.clipboard.writeText(getShareUrl(shareLink.token));
+      toast.success('Link copied');
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+      toast.error('Failed to copy link');
+    }
+  };
+
+  const handleCreate = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault();
+    if (!locationId) return;
+
+    setIsCreating(true);
+    try {
+      const shareLink = await unwrapResponse<ShareLink>(apiClient.POST('/api/Share', {
+        body: { locationId, label: label.trim() || null, expiresInHours },
+      }));
+      setLabel('');
+      reloadShareLinks();
+      await copyLink(shareLink);
+    } catch (error) {
+      console.error('Failed to create share link:', error);
+      toast.error(error instanceof Error ? error.message || 'Failed to create link' : 'Failed to create link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (): Promise<void> => {
+    const id = revokingLink?.id;
+    if (!id) return;
+
+    setIsRevoking(true);
+    try {
+      const response = await apiClient.DELETE('/api/Share/{id}', {
+        params: {
+          path: {
+            id,
+          },
+        },
+      });
+
+      if (response.response.status === 403) {
+        throw new Error('You lack the required privileges to perform this action');
+      }
+      if (!response.response.ok) {
+        throw new Error('Failed to revoke link');
+      }
+
+      setRevokingLink(null);
+      toast.success('Link revoked');
+      reloadShareLinks();
+    } catch (error) {
+      console.error('Failed to revoke share link:', error);
+      toast.error(error instanceof Error ? error.message || 'Failed to revoke link' : 'Failed to revoke link');
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  if (shareLinks === null) {
+    return (
+      <div className="text-[var(--color-fg)] opacity-60 text-sm">
+        Loading share links...
+      </div>
+    );
+  }
+
+  const visibleLinks = locationId ? shareLinks.filter((shareLink) => shareLink.locationId === locationId) : shareLinks;
+
+  return (
+    <div className="space-y-3">
+      {visibleLinks.length === 0 ? (
+        <div className="text-[var(--color-fg)] opacity-60 text-sm">
+          No active share links
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {visibleLinks.map((shareLink) => (
+            <div key={shareLink.id} className="flex items-center gap-2">
+              <div className="flex-1 min-w-0">
+                <div className="text-[var(--color-fg)] text-sm font-medium truncate">
+                  {shareLink.label || (locationId ? 'Share link' : shareLink.locationName)}
+                </div>
+                <div className="text-[var(--color-fg)] opacity-50 text-xs truncate">
+                  {!locationId && shareLink.label && `${shareLink.locationName} · `}
+                  Works until {shareLink.expiresAt ? new Date(shareLink.expiresAt).toLocaleString() : 'unknown'}
+                  {shareLink.createdBy && ` · made by ${shareLink.createdBy}`}
+                </div>
+              </div>
+              <IconButton
+                size="sm"
+                onClick={() => void copyLink(shareLink)}
+                aria-label={`Copy link${shareLink.label ? ` for ${shareLink.label}` : ''}`}
+              >
+                <IconCopy size={16} />
+              </IconButton>
+              <IconButton
+                variant="danger"
+                size="sm"
+                onClick={() => setRevokingLink(shareLink)}
+                aria-label={`Revoke link${shareLink.label ? ` for ${shareLink.label}` : ''}`}
+              >
+                <IconLinkOff size={16} />
+              </IconButton>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {locationId && (
+        <form onSubmit={handleCreate} className="flex flex-col md:flex-row gap-2 md:items-end">
+          <div className="flex-1">
+            <Input
+              label="Who is it for?"
+              placeholder="e.g. Babysitter"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              maxLength={255}
+              disabled={isCreating}
+              autoComplete="off"
+            />
+          </div>
+          <div className="md:w-32">
+            <Select
+              aria-label="How long the link works"
+              value={expiresInHours}
+              onChange={(e) => setExpiresInHours(Number(e.target.value))}
+              disabled={isCreating}
+            >
+              {SHARE_LINK_DURATIONS.map((duration) => (
+                <option key={duration.hours} value={duration.hours}>{duration.label}</option>
+              ))}
+            </Select>
+          </div>
+          <Button
+            type="submit"
+            variant="outlinePrimary"
+            loading={isCreating}
+            disabled={isCreating}
+            icon={<IconLink size={20} />}
+          >
+            Create Link
+          </Button>
+        </form>
+      )}
+
+      <ConfirmationModal
+        isOpen={revokingLink !== null}
+        onClose={() => setRevokingLink(null)}
+        onConfirm={handleRevoke}
+        title="Revoke Share Link"
+        message={`Revoke the link${revokingLink?.label ? ` for ${revokingLink.label}` : ''} to "${revokingLink?.locationName}"? It stops working at once.`}
+        confirmText="Revoke"
+        variant="danger"
+        isLoading={isRevoking}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { IconCloudCheck, IconCloudOff, IconCloudUpload, IconRefresh } from '@tabler/icons-react';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { replayQueuedMutations } from '../services/syncService';
+
+export function SyncIndicator() {
+  const { isOnline, isSyncing, pendingCount } = useSyncStatus();
+
+  let icon = <IconCloudCheck size={18} />;
+  let label = 'All changes synced';
+  let colorClass = 'opacity-60';
+
+  if (isSyncing) {
+    icon = <IconRefresh size={18} className="animate-spin" />;
+    label = `Syncing ${pendingCount} change${pendingCount === 1 ? '' : 's'}`;
+    colorClass = 'text-[var(--brand-color-light)]';
+  } else if (!isOnline) {
+    icon = <IconCloudOff size={18} />;
+    label = pendingCount > 0 ? `Offline, ${pendingCount} change${pendingCount === 1 ? '' : 's'} pending` : 'Offline';
+    colorClass = 'text-[var(--dark-warning-color)]';
+  } else if (pendingCount > 0) {
+    icon = <IconCloudUpload size={18} />;
+    label = `${pendingCount} change${pendingCount === 1 ? '' : 's'} pending, tap to sync`;
+    colorClass = 'text-[var(--brand-color-light)]';
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => void replayQueuedMutations()}
+      disabled={!isOnline || isSyncing || pendingCount === 0}
+      title={label}
+      aria-label={label}
+      className={`relative inline-flex items-center justify-center rounded-full p-2 text-[var(--color-fg)] transition-all disabled:cursor-default ${colorClass}`}
+    >
+      {icon}
+      {pendingCount > 0 && (
+        <span className="absolute -top-0.5 -right-0.5 min-w-[1rem] h-4 px-1 rounded-full bg-[var(--brand-color-light)] text-[10px] leading-4 font-semibold text-white text-center">
+          {pendingCount}
+        </span>
+      )}
+    </button>
+  );
+}
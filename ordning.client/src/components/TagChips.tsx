@@ -0,0 +1,29 @@
+import { Link } from 'react-router-dom';
+import { IconTag } from '@tabler/icons-react';
+
+interface TagChipsProps {
+  tags: string[] | null | undefined;
+  className?: string;
+}
+
+/** The tags of an item or a location, each linking to everything else with the same tag. */
+export function TagChips({ tags, className = '' }: TagChipsProps) {
+  if (!tags || tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`flex flex-wrap gap-2 ${className}`}>
+      {tags.map((tag) => (
+        <Link
+          key={tag}
+          to={`/tags/${encodeURIComponent(tag)}`}
+          className="flex items-center gap-1 rounded-full border border-[var(--color-border)] bg-[var(--elevation-level-2-dark)] px-3 py-1 text-sm text-[var(--color-fg)] hover:bg-[var(--elevation-level-3-dark)]"
+        >
+          <IconTag size={14} className="opacity-70" />
+          {tag}
+        </Link>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useMemo, useRef, useState, type KeyboardEvent } from 'react';
+import { IconTag, IconX } from '@tabler/icons-react';
+import type { components } from '../types/api';
+import { MAX_TAG_LENGTH, addTag, getTagSuggestions, removeTag } from '../services/tags';
+
+type Tag = components['schemas']['Tag'];
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  /** The tags in use, for suggestions and for spelling new tags like existing ones. */
+  knownTags: Tag[];
+  disabled?: boolean;
+}
+
+/**
+ * Chip input for the tags of an item or a location. Enter or a comma adds the typed tag, arrow keys
+ * move through the suggestions and Backspace in an empty input removes the last tag.
+ */
+export function TagEditor({ tags, onChange, knownTags, disabled = false }: TagEditorProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState<string>('');
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [highlightedIndex, setHighlightedIndex] = useState<number>(-1);
+
+  const suggestions = useMemo(() => getTagSuggestions(knownTags, text, tags), [knownTags, text, tags]);
+  const showSuggestions = isOpen && suggestions.length > 0;
+
+  const commit = (tag: string) => {
+    onChange(addTag(tags, tag, knownTags));
+    setText('');
+    setHighlightedIndex(-1);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter' || event.key === ',') {
+      // Enter would otherwise submit the form the editor is in
+      event.preventDefault();
+      commit(showSuggestions && highlightedIndex >= 0 ? suggestions[highlightedIndex] : text);
+    } else if (event.key === 'Backspace' && !text && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    } else if (showSuggestions && event.key === 'ArrowDown') {
+      event.preventDefault();
+      setHighlightedIndex((index) => (index + 1) % suggestions.length);
+    } else if (showSuggestions && event.key === 'ArrowUp') {
+      event.preventDefault();
+      setHighlightedIndex((index) => (index <= 0 ? suggestions.length : index) - 1);
+    } else if (event.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 w-full">
+      <label htmlFor="tags" className="text-sm font-medium text-[var(--color-fg)]">
+        Tags
+      </label>
+      <div className="relative">
+        <div
+          className="flex flex-wrap items-center gap-2 w-full px-3 py-2 rounded-md bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] focus-within:border-[var(--elevation-level-4-dark)]"
+          onClick={() => inputRef.current?.focus()}
+        >
+          {tags.map((tag) => (
+            <span
+              key={tag.toLowerCase()}
+              className="flex items-center gap-1 rounded-full border border-[var(--color-border)] bg-[var(--elevation-level-3-dark)] px-3 py-1 text-sm text-[var(--color-fg)]"
+            >
+              <IconTag size={14} className="opacity-70" />
+              {tag}
+              <button
+                type="button"
+                onClick={() => onChange(removeTag(tags, tag))}
+                disabled={disabled}
+                className="opacity-70 hover:opacity-100 disabled:cursor-not-allowed"
+                aria-label={`Remove tag ${tag}`}
+              >
+                <IconX size={14} />
+              </button>
+            </span>
+          ))}
+          <input
+            ref={inputRef}
+            id="tags"
+            type="text"
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              setHighlightedIndex(-1);
+              setIsOpen(true);
+            }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setIsOpen(true)}
+            onBlur={() => {
+              setIsOpen(false);
+              // A tag that was typed but not confirmed is kept rather than silently dropped
+              if (text.trim()) commit(text);
+            }}
+            placeholder={tags.length === 0 ? 'Add tags, e.g. winter or borrowed' : ''}
+            maxLength={MAX_TAG_LENGTH}
+            disabled={disabled}
+            autoComplete="off"
+            role="combobox"
+            aria-expanded={showSuggestions}
+            aria-autocomplete="list"
+            className="flex-1 min-w-[8rem] py-1 bg-transparent text-[var(--color-fg)] placeholder:text-[var(--color-fg)] placeholder:opacity-50 focus:outline-none disabled:cursor-not-allowed"
+          />
+        </div>
+        {showSuggestions && (
+          <ul
+            role="listbox"
+            className="absolute left-0 right-0 top-full mt-1 z-20 max-h-72 overflow-y-auto rounded-md border border-[var(--color-border)] bg-[var(--elevation-level-3-dark)] shadow-lg py-1"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion}
+                role="option"
+                aria-selected={index === highlightedIndex}
+                // Keep focus in the input so the blur handler doesn't add the typed text instead
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  commit(suggestion);
+                }}
+                onMouseEnter={() => setHighlightedIndex(index)}
+                className={`px-4 py-2 text-sm cursor-pointer text-[var(--color-fg)] ${
+                  index === highlightedIndex ? 'bg-[var(--elevation-level-4-dark)]' : ''
+                }`}
+              >
+                {suggestion}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
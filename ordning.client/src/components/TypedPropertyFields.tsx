@@ -0,0 +1,74 @@
+import type { components } from '../types/api';
+import { Input, Select } from './ui';
+import { getPropertyType } from '../services/propertyDefinitions';
+
+type PropertyDefinition = components['schemas']['PropertyDefinition'];
+
+export interface TypedPropertyFieldsProps {
+  definitions: PropertyDefinition[];
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+  errors?: Record<string, string>;
+  disabled?: boolean;
+}
+
+/** One input per property definition for the item forms, picked by the property type. Values are keyed by the defined key. */
+export function TypedPropertyFields({ definitions, values, onChange, errors = {}, disabled = false }: TypedPropertyFieldsProps) {
+  if (definitions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {definitions.map((definition) => {
+        const key = definition.key || '';
+        const value = values[key] ?? '';
+        const label = `${definition.name || key}${definition.unit ? ` (${definition.unit})` : ''}${definition.isRequired ? ' *' : ''}`;
+        const commonProps = {
+          id: `item-property-${key}`,
+          label,
+          error: errors[key],
+          disabled,
+          required: !!definition.isRequired,
+        };
+        const handleChange = (newValue: string) => onChange({ ...values, [key]: newValue });
+
+        switch (getPropertyType(definition)) {
+          case 'boolean':
+          case 'enum': {
+            const options = getPropertyType(definition) === 'boolean'
+              ? [{ value: 'true', label: 'Yes' }, { value: 'false', label: 'No' }]
+              : (definition.options || []).map((option) => ({ value: option, label: option }));
+            return (
+              <Select key={key} {...commonProps} value={value} onChange={(e) => handleChange(e.target.value)}>
+                <option value="">{definition.isRequired ? 'Choose...' : 'Not set'}</option>
+                {/* Keep a stored value that is no longer an option visible, so saving doesn't silently drop it */}
+                {value && !options.some((option) => option.value === value) && (
+                  <option value={value}>{value}</option>
+                )}
+                {options.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </Select>
+            );
+          }
+          default: {
+            const type = getPropertyType(definition);
+            return (
+              <Input
+                key={key}
+                {...commonProps}
+                type={type === 'date' ? 'date' : type === 'url' ? 'url' : 'text'}
+                inputMode={type === 'number' ? 'decimal' : undefined}
+                placeholder={type === 'url' ? 'https://' : undefined}
+                value={value}
+                onChange={(e) => handleChange(e.target.value)}
+                autoComplete="off"
+              />
+            );
+          }
+        }
+      })}
+    </div>
+  );
+}
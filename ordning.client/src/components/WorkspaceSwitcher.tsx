@@ -0,0 +1,42 @@
+import { IconBuildingCommunity } from '@tabler/icons-react';
+import { useWorkspaces } from '../hooks/useWorkspaces';
+import { setCurrentWorkspaceId } from '../services/workspaces';
+
+/**
+ * Picks the workspace to work in. Everything on screen belongs to the previous workspace, so
+ * switching starts over on the items page.
+ */
+export function WorkspaceSwitcher() {
+  const { workspaces, currentWorkspace } = useWorkspaces();
+  // Global admins also get the workspaces they only manage, which they can't open
+  const memberWorkspaces = workspaces.filter((workspace) => !!workspace.role);
+
+  if (!currentWorkspace || memberWorkspaces.length === 0) {
+    return null;
+  }
+
+  const handleChange = (id: string) => {
+    if (id === currentWorkspace.id) return;
+    setCurrentWorkspaceId(id);
+    window.location.assign('/dashboard');
+  };
+
+  return (
+    <label className="flex items-center gap-1 shrink-0 text-[var(--color-fg)]" title="Workspace">
+      <IconBuildingCommunity size={18} className="opacity-60 shrink-0" />
+      <select
+        value={currentWorkspace.id}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={memberWorkspaces.length < 2}
+        aria-label="Workspace"
+        className="max-w-32 md:max-w-48 truncate px-2 py-1 rounded-md bg-[var(--elevation-level-3-dark)] text-[var(--color-fg)] text-sm border border-[var(--color-border)] focus:outline-none focus:border-[var(--elevation-level-4-dark)] disabled:opacity-100 disabled:cursor-default"
+      >
+        {memberWorkspaces.map((workspace) => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name || 'Unnamed Workspace'}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
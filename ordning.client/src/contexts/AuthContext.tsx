@@ -1,11 +1,40 @@
-import { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
-import { login, saveToken, getToken, getExpiresAt, clearToken, isTokenExpired } from '../services/authService';
+import { createContext, useContext, useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
+import {
+  login,
+  saveSession,
+  getToken,
+  getExpiresAt,
+  getLastUsername,
+  getTokenUserId,
+  rememberUsername,
+  clearToken,
+  isTokenExpired,
+  hasRefreshToken,
+  refreshSession,
+  endSession,
+  getTokenRenewalDelay,
+  onSessionChange,
+  setReLoginHandler,
+  type SessionState,
+} from '../services/authService';
+import { setCurrentWorkspaceId } from '../services/workspaces';
+import { clearOfflineData } from '../services/syncService';
+import { signInWithPasskey } from '../services/passkeys';
+import { ReLoginModal } from '../components/ReLoginModal';
+import type { components } from '../types/api';
+
+type SessionTokens = components['schemas']['SessionTokens'];
 
 interface AuthContextType {
   isAuthenticated: boolean;
   token: string | null;
+  /** When the current access token expires. It is renewed shortly before that while the session is active. */
+  expiresAt: string | null;
+  session: SessionState;
   login: (username: string, password: string) => Promise<void>;
+  loginWithPasskey: () => Promise<void>;
   logout: () => void;
+  renewSession: () => Promise<boolean>;
   isLoading: boolean;
 }
 
@@ -14,7 +43,12 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
   const [token, setToken] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  const [session, setSession] = useState<SessionState>('signedOut');
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [reLoginPrompt, setReLoginPrompt] = useState<((signedIn: boolean) => void) | null>(null);
+  const lastRenewalAttemptRef = useRef<number>(0);
+  const reLoginUserIdRef = useRef<string | null>(null);
 
   useEffect(() => {
     // Check for existing token on mount
@@ -24,7 +58,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     if (storedToken && storedExpiresAt) {
       if (!isTokenExpired()) {
         setToken(storedToken);
+        setExpiresAt(storedExpiresAt);
+        setSession('active');
         setIsAuthenticated(true);
+      } else if (hasRefreshToken()) {
+        // Token expired while the app was closed, renew it before showing anything
+        refreshSession()
+          .then((renewed) => {
+            if (!renewed) {
+              clearToken();
+            }
+          })
+          .finally(() => setIsLoading(false));
+        return;
       } else {
         // Token expired, clear it
         clearToken();
@@ -33,21 +79,104 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setIsLoading(false);
   }, []);
 
+  // Follow renewals and sign outs, including the ones the API client makes
+  useEffect(() => {
+    return onSessionChange((state) => {
+      setSession(state);
+      setToken(getToken());
+      setExpiresAt(getExpiresAt());
+      setIsAuthenticated(state !== 'signedOut');
+    });
+  }, []);
+
+  // Renew the access token shortly before it expires
+  useEffect(() => {
+    if (session !== 'active') {
+      return;
+    }
+
+    const delay = getTokenRenewalDelay(expiresAt, Date.now(), lastRenewalAttemptRef.current);
+    if (delay === null) {
+      return;
+    }
+
+    const timeout = window.setTimeout(() => {
+      lastRenewalAttemptRef.current = Date.now();
+      void refreshSession();
+    }, delay);
+    return () => window.clearTimeout(timeout);
+  }, [session, expiresAt]);
+
+  // Let the API client ask the user to sign in again instead of leaving the page
+  useEffect(() => {
+    setReLoginHandler(() => new Promise<boolean>((resolve) => {
+      reLoginUserIdRef.current = getTokenUserId(getToken());
+      setReLoginPrompt(() => resolve);
+    }));
+    return () => setReLoginHandler(null);
+  }, []);
+
   const handleLogin = async (username: string, password: string): Promise<void> => {
     try {
       const response = await login(username, password);
-      saveToken(response.token, response.expiresAt);
-      setToken(response.token);
-      setIsAuthenticated(true);
+      saveSession(response);
     } catch (error) {
       throw error;
     }
   };
 
+  const handleLoginWithPasskey = async (): Promise<void> => {
+    const response = await signInWithPasskey();
+    rememberUsername(null);
+    saveSession(response);
+  };
+
   const handleLogout = (): void => {
+    void endSession();
     clearToken();
-    setToken(null);
-    setIsAuthenticated(false);
+    // The next user to sign in on this browser may not be a member of the same workspace
+    setCurrentWorkspaceId(null);
+    // Nor may they see the data or send the unsent changes of this user
+    void clearOfflineData();
+  };
+
+  const renewSession = useCallback(() => refreshSession(), []);
+
+  // The requests waiting for the prompt are sent again with the new token, so only the user who was signed in may continue
+  const ensureSameUser = (tokens: SessionTokens): void => {
+    if (getTokenUserId(tokens.token) !== reLoginUserIdRef.current) {
+      void endSession(tokens.refreshToken);
+      throw new Error('That is a different account. Sign in as the same user to continue, or sign out.');
+    }
+  };
+
+  const handleReLogin = async (username: string, password: string): Promise<void> => {
+    const lastUsername = getLastUsername();
+    const response = await login(username, password);
+    try {
+      ensureSameUser(response);
+    } catch (error) {
+      rememberUsername(lastUsername);
+      throw error;
+    }
+
+    saveSession(response);
+    reLoginPrompt?.(true);
+    setReLoginPrompt(null);
+  };
+
+  const handleReLoginWithPasskey = async (): Promise<void> => {
+    const response = await signInWithPasskey();
+    ensureSameUser(response);
+    rememberUsername(null);
+    saveSession(response);
+    reLoginPrompt?.(true);
+    setReLoginPrompt(null);
+  };
+
+  const handleReLoginCancel = (): void => {
+    reLoginPrompt?.(false);
+    setReLoginPrompt(null);
   };
 
   return (
@@ -55,12 +184,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       value={{
         isAuthenticated,
         token,
+        expiresAt,
+        session,
         login: handleLogin,
+        loginWithPasskey: handleLoginWithPasskey,
         logout: handleLogout,
+        renewSession,
         isLoading,
       }}
     >
       {children}
+      {reLoginPrompt && (
+        <ReLoginModal
+          username={getLastUsername() || ''}
+          onSignIn={handleReLogin}
+          onPasskeySignIn={handleReLoginWithPasskey}
+          onCancel={handleReLoginCancel}
+        />
+      )}
     </AuthContext.Provider>
   );
 }
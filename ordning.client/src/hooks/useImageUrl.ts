@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { fetchImageBlob, type ImageVariant } from '../services/images';
+
+interface LoadedImage {
+  key: string;
+  url: string | null;
+}
+
+/**
+ * Object URL for an image fetched with the signed-in user's token, or null while it loads or if
+ * it could not be loaded. The URL is revoked when the image changes or the component unmounts.
+ */
+export function useImageUrl(imageId: string | null | undefined, variant: ImageVariant) {
+  const [loaded, setLoaded] = useState<LoadedImage | null>(null);
+  const key = imageId ? `${imageId}:${variant}` : null;
+
+  useEffect(() => {
+    if (!imageId) return;
+
+    const controller = new AbortController();
+    const loadedKey = `${imageId}:${variant}`;
+    let objectUrl: string | null = null;
+
+    fetchImageBlob(imageId, variant, controller.signal)
+      .then((blob) => {
+        objectUrl = URL.createObjectURL(blob);
+        setLoaded({ key: loadedKey, url: objectUrl });
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load image:', error);
+        setLoaded({ key: loadedKey, url: null });
+      });
+
+    return () => {
+      controller.abort();
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [imageId, variant]);
+
+  const isCurrent = !!loaded && loaded.key === key;
+  return {
+    url: isCurrent ? loaded.url : null,
+    isLoading: !!key && !isCurrent,
+  };
+}
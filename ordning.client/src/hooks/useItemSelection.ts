@@ -0,0 +1,46 @@
+import { useState, useCallback, useMemo } from 'react';
+
+export interface ItemSelection {
+  selectedIds: string[];
+  isSelected: (id: string) => boolean;
+  toggle: (id: string) => void;
+  selectAll: (ids: string[]) => void;
+  clear: () => void;
+}
+
+/**
+ * Tracks which items in a list are checked. Selected IDs that are no longer in the
+ * visible list are dropped, so a new search never acts on hidden items.
+ */
+export function useItemSelection(visibleIds: string[]): ItemSelection {
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+
+  const selectedIds = useMemo(
+    () => visibleIds.filter((id) => checkedIds.has(id)),
+    [visibleIds, checkedIds],
+  );
+
+  const isSelected = useCallback((id: string) => checkedIds.has(id), [checkedIds]);
+
+  const toggle = useCallback((id: string) => {
+    setCheckedIds((previous) => {
+      const next = new Set(previous);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const selectAll = useCallback((ids: string[]) => {
+    setCheckedIds(new Set(ids));
+  }, []);
+
+  const clear = useCallback(() => {
+    setCheckedIds(new Set());
+  }, []);
+
+  return { selectedIds, isSelected, toggle, selectAll, clear };
+}
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+
+type ItemTemplate = components['schemas']['ItemTemplate'];
+
+/**
+ * Loads the item templates, ordered by name. Forms work without them, so a failed request is
+ * only logged and leaves the list empty.
+ */
+export function useItemTemplates(): { templates: ItemTemplate[]; isLoaded: boolean; reload: () => void } {
+  const [templates, setTemplates] = useState<ItemTemplate[]>([]);
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+
+  const load = useCallback((signal?: AbortSignal) => {
+    unwrapResponse<ItemTemplate[]>(apiClient.GET('/api/ItemTemplate', { signal }))
+      .then((data) => {
+        setTemplates(data || []);
+        setIsLoaded(true);
+      })
+      .catch((error) => {
+        if (signal?.aborted) return;
+        console.error('Failed to load item templates:', error);
+        setIsLoaded(true);
+      });
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    load(controller.signal);
+    return () => controller.abort();
+  }, [load]);
+
+  return { templates, isLoaded, reload: useCallback(() => load(), [load]) };
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import type { SearchSuggestionLocation } from '../services/searchQuery';
+
+type Location = components['schemas']['Location'];
+
+/**
+ * Loads all locations once for `in:` suggestions in search inputs. Suggestions are a convenience,
+ * so a failed request is only logged and leaves the list empty.
+ */
+export function useLocationSuggestions(): SearchSuggestionLocation[] {
+  const [locations, setLocations] = useState<SearchSuggestionLocation[]>([]);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    unwrapResponse<Location[]>(apiClient.GET('/api/Location'))
+      .then((data) => {
+        if (!isCancelled) {
+          setLocations(
+            (data || [])
+              .filter((location) => !!location.id)
+              .map((location) => ({ id: location.id || '', name: location.name || '' })),
+          );
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load locations for search suggestions:', error);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  return locations;
+}
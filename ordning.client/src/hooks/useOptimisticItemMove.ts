@@ -0,0 +1,59 @@
+import { useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { apiClient, unwrapMutationResponse } from '../services/apiClient';
+import { moveItemsBack } from '../services/undoActions';
+import { showUndoToast } from '../services/undoToast';
+import type { components } from '../types/api';
+
+type Item = components['schemas']['Item'];
+type Location = components['schemas']['Location'];
+
+export interface OptimisticItemMove {
+  itemIds: string[];
+  location: Location;
+  /** The items as they were before the move, so that Undo can put them back. */
+  previousItems: Item[];
+  /** Shows the move right away. */
+  apply: () => void;
+  /** Puts things back if the server rejects the move. */
+  rollback: () => void;
+}
+
+function pluralizeItems(count: number): string {
+  return `${count} item${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Moves items with `/api/Item/move`, showing the change before the server answers and undoing it
+ * if the request fails. The success toast offers to move the items back. Resolves to whether the
+ * move went through.
+ */
+export function useOptimisticItemMove() {
+  return useCallback(async ({ itemIds, location, previousItems, apply, rollback }: OptimisticItemMove): Promise<boolean> => {
+    if (itemIds.length === 0 || !location.id) {
+      return false;
+    }
+
+    apply();
+    try {
+      const responsePromise = apiClient.POST('/api/Item/move', {
+        body: {
+          itemIds,
+          newLocationId: location.id,
+        },
+      });
+
+      await unwrapMutationResponse<number>(responsePromise);
+      showUndoToast(
+        `Moved ${pluralizeItems(itemIds.length)} to "${location.name || location.id}"`,
+        () => moveItemsBack(previousItems, itemIds),
+      );
+      return true;
+    } catch (error) {
+      rollback();
+      console.error('Failed to move items:', error);
+      toast.error(error instanceof Error && error.message ? error.message : 'Failed to move items');
+      return false;
+    }
+  }, []);
+}
@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import toast from 'react-hot-toast';
+import { createPaginationState, paginationReducer, type Page, type PaginationState } from '../services/pagination';
+
+export type PageFetcher<T> = (offset: number, limit: number, signal: AbortSignal) => Promise<Page<T>>;
+
+export interface PaginatedQueryOptions<T> {
+  getKey: (item: T) => string | null | undefined;
+  pageSize?: number;
+  /** When false, nothing is fetched and the loaded items are cleared. */
+  enabled?: boolean;
+  errorMessage?: string;
+}
+
+export interface PaginatedQuery<T> extends PaginationState<T> {
+  loadMore: () => void;
+  reload: () => void;
+  /** Changes the loaded items in place, for example to show an edit before the server confirms it. */
+  updateItems: (update: (items: T[]) => T[]) => void;
+  /** Attach to an element after the list. More pages load while it is within reach of the viewport. */
+  sentinelRef: (node: HTMLElement | null) => (() => void) | undefined;
+}
+
+/**
+ * Loads an offset-paginated list page by page. A new `fetchPage` (for example because the search
+ * text changed) starts over from the first page and aborts requests for the previous one, so a
+ * slow response can never overwrite newer results. Keep `fetchPage` stable with useCallback.
+ */
+export function usePaginatedQuery<T>(
+  fetchPage: PageFetcher<T>,
+  { getKey, pageSize = 50, enabled = true, errorMessage = 'Failed to load results' }: PaginatedQueryOptions<T>,
+): PaginatedQuery<T> {
+  const [state, dispatch] = useReducer(paginationReducer<T>, undefined, createPaginationState<T>);
+  const controllerRef = useRef<AbortController | null>(null);
+  const isFetchingRef = useRef<boolean>(false);
+  const isSentinelVisibleRef = useRef<boolean>(false);
+  const getKeyRef = useRef(getKey);
+  const loadMoreRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    getKeyRef.current = getKey;
+  }, [getKey]);
+
+  const fetchInto = useCallback(async (offset: number, append: boolean, controller: AbortController) => {
+    isFetchingRef.current = true;
+    try {
+      const page = await fetchPage(offset, pageSize, controller.signal);
+      if (!controller.signal.aborted) {
+        dispatch({ type: 'pageLoaded', page, append, getKey: getKeyRef.current });
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error(`${errorMessage}:`, error);
+        toast.error(errorMessage);
+        dispatch({ type: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        isFetchingRef.current = false;
+      }
+    }
+  }, [fetchPage, pageSize, errorMessage]);
+
+  const reload = useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    dispatch({ type: 'reset' });
+    fetchInto(0, false, controller);
+  }, [fetchInto]);
+
+  useEffect(() => {
+    if (!enabled) {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+      isFetchingRef.current = false;
+      dispatch({ type: 'clear' });
+      return;
+    }
+
+    reload();
+    return () => controllerRef.current?.abort();
+  }, [enabled, reload]);
+
+  const loadedCount = state.items.length;
+  const { hasMore, error } = state;
+
+  const loadMore = useCallback(() => {
+    const controller = controllerRef.current;
+    if (!controller || isFetchingRef.current || !hasMore) {
+      return;
+    }
+
+    dispatch({ type: 'loadMore' });
+    fetchInto(loadedCount, true, controller);
+  }, [fetchInto, hasMore, loadedCount]);
+
+  useEffect(() => {
+    loadMoreRef.current = loadMore;
+    // A page that doesn't fill the screen leaves the sentinel visible, which fires no new intersection
+    if (isSentinelVisibleRef.current && !error) {
+      loadMore();
+    }
+  }, [loadMore, error]);
+
+  const sentinelRef = useCallback((node: HTMLElement | null) => {
+    if (!node) {
+      return undefined;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      isSentinelVisibleRef.current = entries.some((entry) => entry.isIntersecting);
+      if (isSentinelVisibleRef.current) {
+        loadMoreRef.current();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(node);
+
+    return () => {
+      isSentinelVisibleRef.current = false;
+      observer.disconnect();
+    };
+  }, []);
+
+  const updateItems = useCallback((update: (items: T[]) => T[]) => {
+    dispatch({ type: 'itemsUpdated', update });
+  }, []);
+
+  return { ...state, loadMore, reload, updateItems, sentinelRef };
+}
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+
+type PropertyDefinition = components['schemas']['PropertyDefinition'];
+
+/**
+ * Loads the property definitions for item forms and search. Without them the forms fall back to
+ * free-form properties, so a failed request is only logged and leaves the list empty.
+ */
+export function usePropertyDefinitions(): { definitions: PropertyDefinition[]; isLoaded: boolean; reload: () => void } {
+  const [definitions, setDefinitions] = useState<PropertyDefinition[]>([]);
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+
+  const load = useCallback((signal?: AbortSignal) => {
+    unwrapResponse<PropertyDefinition[]>(apiClient.GET('/api/PropertyDefinition', { signal }))
+      .then((data) => {
+        setDefinitions(data || []);
+        setIsLoaded(true);
+      })
+      .catch((error) => {
+        if (signal?.aborted) return;
+        console.error('Failed to load property definitions:', error);
+        setIsLoaded(true);
+      });
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    load(controller.signal);
+    return () => controller.abort();
+  }, [load]);
+
+  return { definitions, isLoaded, reload: useCallback(() => load(), [load]) };
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getSyncStatus, subscribeToSyncStatus, type SyncStatus } from '../services/syncService';
+
+export function useSyncStatus(): SyncStatus {
+  return useSyncExternalStore(subscribeToSyncStatus, getSyncStatus);
+}
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+
+type Tag = components['schemas']['Tag'];
+
+/**
+ * Loads the tags in use, ordered by name, with how many items and locations have each. Forms only
+ * use them for suggestions, so a failed request is only logged and leaves the list empty.
+ */
+export function useTags(): { tags: Tag[]; isLoaded: boolean; reload: () => void } {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+
+  const load = useCallback((signal?: AbortSignal) => {
+    unwrapResponse<Tag[]>(apiClient.GET('/api/Tag', { signal }))
+      .then((data) => {
+        setTags(data || []);
+        setIsLoaded(true);
+      })
+      .catch((error) => {
+        if (signal?.aborted) return;
+        console.error('Failed to load tags:', error);
+        setIsLoaded(true);
+      });
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    load(controller.signal);
+    return () => controller.abort();
+  }, [load]);
+
+  return { tags, isLoaded, reload: useCallback(() => load(), [load]) };
+}
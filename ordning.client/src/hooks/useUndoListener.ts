@@ -0,0 +1,13 @@
+import { useEffect, useRef } from 'react';
+import { subscribeToUndo } from '../services/undoToast';
+
+/** Calls the listener after every successful undo, typically to reload what the page shows. */
+export function useUndoListener(listener: () => void) {
+  const listenerRef = useRef(listener);
+
+  useEffect(() => {
+    listenerRef.current = listener;
+  });
+
+  useEffect(() => subscribeToUndo(() => listenerRef.current()), []);
+}
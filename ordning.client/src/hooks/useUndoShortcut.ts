@@ -0,0 +1,24 @@
+import { useEffect } from 'react';
+import { undoLatest } from '../services/undoToast';
+
+function isEditingText(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+/** Ctrl+Z (Cmd+Z on a Mac) undoes the latest action while its undo toast would still be up. */
+export function useUndoShortcut() {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() !== 'z' || !(e.ctrlKey || e.metaKey) || e.shiftKey || e.altKey) return;
+      if (isEditingText(e.target)) return;
+
+      if (undoLatest()) {
+        e.preventDefault();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
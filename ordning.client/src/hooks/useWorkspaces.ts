@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import { getCurrentWorkspaceId, pickWorkspace, setCurrentWorkspaceId } from '../services/workspaces';
+import type { components } from '../types/api';
+
+type Workspace = components['schemas']['Workspace'];
+
+/**
+ * Loads the workspaces the user can open, ordered by name, and the one currently worked in. When the
+ * remembered workspace can no longer be opened, another one is picked and remembered instead.
+ */
+export function useWorkspaces(): {
+  workspaces: Workspace[];
+  currentWorkspace: Workspace | undefined;
+  isLoaded: boolean;
+  reload: () => void;
+} {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [currentWorkspace, setCurrentWorkspace] = useState<Workspace | undefined>(undefined);
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+
+  const load = useCallback((signal?: AbortSignal) => {
+    unwrapResponse<Workspace[]>(apiClient.GET('/api/Workspace', { signal }))
+      .then((data) => {
+        const currentId = getCurrentWorkspaceId();
+        const picked = pickWorkspace(data || [], currentId);
+        setCurrentWorkspaceId(picked?.id || null);
+        setWorkspaces(data || []);
+        setCurrentWorkspace(picked);
+        setIsLoaded(true);
+
+        // Data already loaded for a workspace that can't be opened anymore was rejected, so load it again
+        if (currentId && picked?.id && picked.id !== currentId) {
+          window.location.reload();
+        }
+      })
+      .catch((error) => {
+        if (signal?.aborted) return;
+        console.error('Failed to load workspaces:', error);
+        setIsLoaded(true);
+      });
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    load(controller.signal);
+    return () => controller.abort();
+  }, [load]);
+
+  return { workspaces, currentWorkspace, isLoaded, reload: useCallback(() => load(), [load]) };
+}
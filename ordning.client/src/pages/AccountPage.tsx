@@ -1,12 +1,14 @@
 import { useState, useEffect, type FormEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { IconEdit, IconEye, IconEyeOff, IconUserPlus, IconLogout } from '@tabler/icons-react';
+import { IconBuildingCommunity, IconEdit, IconEye, IconEyeOff, IconUserPlus, IconLogout, IconTags, IconTemplate } from '@tabler/icons-react';
 import { apiClient, unwrapResponse } from '../services/apiClient';
 import type { components } from '../types/api';
-import { Input, Button, IconButton } from '../components/ui';
+import { Input, Button, IconButton, Select } from '../components/ui';
 import { Header } from '../components/Header';
 import { IdTag } from '../components/IdTag';
+import { PasskeysPanel } from '../components/PasskeysPanel';
 import { useAuth } from '../contexts/AuthContext';
+import { WORKSPACE_ROLES, WORKSPACE_ROLE_LABELS } from '../services/workspaces';
 import toast from 'react-hot-toast';
 
 type User = components['schemas']['User'];
@@ -40,6 +42,7 @@ export function AccountPage() {
     email: '',
     password: '',
     roles: [],
+    workspaceRole: 'write',
   });
   const [showCreateUserPassword, setShowCreateUserPassword] = useState<boolean>(false);
   const [createUserErrors, setCreateUserErrors] = useState<{
@@ -193,6 +196,7 @@ export function AccountPage() {
         email: createUserData.email?.trim() || null,
         password: createUserData.password?.trim() || null,
         roles: createUserData.roles || null,
+        workspaceRole: createUserData.workspaceRole || 'write',
       };
 
       const responsePromise = apiClient.POST('/api/User', {
@@ -206,6 +210,7 @@ export function AccountPage() {
         email: '',
         password: '',
         roles: [],
+        workspaceRole: 'write',
       });
       setShowCreateUserForm(false);
       setCreateUserErrors({});
@@ -393,6 +398,16 @@ export function AccountPage() {
               </div>
             </div>
 
+            {/* Passkeys */}
+            <div>
+              <div className="text-sm font-medium text-[var(--color-fg)] opacity-70 mb-1">
+                Passkeys
+              </div>
+              <div className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-4">
+                <PasskeysPanel />
+              </div>
+            </div>
+
             {/* Admin Section */}
             {isAdmin && (
               <div>
@@ -450,6 +465,26 @@ export function AccountPage() {
                     </div>
                   )}
 
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={() => navigate('/properties')}
+                    icon={<IconTags size={20} />}
+                    className="w-full md:w-auto"
+                  >
+                    Manage Item Properties
+                  </Button>
+
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={() => navigate('/templates')}
+                    icon={<IconTemplate size={20} />}
+                    className="w-full md:w-auto"
+                  >
+                    Manage Item Templates
+                  </Button>
+
                   {!showCreateUserForm ? (
                     <Button
                       type="button"
@@ -477,6 +512,7 @@ export function AccountPage() {
                               email: '',
                               password: '',
                               roles: [],
+                              workspaceRole: 'write',
                             });
                             setCreateUserErrors({});
                           }}
@@ -536,6 +572,16 @@ export function AccountPage() {
                             <span className="text-sm text-danger-dark mt-1 block">{createUserErrors.password}</span>
                           )}
                         </div>
+                        <Select
+                          label="Role in the current workspace"
+                          value={createUserData.workspaceRole || 'write'}
+                          onChange={(e) => setCreateUserData({ ...createUserData, workspaceRole: e.target.value })}
+                          disabled={isLoadingCreateUser}
+                        >
+                          {WORKSPACE_ROLES.map((role) => (
+                            <option key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</option>
+                          ))}
+                        </Select>
                         <Button
                           type="submit"
                           variant="outlinePrimary"
@@ -553,6 +599,24 @@ export function AccountPage() {
               </div>
             )}
 
+            {/* Workspaces Section */}
+            <div>
+              <div className="text-sm font-medium text-[var(--color-fg)] opacity-70 mb-1">
+                Workspaces
+              </div>
+              <div className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-4">
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={() => navigate('/workspaces')}
+                  icon={<IconBuildingCommunity size={20} />}
+                  className="w-full md:w-auto"
+                >
+                  Manage Workspaces
+                </Button>
+              </div>
+            </div>
+
             {/* Logout Section */}
             <div>
               <div className="text-sm font-medium text-[var(--color-fg)] opacity-70 mb-1">
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import { Select } from '../components/ui';
+import { Header } from '../components/Header';
+import { AuditTimeline } from '../components/AuditTimeline';
+import { PaginationFooter } from '../components/PaginationFooter';
+import { usePaginatedQuery, type PageFetcher } from '../hooks/usePaginatedQuery';
+import { toPage } from '../services/pagination';
+import { AUDIT_ACTIONS, formatAuditAction } from '../services/auditLog';
+
+type AuditEntry = components['schemas']['AuditEntry'];
+type AuditLogResponse = components['schemas']['AuditLogResponse'];
+type AuditUser = components['schemas']['AuditUser'];
+
+const USER_PARAM = 'user';
+const ACTION_PARAM = 'action';
+const TYPE_PARAM = 'type';
+
+export function ActivityPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [users, setUsers] = useState<AuditUser[]>([]);
+
+  const userId = searchParams.get(USER_PARAM) || '';
+  const action = searchParams.get(ACTION_PARAM) || '';
+  const entityType = searchParams.get(TYPE_PARAM) || '';
+
+  useEffect(() => {
+    unwrapResponse<AuditUser[]>(apiClient.GET('/api/Audit/users'))
+      .then((data) => setUsers(data || []))
+      .catch((error) => console.error('Failed to fetch activity users:', error));
+  }, []);
+
+  const fetchActivityPage = useCallback<PageFetcher<AuditEntry>>(async (offset, limit, signal) => {
+    const responsePromise = apiClient.GET('/api/Audit', {
+      params: {
+        query: {
+          userId: userId || undefined,
+          action: action || undefined,
+          entityType: entityType || undefined,
+          offset,
+          limit,
+        },
+      },
+      signal,
+    });
+
+    return toPage(await unwrapResponse<AuditLogResponse>(responsePromise));
+  }, [userId, action, entityType]);
+
+  const activity = usePaginatedQuery(fetchActivityPage, {
+    getKey: (entry) => entry.id,
+    errorMessage: 'Failed to load activity',
+  });
+
+  const setFilter = (name: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(name, value);
+    } else {
+      next.delete(name);
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-[var(--elevation-level-1-dark)]">
+      <Header />
+      <div className="p-4">
+        <div className="max-w-4xl mx-auto">
+          <h1 className="text-2xl font-semibold text-[var(--color-fg)] mb-4">
+            Activity
+          </h1>
+
+          <div className="mb-6 flex flex-col md:flex-row gap-3">
+            <Select
+              value={userId}
+              onChange={(e) => setFilter(USER_PARAM, e.target.value)}
+              aria-label="Filter by user"
+            >
+              <option value="">All users</option>
+              {users.map((user) => (
+                <option key={user.userId} value={user.userId || ''}>
+                  {user.username || 'Deleted user'}
+                </option>
+              ))}
+            </Select>
+            <Select
+              value={action}
+              onChange={(e) => setFilter(ACTION_PARAM, e.target.value)}
+              aria-label="Filter by action"
+            >
+              <option value="">All changes</option>
+              {AUDIT_ACTIONS.map((auditAction) => (
+                <option key={auditAction} value={auditAction}>
+                  {formatAuditAction(auditAction)}
+                </option>
+              ))}
+            </Select>
+            <Select
+              value={entityType}
+              onChange={(e) => setFilter(TYPE_PARAM, e.target.value)}
+              aria-label="Filter by type"
+            >
+              <option value="">Items and locations</option>
+              <option value="item">Items</option>
+              <option value="location">Locations</option>
+            </Select>
+          </div>
+
+          {activity.isLoading ? (
+            <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
+              Loading activity...
+            </div>
+          ) : activity.items.length === 0 ? (
+            <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
+              No activity found
+            </div>
+          ) : (
+            <div className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-4">
+              <AuditTimeline entries={activity.items} showEntity />
+              <PaginationFooter
+                loadedCount={activity.items.length}
+                totalCount={activity.totalCount}
+                hasMore={activity.hasMore}
+                isLoadingMore={activity.isLoadingMore}
+                onLoadMore={activity.loadMore}
+                sentinelRef={activity.sentinelRef}
+                noun="changes"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
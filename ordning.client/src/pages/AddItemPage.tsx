@@ -1,11 +1,22 @@
 import { useState, useEffect, type FormEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { IconArrowLeft, IconPlus, IconX } from '@tabler/icons-react';
-import { apiClient, unwrapResponse } from '../services/apiClient';
+import { apiClient, QUEUED_OFFLINE, unwrapMutationResponse } from '../services/apiClient';
 import type { components } from '../types/api';
-import { Input, Textarea, Button } from '../components/ui';
+import { Input, Textarea, Button, Select } from '../components/ui';
 import { Header } from '../components/Header';
 import { LocationPicker } from '../components/LocationPicker';
+import { ImageUploader, type PendingImage } from '../components/ImageUploader';
+import { QuantityFields } from '../components/QuantityFields';
+import { TagEditor } from '../components/TagEditor';
+import { TypedPropertyFields } from '../components/TypedPropertyFields';
+import { useItemTemplates } from '../hooks/useItemTemplates';
+import { usePropertyDefinitions } from '../hooks/usePropertyDefinitions';
+import { useTags } from '../hooks/useTags';
+import { uploadImages } from '../services/images';
+import { applyItemTemplate } from '../services/itemTemplates';
+import { parseQuantityForm, toQuantityFormValues, type QuantityFormValues } from '../services/quantity';
+import { buildItemProperties } from '../services/propertyDefinitions';
 import toast from 'react-hot-toast';
 
 type Item = components['schemas']['Item'];
@@ -29,13 +40,30 @@ export function AddItemPage() {
     }
   }, []);
 
+  const { definitions } = usePropertyDefinitions();
+  const [typedValues, setTypedValues] = useState<Record<string, string>>({});
+  const [propertyErrors, setPropertyErrors] = useState<Record<string, string>>({});
+  const [otherPropertiesError, setOtherPropertiesError] = useState<string | undefined>();
+
   const [properties, setProperties] = useState<Array<{ key: string; value: string }>>([
     { key: '', value: '' },
   ]);
 
+  const { templates } = useItemTemplates();
+  const [templateId, setTemplateId] = useState<string>('');
+
+  const { tags: knownTags } = useTags();
+  const [tags, setTags] = useState<string[]>([]);
+
+  const [quantityValues, setQuantityValues] = useState<QuantityFormValues>(toQuantityFormValues());
+
+  const [pendingImages, setPendingImages] = useState<PendingImage[]>([]);
+
   const [errors, setErrors] = useState<{
     name?: string;
     locationId?: string;
+    quantity?: string;
+    minQuantity?: string;
   }>({});
 
   const validateForm = (): boolean => {
@@ -49,8 +77,32 @@ export function AddItemPage() {
       newErrors.locationId = 'Location is required';
     }
 
+    const { errors: quantityErrors } = parseQuantityForm(quantityValues);
+    Object.assign(newErrors, quantityErrors);
+
+    const builtProperties = buildItemProperties(definitions, typedValues, properties);
+    setPropertyErrors(builtProperties.errors);
+    setOtherPropertiesError(builtProperties.otherError);
+
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return Object.keys(newErrors).length === 0
+      && Object.keys(builtProperties.errors).length === 0
+      && !builtProperties.otherError;
+  };
+
+  const handleSelectTemplate = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find((candidate) => candidate.id === id);
+    if (!template) return;
+
+    const applied = applyItemTemplate(definitions, template, {
+      description: formData.description || '',
+      typedValues,
+      otherRows: properties,
+    });
+    setFormData({ ...formData, description: applied.description });
+    setTypedValues(applied.typedValues);
+    setProperties(applied.otherRows);
   };
 
   const handlePropertyChange = (index: number, field: 'key' | 'value', value: string) => {
@@ -77,30 +129,45 @@ export function AddItemPage() {
 
     setIsLoading(true);
     try {
-      const propertiesObj: { [key: string]: string } | null = (() => {
-        const filtered = properties.filter((p) => p.key.trim() && p.value.trim());
-        if (filtered.length === 0) return null;
-        const obj: { [key: string]: string } = {};
-        filtered.forEach((p) => {
-          obj[p.key.trim()] = p.value.trim();
-        });
-        return obj;
-      })();
+      const builtProperties = buildItemProperties(definitions, typedValues, properties).properties;
+      const propertiesObj = Object.keys(builtProperties).length > 0 ? builtProperties : null;
 
+      const parsedQuantity = parseQuantityForm(quantityValues);
       const requestData: CreateItemRequest = {
         name: formData.name?.trim() || null,
         description: formData.description?.trim() || null,
         locationId: formData.locationId?.trim() || null,
         properties: propertiesObj,
+        quantity: parsedQuantity.quantity,
+        unit: parsedQuantity.unit,
+        minQuantity: parsedQuantity.minQuantity,
+        templateId: templateId || null,
+        tags,
       };
 
       const responsePromise = apiClient.POST('/api/Item', {
         body: requestData,
       });
 
-      await unwrapResponse<Item>(responsePromise);
+      const createdItem = await unwrapMutationResponse<Item>(responsePromise);
+      if (createdItem === QUEUED_OFFLINE) {
+        // The item has no ID until it is synced, so its photos cannot be uploaded
+        if (pendingImages.length > 0) {
+          toast.error('Photos can only be added with a connection. Add them to the item once it has been synced.');
+        }
+        navigate('/dashboard');
+        return;
+      }
+
+      const failedUploadCount = createdItem.id && pendingImages.length > 0
+        ? await uploadImages('item', createdItem.id, pendingImages.map((image) => image.processed))
+        : 0;
       setIsLoading(false);
-      toast.success('Item created successfully');
+      if (failedUploadCount > 0) {
+        toast.error(`Item created, but ${failedUploadCount} photo${failedUploadCount === 1 ? '' : 's'} could not be uploaded`);
+      } else {
+        toast.success('Item created successfully');
+      }
       navigate('/dashboard');
     } catch (error) {
       console.error('Failed to create item:', error);
@@ -155,6 +222,20 @@ export function AddItemPage() {
               )}
             </div>
 
+            {templates.length > 0 && (
+              <Select
+                label="Template"
+                value={templateId}
+                onChange={(e) => handleSelectTemplate(e.target.value)}
+                disabled={isLoading}
+              >
+                <option value="">None</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </Select>
+            )}
+
             <Input
               label="Name"
               type="text"
@@ -175,10 +256,33 @@ export function AddItemPage() {
               disabled={isLoading}
             />
 
+            <TagEditor tags={tags} onChange={setTags} knownTags={knownTags} disabled={isLoading} />
+
+            <QuantityFields
+              values={quantityValues}
+              onChange={setQuantityValues}
+              errors={{ quantity: errors.quantity, minQuantity: errors.minQuantity }}
+              disabled={isLoading}
+            />
+
+            <ImageUploader
+              pendingImages={pendingImages}
+              onPendingImagesChange={setPendingImages}
+              disabled={isLoading}
+            />
+
+            <TypedPropertyFields
+              definitions={definitions}
+              values={typedValues}
+              onChange={setTypedValues}
+              errors={propertyErrors}
+              disabled={isLoading}
+            />
+
             <div className="space-y-1.5">
               <div className="flex items-center justify-between">
                 <label className="text-sm font-medium text-[var(--color-fg)]">
-                  Properties (optional)
+                  {definitions.length > 0 ? 'Other properties (optional)' : 'Properties (optional)'}
                 </label>
                 <Button
                   type="button"
@@ -220,6 +324,9 @@ export function AddItemPage() {
                   />
                 </div>
               ))}
+              {otherPropertiesError && (
+                <span className="text-sm text-danger-dark">{otherPropertiesError}</span>
+              )}
             </div>
 
             <div className="flex gap-3 pt-2">
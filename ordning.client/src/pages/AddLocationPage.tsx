@@ -1,11 +1,15 @@
 import { useState, useEffect, useRef, type FormEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { IconArrowLeft } from '@tabler/icons-react';
-import { apiClient, unwrapResponse } from '../services/apiClient';
+import { apiClient, QUEUED_OFFLINE, unwrapMutationResponse, unwrapResponse } from '../services/apiClient';
 import type { components } from '../types/api';
 import { Input, Textarea, Button } from '../components/ui';
 import { Header } from '../components/Header';
 import { LocationPicker } from '../components/LocationPicker';
+import { ImageUploader, type PendingImage } from '../components/ImageUploader';
+import { TagEditor } from '../components/TagEditor';
+import { useTags } from '../hooks/useTags';
+import { uploadImages } from '../services/images';
 import toast from 'react-hot-toast';
 
 type Location = components['schemas']['Location'];
@@ -21,8 +25,12 @@ export function AddLocationPage() {
     name: '',
     description: '',
     parentLocationId: localStorage.getItem('lastSelectedLocationId') || '',
+    tags: [],
   });
 
+  const { tags: knownTags } = useTags();
+  const [pendingImages, setPendingImages] = useState<PendingImage[]>([]);
+
   useEffect(() => {
     const lastLocationId = localStorage.getItem('lastSelectedLocationId');
     if (lastLocationId) {
@@ -118,15 +126,32 @@ export function AddLocationPage() {
         name: formData.name?.trim() || null,
         description: formData.description?.trim() || null,
         parentLocationId: formData.parentLocationId?.trim() || null,
+        tags: formData.tags || [],
       };
 
       const responsePromise = apiClient.POST('/api/Location', {
         body: requestData,
       });
 
-      await unwrapResponse<Location>(responsePromise);
+      const createdLocation = await unwrapMutationResponse<Location>(responsePromise);
+      if (createdLocation === QUEUED_OFFLINE) {
+        // Photo uploads are not queued, and the location does not exist on the server yet
+        if (pendingImages.length > 0) {
+          toast.error('Photos can only be added with a connection. Add them to the location once it has been synced.');
+        }
+        navigate('/locations');
+        return;
+      }
+
+      const failedUploadCount = createdLocation.id && pendingImages.length > 0
+        ? await uploadImages('location', createdLocation.id, pendingImages.map((image) => image.processed))
+        : 0;
       setIsLoading(false);
-      toast.success('Location created successfully');
+      if (failedUploadCount > 0) {
+        toast.error(`Location created, but ${failedUploadCount} photo${failedUploadCount === 1 ? '' : 's'} could not be uploaded`);
+      } else {
+        toast.success('Location created successfully');
+      }
       navigate('/locations');
     } catch (error) {
       console.error('Failed to create location:', error);
@@ -210,6 +235,20 @@ export function AddLocationPage() {
               disabled={isLoading}
             />
 
+            <TagEditor
+              tags={formData.tags || []}
+              onChange={(tags) => setFormData({ ...formData, tags })}
+              knownTags={knownTags}
+              disabled={isLoading}
+            />
+
+            <ImageUploader
+              pendingImages={pendingImages}
+              onPendingImagesChange={setPendingImages}
+              label="Photos of the contents (optional)"
+              disabled={isLoading}
+            />
+
             <div className="flex gap-3 pt-2">
               <Button
                 type="submit"
@@ -1,76 +1,315 @@
-import { useState, useEffect, useCallback } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { IconSearch, IconPlus } from '@tabler/icons-react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { IconSearch, IconPlus, IconTag, IconX } from '@tabler/icons-react';
 import { apiClient, unwrapResponse } from '../services/apiClient';
 import type { components } from '../types/api';
-import { Input, Button } from '../components/ui';
+import { Button, Select } from '../components/ui';
 import { Header } from '../components/Header';
-import toast from 'react-hot-toast';
+import { BulkActionBar } from '../components/BulkActionBar';
+import { PropertyFacetPanel } from '../components/PropertyFacetPanel';
+import { PropertyRangeFilters } from '../components/PropertyRangeFilters';
+import { LocationDropPanel } from '../components/LocationDropPanel';
+import { ItemThumbnail } from '../components/ItemThumbnail';
+import { LowStockWidget } from '../components/LowStockWidget';
+import { SearchQueryInput } from '../components/SearchQueryInput';
+import { useItemSelection } from '../hooks/useItemSelection';
+import { useItemTemplates } from '../hooks/useItemTemplates';
+import { useLocationSuggestions } from '../hooks/useLocationSuggestions';
+import { useOptimisticItemMove } from '../hooks/useOptimisticItemMove';
+import { usePropertyDefinitions } from '../hooks/usePropertyDefinitions';
+import { useUndoListener } from '../hooks/useUndoListener';
+import { usePaginatedQuery, type PageFetcher } from '../hooks/usePaginatedQuery';
+import { PaginationFooter } from '../components/PaginationFooter';
+import { toPage } from '../services/pagination';
+import { formatQuantity } from '../services/quantity';
+import { applyItemMove, getDraggedItemIds, getItemIdsToMove, writeItemDragData } from '../services/itemDrag';
+import { TEMPLATE_PARAM } from '../services/itemTemplates';
+import { TAG_PARAM, removeTag } from '../services/tags';
+import {
+  PROPERTY_FILTER_PARAM,
+  formatPropertyFilter,
+  parsePropertyFilters,
+  togglePropertyFilter,
+  type PropertyFilter,
+} from '../services/propertyFilters';
+import {
+  PROPERTY_RANGE_PARAM,
+  SORT_PARAM,
+  findPropertyDefinition,
+  formatPropertyRange,
+  getSortOptions,
+  isRangeComparable,
+  parsePropertyRanges,
+  setPropertyRange,
+} from '../services/propertyDefinitions';
+import { parseSearchQuery, type SearchSuggestionContext } from '../services/searchQuery';
 
 type Item = components['schemas']['Item'];
+type Location = components['schemas']['Location'];
 type ItemSearchResponse = components['schemas']['ItemSearchResponse'];
+type PropertyFacet = components['schemas']['PropertyFacet'];
+
+const SEARCH_QUERY_PARAM = 'q';
 
 export function DashboardPage() {
-  const [searchQuery, setSearchQuery] = useState<string>('');
-  const [searchResults, setSearchResults] = useState<Item[]>([]);
-  const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [searchQuery, setSearchQuery] = useState<string>(() => searchParams.get(SEARCH_QUERY_PARAM) || '');
+  const [debouncedQuery, setDebouncedQuery] = useState<string>(searchQuery);
+  const [facets, setFacets] = useState<PropertyFacet[]>([]);
   const navigate = useNavigate();
+  const activeFilters = useMemo(
+    () => parsePropertyFilters(searchParams.getAll(PROPERTY_FILTER_PARAM)),
+    [searchParams],
+  );
+  const filterParams = useMemo(() => activeFilters.map(formatPropertyFilter), [activeFilters]);
+  const { definitions } = usePropertyDefinitions();
+  const rangeDefinitions = useMemo(() => definitions.filter(isRangeComparable), [definitions]);
+  const sortOptions = useMemo(() => getSortOptions(definitions), [definitions]);
+  const activeRanges = useMemo(
+    () => parsePropertyRanges(searchParams.getAll(PROPERTY_RANGE_PARAM)),
+    [searchParams],
+  );
+  const rangeParams = useMemo(() => activeRanges.map(formatPropertyRange), [activeRanges]);
+  const sort = searchParams.get(SORT_PARAM) || '';
+  const { templates } = useItemTemplates();
+  const templateId = searchParams.get(TEMPLATE_PARAM) || '';
+  const activeTags = useMemo(() => searchParams.getAll(TAG_PARAM), [searchParams]);
+  const locationSuggestions = useLocationSuggestions();
+  const queryErrors = useMemo(() => parseSearchQuery(searchQuery).errors, [searchQuery]);
+  const hasQueryErrors = queryErrors.length > 0;
+  const suggestionContext = useMemo<SearchSuggestionContext>(() => ({
+    locations: locationSuggestions,
+    propertyValues: Object.fromEntries(
+      facets.map((facet) => [facet.key || '', (facet.values || []).map((facetValue) => facetValue.value ?? '')]),
+    ),
+    today: new Date().toISOString().slice(0, 10),
+  }), [locationSuggestions, facets]);
 
-  const performSearch = useCallback(async (query: string) => {
-    setIsSearching(true);
+  const fetchItemsPage = useCallback<PageFetcher<Item>>(async (offset, limit, signal) => {
+    const responsePromise = apiClient.GET('/api/Item/search', {
+      params: {
+        query: {
+          q: debouncedQuery,
+          limit,
+          offset,
+          filter: filterParams,
+          range: rangeParams,
+          sort: sort || undefined,
+          templateId: templateId || undefined,
+          tag: activeTags,
+        },
+      },
+      signal,
+    });
+
+    return toPage(await unwrapResponse<ItemSearchResponse>(responsePromise));
+  }, [debouncedQuery, filterParams, rangeParams, sort, templateId, activeTags]);
+
+  const itemsQuery = usePaginatedQuery(fetchItemsPage, {
+    getKey: (item) => item.id,
+    errorMessage: 'Failed to search items',
+  });
+  const searchResults = itemsQuery.items;
+  const visibleItemIds = useMemo(
+    () => searchResults.map((item) => item.id).filter((id): id is string => !!id),
+    [searchResults],
+  );
+  const selection = useItemSelection(visibleItemIds);
+  const moveItems = useOptimisticItemMove();
+
+  const fetchFacets = useCallback(async (signal?: AbortSignal): Promise<PropertyFacet[]> => {
     try {
-      const responsePromise = apiClient.GET('/api/Item/search', {
+      const responsePromise = apiClient.GET('/api/Item/facets', {
         params: {
           query: {
-            q: query || '',
-            limit: 50,
-            offset: 0,
+            q: debouncedQuery,
+            filter: filterParams,
+            templateId: templateId || undefined,
+            tag: activeTags,
           },
         },
+        signal,
       });
 
-      const data = await unwrapResponse<ItemSearchResponse>(responsePromise);
-      setSearchResults(data.results || []);
+      return await unwrapResponse<PropertyFacet[]>(responsePromise);
     } catch (error) {
-      console.error('Search failed:', error);
-      toast.error('Failed to search items');
-      setSearchResults([]);
-    } finally {
-      setIsSearching(false);
+      if (!signal?.aborted) {
+        console.error('Failed to load property facets:', error);
+      }
+      return [];
     }
-  }, []);
+  }, [debouncedQuery, filterParams, templateId, activeTags]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchFacets(controller.signal).then((result) => {
+      if (!controller.signal.aborted) {
+        setFacets(result);
+      }
+    });
+    return () => controller.abort();
+  }, [fetchFacets]);
 
+  // Search once typing pauses, and keep the search text in the URL so the filtered view can be shared.
+  // A query the server would reject waits until it is fixed.
   useEffect(() => {
+    if (hasQueryErrors) {
+      return;
+    }
+
     const timeoutId = setTimeout(() => {
-      performSearch(searchQuery);
+      setDebouncedQuery(searchQuery);
+      setSearchParams((previous) => {
+        if ((previous.get(SEARCH_QUERY_PARAM) || '') === searchQuery) {
+          return previous;
+        }
+        const next = new URLSearchParams(previous);
+        if (searchQuery) {
+          next.set(SEARCH_QUERY_PARAM, searchQuery);
+        } else {
+          next.delete(SEARCH_QUERY_PARAM);
+        }
+        return next;
+      }, { replace: true });
     }, 300);
 
     return () => clearTimeout(timeoutId);
-  }, [searchQuery, performSearch]);
+  }, [searchQuery, hasQueryErrors, setSearchParams]);
 
-  useEffect(() => {
-    performSearch('');
-  }, [performSearch]);
+  const handleItemsChanged = () => {
+    itemsQuery.reload();
+    fetchFacets().then(setFacets);
+  };
+
+  useUndoListener(handleItemsChanged);
+
+  const handleDropItems = (droppedItemIds: string[], targetLocation: Location) => {
+    const newLocationId = targetLocation.id;
+    if (!newLocationId) return;
+
+    const itemIdsToMove = getItemIdsToMove(searchResults, droppedItemIds, newLocationId);
+    const previousLocationIds = new Map(
+      searchResults.filter((item) => item.id && itemIdsToMove.includes(item.id)).map((item) => [item.id, item.locationId]),
+    );
+    moveItems({
+      itemIds: itemIdsToMove,
+      location: targetLocation,
+      previousItems: searchResults,
+      apply: () => itemsQuery.updateItems((items) => applyItemMove(items, itemIdsToMove, newLocationId)),
+      rollback: () => itemsQuery.updateItems((items) => items.map((item) => (
+        previousLocationIds.has(item.id) ? { ...item, locationId: previousLocationIds.get(item.id) } : item
+      ))),
+    });
+  };
+
+  const setActiveFilters = useCallback((filters: PropertyFilter[]) => {
+    setSearchParams((previous) => {
+      const next = new URLSearchParams(previous);
+      next.delete(PROPERTY_FILTER_PARAM);
+      filters.forEach((filter) => next.append(PROPERTY_FILTER_PARAM, formatPropertyFilter(filter)));
+      return next;
+    });
+  }, [setSearchParams]);
+
+  const handleToggleFilter = (key: string, value: string) => {
+    setActiveFilters(togglePropertyFilter(activeFilters, key, value));
+  };
+
+  const handleChangeRange = useCallback((key: string, min: string, max: string) => {
+    setSearchParams((previous) => {
+      const next = new URLSearchParams(previous);
+      const ranges = setPropertyRange(parsePropertyRanges(previous.getAll(PROPERTY_RANGE_PARAM)), key, min, max);
+      next.delete(PROPERTY_RANGE_PARAM);
+      ranges.forEach((range) => next.append(PROPERTY_RANGE_PARAM, formatPropertyRange(range)));
+      return next;
+    });
+  }, [setSearchParams]);
+
+  const handleChangeSort = (value: string) => {
+    setSearchParams((previous) => {
+      const next = new URLSearchParams(previous);
+      if (value) {
+        next.set(SORT_PARAM, value);
+      } else {
+        next.delete(SORT_PARAM);
+      }
+      return next;
+    }, { replace: true });
+  };
+
+  const handleChangeTemplate = (value: string) => {
+    setSearchParams((previous) => {
+      const next = new URLSearchParams(previous);
+      if (value) {
+        next.set(TEMPLATE_PARAM, value);
+      } else {
+        next.delete(TEMPLATE_PARAM);
+      }
+      return next;
+    });
+  };
+
+  const handleRemoveTag = (tag: string) => {
+    setSearchParams((previous) => {
+      const next = new URLSearchParams(previous);
+      next.delete(TAG_PARAM);
+      removeTag(previous.getAll(TAG_PARAM), tag).forEach((remainingTag) => next.append(TAG_PARAM, remainingTag));
+      return next;
+    });
+  };
+
+  const clearAllFilters = () => {
+    setSearchParams((previous) => {
+      const next = new URLSearchParams(previous);
+      next.delete(PROPERTY_FILTER_PARAM);
+      next.delete(PROPERTY_RANGE_PARAM);
+      next.delete(TAG_PARAM);
+      return next;
+    });
+  };
 
   return (
     <div className="min-h-screen bg-[var(--elevation-level-1-dark)]">
       <Header />
       <div className="p-4">
-        <div className="max-w-4xl mx-auto">
+        <div className="max-w-6xl mx-auto">
         <div className="mb-6 flex flex-col md:flex-row gap-3">
           <div className="relative flex-1">
             <IconSearch 
-              className="absolute left-4 top-1/2 -translate-y-1/2 text-[var(--color-fg)] opacity-50" 
+              className="absolute left-4 top-1/2 -translate-y-1/2 z-10 pointer-events-none text-[var(--color-fg)] opacity-50" 
               size={20} 
             />
-            <Input
-              type="text"
-              placeholder="Search items..."
+            <SearchQueryInput
+              placeholder='Search items... e.g. in:G1 color:red -broken "power drill"'
               value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              onChange={setSearchQuery}
+              suggestionContext={suggestionContext}
               className="pl-12"
             />
           </div>
+          {templates.length > 0 && (
+            <Select
+              value={templateId}
+              onChange={(e) => handleChangeTemplate(e.target.value)}
+              aria-label="Template"
+              className="md:w-48"
+            >
+              <option value="">All templates</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </Select>
+          )}
+          <Select
+            value={sort}
+            onChange={(e) => handleChangeSort(e.target.value)}
+            aria-label="Sort by"
+            className="md:w-56"
+          >
+            {sortOptions.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </Select>
           <Button
             onClick={() => navigate('/items/add')}
             icon={<IconPlus size={20} />}
@@ -81,43 +320,163 @@ export function DashboardPage() {
           </Button>
         </div>
 
-        {isSearching && searchResults.length === 0 && (
+        <LowStockWidget />
+
+        {hasQueryErrors && (
+          <div className="mb-4 text-sm text-[var(--color-error)]">
+            {queryErrors.join(' ')}
+          </div>
+        )}
+
+        {(activeFilters.length > 0 || activeRanges.length > 0 || activeTags.length > 0) && (
+          <div className="mb-4 flex flex-wrap items-center gap-2">
+            {activeTags.map((tag) => (
+              <button
+                key={`tag:${tag}`}
+                type="button"
+                onClick={() => handleRemoveTag(tag)}
+                className="flex items-center gap-1 rounded-full border border-[var(--color-border)] bg-[var(--elevation-level-2-dark)] px-3 py-1 text-sm text-[var(--color-fg)] hover:bg-[var(--elevation-level-3-dark)]"
+                aria-label={`Remove tag ${tag}`}
+              >
+                <IconTag size={14} className="opacity-70" />
+                <span>{tag}</span>
+                <IconX size={14} className="opacity-70" />
+              </button>
+            ))}
+            {activeFilters.map((filter) => (
+              <button
+                key={formatPropertyFilter(filter)}
+                type="button"
+                onClick={() => handleToggleFilter(filter.key, filter.value)}
+                className="flex items-center gap-1 rounded-full border border-[var(--color-border)] bg-[var(--elevation-level-2-dark)] px-3 py-1 text-sm text-[var(--color-fg)] hover:bg-[var(--elevation-level-3-dark)]"
+                aria-label={`Remove filter ${formatPropertyFilter(filter)}`}
+              >
+                <span className="opacity-70">{filter.key}:</span>
+                <span>{filter.value || '(empty)'}</span>
+                <IconX size={14} className="opacity-70" />
+              </button>
+            ))}
+            {activeRanges.map((range) => (
+              <button
+                key={formatPropertyRange(range)}
+                type="button"
+                onClick={() => handleChangeRange(range.key, '', '')}
+                className="flex items-center gap-1 rounded-full border border-[var(--color-border)] bg-[var(--elevation-level-2-dark)] px-3 py-1 text-sm text-[var(--color-fg)] hover:bg-[var(--elevation-level-3-dark)]"
+                aria-label={`Remove range ${formatPropertyRange(range)}`}
+              >
+                <span className="opacity-70">{findPropertyDefinition(definitions, range.key)?.name || range.key}:</span>
+                <span>{range.min || '…'} – {range.max || '…'}</span>
+                <IconX size={14} className="opacity-70" />
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={clearAllFilters}
+              className="text-sm text-[var(--color-fg)] opacity-70 hover:opacity-100 hover:underline"
+            >
+              Clear filters
+            </button>
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-6">
+        {(facets.length > 0 || rangeDefinitions.length > 0) && (
+          <aside className="md:w-56 shrink-0 bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-4 md:self-start space-y-4">
+            <PropertyRangeFilters
+              definitions={rangeDefinitions}
+              activeRanges={activeRanges}
+              onChangeRange={handleChangeRange}
+            />
+            <PropertyFacetPanel
+              facets={facets}
+              activeFilters={activeFilters}
+              onToggleFilter={handleToggleFilter}
+            />
+          </aside>
+        )}
+
+        <div className="flex-1 min-w-0">
+        {itemsQuery.isLoading && searchResults.length === 0 && (
           <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
             Searching...
           </div>
         )}
 
-        {!isSearching && searchResults.length === 0 && (
+        {!itemsQuery.isLoading && searchResults.length === 0 && (
           <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
             No items found
           </div>
         )}
 
+        <BulkActionBar
+          selectedItemIds={selection.selectedIds}
+          items={searchResults}
+          totalItemCount={visibleItemIds.length}
+          onSelectAll={() => selection.selectAll(visibleItemIds)}
+          onClearSelection={selection.clear}
+          onItemsChanged={handleItemsChanged}
+        />
+
         {searchResults.length > 0 && (
           <div className="space-y-2">
             {searchResults.map((item) => (
               <div
                 key={item.id}
-                className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-4 cursor-pointer hover:bg-[var(--elevation-level-3-dark)] transition-colors"
+                className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-4 cursor-pointer hover:bg-[var(--elevation-level-3-dark)] transition-colors flex items-start gap-3"
                 onClick={() => item.id && navigate(`/items/${item.id}`)}
+                draggable={!!item.id}
+                onDragStart={(e) => item.id && writeItemDragData(e.dataTransfer, getDraggedItemIds(item.id, selection.selectedIds))}
               >
-                <div className="flex items-center justify-between gap-4">
-                  <div className="text-[var(--color-fg)] font-medium">{item.name || 'Unnamed Item'}</div>
-                  {item.locationId && (
-                    <div className="text-[var(--color-fg)] opacity-50 text-sm shrink-0">
-                      {item.locationId}
+                {item.id && (
+                  <input
+                    type="checkbox"
+                    checked={selection.isSelected(item.id)}
+                    onChange={() => item.id && selection.toggle(item.id)}
+                    onClick={(e) => e.stopPropagation()}
+                    className="w-4 h-4 mt-1 shrink-0 cursor-pointer accent-[var(--brand-color-light)]"
+                    aria-label={`Select ${item.name || 'item'}`}
+                  />
+                )}
+                <ItemThumbnail imageIds={item.imageIds} name={item.name} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="text-[var(--color-fg)] font-medium">
+                      {item.name || 'Unnamed Item'}
+                      {formatQuantity(item.quantity, item.unit) && (
+                        <span className={`ml-2 text-sm font-normal ${item.isLowStock ? 'text-danger-dark' : 'opacity-60'}`}>
+                          {formatQuantity(item.quantity, item.unit)}
+                        </span>
+                      )}
+                    </div>
+                    {item.locationId && (
+                      <div className="text-[var(--color-fg)] opacity-50 text-sm shrink-0">
+                        {item.locationId}
+                      </div>
+                    )}
+                  </div>
+                  {item.description && (
+                    <div className="text-[var(--color-fg)] opacity-70 text-sm mt-1">
+                      {item.description}
                     </div>
                   )}
                 </div>
-                {item.description && (
-                  <div className="text-[var(--color-fg)] opacity-70 text-sm mt-1">
-                    {item.description}
-                  </div>
-                )}
               </div>
             ))}
           </div>
         )}
+
+        <PaginationFooter
+          loadedCount={searchResults.length}
+          totalCount={itemsQuery.totalCount}
+          hasMore={itemsQuery.hasMore}
+          isLoadingMore={itemsQuery.isLoadingMore}
+          onLoadMore={itemsQuery.loadMore}
+          sentinelRef={itemsQuery.sentinelRef}
+          noun="items"
+        />
+        </div>
+        <LocationDropPanel onDropItems={handleDropItems} />
+        </div>
         </div>
       </div>
     </div>
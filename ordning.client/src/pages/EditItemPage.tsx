@@ -1,10 +1,21 @@
 import { useState, useEffect, type FormEvent } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { IconArrowLeft, IconPlus, IconX } from '@tabler/icons-react';
-import { apiClient, unwrapResponse } from '../services/apiClient';
+import { apiClient, unwrapMutationResponse, unwrapResponse } from '../services/apiClient';
 import type { components } from '../types/api';
 import { Input, Textarea, Button } from '../components/ui';
 import { Header } from '../components/Header';
+import { ImageUploader, type PendingImage } from '../components/ImageUploader';
+import { QuantityFields } from '../components/QuantityFields';
+import { TagEditor } from '../components/TagEditor';
+import { TypedPropertyFields } from '../components/TypedPropertyFields';
+import { usePropertyDefinitions } from '../hooks/usePropertyDefinitions';
+import { useTags } from '../hooks/useTags';
+import { saveImageChanges } from '../services/images';
+import { revertItem } from '../services/undoActions';
+import { showUndoToast } from '../services/undoToast';
+import { parseQuantityForm, toQuantityFormValues, type QuantityFormValues } from '../services/quantity';
+import { buildItemProperties, splitItemProperties } from '../services/propertyDefinitions';
 import toast from 'react-hot-toast';
 
 type Item = components['schemas']['Item'];
@@ -21,14 +32,28 @@ export function EditItemPage() {
     name: '',
     description: '',
     properties: null,
+    tags: [],
   });
 
+  const { tags: knownTags } = useTags();
+  const { definitions, isLoaded: areDefinitionsLoaded } = usePropertyDefinitions();
+  const [typedValues, setTypedValues] = useState<Record<string, string>>({});
+  const [propertyErrors, setPropertyErrors] = useState<Record<string, string>>({});
+  const [otherPropertiesError, setOtherPropertiesError] = useState<string | undefined>();
+
   const [properties, setProperties] = useState<Array<{ key: string; value: string }>>([
     { key: '', value: '' },
   ]);
 
+  const [quantityValues, setQuantityValues] = useState<QuantityFormValues>(toQuantityFormValues());
+
+  const [pendingImages, setPendingImages] = useState<PendingImage[]>([]);
+  const [removedImageIds, setRemovedImageIds] = useState<string[]>([]);
+
   const [errors, setErrors] = useState<{
     name?: string;
+    quantity?: string;
+    minQuantity?: string;
   }>({});
 
   useEffect(() => {
@@ -43,19 +68,15 @@ export function EditItemPage() {
         name: item.name || '',
         description: item.description || '',
         properties: null,
+        tags: item.tags || [],
       });
+      setQuantityValues(toQuantityFormValues(item));
 
-      if (item.properties && Object.keys(item.properties).length > 0) {
-        const propsArray = Object.entries(item.properties).map(([key, value]) => ({
-          key: key,
-          value: value,
-        }));
-        setProperties(propsArray);
-      } else {
-        setProperties([{ key: '', value: '' }]);
-      }
+      const { typedValues: itemTypedValues, otherRows } = splitItemProperties(definitions, item.properties);
+      setTypedValues(itemTypedValues);
+      setProperties(otherRows.length > 0 ? otherRows : [{ key: '', value: '' }]);
     }
-  }, [item]);
+  }, [item, definitions]);
 
   const fetchItem = async () => {
     if (!id) return;
@@ -88,8 +109,17 @@ export function EditItemPage() {
       newErrors.name = 'Name is required';
     }
 
+    const { errors: quantityErrors } = parseQuantityForm(quantityValues);
+    Object.assign(newErrors, quantityErrors);
+
+    const builtProperties = buildItemProperties(definitions, typedValues, properties);
+    setPropertyErrors(builtProperties.errors);
+    setOtherPropertiesError(builtProperties.otherError);
+
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return Object.keys(newErrors).length === 0
+      && Object.keys(builtProperties.errors).length === 0
+      && !builtProperties.otherError;
   };
 
   const handlePropertyChange = (index: number, field: 'key' | 'value', value: string) => {
@@ -110,26 +140,25 @@ export function EditItemPage() {
   const handleSubmit = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
     e.preventDefault();
 
-    if (!validateForm() || !id) {
+    if (!validateForm() || !id || !item) {
       return;
     }
 
+    const previousItem = item;
     setIsLoading(true);
     try {
-      const propertiesObj: { [key: string]: string } | null = (() => {
-        const filtered = properties.filter((p) => p.key.trim() && p.value.trim());
-        if (filtered.length === 0) return null;
-        const obj: { [key: string]: string } = {};
-        filtered.forEach((p) => {
-          obj[p.key.trim()] = p.value.trim();
-        });
-        return obj;
-      })();
+      const builtProperties = buildItemProperties(definitions, typedValues, properties).properties;
+      const propertiesObj = Object.keys(builtProperties).length > 0 ? builtProperties : null;
 
+      const parsedQuantity = parseQuantityForm(quantityValues);
       const requestData: UpdateItemRequest = {
         name: formData.name?.trim() || null,
         description: formData.description?.trim() || null,
         properties: propertiesObj,
+        quantity: parsedQuantity.quantity,
+        unit: parsedQuantity.unit,
+        minQuantity: parsedQuantity.minQuantity,
+        tags: formData.tags || [],
       };
 
       const responsePromise = apiClient.PUT('/api/Item/{id}', {
@@ -141,9 +170,14 @@ export function EditItemPage() {
         body: requestData,
       });
 
-      await unwrapResponse<Item>(responsePromise);
+      await unwrapMutationResponse<Item>(responsePromise);
+
+      const failedPhotoCount = await saveImageChanges('item', id, removedImageIds, pendingImages.map((image) => image.processed));
       setIsLoading(false);
-      toast.success('Item updated successfully');
+      if (failedPhotoCount > 0) {
+        toast.error(`Item updated, but ${failedPhotoCount} photo${failedPhotoCount === 1 ? '' : 's'} could not be saved`);
+      }
+      showUndoToast('Item updated successfully', () => revertItem(previousItem));
       navigate(`/items/${id}`);
     } catch (error) {
       console.error('Failed to update item:', error);
@@ -157,7 +191,7 @@ export function EditItemPage() {
     }
   };
 
-  if (isLoadingItem) {
+  if (isLoadingItem || !areDefinitionsLoaded) {
     return (
       <div className="min-h-screen bg-[var(--elevation-level-1-dark)]">
         <Header />
@@ -228,10 +262,40 @@ export function EditItemPage() {
               disabled={isLoading}
             />
 
+            <TagEditor
+              tags={formData.tags || []}
+              onChange={(tags) => setFormData({ ...formData, tags })}
+              knownTags={knownTags}
+              disabled={isLoading}
+            />
+
+            <QuantityFields
+              values={quantityValues}
+              onChange={setQuantityValues}
+              errors={{ quantity: errors.quantity, minQuantity: errors.minQuantity }}
+              disabled={isLoading}
+            />
+
+            <ImageUploader
+              pendingImages={pendingImages}
+              onPendingImagesChange={setPendingImages}
+              existingImageIds={(item.imageIds || []).filter((imageId) => !removedImageIds.includes(imageId))}
+              onRemoveExistingImage={(imageId) => setRemovedImageIds((prev) => [...prev, imageId])}
+              disabled={isLoading}
+            />
+
+            <TypedPropertyFields
+              definitions={definitions}
+              values={typedValues}
+              onChange={setTypedValues}
+              errors={propertyErrors}
+              disabled={isLoading}
+            />
+
             <div className="space-y-1.5">
               <div className="flex items-center justify-between">
                 <label className="text-sm font-medium text-[var(--color-fg)]">
-                  Properties (optional)
+                  {definitions.length > 0 ? 'Other properties (optional)' : 'Properties (optional)'}
                 </label>
                 <Button
                   type="button"
@@ -273,6 +337,9 @@ export function EditItemPage() {
                   />
                 </div>
               ))}
+              {otherPropertiesError && (
+                <span className="text-sm text-danger-dark">{otherPropertiesError}</span>
+              )}
             </div>
 
             <div className="flex gap-3 pt-2">
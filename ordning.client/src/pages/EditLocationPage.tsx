@@ -1,10 +1,16 @@
 import { useState, useEffect, type FormEvent } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { IconArrowLeft } from '@tabler/icons-react';
-import { apiClient, unwrapResponse } from '../services/apiClient';
+import { apiClient, unwrapMutationResponse, unwrapResponse } from '../services/apiClient';
 import type { components } from '../types/api';
 import { Input, Textarea, Button } from '../components/ui';
 import { Header } from '../components/Header';
+import { ImageUploader, type PendingImage } from '../components/ImageUploader';
+import { TagEditor } from '../components/TagEditor';
+import { useTags } from '../hooks/useTags';
+import { saveImageChanges } from '../services/images';
+import { revertLocation } from '../services/undoActions';
+import { showUndoToast } from '../services/undoToast';
 import toast from 'react-hot-toast';
 
 type Location = components['schemas']['Location'];
@@ -21,8 +27,13 @@ export function EditLocationPage() {
     name: '',
     description: '',
     parentLocationId: null,
+    tags: [],
   });
 
+  const { tags: knownTags } = useTags();
+  const [pendingImages, setPendingImages] = useState<PendingImage[]>([]);
+  const [removedImageIds, setRemovedImageIds] = useState<string[]>([]);
+
   const [errors, setErrors] = useState<{
     name?: string;
   }>({});
@@ -39,6 +50,7 @@ export function EditLocationPage() {
         name: location.name || '',
         description: location.description || '',
         parentLocationId: location.parentLocationId || null,
+        tags: location.tags || [],
       });
     }
   }, [location]);
@@ -81,16 +93,18 @@ export function EditLocationPage() {
   const handleSubmit = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
     e.preventDefault();
 
-    if (!validateForm() || !id) {
+    if (!validateForm() || !id || !location) {
       return;
     }
 
+    const previousLocation = location;
     setIsLoading(true);
     try {
       const requestData: UpdateLocationRequest = {
         name: formData.name?.trim() || null,
         description: formData.description?.trim() || null,
         parentLocationId: formData.parentLocationId || null,
+        tags: formData.tags || [],
       };
 
       const responsePromise = apiClient.PUT('/api/Location/{id}', {
@@ -102,9 +116,13 @@ export function EditLocationPage() {
         body: requestData,
       });
 
-      await unwrapResponse<Location>(responsePromise);
+      await unwrapMutationResponse<Location>(responsePromise);
+      const failedPhotoCount = await saveImageChanges('location', id, removedImageIds, pendingImages.map((image) => image.processed));
       setIsLoading(false);
-      toast.success('Location updated successfully');
+      if (failedPhotoCount > 0) {
+        toast.error(`Location updated, but ${failedPhotoCount} photo${failedPhotoCount === 1 ? '' : 's'} could not be saved`);
+      }
+      showUndoToast('Location updated successfully', () => revertLocation(previousLocation));
       navigate(`/locations/${id}`);
     } catch (error) {
       console.error('Failed to update location:', error);
@@ -189,6 +207,22 @@ export function EditLocationPage() {
               disabled={isLoading}
             />
 
+            <TagEditor
+              tags={formData.tags || []}
+              onChange={(tags) => setFormData({ ...formData, tags })}
+              knownTags={knownTags}
+              disabled={isLoading}
+            />
+
+            <ImageUploader
+              pendingImages={pendingImages}
+              onPendingImagesChange={setPendingImages}
+              existingImageIds={(location.imageIds || []).filter((imageId) => !removedImageIds.includes(imageId))}
+              onRemoveExistingImage={(imageId) => setRemovedImageIds((prev) => [...prev, imageId])}
+              label="Photos of the contents (optional)"
+              disabled={isLoading}
+            />
+
             <div className="flex gap-3 pt-2">
               <Button
                 type="submit"
@@ -0,0 +1,569 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { IconArrowLeft, IconUpload, IconCheck, IconAlertTriangle } from '@tabler/icons-react';
+import { apiClient, unwrapMutationResponse, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import { Button, Input, Select } from '../components/ui';
+import { Header } from '../components/Header';
+import { LocationPicker } from '../components/LocationPicker';
+import {
+  ImportFileError,
+  parseImportFile,
+  planImport,
+  suggestColumnMapping,
+  type ColumnTarget,
+  type ImportField,
+  type ImportPlan,
+  type ImportTable,
+} from '../services/inventoryImport';
+import toast from 'react-hot-toast';
+
+type Item = components['schemas']['Item'];
+type Location = components['schemas']['Location'];
+type LocationTreeNode = components['schemas']['LocationTreeNode'];
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'running' | 'done';
+
+interface ImportFailure {
+  rowNumber: number | null;
+  label: string;
+  message: string;
+}
+
+interface ImportResult {
+  createdLocationCount: number;
+  createdItemCount: number;
+  updatedItemCount: number;
+  failures: ImportFailure[];
+}
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  id: 'Item ID (update existing)',
+  name: 'Name',
+  description: 'Description',
+  locationId: 'Location ID',
+};
+
+const PREVIEW_ROW_COUNT = 3;
+
+function flattenTree(nodes: LocationTreeNode[], locations: Location[] = []): Location[] {
+  for (const node of nodes) {
+    if (node.location) {
+      locations.push(node.location);
+    }
+    flattenTree(node.children || [], locations);
+  }
+  return locations;
+}
+
+function targetToValue(target: ColumnTarget): string {
+  if (target.type === 'field') return `field:${target.field}`;
+  return target.type;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error && error.message ? error.message : 'Request failed';
+}
+
+export function ImportPage() {
+  const navigate = useNavigate();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState<string>('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnTarget[]>([]);
+  const [existingLocations, setExistingLocations] = useState<Location[]>([]);
+  const [existingItems, setExistingItems] = useState<Item[]>([]);
+  const [isLoadingInventory, setIsLoadingInventory] = useState<boolean>(false);
+  const [createUnknownLocations, setCreateUnknownLocations] = useState<boolean>(false);
+  const [unknownLocationParentId, setUnknownLocationParentId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number }>({ done: 0, total: 0 });
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  useEffect(() => {
+    if (step !== 'preview') return;
+
+    const fetchInventory = async () => {
+      setIsLoadingInventory(true);
+      try {
+        const [tree, items] = await Promise.all([
+          unwrapResponse<LocationTreeNode[]>(apiClient.GET('/api/Location/tree')),
+          unwrapResponse<Item[]>(apiClient.GET('/api/Item')),
+        ]);
+        setExistingLocations(flattenTree(tree || []));
+        setExistingItems(items || []);
+      } catch (error) {
+        console.error('Failed to load inventory:', error);
+        toast.error('Failed to load the current inventory');
+        setStep('mapping');
+      } finally {
+        setIsLoadingInventory(false);
+      }
+    };
+
+    fetchInventory();
+  }, [step]);
+
+  const plan = useMemo<ImportPlan | null>(() => {
+    if (!table || step === 'upload' || step === 'mapping') {
+      return null;
+    }
+    return planImport(table, mapping, existingLocations, existingItems, { createUnknownLocations, unknownLocationParentId });
+  }, [table, mapping, existingLocations, existingItems, createUnknownLocations, unknownLocationParentId, step]);
+
+  const mappingError = useMemo(() => {
+    const fields = mapping.filter((target) => target.type === 'field').map((target) => (target as { field: ImportField }).field);
+    const duplicate = fields.find((field, index) => fields.indexOf(field) !== index);
+    if (duplicate) {
+      return `${FIELD_LABELS[duplicate]} is mapped to more than one column.`;
+    }
+    if (!fields.includes('name') && !fields.includes('id')) {
+      return 'Map a column to Name, or to Item ID to update existing items.';
+    }
+    if (mapping.some((target) => target.type === 'property' && !target.key.trim())) {
+      return 'Every property column needs a property name.';
+    }
+    return null;
+  }, [mapping]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      if (parsed.rows.length === 0) {
+        toast.error('The file does not contain any items');
+        return;
+      }
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(suggestColumnMapping(parsed.columns));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Failed to read import file:', error);
+      toast.error(error instanceof ImportFileError ? error.message : 'Failed to read the file');
+    }
+  };
+
+  const handleMappingChange = (index: number, value: string) => {
+    const column = table?.columns[index] || '';
+    const target: ColumnTarget =
+      value === 'ignore'
+        ? { type: 'ignore' }
+        : value === 'property'
+          ? { type: 'property', key: column }
+          : { type: 'field', field: value.slice('field:'.length) as ImportField };
+    setMapping((previous) => previous.map((existing, i) => (i === index ? target : existing)));
+  };
+
+  const handlePropertyKeyChange = (index: number, key: string) => {
+    setMapping((previous) => previous.map((existing, i) => (i === index ? { type: 'property', key } : existing)));
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+
+    const failures: ImportFailure[] = [];
+    const failedLocationIds = new Set<string>();
+    let createdLocationCount = 0;
+    let createdItemCount = 0;
+    let updatedItemCount = 0;
+    let done = 0;
+    const total = plan.locationsToCreate.length + plan.itemsToCreate.length + plan.itemsToUpdate.length;
+
+    setStep('running');
+    setProgress({ done, total });
+    const advance = () => {
+      done++;
+      setProgress({ done, total });
+    };
+
+    // Locations are planned parents first, so every parent exists before its children
+    for (const location of plan.locationsToCreate) {
+      try {
+        if (location.parentLocationId && failedLocationIds.has(location.parentLocationId)) {
+          throw new Error(`Parent location ${location.parentLocationId} could not be created`);
+        }
+        await unwrapMutationResponse(apiClient.POST('/api/Location', {
+          body: {
+            id: location.id,
+            name: location.name,
+            description: location.description,
+            parentLocationId: location.parentLocationId,
+          },
+        }));
+        createdLocationCount++;
+      } catch (error) {
+        failedLocationIds.add(location.id);
+        failures.push({ rowNumber: null, label: `Location ${location.id}`, message: getErrorMessage(error) });
+      }
+      advance();
+    }
+
+    for (const item of plan.itemsToCreate) {
+      try {
+        if (failedLocationIds.has(item.locationId)) {
+          throw new Error(`Location ${item.locationId} could not be created`);
+        }
+        await unwrapMutationResponse(apiClient.POST('/api/Item', {
+          body: {
+            name: item.name,
+            description: item.description,
+            locationId: item.locationId,
+            properties: item.properties,
+          },
+        }));
+        createdItemCount++;
+      } catch (error) {
+        failures.push({ rowNumber: item.rowNumber, label: item.name, message: getErrorMessage(error) });
+      }
+      advance();
+    }
+
+    for (const item of plan.itemsToUpdate) {
+      try {
+        if (failedLocationIds.has(item.locationId)) {
+          throw new Error(`Location ${item.locationId} could not be created`);
+        }
+        await unwrapMutationResponse(apiClient.PUT('/api/Item/{id}', {
+          params: {
+            path: {
+              id: item.itemId,
+            },
+          },
+          body: {
+            name: item.name,
+            description: item.description,
+            properties: item.properties,
+            quantity: item.quantity,
+            unit: item.unit,
+            minQuantity: item.minQuantity,
+          },
+        }));
+        if (item.locationId !== item.previousLocationId) {
+          await unwrapMutationResponse<number>(apiClient.POST('/api/Item/move', {
+            body: {
+              itemIds: [item.itemId],
+              newLocationId: item.locationId,
+            },
+          }));
+        }
+        updatedItemCount++;
+      } catch (error) {
+        failures.push({ rowNumber: item.rowNumber, label: item.name, message: getErrorMessage(error) });
+      }
+      advance();
+    }
+
+    setResult({ createdLocationCount, createdItemCount, updatedItemCount, failures });
+    setStep('done');
+    if (failures.length === 0) {
+      toast.success('Import finished');
+    } else {
+      toast.error(`Import finished with ${failures.length} error${failures.length === 1 ? '' : 's'}`);
+    }
+  };
+
+  const handleStartOver = () => {
+    setStep('upload');
+    setTable(null);
+    setMapping([]);
+    setFileName('');
+    setResult(null);
+    setCreateUnknownLocations(false);
+    setUnknownLocationParentId(null);
+  };
+
+  const changeCount = plan ? plan.locationsToCreate.length + plan.itemsToCreate.length + plan.itemsToUpdate.length : 0;
+
+  return (
+    <div className="min-h-screen bg-[var(--elevation-level-1-dark)]">
+      <Header />
+      <div className="p-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="mb-6">
+            <Button
+              variant="ghost"
+              onClick={() => navigate('/locations')}
+              icon={<IconArrowLeft size={20} />}
+              size="sm"
+            >
+              Back
+            </Button>
+          </div>
+
+          <h1 className="text-2xl font-semibold text-[var(--color-fg)] mb-2 flex items-center gap-2">
+            <IconUpload size={26} />
+            Import items
+          </h1>
+          {fileName && (
+            <div className="text-[var(--color-fg)] opacity-60 text-sm mb-6">
+              {fileName} · {table?.rows.length} row{table?.rows.length === 1 ? '' : 's'}
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <div className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-lg p-6 space-y-4 mt-4">
+              <p className="text-[var(--color-fg)] opacity-70">
+                Choose a CSV file with one item per row, or a JSON file exported from Ordning. Nothing is saved until you
+                have reviewed the changes.
+              </p>
+              <label className="inline-flex">
+                <input
+                  type="file"
+                  accept=".csv,.json,.txt,text/csv,application/json"
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+                <span className="inline-flex items-center justify-center gap-2 font-medium rounded-md border px-6 py-3 cursor-pointer bg-[var(--elevation-level-3-dark)] text-[var(--color-fg)] border-[var(--color-border)] hover:bg-[var(--elevation-level-4-dark)] transition-all">
+                  <IconUpload size={20} />
+                  Choose file
+                </span>
+              </label>
+            </div>
+          )}
+
+          {step === 'mapping' && table && (
+            <div className="space-y-4">
+              <div className="text-sm font-medium text-[var(--color-fg)] opacity-70">
+                Map each column to an item field or a property:
+              </div>
+              <div className="space-y-2">
+                {table.columns.map((column, index) => {
+                  const target = mapping[index];
+                  const samples = table.rows
+                    .slice(0, PREVIEW_ROW_COUNT)
+                    .map((row) => row.cells[index] || '')
+                    .filter((value) => value);
+                  return (
+                    <div
+                      key={column}
+                      className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-3 grid gap-3 md:grid-cols-[1fr_1fr_1fr] items-center"
+                    >
+                      <div className="min-w-0">
+                        <div className="text-[var(--color-fg)] font-medium truncate">{column}</div>
+                        <div className="text-[var(--color-fg)] opacity-50 text-xs truncate">
+                          {samples.length > 0 ? samples.join(', ') : 'No values in the first rows'}
+                        </div>
+                      </div>
+                      <Select
+                        value={targetToValue(target)}
+                        onChange={(e) => handleMappingChange(index, e.target.value)}
+                        aria-label={`Target for ${column}`}
+                      >
+                        <option value="ignore">Ignore</option>
+                        {(Object.keys(FIELD_LABELS) as ImportField[]).map((field) => (
+                          <option key={field} value={`field:${field}`}>
+                            {FIELD_LABELS[field]}
+                          </option>
+                        ))}
+                        <option value="property">Property</option>
+                      </Select>
+                      {target.type === 'property' ? (
+                        <Input
+                          type="text"
+                          value={target.key}
+                          onChange={(e) => handlePropertyKeyChange(index, e.target.value)}
+                          placeholder="Property name"
+                          aria-label={`Property name for ${column}`}
+                        />
+                      ) : (
+                        <div />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              {mappingError && (
+                <div className="text-sm text-[var(--color-error)]">{mappingError}</div>
+              )}
+              <div className="flex gap-3 justify-end">
+                <Button type="button" variant="secondary" onClick={handleStartOver}>
+                  Choose another file
+                </Button>
+                <Button type="button" onClick={() => setStep('preview')} disabled={!!mappingError}>
+                  Review changes
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (isLoadingInventory || !plan) && (
+            <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
+              Comparing with the current inventory...
+            </div>
+          )}
+
+          {step === 'preview' && !isLoadingInventory && plan && (
+            <div className="space-y-4">
+              <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+                <SummaryTile label="Locations to create" value={plan.locationsToCreate.length} />
+                <SummaryTile label="Items to create" value={plan.itemsToCreate.length} />
+                <SummaryTile label="Items to update" value={plan.itemsToUpdate.length} />
+                <SummaryTile label="Rows with errors" value={plan.rowErrors.length} isError={plan.rowErrors.length > 0} />
+              </div>
+              {plan.unchangedRowCount > 0 && (
+                <div className="text-sm text-[var(--color-fg)] opacity-60">
+                  {plan.unchangedRowCount} row{plan.unchangedRowCount === 1 ? ' matches' : 's match'} the current inventory and will be skipped.
+                </div>
+              )}
+
+              {plan.unknownLocationIds.length > 0 && (
+                <div className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-4 space-y-3">
+                  <div className="text-[var(--color-fg)]">
+                    {plan.unknownLocationIds.length} location ID{plan.unknownLocationIds.length === 1 ? ' does' : 's do'} not exist:{' '}
+                    <span className="font-mono text-sm">{plan.unknownLocationIds.join(', ')}</span>
+                  </div>
+                  <label className="flex items-center gap-2 text-[var(--color-fg)] text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={createUnknownLocations}
+                      onChange={(e) => setCreateUnknownLocations(e.target.checked)}
+                      className="w-4 h-4 accent-[var(--brand-color-light)]"
+                    />
+                    Create them as new locations
+                  </label>
+                  {createUnknownLocations && (
+                    <div className="space-y-1">
+                      <div className="text-sm text-[var(--color-fg)] opacity-70">
+                        Parent for the new locations (leave empty for top level):
+                      </div>
+                      <LocationPicker
+                        selectedLocationId={unknownLocationParentId}
+                        onSelectLocation={(location) => setUnknownLocationParentId(location?.id || null)}
+                        allowNone
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {plan.locationsToCreate.length > 0 && (
+                <PreviewSection title="Locations to create">
+                  {plan.locationsToCreate.map((location) => (
+                    <div key={location.id} className="text-sm text-[var(--color-fg)]">
+                      <span className="text-[var(--color-success)]">+</span>{' '}
+                      <span className="font-mono">{location.id}</span> {location.name !== location.id && location.name}
+                      <span className="opacity-50"> in {location.parentLocationId || 'top level'}</span>
+                    </div>
+                  ))}
+                </PreviewSection>
+              )}
+
+              {plan.itemsToCreate.length > 0 && (
+                <PreviewSection title="Items to create">
+                  {plan.itemsToCreate.map((item) => (
+                    <div key={item.rowNumber} className="text-sm text-[var(--color-fg)]">
+                      <span className="text-[var(--color-success)]">+</span> {item.name}
+                      <span className="opacity-50"> in {item.locationId}</span>
+                      {Object.keys(item.properties).length > 0 && (
+                        <span className="opacity-50">
+                          {' '}· {Object.entries(item.properties).map(([key, value]) => `${key}: ${value}`).join(', ')}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </PreviewSection>
+              )}
+
+              {plan.itemsToUpdate.length > 0 && (
+                <PreviewSection title="Items to update">
+                  {plan.itemsToUpdate.map((item) => (
+                    <div key={item.rowNumber} className="text-sm text-[var(--color-fg)]">
+                      <div>
+                        <span className="text-[var(--brand-color-light)]">~</span> {item.name}
+                      </div>
+                      {item.changes.map((change) => (
+                        <div key={change.field} className="ml-4 opacity-70">
+                          {change.field}: <span className="line-through opacity-60">{change.from || '(empty)'}</span> → {change.to || '(empty)'}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </PreviewSection>
+              )}
+
+              {plan.rowErrors.length > 0 && (
+                <PreviewSection title="Rows that will be skipped">
+                  {plan.rowErrors.map((rowError) => (
+                    <div key={rowError.rowNumber} className="text-sm text-[var(--color-error)]">
+                      Row {rowError.rowNumber}: {rowError.message}
+                    </div>
+                  ))}
+                </PreviewSection>
+              )}
+
+              <div className="flex gap-3 justify-end">
+                <Button type="button" variant="secondary" onClick={() => setStep('mapping')}>
+                  Back to mapping
+                </Button>
+                <Button type="button" onClick={handleImport} disabled={changeCount === 0} icon={<IconCheck size={20} />}>
+                  Import {changeCount} change{changeCount === 1 ? '' : 's'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {step === 'running' && (
+            <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
+              Importing... {progress.done} of {progress.total}
+            </div>
+          )}
+
+          {step === 'done' && result && (
+            <div className="space-y-4">
+              <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+                <SummaryTile label="Locations created" value={result.createdLocationCount} />
+                <SummaryTile label="Items created" value={result.createdItemCount} />
+                <SummaryTile label="Items updated" value={result.updatedItemCount} />
+                <SummaryTile label="Failed" value={result.failures.length} isError={result.failures.length > 0} />
+              </div>
+              {result.failures.length > 0 && (
+                <PreviewSection title="Errors">
+                  {result.failures.map((failure, index) => (
+                    <div key={index} className="text-sm text-[var(--color-error)] flex gap-2">
+                      <IconAlertTriangle size={16} className="shrink-0 mt-0.5" />
+                      <span>
+                        {failure.rowNumber !== null && `Row ${failure.rowNumber} · `}
+                        {failure.label}: {failure.message}
+                      </span>
+                    </div>
+                  ))}
+                </PreviewSection>
+              )}
+              <div className="flex gap-3 justify-end">
+                <Button type="button" variant="secondary" onClick={handleStartOver}>
+                  Import another file
+                </Button>
+                <Button type="button" onClick={() => navigate('/dashboard')}>
+                  Go to items
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SummaryTile({ label, value, isError = false }: { label: string; value: number; isError?: boolean }) {
+  return (
+    <div className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-3">
+      <div className={`text-2xl font-semibold ${isError ? 'text-[var(--color-error)]' : 'text-[var(--color-fg)]'}`}>{value}</div>
+      <div className="text-xs text-[var(--color-fg)] opacity-60">{label}</div>
+    </div>
+  );
+}
+
+function PreviewSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <div className="text-sm font-medium text-[var(--color-fg)] opacity-70 mb-1">{title}:</div>
+      <div className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-4 space-y-1 max-h-80 overflow-y-auto">
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,31 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { IconArrowLeft, IconTrash, IconMapPin, IconInfoCircle, IconChevronRight, IconArrowsMove, IconEdit } from '@tabler/icons-react';
-import { apiClient, unwrapResponse } from '../services/apiClient';
+import { IconArrowLeft, IconTrash, IconMapPin, IconInfoCircle, IconChevronRight, IconArrowsMove, IconEdit, IconHistory, IconGripVertical, IconMinus, IconPlus, IconAlertTriangle } from '@tabler/icons-react';
+import { apiClient, QUEUED_OFFLINE, unwrapMutationResponse, unwrapResponse } from '../services/apiClient';
 import type { components } from '../types/api';
-import { Button, ConfirmationModal } from '../components/ui';
+import { Button, ConfirmationModal, IconButton, Input } from '../components/ui';
 import { Header } from '../components/Header';
 import { IdTag } from '../components/IdTag';
+import { EntityHistory } from '../components/EntityHistory';
+import { ImageGallery } from '../components/ImageGallery';
 import { LocationTree } from '../components/LocationTree';
+import { LocationDropPanel } from '../components/LocationDropPanel';
+import { TagChips } from '../components/TagChips';
+import { useOptimisticItemMove } from '../hooks/useOptimisticItemMove';
+import { useUndoListener } from '../hooks/useUndoListener';
+import { useItemTemplates } from '../hooks/useItemTemplates';
+import { usePropertyDefinitions } from '../hooks/usePropertyDefinitions';
+import { writeItemDragData } from '../services/itemDrag';
+import { TEMPLATE_PARAM } from '../services/itemTemplates';
+import { moveItemsBack, restoreItems, undoSplitItem } from '../services/undoActions';
+import { showUndoToast } from '../services/undoToast';
+import { formatQuantity, parseQuantityInput } from '../services/quantity';
+import { findPropertyDefinition, formatPropertyValue, getPropertyType } from '../services/propertyDefinitions';
 import { Modal } from '../components/ui/Modal';
 import toast from 'react-hot-toast';
 
 type Item = components['schemas']['Item'];
+type ItemSplitResult = components['schemas']['ItemSplitResult'];
 type Location = components['schemas']['Location'];
 type LocationTreeNode = components['schemas']['LocationTreeNode'];
 
@@ -18,6 +33,8 @@ export function ItemDetailPage() {
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
   const [item, setItem] = useState<Item | null>(null);
+  const { definitions: propertyDefinitions } = usePropertyDefinitions();
+  const { templates } = useItemTemplates();
   const [location, setLocation] = useState<Location | null>(null);
   const [locationPath, setLocationPath] = useState<Location[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
@@ -30,6 +47,22 @@ export function ItemDetailPage() {
   const [locationTree, setLocationTree] = useState<LocationTreeNode[]>([]);
   const [isLoadingLocationTree, setIsLoadingLocationTree] = useState<boolean>(false);
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState<boolean>(false);
+  const [isAdjustingQuantity, setIsAdjustingQuantity] = useState<boolean>(false);
+  const [moveQuantityText, setMoveQuantityText] = useState<string>('');
+  const moveItems = useOptimisticItemMove();
+
+  const template = item?.templateId ? templates.find((candidate) => candidate.id === item.templateId) : undefined;
+  const hasQuantity = item?.quantity !== null && item?.quantity !== undefined;
+  // An empty quantity moves the whole item
+  const moveQuantity = hasQuantity ? parseQuantityInput(moveQuantityText) : null;
+  const isMoveQuantityValid = moveQuantity === null || (moveQuantity !== undefined && moveQuantity > 0 && moveQuantity <= (item?.quantity ?? 0));
+  const isSplitMove = hasQuantity && typeof moveQuantity === 'number' && moveQuantity < (item?.quantity ?? 0);
+
+  useUndoListener(() => {
+    if (id) {
+      fetchItem();
+    }
+  });
 
   useEffect(() => {
     if (id) {
@@ -184,7 +217,8 @@ export function ItemDetailPage() {
 
       // DELETE returns 204 No Content, so we just check for success
       if (responseData.response.status === 204 || responseData.response.ok) {
-        toast.success('Item deleted successfully');
+        const deletedItemId = id;
+        showUndoToast('Item deleted successfully', () => restoreItems([deletedItemId]));
         navigate('/dashboard');
       } else {
         throw new Error('Failed to delete item');
@@ -201,8 +235,23 @@ export function ItemDetailPage() {
     }
   };
 
+  const openMoveModal = () => {
+    setMoveQuantityText(item?.quantity?.toString() ?? '');
+    setIsMoveModalOpen(true);
+  };
+
+  const closeMoveModal = () => {
+    setIsMoveModalOpen(false);
+    setSelectedMoveLocationId(null);
+  };
+
   const handleMove = async () => {
-    if (!id || !item || !selectedMoveLocationId) return;
+    if (!id || !item || !selectedMoveLocationId || !isMoveQuantityValid) return;
+
+    if (isSplitMove && typeof moveQuantity === 'number') {
+      await handleSplitMove(moveQuantity, selectedMoveLocationId);
+      return;
+    }
 
     setIsMoving(true);
     try {
@@ -213,10 +262,10 @@ export function ItemDetailPage() {
         },
       });
 
-      await unwrapResponse<number>(responsePromise);
-      toast.success('Item moved successfully');
-      setIsMoveModalOpen(false);
-      setSelectedMoveLocationId(null);
+      await unwrapMutationResponse<number>(responsePromise);
+      const previousItem = item;
+      showUndoToast('Item moved successfully', () => moveItemsBack([previousItem], [id]));
+      closeMoveModal();
       // Refresh the item to show the new location
       await fetchItem();
     } catch (error) {
@@ -231,6 +280,93 @@ export function ItemDetailPage() {
     }
   };
 
+  const handleSplitMove = async (quantity: number, targetLocationId: string) => {
+    if (!id || !item) return;
+
+    setIsMoving(true);
+    try {
+      const result = await unwrapMutationResponse<ItemSplitResult>(apiClient.POST('/api/Item/{id}/split', {
+        params: {
+          path: {
+            id: id,
+          },
+        },
+        body: {
+          quantity,
+          targetLocationId,
+        },
+      }));
+
+      // Without the result there is nothing to undo, and the item keeps its quantity until the split is synced
+      if (result === QUEUED_OFFLINE) {
+        closeMoveModal();
+        return;
+      }
+
+      const movedLabel = formatQuantity(quantity, item.unit);
+      showUndoToast(
+        result.merged ? `Moved ${movedLabel} into the existing item there` : `Moved ${movedLabel} to a new item`,
+        () => undoSplitItem(result, quantity),
+      );
+      closeMoveModal();
+      if (result.source) {
+        setItem(result.source);
+      }
+    } catch (error) {
+      console.error('Failed to split item:', error);
+      if (error instanceof Error) {
+        toast.error(error.message || 'Failed to move quantity');
+      } else {
+        toast.error('Failed to move quantity');
+      }
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  const handleAdjustQuantity = async (delta: number) => {
+    if (!id) return;
+
+    setIsAdjustingQuantity(true);
+    try {
+      const updatedItem = await unwrapMutationResponse<Item>(apiClient.POST('/api/Item/{id}/quantity', {
+        params: {
+          path: {
+            id: id,
+          },
+        },
+        body: {
+          delta,
+        },
+      }));
+      setItem((current) => updatedItem === QUEUED_OFFLINE
+        ? current && { ...current, quantity: (current.quantity ?? 0) + delta }
+        : updatedItem);
+    } catch (error) {
+      console.error('Failed to change quantity:', error);
+      if (error instanceof Error) {
+        toast.error(error.message || 'Failed to change quantity');
+      } else {
+        toast.error('Failed to change quantity');
+      }
+    } finally {
+      setIsAdjustingQuantity(false);
+    }
+  };
+
+  const handleDropItems = (droppedItemIds: string[], targetLocation: Location) => {
+    if (!item?.id || !targetLocation.id || !droppedItemIds.includes(item.id) || item.locationId === targetLocation.id) return;
+
+    const previousItem = item;
+    moveItems({
+      itemIds: [item.id],
+      location: targetLocation,
+      previousItems: [previousItem],
+      apply: () => setItem({ ...previousItem, locationId: targetLocation.id }),
+      rollback: () => setItem(previousItem),
+    });
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-[var(--elevation-level-1-dark)]">
@@ -265,7 +401,8 @@ export function ItemDetailPage() {
     <div className="min-h-screen bg-[var(--elevation-level-1-dark)]">
       <Header />
       <div className="p-4">
-        <div className="max-w-2xl mx-auto">
+        <div className="max-w-6xl mx-auto flex gap-6">
+        <div className="flex-1 min-w-0 max-w-2xl mx-auto">
           <div className="mb-6">
             <Button
               variant="ghost"
@@ -277,10 +414,18 @@ export function ItemDetailPage() {
             </Button>
           </div>
 
-          <h1 className="text-2xl font-semibold text-[var(--color-fg)] mb-2">
-            {item.name || 'Unnamed Item'}
+          <h1
+            className="text-2xl font-semibold text-[var(--color-fg)] mb-2 flex items-center gap-2 lg:cursor-grab"
+            draggable={!!item.id}
+            onDragStart={(e) => item.id && writeItemDragData(e.dataTransfer, [item.id])}
+            title="Drag onto a location to move this item"
+          >
+            <IconGripVertical size={20} className="hidden lg:block shrink-0 opacity-40" />
+            <span>{item.name || 'Unnamed Item'}</span>
           </h1>
 
+          <TagChips tags={item.tags} className="mb-4" />
+
           {item.description && (
             <p className="text-[var(--color-fg)] opacity-70 mb-6">
               {item.description}
@@ -288,6 +433,53 @@ export function ItemDetailPage() {
           )}
 
           <div className="space-y-6">
+            {item.imageIds && item.imageIds.length > 0 && (
+              <ImageGallery imageIds={item.imageIds} alt={item.name || 'Unnamed Item'} />
+            )}
+
+            {hasQuantity && (
+              <div>
+                <div className="text-sm font-medium text-[var(--color-fg)] opacity-70 mb-2">
+                  Quantity:
+                </div>
+                <div className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-4 flex items-center gap-4 flex-wrap">
+                  <div className="flex items-center gap-2">
+                    <IconButton
+                      type="button"
+                      variant="ghost"
+                      onClick={() => handleAdjustQuantity(-1)}
+                      disabled={isAdjustingQuantity || (item.quantity ?? 0) < 1}
+                      aria-label="Decrease quantity"
+                    >
+                      <IconMinus size={20} />
+                    </IconButton>
+                    <span className="text-xl font-semibold text-[var(--color-fg)] min-w-[5rem] text-center tabular-nums">
+                      {formatQuantity(item.quantity, item.unit)}
+                    </span>
+                    <IconButton
+                      type="button"
+                      variant="ghost"
+                      onClick={() => handleAdjustQuantity(1)}
+                      disabled={isAdjustingQuantity}
+                      aria-label="Increase quantity"
+                    >
+                      <IconPlus size={20} />
+                    </IconButton>
+                  </div>
+                  {item.isLowStock ? (
+                    <span className="flex items-center gap-1 text-sm text-danger-dark">
+                      <IconAlertTriangle size={16} />
+                      Low on stock, below {formatQuantity(item.minQuantity, item.unit)}
+                    </span>
+                  ) : item.minQuantity !== null && item.minQuantity !== undefined && (
+                    <span className="text-sm text-[var(--color-fg)] opacity-60">
+                      Low stock below {formatQuantity(item.minQuantity, item.unit)}
+                    </span>
+                  )}
+                </div>
+              </div>
+            )}
+
             {item.locationId && (
               <div>
                 <div className="text-sm font-medium text-[var(--color-fg)] opacity-70 mb-2">
@@ -367,6 +559,22 @@ export function ItemDetailPage() {
                   size={20} 
                 />
                 <div className="pr-6 space-y-4">
+                  {template && (
+                    <div>
+                      <div className="text-sm font-medium text-[var(--color-fg)] opacity-70 mb-1">
+                        Template
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => navigate(`/dashboard?${new URLSearchParams({ [TEMPLATE_PARAM]: template.id || '' })}`)}
+                        className="text-[var(--color-fg)] underline opacity-80 hover:opacity-100"
+                        title="Show all items from this template"
+                      >
+                        {template.name}
+                      </button>
+                    </div>
+                  )}
+
                   {item.createdAt && (
                     <div>
                       <div className="text-sm font-medium text-[var(--color-fg)] opacity-70 mb-1">
@@ -384,16 +592,23 @@ export function ItemDetailPage() {
                         Properties
                       </div>
                       <div className="space-y-2">
-                        {Object.entries(item.properties).map(([key, value]) => (
-                          <div key={key} className="flex gap-2">
-                            <div className="text-[var(--color-fg)] font-medium min-w-[100px]">
-                              {key}:
-                            </div>
-                            <div className="text-[var(--color-fg)] opacity-80">
-                              {value}
+                        {Object.entries(item.properties).map(([key, value]) => {
+                          const definition = findPropertyDefinition(propertyDefinitions, key);
+                          return (
+                            <div key={key} className="flex gap-2">
+                              <div className="text-[var(--color-fg)] font-medium min-w-[100px]">
+                                {definition?.name || key}:
+                              </div>
+                              <div className="text-[var(--color-fg)] opacity-80 min-w-0 break-words">
+                                {definition && getPropertyType(definition) === 'url' ? (
+                                  <a href={value} target="_blank" rel="noopener noreferrer" className="underline hover:opacity-100">
+                                    {value}
+                                  </a>
+                                ) : formatPropertyValue(definition, value)}
+                              </div>
                             </div>
-                          </div>
-                        ))}
+                          );
+                        })}
                       </div>
                     </div>
                   )}
@@ -415,10 +630,10 @@ export function ItemDetailPage() {
               <Button
                 type="button"
                 variant="outlinePrimary"
-                onClick={() => setIsMoveModalOpen(true)}
+                onClick={openMoveModal}
                 disabled={isDeleting}
                 icon={<IconArrowsMove size={20} />}
-                className="w-full md:w-auto"
+                className={`w-full md:w-auto ${hasQuantity ? '' : 'lg:hidden'}`}
               >
                 Move
               </Button>
@@ -433,16 +648,32 @@ export function ItemDetailPage() {
                 Delete
               </Button>
             </div>
+
+            {id && (
+              <div>
+                <div className="text-sm font-medium text-[var(--color-fg)] opacity-70 mb-2">
+                  History:
+                </div>
+                <div className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-4 relative">
+                  <IconHistory 
+                    className="absolute top-4 right-4 text-[var(--color-fg)] opacity-40" 
+                    size={20} 
+                  />
+                  <div className="pr-6">
+                    <EntityHistory key={item.updatedAt} entityType="item" entityId={id} />
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
         </div>
+        <LocationDropPanel onDropItems={handleDropItems} currentLocationId={item.locationId} />
+        </div>
       </div>
 
       <Modal
         isOpen={isMoveModalOpen}
-        onClose={() => {
-          setIsMoveModalOpen(false);
-          setSelectedMoveLocationId(null);
-        }}
+        onClose={closeMoveModal}
         title="Move Item"
         className="max-w-2xl"
       >
@@ -450,6 +681,23 @@ export function ItemDetailPage() {
           <div className="text-[var(--color-fg)] opacity-70 text-sm">
             Select a new location for "{item.name || 'this item'}":
           </div>
+          {hasQuantity && (
+            <Input
+              label={`Quantity to move${item.unit ? ` (${item.unit})` : ''}`}
+              type="text"
+              inputMode="decimal"
+              value={moveQuantityText}
+              onChange={(e) => setMoveQuantityText(e.target.value)}
+              error={isMoveQuantityValid ? undefined : `Enter more than 0 and at most ${formatQuantity(item.quantity, item.unit)}`}
+              disabled={isMoving}
+              autoComplete="off"
+            />
+          )}
+          {isSplitMove && (
+            <div className="text-[var(--color-fg)] opacity-70 text-sm">
+              The rest stays here. The moved quantity is added to an item with the same name and unit in the new location, or becomes a new item there.
+            </div>
+          )}
           {isLoadingLocationTree ? (
             <div className="text-center py-8 text-[var(--color-fg)] opacity-70">
               Loading locations...
@@ -469,10 +717,7 @@ export function ItemDetailPage() {
             <Button
               type="button"
               variant="secondary"
-              onClick={() => {
-                setIsMoveModalOpen(false);
-                setSelectedMoveLocationId(null);
-              }}
+              onClick={closeMoveModal}
               disabled={isMoving}
             >
               Cancel
@@ -482,9 +727,9 @@ export function ItemDetailPage() {
               variant="primary"
               onClick={handleMove}
               loading={isMoving}
-              disabled={isMoving || !selectedMoveLocationId}
+              disabled={isMoving || !selectedMoveLocationId || !isMoveQuantityValid}
             >
-              Move Item
+              {isSplitMove ? `Move ${formatQuantity(moveQuantity, item.unit)}` : 'Move Item'}
             </Button>
           </div>
         </div>
@@ -495,7 +740,7 @@ export function ItemDetailPage() {
         onClose={() => setIsDeleteConfirmOpen(false)}
         onConfirm={handleDelete}
         title="Delete Item"
-        message={`Are you sure you want to delete "${item?.name || 'this item'}"? This action cannot be undone.`}
+        message={`Are you sure you want to delete "${item?.name || 'this item'}"?`}
         confirmText="Delete"
         cancelText="Cancel"
         variant="danger"
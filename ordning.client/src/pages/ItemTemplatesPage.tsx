@@ -0,0 +1,320 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { IconEdit, IconPlus, IconTrash, IconX } from '@tabler/icons-react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import { Button, ConfirmationModal, IconButton, Input, Modal, Textarea } from '../components/ui';
+import { Header } from '../components/Header';
+import { useItemTemplates } from '../hooks/useItemTemplates';
+import { usePropertyDefinitions } from '../hooks/usePropertyDefinitions';
+import { findPropertyDefinition, formatPropertyValue, type PropertyRow } from '../services/propertyDefinitions';
+import toast from 'react-hot-toast';
+
+type ItemTemplate = components['schemas']['ItemTemplate'];
+type CreateItemTemplateRequest = components['schemas']['CreateItemTemplateRequest'];
+type PropertyDefinition = components['schemas']['PropertyDefinition'];
+
+const DEFINED_KEYS_LIST_ID = 'item-template-defined-keys';
+
+interface ItemTemplateModalProps {
+  template: ItemTemplate | null;
+  definitions: PropertyDefinition[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+/** Creates a template, or edits one when given. Items already created from the template keep their values. */
+function ItemTemplateModal({ template, definitions, onClose, onSaved }: ItemTemplateModalProps) {
+  const [name, setName] = useState<string>(template?.name || '');
+  const [description, setDescription] = useState<string>(template?.description || '');
+  const [rows, setRows] = useState<PropertyRow[]>(() => {
+    const templateRows = (template?.properties || []).map((property) => ({ key: property.key || '', value: property.value || '' }));
+    return templateRows.length > 0 ? templateRows : [{ key: '', value: '' }];
+  });
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const isEditing = template !== null;
+
+  const handleRowChange = (index: number, field: keyof PropertyRow, value: string) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const removeRow = (index: number) => {
+    const remainingRows = rows.filter((_, i) => i !== index);
+    setRows(remainingRows.length > 0 ? remainingRows : [{ key: '', value: '' }]);
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault();
+
+    const request: CreateItemTemplateRequest = {
+      name: name.trim(),
+      description: description.trim() || null,
+      properties: rows
+        .filter((row) => row.key.trim())
+        .map((row) => ({ key: row.key.trim(), value: row.value.trim() })),
+    };
+
+    setIsSaving(true);
+    try {
+      if (isEditing) {
+        await unwrapResponse<ItemTemplate>(apiClient.PUT('/api/ItemTemplate/{id}', {
+          params: {
+            path: {
+              id: template.id || '',
+            },
+          },
+          body: request,
+        }));
+        toast.success('Template updated');
+      } else {
+        await unwrapResponse<ItemTemplate>(apiClient.POST('/api/ItemTemplate', { body: request }));
+        toast.success('Template created');
+      }
+      onSaved();
+    } catch (error) {
+      console.error('Failed to save item template:', error);
+      toast.error(error instanceof Error ? error.message || 'Failed to save template' : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={isEditing ? 'Edit Template' : 'New Template'} className="max-w-lg">
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <Input
+          label="Name"
+          placeholder="e.g. Battery"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+          maxLength={255}
+          disabled={isSaving}
+          autoComplete="off"
+        />
+        <Textarea
+          label="Description (optional)"
+          placeholder="Filled in on new items"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={1000}
+          disabled={isSaving}
+        />
+        <div className="space-y-1.5">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-[var(--color-fg)]">
+              Properties
+            </label>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setRows([...rows, { key: '', value: '' }])}
+              icon={<IconPlus size={16} />}
+              disabled={isSaving}
+            >
+              Add Property
+            </Button>
+          </div>
+          {rows.map((row, index) => (
+            <div key={index} className="flex gap-2 items-start">
+              <Input
+                type="text"
+                placeholder="Key"
+                value={row.key}
+                onChange={(e) => handleRowChange(index, 'key', e.target.value)}
+                list={DEFINED_KEYS_LIST_ID}
+                maxLength={100}
+                disabled={isSaving}
+                className="flex-1"
+              />
+              <Input
+                type="text"
+                placeholder="Default value (optional)"
+                value={row.value}
+                onChange={(e) => handleRowChange(index, 'value', e.target.value)}
+                disabled={isSaving}
+                className="flex-1"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeRow(index)}
+                disabled={isSaving || rows.length === 1}
+                icon={<IconX size={16} />}
+                className="shrink-0"
+              />
+            </div>
+          ))}
+          <datalist id={DEFINED_KEYS_LIST_ID}>
+            {definitions.map((definition) => (
+              <option key={definition.key} value={definition.key || ''}>{definition.name}</option>
+            ))}
+          </datalist>
+        </div>
+        <div className="flex gap-3 justify-end pt-2">
+          <Button type="button" variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="outlinePrimary" loading={isSaving} disabled={isSaving}>
+            {isEditing ? 'Save' : 'Create'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+function describeTemplate(template: ItemTemplate, definitions: PropertyDefinition[]): string {
+  const properties = (template.properties || []).map((property) => {
+    const key = property.key || '';
+    const definition = findPropertyDefinition(definitions, key);
+    const label = definition?.name || key;
+    return property.value ? `${label}: ${formatPropertyValue(definition, property.value)}` : label;
+  });
+  return properties.length > 0 ? properties.join(' · ') : 'No properties';
+}
+
+export function ItemTemplatesPage() {
+  const { templates, isLoaded, reload } = useItemTemplates();
+  const { definitions } = usePropertyDefinitions();
+  const [isAdmin, setIsAdmin] = useState<boolean>(false);
+  const [editingTemplate, setEditingTemplate] = useState<ItemTemplate | null | undefined>(undefined);
+  const [deletingTemplate, setDeletingTemplate] = useState<ItemTemplate | null>(null);
+  const [isDeleting, setIsDeleting] = useState<boolean>(false);
+
+  useEffect(() => {
+    unwrapResponse<boolean>(apiClient.GET('/api/User/is-admin'))
+      .then(setIsAdmin)
+      .catch((error) => console.error('Failed to check admin status:', error));
+  }, []);
+
+  const handleSaved = () => {
+    setEditingTemplate(undefined);
+    reload();
+  };
+
+  const handleDelete = async () => {
+    const id = deletingTemplate?.id;
+    if (!id) return;
+
+    setIsDeleting(true);
+    try {
+      const response = await apiClient.DELETE('/api/ItemTemplate/{id}', {
+        params: {
+          path: {
+            id,
+          },
+        },
+      });
+
+      if (response.response.status === 403) {
+        throw new Error('You lack the required privileges to perform this action');
+      }
+      if (!response.response.ok) {
+        throw new Error('Failed to delete template');
+      }
+
+      toast.success('Template deleted');
+      setDeletingTemplate(null);
+      reload();
+    } catch (error) {
+      console.error('Failed to delete item template:', error);
+      toast.error(error instanceof Error ? error.message || 'Failed to delete template' : 'Failed to delete template');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[var(--elevation-level-1-dark)]">
+      <Header />
+      <div className="p-4">
+        <div className="max-w-2xl mx-auto">
+          <div className="flex items-center justify-between gap-3 mb-1">
+            <h1 className="text-2xl font-semibold text-[var(--color-fg)]">
+              Templates
+            </h1>
+            {isAdmin && (
+              <Button
+                variant="outlinePrimary"
+                onClick={() => setEditingTemplate(null)}
+                icon={<IconPlus size={20} />}
+              >
+                New Template
+              </Button>
+            )}
+          </div>
+          <p className="text-sm text-[var(--color-fg)] opacity-70 mb-4">
+            Picking a template when adding an item fills in its description and properties. Items remember their template, so search results can be limited to one.
+          </p>
+
+          {!isLoaded ? (
+            <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
+              Loading templates...
+            </div>
+          ) : templates.length === 0 ? (
+            <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
+              No templates yet
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {templates.map((template) => (
+                <div
+                  key={template.id}
+                  className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-3 flex items-center gap-3"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-[var(--color-fg)] font-medium truncate">
+                      {template.name}
+                    </div>
+                    <div className="text-[var(--color-fg)] opacity-70 text-sm truncate">
+                      {describeTemplate(template, definitions)}
+                    </div>
+                  </div>
+                  {isAdmin && (
+                    <>
+                      <IconButton
+                        onClick={() => setEditingTemplate(template)}
+                        aria-label={`Edit ${template.name}`}
+                      >
+                        <IconEdit size={18} />
+                      </IconButton>
+                      <IconButton
+                        variant="danger"
+                        onClick={() => setDeletingTemplate(template)}
+                        aria-label={`Delete ${template.name}`}
+                      >
+                        <IconTrash size={18} />
+                      </IconButton>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {editingTemplate !== undefined && (
+        <ItemTemplateModal
+          template={editingTemplate}
+          definitions={definitions}
+          onClose={() => setEditingTemplate(undefined)}
+          onSaved={handleSaved}
+        />
+      )}
+
+      <ConfirmationModal
+        isOpen={deletingTemplate !== null}
+        onClose={() => setDeletingTemplate(null)}
+        onConfirm={handleDelete}
+        title="Delete Template"
+        message={`Delete "${deletingTemplate?.name}"? Items created from it are kept, but no longer belong to it.`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={isDeleting}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { IconArrowLeft, IconPrinter, IconFileTypePdf, IconFileTypeSvg } from '@tabler/icons-react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import { Button, Input, Select } from '../components/ui';
+import { Header } from '../components/Header';
+import { LocationTree } from '../components/LocationTree';
+import { LABEL_SHEET_LAYOUTS, paginateLabels, renderLabelSheetSvg, type LabelData } from '../services/labelSheet';
+import { renderLabelSheetPdf } from '../services/labelSheetPdf';
+import { downloadFile } from '../services/download';
+import toast from 'react-hot-toast';
+
+type Location = components['schemas']['Location'];
+type LocationTreeNode = components['schemas']['LocationTreeNode'];
+
+const PATH_SEPARATOR = ' / ';
+
+function findNode(nodes: LocationTreeNode[], id: string): LocationTreeNode | null {
+  for (const node of nodes) {
+    if (node.location?.id === id) {
+      return node;
+    }
+    const found = findNode(node.children || [], id);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+function collectLabels(node: LocationTreeNode, parentPath: string[], includeChildren: boolean, labels: LabelData[]) {
+  const location = node.location;
+  if (!location?.id) {
+    return;
+  }
+
+  labels.push({
+    id: location.id,
+    name: location.name || location.id,
+    path: parentPath.join(PATH_SEPARATOR),
+    url: `${window.location.origin}/locations/${encodeURIComponent(location.id)}`,
+  });
+
+  if (includeChildren) {
+    const childPath = [...parentPath, location.name || location.id];
+    for (const child of node.children || []) {
+      collectLabels(child, childPath, includeChildren, labels);
+    }
+  }
+}
+
+export function LabelsPage() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedLocationId = searchParams.get('location');
+  const [tree, setTree] = useState<LocationTreeNode[]>([]);
+  const [isLoadingTree, setIsLoadingTree] = useState<boolean>(true);
+  const [rootPath, setRootPath] = useState<string[]>([]);
+  const [layoutId, setLayoutId] = useState<string>(LABEL_SHEET_LAYOUTS[0].id);
+  const [includeChildren, setIncludeChildren] = useState<boolean>(true);
+  const [skippedPositions, setSkippedPositions] = useState<number>(0);
+
+  useEffect(() => {
+    const fetchTree = async () => {
+      setIsLoadingTree(true);
+      try {
+        const responsePromise = apiClient.GET('/api/Location/tree');
+        const data = await unwrapResponse<LocationTreeNode[]>(responsePromise);
+        setTree(data || []);
+      } catch (error) {
+        console.error('Failed to fetch location tree:', error);
+        toast.error('Failed to load locations');
+        setTree([]);
+      } finally {
+        setIsLoadingTree(false);
+      }
+    };
+
+    fetchTree();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedLocationId) {
+      setRootPath([]);
+      return;
+    }
+
+    const fetchPath = async () => {
+      try {
+        const responsePromise = apiClient.GET('/api/Location/{id}/path', {
+          params: {
+            path: {
+              id: selectedLocationId,
+            },
+          },
+        });
+
+        const path = await unwrapResponse<Location[]>(responsePromise);
+        // The path ends with the location itself; labels show where it is found
+        setRootPath(path.slice(0, -1).map((location) => location.name || location.id || ''));
+      } catch (error) {
+        console.error('Failed to fetch location path:', error);
+        setRootPath([]);
+      }
+    };
+
+    fetchPath();
+  }, [selectedLocationId]);
+
+  const layout = LABEL_SHEET_LAYOUTS.find((candidate) => candidate.id === layoutId) || LABEL_SHEET_LAYOUTS[0];
+  const labelsPerPage = layout.columns * layout.rows;
+
+  const labels = useMemo(() => {
+    if (!selectedLocationId) {
+      return [];
+    }
+
+    const rootNode = findNode(tree, selectedLocationId);
+    if (!rootNode) {
+      return [];
+    }
+
+    const collected: LabelData[] = [];
+    collectLabels(rootNode, rootPath, includeChildren, collected);
+    return collected;
+  }, [tree, selectedLocationId, rootPath, includeChildren]);
+
+  const pages = useMemo(
+    () => paginateLabels(labels, layout, skippedPositions),
+    [labels, layout, skippedPositions],
+  );
+
+  const svgPages = useMemo(
+    () => pages.map((page) => renderLabelSheetSvg(page, layout)),
+    [pages, layout],
+  );
+
+  const handleSelectLocation = (location: Location) => {
+    if (location.id) {
+      setSearchParams({ location: location.id }, { replace: true });
+    }
+  };
+
+  const handleDownloadPdf = () => {
+    downloadFile(renderLabelSheetPdf(pages, layout), `labels-${selectedLocationId}.pdf`, 'application/pdf');
+  };
+
+  const handleDownloadSvg = () => {
+    svgPages.forEach((svg, index) => {
+      const suffix = svgPages.length > 1 ? `-page-${index + 1}` : '';
+      downloadFile(svg, `labels-${selectedLocationId}${suffix}.svg`, 'image/svg+xml');
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-[var(--elevation-level-1-dark)]">
+      <style>{`
+        .label-sheet-page svg {
+          display: block;
+          width: 100%;
+          height: auto;
+        }
+        @media print {
+          @page {
+            size: ${layout.pageWidth}mm ${layout.pageHeight}mm;
+            margin: 0;
+          }
+          body * {
+            visibility: hidden;
+          }
+          .label-sheet-print, .label-sheet-print * {
+            visibility: visible;
+          }
+          .label-sheet-print {
+            position: absolute;
+            top: 0;
+            left: 0;
+          }
+          .label-sheet-page {
+            margin: 0 !important;
+            box-shadow: none !important;
+            break-after: page;
+          }
+          .label-sheet-page svg {
+            width: ${layout.pageWidth}mm;
+            height: ${layout.pageHeight}mm;
+          }
+        }
+      `}</style>
+      <Header />
+      <div className="p-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="mb-6">
+            <Button
+              variant="ghost"
+              onClick={() => navigate(selectedLocationId ? `/locations/${selectedLocationId}` : '/locations')}
+              icon={<IconArrowLeft size={20} />}
+              size="sm"
+            >
+              Back
+            </Button>
+          </div>
+
+          <h1 className="text-2xl font-semibold text-[var(--color-fg)] mb-6 flex items-center gap-2">
+            <IconPrinter size={26} />
+            Print labels
+          </h1>
+
+          <div className="grid gap-6 md:grid-cols-2">
+            <div>
+              <div className="text-sm font-medium text-[var(--color-fg)] mb-2">
+                Location subtree
+              </div>
+              <div className="border border-[var(--color-border)] rounded-lg p-2 bg-[var(--elevation-level-1-dark)] max-h-80 overflow-y-auto">
+                {isLoadingTree ? (
+                  <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
+                    Loading locations...
+                  </div>
+                ) : (
+                  <LocationTree
+                    nodes={tree}
+                    selectedLocationId={selectedLocationId}
+                    onSelectLocation={handleSelectLocation}
+                  />
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <Select
+                label="Label sheet"
+                value={layoutId}
+                onChange={(e) => setLayoutId(e.target.value)}
+              >
+                {LABEL_SHEET_LAYOUTS.map((candidate) => (
+                  <option key={candidate.id} value={candidate.id}>
+                    {candidate.name}
+                  </option>
+                ))}
+              </Select>
+
+              <Input
+                label="Skip labels on first sheet"
+                type="number"
+                min={0}
+                max={labelsPerPage - 1}
+                value={skippedPositions}
+                onChange={(e) => setSkippedPositions(Math.min(labelsPerPage - 1, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+              />
+
+              <label className="flex items-center gap-2 text-[var(--color-fg)] text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includeChildren}
+                  onChange={(e) => setIncludeChildren(e.target.checked)}
+                  className="w-4 h-4 accent-[var(--brand-color-light)]"
+                />
+                Include all sub-locations
+              </label>
+
+              <div className="text-sm text-[var(--color-fg)] opacity-70">
+                {labels.length} label{labels.length === 1 ? '' : 's'} on {pages.length} sheet{pages.length === 1 ? '' : 's'}
+              </div>
+
+              <div className="flex flex-col gap-3">
+                <Button
+                  onClick={() => window.print()}
+                  icon={<IconPrinter size={20} />}
+                  disabled={labels.length === 0}
+                >
+                  Print
+                </Button>
+                <div className="flex gap-3">
+                  <Button
+                    variant="secondary"
+                    onClick={handleDownloadPdf}
+                    icon={<IconFileTypePdf size={20} />}
+                    disabled={labels.length === 0}
+                    className="flex-1"
+                  >
+                    PDF
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    onClick={handleDownloadSvg}
+                    icon={<IconFileTypeSvg size={20} />}
+                    disabled={labels.length === 0}
+                    className="flex-1"
+                  >
+                    SVG
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {!selectedLocationId && !isLoadingTree && (
+            <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
+              Select a location to print labels for it and everything inside it
+            </div>
+          )}
+
+          {svgPages.length > 0 && (
+            <div className="label-sheet-print mt-8">
+              {svgPages.map((svg, index) => (
+                <div
+                  key={index}
+                  className="label-sheet-page mb-6 bg-white rounded shadow-lg overflow-hidden"
+                  dangerouslySetInnerHTML={{ __html: svg }}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,26 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { IconArrowLeft, IconTrash, IconMapPin, IconInfoCircle, IconPlus, IconEdit } from '@tabler/icons-react';
+import { IconArrowLeft, IconTrash, IconMapPin, IconInfoCircle, IconPlus, IconEdit, IconPrinter, IconHistory, IconLock, IconShare } from '@tabler/icons-react';
 import { apiClient, unwrapResponse } from '../services/apiClient';
 import type { components } from '../types/api';
-import { Button, ConfirmationModal } from '../components/ui';
+import { Button } from '../components/ui';
 import { Header } from '../components/Header';
 import { IdTag } from '../components/IdTag';
+import { EntityHistory } from '../components/EntityHistory';
+import { ImageGallery } from '../components/ImageGallery';
+import { TagChips } from '../components/TagChips';
+import { DeleteLocationModal } from '../components/DeleteLocationModal';
+import { LocationAccessPanel } from '../components/LocationAccessPanel';
+import { ShareLinksPanel } from '../components/ShareLinksPanel';
+import { LocationDropPanel } from '../components/LocationDropPanel';
+import { ItemThumbnail } from '../components/ItemThumbnail';
+import { BulkActionBar } from '../components/BulkActionBar';
+import { useItemSelection } from '../hooks/useItemSelection';
+import { useOptimisticItemMove } from '../hooks/useOptimisticItemMove';
+import { useUndoListener } from '../hooks/useUndoListener';
+import { useWorkspaces } from '../hooks/useWorkspaces';
+import { getDraggedItemIds, getItemIdsToMove, writeItemDragData } from '../services/itemDrag';
+import { hasWorkspaceRole } from '../services/workspaces';
 import toast from 'react-hot-toast';
 
 type Location = components['schemas']['Location'];
@@ -20,8 +35,21 @@ export function LocationDetailPage() {
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isLoadingParent, setIsLoadingParent] = useState<boolean>(false);
   const [isLoadingItems, setIsLoadingItems] = useState<boolean>(false);
-  const [isDeleting, setIsDeleting] = useState<boolean>(false);
-  const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState<boolean>(false);
+  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState<boolean>(false);
+  const itemIds = useMemo(
+    () => items.map((item) => item.id).filter((itemId): itemId is string => !!itemId),
+    [items],
+  );
+  const itemSelection = useItemSelection(itemIds);
+  const moveItems = useOptimisticItemMove();
+  const { currentWorkspace } = useWorkspaces();
+
+  useUndoListener(() => {
+    if (id) {
+      fetchLocation();
+      fetchItems();
+    }
+  });
 
   useEffect(() => {
     if (id) {
@@ -121,57 +149,25 @@ export function LocationDetailPage() {
   };
 
   const handleDeleteClick = () => {
-    setIsDeleteConfirmOpen(true);
+    setIsDeleteModalOpen(true);
   };
 
-  const handleDelete = async () => {
-    if (!id || !location) return;
-
-    setIsDeleteConfirmOpen(false);
-    setIsDeleting(true);
-    try {
-      const response = await apiClient.DELETE('/api/Location/{id}', {
-        params: {
-          path: {
-            id: id,
-          },
-        },
-      });
-
-      const responseData = response as { error?: unknown; response: Response };
-      
-      // Check for 403 Forbidden status first
-      if (responseData.response.status === 403) {
-        throw new Error('You lack the required privileges to perform this action');
-      }
-      
-      if (responseData.error) {
-        const errorMessage = typeof responseData.error === 'string' 
-          ? responseData.error 
-          : (responseData.error as { message?: string; detail?: string; title?: string })?.message 
-            || (responseData.error as { message?: string; detail?: string; title?: string })?.detail 
-            || (responseData.error as { message?: string; detail?: string; title?: string })?.title 
-            || 'Failed to delete location';
-        throw new Error(errorMessage);
-      }
-
-      // DELETE returns 204 No Content, so we just check for success
-      if (responseData.response.status === 204 || responseData.response.ok) {
-        toast.success('Location deleted successfully');
-        navigate('/locations');
-      } else {
-        throw new Error('Failed to delete location');
-      }
-    } catch (error) {
-      console.error('Failed to delete location:', error);
-      if (error instanceof Error) {
-        toast.error(error.message || 'Failed to delete location');
-      } else {
-        toast.error('Failed to delete location');
-      }
-    } finally {
-      setIsDeleting(false);
-    }
+  const closeDeleteModal = useCallback(() => {
+    setIsDeleteModalOpen(false);
+  }, []);
+
+  const handleDropItems = (droppedItemIds: string[], targetLocation: Location) => {
+    if (!targetLocation.id) return;
+
+    const itemIdsToMove = getItemIdsToMove(items, droppedItemIds, targetLocation.id);
+    const previousItems = items;
+    moveItems({
+      itemIds: itemIdsToMove,
+      location: targetLocation,
+      previousItems,
+      apply: () => setItems((current) => current.filter((item) => !item.id || !itemIdsToMove.includes(item.id))),
+      rollback: () => setItems(previousItems),
+    });
   };
 
   if (isLoading) {
@@ -208,7 +204,8 @@ export function LocationDetailPage() {
     <div className="min-h-screen bg-[var(--elevation-level-1-dark)]">
       <Header />
       <div className="p-4">
-        <div className="max-w-2xl mx-auto">
+        <div className="max-w-6xl mx-auto flex gap-6">
+        <div className="flex-1 min-w-0 max-w-2xl mx-auto">
           <div className="mb-3">
             <Button
               variant="ghost"
@@ -225,6 +222,8 @@ export function LocationDetailPage() {
             <span>{location.name || location.id || 'Unnamed Location'}</span>
           </h1>
 
+          <TagChips tags={location.tags} className="mb-3" />
+
           {location.description && (
             <p className="text-[var(--color-fg)] opacity-70 mb-3">
               {location.description}
@@ -232,6 +231,10 @@ export function LocationDetailPage() {
           )}
 
           <div className="space-y-3">
+            {location.imageIds && location.imageIds.length > 0 && (
+              <ImageGallery imageIds={location.imageIds} alt={location.name || location.id || 'Unnamed Location'} />
+            )}
+
             {location.parentLocationId && (
               <div>
                 <div className="text-sm font-medium text-[var(--color-fg)] opacity-70 mb-1">
@@ -352,34 +355,68 @@ export function LocationDetailPage() {
                     No items in this location
                   </div>
                 ) : (
-                  <div className="space-y-1">
-                    {items.map((item) => (
-                      <div
-                        key={item.id}
-                        className="bg-[var(--elevation-level-3-dark)] border border-[var(--color-border)] rounded-md p-3 cursor-pointer hover:bg-[var(--elevation-level-4-dark)] transition-colors"
-                        onClick={() => item.id && navigate(`/items/${item.id}`)}
-                      >
-                        <div className="text-[var(--color-fg)] font-medium">
-                          {item.name || 'Unnamed Item'}
-                        </div>
-                        {item.description && (
-                          <div className="text-[var(--color-fg)] opacity-70 text-sm mt-1">
-                            {item.description}
+                  <>
+                    <BulkActionBar
+                      selectedItemIds={itemSelection.selectedIds}
+                      items={items}
+                      totalItemCount={itemIds.length}
+                      onSelectAll={() => itemSelection.selectAll(itemIds)}
+                      onClearSelection={itemSelection.clear}
+                      onItemsChanged={fetchItems}
+                    />
+                    <div className="space-y-1">
+                      {items.map((item) => (
+                        <div
+                          key={item.id}
+                          className="bg-[var(--elevation-level-3-dark)] border border-[var(--color-border)] rounded-md p-3 cursor-pointer hover:bg-[var(--elevation-level-4-dark)] transition-colors flex items-start gap-3"
+                          onClick={() => item.id && navigate(`/items/${item.id}`)}
+                          draggable={!!item.id}
+                          onDragStart={(e) => item.id && writeItemDragData(e.dataTransfer, getDraggedItemIds(item.id, itemSelection.selectedIds))}
+                        >
+                          {item.id && (
+                            <input
+                              type="checkbox"
+                              checked={itemSelection.isSelected(item.id)}
+                              onChange={() => item.id && itemSelection.toggle(item.id)}
+                              onClick={(e) => e.stopPropagation()}
+                              className="w-4 h-4 mt-1 shrink-0 cursor-pointer accent-[var(--brand-color-light)]"
+                              aria-label={`Select ${item.name || 'item'}`}
+                            />
+                          )}
+                          <ItemThumbnail imageIds={item.imageIds} name={item.name} />
+                          <div className="flex-1 min-w-0">
+                            <div className="text-[var(--color-fg)] font-medium">
+                              {item.name || 'Unnamed Item'}
+                            </div>
+                            {item.description && (
+                              <div className="text-[var(--color-fg)] opacity-70 text-sm mt-1">
+                                {item.description}
+                              </div>
+                            )}
                           </div>
-                        )}
-                      </div>
-                    ))}
-                  </div>
+                        </div>
+                      ))}
+                    </div>
+                  </>
                 )}
               </div>
             </div>
 
-            <div className="flex gap-3 pt-2">
+            <div className="flex gap-3 pt-2 flex-wrap">
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => navigate(`/labels?location=${encodeURIComponent(id || '')}`)}
+                icon={<IconPrinter size={20} />}
+                className="w-full md:w-auto"
+              >
+                Print Labels
+              </Button>
               <Button
                 type="button"
                 variant="outlinePrimary"
                 onClick={() => navigate(`/locations/${id}/edit`)}
-                disabled={isDeleting}
+                disabled={isDeleteModalOpen}
                 icon={<IconEdit size={20} />}
                 className="w-full md:w-auto"
               >
@@ -389,28 +426,77 @@ export function LocationDetailPage() {
                 type="button"
                 variant="outlineDanger"
                 onClick={handleDeleteClick}
-                disabled={isDeleting}
+                disabled={isDeleteModalOpen}
                 icon={<IconTrash size={20} />}
                 className="w-full md:w-auto"
               >
                 Delete Location
               </Button>
             </div>
+
+            {id && currentWorkspace?.id && hasWorkspaceRole(currentWorkspace.role, 'admin') && (
+              <div>
+                <div className="text-sm font-medium text-[var(--color-fg)] opacity-70 mb-1">
+                  Who has access:
+                </div>
+                <div className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-4 relative">
+                  <IconLock
+                    className="absolute top-4 right-4 text-[var(--color-fg)] opacity-40"
+                    size={20}
+                  />
+                  <div className="pr-6">
+                    <LocationAccessPanel locationId={id} workspaceId={currentWorkspace.id} />
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {id && hasWorkspaceRole(currentWorkspace?.role, 'admin') && (
+              <div>
+                <div className="text-sm font-medium text-[var(--color-fg)] opacity-70 mb-1">
+                  Share links:
+                </div>
+                <div className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-4 relative">
+                  <IconShare
+                    className="absolute top-4 right-4 text-[var(--color-fg)] opacity-40"
+                    size={20}
+                  />
+                  <div className="pr-6">
+                    <ShareLinksPanel locationId={id} />
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {id && (
+              <div>
+                <div className="text-sm font-medium text-[var(--color-fg)] opacity-70 mb-1">
+                  History:
+                </div>
+                <div className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-4 relative">
+                  <IconHistory 
+                    className="absolute top-4 right-4 text-[var(--color-fg)] opacity-40" 
+                    size={20} 
+                  />
+                  <div className="pr-6">
+                    <EntityHistory key={location.updatedAt} entityType="location" entityId={id} />
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
         </div>
+        <LocationDropPanel onDropItems={handleDropItems} currentLocationId={id} />
+        </div>
       </div>
 
-      <ConfirmationModal
-        isOpen={isDeleteConfirmOpen}
-        onClose={() => setIsDeleteConfirmOpen(false)}
-        onConfirm={handleDelete}
-        title="Delete Location"
-        message={`Are you sure you want to delete "${location?.name || location?.id || 'this location'}"? This action cannot be undone.`}
-        confirmText="Delete"
-        cancelText="Cancel"
-        variant="danger"
-        isLoading={isDeleting}
-      />
+      {isDeleteModalOpen && (
+        <DeleteLocationModal
+          location={location}
+          onClose={closeDeleteModal}
+          onDeleted={() => navigate('/locations')}
+        />
+      )}
     </div>
   );
 }
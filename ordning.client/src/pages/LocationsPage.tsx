@@ -1,11 +1,21 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { IconSearch, IconPlus } from '@tabler/icons-react';
-import { apiClient, unwrapResponse } from '../services/apiClient';
+import { IconSearch, IconPlus, IconDownload, IconUpload } from '@tabler/icons-react';
+import { apiClient, unwrapMutationResponse, unwrapResponse } from '../services/apiClient';
 import type { components } from '../types/api';
-import { Input, Button } from '../components/ui';
+import { Button } from '../components/ui';
 import { Header } from '../components/Header';
 import { LocationTree } from '../components/LocationTree';
+import { ExportInventoryModal } from '../components/ExportInventoryModal';
+import { SearchQueryInput } from '../components/SearchQueryInput';
+import { PaginationFooter } from '../components/PaginationFooter';
+import { useLocationSuggestions } from '../hooks/useLocationSuggestions';
+import { useUndoListener } from '../hooks/useUndoListener';
+import { usePaginatedQuery, type PageFetcher } from '../hooks/usePaginatedQuery';
+import { toPage } from '../services/pagination';
+import { parseSearchQuery, type SearchSuggestionContext } from '../services/searchQuery';
+import { revertLocation } from '../services/undoActions';
+import { showUndoToast } from '../services/undoToast';
 import toast from 'react-hot-toast';
 
 type Location = components['schemas']['Location'];
@@ -14,42 +24,47 @@ type LocationTreeNode = components['schemas']['LocationTreeNode'];
 
 export function LocationsPage() {
   const [searchQuery, setSearchQuery] = useState<string>('');
-  const [searchResults, setSearchResults] = useState<Location[]>([]);
-  const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [debouncedQuery, setDebouncedQuery] = useState<string>('');
   const [tree, setTree] = useState<LocationTreeNode[]>([]);
   const [isLoadingTree, setIsLoadingTree] = useState<boolean>(false);
+  const [isExportModalOpen, setIsExportModalOpen] = useState<boolean>(false);
   const navigate = useNavigate();
 
   const hasSearchQuery = searchQuery.trim().length > 0;
+  const locationSuggestions = useLocationSuggestions();
+  const queryErrors = useMemo(
+    () => parseSearchQuery(searchQuery, { allowPropertyFilters: false }).errors,
+    [searchQuery],
+  );
+  const hasQueryErrors = queryErrors.length > 0;
+  const suggestionContext = useMemo<SearchSuggestionContext>(() => ({
+    locations: locationSuggestions,
+    propertyValues: {},
+    today: new Date().toISOString().slice(0, 10),
+  }), [locationSuggestions]);
 
-  const performSearch = useCallback(async (query: string) => {
-    if (!query.trim()) {
-      setSearchResults([]);
-      return;
-    }
-
-    setIsSearching(true);
-    try {
-      const responsePromise = apiClient.GET('/api/Location/search', {
-        params: {
-          query: {
-            q: query.trim(),
-            limit: 50,
-            offset: 0,
-          },
+  const fetchSearchPage = useCallback<PageFetcher<Location>>(async (offset, limit, signal) => {
+    const responsePromise = apiClient.GET('/api/Location/search', {
+      params: {
+        query: {
+          q: debouncedQuery,
+          limit,
+          offset,
         },
-      });
+      },
+      signal,
+    });
 
-      const data = await unwrapResponse<LocationSearchResponse>(responsePromise);
-      setSearchResults(data.results || []);
-    } catch (error) {
-      console.error('Search failed:', error);
-      toast.error('Failed to search locations');
-      setSearchResults([]);
-    } finally {
-      setIsSearching(false);
-    }
-  }, []);
+    return toPage(await unwrapResponse<LocationSearchResponse>(responsePromise));
+  }, [debouncedQuery]);
+
+  const searchQueryResults = usePaginatedQuery(fetchSearchPage, {
+    getKey: (location) => location.id,
+    enabled: debouncedQuery.length > 0,
+    errorMessage: 'Failed to search locations',
+  });
+  const searchResults = searchQueryResults.items;
+  const isSearching = searchQueryResults.isLoading || (searchQuery.trim() !== debouncedQuery && !hasQueryErrors);
 
   const fetchLocationTree = useCallback(async () => {
     setIsLoadingTree(true);
@@ -66,18 +81,31 @@ export function LocationsPage() {
     }
   }, []);
 
-  useEffect(() => {
+  // Reload without the loading state so that the tree keeps its expanded nodes
+  const reloadLocationTree = useCallback(async () => {
+    const treeData = await unwrapResponse<LocationTreeNode[]>(apiClient.GET('/api/Location/tree'));
+    setTree(treeData || []);
+  }, []);
+
+  useUndoListener(() => {
     if (hasSearchQuery) {
-      const timeoutId = setTimeout(() => {
-        performSearch(searchQuery);
-      }, 300);
-
-      return () => clearTimeout(timeoutId);
-    } else {
-      setSearchResults([]);
-      setIsSearching(false);
+      searchQueryResults.reload();
+      return;
+    }
+    reloadLocationTree().catch((error) => console.error('Failed to reload location tree:', error));
+  });
+
+  useEffect(() => {
+    if (hasQueryErrors) {
+      return;
     }
-  }, [searchQuery, hasSearchQuery, performSearch]);
+
+    const timeoutId = setTimeout(() => {
+      setDebouncedQuery(searchQuery.trim());
+    }, 300);
+
+    return () => clearTimeout(timeoutId);
+  }, [searchQuery, hasQueryErrors]);
 
   useEffect(() => {
     if (!hasSearchQuery) {
@@ -85,6 +113,35 @@ export function LocationsPage() {
     }
   }, [hasSearchQuery, fetchLocationTree]);
 
+  const handleMoveLocation = useCallback(async (location: Location, newParent: Location) => {
+    if (!location.id || !newParent.id) return;
+
+    try {
+      const responsePromise = apiClient.PUT('/api/Location/{id}', {
+        params: {
+          path: {
+            id: location.id,
+          },
+        },
+        body: {
+          name: location.name,
+          description: location.description,
+          parentLocationId: newParent.id,
+        },
+      });
+
+      await unwrapMutationResponse<Location>(responsePromise);
+      showUndoToast(
+        `Moved "${location.name || location.id}" to "${newParent.name || newParent.id}"`,
+        () => revertLocation(location),
+      );
+      await reloadLocationTree();
+    } catch (error) {
+      console.error('Failed to move location:', error);
+      toast.error(error instanceof Error && error.message ? error.message : 'Failed to move location');
+    }
+  }, [reloadLocationTree]);
+
   const handleLocationClick = (location: Location) => {
     if (location.id) {
       navigate(`/locations/${location.id}`);
@@ -106,14 +163,14 @@ export function LocationsPage() {
           <div className="mb-6 flex flex-col md:flex-row gap-3">
             <div className="relative flex-1">
               <IconSearch 
-                className="absolute left-4 top-1/2 -translate-y-1/2 text-[var(--color-fg)] opacity-50" 
+                className="absolute left-4 top-1/2 -translate-y-1/2 z-10 pointer-events-none text-[var(--color-fg)] opacity-50" 
                 size={20} 
               />
-              <Input
-                type="text"
-                placeholder="Search locations..."
+              <SearchQueryInput
+                placeholder="Search locations... e.g. in:G1 -temporary"
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={setSearchQuery}
+                suggestionContext={suggestionContext}
                 className="pl-12"
               />
             </div>
@@ -125,8 +182,30 @@ export function LocationsPage() {
             >
               Add Location
             </Button>
+            <Button
+              onClick={() => setIsExportModalOpen(true)}
+              icon={<IconDownload size={20} />}
+              variant="secondary"
+              className="w-full md:w-auto shrink-0"
+            >
+              Export
+            </Button>
+            <Button
+              onClick={() => navigate('/import')}
+              icon={<IconUpload size={20} />}
+              variant="secondary"
+              className="w-full md:w-auto shrink-0"
+            >
+              Import
+            </Button>
           </div>
 
+          {hasQueryErrors && (
+            <div className="mb-4 text-sm text-[var(--color-error)]">
+              {queryErrors.join(' ')}
+            </div>
+          )}
+
           {hasSearchQuery ? (
             <>
               {isSearching && (
@@ -164,6 +243,17 @@ export function LocationsPage() {
                   ))}
                 </div>
               )}
+              {!isSearching && (
+                <PaginationFooter
+                  loadedCount={searchResults.length}
+                  totalCount={searchQueryResults.totalCount}
+                  hasMore={searchQueryResults.hasMore}
+                  isLoadingMore={searchQueryResults.isLoadingMore}
+                  onLoadMore={searchQueryResults.loadMore}
+                  sentinelRef={searchQueryResults.sentinelRef}
+                  noun="locations"
+                />
+              )}
             </>
           ) : (
             <>
@@ -176,6 +266,7 @@ export function LocationsPage() {
                   <LocationTree
                     nodes={tree}
                     onSelectLocation={handleLocationClick}
+                    onMoveLocation={handleMoveLocation}
                   />
                 </div>
               )}
@@ -183,6 +274,11 @@ export function LocationsPage() {
           )}
         </div>
       </div>
+
+      <ExportInventoryModal
+        isOpen={isExportModalOpen}
+        onClose={() => setIsExportModalOpen(false)}
+      />
     </div>
   );
 }
@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
 import type { FormEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { IconLogin, IconEye, IconEyeOff } from '@tabler/icons-react';
+import { IconLogin, IconEye, IconEyeOff, IconFingerprint } from '@tabler/icons-react';
 import { useAuth } from '../contexts/AuthContext';
 import { Button, IconButton } from '../components/ui';
+import { isPasskeyCancelled, isPasskeySupported } from '../services/passkeys';
 
 export function LoginPage() {
   const [username, setUsername] = useState<string>('');
@@ -11,7 +12,7 @@ export function LoginPage() {
   const [showPassword, setShowPassword] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const { login, isAuthenticated } = useAuth();
+  const { login, loginWithPasskey, isAuthenticated } = useAuth();
   const navigate = useNavigate();
 
   // Redirect if already authenticated
@@ -45,6 +46,21 @@ export function LoginPage() {
     }
   };
 
+  const handlePasskeyLogin = async (): Promise<void> => {
+    setError('');
+    setIsLoading(true);
+
+    try {
+      await loginWithPasskey();
+      navigate('/dashboard');
+    } catch (err) {
+      if (!isPasskeyCancelled(err)) {
+        setError(err instanceof Error ? err.message : 'Sign in with passkey failed. Please try again.');
+      }
+      setIsLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen h-screen flex flex-col items-center justify-center bg-[var(--color-bg)] text-[var(--color-fg)] p-0 gap-8 overflow-hidden">
       <div className="w-full max-w-[400px] px-4">
@@ -117,6 +133,20 @@ export function LoginPage() {
             >
               {!isLoading && 'Sign In'}
             </Button>
+
+            {isPasskeySupported() && (
+              <Button
+                type="button"
+                variant="secondary"
+                size="md"
+                className="w-full"
+                onClick={() => void handlePasskeyLogin()}
+                disabled={isLoading}
+                icon={<IconFingerprint size={16} />}
+              >
+                Sign in with passkey
+              </Button>
+            )}
           </form>
           </div>
         </div>
@@ -0,0 +1,323 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { IconEdit, IconPlus, IconTrash } from '@tabler/icons-react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import { Button, ConfirmationModal, IconButton, Input, Modal, Select, Textarea } from '../components/ui';
+import { Header } from '../components/Header';
+import { usePropertyDefinitions } from '../hooks/usePropertyDefinitions';
+import { PROPERTY_TYPE_LABELS, PROPERTY_TYPES, getPropertyType, type PropertyType } from '../services/propertyDefinitions';
+import toast from 'react-hot-toast';
+
+type PropertyDefinition = components['schemas']['PropertyDefinition'];
+type CreatePropertyDefinitionRequest = components['schemas']['CreatePropertyDefinitionRequest'];
+
+interface DefinitionFormValues {
+  key: string;
+  name: string;
+  type: PropertyType;
+  unit: string;
+  isRequired: boolean;
+  options: string;
+}
+
+function toFormValues(definition?: PropertyDefinition): DefinitionFormValues {
+  return {
+    key: definition?.key || '',
+    name: definition?.name || '',
+    type: definition ? getPropertyType(definition) : 'text',
+    unit: definition?.unit || '',
+    isRequired: !!definition?.isRequired,
+    options: (definition?.options || []).join('\n'),
+  };
+}
+
+interface PropertyDefinitionModalProps {
+  definition: PropertyDefinition | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+/** Creates a definition, or edits one when given. The key of an existing definition can't change, since items store it. */
+function PropertyDefinitionModal({ definition, onClose, onSaved }: PropertyDefinitionModalProps) {
+  const [values, setValues] = useState<DefinitionFormValues>(() => toFormValues(definition ?? undefined));
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const isEditing = definition !== null;
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault();
+
+    const request: CreatePropertyDefinitionRequest = {
+      key: values.key.trim(),
+      name: values.name.trim() || values.key.trim(),
+      type: values.type,
+      unit: values.type === 'number' ? values.unit.trim() || null : null,
+      isRequired: values.isRequired,
+      options: values.type === 'enum'
+        ? values.options.split('\n').map((option) => option.trim()).filter((option) => option)
+        : null,
+    };
+
+    setIsSaving(true);
+    try {
+      if (isEditing) {
+        await unwrapResponse<PropertyDefinition>(apiClient.PUT('/api/PropertyDefinition/{key}', {
+          params: {
+            path: {
+              key: definition.key || '',
+            },
+          },
+          body: request,
+        }));
+        toast.success('Property updated');
+      } else {
+        await unwrapResponse<PropertyDefinition>(apiClient.POST('/api/PropertyDefinition', { body: request }));
+        toast.success('Property created');
+      }
+      onSaved();
+    } catch (error) {
+      console.error('Failed to save property definition:', error);
+      toast.error(error instanceof Error ? error.message || 'Failed to save property' : 'Failed to save property');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={isEditing ? 'Edit Property' : 'New Property'} className="max-w-md">
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <Input
+          label="Key"
+          placeholder="e.g. color"
+          value={values.key}
+          onChange={(e) => setValues({ ...values, key: e.target.value })}
+          required
+          maxLength={100}
+          disabled={isSaving || isEditing}
+          autoComplete="off"
+        />
+        <Input
+          label="Name"
+          placeholder="Shown in forms, defaults to the key"
+          value={values.name}
+          onChange={(e) => setValues({ ...values, name: e.target.value })}
+          maxLength={255}
+          disabled={isSaving}
+          autoComplete="off"
+        />
+        <Select
+          label="Type"
+          value={values.type}
+          onChange={(e) => setValues({ ...values, type: e.target.value as PropertyType })}
+          disabled={isSaving}
+        >
+          {PROPERTY_TYPES.map((type) => (
+            <option key={type} value={type}>{PROPERTY_TYPE_LABELS[type]}</option>
+          ))}
+        </Select>
+        {values.type === 'number' && (
+          <Input
+            label="Unit (optional)"
+            placeholder="e.g. kg or mm"
+            value={values.unit}
+            onChange={(e) => setValues({ ...values, unit: e.target.value })}
+            maxLength={32}
+            disabled={isSaving}
+            autoComplete="off"
+          />
+        )}
+        {values.type === 'enum' && (
+          <Textarea
+            label="Choices, one per line"
+            value={values.options}
+            onChange={(e) => setValues({ ...values, options: e.target.value })}
+            required
+            disabled={isSaving}
+          />
+        )}
+        <label className="flex items-center gap-2 text-sm text-[var(--color-fg)] cursor-pointer">
+          <input
+            type="checkbox"
+            checked={values.isRequired}
+            onChange={(e) => setValues({ ...values, isRequired: e.target.checked })}
+            disabled={isSaving}
+            className="w-4 h-4 cursor-pointer accent-[var(--brand-color-light)]"
+          />
+          Required on every item
+        </label>
+        {isEditing && values.type !== getPropertyType(definition) && (
+          <div className="text-sm text-[var(--color-fg)] opacity-70">
+            Items keep their current values. Values that don't fit the new type have to be fixed the next time those items are edited.
+          </div>
+        )}
+        <div className="flex gap-3 justify-end pt-2">
+          <Button type="button" variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="outlinePrimary" loading={isSaving} disabled={isSaving}>
+            {isEditing ? 'Save' : 'Create'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+function describeDefinition(definition: PropertyDefinition): string {
+  const type = getPropertyType(definition);
+  const parts: string[] = [PROPERTY_TYPE_LABELS[type]];
+  if (type === 'number' && definition.unit) {
+    parts.push(definition.unit);
+  }
+  if (type === 'enum' && definition.options?.length) {
+    parts.push(definition.options.join(', '));
+  }
+  if (definition.isRequired) {
+    parts.push('required');
+  }
+  return parts.join(' · ');
+}
+
+export function PropertyDefinitionsPage() {
+  const { definitions, isLoaded, reload } = usePropertyDefinitions();
+  const [isAdmin, setIsAdmin] = useState<boolean>(false);
+  const [editingDefinition, setEditingDefinition] = useState<PropertyDefinition | null | undefined>(undefined);
+  const [deletingDefinition, setDeletingDefinition] = useState<PropertyDefinition | null>(null);
+  const [isDeleting, setIsDeleting] = useState<boolean>(false);
+
+  useEffect(() => {
+    unwrapResponse<boolean>(apiClient.GET('/api/User/is-admin'))
+      .then(setIsAdmin)
+      .catch((error) => console.error('Failed to check admin status:', error));
+  }, []);
+
+  const handleSaved = () => {
+    setEditingDefinition(undefined);
+    reload();
+  };
+
+  const handleDelete = async () => {
+    const key = deletingDefinition?.key;
+    if (!key) return;
+
+    setIsDeleting(true);
+    try {
+      const response = await apiClient.DELETE('/api/PropertyDefinition/{key}', {
+        params: {
+          path: {
+            key,
+          },
+        },
+      });
+
+      if (response.response.status === 403) {
+        throw new Error('You lack the required privileges to perform this action');
+      }
+      if (!response.response.ok) {
+        throw new Error('Failed to delete property');
+      }
+
+      toast.success('Property deleted');
+      setDeletingDefinition(null);
+      reload();
+    } catch (error) {
+      console.error('Failed to delete property definition:', error);
+      toast.error(error instanceof Error ? error.message || 'Failed to delete property' : 'Failed to delete property');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[var(--elevation-level-1-dark)]">
+      <Header />
+      <div className="p-4">
+        <div className="max-w-2xl mx-auto">
+          <div className="flex items-center justify-between gap-3 mb-1">
+            <h1 className="text-2xl font-semibold text-[var(--color-fg)]">
+              Properties
+            </h1>
+            {isAdmin && (
+              <Button
+                variant="outlinePrimary"
+                onClick={() => setEditingDefinition(null)}
+                icon={<IconPlus size={20} />}
+              >
+                New Property
+              </Button>
+            )}
+          </div>
+          <p className="text-sm text-[var(--color-fg)] opacity-70 mb-4">
+            Defined properties get their own input on item forms, are checked when items are saved and can be used to sort and filter search results.
+          </p>
+
+          {!isLoaded ? (
+            <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
+              Loading properties...
+            </div>
+          ) : definitions.length === 0 ? (
+            <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
+              No properties defined yet
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {definitions.map((definition) => (
+                <div
+                  key={definition.key}
+                  className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-3 flex items-center gap-3"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-[var(--color-fg)] font-medium truncate">
+                      {definition.name || definition.key}
+                      {definition.name && definition.name !== definition.key && (
+                        <span className="ml-2 text-sm font-normal opacity-50">{definition.key}</span>
+                      )}
+                    </div>
+                    <div className="text-[var(--color-fg)] opacity-70 text-sm truncate">
+                      {describeDefinition(definition)}
+                    </div>
+                  </div>
+                  {isAdmin && (
+                    <>
+                      <IconButton
+                        onClick={() => setEditingDefinition(definition)}
+                        aria-label={`Edit ${definition.name || definition.key}`}
+                      >
+                        <IconEdit size={18} />
+                      </IconButton>
+                      <IconButton
+                        variant="danger"
+                        onClick={() => setDeletingDefinition(definition)}
+                        aria-label={`Delete ${definition.name || definition.key}`}
+                      >
+                        <IconTrash size={18} />
+                      </IconButton>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {editingDefinition !== undefined && (
+        <PropertyDefinitionModal
+          definition={editingDefinition}
+          onClose={() => setEditingDefinition(undefined)}
+          onSaved={handleSaved}
+        />
+      )}
+
+      <ConfirmationModal
+        isOpen={deletingDefinition !== null}
+        onClose={() => setDeletingDefinition(null)}
+        onConfirm={handleDelete}
+        title="Delete Property"
+        message={`Delete "${deletingDefinition?.name || deletingDefinition?.key}"? Items keep their values, which become free-form properties again.`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={isDeleting}
+      />
+    </div>
+  );
+}
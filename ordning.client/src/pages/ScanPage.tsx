@@ -0,0 +1,187 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { IconArrowLeft, IconCamera, IconSearch } from '@tabler/icons-react';
+import { Input, Button } from '../components/ui';
+import { Header } from '../components/Header';
+import { decodeImage, resolveScanTarget } from '../services/scanDecoder';
+
+const SCAN_INTERVAL_MS = 250;
+const MAX_FRAME_SIZE = 640;
+
+export function ScanPage() {
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [isCameraActive, setIsCameraActive] = useState<boolean>(false);
+  const [unrecognizedText, setUnrecognizedText] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState<string>('');
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const navigate = useNavigate();
+
+  const handleScannedText = useCallback((text: string): boolean => {
+    const target = resolveScanTarget(text);
+    if (!target) {
+      setUnrecognizedText(text);
+      return false;
+    }
+
+    navigate(target.path);
+    return true;
+  }, [navigate]);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let intervalId: number | undefined;
+    let isCancelled = false;
+
+    const scanFrame = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (!video || !canvas || video.readyState < video.HAVE_CURRENT_DATA) {
+        return;
+      }
+
+      const scale = Math.min(1, MAX_FRAME_SIZE / Math.max(video.videoWidth, video.videoHeight));
+      const width = Math.round(video.videoWidth * scale);
+      const height = Math.round(video.videoHeight * scale);
+      if (width === 0 || height === 0) {
+        return;
+      }
+
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+      if (!context) {
+        return;
+      }
+
+      context.drawImage(video, 0, 0, width, height);
+      const decoded = decodeImage(context.getImageData(0, 0, width, height));
+      if (decoded && handleScannedText(decoded.text)) {
+        window.clearInterval(intervalId);
+      }
+    };
+
+    const startCamera = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError('Camera access is not supported in this browser.');
+        return;
+      }
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false,
+        });
+
+        if (isCancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+
+        setIsCameraActive(true);
+        intervalId = window.setInterval(scanFrame, SCAN_INTERVAL_MS);
+      } catch (error) {
+        console.error('Failed to start camera:', error);
+        setCameraError('Could not access the camera. Check the camera permission for this site.');
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      isCancelled = true;
+      window.clearInterval(intervalId);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [handleScannedText]);
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (manualCode.trim()) {
+      handleScannedText(manualCode);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[var(--elevation-level-1-dark)]">
+      <Header />
+      <div className="p-4">
+        <div className="max-w-2xl mx-auto">
+          <div className="mb-6">
+            <Button
+              variant="ghost"
+              onClick={() => navigate(-1)}
+              icon={<IconArrowLeft size={20} />}
+              size="sm"
+            >
+              Back
+            </Button>
+          </div>
+
+          <div className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-lg p-4">
+            <h1 className="text-xl font-semibold text-[var(--color-fg)] mb-4 flex items-center gap-2">
+              <IconCamera size={22} />
+              Scan a label
+            </h1>
+
+            <div className="relative aspect-square w-full overflow-hidden rounded-md bg-black">
+              <video
+                ref={videoRef}
+                className="w-full h-full object-cover"
+                playsInline
+                muted
+              />
+              {isCameraActive && (
+                <div className="pointer-events-none absolute inset-[15%] border-2 border-[var(--brand-color-light)] rounded-lg" />
+              )}
+              {!isCameraActive && !cameraError && (
+                <div className="absolute inset-0 flex items-center justify-center text-[var(--color-fg)] opacity-70">
+                  Starting camera...
+                </div>
+              )}
+              {cameraError && (
+                <div className="absolute inset-0 flex items-center justify-center p-6 text-center text-[var(--color-fg)] opacity-80">
+                  {cameraError}
+                </div>
+              )}
+            </div>
+            <canvas ref={canvasRef} className="hidden" />
+
+            <p className="text-sm text-[var(--color-fg)] opacity-60 mt-3">
+              Point the camera at a QR code or barcode containing a location ID or an item ID.
+            </p>
+
+            {unrecognizedText && (
+              <div className="mt-3 text-sm text-[var(--color-error)]">
+                Scanned code is not a location or item ID: <span className="font-mono">{unrecognizedText}</span>
+              </div>
+            )}
+          </div>
+
+          <form onSubmit={handleManualSubmit} className="mt-4 flex gap-3">
+            <Input
+              type="text"
+              placeholder="Or type a location or item ID..."
+              value={manualCode}
+              onChange={(e) => setManualCode(e.target.value)}
+            />
+            <Button
+              type="submit"
+              variant="secondary"
+              icon={<IconSearch size={18} />}
+              disabled={!manualCode.trim()}
+              className="shrink-0"
+            >
+              Open
+            </Button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { IconArrowLeft, IconBox, IconChevronRight, IconMapPin, IconShare } from '@tabler/icons-react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import { Button } from '../components/ui';
+import { formatQuantity } from '../services/quantity';
+import { getSharedChildren, getSharedItems, getSharedPath } from '../services/shareLinks';
+
+type SharedLocation = components['schemas']['SharedLocation'];
+
+const LOCATION_PARAM = 'location';
+const ITEM_PARAM = 'item';
+
+/**
+ * The read-only view behind a share link. It needs no account: the token in the link decides what can be
+ * seen, which is the shared location, the locations below it and the items in them.
+ */
+export function SharedLocationPage() {
+  const { token } = useParams<{ token: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [shared, setShared] = useState<SharedLocation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const controller = new AbortController();
+    unwrapResponse<SharedLocation>(apiClient.GET('/api/Share/public/{token}', {
+      params: {
+        path: {
+          token,
+        },
+      },
+      signal: controller.signal,
+    }))
+      .then((data) => {
+        setShared(data);
+        setError(null);
+      })
+      .catch((loadError) => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load shared location:', loadError);
+        setError(loadError instanceof Error ? loadError.message || 'This link does not work' : 'This link does not work');
+      });
+    return () => controller.abort();
+  }, [token]);
+
+  const open = (param: string, id: string) => setSearchParams({ [param]: id });
+
+  const renderContent = () => {
+    if (!shared && !error) {
+      return (
+        <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
+          Loading...
+        </div>
+      );
+    }
+
+    if (!shared || error) {
+      return (
+        <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
+          {error || 'This link does not work'}
+        </div>
+      );
+    }
+
+    const itemId = searchParams.get(ITEM_PARAM);
+    const item = itemId ? shared.items?.find((sharedItem) => sharedItem.id === itemId) : undefined;
+    const locationId = item?.locationId || searchParams.get(LOCATION_PARAM) || shared.locationId || '';
+    const path = getSharedPath(shared, locationId);
+    const location = path[path.length - 1];
+
+    if (!location) {
+      return (
+        <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
+          This is not part of what was shared.
+        </div>
+      );
+    }
+
+    const breadcrumbs = (
+      <div className="flex items-center gap-1 flex-wrap text-sm text-[var(--color-fg)] mb-4">
+        {path.map((pathLocation, index) => (
+          <span key={pathLocation.id} className="flex items-center gap-1">
+            {index > 0 && <IconChevronRight size={14} className="opacity-40" />}
+            <button
+              type="button"
+              onClick={() => pathLocation.id && open(LOCATION_PARAM, pathLocation.id)}
+              className={`hover:underline ${pathLocation.id === location.id && !item ? 'font-medium' : 'opacity-70'}`}
+            >
+              {pathLocation.name || pathLocation.id}
+            </button>
+          </span>
+        ))}
+      </div>
+    );
+
+    if (item) {
+      const properties = Object.entries(item.properties || {});
+      return (
+        <>
+          {breadcrumbs}
+          <h1 className="text-2xl font-semibold text-[var(--color-fg)] mb-2">
+            {item.name || 'Unnamed Item'}
+          </h1>
+          {item.description && (
+            <p className="text-[var(--color-fg)] opacity-70 mb-6">
+              {item.description}
+            </p>
+          )}
+          <div className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-4 space-y-2">
+            <div className="flex gap-2">
+              <div className="text-[var(--color-fg)] font-medium min-w-[100px]">Found at:</div>
+              <div className="text-[var(--color-fg)] opacity-80">{location.name || location.id}</div>
+            </div>
+            {item.quantity !== null && item.quantity !== undefined && (
+              <div className="flex gap-2">
+                <div className="text-[var(--color-fg)] font-medium min-w-[100px]">Quantity:</div>
+                <div className="text-[var(--color-fg)] opacity-80">{formatQuantity(item.quantity, item.unit)}</div>
+              </div>
+            )}
+            {properties.map(([key, value]) => (
+              <div key={key} className="flex gap-2">
+                <div className="text-[var(--color-fg)] font-medium min-w-[100px]">{key}:</div>
+                <div className="text-[var(--color-fg)] opacity-80 min-w-0 break-words">{value}</div>
+              </div>
+            ))}
+          </div>
+          <div className="pt-4">
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => location.id && open(LOCATION_PARAM, location.id)}
+              icon={<IconArrowLeft size={20} />}
+            >
+              Back to {location.name || location.id}
+            </Button>
+          </div>
+        </>
+      );
+    }
+
+    const children = getSharedChildren(shared, location.id || '');
+    const items = getSharedItems(shared, location.id || '');
+    return (
+      <>
+        {breadcrumbs}
+        <h1 className="text-2xl font-semibold text-[var(--color-fg)] mb-2">
+          {location.name || location.id}
+        </h1>
+        {location.description && (
+          <p className="text-[var(--color-fg)] opacity-70 mb-6">
+            {location.description}
+          </p>
+        )}
+        <div className="space-y-6">
+          {children.length > 0 && (
+            <div>
+              <div className="text-sm font-medium text-[var(--color-fg)] opacity-70 mb-1">
+                Locations in here:
+              </div>
+              <div className="space-y-1">
+                {children.map((child) => (
+                  <button
+                    key={child.id}
+                    type="button"
+                    onClick={() => child.id && open(LOCATION_PARAM, child.id)}
+                    className="w-full text-left bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-3 hover:bg-[var(--elevation-level-3-dark)] transition-colors flex items-center gap-3"
+                  >
+                    <IconMapPin size={18} className="text-[var(--color-fg)] opacity-50 shrink-0" />
+                    <span className="text-[var(--color-fg)] font-medium">{child.name || child.id}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          <div>
+            <div className="text-sm font-medium text-[var(--color-fg)] opacity-70 mb-1">
+              Items in this location:
+            </div>
+            {items.length === 0 ? (
+              <div className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-4 text-[var(--color-fg)] opacity-60 text-sm">
+                No items in this location
+              </div>
+            ) : (
+              <div className="space-y-1">
+                {items.map((sharedItem) => (
+                  <button
+                    key={sharedItem.id}
+                    type="button"
+                    onClick={() => sharedItem.id && open(ITEM_PARAM, sharedItem.id)}
+                    className="w-full text-left bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-3 hover:bg-[var(--elevation-level-3-dark)] transition-colors flex items-start gap-3"
+                  >
+                    <IconBox size={18} className="text-[var(--color-fg)] opacity-50 shrink-0 mt-0.5" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-[var(--color-fg)] font-medium">
+                        {sharedItem.name || 'Unnamed Item'}
+                      </div>
+                      {sharedItem.description && (
+                        <div className="text-[var(--color-fg)] opacity-70 text-sm mt-1">
+                          {sharedItem.description}
+                        </div>
+                      )}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-[var(--elevation-level-1-dark)]">
+      <div className="border-b border-[var(--color-border)] bg-[var(--elevation-level-2-dark)] px-4 py-3">
+        <div className="max-w-2xl mx-auto flex items-center gap-2 text-sm text-[var(--color-fg)]">
+          <IconShare size={18} className="opacity-70" />
+          <span className="font-medium">Shared with you</span>
+          {shared?.expiresAt && (
+            <span className="ml-auto opacity-60">
+              Link works until {new Date(shared.expiresAt).toLocaleString()}
+            </span>
+          )}
+        </div>
+      </div>
+      <div className="p-4">
+        <div className="max-w-2xl mx-auto">
+          {renderContent()}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { IconSearch, IconTag } from '@tabler/icons-react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import { Button } from '../components/ui';
+import { Header } from '../components/Header';
+import { ItemThumbnail } from '../components/ItemThumbnail';
+import { PaginationFooter } from '../components/PaginationFooter';
+import { useTags } from '../hooks/useTags';
+import { usePaginatedQuery, type PageFetcher } from '../hooks/usePaginatedQuery';
+import { toPage } from '../services/pagination';
+import { TAG_PARAM, isSameTag } from '../services/tags';
+
+type Item = components['schemas']['Item'];
+type Location = components['schemas']['Location'];
+type ItemSearchResponse = components['schemas']['ItemSearchResponse'];
+
+const rowClassName = 'bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-3 cursor-pointer hover:bg-[var(--elevation-level-3-dark)] transition-colors';
+
+/** The locations with a tag. Keyed by the tag, so it starts over empty when another tag is picked. */
+function TaggedLocations({ name }: { name: string }) {
+  const navigate = useNavigate();
+  const [locations, setLocations] = useState<Location[] | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    unwrapResponse<Location[]>(apiClient.GET('/api/Tag/{name}/locations', {
+      params: {
+        path: {
+          name,
+        },
+      },
+      signal: controller.signal,
+    }))
+      .then((data) => setLocations(data || []))
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load tagged locations:', error);
+        setLocations([]);
+      });
+    return () => controller.abort();
+  }, [name]);
+
+  if (locations === null) {
+    return (
+      <div className="text-[var(--color-fg)] opacity-70 text-sm py-2">
+        Loading locations...
+      </div>
+    );
+  }
+
+  if (locations.length === 0) {
+    return (
+      <div className="text-[var(--color-fg)] opacity-70 text-sm py-2">
+        No locations with this tag
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {locations.map((location) => (
+        <div
+          key={location.id}
+          className={rowClassName}
+          onClick={() => location.id && navigate(`/locations/${location.id}`)}
+        >
+          <div className="text-[var(--color-fg)] font-medium">
+            {location.name || location.id || 'Unnamed Location'}
+          </div>
+          {location.description && (
+            <div className="text-[var(--color-fg)] opacity-70 text-sm mt-1">
+              {location.description}
+            </div>
+          )}
+          {location.id && (
+            <div className="text-[var(--color-fg)] opacity-50 text-xs font-mono mt-1">
+              ID: {location.id}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** The items with a tag, page by page, using the tag filter of the item search. */
+function TaggedItems({ name }: { name: string }) {
+  const navigate = useNavigate();
+
+  const fetchItemsPage = useCallback<PageFetcher<Item>>(async (offset, limit, signal) => {
+    const responsePromise = apiClient.GET('/api/Item/search', {
+      params: {
+        query: {
+          limit,
+          offset,
+          sort: 'name',
+          tag: [name],
+        },
+      },
+      signal,
+    });
+
+    return toPage(await unwrapResponse<ItemSearchResponse>(responsePromise));
+  }, [name]);
+
+  const itemsQuery = usePaginatedQuery(fetchItemsPage, {
+    getKey: (item) => item.id,
+    errorMessage: 'Failed to load tagged items',
+  });
+
+  if (itemsQuery.isLoading && itemsQuery.items.length === 0) {
+    return (
+      <div className="text-[var(--color-fg)] opacity-70 text-sm py-2">
+        Loading items...
+      </div>
+    );
+  }
+
+  if (itemsQuery.items.length === 0) {
+    return (
+      <div className="text-[var(--color-fg)] opacity-70 text-sm py-2">
+        No items with this tag
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-2">
+        {itemsQuery.items.map((item) => (
+          <div
+            key={item.id}
+            className={`${rowClassName} flex items-start gap-3`}
+            onClick={() => item.id && navigate(`/items/${item.id}`)}
+          >
+            <ItemThumbnail imageIds={item.imageIds} name={item.name} />
+            <div className="flex-1 min-w-0">
+              <div className="text-[var(--color-fg)] font-medium">
+                {item.name || 'Unnamed Item'}
+              </div>
+              {item.description && (
+                <div className="text-[var(--color-fg)] opacity-70 text-sm mt-1">
+                  {item.description}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      <PaginationFooter
+        loadedCount={itemsQuery.items.length}
+        totalCount={itemsQuery.totalCount}
+        hasMore={itemsQuery.hasMore}
+        isLoadingMore={itemsQuery.isLoadingMore}
+        onLoadMore={itemsQuery.loadMore}
+        sentinelRef={itemsQuery.sentinelRef}
+        noun="items"
+      />
+    </>
+  );
+}
+
+/**
+ * Lists every tag in use with how many items and locations have it. With a tag in the URL, the
+ * items and locations with that tag are shown below the list.
+ */
+export function TagsPage() {
+  const { name } = useParams<{ name: string }>();
+  const navigate = useNavigate();
+  const { tags, isLoaded } = useTags();
+  const selectedTag = tags.find((tag) => isSameTag(tag.name || '', name || ''))?.name || name;
+
+  return (
+    <div className="min-h-screen bg-[var(--elevation-level-1-dark)]">
+      <Header />
+      <div className="p-4">
+        <div className="max-w-2xl mx-auto">
+          <h1 className="text-2xl font-semibold text-[var(--color-fg)] mb-4">
+            Tags
+          </h1>
+
+          {!isLoaded ? (
+            <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
+              Loading tags...
+            </div>
+          ) : tags.length === 0 ? (
+            <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
+              No tags yet. Add tags to items and locations when editing them.
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2 mb-6">
+              {tags.map((tag) => {
+                const isSelected = !!selectedTag && isSameTag(tag.name || '', selectedTag);
+                return (
+                  <Link
+                    key={tag.name}
+                    to={isSelected ? '/tags' : `/tags/${encodeURIComponent(tag.name || '')}`}
+                    className={`flex items-center gap-1 rounded-full border px-3 py-1 text-sm text-[var(--color-fg)] ${
+                      isSelected
+                        ? 'border-[var(--brand-color-light)] bg-[var(--elevation-level-3-dark)]'
+                        : 'border-[var(--color-border)] bg-[var(--elevation-level-2-dark)] hover:bg-[var(--elevation-level-3-dark)]'
+                    }`}
+                    aria-current={isSelected ? 'page' : undefined}
+                    title={`${tag.itemCount || 0} items, ${tag.locationCount || 0} locations`}
+                  >
+                    <IconTag size={14} className="opacity-70" />
+                    {tag.name}
+                    <span className="opacity-50">{(tag.itemCount || 0) + (tag.locationCount || 0)}</span>
+                  </Link>
+                );
+              })}
+            </div>
+          )}
+
+          {selectedTag && (
+            <div className="space-y-6">
+              <div className="flex items-center justify-between gap-3">
+                <h2 className="text-xl font-semibold text-[var(--color-fg)] truncate">
+                  {selectedTag}
+                </h2>
+                <Button
+                  variant="secondary"
+                  onClick={() => navigate(`/dashboard?${new URLSearchParams({ [TAG_PARAM]: selectedTag })}`)}
+                  icon={<IconSearch size={20} />}
+                  className="shrink-0"
+                >
+                  Search Items
+                </Button>
+              </div>
+              <section>
+                <h3 className="text-lg font-semibold text-[var(--color-fg)] mb-2">
+                  Locations
+                </h3>
+                <TaggedLocations key={selectedTag} name={selectedTag} />
+              </section>
+              <section>
+                <h3 className="text-lg font-semibold text-[var(--color-fg)] mb-2">
+                  Items
+                </h3>
+                <TaggedItems key={selectedTag} name={selectedTag} />
+              </section>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
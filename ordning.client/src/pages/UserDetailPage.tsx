@@ -11,7 +11,7 @@ import toast from 'react-hot-toast';
 type User = components['schemas']['User'];
 type AddRoleRequest = components['schemas']['AddRoleRequest'];
 
-const AVAILABLE_ROLES = ['admin', 'write'] as const;
+const AVAILABLE_ROLES = ['admin'] as const;
 
 export function UserDetailPage() {
   const navigate = useNavigate();
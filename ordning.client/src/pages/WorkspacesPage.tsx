@@ -0,0 +1,486 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { IconCheck, IconEdit, IconPlus, IconUserMinus, IconUserPlus, IconUsersGroup } from '@tabler/icons-react';
+import { apiClient, unwrapResponse } from '../services/apiClient';
+import type { components } from '../types/api';
+import { Button, ConfirmationModal, IconButton, Input, Modal, Select } from '../components/ui';
+import { Header } from '../components/Header';
+import { ShareLinksPanel } from '../components/ShareLinksPanel';
+import { useWorkspaces } from '../hooks/useWorkspaces';
+import { WORKSPACE_ROLES, WORKSPACE_ROLE_LABELS, hasWorkspaceRole, setCurrentWorkspaceId } from '../services/workspaces';
+import toast from 'react-hot-toast';
+
+type Workspace = components['schemas']['Workspace'];
+type WorkspaceMember = components['schemas']['WorkspaceMember'];
+type User = components['schemas']['User'];
+
+interface WorkspaceNameModalProps {
+  workspace: Workspace | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+/** Creates a workspace, or renames one when given. */
+function WorkspaceNameModal({ workspace, onClose, onSaved }: WorkspaceNameModalProps) {
+  const [name, setName] = useState<string>(workspace?.name || '');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const isEditing = workspace !== null;
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    try {
+      if (isEditing) {
+        await unwrapResponse<Workspace>(apiClient.PUT('/api/Workspace/{id}', {
+          params: {
+            path: {
+              id: workspace.id || '',
+            },
+          },
+          body: { name: name.trim() },
+        }));
+        toast.success('Workspace renamed');
+      } else {
+        await unwrapResponse<Workspace>(apiClient.POST('/api/Workspace', { body: { name: name.trim() } }));
+        toast.success('Workspace created');
+      }
+      onSaved();
+    } catch (error) {
+      console.error('Failed to save workspace:', error);
+      toast.error(error instanceof Error ? error.message || 'Failed to save workspace' : 'Failed to save workspace');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={isEditing ? 'Rename Workspace' : 'New Workspace'} className="max-w-md">
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <Input
+          label="Name"
+          placeholder="e.g. Summer house"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+          maxLength={255}
+          disabled={isSaving}
+          autoComplete="off"
+        />
+        {!isEditing && (
+          <div className="text-sm text-[var(--color-fg)] opacity-70">
+            You become the admin of the new workspace and can add other users to it.
+          </div>
+        )}
+        <div className="flex gap-3 justify-end pt-2">
+          <Button type="button" variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="outlinePrimary" loading={isSaving} disabled={isSaving}>
+            {isEditing ? 'Save' : 'Create'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+interface WorkspaceMembersProps {
+  workspace: Workspace;
+  currentUserId: string | undefined;
+  canManage: boolean;
+  onLeft: () => void;
+}
+
+/** The members of a workspace. Admins can add members, change their roles and remove them; everyone can leave. */
+function WorkspaceMembers({ workspace, currentUserId, canManage, onLeft }: WorkspaceMembersProps) {
+  const workspaceId = workspace.id || '';
+  const [members, setMembers] = useState<WorkspaceMember[] | null>(null);
+  const [newMember, setNewMember] = useState<string>('');
+  const [newMemberRole, setNewMemberRole] = useState<string>('read');
+  const [isAdding, setIsAdding] = useState<boolean>(false);
+  const [removingMember, setRemovingMember] = useState<WorkspaceMember | null>(null);
+  const [isRemoving, setIsRemoving] = useState<boolean>(false);
+  const [reloadCount, setReloadCount] = useState<number>(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    unwrapResponse<WorkspaceMember[]>(apiClient.GET('/api/Workspace/{id}/members', {
+      params: {
+        path: {
+          id: workspaceId,
+        },
+      },
+      signal: controller.signal,
+    }))
+      .then((data) => setMembers(data || []))
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load workspace members:', error);
+        setMembers([]);
+      });
+    return () => controller.abort();
+  }, [workspaceId, reloadCount]);
+
+  const reloadMembers = () => setReloadCount((count) => count + 1);
+
+  const handleAdd = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault();
+
+    setIsAdding(true);
+    try {
+      await unwrapResponse<WorkspaceMember>(apiClient.POST('/api/Workspace/{id}/members', {
+        params: {
+          path: {
+            id: workspaceId,
+          },
+        },
+        body: { user: newMember.trim(), role: newMemberRole },
+      }));
+      toast.success('Member added');
+      setNewMember('');
+      reloadMembers();
+    } catch (error) {
+      console.error('Failed to add workspace member:', error);
+      toast.error(error instanceof Error ? error.message || 'Failed to add member' : 'Failed to add member');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRoleChange = async (member: WorkspaceMember, role: string): Promise<void> => {
+    try {
+      const response = await apiClient.PUT('/api/Workspace/{id}/members/{userId}', {
+        params: {
+          path: {
+            id: workspaceId,
+            userId: member.userId || '',
+          },
+        },
+        body: { role },
+      });
+
+      if (response.response.status === 403) {
+        throw new Error('You lack the required privileges to perform this action');
+      }
+      if (!response.response.ok) {
+        const errorBody = response.error as { message?: string } | undefined;
+        throw new Error(errorBody?.message || 'Failed to change role');
+      }
+
+      toast.success('Role changed');
+      reloadMembers();
+    } catch (error) {
+      console.error('Failed to change workspace role:', error);
+      toast.error(error instanceof Error ? error.message || 'Failed to change role' : 'Failed to change role');
+    }
+  };
+
+  const handleRemove = async (): Promise<void> => {
+    const userId = removingMember?.userId;
+    if (!userId) return;
+
+    setIsRemoving(true);
+    try {
+      const response = await apiClient.DELETE('/api/Workspace/{id}/members/{userId}', {
+        params: {
+          path: {
+            id: workspaceId,
+            userId,
+          },
+        },
+      });
+
+      if (response.response.status === 403) {
+        throw new Error('You lack the required privileges to perform this action');
+      }
+      if (!response.response.ok) {
+        const errorBody = response.error as { message?: string } | undefined;
+        throw new Error(errorBody?.message || 'Failed to remove member');
+      }
+
+      setRemovingMember(null);
+      if (userId === currentUserId) {
+        toast.success('You left the workspace');
+        onLeft();
+      } else {
+        toast.success('Member removed');
+        reloadMembers();
+      }
+    } catch (error) {
+      console.error('Failed to remove workspace member:', error);
+      toast.error(error instanceof Error ? error.message || 'Failed to remove member' : 'Failed to remove member');
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  if (members === null) {
+    return (
+      <div className="text-[var(--color-fg)] opacity-70 text-sm py-2">
+        Loading members...
+      </div>
+    );
+  }
+
+  const isLeaving = removingMember?.userId === currentUserId;
+
+  return (
+    <div className="space-y-3 pt-3">
+      <div className="space-y-2">
+        {members.map((member) => {
+          const isCurrentUser = member.userId === currentUserId;
+          return (
+            <div key={member.userId} className="flex items-center gap-2">
+              <div className="flex-1 min-w-0">
+                <div className="text-[var(--color-fg)] text-sm font-medium truncate">
+                  {member.username}
+                  {isCurrentUser && <span className="ml-2 font-normal opacity-50">you</span>}
+                </div>
+                <div className="text-[var(--color-fg)] opacity-50 text-xs truncate">
+                  {member.email}
+                </div>
+              </div>
+              {canManage ? (
+                <select
+                  value={member.role || 'read'}
+                  onChange={(e) => void handleRoleChange(member, e.target.value)}
+                  aria-label={`Role of ${member.username}`}
+                  className="px-2 py-1 rounded-md bg-[var(--elevation-level-3-dark)] text-[var(--color-fg)] text-sm border border-[var(--color-border)] focus:outline-none focus:border-[var(--elevation-level-4-dark)]"
+                >
+                  {WORKSPACE_ROLES.map((role) => (
+                    <option key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-[var(--color-fg)] opacity-70 text-sm">
+                  {WORKSPACE_ROLE_LABELS[member.role || ''] || member.role}
+                </span>
+              )}
+              {(canManage || isCurrentUser) && (
+                <IconButton
+                  variant="danger"
+                  size="sm"
+                  onClick={() => setRemovingMember(member)}
+                  aria-label={isCurrentUser ? 'Leave workspace' : `Remove ${member.username}`}
+                >
+                  <IconUserMinus size={16} />
+                </IconButton>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {canManage && (
+        <form onSubmit={handleAdd} className="flex flex-col md:flex-row gap-2 md:items-end">
+          <div className="flex-1">
+            <Input
+              label="Add member"
+              placeholder="Username or email"
+              value={newMember}
+              onChange={(e) => setNewMember(e.target.value)}
+              required
+              disabled={isAdding}
+              autoComplete="off"
+            />
+          </div>
+          <div className="md:w-32">
+            <Select
+              aria-label="Role of the new member"
+              value={newMemberRole}
+              onChange={(e) => setNewMemberRole(e.target.value)}
+              disabled={isAdding}
+            >
+              {WORKSPACE_ROLES.map((role) => (
+                <option key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</option>
+              ))}
+            </Select>
+          </div>
+          <Button
+            type="submit"
+            variant="outlinePrimary"
+            loading={isAdding}
+            disabled={isAdding}
+            icon={<IconUserPlus size={20} />}
+          >
+            Add
+          </Button>
+        </form>
+      )}
+
+      <ConfirmationModal
+        isOpen={removingMember !== null}
+        onClose={() => setRemovingMember(null)}
+        onConfirm={handleRemove}
+        title={isLeaving ? 'Leave Workspace' : 'Remove Member'}
+        message={isLeaving
+          ? `Leave "${workspace.name}"? You can only get back in if an admin adds you again.`
+          : `Remove ${removingMember?.username} from "${workspace.name}"?`}
+        confirmText={isLeaving ? 'Leave' : 'Remove'}
+        variant="danger"
+        isLoading={isRemoving}
+      />
+    </div>
+  );
+}
+
+/**
+ * Lists the workspaces the user is a member of, and every workspace for global admins. Members of a
+ * workspace are managed here, and any user can create a new workspace.
+ */
+export function WorkspacesPage() {
+  const { workspaces, currentWorkspace, isLoaded, reload } = useWorkspaces();
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [isAdmin, setIsAdmin] = useState<boolean>(false);
+  const [editingWorkspace, setEditingWorkspace] = useState<Workspace | null | undefined>(undefined);
+  const [expandedWorkspaceId, setExpandedWorkspaceId] = useState<string | null>(null);
+
+  useEffect(() => {
+    unwrapResponse<User>(apiClient.GET('/api/User/me'))
+      .then(setCurrentUser)
+      .catch((error) => console.error('Failed to load current user:', error));
+    unwrapResponse<boolean>(apiClient.GET('/api/User/is-admin'))
+      .then(setIsAdmin)
+      .catch((error) => console.error('Failed to check admin status:', error));
+  }, []);
+
+  const handleSaved = () => {
+    setEditingWorkspace(undefined);
+    reload();
+  };
+
+  const handleSwitch = (workspace: Workspace) => {
+    if (!workspace.id) return;
+    setCurrentWorkspaceId(workspace.id);
+    window.location.assign('/dashboard');
+  };
+
+  const handleLeft = (workspace: Workspace) => {
+    setExpandedWorkspaceId(null);
+    if (workspace.id === currentWorkspace?.id) {
+      // The workspace being worked in is gone, so start over in another one
+      setCurrentWorkspaceId(null);
+      window.location.assign('/workspaces');
+      return;
+    }
+    reload();
+  };
+
+  return (
+    <div className="min-h-screen bg-[var(--elevation-level-1-dark)]">
+      <Header />
+      <div className="p-4">
+        <div className="max-w-2xl mx-auto">
+          <div className="flex items-center justify-between gap-3 mb-1">
+            <h1 className="text-2xl font-semibold text-[var(--color-fg)]">
+              Workspaces
+            </h1>
+            {isAdmin && (
+              <Button
+                variant="outlinePrimary"
+                onClick={() => setEditingWorkspace(null)}
+                icon={<IconPlus size={20} />}
+              >
+                New Workspace
+              </Button>
+            )}
+          </div>
+          <p className="text-sm text-[var(--color-fg)] opacity-70 mb-4">
+            Each workspace has its own locations and items. Readers can look around, writers can change things and admins also manage members.
+          </p>
+
+          {!isLoaded ? (
+            <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
+              Loading workspaces...
+            </div>
+          ) : workspaces.length === 0 ? (
+            <div className="text-[var(--color-fg)] opacity-70 text-center py-8">
+              {isAdmin ? 'You are not a member of any workspace yet. Create one to get started.' : 'You are not a member of any workspace yet. Ask an admin to add you.'}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {workspaces.map((workspace) => {
+                const canManage = isAdmin || hasWorkspaceRole(workspace.role, 'admin');
+                const isCurrent = workspace.id === currentWorkspace?.id;
+                const isExpanded = workspace.id === expandedWorkspaceId;
+                return (
+                  <div
+                    key={workspace.id}
+                    className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-3"
+                  >
+                    <div className="flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-[var(--color-fg)] font-medium truncate">
+                          {workspace.name || 'Unnamed Workspace'}
+                          {isCurrent && (
+                            <span className="ml-2 text-sm font-normal text-[var(--brand-color-light)]">current</span>
+                          )}
+                        </div>
+                        <div className="text-[var(--color-fg)] opacity-70 text-sm">
+                          {workspace.role ? WORKSPACE_ROLE_LABELS[workspace.role] || workspace.role : 'Not a member'}
+                        </div>
+                      </div>
+                      {!isCurrent && workspace.role && (
+                        <IconButton
+                          onClick={() => handleSwitch(workspace)}
+                          aria-label={`Switch to ${workspace.name}`}
+                        >
+                          <IconCheck size={18} />
+                        </IconButton>
+                      )}
+                      {canManage && (
+                        <IconButton
+                          onClick={() => setEditingWorkspace(workspace)}
+                          aria-label={`Rename ${workspace.name}`}
+                        >
+                          <IconEdit size={18} />
+                        </IconButton>
+                      )}
+                      <IconButton
+                        onClick={() => setExpandedWorkspaceId(isExpanded ? null : workspace.id || null)}
+                        aria-label={`Members of ${workspace.name}`}
+                        aria-expanded={isExpanded}
+                      >
+                        <IconUsersGroup size={18} />
+                      </IconButton>
+                    </div>
+                    {isExpanded && (
+                      <WorkspaceMembers
+                        workspace={workspace}
+                        currentUserId={currentUser?.id || undefined}
+                        canManage={canManage}
+                        onLeft={() => handleLeft(workspace)}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {currentWorkspace && hasWorkspaceRole(currentWorkspace.role, 'admin') && (
+            <div className="mt-8">
+              <h2 className="text-lg font-semibold text-[var(--color-fg)] mb-1">
+                Share Links
+              </h2>
+              <p className="text-sm text-[var(--color-fg)] opacity-70 mb-3">
+                Anyone with one of these links can look at a location in {currentWorkspace.name} without an account. Make new links from the page of a location.
+              </p>
+              <div className="bg-[var(--elevation-level-2-dark)] border border-[var(--color-border)] rounded-md p-3">
+                <ShareLinksPanel />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {editingWorkspace !== undefined && (
+        <WorkspaceNameModal
+          workspace={editingWorkspace}
+          onClose={() => setEditingWorkspace(undefined)}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+}
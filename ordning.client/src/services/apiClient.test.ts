@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { QUEUED_OFFLINE, unwrapMutationResponse } from './apiClient';
+import { OFFLINE_RESPONSE_HEADER } from './syncService';
+
+describe('unwrapMutationResponse', () => {
+  it('tells a change queued while offline apart from one the server made', async () => {
+    const queued = new Response('null', { status: 202, headers: { [OFFLINE_RESPONSE_HEADER]: 'true' } });
+    const made = new Response('{"id":"1"}', { status: 201 });
+
+    expect(await unwrapMutationResponse(Promise.resolve({ data: null, response: queued }))).toBe(QUEUED_OFFLINE);
+    expect(await unwrapMutationResponse(Promise.resolve({ data: { id: '1' }, response: made }))).toEqual({ id: '1' });
+  });
+
+  it('still fails on errors', async () => {
+    const rejected = new Response(null, { status: 400, statusText: 'Bad Request' });
+
+    await expect(unwrapMutationResponse(Promise.resolve({ error: { message: 'Name is required' }, response: rejected })))
+      .rejects.toThrow('Name is required');
+  });
+});
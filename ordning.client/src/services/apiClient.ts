@@ -1,6 +1,18 @@
 import createClient from 'openapi-fetch';
 import type { paths } from '../types/api';
-import { getToken, clearToken } from './authService';
+import { getToken, clearToken, refreshSession, requestReLogin, SESSION_PATH_PREFIXES } from './authService';
+import {
+  cacheResponse,
+  getOfflineMutationResponse,
+  getOfflineResponse,
+  isCacheableRequest,
+  isMutationRequest,
+  isNetworkOffline,
+  isQueueableRequest,
+  OFFLINE_RESPONSE_HEADER,
+  queueMutation,
+} from './syncService';
+import { getCurrentWorkspaceId, WORKSPACE_HEADER } from './workspaces';
 
 export class ApiError extends Error {
   public status: number;
@@ -21,26 +33,96 @@ export class ApiError extends Error {
 // Create the typed API client
 export const apiClient = createClient<paths>({ baseUrl: '' });
 
-// Add auth middleware to inject token and handle 401 errors
+// Copies of requests made with a token, so that they can be sent again once the session is renewed
+const retryableRequests = new WeakMap<Request, Request>();
+
+function isSessionRequest(request: Request): boolean {
+  const pathname = new URL(request.url, window.location.origin).pathname;
+  return SESSION_PATH_PREFIXES.some((prefix) => pathname.startsWith(prefix));
+}
+
+// Add auth middleware to inject token and workspace and handle 401 errors
 apiClient.use({
   async onRequest({ request }) {
     const token = getToken();
     if (token) {
       request.headers.set('Authorization', `Bearer ${token}`);
     }
+    const workspaceId = getCurrentWorkspaceId();
+    if (workspaceId && !request.headers.has(WORKSPACE_HEADER)) {
+      request.headers.set(WORKSPACE_HEADER, workspaceId);
+    }
+    if (token && !isSessionRequest(request)) {
+      retryableRequests.set(request, request.clone());
+    }
+    return request;
+  },
+  async onResponse({ request, response }) {
+    const retry = retryableRequests.get(request);
+    retryableRequests.delete(request);
+    if (response.status !== 401 || isSessionRequest(request)) {
+      return response;
+    }
+
+    // Renew the session, or ask the user to sign in again, and send the request again instead of leaving the page
+    if (retry && ((await refreshSession()) || (await requestReLogin()))) {
+      retry.headers.set('Authorization', `Bearer ${getToken()}`);
+      return fetch(retry);
+    }
+
+    clearToken();
+    // Only redirect if we're not already on the login page
+    // This prevents page refresh when login fails on the login page
+    if (window.location.pathname !== '/login') {
+      window.location.href = '/login';
+    }
+    return response;
+  },
+});
+
+// Add offline middleware to serve cached data and queue item and location changes while there is no connection.
+// Other changes fail right away. Session requests are left alone, since a refresh token sent again later would end the session.
+apiClient.use({
+  async onRequest({ request }) {
+    if (!isNetworkOffline() || isSessionRequest(request)) {
+      return request;
+    }
+
+    if (isCacheableRequest(request)) {
+      return getOfflineResponse(request);
+    }
+
+    if (isQueueableRequest(request)) {
+      return queueMutation(request);
+    }
+
+    if (isMutationRequest(request)) {
+      return getOfflineMutationResponse();
+    }
+
     return request;
   },
-  async onResponse({ response }) {
-    if (response.status === 401) {
-      clearToken();
-      // Only redirect if we're not already on the login page
-      // This prevents page refresh when login fails on the login page
-      if (window.location.pathname !== '/login') {
-        window.location.href = '/login';
-      }
+  async onResponse({ request, response }) {
+    if (response.ok && isCacheableRequest(request) && !response.headers.has(OFFLINE_RESPONSE_HEADER)) {
+      await cacheResponse(request, response);
     }
     return response;
   },
+  async onError({ request, error }) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return error;
+    }
+
+    if (isCacheableRequest(request)) {
+      return getOfflineResponse(request);
+    }
+
+    if (isQueueableRequest(request)) {
+      return queueMutation(request);
+    }
+
+    return error instanceof Error ? error : new Error(String(error));
+  },
 });
 
 // Helper function to unwrap openapi-fetch responses and throw errors
@@ -73,3 +155,21 @@ export async function unwrapResponse<T>(
 
   return data;
 }
+
+/**
+ * What a change to items or locations resolves to when it was queued while offline. The server has not made it
+ * yet, so there is no created or updated entity to show.
+ */
+export const QUEUED_OFFLINE = Symbol('queuedOffline');
+
+// Like unwrapResponse, for changes that may be queued while offline
+export async function unwrapMutationResponse<T>(
+  promise: Promise<{ data?: T; error?: unknown; response: Response }>,
+): Promise<T | typeof QUEUED_OFFLINE> {
+  const { response } = await promise;
+  if (response.status === 202 && response.headers.has(OFFLINE_RESPONSE_HEADER)) {
+    return QUEUED_OFFLINE;
+  }
+
+  return unwrapResponse(promise);
+}
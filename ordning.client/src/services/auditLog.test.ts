@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { formatAuditAction, getAuditEntityName, getAuditEntityPath, getAuditFieldChanges } from './auditLog';
+
+describe('getAuditFieldChanges', () => {
+  it('lists changed fields and properties, ignoring timestamps', () => {
+    const changes = getAuditFieldChanges({
+      before: { id: '1', name: 'Drill', description: '', properties: { color: 'red', size: 'M' }, updatedAt: '2026-01-01' },
+      after: { id: '1', name: 'Cordless drill', description: 'Blue case', properties: { color: 'red', brand: 'Acme' }, updatedAt: '2026-01-02' },
+    });
+
+    expect(changes).toEqual([
+      { field: 'name', label: 'Name', before: 'Drill', after: 'Cordless drill' },
+      { field: 'description', label: 'Description', before: null, after: 'Blue case' },
+      { field: 'properties.size', label: 'size', before: 'M', after: null },
+      { field: 'properties.brand', label: 'brand', before: null, after: 'Acme' },
+    ]);
+  });
+
+  it('lists every field with a value for a create', () => {
+    const changes = getAuditFieldChanges({ before: null, after: { name: 'Shelf', description: null, parentLocationId: 'G1' } });
+
+    expect(changes).toEqual([
+      { field: 'name', label: 'Name', before: null, after: 'Shelf' },
+      { field: 'parentLocationId', label: 'Parent location', before: null, after: 'G1' },
+    ]);
+  });
+});
+
+describe('audit entry labels', () => {
+  it('names the entity from the newest snapshot and falls back to the ID', () => {
+    expect(getAuditEntityName({ entityId: 'G1', before: { name: 'Old' }, after: { name: 'New' } })).toBe('New');
+    expect(getAuditEntityName({ entityId: 'G1', before: { name: 'Old' }, after: null })).toBe('Old');
+    expect(getAuditEntityName({ entityId: 'G1', before: null, after: null })).toBe('G1');
+  });
+
+  it('links to existing entities only', () => {
+    expect(getAuditEntityPath({ entityType: 'location', entityId: 'G1', action: 'move' })).toBe('/locations/G1');
+    expect(getAuditEntityPath({ entityType: 'item', entityId: 'abc', action: 'update' })).toBe('/items/abc');
+    expect(getAuditEntityPath({ entityType: 'item', entityId: 'abc', action: 'delete' })).toBeNull();
+  });
+
+  it('labels known actions and passes unknown ones through', () => {
+    expect(formatAuditAction('move')).toBe('Moved');
+    expect(formatAuditAction('archive')).toBe('archive');
+  });
+});
@@ -0,0 +1,108 @@
+import type { components } from '../types/api';
+
+/**
+ * Helpers for the audit log returned by `/api/Audit`. Each entry stores the whole item or location
+ * before and after the change, so the list of changed fields is worked out here.
+ */
+
+type AuditEntry = components['schemas']['AuditEntry'];
+
+export type AuditAction = 'create' | 'update' | 'move' | 'delete';
+export type AuditEntityType = 'item' | 'location';
+
+export const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'move', 'delete'];
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  move: 'Moved',
+  delete: 'Deleted',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  locationId: 'Location',
+  parentLocationId: 'Parent location',
+};
+
+/** Fields that change with every write or never change, which would only add noise. */
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+export interface AuditFieldChange {
+  field: string;
+  label: string;
+  before: string | null;
+  after: string | null;
+}
+
+type Snapshot = Record<string, unknown>;
+
+function asSnapshot(value: unknown): Snapshot | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Snapshot) : null;
+}
+
+function toDisplayValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function flattenSnapshot(snapshot: Snapshot | null): Map<string, string | null> {
+  const fields = new Map<string, string | null>();
+  if (!snapshot) {
+    return fields;
+  }
+
+  for (const [field, value] of Object.entries(snapshot)) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+
+    const properties = field === 'properties' ? asSnapshot(value) : null;
+    if (properties) {
+      for (const [key, propertyValue] of Object.entries(properties)) {
+        fields.set(`properties.${key}`, toDisplayValue(propertyValue));
+      }
+    } else if (field !== 'properties') {
+      fields.set(field, toDisplayValue(value));
+    }
+  }
+
+  return fields;
+}
+
+export function formatAuditAction(action: string | null | undefined): string {
+  return ACTION_LABELS[action as AuditAction] ?? action ?? 'Changed';
+}
+
+/** Lists the fields that differ between the snapshots, properties by their own key. Creates and deletes list every field that has a value. */
+export function getAuditFieldChanges(entry: Pick<AuditEntry, 'before' | 'after'>): AuditFieldChange[] {
+  const before = flattenSnapshot(asSnapshot(entry.before));
+  const after = flattenSnapshot(asSnapshot(entry.after));
+  const fields = [...new Set([...before.keys(), ...after.keys()])];
+
+  return fields
+    .map((field) => ({
+      field,
+      label: field.startsWith('properties.') ? field.slice('properties.'.length) : FIELD_LABELS[field] ?? field,
+      before: before.get(field) ?? null,
+      after: after.get(field) ?? null,
+    }))
+    .filter((change) => change.before !== change.after);
+}
+
+/** The entity's name from the newest snapshot that has one, falling back to its ID. */
+export function getAuditEntityName(entry: Pick<AuditEntry, 'before' | 'after' | 'entityId'>): string {
+  const name = asSnapshot(entry.after)?.name ?? asSnapshot(entry.before)?.name;
+  return typeof name === 'string' && name ? name : entry.entityId || 'Unknown';
+}
+
+/** The page an entry links to, or null when the entity no longer exists. */
+export function getAuditEntityPath(entry: Pick<AuditEntry, 'entityType' | 'entityId' | 'action'>): string | null {
+  if (!entry.entityId || entry.action === 'delete') {
+    return null;
+  }
+  return entry.entityType === 'location' ? `/locations/${entry.entityId}` : `/items/${entry.entityId}`;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { getTokenRenewalDelay, getTokenUserId, RENEWAL_MARGIN_MS, RENEWAL_RETRY_MS } from './authService';
+
+const now = Date.parse('2026-03-01T12:00:00.000Z');
+
+describe('getTokenRenewalDelay', () => {
+  it('renews a little before the token expires', () => {
+    expect(getTokenRenewalDelay('2026-03-01T13:00:00.000Z', now)).toBe(60 * 60 * 1000 - RENEWAL_MARGIN_MS);
+  });
+
+  it('renews at once when the token is about to expire or has expired', () => {
+    expect(getTokenRenewalDelay('2026-03-01T12:00:30.000Z', now)).toBe(0);
+    expect(getTokenRenewalDelay('2026-03-01T11:00:00.000Z', now)).toBe(0);
+  });
+
+  it('waits a while after a failed attempt before trying again', () => {
+    expect(getTokenRenewalDelay('2026-03-01T11:00:00.000Z', now, now - 10 * 1000)).toBe(RENEWAL_RETRY_MS - 10 * 1000);
+  });
+
+  it('has nothing to renew without a valid expiry', () => {
+    expect(getTokenRenewalDelay(null, now)).toBeNull();
+    expect(getTokenRenewalDelay('not a date', now)).toBeNull();
+  });
+});
+
+describe('getTokenUserId', () => {
+  const toTokenPart = (value: object): string =>
+    btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+  it('reads the user the token was issued to', () => {
+    const token = `${toTokenPart({ alg: 'HS256' })}.${toTokenPart({ sub: '0b8c5f1e-4d0a-4c57-9f0e-2b1d9c6a7e11', role: 'admin' })}.signature`;
+    expect(getTokenUserId(token)).toBe('0b8c5f1e-4d0a-4c57-9f0e-2b1d9c6a7e11');
+  });
+
+  it('has no user for a missing or unreadable token', () => {
+    expect(getTokenUserId(null)).toBeNull();
+    expect(getTokenUserId('not a token')).toBeNull();
+    expect(getTokenUserId(`header.${toTokenPart({ role: 'admin' })}.signature`)).toBeNull();
+    expect(getTokenUserId('header.%%%.signature')).toBeNull();
+  });
+});
@@ -1,20 +1,41 @@
+/**
+ * A signed in session has a short-lived access token that is sent with every request and a refresh
+ * token that is exchanged for new tokens shortly before the access token expires. Each refresh token
+ * works once, so tabs take turns renewing and pick up tokens another tab has already renewed.
+ */
 import { apiClient, ApiError } from './apiClient';
 import type { components } from '../types/api';
 
-type LoginAuthRequest = components['schemas']['LoginAuthRequest'];
-type AuthResponse = {
-  token: string;
-  expiresAt: string;
-};
+type SessionTokens = components['schemas']['SessionTokens'];
+
+export type SessionState = 'signedOut' | 'active' | 'renewing' | 'expired';
 
 const TOKEN_STORAGE_KEY = 'auth_token';
 const EXPIRES_AT_STORAGE_KEY = 'auth_expires_at';
+const REFRESH_TOKEN_STORAGE_KEY = 'auth_refresh_token';
+const REFRESH_EXPIRES_AT_STORAGE_KEY = 'auth_refresh_expires_at';
+const USERNAME_STORAGE_KEY = 'auth_username';
+
+const REFRESH_LOCK_NAME = 'ordning-session-refresh';
+
+/** How long before the access token expires it is renewed. */
+export const RENEWAL_MARGIN_MS = 60 * 1000;
+
+/** How long to wait before trying again after a renewal failed, for example while offline. */
+export const RENEWAL_RETRY_MS = 30 * 1000;
+
+/** Paths that sign in and renew sessions. A 401 from them means the credentials are wrong, not that the session ran out. */
+export const SESSION_PATH_PREFIXES = ['/api/Session', '/api/Passkey/login'];
 
-export async function login(username: string, password: string): Promise<AuthResponse> {
+const sessionListeners = new Set<(state: SessionState) => void>();
+let pendingRefresh: Promise<boolean> | null = null;
+let reLoginHandler: (() => Promise<boolean>) | null = null;
+let pendingReLogin: Promise<boolean> | null = null;
+
+export async function login(username: string, password: string): Promise<SessionTokens> {
   try {
-    const loginData: LoginAuthRequest = { username, password };
-    const { data, error, response } = await apiClient.POST('/api/auth/login', {
-      body: loginData,
+    const { data, error, response } = await apiClient.POST('/api/Session', {
+      body: { username, password },
     });
 
     if (error || !data) {
@@ -24,9 +45,8 @@ export async function login(username: string, password: string): Promise<AuthRes
       throw new Error('Login failed');
     }
 
-    // The API returns token and expiresAt, but we need to parse it from the response
-    // Since Swagger doesn't show the response body type, we'll cast it
-    return data as unknown as AuthResponse;
+    rememberUsername(username);
+    return data;
   } catch (error) {
     if (error instanceof ApiError && error.status === 401) {
       throw new Error('Invalid username or password');
@@ -35,6 +55,15 @@ export async function login(username: string, password: string): Promise<AuthRes
   }
 }
 
+export function saveSession(tokens: SessionTokens): void {
+  saveToken(tokens.token || '', tokens.expiresAt || '');
+  if (tokens.refreshToken && tokens.refreshTokenExpiresAt) {
+    localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, tokens.refreshToken);
+    localStorage.setItem(REFRESH_EXPIRES_AT_STORAGE_KEY, tokens.refreshTokenExpiresAt);
+  }
+  notifySessionListeners('active');
+}
+
 export function saveToken(token: string, expiresAt: string): void {
   localStorage.setItem(TOKEN_STORAGE_KEY, token);
   localStorage.setItem(EXPIRES_AT_STORAGE_KEY, expiresAt);
@@ -48,9 +77,51 @@ export function getExpiresAt(): string | null {
   return localStorage.getItem(EXPIRES_AT_STORAGE_KEY);
 }
 
+export function getRefreshToken(): string | null {
+  return localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+}
+
+/** The username of the last user who signed in, so that the re-login prompt only asks for the password. */
+export function getLastUsername(): string | null {
+  return localStorage.getItem(USERNAME_STORAGE_KEY);
+}
+
+/** Remembers who signed in, or forgets it when the username is not known, such as after signing in with a passkey. */
+export function rememberUsername(username: string | null): void {
+  if (username) {
+    localStorage.setItem(USERNAME_STORAGE_KEY, username);
+  } else {
+    localStorage.removeItem(USERNAME_STORAGE_KEY);
+  }
+}
+
+/** The ID of the user an access token was issued to, or null when the token cannot be read. */
+export function getTokenUserId(token: string | null | undefined): string | null {
+  const payload = token?.split('.')[1];
+  if (!payload) {
+    return null;
+  }
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const claims: unknown = JSON.parse(atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=')));
+    const subject = (claims as { sub?: unknown } | null)?.sub;
+    return typeof subject === 'string' && subject ? subject : null;
+  } catch {
+    return null;
+  }
+}
+
 export function clearToken(): void {
   localStorage.removeItem(TOKEN_STORAGE_KEY);
   localStorage.removeItem(EXPIRES_AT_STORAGE_KEY);
+  clearRefreshToken();
+  notifySessionListeners('signedOut');
+}
+
+function clearRefreshToken(): void {
+  localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
+  localStorage.removeItem(REFRESH_EXPIRES_AT_STORAGE_KEY);
 }
 
 export function isTokenExpired(): boolean {
@@ -63,3 +134,135 @@ export function isTokenExpired(): boolean {
   const now = new Date();
   return now >= expirationDate;
 }
+
+export function hasRefreshToken(): boolean {
+  const expiresAt = localStorage.getItem(REFRESH_EXPIRES_AT_STORAGE_KEY);
+  return !!getRefreshToken() && !!expiresAt && Date.parse(expiresAt) > Date.now();
+}
+
+/**
+ * How many milliseconds to wait before renewing an access token that expires at the given time, so
+ * that it is renewed a little before it stops working, but not sooner than a while after the last
+ * attempt. Returns null when there is nothing to renew.
+ */
+export function getTokenRenewalDelay(expiresAt: string | null, now: number, lastAttemptAt = 0): number | null {
+  if (!expiresAt) {
+    return null;
+  }
+
+  const expiresAtMs = Date.parse(expiresAt);
+  if (Number.isNaN(expiresAtMs)) {
+    return null;
+  }
+
+  return Math.max(0, expiresAtMs - RENEWAL_MARGIN_MS - now, lastAttemptAt + RENEWAL_RETRY_MS - now);
+}
+
+/** Listens for changes to the session, such as renewals made by the API client. Returns a function that stops listening. */
+export function onSessionChange(listener: (state: SessionState) => void): () => void {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
+  };
+}
+
+function notifySessionListeners(state: SessionState): void {
+  sessionListeners.forEach((listener) => listener(state));
+}
+
+/**
+ * Exchanges the refresh token for new tokens. Calls made while a renewal is running share it, and
+ * other tabs wait for it through a lock, so the same refresh token is never used twice. Resolves to
+ * whether the session is active afterwards.
+ */
+export function refreshSession(): Promise<boolean> {
+  if (!pendingRefresh) {
+    const refreshTokenBefore = getRefreshToken();
+    pendingRefresh = withRefreshLock(() => refreshStoredSession(refreshTokenBefore)).finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+}
+
+async function withRefreshLock(task: () => Promise<boolean>): Promise<boolean> {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return await navigator.locks.request(REFRESH_LOCK_NAME, task);
+  }
+  return await task();
+}
+
+async function refreshStoredSession(refreshTokenBefore: string | null): Promise<boolean> {
+  // Another tab renewed the session while this one waited for the lock
+  const refreshToken = getRefreshToken();
+  if (refreshToken && refreshToken !== refreshTokenBefore && !isTokenExpired()) {
+    notifySessionListeners('active');
+    return true;
+  }
+
+  if (!refreshToken || !hasRefreshToken()) {
+    return false;
+  }
+
+  notifySessionListeners('renewing');
+  try {
+    const { data, response } = await apiClient.POST('/api/Session/refresh', {
+      body: { refreshToken },
+    });
+
+    if (data) {
+      saveSession(data);
+      return true;
+    }
+
+    if (response.status === 401) {
+      clearRefreshToken();
+    }
+  } catch {
+    // Offline or the server could not be reached, the access token may still work for a while
+  }
+
+  notifySessionListeners(getToken() ? 'active' : 'signedOut');
+  return false;
+}
+
+/**
+ * Ends a session on the server so that its refresh token stops working, by default the session of this
+ * browser. Failures are ignored.
+ */
+export async function endSession(refreshToken: string | null | undefined = getRefreshToken()): Promise<void> {
+  if (!refreshToken) {
+    return;
+  }
+
+  try {
+    await apiClient.POST('/api/Session/end', {
+      body: { refreshToken },
+    });
+  } catch {
+    // The refresh token expires by itself
+  }
+}
+
+/** Sets what asks the user to sign in again when the session can no longer be renewed. */
+export function setReLoginHandler(handler: (() => Promise<boolean>) | null): void {
+  reLoginHandler = handler;
+}
+
+/**
+ * Asks the user to sign in again without leaving the page. Requests that fail at the same time share
+ * one prompt. Resolves to whether the user signed in.
+ */
+export function requestReLogin(): Promise<boolean> {
+  if (!reLoginHandler) {
+    return Promise.resolve(false);
+  }
+
+  if (!pendingReLogin) {
+    notifySessionListeners('expired');
+    pendingReLogin = reLoginHandler().finally(() => {
+      pendingReLogin = null;
+    });
+  }
+  return pendingReLogin;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { detectCsvDelimiter, parseCsv } from './csvParser';
+
+describe('parseCsv', () => {
+  it('splits rows and cells', () => {
+    expect(parseCsv('name,locationId\r\nDrill,G1\r\nSaw,G2\r\n')).toEqual([
+      ['name', 'locationId'],
+      ['Drill', 'G1'],
+      ['Saw', 'G2'],
+    ]);
+  });
+
+  it('reads quoted cells with delimiters, doubled quotes and line breaks', () => {
+    expect(parseCsv('name,description\n"Drill, blue","Says ""hi""\nand more"\n')).toEqual([
+      ['name', 'description'],
+      ['Drill, blue', 'Says "hi"\nand more'],
+    ]);
+  });
+
+  it('keeps empty cells and skips blank lines', () => {
+    expect(parseCsv('a,b,c\n\n1,,3\n\n')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '', '3'],
+    ]);
+  });
+
+  it('strips a byte order mark and reads a last line without a line break', () => {
+    expect(parseCsv('\uFEFFname\nDrill')).toEqual([['name'], ['Drill']]);
+  });
+
+  it('reads semicolon separated files', () => {
+    expect(parseCsv('name;color\nDrill;"red;blue"\n')).toEqual([
+      ['name', 'color'],
+      ['Drill', 'red;blue'],
+    ]);
+  });
+});
+
+describe('detectCsvDelimiter', () => {
+  it('picks the delimiter that appears most in the header', () => {
+    expect(detectCsvDelimiter('name,color\n')).toBe(',');
+    expect(detectCsvDelimiter('name;"a,b";color\n')).toBe(';');
+    expect(detectCsvDelimiter('name\tcolor\n')).toBe('\t');
+    expect(detectCsvDelimiter('name\n')).toBe(',');
+  });
+});
@@ -0,0 +1,96 @@
+// CSV reader for imports. Follows RFC 4180 quoting and accepts the comma, semicolon and tab
+// separated files that spreadsheet programs produce depending on locale.
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t'];
+
+function countDelimitersOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let isQuoted = false;
+  for (const character of line) {
+    if (character === '"') {
+      isQuoted = !isQuoted;
+    } else if (character === delimiter && !isQuoted) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Picks the delimiter that splits the header line into the most columns.
+ */
+export function detectCsvDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  let bestDelimiter = CANDIDATE_DELIMITERS[0];
+  let bestCount = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const count = countDelimitersOutsideQuotes(firstLine, delimiter);
+    if (count > bestCount) {
+      bestDelimiter = delimiter;
+      bestCount = count;
+    }
+  }
+  return bestDelimiter;
+}
+
+/**
+ * Parses CSV text into rows of cells. Quoted cells may contain delimiters, doubled quotes and
+ * line breaks. A leading byte order mark and blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter: string = detectCsvDelimiter(text)): string[][] {
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let isQuoted = false;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  while (i < input.length) {
+    const character = input[i];
+
+    if (isQuoted) {
+      if (character === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i += 2;
+        continue;
+      }
+      if (character === '"') {
+        isQuoted = false;
+      } else {
+        cell += character;
+      }
+      i++;
+      continue;
+    }
+
+    if (character === '"' && cell === '') {
+      isQuoted = true;
+    } else if (character === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (character === '\r' && input[i + 1] === '\n') {
+      endRow();
+      i++;
+    } else if (character === '\n' || character === '\r') {
+      endRow();
+    } else {
+      cell += character;
+    }
+    i++;
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
@@ -0,0 +1,14 @@
+/**
+ * Saves data as a file through a temporary download link.
+ */
+export function downloadFile(data: BlobPart, fileName: string, mimeType: string) {
+  const blob = new Blob([data], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { fitWithin } from './imageProcessing';
+
+describe('fitWithin', () => {
+  it('scales the longest side down to the maximum', () => {
+    expect(fitWithin(4032, 3024, 1600)).toEqual({ width: 1600, height: 1200 });
+    expect(fitWithin(3024, 4032, 1600)).toEqual({ width: 1200, height: 1600 });
+  });
+
+  it('leaves images that already fit unchanged', () => {
+    expect(fitWithin(800, 600, 1600)).toEqual({ width: 800, height: 600 });
+  });
+
+  it('keeps very thin images at least one pixel wide', () => {
+    expect(fitWithin(10000, 2, 320)).toEqual({ width: 320, height: 1 });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Shrinking photos before upload. Phone cameras produce images of several megabytes, so photos are
+ * scaled down and re-encoded as WebP in the browser, together with a small thumbnail for lists.
+ */
+
+export const MAX_IMAGE_DIMENSION = 1600;
+export const MAX_THUMBNAIL_DIMENSION = 320;
+
+const PREFERRED_TYPE = 'image/webp';
+const FALLBACK_TYPE = 'image/jpeg';
+const IMAGE_QUALITY = 0.82;
+const THUMBNAIL_QUALITY = 0.7;
+
+export interface ProcessedImage {
+  image: Blob;
+  thumbnail: Blob;
+  contentType: string;
+  width: number;
+  height: number;
+}
+
+/** Scales dimensions down to fit within a square of the given size, keeping the aspect ratio. Never scales up. */
+export function fitWithin(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+function encode(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))),
+      type,
+      quality,
+    );
+  });
+}
+
+function drawScaled(bitmap: ImageBitmap, maxDimension: number): HTMLCanvasElement {
+  const size = fitWithin(bitmap.width, bitmap.height, maxDimension);
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not process the image');
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, size.width, size.height);
+  return canvas;
+}
+
+/**
+ * Resizes a photo and renders its thumbnail. Browsers that can't encode WebP hand back a PNG
+ * instead, in which case both are encoded as JPEG so that they stay small and share one type.
+ */
+export async function processImage(file: File): Promise<ProcessedImage> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(`"${file.name}" is not an image that can be read`);
+  }
+
+  try {
+    const imageCanvas = drawScaled(bitmap, MAX_IMAGE_DIMENSION);
+    const thumbnailCanvas = drawScaled(bitmap, MAX_THUMBNAIL_DIMENSION);
+
+    let image = await encode(imageCanvas, PREFERRED_TYPE, IMAGE_QUALITY);
+    const contentType = image.type === PREFERRED_TYPE ? PREFERRED_TYPE : FALLBACK_TYPE;
+    if (contentType !== PREFERRED_TYPE) {
+      image = await encode(imageCanvas, FALLBACK_TYPE, IMAGE_QUALITY);
+    }
+    const thumbnail = await encode(thumbnailCanvas, contentType, THUMBNAIL_QUALITY);
+
+    return {
+      image,
+      thumbnail,
+      contentType,
+      width: imageCanvas.width,
+      height: imageCanvas.height,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,102 @@
+import { apiClient, unwrapResponse } from './apiClient';
+import { isNetworkOffline } from './syncService';
+import type { ProcessedImage } from './imageProcessing';
+import type { components } from '../types/api';
+
+type Image = components['schemas']['Image'];
+
+export type ImageVariant = 'full' | 'thumbnail';
+
+export type ImageOwnerType = 'item' | 'location';
+
+/** Matches the limit the server enforces per item or location. */
+export const MAX_IMAGES_PER_OWNER = 20;
+
+/**
+ * Images are served behind the same bearer token as the rest of the API, which an <img> tag
+ * can't send, so they are fetched as blobs and shown through object URLs.
+ */
+export async function fetchImageBlob(imageId: string, variant: ImageVariant, signal?: AbortSignal): Promise<Blob> {
+  const params = { path: { id: imageId } };
+  const responsePromise = variant === 'thumbnail'
+    ? apiClient.GET('/api/Image/{id}/thumbnail', { params, parseAs: 'blob', signal })
+    : apiClient.GET('/api/Image/{id}', { params, parseAs: 'blob', signal });
+
+  return unwrapResponse<Blob>(responsePromise);
+}
+
+function getFileExtension(contentType: string): string {
+  return contentType === 'image/webp' ? 'webp' : 'jpg';
+}
+
+function createUploadForm(processed: ProcessedImage): FormData {
+  const extension = getFileExtension(processed.contentType);
+  const formData = new FormData();
+  formData.append('Image', processed.image, `image.${extension}`);
+  formData.append('Thumbnail', processed.thumbnail, `thumbnail.${extension}`);
+  formData.append('Width', String(processed.width));
+  formData.append('Height', String(processed.height));
+  return formData;
+}
+
+export async function uploadImage(ownerType: ImageOwnerType, ownerId: string, processed: ProcessedImage): Promise<Image> {
+  // Queued offline mutations are replayed from their text body, which would mangle the image data
+  if (isNetworkOffline()) {
+    throw new Error('Photos can only be uploaded while online');
+  }
+
+  const formData = createUploadForm(processed);
+  const options = {
+    params: {
+      path: {
+        id: ownerId,
+      },
+    },
+    body: {},
+    bodySerializer: () => formData,
+  };
+
+  return unwrapResponse<Image>(ownerType === 'location'
+    ? apiClient.POST('/api/Location/{id}/images', options)
+    : apiClient.POST('/api/Item/{id}/images', options));
+}
+
+/** Uploads photos one at a time so that a slow connection isn't saturated. Returns how many failed. */
+export async function uploadImages(ownerType: ImageOwnerType, ownerId: string, images: ProcessedImage[]): Promise<number> {
+  let failedCount = 0;
+  for (const image of images) {
+    try {
+      await uploadImage(ownerType, ownerId, image);
+    } catch (error) {
+      console.error('Failed to upload photo:', error);
+      failedCount++;
+    }
+  }
+  return failedCount;
+}
+
+export async function deleteImage(imageId: string): Promise<void> {
+  const { error, response } = await apiClient.DELETE('/api/Image/{id}', {
+    params: {
+      path: {
+        id: imageId,
+      },
+    },
+  });
+
+  if (error || !response.ok) {
+    throw new Error('Failed to delete photo');
+  }
+}
+
+/** Applies the photo changes made in an edit form. Returns how many of the changes failed. */
+export async function saveImageChanges(
+  ownerType: ImageOwnerType,
+  ownerId: string,
+  removedImageIds: string[],
+  newImages: ProcessedImage[],
+): Promise<number> {
+  const deleteResults = await Promise.allSettled(removedImageIds.map((imageId) => deleteImage(imageId)));
+  const failedDeleteCount = deleteResults.filter((result) => result.status === 'rejected').length;
+  return failedDeleteCount + await uploadImages(ownerType, ownerId, newImages);
+}
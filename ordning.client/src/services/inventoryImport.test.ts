@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import type { components } from '../types/api';
+import { buildInventoryExport, serializeInventoryCsv, serializeInventoryJson } from './inventorySerializer';
+import { ImportFileError, parseImportFile, planImport, suggestColumnMapping, type ImportOptions } from './inventoryImport';
+
+type Item = components['schemas']['Item'];
+type Location = components['schemas']['Location'];
+
+const NO_AUTO_CREATE: ImportOptions = { createUnknownLocations: false, unknownLocationParentId: null };
+
+const existingLocations: Location[] = [
+  { id: 'G1', name: 'Garage', parentLocationId: null },
+  { id: 'G1-S1', name: 'Shelf 1', parentLocationId: 'G1' },
+  { id: 'A1', name: 'Attic', parentLocationId: null },
+];
+
+const existingItems: Item[] = [
+  { id: 'item-1', name: 'Drill', description: null, locationId: 'G1-S1', properties: { color: 'blue' } },
+];
+
+function planCsv(csv: string, options: ImportOptions = NO_AUTO_CREATE) {
+  const table = parseImportFile('items.csv', csv);
+  return planImport(table, suggestColumnMapping(table.columns), existingLocations, existingItems, options);
+}
+
+describe('suggestColumnMapping', () => {
+  it('maps known columns to fields and the rest to properties', () => {
+    expect(suggestColumnMapping(['ID', 'Name', 'Description', 'Location ID', 'locationPath', 'Color', 'property:name'])).toEqual([
+      { type: 'field', field: 'id' },
+      { type: 'field', field: 'name' },
+      { type: 'field', field: 'description' },
+      { type: 'field', field: 'locationId' },
+      { type: 'ignore' },
+      { type: 'property', key: 'Color' },
+      { type: 'property', key: 'name' },
+    ]);
+  });
+
+  it('leaves the quantity, tag and template columns of the export alone', () => {
+    expect(suggestColumnMapping(['quantity', 'unit', 'minQuantity', 'tags', 'templateId'])).toEqual([
+      { type: 'ignore' },
+      { type: 'ignore' },
+      { type: 'ignore' },
+      { type: 'ignore' },
+      { type: 'ignore' },
+    ]);
+  });
+});
+
+describe('parseImportFile', () => {
+  it('rejects JSON that is not an inventory export', () => {
+    expect(() => parseImportFile('items.json', '{"items": []}')).toThrow(ImportFileError);
+    expect(() => parseImportFile('items.json', 'not json')).toThrow(ImportFileError);
+  });
+
+  it('rejects CSV headers with duplicate columns', () => {
+    expect(() => parseImportFile('items.csv', 'name,name\nDrill,Saw\n')).toThrow('appears more than once');
+  });
+
+  it('reads locations and items from the JSON export', () => {
+    const inventory = buildInventoryExport(
+      [{ location: { id: 'B1', name: 'Basement' }, children: [{ location: { id: 'B1-1', name: 'Box' }, children: [] }] }],
+      [{ id: 'item-9', name: 'Tent', locationId: 'B1-1', properties: { size: '4p' } }],
+      new Date('2026-01-01T00:00:00Z'),
+    );
+
+    const table = parseImportFile('export.json', serializeInventoryJson(inventory));
+
+    expect(table.locations).toEqual([
+      { id: 'B1', name: 'Basement', description: null, parentLocationId: null },
+      { id: 'B1-1', name: 'Box', description: null, parentLocationId: 'B1' },
+    ]);
+    expect(table.columns).toEqual(['id', 'name', 'description', 'locationId', 'size']);
+    expect(table.rows).toEqual([{ rowNumber: 1, cells: ['item-9', 'Tent', '', 'B1-1', '4p'] }]);
+  });
+});
+
+describe('planImport', () => {
+  it('plans new items and reports rows that cannot be imported', () => {
+    const plan = planCsv('name,locationId,color\nSaw,G1-S1,red\n,G1-S1,\nHammer,,\nLadder,X9,\nBox,G1,\n');
+
+    expect(plan.itemsToCreate).toEqual([
+      { rowNumber: 2, name: 'Saw', description: null, locationId: 'G1-S1', properties: { color: 'red' } },
+    ]);
+    expect(plan.rowErrors).toEqual([
+      { rowNumber: 3, message: 'Name is required for new items.' },
+      { rowNumber: 4, message: 'Location ID is required for new items.' },
+      { rowNumber: 5, message: 'Location X9 does not exist.' },
+      { rowNumber: 6, message: 'Location G1 has child locations, so items cannot be placed in it.' },
+    ]);
+    expect(plan.unknownLocationIds).toEqual(['X9']);
+    expect(plan.locationsToCreate).toEqual([]);
+  });
+
+  it('creates unknown locations under the chosen parent when asked to', () => {
+    const plan = planCsv('name,locationId\nLadder,X9\nRope,X9\n', { createUnknownLocations: true, unknownLocationParentId: 'A1' });
+
+    expect(plan.locationsToCreate).toEqual([
+      { id: 'X9', name: 'X9', description: null, parentLocationId: 'A1', isFromUnknownId: true },
+    ]);
+    expect(plan.itemsToCreate.map((item) => item.locationId)).toEqual(['X9', 'X9']);
+    expect(plan.rowErrors).toEqual([]);
+  });
+
+  it('updates existing items, merging properties and keeping values for empty cells', () => {
+    const plan = planCsv('id,name,description,locationId,size\nitem-1,,Cordless,A1,L\n');
+
+    expect(plan.itemsToUpdate).toEqual([
+      {
+        rowNumber: 2,
+        itemId: 'item-1',
+        name: 'Drill',
+        description: 'Cordless',
+        properties: { color: 'blue', size: 'L' },
+        locationId: 'A1',
+        previousLocationId: 'G1-S1',
+        changes: [
+          { field: 'description', from: '', to: 'Cordless' },
+          { field: 'location', from: 'G1-S1', to: 'A1' },
+          { field: 'size', from: '', to: 'L' },
+        ],
+      },
+    ]);
+    expect(plan.itemsToCreate).toEqual([]);
+  });
+
+  it('counts rows that match the current inventory as unchanged', () => {
+    const inventory = buildInventoryExport(
+      [
+        { location: existingLocations[0], children: [{ location: existingLocations[1], children: [] }] },
+        { location: existingLocations[2], children: [] },
+      ],
+      existingItems,
+      new Date('2026-01-01T00:00:00Z'),
+    );
+
+    const plan = planCsv(serializeInventoryCsv(inventory));
+
+    expect(plan.unchangedRowCount).toBe(1);
+    expect(plan.itemsToCreate).toEqual([]);
+    expect(plan.itemsToUpdate).toEqual([]);
+    expect(plan.rowErrors).toEqual([]);
+  });
+
+  it('reports an existing item that appears twice', () => {
+    const plan = planCsv('id,name\nitem-1,Drill\nitem-1,Drill 2\n');
+
+    expect(plan.rowErrors).toEqual([{ rowNumber: 3, message: 'Item item-1 appears more than once in the file.' }]);
+  });
+
+  it('creates locations from a JSON export before the items in them', () => {
+    const inventory = buildInventoryExport(
+      [{ location: { id: 'B1', name: 'Basement' }, children: [{ location: { id: 'B1-1', name: 'Box' }, children: [] }] }],
+      [{ id: 'item-9', name: 'Tent', locationId: 'B1-1', properties: {} }],
+      new Date('2026-01-01T00:00:00Z'),
+    );
+    const table = parseImportFile('export.json', serializeInventoryJson(inventory));
+
+    const plan = planImport(table, suggestColumnMapping(table.columns), existingLocations, existingItems, NO_AUTO_CREATE);
+
+    expect(plan.locationsToCreate.map((location) => [location.id, location.parentLocationId])).toEqual([
+      ['B1', null],
+      ['B1-1', 'B1'],
+    ]);
+    expect(plan.itemsToCreate).toEqual([
+      { rowNumber: 1, name: 'Tent', description: null, locationId: 'B1-1', properties: {} },
+    ]);
+  });
+});
@@ -0,0 +1,414 @@
+import type { components } from '../types/api';
+import { parseCsv } from './csvParser';
+import {
+  CSV_PROPERTY_COLUMN_PREFIX,
+  INVENTORY_EXPORT_FORMAT,
+  INVENTORY_EXPORT_VERSION,
+  getPropertyColumnName,
+  type ExportedLocation,
+  type InventoryExport,
+} from './inventorySerializer';
+
+type Item = components['schemas']['Item'];
+type Location = components['schemas']['Location'];
+
+// Turns an uploaded CSV or JSON export into a plan of locations and items to create or update.
+// Planning is pure: it only compares the file with the current inventory, so the preview shown to
+// the user is exactly what will be sent to the API.
+
+export type ImportField = 'id' | 'name' | 'description' | 'locationId';
+
+export type ColumnTarget =
+  | { type: 'ignore' }
+  | { type: 'field'; field: ImportField }
+  | { type: 'property'; key: string };
+
+export interface ImportRow {
+  rowNumber: number;
+  cells: string[];
+}
+
+export interface ImportLocation {
+  id: string;
+  name: string;
+  description: string | null;
+  parentLocationId: string | null;
+}
+
+export interface ImportTable {
+  columns: string[];
+  rows: ImportRow[];
+  // Locations described by the file itself; only the JSON export format has these
+  locations: ImportLocation[];
+}
+
+export interface ImportOptions {
+  createUnknownLocations: boolean;
+  unknownLocationParentId: string | null;
+}
+
+export interface PlannedLocation extends ImportLocation {
+  isFromUnknownId: boolean;
+}
+
+export interface PlannedItemCreate {
+  rowNumber: number;
+  name: string;
+  description: string | null;
+  locationId: string;
+  properties: Record<string, string>;
+}
+
+export interface FieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+export interface PlannedItemUpdate {
+  rowNumber: number;
+  itemId: string;
+  name: string;
+  description: string | null;
+  properties: Record<string, string>;
+  locationId: string;
+  previousLocationId: string;
+  changes: FieldChange[];
+  /** Imports don't carry quantities, so the existing ones are sent back unchanged. */
+  quantity?: number | null;
+  unit?: string | null;
+  minQuantity?: number | null;
+}
+
+export interface ImportRowError {
+  rowNumber: number;
+  message: string;
+}
+
+export interface ImportPlan {
+  locationsToCreate: PlannedLocation[];
+  itemsToCreate: PlannedItemCreate[];
+  itemsToUpdate: PlannedItemUpdate[];
+  unchangedRowCount: number;
+  unknownLocationIds: string[];
+  rowErrors: ImportRowError[];
+}
+
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+function isInventoryExport(value: unknown): value is InventoryExport {
+  const candidate = value as Partial<InventoryExport> | null;
+  return typeof candidate === 'object' && candidate !== null && candidate.format === INVENTORY_EXPORT_FORMAT && Array.isArray(candidate.locations);
+}
+
+function parseInventoryJson(text: string): ImportTable {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ImportFileError('The file is not valid JSON.');
+  }
+
+  if (!isInventoryExport(parsed)) {
+    throw new ImportFileError('The JSON file is not an Ordning inventory export.');
+  }
+
+  if (parsed.version > INVENTORY_EXPORT_VERSION) {
+    throw new ImportFileError(`The export format version ${parsed.version} is newer than this app supports.`);
+  }
+
+  const locations: ImportLocation[] = [];
+  const items: { id: string; name: string; description: string; locationId: string; properties: Record<string, string> }[] = [];
+  const propertyKeys = new Set<string>();
+
+  const visit = (location: ExportedLocation, parentLocationId: string | null) => {
+    locations.push({
+      id: location.id,
+      name: location.name || location.id,
+      description: location.description || null,
+      parentLocationId,
+    });
+    for (const item of location.items || []) {
+      const properties = item.properties || {};
+      Object.keys(properties).forEach((key) => propertyKeys.add(key));
+      items.push({ id: item.id || '', name: item.name || '', description: item.description || '', locationId: location.id, properties });
+    }
+    (location.children || []).forEach((child) => visit(child, location.id));
+  };
+  parsed.locations.forEach((location) => visit(location, null));
+
+  const sortedPropertyKeys = [...propertyKeys].sort();
+  return {
+    columns: ['id', 'name', 'description', 'locationId', ...sortedPropertyKeys.map(getPropertyColumnName)],
+    rows: items.map((item, index) => ({
+      rowNumber: index + 1,
+      cells: [item.id, item.name, item.description, item.locationId, ...sortedPropertyKeys.map((key) => item.properties[key] ?? '')],
+    })),
+    locations,
+  };
+}
+
+function parseInventoryCsv(text: string): ImportTable {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new ImportFileError('The CSV file is empty.');
+  }
+
+  const columns = header.map((column) => column.trim());
+  const seenColumns = new Set<string>();
+  for (const column of columns) {
+    if (!column) {
+      throw new ImportFileError('Every column in the CSV header needs a name.');
+    }
+    if (seenColumns.has(column)) {
+      throw new ImportFileError(`The column "${column}" appears more than once in the CSV header.`);
+    }
+    seenColumns.add(column);
+  }
+
+  return {
+    columns,
+    // Row numbers match the line in a spreadsheet, where the header is row 1
+    rows: rows.map((cells, index) => ({ rowNumber: index + 2, cells })),
+    locations: [],
+  };
+}
+
+/**
+ * Reads an uploaded file. Files ending in .json must be an inventory export; anything else is
+ * treated as CSV.
+ */
+export function parseImportFile(fileName: string, text: string): ImportTable {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    return parseInventoryJson(text);
+  }
+  return parseInventoryCsv(text);
+}
+
+const FIELD_COLUMN_NAMES: Record<string, ImportField> = {
+  id: 'id',
+  itemid: 'id',
+  name: 'name',
+  itemname: 'name',
+  description: 'description',
+  locationid: 'locationId',
+  location: 'locationId',
+};
+
+// Columns in the CSV export that are never imported: the location path is derived from the location,
+// and quantities, tags and templates are left as they are on existing items
+const IGNORED_COLUMN_NAMES = ['locationpath', 'quantity', 'unit', 'minquantity', 'tags', 'templateid'];
+
+/**
+ * Guesses a target for every column. Known column names map to item fields and the rest become
+ * properties, which is also how the CSV export is laid out.
+ */
+export function suggestColumnMapping(columns: string[]): ColumnTarget[] {
+  const usedFields = new Set<ImportField>();
+  return columns.map((column): ColumnTarget => {
+    if (column.startsWith(CSV_PROPERTY_COLUMN_PREFIX)) {
+      return { type: 'property', key: column.slice(CSV_PROPERTY_COLUMN_PREFIX.length) };
+    }
+
+    const normalized = column.toLowerCase().replace(/[\s_-]/g, '');
+    const field = FIELD_COLUMN_NAMES[normalized];
+    if (field && !usedFields.has(field)) {
+      usedFields.add(field);
+      return { type: 'field', field };
+    }
+
+    if (IGNORED_COLUMN_NAMES.includes(normalized)) {
+      return { type: 'ignore' };
+    }
+
+    return { type: 'property', key: column };
+  });
+}
+
+interface MappedRow {
+  rowNumber: number;
+  id: string;
+  name: string;
+  description: string;
+  locationId: string;
+  properties: Record<string, string>;
+}
+
+function mapRow(row: ImportRow, mapping: ColumnTarget[]): MappedRow {
+  const mapped: MappedRow = { rowNumber: row.rowNumber, id: '', name: '', description: '', locationId: '', properties: {} };
+  mapping.forEach((target, index) => {
+    const value = (row.cells[index] ?? '').trim();
+    if (target.type === 'field') {
+      mapped[target.field] = value;
+    } else if (target.type === 'property' && target.key.trim() && value) {
+      mapped.properties[target.key.trim()] = value;
+    }
+  });
+  return mapped;
+}
+
+function findChanges(existing: Item, name: string, description: string | null, locationId: string, properties: Record<string, string>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  if ((existing.name || '') !== name) {
+    changes.push({ field: 'name', from: existing.name || '', to: name });
+  }
+  if ((existing.description || '') !== (description || '')) {
+    changes.push({ field: 'description', from: existing.description || '', to: description || '' });
+  }
+  if ((existing.locationId || '') !== locationId) {
+    changes.push({ field: 'location', from: existing.locationId || '', to: locationId });
+  }
+
+  const existingProperties = existing.properties || {};
+  const keys = new Set([...Object.keys(existingProperties), ...Object.keys(properties)]);
+  for (const key of [...keys].sort()) {
+    const from = existingProperties[key] ?? '';
+    const to = properties[key] ?? '';
+    if (from !== to) {
+      changes.push({ field: key, from, to });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compares the mapped file with the current inventory. Rows whose ID matches an existing item
+ * update it; empty cells leave the existing value alone and new properties are merged in. All
+ * other rows create new items. Rows that cannot be imported are reported in rowErrors and left
+ * out of the plan.
+ */
+export function planImport(
+  table: ImportTable,
+  mapping: ColumnTarget[],
+  existingLocations: Location[],
+  existingItems: Item[],
+  options: ImportOptions,
+): ImportPlan {
+  const locationsById = new Map(existingLocations.filter((location) => location.id).map((location) => [location.id as string, location]));
+  const itemsById = new Map(existingItems.filter((item) => item.id).map((item) => [item.id as string, item]));
+  const parentLocationIds = new Set(existingLocations.map((location) => location.parentLocationId).filter((id): id is string => !!id));
+
+  const locationsToCreate: PlannedLocation[] = [];
+  const plannedLocationIds = new Set<string>();
+  for (const location of table.locations) {
+    if (locationsById.has(location.id) || plannedLocationIds.has(location.id)) continue;
+    const parentExists = !!location.parentLocationId && (locationsById.has(location.parentLocationId) || plannedLocationIds.has(location.parentLocationId));
+    const planned: PlannedLocation = { ...location, parentLocationId: parentExists ? location.parentLocationId : null, isFromUnknownId: false };
+    locationsToCreate.push(planned);
+    plannedLocationIds.add(planned.id);
+    if (planned.parentLocationId) {
+      parentLocationIds.add(planned.parentLocationId);
+    }
+  }
+
+  const rowErrors: ImportRowError[] = [];
+  const unknownLocationIds: string[] = [];
+  const validRows: (MappedRow & { existing: Item | null })[] = [];
+  const seenItemIds = new Set<string>();
+
+  for (const row of table.rows) {
+    const mapped = mapRow(row, mapping);
+    const existing = mapped.id ? itemsById.get(mapped.id) || null : null;
+
+    if (existing && seenItemIds.has(mapped.id)) {
+      rowErrors.push({ rowNumber: mapped.rowNumber, message: `Item ${mapped.id} appears more than once in the file.` });
+      continue;
+    }
+    if (existing) {
+      seenItemIds.add(mapped.id);
+    }
+
+    if (!existing && !mapped.name) {
+      rowErrors.push({ rowNumber: mapped.rowNumber, message: 'Name is required for new items.' });
+      continue;
+    }
+
+    const locationId = mapped.locationId || existing?.locationId || '';
+    if (!locationId) {
+      rowErrors.push({ rowNumber: mapped.rowNumber, message: 'Location ID is required for new items.' });
+      continue;
+    }
+
+    if (!locationsById.has(locationId) && !plannedLocationIds.has(locationId)) {
+      if (!unknownLocationIds.includes(locationId)) {
+        unknownLocationIds.push(locationId);
+      }
+      if (!options.createUnknownLocations) {
+        rowErrors.push({ rowNumber: mapped.rowNumber, message: `Location ${locationId} does not exist.` });
+        continue;
+      }
+    }
+
+    validRows.push({ ...mapped, locationId, existing });
+  }
+
+  if (options.createUnknownLocations) {
+    for (const locationId of unknownLocationIds) {
+      locationsToCreate.push({
+        id: locationId,
+        name: locationId,
+        description: null,
+        parentLocationId: options.unknownLocationParentId,
+        isFromUnknownId: true,
+      });
+      plannedLocationIds.add(locationId);
+    }
+    if (unknownLocationIds.length > 0 && options.unknownLocationParentId) {
+      parentLocationIds.add(options.unknownLocationParentId);
+    }
+  }
+
+  const itemsToCreate: PlannedItemCreate[] = [];
+  const itemsToUpdate: PlannedItemUpdate[] = [];
+  let unchangedRowCount = 0;
+
+  for (const row of validRows) {
+    if (parentLocationIds.has(row.locationId)) {
+      rowErrors.push({ rowNumber: row.rowNumber, message: `Location ${row.locationId} has child locations, so items cannot be placed in it.` });
+      continue;
+    }
+
+    if (!row.existing) {
+      itemsToCreate.push({
+        rowNumber: row.rowNumber,
+        name: row.name,
+        description: row.description || null,
+        locationId: row.locationId,
+        properties: row.properties,
+      });
+      continue;
+    }
+
+    const name = row.name || row.existing.name || '';
+    const description = row.description || row.existing.description || null;
+    const properties = { ...(row.existing.properties || {}), ...row.properties };
+    const changes = findChanges(row.existing, name, description, row.locationId, properties);
+    if (changes.length === 0) {
+      unchangedRowCount++;
+      continue;
+    }
+
+    itemsToUpdate.push({
+      rowNumber: row.rowNumber,
+      itemId: row.existing.id as string,
+      name,
+      description,
+      properties,
+      locationId: row.locationId,
+      previousLocationId: row.existing.locationId || '',
+      changes,
+      quantity: row.existing.quantity,
+      unit: row.existing.unit,
+      minQuantity: row.existing.minQuantity,
+    });
+  }
+
+  rowErrors.sort((a, b) => a.rowNumber - b.rowNumber);
+
+  return { locationsToCreate, itemsToCreate, itemsToUpdate, unchangedRowCount, unknownLocationIds, rowErrors };
+}
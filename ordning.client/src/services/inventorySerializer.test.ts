@@ -0,0 +1,235 @@
+import { describe, expect, it } from 'vitest';
+import type { components } from '../types/api';
+import {
+  buildInventoryExport,
+  getPropertyColumnName,
+  serializeInventoryCsv,
+  serializeInventoryJson,
+} from './inventorySerializer';
+
+type Item = components['schemas']['Item'];
+type LocationTreeNode = components['schemas']['LocationTreeNode'];
+
+const EXPORTED_AT = new Date('2026-03-01T12:00:00Z');
+
+const tree: LocationTreeNode[] = [
+  {
+    location: { id: 'G1', name: 'Garage', description: null, parentLocationId: null, createdAt: '2026-01-01T00:00:00Z', updatedAt: '2026-01-02T00:00:00Z' },
+    children: [
+      {
+        location: { id: 'G1-S2', name: 'Shelf 2', description: 'Top shelf', parentLocationId: 'G1', createdAt: '2026-01-03T00:00:00Z', updatedAt: '2026-01-03T00:00:00Z' },
+        children: [],
+      },
+      {
+        location: { id: 'G1-S1', name: 'Shelf 1', description: null, parentLocationId: 'G1', createdAt: '2026-01-03T00:00:00Z', updatedAt: '2026-01-03T00:00:00Z' },
+        children: [],
+      },
+    ],
+  },
+  {
+    location: { id: 'A1', name: 'Attic', description: null, parentLocationId: null, createdAt: '2026-01-01T00:00:00Z', updatedAt: '2026-01-01T00:00:00Z' },
+    children: [],
+  },
+];
+
+const items: Item[] = [
+  {
+    id: '00000000-0000-0000-0000-000000000002',
+    name: 'Screwdriver',
+    description: 'Flat head, "large"',
+    locationId: 'G1-S1',
+    properties: { size: 'L', color: 'red' },
+    quantity: 2.5,
+    unit: 'pcs',
+    minQuantity: 1,
+    tags: ['Tools', 'hand'],
+    templateId: '00000000-0000-0000-0000-0000000000aa',
+    createdAt: '2026-02-01T00:00:00Z',
+    updatedAt: '2026-02-02T00:00:00Z',
+  },
+  {
+    id: '00000000-0000-0000-0000-000000000001',
+    name: 'Drill',
+    description: null,
+    locationId: 'G1-S1',
+    properties: { name: 'Bosch, blue' },
+    createdAt: '2026-02-01T00:00:00Z',
+    updatedAt: '2026-02-01T00:00:00Z',
+  },
+  {
+    id: '00000000-0000-0000-0000-000000000003',
+    name: 'Christmas lights',
+    description: null,
+    locationId: 'A1',
+    properties: {},
+    createdAt: '2026-02-01T00:00:00Z',
+    updatedAt: '2026-02-01T00:00:00Z',
+  },
+];
+
+describe('buildInventoryExport', () => {
+  it('nests items under their locations and sorts locations and items', () => {
+    const inventory = buildInventoryExport(tree, items, EXPORTED_AT);
+
+    expect(inventory.format).toBe('ordning-inventory');
+    expect(inventory.version).toBe(2);
+    expect(inventory.exportedAt).toBe('2026-03-01T12:00:00.000Z');
+    expect(inventory.locations.map((location) => location.id)).toEqual(['A1', 'G1']);
+    expect(inventory.locations[1].children.map((location) => location.id)).toEqual(['G1-S1', 'G1-S2']);
+    expect(inventory.locations[1].children[0].items.map((item) => item.name)).toEqual(['Drill', 'Screwdriver']);
+    expect(inventory.locations[0].items.map((item) => item.name)).toEqual(['Christmas lights']);
+  });
+
+  it('sorts property keys so the output is stable', () => {
+    const inventory = buildInventoryExport(tree, items, EXPORTED_AT);
+    const screwdriver = inventory.locations[1].children[0].items[1];
+
+    expect(Object.keys(screwdriver.properties)).toEqual(['color', 'size']);
+  });
+
+  it('keeps quantities, tags and templates and sorts the tags ignoring case', () => {
+    const inventory = buildInventoryExport(tree, items, EXPORTED_AT);
+    const screwdriver = inventory.locations[1].children[0].items[1];
+
+    expect(screwdriver).toMatchObject({
+      quantity: 2.5,
+      unit: 'pcs',
+      minQuantity: 1,
+      tags: ['hand', 'Tools'],
+      templateId: '00000000-0000-0000-0000-0000000000aa',
+    });
+  });
+});
+
+describe('serializeInventoryJson', () => {
+  it('writes the hierarchy with item properties', () => {
+    const json = serializeInventoryJson(buildInventoryExport(tree, items, EXPORTED_AT));
+
+    expect(json.endsWith('\n')).toBe(true);
+    expect(JSON.parse(json)).toEqual({
+      format: 'ordning-inventory',
+      version: 2,
+      exportedAt: '2026-03-01T12:00:00.000Z',
+      locations: [
+        {
+          id: 'A1',
+          name: 'Attic',
+          description: null,
+          createdAt: '2026-01-01T00:00:00Z',
+          updatedAt: '2026-01-01T00:00:00Z',
+          items: [
+            {
+              id: '00000000-0000-0000-0000-000000000003',
+              name: 'Christmas lights',
+              description: null,
+              properties: {},
+              quantity: null,
+              unit: null,
+              minQuantity: null,
+              tags: [],
+              templateId: null,
+              createdAt: '2026-02-01T00:00:00Z',
+              updatedAt: '2026-02-01T00:00:00Z',
+            },
+          ],
+          children: [],
+        },
+        {
+          id: 'G1',
+          name: 'Garage',
+          description: null,
+          createdAt: '2026-01-01T00:00:00Z',
+          updatedAt: '2026-01-02T00:00:00Z',
+          items: [],
+          children: [
+            {
+              id: 'G1-S1',
+              name: 'Shelf 1',
+              description: null,
+              createdAt: '2026-01-03T00:00:00Z',
+              updatedAt: '2026-01-03T00:00:00Z',
+              items: [
+                {
+                  id: '00000000-0000-0000-0000-000000000001',
+                  name: 'Drill',
+                  description: null,
+                  properties: { name: 'Bosch, blue' },
+                  quantity: null,
+                  unit: null,
+                  minQuantity: null,
+                  tags: [],
+                  templateId: null,
+                  createdAt: '2026-02-01T00:00:00Z',
+                  updatedAt: '2026-02-01T00:00:00Z',
+                },
+                {
+                  id: '00000000-0000-0000-0000-000000000002',
+                  name: 'Screwdriver',
+                  description: 'Flat head, "large"',
+                  properties: { color: 'red', size: 'L' },
+                  quantity: 2.5,
+                  unit: 'pcs',
+                  minQuantity: 1,
+                  tags: ['hand', 'Tools'],
+                  templateId: '00000000-0000-0000-0000-0000000000aa',
+                  createdAt: '2026-02-01T00:00:00Z',
+                  updatedAt: '2026-02-02T00:00:00Z',
+                },
+              ],
+              children: [],
+            },
+            {
+              id: 'G1-S2',
+              name: 'Shelf 2',
+              description: 'Top shelf',
+              createdAt: '2026-01-03T00:00:00Z',
+              updatedAt: '2026-01-03T00:00:00Z',
+              items: [],
+              children: [],
+            },
+          ],
+        },
+      ],
+    });
+  });
+});
+
+describe('serializeInventoryCsv', () => {
+  it('writes one row per item with the location path, quantities, tags and a column per property key', () => {
+    const csv = serializeInventoryCsv(buildInventoryExport(tree, items, EXPORTED_AT));
+
+    expect(csv).toBe(
+      'id,name,description,locationId,locationPath,quantity,unit,minQuantity,tags,templateId,color,property:name,size\r\n' +
+        '00000000-0000-0000-0000-000000000003,Christmas lights,,A1,Attic,,,,,,,,\r\n' +
+        '00000000-0000-0000-0000-000000000001,Drill,,G1-S1,Garage / Shelf 1,,,,,,,"Bosch, blue",\r\n' +
+        '00000000-0000-0000-0000-000000000002,Screwdriver,"Flat head, ""large""",G1-S1,Garage / Shelf 1,2.5,pcs,1,hand; Tools,00000000-0000-0000-0000-0000000000aa,red,,L\r\n',
+    );
+  });
+
+  it('writes only the header for an empty inventory', () => {
+    const csv = serializeInventoryCsv(buildInventoryExport([], [], EXPORTED_AT));
+
+    expect(csv).toBe('id,name,description,locationId,locationPath,quantity,unit,minQuantity,tags,templateId\r\n');
+  });
+
+  it('quotes values with line breaks and surrounding whitespace', () => {
+    const csv = serializeInventoryCsv(
+      buildInventoryExport(
+        [{ location: { id: 'B1', name: 'Box' }, children: [] }],
+        [{ id: 'i1', name: ' Padded ', description: 'Line one\nLine two', locationId: 'B1', properties: {} }],
+        EXPORTED_AT,
+      ),
+    );
+
+    expect(csv.split('\r\n')[1]).toBe('i1," Padded ","Line one\nLine two",B1,Box,,,,,');
+  });
+});
+
+describe('getPropertyColumnName', () => {
+  it('prefixes property keys that clash with fixed columns or the prefix', () => {
+    expect(getPropertyColumnName('color')).toBe('color');
+    expect(getPropertyColumnName('locationId')).toBe('property:locationId');
+    expect(getPropertyColumnName('quantity')).toBe('property:quantity');
+    expect(getPropertyColumnName('property:x')).toBe('property:property:x');
+  });
+});
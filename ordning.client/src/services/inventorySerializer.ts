@@ -0,0 +1,202 @@
+import type { components } from '../types/api';
+
+type Item = components['schemas']['Item'];
+type LocationTreeNode = components['schemas']['LocationTreeNode'];
+
+// File formats for exporting the whole inventory. Both serializers are pure so the output only
+// depends on the data passed in; anything that changes a format should bump the version.
+
+export const INVENTORY_EXPORT_FORMAT = 'ordning-inventory';
+export const INVENTORY_EXPORT_VERSION = 2;
+export const LOCATION_PATH_SEPARATOR = ' / ';
+
+export const CSV_FIXED_COLUMNS = [
+  'id',
+  'name',
+  'description',
+  'locationId',
+  'locationPath',
+  'quantity',
+  'unit',
+  'minQuantity',
+  'tags',
+  'templateId',
+] as const;
+
+// Tag names may contain commas, so the tags of an item share one CSV cell separated by this
+export const CSV_TAG_SEPARATOR = '; ';
+
+// Property columns that clash with a fixed column get this prefix in the CSV header
+export const CSV_PROPERTY_COLUMN_PREFIX = 'property:';
+
+export interface ExportedItem {
+  id: string;
+  name: string;
+  description: string | null;
+  properties: Record<string, string>;
+  quantity: number | null;
+  unit: string | null;
+  minQuantity: number | null;
+  tags: string[];
+  templateId: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export interface ExportedLocation {
+  id: string;
+  name: string;
+  description: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+  items: ExportedItem[];
+  children: ExportedLocation[];
+}
+
+export interface InventoryExport {
+  format: typeof INVENTORY_EXPORT_FORMAT;
+  version: typeof INVENTORY_EXPORT_VERSION;
+  exportedAt: string;
+  locations: ExportedLocation[];
+}
+
+function compareText(a: string, b: string): number {
+  if (a < b) return -1;
+  if (a > b) return 1;
+  return 0;
+}
+
+function toExportedItem(item: Item): ExportedItem {
+  const properties = item.properties || {};
+  const sortedProperties: Record<string, string> = {};
+  for (const key of Object.keys(properties).sort(compareText)) {
+    sortedProperties[key] = properties[key];
+  }
+
+  return {
+    id: item.id || '',
+    name: item.name || '',
+    description: item.description || null,
+    properties: sortedProperties,
+    quantity: item.quantity ?? null,
+    unit: item.unit || null,
+    minQuantity: item.minQuantity ?? null,
+    tags: [...(item.tags || [])].sort((a, b) => compareText(a.toLowerCase(), b.toLowerCase()) || compareText(a, b)),
+    templateId: item.templateId || null,
+    createdAt: item.createdAt || null,
+    updatedAt: item.updatedAt || null,
+  };
+}
+
+function toExportedLocation(node: LocationTreeNode, itemsByLocation: Map<string, Item[]>): ExportedLocation | null {
+  const location = node.location;
+  if (!location?.id) {
+    return null;
+  }
+
+  const items = (itemsByLocation.get(location.id) || [])
+    .map(toExportedItem)
+    .sort((a, b) => compareText(a.name, b.name) || compareText(a.id, b.id));
+
+  return {
+    id: location.id,
+    name: location.name || '',
+    description: location.description || null,
+    createdAt: location.createdAt || null,
+    updatedAt: location.updatedAt || null,
+    items,
+    children: toExportedLocations(node.children || [], itemsByLocation),
+  };
+}
+
+function toExportedLocations(nodes: LocationTreeNode[], itemsByLocation: Map<string, Item[]>): ExportedLocation[] {
+  return nodes
+    .map((node) => toExportedLocation(node, itemsByLocation))
+    .filter((location): location is ExportedLocation => location !== null)
+    .sort((a, b) => compareText(a.id, b.id));
+}
+
+/**
+ * Nests every item under its location in the location tree. Locations and items are sorted so
+ * the same inventory always produces the same file.
+ */
+export function buildInventoryExport(tree: LocationTreeNode[], items: Item[], exportedAt: Date): InventoryExport {
+  const itemsByLocation = new Map<string, Item[]>();
+  for (const item of items) {
+    if (!item.locationId) continue;
+    const locationItems = itemsByLocation.get(item.locationId) || [];
+    locationItems.push(item);
+    itemsByLocation.set(item.locationId, locationItems);
+  }
+
+  return {
+    format: INVENTORY_EXPORT_FORMAT,
+    version: INVENTORY_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    locations: toExportedLocations(tree, itemsByLocation),
+  };
+}
+
+/**
+ * Serializes an inventory export as indented JSON.
+ */
+export function serializeInventoryJson(inventory: InventoryExport): string {
+  return `${JSON.stringify(inventory, null, 2)}\n`;
+}
+
+function escapeCsvValue(value: string): string {
+  if (/[",\r\n]/.test(value) || value !== value.trim()) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Returns the CSV header used for a property key.
+ */
+export function getPropertyColumnName(key: string): string {
+  const isFixedColumn = (CSV_FIXED_COLUMNS as readonly string[]).includes(key);
+  return isFixedColumn || key.startsWith(CSV_PROPERTY_COLUMN_PREFIX) ? `${CSV_PROPERTY_COLUMN_PREFIX}${key}` : key;
+}
+
+/**
+ * Serializes an inventory export as a flat CSV with one row per item. Every property key in the
+ * inventory gets its own column, sorted by key; items without the property leave it empty.
+ */
+export function serializeInventoryCsv(inventory: InventoryExport): string {
+  const rows: { item: ExportedItem; locationId: string; locationPath: string }[] = [];
+  const propertyKeys = new Set<string>();
+
+  const visit = (location: ExportedLocation, parentPath: string[]) => {
+    const path = [...parentPath, location.name || location.id];
+    for (const item of location.items) {
+      rows.push({ item, locationId: location.id, locationPath: path.join(LOCATION_PATH_SEPARATOR) });
+      Object.keys(item.properties).forEach((key) => propertyKeys.add(key));
+    }
+    location.children.forEach((child) => visit(child, path));
+  };
+  inventory.locations.forEach((location) => visit(location, []));
+
+  const sortedPropertyKeys = [...propertyKeys].sort(compareText);
+  const header = [...CSV_FIXED_COLUMNS, ...sortedPropertyKeys.map(getPropertyColumnName)];
+  const lines = [header.map(escapeCsvValue).join(',')];
+
+  for (const { item, locationId, locationPath } of rows) {
+    const values = [
+      item.id,
+      item.name,
+      item.description || '',
+      locationId,
+      locationPath,
+      item.quantity?.toString() ?? '',
+      item.unit || '',
+      item.minQuantity?.toString() ?? '',
+      item.tags.join(CSV_TAG_SEPARATOR),
+      item.templateId || '',
+      ...sortedPropertyKeys.map((key) => item.properties[key] ?? ''),
+    ];
+    lines.push(values.map(escapeCsvValue).join(','));
+  }
+
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { applyItemMove, getDraggedItemIds, getItemIdsToMove, groupItemIdsByLocation } from './itemDrag';
+
+const items = [
+  { id: 'hammer', locationId: 'shelf' },
+  { id: 'saw', locationId: 'shelf' },
+  { id: 'drill', locationId: 'box' },
+];
+
+describe('getDraggedItemIds', () => {
+  it('drags the selection when the row is selected and only the row otherwise', () => {
+    expect(getDraggedItemIds('hammer', ['hammer', 'saw'])).toEqual(['hammer', 'saw']);
+    expect(getDraggedItemIds('drill', ['hammer', 'saw'])).toEqual(['drill']);
+  });
+});
+
+describe('getItemIdsToMove', () => {
+  it('skips items that are already in the location', () => {
+    expect(getItemIdsToMove(items, ['hammer', 'drill'], 'box')).toEqual(['hammer']);
+    expect(getItemIdsToMove(items, ['drill'], 'box')).toEqual([]);
+  });
+});
+
+describe('applyItemMove', () => {
+  it('changes the location of the moved items only', () => {
+    expect(applyItemMove(items, ['hammer', 'saw'], 'box')).toEqual([
+      { id: 'hammer', locationId: 'box' },
+      { id: 'saw', locationId: 'box' },
+      { id: 'drill', locationId: 'box' },
+    ]);
+    expect(applyItemMove(items, ['drill'], 'shelf')[2]).toEqual({ id: 'drill', locationId: 'shelf' });
+    expect(applyItemMove(items, [], 'box')).toEqual(items);
+  });
+});
+
+describe('groupItemIdsByLocation', () => {
+  it('groups the requested items by their location', () => {
+    expect(groupItemIdsByLocation(items, ['hammer', 'saw', 'drill'])).toEqual(new Map([
+      ['shelf', ['hammer', 'saw']],
+      ['box', ['drill']],
+    ]));
+    expect(groupItemIdsByLocation(items, ['drill', 'missing'])).toEqual(new Map([['box', ['drill']]]));
+  });
+});
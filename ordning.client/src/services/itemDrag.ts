@@ -0,0 +1,59 @@
+/**
+ * Dragging item rows onto locations. The dragged item IDs travel in the drag data under a custom
+ * type, so that drop targets can tell an item drag apart from text or files being dragged in.
+ */
+
+export const ITEM_DRAG_TYPE = 'application/x-ordning-item-ids';
+
+interface MovableItem {
+  id?: string | null;
+  locationId?: string | null;
+}
+
+/** Dragging a selected row drags the whole selection; dragging any other row drags just that item. */
+export function getDraggedItemIds(itemId: string, selectedIds: string[]): string[] {
+  return selectedIds.includes(itemId) ? selectedIds : [itemId];
+}
+
+export function writeItemDragData(dataTransfer: DataTransfer, itemIds: string[]) {
+  dataTransfer.effectAllowed = 'move';
+  dataTransfer.setData(ITEM_DRAG_TYPE, JSON.stringify(itemIds));
+  dataTransfer.setData('text/plain', itemIds.join('\n'));
+}
+
+/** Whether a drag carries items. The IDs themselves can only be read on drop. */
+export function isItemDrag(dataTransfer: DataTransfer): boolean {
+  return Array.from(dataTransfer.types).includes(ITEM_DRAG_TYPE);
+}
+
+export function readItemDragData(dataTransfer: DataTransfer): string[] {
+  try {
+    const parsed: unknown = JSON.parse(dataTransfer.getData(ITEM_DRAG_TYPE) || '[]');
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/** The dragged items that aren't already in the location, which are the only ones worth moving. */
+export function getItemIdsToMove(items: MovableItem[], itemIds: string[], newLocationId: string): string[] {
+  const currentLocations = new Map(items.map((item) => [item.id, item.locationId]));
+  return itemIds.filter((id) => currentLocations.get(id) !== newLocationId);
+}
+
+/** Returns the items with the moved ones pointing at their new location. */
+export function applyItemMove<T extends MovableItem>(items: T[], itemIds: string[], newLocationId: string): T[] {
+  const moved = new Set(itemIds);
+  return items.map((item) => (item.id && moved.has(item.id) ? { ...item, locationId: newLocationId } : item));
+}
+
+/** Groups the given items by the location they are in, which is what moving them back takes one request per. */
+export function groupItemIdsByLocation(items: MovableItem[], itemIds: string[]): Map<string, string[]> {
+  const wanted = new Set(itemIds);
+  const groups = new Map<string, string[]>();
+  for (const item of items) {
+    if (!item.id || !item.locationId || !wanted.has(item.id)) continue;
+    groups.set(item.locationId, [...(groups.get(item.locationId) || []), item.id]);
+  }
+  return groups;
+}
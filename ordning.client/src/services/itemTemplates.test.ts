@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { applyItemTemplate } from './itemTemplates';
+
+const voltage = { key: 'Voltage', name: 'Voltage', type: 'number', unit: 'V', isRequired: false, options: [] };
+const battery = {
+  name: 'Battery',
+  description: 'Single use battery',
+  properties: [
+    { key: 'voltage', value: '1.5' },
+    { key: 'Size', value: 'AA' },
+    { key: 'Count', value: '' },
+  ],
+};
+
+describe('applyItemTemplate', () => {
+  it('fills an empty form with typed values and free-form rows', () => {
+    expect(applyItemTemplate([voltage], battery, { description: '', typedValues: {}, otherRows: [{ key: '', value: '' }] })).toEqual({
+      description: 'Single use battery',
+      typedValues: { Voltage: '1.5' },
+      otherRows: [{ key: 'Size', value: 'AA' }, { key: 'Count', value: '' }],
+    });
+  });
+
+  it('keeps what was already entered', () => {
+    const result = applyItemTemplate([voltage], battery, {
+      description: 'Rechargeable',
+      typedValues: { Voltage: '1.2' },
+      otherRows: [{ key: 'size', value: 'AAA' }],
+    });
+
+    expect(result.description).toBe('Rechargeable');
+    expect(result.typedValues).toEqual({ Voltage: '1.2' });
+    expect(result.otherRows).toEqual([{ key: 'size', value: 'AAA' }, { key: 'Count', value: '' }]);
+  });
+
+  it('keeps one empty row when the template has no free-form properties', () => {
+    expect(applyItemTemplate([], { name: 'Empty', properties: [] }, { description: '', typedValues: {}, otherRows: [] }).otherRows)
+      .toEqual([{ key: '', value: '' }]);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Item templates prefill the add item form, and the item search can be limited to the items
+ * created from one template, which makes templates work as categories.
+ */
+import type { components } from '../types/api';
+import { findPropertyDefinition, type PropertyRow } from './propertyDefinitions';
+
+type PropertyDefinition = components['schemas']['PropertyDefinition'];
+type ItemTemplate = components['schemas']['ItemTemplate'];
+
+export const TEMPLATE_PARAM = 'template';
+
+/** The parts of the add item form that a template fills in. */
+export interface TemplateFormValues {
+  description: string;
+  typedValues: Record<string, string>;
+  otherRows: PropertyRow[];
+}
+
+/**
+ * Fills the form from a template without overwriting anything already entered: the description
+ * only when it is empty, typed values only when they are empty, and free-form rows only for keys
+ * that don't have a row yet. Empty rows are dropped, but the form always keeps at least one row.
+ */
+export function applyItemTemplate(
+  definitions: PropertyDefinition[],
+  template: ItemTemplate,
+  values: TemplateFormValues,
+): TemplateFormValues {
+  const typedValues = { ...values.typedValues };
+  const otherRows = values.otherRows.filter((row) => row.key.trim() || row.value.trim());
+
+  (template.properties || []).forEach((property) => {
+    const key = (property.key || '').trim();
+    if (!key) return;
+
+    const value = property.value || '';
+    const definition = findPropertyDefinition(definitions, key);
+    if (definition?.key) {
+      if (!(typedValues[definition.key] || '').trim()) {
+        typedValues[definition.key] = value;
+      }
+      return;
+    }
+
+    const lowerKey = key.toLowerCase();
+    if (!otherRows.some((row) => row.key.trim().toLowerCase() === lowerKey)) {
+      otherRows.push({ key, value });
+    }
+  });
+
+  return {
+    description: values.description.trim() ? values.description : template.description || '',
+    typedValues,
+    otherRows: otherRows.length > 0 ? otherRows : [{ key: '', value: '' }],
+  };
+}
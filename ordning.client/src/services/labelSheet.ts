@@ -0,0 +1,316 @@
+import { createQrMatrix, getQrRuns, type QrMatrix } from './qrCode';
+
+// Layout of printable label sheets. All measurements are in millimetres; the SVG and PDF
+// renderers both draw from the same geometry so the preview matches the exported file.
+
+export interface LabelData {
+  id: string;
+  name: string;
+  path: string;
+  url: string;
+}
+
+export interface LabelSheetLayout {
+  id: string;
+  name: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  gapX: number;
+  gapY: number;
+}
+
+export const LABEL_SHEET_LAYOUTS: LabelSheetLayout[] = [
+  {
+    id: 'avery-l7159',
+    name: 'Avery L7159 (3 × 8, A4)',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 3,
+    rows: 8,
+    labelWidth: 63.5,
+    labelHeight: 33.9,
+    marginTop: 12.9,
+    marginLeft: 7.25,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: 'avery-l7160',
+    name: 'Avery L7160 (3 × 7, A4)',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 7.25,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: 'avery-l7163',
+    name: 'Avery L7163 (2 × 7, A4)',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 2,
+    rows: 7,
+    labelWidth: 99.1,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 4.65,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: 'avery-5160',
+    name: 'Avery 5160 (3 × 10, Letter)',
+    pageWidth: 215.9,
+    pageHeight: 279.4,
+    columns: 3,
+    rows: 10,
+    labelWidth: 66.675,
+    labelHeight: 25.4,
+    marginTop: 12.7,
+    marginLeft: 4.7625,
+    gapX: 3.175,
+    gapY: 0,
+  },
+  {
+    id: 'avery-5163',
+    name: 'Avery 5163 (2 × 5, Letter)',
+    pageWidth: 215.9,
+    pageHeight: 279.4,
+    columns: 2,
+    rows: 5,
+    labelWidth: 101.6,
+    labelHeight: 50.8,
+    marginTop: 12.7,
+    marginLeft: 4.7625,
+    gapX: 3.175,
+    gapY: 0,
+  },
+];
+
+export type LabelFont = 'regular' | 'bold' | 'mono';
+
+export interface LabelTextLine {
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+  font: LabelFont;
+}
+
+export interface LabelGeometry {
+  // Position of the first module; the quiet zone lies outside it
+  qr: { x: number; y: number; moduleSize: number; matrix: QrMatrix };
+  idBox: { x: number; y: number; width: number; height: number };
+  lines: LabelTextLine[];
+}
+
+export interface LabelSheetPage {
+  labels: LabelGeometry[];
+}
+
+// Average glyph width relative to the font size, used to fit text without measuring it
+const CHARACTER_WIDTH: Record<LabelFont, number> = {
+  regular: 0.52,
+  bold: 0.57,
+  mono: 0.6,
+};
+
+const QR_QUIET_ZONE_MODULES = 2;
+const ELLIPSIS = '…';
+
+function measureText(text: string, fontSize: number, font: LabelFont): number {
+  return text.length * fontSize * CHARACTER_WIDTH[font];
+}
+
+function truncateText(text: string, maxWidth: number, fontSize: number, font: LabelFont): string {
+  if (measureText(text, fontSize, font) <= maxWidth) {
+    return text;
+  }
+
+  const maxCharacters = Math.max(1, Math.floor(maxWidth / (fontSize * CHARACTER_WIDTH[font])) - 1);
+  return `${text.slice(0, maxCharacters).trimEnd()}${ELLIPSIS}`;
+}
+
+function wrapText(text: string, maxWidth: number, fontSize: number, font: LabelFont, maxLines: number): string[] {
+  const words = text.split(/\s+/).filter((word) => word.length > 0);
+  const lines: string[] = [];
+  let currentLine = '';
+
+  for (let i = 0; i < words.length; i++) {
+    const candidate = currentLine ? `${currentLine} ${words[i]}` : words[i];
+    if (measureText(candidate, fontSize, font) <= maxWidth || !currentLine) {
+      currentLine = candidate;
+      continue;
+    }
+
+    if (lines.length === maxLines - 1) {
+      lines.push(truncateText(`${currentLine} ${words.slice(i).join(' ')}`, maxWidth, fontSize, font));
+      return lines;
+    }
+
+    lines.push(truncateText(currentLine, maxWidth, fontSize, font));
+    currentLine = words[i];
+  }
+
+  if (currentLine) {
+    lines.push(truncateText(currentLine, maxWidth, fontSize, font));
+  }
+
+  return lines;
+}
+
+/**
+ * Computes where the QR code, ID tag, name and path go on a single label.
+ */
+export function layoutLabel(label: LabelData, x: number, y: number, width: number, height: number): LabelGeometry {
+  const padding = Math.min(2.5, height * 0.08);
+  const matrix = createQrMatrix(label.url);
+  const qrSize = Math.min(height - padding * 2, width * 0.42);
+  const moduleSize = qrSize / (matrix.size + QR_QUIET_ZONE_MODULES * 2);
+  const qrX = x + padding;
+  const qrY = y + (height - qrSize) / 2;
+
+  const textX = qrX + qrSize + padding * 0.5;
+  const textWidth = x + width - padding - textX;
+
+  const idFontSize = Math.min(3.4, height * 0.11);
+  const nameFontSize = Math.min(4.2, height * 0.13);
+  const pathFontSize = Math.min(2.6, height * 0.08);
+
+  const idText = truncateText(label.id, textWidth - idFontSize, idFontSize, 'mono');
+  const idBoxHeight = idFontSize * 1.6;
+  const idBoxWidth = measureText(idText, idFontSize, 'mono') + idFontSize;
+  const nameLines = wrapText(label.name, textWidth, nameFontSize, 'bold', 2);
+  const pathLines = label.path ? wrapText(label.path, textWidth, pathFontSize, 'regular', 2) : [];
+
+  const lineGap = nameFontSize * 0.35;
+  const contentHeight =
+    idBoxHeight +
+    lineGap +
+    nameLines.length * nameFontSize * 1.2 +
+    (pathLines.length > 0 ? lineGap + pathLines.length * pathFontSize * 1.25 : 0);
+
+  let cursorY = y + Math.max(padding, (height - contentHeight) / 2);
+  const idBox = { x: textX, y: cursorY, width: idBoxWidth, height: idBoxHeight };
+  const lines: LabelTextLine[] = [
+    {
+      text: idText,
+      x: textX + idFontSize * 0.5,
+      y: cursorY + idBoxHeight / 2 + idFontSize * 0.35,
+      fontSize: idFontSize,
+      font: 'mono',
+    },
+  ];
+  cursorY += idBoxHeight + lineGap;
+
+  for (const nameLine of nameLines) {
+    cursorY += nameFontSize;
+    lines.push({ text: nameLine, x: textX, y: cursorY, fontSize: nameFontSize, font: 'bold' });
+    cursorY += nameFontSize * 0.2;
+  }
+
+  if (pathLines.length > 0) {
+    cursorY += lineGap;
+    for (const pathLine of pathLines) {
+      cursorY += pathFontSize;
+      lines.push({ text: pathLine, x: textX, y: cursorY, fontSize: pathFontSize, font: 'regular' });
+      cursorY += pathFontSize * 0.25;
+    }
+  }
+
+  return {
+    qr: {
+      x: qrX + QR_QUIET_ZONE_MODULES * moduleSize,
+      y: qrY + QR_QUIET_ZONE_MODULES * moduleSize,
+      moduleSize,
+      matrix,
+    },
+    idBox,
+    lines,
+  };
+}
+
+/**
+ * Splits labels into pages for the given layout. Skipped positions allow printing on a
+ * partially used sheet; they only apply to the first page.
+ */
+export function paginateLabels(labels: LabelData[], layout: LabelSheetLayout, skippedPositions: number = 0): LabelSheetPage[] {
+  const labelsPerPage = layout.columns * layout.rows;
+  const pages: LabelSheetPage[] = [];
+  let position = Math.min(Math.max(0, skippedPositions), labelsPerPage - 1);
+
+  for (const label of labels) {
+    if (pages.length === 0 || position >= labelsPerPage) {
+      pages.push({ labels: [] });
+      if (pages.length > 1) {
+        position = 0;
+      }
+    }
+
+    const column = position % layout.columns;
+    const row = Math.floor(position / layout.columns);
+    const x = layout.marginLeft + column * (layout.labelWidth + layout.gapX);
+    const y = layout.marginTop + row * (layout.labelHeight + layout.gapY);
+
+    pages[pages.length - 1].labels.push(layoutLabel(label, x, y, layout.labelWidth, layout.labelHeight));
+    position++;
+  }
+
+  return pages;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}
+
+const SVG_FONTS: Record<LabelFont, string> = {
+  regular: 'font-family="Helvetica, Arial, sans-serif"',
+  bold: 'font-family="Helvetica, Arial, sans-serif" font-weight="bold"',
+  mono: 'font-family="Courier New, Courier, monospace" font-weight="bold"',
+};
+
+/**
+ * Renders one page of labels as a standalone SVG document sized in millimetres.
+ */
+export function renderLabelSheetSvg(page: LabelSheetPage, layout: LabelSheetLayout): string {
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.pageWidth}mm" height="${layout.pageHeight}mm" viewBox="0 0 ${layout.pageWidth} ${layout.pageHeight}">`,
+    `<rect width="${layout.pageWidth}" height="${layout.pageHeight}" fill="#ffffff"/>`,
+  ];
+
+  for (const label of page.labels) {
+    const { qr, idBox } = label;
+    const path = getQrRuns(qr.matrix)
+      .map((run) => `M${formatNumber(qr.x + run.x * qr.moduleSize)} ${formatNumber(qr.y + run.y * qr.moduleSize)}h${formatNumber(run.length * qr.moduleSize)}v${formatNumber(qr.moduleSize)}h${formatNumber(-run.length * qr.moduleSize)}z`)
+      .join('');
+
+    parts.push(`<path d="${path}" fill="#000000"/>`);
+    parts.push(`<rect x="${formatNumber(idBox.x)}" y="${formatNumber(idBox.y)}" width="${formatNumber(idBox.width)}" height="${formatNumber(idBox.height)}" rx="${formatNumber(idBox.height * 0.2)}" fill="none" stroke="#000000" stroke-width="0.25"/>`);
+
+    for (const line of label.lines) {
+      parts.push(`<text x="${formatNumber(line.x)}" y="${formatNumber(line.y)}" font-size="${formatNumber(line.fontSize)}" ${SVG_FONTS[line.font]} fill="#000000">${escapeXml(line.text)}</text>`);
+    }
+  }
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
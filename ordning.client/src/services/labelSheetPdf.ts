@@ -0,0 +1,130 @@
+import { getQrRuns } from './qrCode';
+import type { LabelFont, LabelSheetLayout, LabelSheetPage } from './labelSheet';
+
+// Minimal PDF 1.4 writer for label sheets. It only needs filled rectangles, stroked
+// rectangles and text in the standard fonts, so no font embedding is required.
+
+const POINTS_PER_MM = 72 / 25.4;
+
+const PDF_FONTS: Record<LabelFont, { resourceName: string; baseFont: string }> = {
+  regular: { resourceName: 'F1', baseFont: 'Helvetica' },
+  bold: { resourceName: 'F2', baseFont: 'Helvetica-Bold' },
+  mono: { resourceName: 'F3', baseFont: 'Courier-Bold' },
+};
+
+// Characters outside Latin-1 that have a slot in WinAnsiEncoding
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  '„': 0x84,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '™': 0x99,
+  '›': 0x9b,
+  '‹': 0x8b,
+};
+
+function toPoints(millimetres: number): string {
+  return Number((millimetres * POINTS_PER_MM).toFixed(3)).toString();
+}
+
+function encodePdfString(text: string): string {
+  let encoded = '';
+  for (const character of text) {
+    const code = WIN_ANSI_EXTRAS[character] ?? character.charCodeAt(0);
+    if (code > 0xff || (code < 0x20 && code !== 0x09)) {
+      encoded += '?';
+    } else if (character === '(' || character === ')' || character === '\\') {
+      encoded += `\\${character}`;
+    } else {
+      encoded += String.fromCharCode(code);
+    }
+  }
+  return `(${encoded})`;
+}
+
+function buildPageContent(page: LabelSheetPage, layout: LabelSheetLayout): string {
+  const commands: string[] = [];
+  // PDF measures y from the bottom of the page
+  const flipY = (y: number) => layout.pageHeight - y;
+
+  for (const label of page.labels) {
+    const { qr, idBox } = label;
+
+    commands.push('0 g');
+    for (const run of getQrRuns(qr.matrix)) {
+      const x = qr.x + run.x * qr.moduleSize;
+      const y = qr.y + (run.y + 1) * qr.moduleSize;
+      commands.push(`${toPoints(x)} ${toPoints(flipY(y))} ${toPoints(run.length * qr.moduleSize)} ${toPoints(qr.moduleSize)} re`);
+    }
+    commands.push('f');
+
+    commands.push(`0 G 0.7 w ${toPoints(idBox.x)} ${toPoints(flipY(idBox.y + idBox.height))} ${toPoints(idBox.width)} ${toPoints(idBox.height)} re S`);
+
+    for (const line of label.lines) {
+      const font = PDF_FONTS[line.font];
+      commands.push(`BT /${font.resourceName} ${toPoints(line.fontSize)} Tf ${toPoints(line.x)} ${toPoints(flipY(line.y))} Td ${encodePdfString(line.text)} Tj ET`);
+    }
+  }
+
+  return commands.join('\n');
+}
+
+/**
+ * Renders label sheet pages to a PDF document.
+ */
+export function renderLabelSheetPdf(pages: LabelSheetPage[], layout: LabelSheetLayout): Uint8Array<ArrayBuffer> {
+  const objects: string[] = [];
+  const addObject = (content: string): number => {
+    objects.push(content);
+    return objects.length;
+  };
+
+  const catalogId = addObject('');
+  const pagesId = addObject('');
+  const fontIds = Object.values(PDF_FONTS).map((font) =>
+    addObject(`<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`),
+  );
+  const fontResources = Object.values(PDF_FONTS)
+    .map((font, index) => `/${font.resourceName} ${fontIds[index]} 0 R`)
+    .join(' ');
+
+  const pageIds = pages.map((page) => {
+    const content = buildPageContent(page, layout);
+    const contentId = addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${toPoints(layout.pageWidth)} ${toPoints(layout.pageHeight)}] ` +
+        `/Resources << /Font << ${fontResources} >> >> /Contents ${contentId} 0 R >>`,
+    );
+  });
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  // Every character is a single byte, so string length equals byte offset
+  let document = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((content, index) => {
+    offsets.push(document.length);
+    document += `${index + 1} 0 obj\n${content}\nendobj\n`;
+  });
+
+  const xrefOffset = document.length;
+  document += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    document += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+  }
+  document += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(document.length);
+  for (let i = 0; i < document.length; i++) {
+    bytes[i] = document.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { EVERYONE_ELSE, toAccessChoices, toAccessRuleRequests } from './locationAccess';
+
+describe('toAccessChoices', () => {
+  it('keys rules by user and uses the everyone else key for the rule without a user', () => {
+    expect(toAccessChoices([
+      { locationId: 'office', userId: null, access: 'none' },
+      { locationId: 'office', userId: 'anna', access: 'Write' },
+      { locationId: 'office', userId: 'bo', access: 'unknown' },
+    ])).toEqual({ [EVERYONE_ELSE]: 'none', anna: 'write' });
+  });
+});
+
+describe('toAccessRuleRequests', () => {
+  it('leaves out users who inherit their access', () => {
+    expect(toAccessRuleRequests({ [EVERYONE_ELSE]: 'read', anna: 'write', bo: '' })).toEqual([
+      { userId: null, access: 'read' },
+      { userId: 'anna', access: 'write' },
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Access rules let workspace admins hide a location from some members or make it read-only for them.
+ * A rule applies to the location and everything under it until a closer rule says otherwise, and a
+ * rule for one member wins over the rule for everyone else on the same location.
+ */
+import type { components } from '../types/api';
+
+type LocationAccessRule = components['schemas']['LocationAccessRule'];
+type LocationAccessRuleRequest = components['schemas']['LocationAccessRuleRequest'];
+
+export const LOCATION_ACCESS_LEVELS = ['none', 'read', 'write'] as const;
+
+export type LocationAccessLevel = (typeof LOCATION_ACCESS_LEVELS)[number];
+
+export const LOCATION_ACCESS_LABELS: Record<LocationAccessLevel, string> = {
+  none: 'No access',
+  read: 'Read',
+  write: 'Write',
+};
+
+/** The key used for the rule for everyone without a rule of their own. */
+export const EVERYONE_ELSE = '*';
+
+/** The access chosen per user id, or for {@link EVERYONE_ELSE}. An empty string means no rule, so access is inherited. */
+export type LocationAccessChoices = Record<string, LocationAccessLevel | ''>;
+
+export function toAccessChoices(rules: LocationAccessRule[]): LocationAccessChoices {
+  const choices: LocationAccessChoices = {};
+  for (const rule of rules) {
+    const access = (rule.access || '').toLowerCase() as LocationAccessLevel;
+    if (LOCATION_ACCESS_LEVELS.includes(access)) {
+      choices[rule.userId || EVERYONE_ELSE] = access;
+    }
+  }
+  return choices;
+}
+
+/** Turns the chosen access back into rules to save, leaving out everyone who inherits their access. */
+export function toAccessRuleRequests(choices: LocationAccessChoices): LocationAccessRuleRequest[] {
+  return Object.entries(choices)
+    .filter(([, access]) => !!access)
+    .map(([key, access]) => ({ userId: key === EVERYONE_ELSE ? null : key, access }));
+}
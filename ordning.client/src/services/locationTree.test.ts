@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { components } from '../types/api';
+import { canMoveLocation, findLocationNode, getInvalidParentIds } from './locationTree';
+
+type LocationTreeNode = components['schemas']['LocationTreeNode'];
+
+function node(id: string, parentLocationId: string | null, children: LocationTreeNode[] = []): LocationTreeNode {
+  return { location: { id, name: id, parentLocationId }, children };
+}
+
+// garage
+// ├── shelf
+// │   └── box
+// └── cabinet
+// kitchen
+const tree: LocationTreeNode[] = [
+  node('garage', null, [
+    node('shelf', 'garage', [node('box', 'shelf')]),
+    node('cabinet', 'garage'),
+  ]),
+  node('kitchen', null),
+];
+
+describe('findLocationNode', () => {
+  it('finds nested nodes and returns null for unknown ids', () => {
+    expect(findLocationNode(tree, 'box')?.location?.parentLocationId).toBe('shelf');
+    expect(findLocationNode(tree, 'attic')).toBeNull();
+  });
+});
+
+describe('getInvalidParentIds', () => {
+  it('includes the location, its descendants and its current parent', () => {
+    expect([...getInvalidParentIds(tree, 'shelf')].sort()).toEqual(['box', 'garage', 'shelf']);
+    expect([...getInvalidParentIds(tree, 'kitchen')]).toEqual(['kitchen']);
+  });
+});
+
+describe('canMoveLocation', () => {
+  it('rejects moves that would create a circular reference or change nothing', () => {
+    expect(canMoveLocation(tree, 'garage', 'box')).toBe(false);
+    expect(canMoveLocation(tree, 'shelf', 'shelf')).toBe(false);
+    expect(canMoveLocation(tree, 'box', 'shelf')).toBe(false);
+  });
+
+  it('allows moves to siblings, other branches and ancestors further up', () => {
+    expect(canMoveLocation(tree, 'shelf', 'cabinet')).toBe(true);
+    expect(canMoveLocation(tree, 'box', 'kitchen')).toBe(true);
+    expect(canMoveLocation(tree, 'box', 'garage')).toBe(true);
+  });
+});
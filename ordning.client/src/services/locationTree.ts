@@ -0,0 +1,49 @@
+import type { components } from '../types/api';
+
+type LocationTreeNode = components['schemas']['LocationTreeNode'];
+
+/** Finds the node for a location anywhere in the tree. */
+export function findLocationNode(nodes: LocationTreeNode[], locationId: string): LocationTreeNode | null {
+  for (const node of nodes) {
+    if (node.location?.id === locationId) {
+      return node;
+    }
+    const match = findLocationNode(node.children || [], locationId);
+    if (match) {
+      return match;
+    }
+  }
+  return null;
+}
+
+function collectIds(node: LocationTreeNode, ids: Set<string>) {
+  if (node.location?.id) {
+    ids.add(node.location.id);
+  }
+  for (const child of node.children || []) {
+    collectIds(child, ids);
+  }
+}
+
+/**
+ * Returns the locations that a location can't be moved into: itself and everything below it,
+ * which is the circular reference LocationService rejects, plus its current parent, where a drop would change nothing.
+ */
+export function getInvalidParentIds(nodes: LocationTreeNode[], locationId: string): Set<string> {
+  const ids = new Set<string>();
+  const node = findLocationNode(nodes, locationId);
+  if (!node) {
+    return ids;
+  }
+
+  collectIds(node, ids);
+  if (node.location?.parentLocationId) {
+    ids.add(node.location.parentLocationId);
+  }
+  return ids;
+}
+
+/** Whether a location can be moved under a new parent without creating a circular reference or a no-op move. */
+export function canMoveLocation(nodes: LocationTreeNode[], locationId: string, newParentId: string): boolean {
+  return !!findLocationNode(nodes, locationId) && !getInvalidParentIds(nodes, locationId).has(newParentId);
+}
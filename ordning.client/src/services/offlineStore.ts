@@ -0,0 +1,104 @@
+// IndexedDB storage for offline support: cached API responses and queued mutations
+
+const DATABASE_NAME = 'ordning-offline';
+const DATABASE_VERSION = 1;
+const RESPONSES_STORE = 'responses';
+const MUTATIONS_STORE = 'mutations';
+
+export interface CachedResponse {
+  key: string;
+  status: number;
+  body: string;
+  // The user the response was loaded for. Missing on responses cached before it was recorded
+  userId?: string | null;
+  cachedAt: string;
+}
+
+export interface QueuedMutation {
+  id?: number;
+  method: string;
+  url: string;
+  body: string | null;
+  contentType: string | null;
+  // Missing on changes queued before workspaces existed
+  workspaceId?: string | null;
+  // The user who made the change. Missing on changes queued before it was recorded
+  userId?: string | null;
+  queuedAt: string;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(RESPONSES_STORE)) {
+          database.createObjectStore(RESPONSES_STORE, { keyPath: 'key' });
+        }
+        if (!database.objectStoreNames.contains(MUTATIONS_STORE)) {
+          database.createObjectStore(MUTATIONS_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return databasePromise;
+}
+
+function runRequest<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDatabase().then(
+    (database) =>
+      new Promise<T>((resolve, reject) => {
+        const transaction = database.transaction(storeName, mode);
+        const request = action(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      }),
+  );
+}
+
+export function getCachedResponse(key: string): Promise<CachedResponse | undefined> {
+  return runRequest<CachedResponse | undefined>(RESPONSES_STORE, 'readonly', (store) => store.get(key));
+}
+
+export async function putCachedResponse(response: CachedResponse): Promise<void> {
+  await runRequest(RESPONSES_STORE, 'readwrite', (store) => store.put(response));
+}
+
+export function getQueuedMutations(): Promise<QueuedMutation[]> {
+  return runRequest<QueuedMutation[]>(MUTATIONS_STORE, 'readonly', (store) => store.getAll());
+}
+
+export async function addQueuedMutation(mutation: QueuedMutation): Promise<void> {
+  await runRequest(MUTATIONS_STORE, 'readwrite', (store) => store.add(mutation));
+}
+
+export async function removeQueuedMutation(id: number): Promise<void> {
+  await runRequest(MUTATIONS_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+// Removes every cached response and queued change, so nothing is left for the next user of this browser
+export function clearOfflineStores(): Promise<void> {
+  return openDatabase().then(
+    (database) =>
+      new Promise<void>((resolve, reject) => {
+        const transaction = database.transaction([RESPONSES_STORE, MUTATIONS_STORE], 'readwrite');
+        transaction.objectStore(RESPONSES_STORE).clear();
+        transaction.objectStore(MUTATIONS_STORE).clear();
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      }),
+  );
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { appendPage, createPaginationState, paginationReducer, toPage, type PaginationState } from './pagination';
+
+interface Row {
+  id: string;
+}
+
+const getKey = (row: Row) => row.id;
+
+describe('paginationReducer', () => {
+  it('replaces items on the first page and appends later pages', () => {
+    let state: PaginationState<Row> = paginationReducer(createPaginationState<Row>(), { type: 'reset' });
+    expect(state.isLoading).toBe(true);
+
+    state = paginationReducer(state, {
+      type: 'pageLoaded',
+      page: { results: [{ id: 'a' }, { id: 'b' }], totalCount: 3, hasMore: true },
+      append: false,
+      getKey,
+    });
+    expect(state).toMatchObject({ totalCount: 3, hasMore: true, isLoading: false });
+
+    state = paginationReducer(state, { type: 'loadMore' });
+    expect(state.isLoadingMore).toBe(true);
+
+    state = paginationReducer(state, {
+      type: 'pageLoaded',
+      page: { results: [{ id: 'b' }, { id: 'c' }], totalCount: 3, hasMore: false },
+      append: true,
+      getKey,
+    });
+    expect(state.items.map(getKey)).toEqual(['a', 'b', 'c']);
+    expect(state).toMatchObject({ hasMore: false, isLoadingMore: false });
+  });
+
+  it('stops paging on an empty page and keeps items when a page fails', () => {
+    const loaded = paginationReducer(createPaginationState<Row>(), {
+      type: 'pageLoaded',
+      page: { results: [], totalCount: 5, hasMore: true },
+      append: true,
+      getKey,
+    });
+    expect(loaded.hasMore).toBe(false);
+
+    const withItems = { ...createPaginationState<Row>(), items: [{ id: 'a' }], isLoadingMore: true };
+    expect(paginationReducer(withItems, { type: 'failed', error: 'Offline' })).toMatchObject({
+      items: [{ id: 'a' }],
+      isLoadingMore: false,
+      error: 'Offline',
+    });
+  });
+
+  it('updates loaded items without touching the paging state', () => {
+    const state = { ...createPaginationState<Row>(), items: [{ id: 'a' }, { id: 'b' }], totalCount: 10, hasMore: true };
+    const updated = paginationReducer(state, { type: 'itemsUpdated', update: (items) => items.filter((row) => row.id !== 'a') });
+    expect(updated).toMatchObject({ items: [{ id: 'b' }], totalCount: 10, hasMore: true });
+  });
+});
+
+describe('appendPage', () => {
+  it('keeps items without a key', () => {
+    const rows: Array<{ id?: string }> = [{ id: 'a' }];
+    expect(appendPage(rows, [{}, { id: 'a' }], (row) => row.id)).toEqual([{ id: 'a' }, {}]);
+  });
+});
+
+describe('toPage', () => {
+  it('fills in missing response fields', () => {
+    expect(toPage({ results: [{ id: 'a' }] })).toEqual({ results: [{ id: 'a' }], totalCount: 1, hasMore: false });
+    expect(toPage<Row>({ results: null, totalCount: 10, hasMore: true })).toEqual({ results: [], totalCount: 10, hasMore: true });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * State for offset-paginated search endpoints such as `/api/Item/search`, kept separate from the
+ * hook that drives it so that paging rules can be tested without React.
+ */
+
+export interface Page<T> {
+  results: T[];
+  totalCount: number;
+  hasMore: boolean;
+}
+
+export interface PaginationState<T> {
+  items: T[];
+  totalCount: number;
+  hasMore: boolean;
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  error: string | null;
+}
+
+export type PaginationAction<T> =
+  | { type: 'clear' }
+  | { type: 'reset' }
+  | { type: 'loadMore' }
+  | { type: 'pageLoaded'; page: Page<T>; append: boolean; getKey: (item: T) => string | null | undefined }
+  | { type: 'failed'; error: string }
+  | { type: 'itemsUpdated'; update: (items: T[]) => T[] };
+
+export function createPaginationState<T>(): PaginationState<T> {
+  return { items: [], totalCount: 0, hasMore: false, isLoading: false, isLoadingMore: false, error: null };
+}
+
+/** Converts a search response, whose fields are all optional in the API types, into a page. */
+export function toPage<T>(response: { results?: T[] | null; totalCount?: number; hasMore?: boolean }): Page<T> {
+  const results = response.results || [];
+  return {
+    results,
+    totalCount: response.totalCount ?? results.length,
+    hasMore: response.hasMore ?? false,
+  };
+}
+
+/**
+ * Appends a page, skipping items already loaded. Offset paging can return an item twice when
+ * something is added or renamed between requests.
+ */
+export function appendPage<T>(items: T[], page: T[], getKey: (item: T) => string | null | undefined): T[] {
+  const loadedKeys = new Set(items.map(getKey).filter((key): key is string => !!key));
+  return [...items, ...page.filter((item) => {
+    const key = getKey(item);
+    return !key || !loadedKeys.has(key);
+  })];
+}
+
+export function paginationReducer<T>(state: PaginationState<T>, action: PaginationAction<T>): PaginationState<T> {
+  switch (action.type) {
+    case 'clear':
+      return createPaginationState<T>();
+    case 'reset':
+      return { ...createPaginationState<T>(), isLoading: true };
+    case 'loadMore':
+      return { ...state, isLoadingMore: true, error: null };
+    case 'pageLoaded': {
+      const items = action.append ? appendPage(state.items, action.page.results, action.getKey) : action.page.results;
+      return {
+        items,
+        totalCount: Math.max(action.page.totalCount, items.length),
+        // A short page means the end was reached even if the count changed in between
+        hasMore: action.page.hasMore && action.page.results.length > 0,
+        isLoading: false,
+        isLoadingMore: false,
+        error: null,
+      };
+    }
+    case 'failed':
+      return { ...state, isLoading: false, isLoadingMore: false, error: action.error };
+    case 'itemsUpdated':
+      return { ...state, items: action.update(state.items) };
+  }
+}
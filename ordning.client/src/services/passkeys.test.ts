@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { fromBase64Url, toAssertionJson, toBase64Url, toCreationOptions } from './passkeys';
+
+function bytes(...values: number[]): ArrayBuffer {
+  return new Uint8Array(values).buffer;
+}
+
+describe('toBase64Url', () => {
+  it('encodes without padding or characters that need escaping in URLs', () => {
+    expect(toBase64Url(bytes(251, 255, 191))).toBe('-_-_');
+    expect(toBase64Url(bytes(1, 2))).toBe('AQI');
+  });
+
+  it('decodes what it encodes', () => {
+    const original = bytes(0, 1, 2, 250, 251, 252, 253, 254, 255);
+    expect(new Uint8Array(fromBase64Url(toBase64Url(original)))).toEqual(new Uint8Array(original));
+  });
+});
+
+describe('toCreationOptions', () => {
+  it('turns base64url fields into buffers and leaves out empty fields', () => {
+    const options = toCreationOptions({
+      rp: { id: 'localhost', name: 'Ordning' },
+      user: { id: 'AQI', name: 'anna', displayName: 'anna' },
+      challenge: '-_-_',
+      pubKeyCredParams: [{ type: 'public-key', alg: -7 }],
+      authenticatorSelection: { authenticatorAttachment: null, residentKey: 'required', requireResidentKey: true, userVerification: 'preferred' },
+      excludeCredentials: [{ type: 'public-key', id: 'AQI', transports: null }],
+      extensions: null,
+    });
+
+    expect(new Uint8Array(options.user.id as ArrayBuffer)).toEqual(new Uint8Array([1, 2]));
+    expect(new Uint8Array(options.challenge as ArrayBuffer)).toEqual(new Uint8Array([251, 255, 191]));
+    expect(options.authenticatorSelection).toEqual({ residentKey: 'required', requireResidentKey: true, userVerification: 'preferred' });
+    expect(options.excludeCredentials?.[0]).not.toHaveProperty('transports');
+    expect(options).not.toHaveProperty('attestation');
+  });
+});
+
+describe('toAssertionJson', () => {
+  it('turns the signed challenge into base64url fields', () => {
+    const credential = {
+      id: 'AQI',
+      rawId: bytes(1, 2),
+      type: 'public-key',
+      response: {
+        authenticatorData: bytes(3),
+        signature: bytes(4),
+        clientDataJSON: bytes(5),
+        userHandle: null,
+      },
+      getClientExtensionResults: () => ({}),
+    } as unknown as PublicKeyCredential;
+
+    expect(toAssertionJson(credential)).toEqual({
+      id: 'AQI',
+      rawId: 'AQI',
+      type: 'public-key',
+      response: { authenticatorData: 'Aw', signature: 'BA', clientDataJSON: 'BQ', userHandle: null },
+      extensions: {},
+    });
+  });
+});
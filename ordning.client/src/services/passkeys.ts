@@ -0,0 +1,156 @@
+/**
+ * Passkeys sign users in with their device instead of a password. The server sends WebAuthn options
+ * with binary fields as base64url strings, which are turned into buffers for the browser, and the
+ * credential the browser makes is turned back into base64url strings for the server.
+ */
+import { apiClient, unwrapResponse } from './apiClient';
+import type { components } from '../types/api';
+
+type Passkey = components['schemas']['Passkey'];
+type PasskeyRegistrationOptions = components['schemas']['PasskeyRegistrationOptions'];
+type PasskeyLoginOptions = components['schemas']['PasskeyLoginOptions'];
+type CredentialCreateOptions = components['schemas']['CredentialCreateOptions'];
+type AssertionOptions = components['schemas']['AssertionOptions'];
+type PublicKeyCredentialDescriptorJson = components['schemas']['PublicKeyCredentialDescriptor'];
+type AuthenticatorAttestationRawResponse = components['schemas']['AuthenticatorAttestationRawResponse'];
+type AuthenticatorAssertionRawResponse = components['schemas']['AuthenticatorAssertionRawResponse'];
+type SessionTokens = components['schemas']['SessionTokens'];
+
+export function isPasskeySupported(): boolean {
+  return typeof window !== 'undefined' && !!window.PublicKeyCredential && !!navigator.credentials;
+}
+
+export function toBase64Url(buffer: ArrayBuffer): string {
+  let binary = '';
+  new Uint8Array(buffer).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+function toDescriptor(descriptor: PublicKeyCredentialDescriptorJson): PublicKeyCredentialDescriptor {
+  return {
+    type: 'public-key',
+    id: fromBase64Url(descriptor.id || ''),
+    ...(descriptor.transports ? { transports: descriptor.transports as AuthenticatorTransport[] } : {}),
+  };
+}
+
+/** Turns the registration options from the server into what `navigator.credentials.create` takes. Empty fields are left out, since browsers reject nulls. */
+export function toCreationOptions(options: CredentialCreateOptions): PublicKeyCredentialCreationOptions {
+  const selection = options.authenticatorSelection;
+  return {
+    rp: {
+      name: options.rp?.name || '',
+      ...(options.rp?.id ? { id: options.rp.id } : {}),
+    },
+    user: {
+      id: fromBase64Url(options.user?.id || ''),
+      name: options.user?.name || '',
+      displayName: options.user?.displayName || options.user?.name || '',
+    },
+    challenge: fromBase64Url(options.challenge || ''),
+    pubKeyCredParams: (options.pubKeyCredParams || []).map((param) => ({ type: 'public-key', alg: Number(param.alg) })),
+    ...(options.timeout ? { timeout: options.timeout } : {}),
+    ...(options.attestation ? { attestation: options.attestation as AttestationConveyancePreference } : {}),
+    ...(selection ? {
+      authenticatorSelection: {
+        ...(selection.authenticatorAttachment ? { authenticatorAttachment: selection.authenticatorAttachment as AuthenticatorAttachment } : {}),
+        ...(selection.residentKey ? { residentKey: selection.residentKey as ResidentKeyRequirement } : {}),
+        requireResidentKey: !!selection.requireResidentKey,
+        ...(selection.userVerification ? { userVerification: selection.userVerification as UserVerificationRequirement } : {}),
+      },
+    } : {}),
+    excludeCredentials: (options.excludeCredentials || []).map(toDescriptor),
+  };
+}
+
+/** Turns the sign in options from the server into what `navigator.credentials.get` takes. */
+export function toRequestOptions(options: AssertionOptions): PublicKeyCredentialRequestOptions {
+  return {
+    challenge: fromBase64Url(options.challenge || ''),
+    ...(options.timeout ? { timeout: options.timeout } : {}),
+    ...(options.rpId ? { rpId: options.rpId } : {}),
+    allowCredentials: (options.allowCredentials || []).map(toDescriptor),
+    ...(options.userVerification ? { userVerification: options.userVerification as UserVerificationRequirement } : {}),
+  };
+}
+
+export function toAttestationJson(credential: PublicKeyCredential): AuthenticatorAttestationRawResponse {
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: credential.type,
+    response: {
+      attestationObject: toBase64Url(response.attestationObject),
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+    },
+    extensions: credential.getClientExtensionResults(),
+  };
+}
+
+export function toAssertionJson(credential: PublicKeyCredential): AuthenticatorAssertionRawResponse {
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: credential.type,
+    response: {
+      authenticatorData: toBase64Url(response.authenticatorData),
+      signature: toBase64Url(response.signature),
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      userHandle: response.userHandle ? toBase64Url(response.userHandle) : null,
+    },
+    extensions: credential.getClientExtensionResults(),
+  };
+}
+
+/** Whether the user closed the browser's passkey dialog, which needs no error message. */
+export function isPasskeyCancelled(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === 'NotAllowedError' || error.name === 'AbortError');
+}
+
+/** Creates a passkey on this device and registers it for the signed in user. */
+export async function registerPasskey(name: string): Promise<Passkey> {
+  const started = await unwrapResponse<PasskeyRegistrationOptions>(apiClient.POST('/api/Passkey/registration/options'));
+  const credential = await navigator.credentials.create({
+    publicKey: toCreationOptions(started.options || {}),
+  }) as PublicKeyCredential | null;
+  if (!credential) {
+    throw new Error('No passkey was created');
+  }
+
+  return unwrapResponse<Passkey>(apiClient.POST('/api/Passkey/registration', {
+    body: { ceremonyId: started.ceremonyId, name: name.trim() || null, credential: toAttestationJson(credential) },
+  }));
+}
+
+/** Lets the user pick a passkey for this site and signs in with it. */
+export async function signInWithPasskey(): Promise<SessionTokens> {
+  const started = await unwrapResponse<PasskeyLoginOptions>(apiClient.POST('/api/Passkey/login/options'));
+  const credential = await navigator.credentials.get({
+    publicKey: toRequestOptions(started.options || {}),
+  }) as PublicKeyCredential | null;
+  if (!credential) {
+    throw new Error('No passkey was picked');
+  }
+
+  const { data, response } = await apiClient.POST('/api/Passkey/login', {
+    body: { ceremonyId: started.ceremonyId, credential: toAssertionJson(credential) },
+  });
+  if (!data) {
+    throw new Error(response.status === 401 ? 'This passkey is not registered here' : 'Sign in with passkey failed');
+  }
+  return data;
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildItemProperties,
+  formatPropertyRange,
+  formatPropertyValue,
+  normalizePropertyValue,
+  parsePropertyRanges,
+  setPropertyRange,
+  splitItemProperties,
+} from './propertyDefinitions';
+
+const weight = { key: 'Weight', name: 'Weight', type: 'number', unit: 'kg', isRequired: true, options: [] };
+const color = { key: 'Color', name: 'Color', type: 'enum', isRequired: false, options: ['Red', 'Blue'] };
+const bought = { key: 'Bought', name: 'Bought on', type: 'date', isRequired: false, options: [] };
+const fragile = { key: 'Fragile', name: 'Fragile', type: 'boolean', isRequired: false, options: [] };
+const definitions = [weight, color, bought, fragile];
+
+describe('normalizePropertyValue', () => {
+  it('accepts a comma as the decimal separator in numbers', () => {
+    expect(normalizePropertyValue(weight, ' 2,5 ')).toEqual({ value: '2.5' });
+    expect(normalizePropertyValue(weight, 'heavy')).toEqual({ error: 'Weight must be a number' });
+  });
+
+  it('only accepts real dates as yyyy-mm-dd', () => {
+    expect(normalizePropertyValue(bought, '2024-02-29')).toEqual({ value: '2024-02-29' });
+    expect(normalizePropertyValue(bought, '2023-02-29').error).toBeDefined();
+    expect(normalizePropertyValue(bought, '29/02/2024').error).toBeDefined();
+  });
+
+  it('spells choices and booleans the way they are stored', () => {
+    expect(normalizePropertyValue(color, 'red')).toEqual({ value: 'Red' });
+    expect(normalizePropertyValue(color, 'green')).toEqual({ error: 'Color must be one of: Red, Blue' });
+    expect(normalizePropertyValue(fragile, 'Yes')).toEqual({ value: 'true' });
+  });
+
+  it('only accepts http and https links', () => {
+    const manual = { key: 'Manual', name: 'Manual', type: 'url' };
+    expect(normalizePropertyValue(manual, 'https://example.com/manual.pdf')).toEqual({ value: 'https://example.com/manual.pdf' });
+    expect(normalizePropertyValue(manual, 'example.com').error).toBeDefined();
+  });
+});
+
+describe('splitItemProperties', () => {
+  it('matches defined keys ignoring case and keeps the rest as free-form rows', () => {
+    expect(splitItemProperties(definitions, { weight: '3', Shelf: 'top' })).toEqual({
+      typedValues: { Weight: '3' },
+      otherRows: [{ key: 'Shelf', value: 'top' }],
+    });
+  });
+});
+
+describe('buildItemProperties', () => {
+  it('normalizes typed values and adds the free-form rows', () => {
+    expect(buildItemProperties(definitions, { Weight: '1,5', Color: 'blue', Bought: '' }, [{ key: ' Shelf ', value: ' top ' }, { key: '', value: 'x' }])).toEqual({
+      properties: { Weight: '1.5', Color: 'Blue', Shelf: 'top' },
+      errors: {},
+      otherError: undefined,
+    });
+  });
+
+  it('reports missing required and invalid values by key', () => {
+    expect(buildItemProperties(definitions, { Color: 'green' }, []).errors).toEqual({
+      Weight: 'Weight is required',
+      Color: 'Color must be one of: Red, Blue',
+    });
+  });
+
+  it('rejects free-form rows for keys that have a definition', () => {
+    const result = buildItemProperties(definitions, { Weight: '1' }, [{ key: 'color', value: 'red' }]);
+    expect(result.otherError).toBeDefined();
+    expect(result.properties).toEqual({ Weight: '1' });
+  });
+});
+
+describe('formatPropertyValue', () => {
+  it('shows units and yes or no', () => {
+    expect(formatPropertyValue(weight, '2.5')).toBe('2.5 kg');
+    expect(formatPropertyValue(fragile, 'true')).toBe('Yes');
+    expect(formatPropertyValue(undefined, 'anything')).toBe('anything');
+  });
+});
+
+describe('property ranges', () => {
+  it('round-trips ranges with open bounds', () => {
+    const ranges = parsePropertyRanges(['Weight=1..', 'Bought=..2024-12-31', 'Weight=2..5']);
+    expect(ranges).toEqual([
+      { key: 'Bought', min: '', max: '2024-12-31' },
+      { key: 'Weight', min: '2', max: '5' },
+    ]);
+    expect(ranges.map(formatPropertyRange)).toEqual(['Bought=..2024-12-31', 'Weight=2..5']);
+  });
+
+  it('skips ranges without a key or bounds', () => {
+    expect(parsePropertyRanges(['=1..2', 'Weight=..', 'Weight=3'])).toEqual([]);
+  });
+
+  it('removes a range when both bounds are cleared', () => {
+    const ranges = [{ key: 'Weight', min: '1', max: '' }];
+    expect(setPropertyRange(ranges, 'Weight', ' ', '')).toEqual([]);
+    expect(setPropertyRange(ranges, 'Bought', '2024-01-01', '')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Typed item properties. Admins define property keys with a type, and item forms use the
+ * definitions to pick inputs and check values before the server normalizes them the same way.
+ * Keys without a definition stay free-form text.
+ */
+import type { components } from '../types/api';
+
+type PropertyDefinition = components['schemas']['PropertyDefinition'];
+
+export type PropertyType = 'text' | 'number' | 'date' | 'boolean' | 'enum' | 'url';
+
+export const PROPERTY_TYPE_LABELS: Record<PropertyType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  boolean: 'Yes/No',
+  enum: 'Choice',
+  url: 'Link',
+};
+
+export const PROPERTY_TYPES = Object.keys(PROPERTY_TYPE_LABELS) as PropertyType[];
+
+export const PROPERTY_RANGE_PARAM = 'range';
+export const SORT_PARAM = 'sort';
+
+/** A free-form property row of an item form, as typed. */
+export interface PropertyRow {
+  key: string;
+  value: string;
+}
+
+export interface BuiltItemProperties {
+  properties: Record<string, string>;
+  /** Errors for typed values, by definition key. */
+  errors: Record<string, string>;
+  /** An error for the free-form rows, such as a key that already has a definition. */
+  otherError?: string;
+}
+
+export interface PropertyRange {
+  key: string;
+  min: string;
+  max: string;
+}
+
+export function getPropertyType(definition: PropertyDefinition): PropertyType {
+  const type = (definition.type || '').toLowerCase();
+  return (PROPERTY_TYPES as string[]).includes(type) ? type as PropertyType : 'text';
+}
+
+/** Range filters and sorting compare numbers and dates by value, and everything else as text. */
+export function isRangeComparable(definition: PropertyDefinition): boolean {
+  const type = getPropertyType(definition);
+  return type === 'number' || type === 'date';
+}
+
+/** Finds the definition of a property key, ignoring case the same way the server does. */
+export function findPropertyDefinition(definitions: PropertyDefinition[], key: string): PropertyDefinition | undefined {
+  const lowerKey = key.trim().toLowerCase();
+  return definitions.find((definition) => (definition.key || '').toLowerCase() === lowerKey);
+}
+
+/**
+ * Splits an item's properties into values for the defined properties, keyed by the defined key,
+ * and the remaining free-form rows.
+ */
+export function splitItemProperties(
+  definitions: PropertyDefinition[],
+  properties: Record<string, string> | null | undefined,
+): { typedValues: Record<string, string>; otherRows: PropertyRow[] } {
+  const typedValues: Record<string, string> = {};
+  const otherRows: PropertyRow[] = [];
+
+  Object.entries(properties || {}).forEach(([key, value]) => {
+    const definition = findPropertyDefinition(definitions, key);
+    if (definition?.key) {
+      typedValues[definition.key] = value;
+    } else {
+      otherRows.push({ key, value });
+    }
+  });
+
+  return { typedValues, otherRows };
+}
+
+/**
+ * Checks a typed value and returns it in the form the server stores: numbers with a point,
+ * dates as yyyy-MM-dd, booleans as "true" or "false" and choices spelled as defined.
+ */
+export function normalizePropertyValue(
+  definition: PropertyDefinition,
+  value: string,
+): { value: string; error?: undefined } | { value?: undefined; error: string } {
+  const trimmed = value.trim();
+  const name = definition.name || definition.key || 'This property';
+
+  switch (getPropertyType(definition)) {
+    case 'number': {
+      const number = trimmed.replace(',', '.');
+      return /^[+-]?(\d+\.?\d*|\.\d+)$/.test(number) && Number.isFinite(Number(number))
+        ? { value: number }
+        : { error: `${name} must be a number` };
+    }
+    case 'date':
+      return isValidDate(trimmed) ? { value: trimmed } : { error: `${name} must be a date` };
+    case 'boolean': {
+      const lower = trimmed.toLowerCase();
+      if (lower === 'true' || lower === 'yes') return { value: 'true' };
+      if (lower === 'false' || lower === 'no') return { value: 'false' };
+      return { error: `${name} must be yes or no` };
+    }
+    case 'enum': {
+      const options = definition.options || [];
+      const option = options.find((candidate) => candidate.toLowerCase() === trimmed.toLowerCase());
+      return option !== undefined ? { value: option } : { error: `${name} must be one of: ${options.join(', ')}` };
+    }
+    case 'url':
+      return /^https?:\/\/\S+$/i.test(trimmed) ? { value: trimmed } : { error: `${name} must be a link starting with http:// or https://` };
+    default:
+      return { value: trimmed };
+  }
+}
+
+/**
+ * Builds the properties to send for an item from the typed values and free-form rows. Empty
+ * typed values are left out, unless the property is required.
+ */
+export function buildItemProperties(
+  definitions: PropertyDefinition[],
+  typedValues: Record<string, string>,
+  otherRows: PropertyRow[],
+): BuiltItemProperties {
+  const properties: Record<string, string> = {};
+  const errors: Record<string, string> = {};
+  let otherError: string | undefined;
+
+  definitions.forEach((definition) => {
+    const key = definition.key;
+    if (!key) return;
+
+    const value = typedValues[key] ?? '';
+    if (!value.trim()) {
+      if (definition.isRequired) {
+        errors[key] = `${definition.name || key} is required`;
+      }
+      return;
+    }
+
+    const normalized = normalizePropertyValue(definition, value);
+    if (normalized.error !== undefined) {
+      errors[key] = normalized.error;
+    } else {
+      properties[key] = normalized.value;
+    }
+  });
+
+  otherRows.forEach((row) => {
+    const key = row.key.trim();
+    const value = row.value.trim();
+    if (!key || !value) return;
+
+    const definition = findPropertyDefinition(definitions, key);
+    if (definition) {
+      otherError ??= `"${key}" has its own field above, use that instead`;
+      return;
+    }
+    properties[key] = value;
+  });
+
+  return { properties, errors, otherError };
+}
+
+/** Formats a stored value for display, such as "Yes" for booleans or "12 kg" for numbers with a unit. */
+export function formatPropertyValue(definition: PropertyDefinition | undefined, value: string): string {
+  if (!definition) return value;
+
+  switch (getPropertyType(definition)) {
+    case 'boolean':
+      return value === 'true' ? 'Yes' : value === 'false' ? 'No' : value;
+    case 'number':
+      return definition.unit ? `${value} ${definition.unit}` : value;
+    default:
+      return value;
+  }
+}
+
+/** Formats a range filter as "key=min..max", the format of the item search `range` parameter. Either bound may be left out. */
+export function formatPropertyRange(range: PropertyRange): string {
+  return `${range.key}=${range.min}..${range.max}`;
+}
+
+/** Reads "key=min..max" range filters, skipping entries without a key or bounds and keeping the last range per key. */
+export function parsePropertyRanges(rawRanges: string[]): PropertyRange[] {
+  const ranges: PropertyRange[] = [];
+  for (const rawRange of rawRanges) {
+    const separatorIndex = rawRange.indexOf('=');
+    const key = separatorIndex > 0 ? rawRange.slice(0, separatorIndex).trim() : '';
+    const bounds = rawRange.slice(separatorIndex + 1);
+    const boundSeparatorIndex = bounds.indexOf('..');
+    if (!key || boundSeparatorIndex < 0) {
+      continue;
+    }
+
+    const min = bounds.slice(0, boundSeparatorIndex).trim();
+    const max = bounds.slice(boundSeparatorIndex + 2).trim();
+    if (!min && !max) {
+      continue;
+    }
+
+    const existingIndex = ranges.findIndex((range) => range.key === key);
+    if (existingIndex >= 0) {
+      ranges.splice(existingIndex, 1);
+    }
+    ranges.push({ key, min, max });
+  }
+  return ranges;
+}
+
+/** Replaces the range for a key, or removes it when both bounds are empty. */
+export function setPropertyRange(ranges: PropertyRange[], key: string, min: string, max: string): PropertyRange[] {
+  const otherRanges = ranges.filter((range) => range.key !== key);
+  return min.trim() || max.trim() ? [...otherRanges, { key, min: min.trim(), max: max.trim() }] : otherRanges;
+}
+
+/** The sort choices for the item search: the built-in orders, then ascending and descending per defined property. */
+export function getSortOptions(definitions: PropertyDefinition[]): Array<{ value: string; label: string }> {
+  const options = [
+    { value: '', label: 'Best match' },
+    { value: 'name', label: 'Name' },
+    { value: '-created', label: 'Newest first' },
+    { value: 'created', label: 'Oldest first' },
+    { value: '-updated', label: 'Recently updated' },
+    { value: 'quantity', label: 'Quantity, lowest first' },
+    { value: '-quantity', label: 'Quantity, highest first' },
+  ];
+
+  definitions.forEach((definition) => {
+    if (!definition.key) return;
+    const name = definition.name || definition.key;
+    const [ascending, descending] = isRangeComparable(definition)
+      ? ['lowest first', 'highest first']
+      : ['A-Z', 'Z-A'];
+    options.push({ value: `property:${definition.key}`, label: `${name}, ${ascending}` });
+    options.push({ value: `-property:${definition.key}`, label: `${name}, ${descending}` });
+  });
+
+  return options;
+}
+
+function isValidDate(text: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) return false;
+  const date = new Date(`${text}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === text;
+}
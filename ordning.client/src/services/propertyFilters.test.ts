@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { formatPropertyFilter, parsePropertyFilters, togglePropertyFilter } from './propertyFilters';
+
+describe('parsePropertyFilters', () => {
+  it('splits on the first equals sign and trims', () => {
+    expect(parsePropertyFilters(['color=red', ' size = a=b '])).toEqual([
+      { key: 'color', value: 'red' },
+      { key: 'size', value: 'a=b' },
+    ]);
+  });
+
+  it('skips entries without a key and duplicates', () => {
+    expect(parsePropertyFilters(['=red', 'color', 'color=red', 'color=red'])).toEqual([
+      { key: 'color', value: 'red' },
+    ]);
+  });
+
+  it('round trips formatted filters', () => {
+    const filter = { key: 'category', value: 'tools' };
+    expect(parsePropertyFilters([formatPropertyFilter(filter)])).toEqual([filter]);
+  });
+});
+
+describe('togglePropertyFilter', () => {
+  it('adds a missing filter and removes an existing one', () => {
+    const added = togglePropertyFilter([{ key: 'color', value: 'red' }], 'color', 'blue');
+    expect(added).toEqual([
+      { key: 'color', value: 'red' },
+      { key: 'color', value: 'blue' },
+    ]);
+    expect(togglePropertyFilter(added, 'color', 'red')).toEqual([{ key: 'color', value: 'blue' }]);
+  });
+});
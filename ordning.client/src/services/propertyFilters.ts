@@ -0,0 +1,47 @@
+/**
+ * Property filters are written as "key=value", the same format the item search API
+ * takes in its repeated `filter` query parameter and the dashboard keeps in its URL.
+ */
+
+export interface PropertyFilter {
+  key: string;
+  value: string;
+}
+
+export const PROPERTY_FILTER_PARAM = 'filter';
+
+export function formatPropertyFilter(filter: PropertyFilter): string {
+  return `${filter.key}=${filter.value}`;
+}
+
+/**
+ * Reads "key=value" filters, skipping entries without a key and duplicates.
+ * Only the first "=" separates the key, so values may contain "=".
+ */
+export function parsePropertyFilters(rawFilters: string[]): PropertyFilter[] {
+  const filters: PropertyFilter[] = [];
+  for (const rawFilter of rawFilters) {
+    const separatorIndex = rawFilter.indexOf('=');
+    const key = separatorIndex > 0 ? rawFilter.slice(0, separatorIndex).trim() : '';
+    if (!key) {
+      continue;
+    }
+
+    const value = rawFilter.slice(separatorIndex + 1).trim();
+    if (!filters.some((filter) => filter.key === key && filter.value === value)) {
+      filters.push({ key, value });
+    }
+  }
+  return filters;
+}
+
+export function hasPropertyFilter(filters: PropertyFilter[], key: string, value: string): boolean {
+  return filters.some((filter) => filter.key === key && filter.value === value);
+}
+
+/** Adds the filter if it is missing, otherwise removes it. */
+export function togglePropertyFilter(filters: PropertyFilter[], key: string, value: string): PropertyFilter[] {
+  return hasPropertyFilter(filters, key, value)
+    ? filters.filter((filter) => filter.key !== key || filter.value !== value)
+    : [...filters, { key, value }];
+}
@@ -0,0 +1,51 @@
+import { QRCodeDecoderErrorCorrectionLevel, QRCodeEncoder } from '@zxing/library';
+
+/**
+ * A QR code as a square grid of modules, where true means a dark module.
+ * The grid does not include the quiet zone around the code.
+ */
+export interface QrMatrix {
+  size: number;
+  modules: boolean[][];
+}
+
+export function createQrMatrix(text: string): QrMatrix {
+  const matrix = QRCodeEncoder.encode(text, QRCodeDecoderErrorCorrectionLevel.M).getMatrix();
+  const size = matrix.getWidth();
+  const modules: boolean[][] = [];
+
+  for (let y = 0; y < size; y++) {
+    const row: boolean[] = [];
+    for (let x = 0; x < size; x++) {
+      row.push(matrix.get(x, y) === 1);
+    }
+    modules.push(row);
+  }
+
+  return { size, modules };
+}
+
+/**
+ * Groups the dark modules of each row into horizontal runs, which keeps vector output small.
+ */
+export function getQrRuns(matrix: QrMatrix): { x: number; y: number; length: number }[] {
+  const runs: { x: number; y: number; length: number }[] = [];
+
+  matrix.modules.forEach((row, y) => {
+    let x = 0;
+    while (x < row.length) {
+      if (!row[x]) {
+        x++;
+        continue;
+      }
+
+      const start = x;
+      while (x < row.length && row[x]) {
+        x++;
+      }
+      runs.push({ x: start, y, length: x - start });
+    }
+  });
+
+  return runs;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { formatQuantity, parseQuantityForm, parseQuantityInput, toQuantityFormValues } from './quantity';
+
+describe('formatQuantity', () => {
+  it('shows the unit after the number', () => {
+    expect(formatQuantity(12, 'pcs')).toBe('12 pcs');
+    expect(formatQuantity(0, null)).toBe('0');
+  });
+
+  it('returns null for items without a quantity', () => {
+    expect(formatQuantity(null, 'pcs')).toBeNull();
+    expect(formatQuantity(undefined)).toBeNull();
+  });
+});
+
+describe('parseQuantityInput', () => {
+  it('parses whole and decimal numbers, with a point or a comma', () => {
+    expect(parseQuantityInput(' 12 ')).toBe(12);
+    expect(parseQuantityInput('2.5')).toBe(2.5);
+    expect(parseQuantityInput('2,5')).toBe(2.5);
+    expect(parseQuantityInput('.5')).toBe(0.5);
+  });
+
+  it('treats empty text as no quantity', () => {
+    expect(parseQuantityInput('')).toBeNull();
+    expect(parseQuantityInput('   ')).toBeNull();
+  });
+
+  it('rejects negative, non-numeric and too large values', () => {
+    expect(parseQuantityInput('-1')).toBeUndefined();
+    expect(parseQuantityInput('12 pcs')).toBeUndefined();
+    expect(parseQuantityInput('1e3')).toBeUndefined();
+    expect(parseQuantityInput('1000000000')).toBeUndefined();
+  });
+});
+
+describe('parseQuantityForm', () => {
+  it('parses a quantity with a unit and minimum', () => {
+    expect(parseQuantityForm({ quantity: '12', unit: ' pcs ', minQuantity: '5' })).toEqual({
+      quantity: 12,
+      unit: 'pcs',
+      minQuantity: 5,
+      errors: {},
+    });
+  });
+
+  it('accepts an item without a quantity', () => {
+    expect(parseQuantityForm(toQuantityFormValues())).toEqual({ quantity: null, unit: null, minQuantity: null, errors: {} });
+  });
+
+  it('requires a quantity when a unit or minimum is given', () => {
+    expect(parseQuantityForm({ quantity: '', unit: 'm', minQuantity: '' }).errors.quantity).toBeDefined();
+    expect(parseQuantityForm({ quantity: '', unit: '', minQuantity: '2' }).errors.quantity).toBeDefined();
+  });
+
+  it('reports fields that are not numbers', () => {
+    const { errors } = parseQuantityForm({ quantity: 'a lot', unit: '', minQuantity: 'few' });
+    expect(errors.quantity).toBeDefined();
+    expect(errors.minQuantity).toBeDefined();
+  });
+});
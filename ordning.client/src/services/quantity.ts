@@ -0,0 +1,77 @@
+/**
+ * Formatting and parsing for item quantities. Items without a quantity are single things, so a
+ * missing quantity is shown as nothing rather than as "1".
+ */
+
+/** The largest quantity the server accepts. */
+export const MAX_QUANTITY = 999_999_999;
+
+/** Formats a quantity with its unit, such as "12 pcs" or "2.5 m". Returns null when there is no quantity. */
+export function formatQuantity(quantity: number | null | undefined, unit?: string | null): string | null {
+  if (quantity === null || quantity === undefined) return null;
+
+  const number = quantity.toLocaleString(undefined, { maximumFractionDigits: 3 });
+  return unit ? `${number} ${unit}` : number;
+}
+
+/**
+ * Parses a quantity typed into a form, accepting a comma as the decimal separator. Empty text
+ * means no quantity and gives null; anything that isn't a number from 0 to `MAX_QUANTITY` gives
+ * undefined.
+ */
+export function parseQuantityInput(text: string): number | null | undefined {
+  const trimmed = text.trim().replace(',', '.');
+  if (trimmed === '') return null;
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(trimmed)) return undefined;
+
+  const value = Number(trimmed);
+  if (!Number.isFinite(value) || value > MAX_QUANTITY) return undefined;
+  return value;
+}
+
+/** The quantity fields of an item form, as typed. */
+export interface QuantityFormValues {
+  quantity: string;
+  unit: string;
+  minQuantity: string;
+}
+
+export interface QuantityFormErrors {
+  quantity?: string;
+  minQuantity?: string;
+}
+
+export interface ParsedQuantityForm {
+  quantity: number | null;
+  unit: string | null;
+  minQuantity: number | null;
+  errors: QuantityFormErrors;
+}
+
+export function toQuantityFormValues(item?: { quantity?: number | null; unit?: string | null; minQuantity?: number | null }): QuantityFormValues {
+  return {
+    quantity: item?.quantity?.toString() ?? '',
+    unit: item?.unit ?? '',
+    minQuantity: item?.minQuantity?.toString() ?? '',
+  };
+}
+
+/** Parses the quantity fields of an item form. A unit or minimum quantity needs a quantity to go with it. */
+export function parseQuantityForm(values: QuantityFormValues): ParsedQuantityForm {
+  const quantity = parseQuantityInput(values.quantity);
+  const minQuantity = parseQuantityInput(values.minQuantity);
+  const unit = values.unit.trim() || null;
+  const errors: QuantityFormErrors = {};
+
+  if (quantity === undefined) {
+    errors.quantity = 'Enter a number, or leave empty for a single item';
+  } else if (quantity === null && (unit !== null || (minQuantity !== null && minQuantity !== undefined))) {
+    errors.quantity = 'Enter a quantity to go with the unit and minimum';
+  }
+
+  if (minQuantity === undefined) {
+    errors.minQuantity = 'Enter a number, or leave empty';
+  }
+
+  return { quantity: quantity ?? null, unit, minQuantity: minQuantity ?? null, errors };
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { BarcodeFormat, QRCodeWriter, type BitMatrix } from '@zxing/library';
+import { decodeImage, resolveScanTarget, toLuminance, type RgbaImage } from './scanDecoder';
+
+function toImage(matrix: BitMatrix): RgbaImage {
+  const width = matrix.getWidth();
+  const height = matrix.getHeight();
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = matrix.get(x, y) ? 0 : 255;
+      const offset = (y * width + x) * 4;
+      data[offset] = value;
+      data[offset + 1] = value;
+      data[offset + 2] = value;
+      data[offset + 3] = 255;
+    }
+  }
+  return { data, width, height };
+}
+
+function encodeQrCode(text: string, size: number): RgbaImage {
+  return toImage(new QRCodeWriter().encode(text, BarcodeFormat.QR_CODE, size, size, new Map()));
+}
+
+describe('decodeImage', () => {
+  it('reads the text of a QR code', () => {
+    const result = decodeImage(encodeQrCode('https://ordning.example/locations/G1', 200));
+
+    expect(result).toEqual({ text: 'https://ordning.example/locations/G1', format: 'QR_CODE' });
+  });
+
+  it('reads a QR code with an item ID', () => {
+    const result = decodeImage(encodeQrCode('0b8c5f1e-4d0a-4c57-9f0e-2b1d9c6a7e11', 200));
+
+    expect(result?.text).toBe('0b8c5f1e-4d0a-4c57-9f0e-2b1d9c6a7e11');
+  });
+
+  it('reads a small QR code with a location ID', () => {
+    const result = decodeImage(encodeQrCode('SHELF-12', 100));
+
+    expect(result).toEqual({ text: 'SHELF-12', format: 'QR_CODE' });
+  });
+
+  it('has nothing to read in an empty or blank image', () => {
+    const blank = new Uint8ClampedArray(100 * 100 * 4).fill(255);
+
+    expect(decodeImage({ data: new Uint8ClampedArray(0), width: 0, height: 0 })).toBeNull();
+    expect(decodeImage({ data: blank, width: 100, height: 100 })).toBeNull();
+  });
+});
+
+describe('toLuminance', () => {
+  it('weighs the colour channels by how bright they look', () => {
+    const data = new Uint8ClampedArray([255, 255, 255, 255, 0, 0, 0, 255, 0, 255, 0, 255]);
+
+    expect(Array.from(toLuminance({ data, width: 3, height: 1 }))).toEqual([255, 0, 150]);
+  });
+});
+
+describe('resolveScanTarget', () => {
+  it('treats a bare ID as a location code', () => {
+    expect(resolveScanTarget(' G1 ')).toEqual({ type: 'location', id: 'G1', path: '/locations/G1' });
+    expect(resolveScanTarget('Shelf #2')).toBeNull();
+  });
+
+  it('treats a UUID as an item code', () => {
+    expect(resolveScanTarget('0B8C5F1E-4D0A-4C57-9F0E-2B1D9C6A7E11')).toEqual({
+      type: 'item',
+      id: '0b8c5f1e-4d0a-4c57-9f0e-2b1d9c6a7e11',
+      path: '/items/0b8c5f1e-4d0a-4c57-9f0e-2b1d9c6a7e11',
+    });
+  });
+
+  it('follows links to items and locations', () => {
+    expect(resolveScanTarget('https://ordning.example/locations/Box%20A/')).toEqual({
+      type: 'location',
+      id: 'Box A',
+      path: '/locations/Box%20A',
+    });
+    expect(resolveScanTarget('/items/0b8c5f1e-4d0a-4c57-9f0e-2b1d9c6a7e11')).toEqual({
+      type: 'item',
+      id: '0b8c5f1e-4d0a-4c57-9f0e-2b1d9c6a7e11',
+      path: '/items/0b8c5f1e-4d0a-4c57-9f0e-2b1d9c6a7e11',
+    });
+  });
+
+  it('ignores links to items that are not item IDs and other links', () => {
+    expect(resolveScanTarget('https://ordning.example/items/not-an-id')).toBeNull();
+    expect(resolveScanTarget('https://example.com/products/42')).toBeNull();
+    expect(resolveScanTarget('https://example.com')).toBeNull();
+  });
+
+  it('ignores links with malformed escapes', () => {
+    expect(resolveScanTarget('https://ordning.example/locations/%E0%A4')).toBeNull();
+    expect(resolveScanTarget('/items/%')).toBeNull();
+  });
+
+  it('ignores text that does not point to anything', () => {
+    expect(resolveScanTarget('')).toBeNull();
+    expect(resolveScanTarget('   ')).toBeNull();
+    expect(resolveScanTarget('Buy more screws')).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  ChecksumException,
+  DecodeHintType,
+  FormatException,
+  HybridBinarizer,
+  MultiFormatReader,
+  NotFoundException,
+  RGBLuminanceSource,
+} from '@zxing/library';
+
+// Pure decoding of QR codes and barcodes from raw RGBA pixel data, and mapping of the
+// decoded text to the page it refers to. Nothing here touches the DOM or the camera.
+
+export interface RgbaImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface DecodedCode {
+  text: string;
+  format: string;
+}
+
+export type ScanTarget =
+  | { type: 'item'; id: string; path: string }
+  | { type: 'location'; id: string; path: string };
+
+const SUPPORTED_FORMATS = [
+  BarcodeFormat.QR_CODE,
+  BarcodeFormat.DATA_MATRIX,
+  BarcodeFormat.CODE_128,
+  BarcodeFormat.CODE_39,
+  BarcodeFormat.CODE_93,
+  BarcodeFormat.EAN_13,
+  BarcodeFormat.EAN_8,
+  BarcodeFormat.UPC_A,
+  BarcodeFormat.ITF,
+];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const LOCATION_ID_PATTERN = /^[^\s/?#]{1,255}$/;
+const ROUTE_PATTERN = /\/(items|locations)\/([^/?#]+)\/?$/;
+
+function createReader(): MultiFormatReader {
+  const hints = new Map<DecodeHintType, unknown>();
+  hints.set(DecodeHintType.POSSIBLE_FORMATS, SUPPORTED_FORMATS);
+  hints.set(DecodeHintType.TRY_HARDER, true);
+
+  const reader = new MultiFormatReader();
+  reader.setHints(hints);
+  return reader;
+}
+
+let sharedReader: MultiFormatReader | null = null;
+
+/**
+ * Converts RGBA pixels to the 8-bit luminance values the decoder works on.
+ */
+export function toLuminance(image: RgbaImage): Uint8ClampedArray {
+  const luminance = new Uint8ClampedArray(image.width * image.height);
+  for (let i = 0; i < luminance.length; i++) {
+    const offset = i * 4;
+    const red = image.data[offset];
+    const green = image.data[offset + 1];
+    const blue = image.data[offset + 2];
+    luminance[i] = (red * 299 + green * 587 + blue * 114) / 1000;
+  }
+  return luminance;
+}
+
+/**
+ * Decodes the first QR code or barcode found in the image.
+ * Returns null when the image does not contain a readable code.
+ */
+export function decodeImage(image: RgbaImage): DecodedCode | null {
+  if (image.width === 0 || image.height === 0) {
+    return null;
+  }
+
+  if (!sharedReader) {
+    sharedReader = createReader();
+  }
+
+  const source = new RGBLuminanceSource(toLuminance(image), image.width, image.height);
+  const bitmap = new BinaryBitmap(new HybridBinarizer(source));
+
+  try {
+    const result = sharedReader.decodeWithState(bitmap);
+    return {
+      text: result.getText(),
+      format: BarcodeFormat[result.getBarcodeFormat()],
+    };
+  } catch (error) {
+    if (error instanceof NotFoundException || error instanceof ChecksumException || error instanceof FormatException) {
+      return null;
+    }
+    throw error;
+  } finally {
+    sharedReader.reset();
+  }
+}
+
+/**
+ * Maps scanned text to the item or location it identifies.
+ * Accepts bare item UUIDs, bare location IDs and Ordning URLs such as https://host/locations/A1.
+ */
+export function resolveScanTarget(text: string): ScanTarget | null {
+  const value = text.trim();
+  if (value.length === 0) {
+    return null;
+  }
+
+  const routeMatch = ROUTE_PATTERN.exec(value);
+  if (routeMatch && /^(https?:\/\/[^/]+)?\//i.test(value)) {
+    let id: string;
+    try {
+      id = decodeURIComponent(routeMatch[2]);
+    } catch {
+      // A malformed escape such as %E0%A4 can't point to anything
+      return null;
+    }
+    return routeMatch[1] === 'items' ? createItemTarget(id) : createLocationTarget(id);
+  }
+
+  if (UUID_PATTERN.test(value)) {
+    return createItemTarget(value.toLowerCase());
+  }
+
+  if (LOCATION_ID_PATTERN.test(value) && !/^https?:/i.test(value)) {
+    return createLocationTarget(value);
+  }
+
+  return null;
+}
+
+function createItemTarget(id: string): ScanTarget | null {
+  if (!UUID_PATTERN.test(id)) {
+    return null;
+  }
+  return { type: 'item', id, path: `/items/${id}` };
+}
+
+function createLocationTarget(id: string): ScanTarget {
+  return { type: 'location', id, path: `/locations/${encodeURIComponent(id)}` };
+}
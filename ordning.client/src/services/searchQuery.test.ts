@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applySearchSuggestion,
+  getSearchSuggestions,
+  parseSearchQuery,
+  tokenizeSearchQuery,
+  type SearchSuggestionContext,
+} from './searchQuery';
+
+const context: SearchSuggestionContext = {
+  locations: [
+    { id: 'G1', name: 'Garage' },
+    { id: 'G2', name: 'Garage shelf' },
+    { id: 'K1', name: 'Kitchen' },
+  ],
+  propertyValues: { color: ['red', 'dark blue'], brand: ['Bosch'] },
+  today: '2026-03-01',
+};
+
+describe('parseSearchQuery', () => {
+  it('splits text, phrases, exclusions and filters', () => {
+    expect(parseSearchQuery('in:G1 color:red -broken "power drill" updated:>2026-01-01 cordless')).toEqual({
+      text: 'cordless',
+      phrases: ['power drill'],
+      excludedTerms: ['broken'],
+      filters: [
+        { key: 'in', operator: '=', value: 'G1', negated: false },
+        { key: 'color', operator: '=', value: 'red', negated: false },
+        { key: 'updated', operator: '>', value: '2026-01-01', negated: false },
+      ],
+      errors: [],
+    });
+  });
+
+  it('reads negated and quoted filters and skips filters without a value', () => {
+    const parsed = parseSearchQuery('-color:"dark blue" in: -"spare parts"');
+    expect(parsed.filters).toEqual([{ key: 'color', operator: '=', value: 'dark blue', negated: true }]);
+    expect(parsed.excludedTerms).toEqual(['spare parts']);
+  });
+
+  it('reports invalid dates and comparisons on properties', () => {
+    expect(parseSearchQuery('created:yesterday size:>3').errors).toEqual([
+      "'yesterday' is not a valid date for 'created:'. Use the format yyyy-MM-dd.",
+      "Filter 'size:' can only match exact values.",
+    ]);
+  });
+
+  it('rejects property filters when they are not allowed', () => {
+    expect(parseSearchQuery('in:G1 color:red', { allowPropertyFilters: false }).errors).toEqual([
+      "Filter 'color:' is not supported here. Use 'in:', 'created:' or 'updated:'.",
+    ]);
+  });
+});
+
+describe('tokenizeSearchQuery', () => {
+  it('records token positions including the negation', () => {
+    expect(tokenizeSearchQuery('a -in:G1').map(({ kind, start, end }) => ({ kind, start, end }))).toEqual([
+      { kind: 'word', start: 0, end: 1 },
+      { kind: 'filter', start: 2, end: 8 },
+    ]);
+  });
+});
+
+describe('getSearchSuggestions', () => {
+  it('suggests filter keys for a partial word', () => {
+    const { suggestions, start, end } = getSearchSuggestions('drill co', 8, context);
+    expect(suggestions.map((suggestion) => suggestion.insertText)).toEqual(['color:']);
+    expect([start, end]).toEqual([6, 8]);
+  });
+
+  it('suggests locations by id or name', () => {
+    const { suggestions } = getSearchSuggestions('in:gar', 6, context);
+    expect(suggestions.map((suggestion) => suggestion.insertText)).toEqual(['in:G1', 'in:G2']);
+  });
+
+  it('suggests date ranges and quoted property values', () => {
+    expect(getSearchSuggestions('-updated:', 9, context).suggestions[1].insertText).toBe('-updated:>=2026-02-22');
+    expect(getSearchSuggestions('color:d', 7, context).suggestions.map((suggestion) => suggestion.insertText)).toEqual([
+      'color:"dark blue"',
+    ]);
+  });
+
+  it('suggests nothing inside phrases', () => {
+    expect(getSearchSuggestions('"in', 3, context).suggestions).toEqual([]);
+  });
+});
+
+describe('applySearchSuggestion', () => {
+  it('keeps the cursor on a key and adds a space after a value', () => {
+    expect(applySearchSuggestion('drill co', { start: 6, end: 8 }, { label: 'color:', insertText: 'color:' })).toEqual({
+      query: 'drill color:',
+      cursor: 12,
+    });
+    expect(applySearchSuggestion('in:g', { start: 0, end: 4 }, { label: 'G1', insertText: 'in:G1' })).toEqual({
+      query: 'in:G1 ',
+      cursor: 6,
+    });
+  });
+});
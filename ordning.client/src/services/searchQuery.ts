@@ -0,0 +1,290 @@
+/**
+ * Client side of the search query syntax understood by `/api/Item/search` and `/api/Location/search`:
+ *
+ *   in:G1 color:red -broken "power drill" updated:>2026-01-01
+ *
+ * Words are free text, "quoted text" is a phrase, a leading "-" excludes a word, phrase or filter,
+ * and key:value is a filter. `in:` matches a location and everything inside it, `created:` and
+ * `updated:` take a yyyy-MM-dd date with an optional >, >=, < or <=, and any other key matches an
+ * item property. The tokenizer mirrors SearchQuery.Parse on the server so that the input can show
+ * hints and catch mistakes before a request is sent.
+ */
+
+export const LOCATION_FILTER_KEY = 'in';
+export const CREATED_FILTER_KEY = 'created';
+export const UPDATED_FILTER_KEY = 'updated';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const FILTER_OPERATORS = ['>=', '<=', '>', '<', '='] as const;
+
+export type SearchFilterOperator = '=' | '>' | '>=' | '<' | '<=';
+
+export interface SearchToken {
+  kind: 'word' | 'phrase' | 'filter';
+  /** Position of the first character, including a leading "-". */
+  start: number;
+  /** Position after the last character. */
+  end: number;
+  negated: boolean;
+  /** The word, the phrase without quotes, or the filter value without quotes or operator. */
+  value: string;
+  key?: string;
+  operator?: SearchFilterOperator;
+}
+
+export interface SearchFilter {
+  key: string;
+  operator: SearchFilterOperator;
+  value: string;
+  negated: boolean;
+}
+
+export interface ParsedSearchQuery {
+  text: string;
+  phrases: string[];
+  excludedTerms: string[];
+  filters: SearchFilter[];
+  errors: string[];
+}
+
+export function isDateFilterKey(key: string): boolean {
+  const lowerKey = key.toLowerCase();
+  return lowerKey === CREATED_FILTER_KEY || lowerKey === UPDATED_FILTER_KEY;
+}
+
+export function isReservedFilterKey(key: string): boolean {
+  return key.toLowerCase() === LOCATION_FILTER_KEY || isDateFilterKey(key);
+}
+
+function isWhitespace(character: string): boolean {
+  return /\s/.test(character);
+}
+
+function readQuoted(query: string, position: number): { text: string; end: number } {
+  const closingQuote = query.indexOf('"', position + 1);
+  if (closingQuote < 0) {
+    return { text: query.slice(position + 1), end: query.length };
+  }
+  return { text: query.slice(position + 1, closingQuote), end: closingQuote + 1 };
+}
+
+function readUntilWhitespace(query: string, position: number): number {
+  let end = position;
+  while (end < query.length && !isWhitespace(query[end])) {
+    end++;
+  }
+  return end;
+}
+
+function splitOperator(rawValue: string): { operator: SearchFilterOperator; value: string } {
+  const operator = FILTER_OPERATORS.find((candidate) => rawValue.startsWith(candidate));
+  return operator
+    ? { operator, value: rawValue.slice(operator.length).trim() }
+    : { operator: '=', value: rawValue.trim() };
+}
+
+/** Splits a query into tokens with their positions. Unterminated quotes run to the end of the query. */
+export function tokenizeSearchQuery(query: string): SearchToken[] {
+  const tokens: SearchToken[] = [];
+  let position = 0;
+
+  while (position < query.length) {
+    if (isWhitespace(query[position])) {
+      position++;
+      continue;
+    }
+
+    const start = position;
+    let negated = false;
+    if (query[position] === '-' && position + 1 < query.length && !isWhitespace(query[position + 1])) {
+      negated = true;
+      position++;
+    }
+
+    if (query[position] === '"') {
+      const quoted = readQuoted(query, position);
+      tokens.push({ kind: 'phrase', start, end: quoted.end, negated, value: quoted.text.trim() });
+      position = quoted.end;
+      continue;
+    }
+
+    const keyStart = position;
+    while (position < query.length && !isWhitespace(query[position]) && query[position] !== ':' && query[position] !== '"') {
+      position++;
+    }
+
+    if (position < query.length && query[position] === ':' && position > keyStart) {
+      const key = query.slice(keyStart, position);
+      position++;
+      let rawValue: string;
+      if (position < query.length && query[position] === '"') {
+        const quoted = readQuoted(query, position);
+        rawValue = quoted.text;
+        position = quoted.end;
+      } else {
+        const valueEnd = readUntilWhitespace(query, position);
+        rawValue = query.slice(position, valueEnd);
+        position = valueEnd;
+      }
+      const { operator, value } = splitOperator(rawValue);
+      tokens.push({ kind: 'filter', start, end: position, negated, key, operator, value });
+      continue;
+    }
+
+    position = readUntilWhitespace(query, keyStart);
+    tokens.push({ kind: 'word', start, end: position, negated, value: query.slice(keyStart, position) });
+  }
+
+  return tokens;
+}
+
+export interface ParseSearchQueryOptions {
+  /** Whether keys other than in:, created: and updated: are allowed. Location search has no properties. */
+  allowPropertyFilters?: boolean;
+}
+
+/**
+ * Parses a query the same way the server does. Filters without a value are skipped, and
+ * problems the server would reject are returned as errors instead of thrown.
+ */
+export function parseSearchQuery(query: string, { allowPropertyFilters = true }: ParseSearchQueryOptions = {}): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { text: '', phrases: [], excludedTerms: [], filters: [], errors: [] };
+  const words: string[] = [];
+
+  for (const token of tokenizeSearchQuery(query)) {
+    if (token.kind === 'word') {
+      (token.negated ? parsed.excludedTerms : words).push(token.value);
+    } else if (token.kind === 'phrase') {
+      if (token.value) {
+        (token.negated ? parsed.excludedTerms : parsed.phrases).push(token.value);
+      }
+    } else if (token.key && token.operator && token.value) {
+      if (!allowPropertyFilters && !isReservedFilterKey(token.key)) {
+        parsed.errors.push(`Filter '${token.key}:' is not supported here. Use '${LOCATION_FILTER_KEY}:', '${CREATED_FILTER_KEY}:' or '${UPDATED_FILTER_KEY}:'.`);
+      } else if (isDateFilterKey(token.key) && !DATE_PATTERN.test(token.value)) {
+        parsed.errors.push(`'${token.value}' is not a valid date for '${token.key}:'. Use the format yyyy-MM-dd.`);
+      } else if (!isDateFilterKey(token.key) && token.operator !== '=') {
+        parsed.errors.push(`Filter '${token.key}:' can only match exact values.`);
+      }
+      parsed.filters.push({ key: token.key, operator: token.operator, value: token.value, negated: token.negated });
+    }
+  }
+
+  parsed.text = words.join(' ');
+  return parsed;
+}
+
+export interface SearchSuggestion {
+  label: string;
+  detail?: string;
+  /** Replaces the token at the cursor. */
+  insertText: string;
+}
+
+export interface SearchSuggestionLocation {
+  id: string;
+  name: string;
+}
+
+export interface SearchSuggestionContext {
+  locations: SearchSuggestionLocation[];
+  /** Known property values by key. Leave empty where properties can't be filtered on. */
+  propertyValues: Record<string, string[]>;
+  /** Today's date as yyyy-MM-dd, used for date hints. */
+  today: string;
+}
+
+export interface SearchSuggestions {
+  suggestions: SearchSuggestion[];
+  /** The range of the query that an accepted suggestion replaces. */
+  start: number;
+  end: number;
+}
+
+function quoteIfNeeded(value: string): string {
+  return /[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+function startsWithIgnoringCase(value: string, prefix: string): boolean {
+  return value.toLowerCase().startsWith(prefix.toLowerCase());
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+function getKeySuggestions(prefix: string, negation: string, context: SearchSuggestionContext): SearchSuggestion[] {
+  const keys: SearchSuggestion[] = [
+    { label: `${LOCATION_FILTER_KEY}:`, detail: 'In a location and everything inside it', insertText: `${negation}${LOCATION_FILTER_KEY}:` },
+    { label: `${UPDATED_FILTER_KEY}:`, detail: 'Last updated on, before or after a date', insertText: `${negation}${UPDATED_FILTER_KEY}:` },
+    { label: `${CREATED_FILTER_KEY}:`, detail: 'Created on, before or after a date', insertText: `${negation}${CREATED_FILTER_KEY}:` },
+    ...Object.keys(context.propertyValues)
+      .filter((key) => !isReservedFilterKey(key) && !/[\s:"]/.test(key))
+      .map((key) => ({ label: `${key}:`, detail: 'Property', insertText: `${negation}${key}:` })),
+  ];
+  return keys.filter((suggestion) => startsWithIgnoringCase(suggestion.label, prefix));
+}
+
+function getValueSuggestions(token: SearchToken, context: SearchSuggestionContext): SearchSuggestion[] {
+  const key = token.key || '';
+  const negation = token.negated ? '-' : '';
+  const prefix = token.value;
+
+  if (key.toLowerCase() === LOCATION_FILTER_KEY) {
+    const lowerPrefix = prefix.toLowerCase();
+    return context.locations
+      .filter((location) => location.id.toLowerCase().startsWith(lowerPrefix) || location.name.toLowerCase().includes(lowerPrefix))
+      .map((location) => ({ label: location.id, detail: location.name, insertText: `${negation}${key}:${quoteIfNeeded(location.id)}` }));
+  }
+
+  if (isDateFilterKey(key)) {
+    if (prefix) {
+      return [];
+    }
+    return [
+      { label: 'Today', detail: context.today, insertText: `${negation}${key}:${context.today}` },
+      { label: 'Last 7 days', detail: `>=${shiftDate(context.today, -7)}`, insertText: `${negation}${key}:>=${shiftDate(context.today, -7)}` },
+      { label: 'Last 30 days', detail: `>=${shiftDate(context.today, -30)}`, insertText: `${negation}${key}:>=${shiftDate(context.today, -30)}` },
+      { label: 'Before a date', detail: `<${context.today}`, insertText: `${negation}${key}:<${context.today}` },
+    ];
+  }
+
+  const values = context.propertyValues[key] || [];
+  return values
+    .filter((value) => startsWithIgnoringCase(value, prefix) && value !== prefix)
+    .map((value) => ({ label: value, detail: key, insertText: `${negation}${key}:${quoteIfNeeded(value)}` }));
+}
+
+/** Suggests filter keys and values for the token at the cursor. */
+export function getSearchSuggestions(
+  query: string,
+  cursor: number,
+  context: SearchSuggestionContext,
+  limit = 8,
+): SearchSuggestions {
+  const token = tokenizeSearchQuery(query).find((candidate) => candidate.start <= cursor && cursor <= candidate.end);
+  if (!token || token.kind === 'phrase') {
+    return { suggestions: [], start: cursor, end: cursor };
+  }
+
+  const suggestions = token.kind === 'filter'
+    ? getValueSuggestions(token, context)
+    : getKeySuggestions(token.value, token.negated ? '-' : '', context);
+
+  return { suggestions: suggestions.slice(0, limit), start: token.start, end: token.end };
+}
+
+/** Replaces the suggested range and returns the new query with the cursor after the inserted text. */
+export function applySearchSuggestion(
+  query: string,
+  range: Pick<SearchSuggestions, 'start' | 'end'>,
+  suggestion: SearchSuggestion,
+): { query: string; cursor: number } {
+  const after = query.slice(range.end);
+  const isFilterKey = suggestion.insertText.endsWith(':');
+  const separator = isFilterKey || after.startsWith(' ') ? '' : ' ';
+  const nextQuery = `${query.slice(0, range.start)}${suggestion.insertText}${separator}${after}`;
+  return { query: nextQuery, cursor: range.start + suggestion.insertText.length + separator.length };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { getSharedChildren, getSharedItems, getSharedPath, getShareUrl } from './shareLinks';
+
+const shared = {
+  locationId: 'hallway',
+  locations: [
+    { id: 'hallway', name: 'Hallway', parentLocationId: 'house' },
+    { id: 'key-cabinet', name: 'Key cabinet', parentLocationId: 'hallway' },
+    { id: 'top-hook', name: 'Top hook', parentLocationId: 'key-cabinet' },
+  ],
+  items: [
+    { id: '1', name: 'Spare keys', locationId: 'top-hook' },
+    { id: '2', name: 'First aid kit', locationId: 'hallway' },
+  ],
+};
+
+describe('getShareUrl', () => {
+  it('links to the share page of the token', () => {
+    expect(getShareUrl('abc.def', 'https://ordning.example')).toBe('https://ordning.example/share/abc.def');
+  });
+});
+
+describe('getSharedPath', () => {
+  it('walks up to the shared location but not above it', () => {
+    expect(getSharedPath(shared, 'top-hook').map((location) => location.id)).toEqual(['hallway', 'key-cabinet', 'top-hook']);
+    expect(getSharedPath(shared, 'hallway').map((location) => location.id)).toEqual(['hallway']);
+  });
+
+  it('is empty for locations that are not shared', () => {
+    expect(getSharedPath(shared, 'house')).toEqual([]);
+  });
+});
+
+describe('getSharedChildren and getSharedItems', () => {
+  it('only return what is directly in the location', () => {
+    expect(getSharedChildren(shared, 'hallway').map((location) => location.id)).toEqual(['key-cabinet']);
+    expect(getSharedItems(shared, 'hallway').map((item) => item.name)).toEqual(['First aid kit']);
+  });
+});
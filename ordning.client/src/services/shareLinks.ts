@@ -0,0 +1,46 @@
+/**
+ * Share links let people without an account look at a location and everything below it, such as a
+ * babysitter who needs to find the first aid kit. A link is signed by the server and stops working when
+ * it expires or when a workspace admin revokes it.
+ */
+import type { components } from '../types/api';
+
+type Location = components['schemas']['Location'];
+type Item = components['schemas']['Item'];
+type SharedLocation = components['schemas']['SharedLocation'];
+
+export const SHARE_LINK_DURATIONS = [
+  { hours: 24, label: '1 day' },
+  { hours: 24 * 7, label: '1 week' },
+  { hours: 24 * 30, label: '30 days' },
+  { hours: 24 * 90, label: '90 days' },
+] as const;
+
+export function getShareUrl(token: string, origin: string = window.location.origin): string {
+  return `${origin}/share/${encodeURIComponent(token)}`;
+}
+
+/** The shared locations from the top of the share down to a location, or an empty list if it is not shared. */
+export function getSharedPath(shared: SharedLocation, locationId: string): Location[] {
+  const locationsById = new Map((shared.locations || []).map((location) => [location.id, location]));
+  const path: Location[] = [];
+
+  let current = locationsById.get(locationId);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    if (current.id === shared.locationId) {
+      return path;
+    }
+    current = current.parentLocationId ? locationsById.get(current.parentLocationId) : undefined;
+  }
+
+  return [];
+}
+
+export function getSharedChildren(shared: SharedLocation, locationId: string): Location[] {
+  return (shared.locations || []).filter((location) => location.parentLocationId === locationId);
+}
+
+export function getSharedItems(shared: SharedLocation, locationId: string): Item[] {
+  return (shared.items || []).filter((item) => item.locationId === locationId);
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { isOwnedByUser, isQueueableMutation } from './syncService';
+
+describe('isQueueableMutation', () => {
+  it('queues changes to items and locations', () => {
+    expect(isQueueableMutation('POST', '/api/Item')).toBe(true);
+    expect(isQueueableMutation('PUT', '/api/Item/1/quantity')).toBe(true);
+    expect(isQueueableMutation('DELETE', '/api/Location/1')).toBe(true);
+    expect(isQueueableMutation('POST', '/api/Location/restore')).toBe(true);
+  });
+
+  it('does not queue reads', () => {
+    expect(isQueueableMutation('GET', '/api/Item/1')).toBe(false);
+  });
+
+  it('does not queue sign in, accounts, passkeys or share links', () => {
+    expect(isQueueableMutation('POST', '/api/auth/login')).toBe(false);
+    expect(isQueueableMutation('POST', '/api/Session')).toBe(false);
+    expect(isQueueableMutation('POST', '/api/User')).toBe(false);
+    expect(isQueueableMutation('PUT', '/api/User/1/password')).toBe(false);
+    expect(isQueueableMutation('POST', '/api/Passkey/registration')).toBe(false);
+    expect(isQueueableMutation('POST', '/api/Share')).toBe(false);
+  });
+
+  it('does not queue templates, access rules or photos', () => {
+    expect(isQueueableMutation('POST', '/api/ItemTemplate')).toBe(false);
+    expect(isQueueableMutation('PUT', '/api/Location/1/access')).toBe(false);
+    expect(isQueueableMutation('POST', '/api/Item/1/images')).toBe(false);
+  });
+});
+
+describe('isOwnedByUser', () => {
+  it('only gives a user their own cached data and changes', () => {
+    expect(isOwnedByUser({ userId: 'anna' }, 'anna')).toBe(true);
+    expect(isOwnedByUser({ userId: 'anna' }, 'bert')).toBe(false);
+  });
+
+  it('leaves entries without a user alone, and everything when nobody is signed in', () => {
+    expect(isOwnedByUser({}, 'anna')).toBe(false);
+    expect(isOwnedByUser({ userId: null }, 'anna')).toBe(false);
+    expect(isOwnedByUser({ userId: 'anna' }, null)).toBe(false);
+  });
+});
@@ -0,0 +1,310 @@
+import toast from 'react-hot-toast';
+import { getToken, getTokenUserId, onSessionChange } from './authService';
+import {
+  addQueuedMutation,
+  clearOfflineStores,
+  getCachedResponse,
+  getQueuedMutations,
+  putCachedResponse,
+  removeQueuedMutation,
+  type QueuedMutation,
+} from './offlineStore';
+import { WORKSPACE_HEADER } from './workspaces';
+
+export interface SyncStatus {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+}
+
+// Header set on responses produced locally instead of by the server
+export const OFFLINE_RESPONSE_HEADER = 'X-Ordning-Offline';
+
+const CACHEABLE_PATH_PREFIXES = ['/api/Location', '/api/Item'];
+const MUTATION_METHODS = ['POST', 'PUT', 'DELETE'];
+
+// Only changes to items and locations are queued. Everything else, such as passwords, users and share links,
+// must reach the server before the user is told it worked. Access rules and photo uploads are left out too.
+const QUEUEABLE_PATH_PREFIXES = ['/api/Location', '/api/Item'];
+const UNQUEUEABLE_PATH_PATTERN = /^\/api\/(Location|Item)\/[^/]+\/(access|images)$/;
+
+let status: SyncStatus = {
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  isSyncing: false,
+  pendingCount: 0,
+};
+
+const listeners = new Set<() => void>();
+
+function setStatus(changes: Partial<SyncStatus>) {
+  status = { ...status, ...changes };
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeToSyncStatus(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+function getCurrentUserId(): string | null {
+  return getTokenUserId(getToken());
+}
+
+/**
+ * Whether a cached response or queued change belongs to the given user. Entries of other users are never served
+ * or sent, since the server would apply the changes as whoever is signed in now.
+ */
+export function isOwnedByUser(entry: { userId?: string | null }, userId: string | null): boolean {
+  return userId !== null && entry.userId === userId;
+}
+
+async function getOwnQueuedMutations(): Promise<QueuedMutation[]> {
+  const userId = getCurrentUserId();
+  return (await getQueuedMutations()).filter((mutation) => isOwnedByUser(mutation, userId));
+}
+
+async function countOwnQueuedMutations(): Promise<number> {
+  return (await getOwnQueuedMutations()).length;
+}
+
+// Each workspace has its own data behind the same URLs, so cached responses are kept apart per workspace
+function getCacheKey(request: Request): string {
+  const parsedUrl = new URL(request.url, window.location.origin);
+  const workspaceId = request.headers.get(WORKSPACE_HEADER);
+  return `${workspaceId ? `${workspaceId}:` : ''}${parsedUrl.pathname}${parsedUrl.search}`;
+}
+
+export function isCacheableRequest(request: Request): boolean {
+  if (request.method !== 'GET') {
+    return false;
+  }
+
+  const pathname = new URL(request.url, window.location.origin).pathname;
+  return CACHEABLE_PATH_PREFIXES.some((prefix) => pathname.startsWith(prefix));
+}
+
+export function isMutationRequest(request: Request): boolean {
+  return MUTATION_METHODS.includes(request.method);
+}
+
+/**
+ * Whether a mutation to the given path can be queued while offline and sent later.
+ */
+export function isQueueableMutation(method: string, pathname: string): boolean {
+  if (!MUTATION_METHODS.includes(method) || UNQUEUEABLE_PATH_PATTERN.test(pathname)) {
+    return false;
+  }
+
+  return QUEUEABLE_PATH_PREFIXES.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+}
+
+export function isQueueableRequest(request: Request): boolean {
+  return isQueueableMutation(request.method, new URL(request.url, window.location.origin).pathname);
+}
+
+export function isNetworkOffline(): boolean {
+  return !navigator.onLine;
+}
+
+function createOfflineResponse(status: number, body: string | null): Response {
+  return new Response(body, {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      [OFFLINE_RESPONSE_HEADER]: 'true',
+    },
+  });
+}
+
+/**
+ * Stores the body of a successful GET response so it can be served while offline.
+ */
+export async function cacheResponse(request: Request, response: Response): Promise<void> {
+  try {
+    const body = await response.clone().text();
+    await putCachedResponse({
+      key: getCacheKey(request),
+      status: response.status,
+      body,
+      userId: getCurrentUserId(),
+      cachedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Failed to cache response:', error);
+  }
+}
+
+/**
+ * Builds a response from the offline cache, or a 503 response if the request was never cached.
+ */
+export async function getOfflineResponse(request: Request): Promise<Response> {
+  try {
+    const cached = await getCachedResponse(getCacheKey(request));
+    if (cached && isOwnedByUser(cached, getCurrentUserId())) {
+      return createOfflineResponse(cached.status, cached.body);
+    }
+  } catch (error) {
+    console.error('Failed to read offline cache:', error);
+  }
+
+  return createOfflineResponse(
+    503,
+    JSON.stringify({ message: 'You are offline and this data has not been loaded before.' }),
+  );
+}
+
+/**
+ * Fails a mutation that cannot be queued, since there is no connection to send it over.
+ */
+export function getOfflineMutationResponse(): Response {
+  return createOfflineResponse(
+    503,
+    JSON.stringify({ message: 'You are offline. This change can only be made with a connection.' }),
+  );
+}
+
+/**
+ * Queues a mutation for replay once the connection returns. Answers with an empty 202 Accepted, since nothing
+ * has been created or changed yet; callers tell it apart with `unwrapMutationResponse`.
+ */
+export async function queueMutation(request: Request): Promise<Response> {
+  const body = request.body ? await request.clone().text() : null;
+
+  await addQueuedMutation({
+    method: request.method,
+    url: request.url,
+    body,
+    contentType: request.headers.get('Content-Type'),
+    workspaceId: request.headers.get(WORKSPACE_HEADER),
+    userId: getCurrentUserId(),
+    queuedAt: new Date().toISOString(),
+  });
+
+  setStatus({ isOnline: false, pendingCount: status.pendingCount + 1 });
+  toast('You are offline. The change will be synced when the connection returns.', { id: 'offline-queued' });
+
+  return createOfflineResponse(202, 'null');
+}
+
+/**
+ * Replays the queued mutations of the signed in user in the order they were made. Replay stops at the first network
+ * failure or expired session so that no change is lost; changes rejected by the server are dropped. Changes queued by
+ * another user stay in the queue until they sign in again or someone signs out.
+ */
+export async function replayQueuedMutations(): Promise<void> {
+  if (status.isSyncing || isNetworkOffline()) {
+    return;
+  }
+
+  setStatus({ isSyncing: true });
+
+  try {
+    const mutations = await getOwnQueuedMutations();
+    let failedCount = 0;
+
+    for (const mutation of mutations) {
+      const headers = new Headers();
+      if (mutation.contentType) {
+        headers.set('Content-Type', mutation.contentType);
+      }
+
+      const token = getToken();
+      if (token) {
+        headers.set('Authorization', `Bearer ${token}`);
+      }
+
+      // Changes are replayed in the workspace they were made in, even if another one has been picked since
+      if (mutation.workspaceId) {
+        headers.set(WORKSPACE_HEADER, mutation.workspaceId);
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(mutation.url, {
+          method: mutation.method,
+          headers,
+          body: mutation.body,
+        });
+      } catch {
+        setStatus({ isOnline: false });
+        break;
+      }
+
+      if (response.status === 401) {
+        break;
+      }
+
+      if (!response.ok) {
+        failedCount++;
+        console.error(`Queued ${mutation.method} ${mutation.url} was rejected with status ${response.status}`);
+      }
+
+      if (mutation.id !== undefined) {
+        await removeQueuedMutation(mutation.id);
+      }
+      setStatus({ pendingCount: Math.max(0, status.pendingCount - 1) });
+    }
+
+    if (failedCount > 0) {
+      toast.error(`${failedCount} offline change${failedCount === 1 ? '' : 's'} could not be synced`);
+    }
+  } catch (error) {
+    console.error('Failed to replay queued changes:', error);
+  } finally {
+    const pendingCount = await countOwnQueuedMutations().catch(() => status.pendingCount);
+    setStatus({ isSyncing: false, pendingCount });
+  }
+}
+
+function resumeQueuedMutations() {
+  countOwnQueuedMutations()
+    .then((pendingCount) => {
+      setStatus({ pendingCount });
+      if (pendingCount > 0) {
+        void replayQueuedMutations();
+      }
+    })
+    .catch((error) => console.error('Failed to read queued changes:', error));
+}
+
+/**
+ * Starts tracking connectivity and replays any changes left in the queue from a previous session.
+ */
+export function initializeSync() {
+  window.addEventListener('online', () => {
+    setStatus({ isOnline: true });
+    void replayQueuedMutations();
+  });
+
+  window.addEventListener('offline', () => {
+    setStatus({ isOnline: false });
+  });
+
+  resumeQueuedMutations();
+
+  // Only the changes of the signed in user are counted and sent, so look again when someone signs in
+  onSessionChange((state) => {
+    if (state === 'active') {
+      resumeQueuedMutations();
+    }
+  });
+}
+
+/**
+ * Removes the cached data and unsent changes of the user who is signing out.
+ */
+export async function clearOfflineData(): Promise<void> {
+  try {
+    await clearOfflineStores();
+  } catch (error) {
+    console.error('Failed to clear offline data:', error);
+  } finally {
+    setStatus({ pendingCount: 0 });
+  }
+}
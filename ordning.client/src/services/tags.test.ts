@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { addTag, getTagSuggestions, removeTag } from './tags';
+
+const knownTags = [
+  { name: 'Winter', itemCount: 2, locationCount: 0 },
+  { name: 'Power tools', itemCount: 9, locationCount: 1 },
+  { name: 'Tools', itemCount: 3, locationCount: 0 },
+];
+
+describe('addTag', () => {
+  it('trims tags and uses the spelling of a known tag', () => {
+    expect(addTag([], '  winter ', knownTags)).toEqual(['Winter']);
+    expect(addTag(['Winter'], 'Borrowed', knownTags)).toEqual(['Winter', 'Borrowed']);
+  });
+
+  it('skips empty tags and tags already in the list ignoring case', () => {
+    const tags = ['Winter'];
+    expect(addTag(tags, ' ')).toBe(tags);
+    expect(addTag(tags, 'WINTER')).toBe(tags);
+  });
+});
+
+describe('removeTag', () => {
+  it('removes a tag ignoring case', () => {
+    expect(removeTag(['Winter', 'Tools'], 'tools')).toEqual(['Winter']);
+  });
+});
+
+describe('getTagSuggestions', () => {
+  it('lists tags starting with the text before tags containing it and leaves out selected tags', () => {
+    expect(getTagSuggestions(knownTags, 'to', [])).toEqual(['Tools', 'Power tools']);
+    expect(getTagSuggestions(knownTags, 'to', ['tools'])).toEqual(['Power tools']);
+    expect(getTagSuggestions(knownTags, ' ', [])).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Tags label items and locations across the location tree, such as "winter" or "borrowed". Tag names
+ * are matched ignoring case, and the server keeps the spelling of a tag that is already in use.
+ */
+import type { components } from '../types/api';
+
+type Tag = components['schemas']['Tag'];
+
+export const TAG_PARAM = 'tag';
+export const MAX_TAG_LENGTH = 50;
+
+export function isSameTag(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Adds a typed tag to a list, trimmed and spelled like an existing tag with the same name.
+ * Empty tags and tags already in the list are skipped.
+ */
+export function addTag(tags: string[], tag: string, knownTags: Tag[] = []): string[] {
+  const trimmed = tag.trim();
+  if (!trimmed || tags.some((existing) => isSameTag(existing, trimmed))) {
+    return tags;
+  }
+
+  const known = knownTags.find((knownTag) => isSameTag(knownTag.name || '', trimmed));
+  return [...tags, known?.name || trimmed];
+}
+
+export function removeTag(tags: string[], tag: string): string[] {
+  return tags.filter((existing) => !isSameTag(existing, tag));
+}
+
+/**
+ * Suggests known tags for what has been typed so far: tags starting with the text first, then
+ * tags containing it, most used first within each group. Tags already in the list are left out.
+ */
+export function getTagSuggestions(knownTags: Tag[], text: string, selectedTags: string[], limit = 8): string[] {
+  const lowerText = text.trim().toLowerCase();
+  if (!lowerText) return [];
+
+  const usage = (tag: Tag) => (tag.itemCount || 0) + (tag.locationCount || 0);
+  return knownTags
+    .filter((tag) => tag.name && tag.name.toLowerCase().includes(lowerText))
+    .filter((tag) => !selectedTags.some((selected) => isSameTag(selected, tag.name || '')))
+    .sort((a, b) => {
+      const aStarts = (a.name || '').toLowerCase().startsWith(lowerText) ? 0 : 1;
+      const bStarts = (b.name || '').toLowerCase().startsWith(lowerText) ? 0 : 1;
+      return aStarts - bStarts || usage(b) - usage(a) || (a.name || '').localeCompare(b.name || '');
+    })
+    .slice(0, limit)
+    .map((tag) => tag.name || '');
+}
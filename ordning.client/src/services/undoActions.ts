@@ -0,0 +1,138 @@
+/**
+ * Requests that put items and locations back the way they were, used by the Undo action on
+ * mutation toasts. Deleted items and locations are re-created by the server from the audit log
+ * with their original IDs, so only the IDs are needed to restore them.
+ */
+import { apiClient, unwrapMutationResponse, unwrapResponse } from './apiClient';
+import { groupItemIdsByLocation } from './itemDrag';
+import type { components } from '../types/api';
+
+type Item = components['schemas']['Item'];
+type ItemSplitResult = components['schemas']['ItemSplitResult'];
+type Location = components['schemas']['Location'];
+
+export async function moveItemsTo(itemIds: string[], locationId: string): Promise<void> {
+  if (itemIds.length === 0) return;
+
+  await unwrapMutationResponse<number>(apiClient.POST('/api/Item/move', {
+    body: {
+      itemIds,
+      newLocationId: locationId,
+    },
+  }));
+}
+
+/** Moves items back to where the given snapshots say they were, one request per location. */
+export async function moveItemsBack(previousItems: Item[], itemIds: string[]): Promise<void> {
+  for (const [locationId, groupItemIds] of groupItemIdsByLocation(previousItems, itemIds)) {
+    await moveItemsTo(groupItemIds, locationId);
+  }
+}
+
+export async function restoreItems(itemIds: string[]): Promise<void> {
+  if (itemIds.length === 0) return;
+
+  await unwrapMutationResponse<Item[]>(apiClient.POST('/api/Item/restore', {
+    body: {
+      itemIds,
+    },
+  }));
+}
+
+/** Restores deleted locations. The server restores parents before children, whatever the order here. */
+export async function restoreLocations(locationIds: string[]): Promise<void> {
+  if (locationIds.length === 0) return;
+
+  await unwrapMutationResponse<Location[]>(apiClient.POST('/api/Location/restore', {
+    body: {
+      locationIds,
+    },
+  }));
+}
+
+/** Puts an item's name, description, properties, quantity and tags back to a snapshot. */
+export async function revertItem(previousItem: Item): Promise<void> {
+  if (!previousItem.id) return;
+
+  await unwrapMutationResponse<Item>(apiClient.PUT('/api/Item/{id}', {
+    params: {
+      path: {
+        id: previousItem.id,
+      },
+    },
+    body: {
+      name: previousItem.name,
+      description: previousItem.description,
+      properties: previousItem.properties,
+      quantity: previousItem.quantity,
+      unit: previousItem.unit,
+      minQuantity: previousItem.minQuantity,
+      tags: previousItem.tags,
+    },
+  }));
+}
+
+/** Puts a location's name, description, parent and tags back to a snapshot. */
+export async function revertLocation(previousLocation: Location): Promise<void> {
+  if (!previousLocation.id) return;
+
+  await unwrapMutationResponse<Location>(apiClient.PUT('/api/Location/{id}', {
+    params: {
+      path: {
+        id: previousLocation.id,
+      },
+    },
+    body: {
+      name: previousLocation.name,
+      description: previousLocation.description,
+      parentLocationId: previousLocation.parentLocationId,
+      tags: previousLocation.tags,
+    },
+  }));
+}
+
+/** Moves locations under a parent, keeping their current name and description. */
+export async function moveLocationsInto(locationIds: string[], parentLocationId: string): Promise<void> {
+  for (const locationId of locationIds) {
+    const location = await unwrapResponse<Location>(apiClient.GET('/api/Location/{id}', {
+      params: {
+        path: {
+          id: locationId,
+        },
+      },
+    }));
+    await revertLocation({ ...location, parentLocationId });
+  }
+}
+
+export async function adjustItemQuantity(itemId: string, delta: number): Promise<void> {
+  await unwrapMutationResponse<Item>(apiClient.POST('/api/Item/{id}/quantity', {
+    params: {
+      path: {
+        id: itemId,
+      },
+    },
+    body: {
+      delta,
+    },
+  }));
+}
+
+/**
+ * Takes a split-off quantity back to the item it came from. An item created by the split is
+ * deleted; an item the quantity was merged into gives it back.
+ */
+export async function undoSplitItem(result: ItemSplitResult, quantity: number): Promise<void> {
+  if (!result.source?.id || !result.target?.id) return;
+
+  if (result.merged) {
+    await adjustItemQuantity(result.target.id, -quantity);
+  } else {
+    await unwrapMutationResponse<number>(apiClient.POST('/api/Item/delete', {
+      body: {
+        itemIds: [result.target.id],
+      },
+    }));
+  }
+  await adjustItemQuantity(result.source.id, quantity);
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { createUndoHistory } from './undoHistory';
+
+const noop = async () => {};
+
+describe('createUndoHistory', () => {
+  it('hands out each command once', () => {
+    const history = createUndoHistory(1000);
+    const command = history.push('Moved 1 item', noop, 0);
+
+    expect(history.take(command.id, 500)).toBe(command);
+    expect(history.take(command.id, 500)).toBeUndefined();
+  });
+
+  it('forgets commands once their window has passed', () => {
+    const history = createUndoHistory(1000);
+    const command = history.push('Deleted 1 item', noop, 0);
+
+    expect(history.take(command.id, 1000)).toBeUndefined();
+    expect(history.takeLatest(1000)).toBeUndefined();
+  });
+
+  it('takes the most recent command first', () => {
+    const history = createUndoHistory(1000);
+    const first = history.push('first', noop, 0);
+    const second = history.push('second', noop, 100);
+
+    expect(history.takeLatest(200)).toBe(second);
+    expect(history.takeLatest(200)).toBe(first);
+    expect(history.takeLatest(200)).toBeUndefined();
+  });
+
+  it('keeps only the newest commands', () => {
+    const history = createUndoHistory(1000, 2);
+    const first = history.push('first', noop, 0);
+    history.push('second', noop, 0);
+    history.push('third', noop, 0);
+
+    expect(history.take(first.id, 0)).toBeUndefined();
+    expect(history.takeLatest(0)?.label).toBe('third');
+  });
+});
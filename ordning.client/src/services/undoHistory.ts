@@ -0,0 +1,57 @@
+/**
+ * Client-side history of actions that can still be undone. Every mutation that shows a success
+ * toast pushes a command here, and the command stays undoable for a short window: long enough to
+ * catch a mis-tap, short enough that undoing can't clobber later changes by surprise.
+ */
+
+export const UNDO_WINDOW_MS = 6000;
+
+export interface UndoCommand {
+  id: number;
+  /** What was done, shown in the toast. */
+  label: string;
+  /** Reverts the action. Rejects if the server refuses. */
+  undo: () => Promise<void>;
+  expiresAt: number;
+}
+
+export interface UndoHistory {
+  push: (label: string, undo: () => Promise<void>, now?: number) => UndoCommand;
+  /** Removes and returns a command if it can still be undone, so that it runs at most once. */
+  take: (id: number, now?: number) => UndoCommand | undefined;
+  /** Removes and returns the most recent command that can still be undone. */
+  takeLatest: (now?: number) => UndoCommand | undefined;
+}
+
+export function createUndoHistory(windowMs = UNDO_WINDOW_MS, limit = 20): UndoHistory {
+  let commands: UndoCommand[] = [];
+  let nextId = 1;
+
+  const dropExpired = (now: number) => {
+    commands = commands.filter((command) => command.expiresAt > now);
+  };
+
+  const remove = (command: UndoCommand | undefined) => {
+    if (command) {
+      commands = commands.filter((candidate) => candidate !== command);
+    }
+    return command;
+  };
+
+  return {
+    push: (label, undo, now = Date.now()) => {
+      dropExpired(now);
+      const command: UndoCommand = { id: nextId++, label, undo, expiresAt: now + windowMs };
+      commands = [...commands, command].slice(-limit);
+      return command;
+    },
+    take: (id, now = Date.now()) => {
+      dropExpired(now);
+      return remove(commands.find((command) => command.id === id));
+    },
+    takeLatest: (now = Date.now()) => {
+      dropExpired(now);
+      return remove(commands[commands.length - 1]);
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import toast from 'react-hot-toast';
+import { createUndoHistory, UNDO_WINDOW_MS } from './undoHistory';
+
+const history = createUndoHistory();
+const undoListeners = new Set<() => void>();
+
+function getToastId(commandId: number): string {
+  return `undo-${commandId}`;
+}
+
+/** Runs after every successful undo, so that views showing the reverted data can reload it. */
+export function subscribeToUndo(listener: () => void): () => void {
+  undoListeners.add(listener);
+  return () => {
+    undoListeners.delete(listener);
+  };
+}
+
+async function runUndo(label: string, undo: () => Promise<void>) {
+  const toastId = toast.loading('Undoing...');
+  try {
+    await undo();
+    toast.success(`Undone: ${label}`, { id: toastId });
+    undoListeners.forEach((listener) => listener());
+  } catch (error) {
+    console.error('Failed to undo:', error);
+    toast.error(error instanceof Error && error.message ? `Could not undo: ${error.message}` : 'Could not undo', { id: toastId });
+  }
+}
+
+/**
+ * Shows a success toast with an Undo button that stays undoable for a few seconds. Use it instead
+ * of `toast.success` for moves, edits and deletes.
+ */
+export function showUndoToast(message: string, undo: () => Promise<void>) {
+  const command = history.push(message, undo);
+
+  toast.success((t) => (
+    <span className="flex items-center gap-3">
+      <span>{message}</span>
+      <button
+        type="button"
+        onClick={() => {
+          toast.dismiss(t.id);
+          const pending = history.take(command.id);
+          if (pending) {
+            runUndo(pending.label, pending.undo);
+          }
+        }}
+        className="shrink-0 rounded px-2 py-1 text-sm font-medium text-[var(--brand-color-light)] hover:bg-[var(--elevation-level-3-dark)]"
+      >
+        Undo
+      </button>
+    </span>
+  ), { id: getToastId(command.id), duration: UNDO_WINDOW_MS });
+}
+
+/** Undoes the most recent action that can still be undone. Returns false when there is none. */
+export function undoLatest(): boolean {
+  const command = history.takeLatest();
+  if (!command) {
+    return false;
+  }
+  toast.dismiss(getToastId(command.id));
+  runUndo(command.label, command.undo);
+  return true;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { hasWorkspaceRole, pickWorkspace } from './workspaces';
+
+const workspaces = [
+  { id: 'cabin', name: 'Cabin', role: null },
+  { id: 'home', name: 'Home', role: 'admin' },
+  { id: 'makerspace', name: 'Makerspace', role: 'read' },
+];
+
+describe('pickWorkspace', () => {
+  it('keeps the remembered workspace while the user is a member', () => {
+    expect(pickWorkspace(workspaces, 'makerspace')?.id).toBe('makerspace');
+  });
+
+  it('falls back to the first workspace with a role', () => {
+    expect(pickWorkspace(workspaces, null)?.id).toBe('home');
+    expect(pickWorkspace(workspaces, 'cabin')?.id).toBe('home');
+    expect(pickWorkspace(workspaces, 'removed')?.id).toBe('home');
+    expect(pickWorkspace([], 'home')).toBeUndefined();
+  });
+});
+
+describe('hasWorkspaceRole', () => {
+  it('lets each role do what the roles before it can do', () => {
+    expect(hasWorkspaceRole('admin', 'write')).toBe(true);
+    expect(hasWorkspaceRole('Write', 'write')).toBe(true);
+    expect(hasWorkspaceRole('read', 'write')).toBe(false);
+    expect(hasWorkspaceRole(null, 'read')).toBe(false);
+  });
+});
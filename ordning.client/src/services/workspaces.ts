@@ -0,0 +1,48 @@
+/**
+ * Workspaces keep the inventories of households or groups that share a server apart. The workspace a
+ * user works in is remembered in the browser and sent with every request, and the server checks that
+ * the user is a member with a role that allows the request.
+ */
+import type { components } from '../types/api';
+
+type Workspace = components['schemas']['Workspace'];
+
+export const WORKSPACE_HEADER = 'X-Workspace-Id';
+export const WORKSPACE_ROLES = ['read', 'write', 'admin'] as const;
+
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+export const WORKSPACE_ROLE_LABELS: Record<string, string> = {
+  read: 'Read',
+  write: 'Write',
+  admin: 'Admin',
+};
+
+const WORKSPACE_STORAGE_KEY = 'workspace_id';
+
+export function getCurrentWorkspaceId(): string | null {
+  return localStorage.getItem(WORKSPACE_STORAGE_KEY);
+}
+
+export function setCurrentWorkspaceId(id: string | null): void {
+  if (id) {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, id);
+  } else {
+    localStorage.removeItem(WORKSPACE_STORAGE_KEY);
+  }
+}
+
+/**
+ * Picks the workspace to work in: the remembered one if the user can still open it, otherwise the
+ * first workspace the user is a member of. Workspaces without a role are only listed for global admins.
+ */
+export function pickWorkspace(workspaces: Workspace[], currentId: string | null): Workspace | undefined {
+  return workspaces.find((workspace) => workspace.id === currentId && !!workspace.role)
+    || workspaces.find((workspace) => !!workspace.role);
+}
+
+/** Whether a role allows what the minimum role allows, since each role includes the ones before it. */
+export function hasWorkspaceRole(role: string | null | undefined, minimumRole: WorkspaceRole): boolean {
+  const index = WORKSPACE_ROLES.indexOf((role || '').toLowerCase() as WorkspaceRole);
+  return index >= 0 && index >= WORKSPACE_ROLES.indexOf(minimumRole);
+}
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept separate from vite.config.ts so running tests does not need the dev server certificates
+export default defineConfig({
+    test: {
+        include: ['src/**/*.test.ts'],
+        environment: 'node',
+    },
+})